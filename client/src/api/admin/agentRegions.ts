@@ -0,0 +1,81 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { authedFetch } from "../utils";
+
+export interface AgentRegion {
+  code: string;
+  name: string;
+  endpointUrl: string | null;
+  connectionMode: "push" | "pull";
+  enabled: boolean | null;
+  draining: boolean;
+  isHealthy: boolean | null;
+  lastHealthCheck: string | null;
+  agentVersion: string | null;
+  capacity: number | null;
+  inFlight: number | null;
+  lastHeartbeatAt: string | null;
+  registeredAt: string | null;
+  queuedJobs: number;
+}
+
+export interface EnrollmentToken {
+  token: string;
+  regionCode: string;
+  expiresAt: string;
+}
+
+async function getAgentRegions() {
+  return authedFetch<{ regions: AgentRegion[] }>("/uptime/agent-regions");
+}
+
+async function createEnrollmentToken(data: { regionCode: string; regionName: string; expiresInHours: number }) {
+  return authedFetch<EnrollmentToken>("/uptime/agent-regions/enrollment-tokens", undefined, {
+    method: "POST",
+    data,
+  });
+}
+
+async function updateAgentRegion(code: string, data: { name?: string; enabled?: boolean; draining?: boolean }) {
+  return authedFetch(`/uptime/agent-regions/${encodeURIComponent(code)}`, undefined, { method: "PATCH", data });
+}
+
+async function deleteAgentRegion(code: string) {
+  return authedFetch(`/uptime/agent-regions/${encodeURIComponent(code)}`, undefined, { method: "DELETE" });
+}
+
+export function useAgentRegions() {
+  return useQuery({
+    queryKey: ["admin-agent-regions"],
+    queryFn: getAgentRegions,
+    refetchInterval: 30000,
+  });
+}
+
+export function useCreateEnrollmentToken() {
+  return useMutation({
+    mutationFn: createEnrollmentToken,
+  });
+}
+
+export function useUpdateAgentRegion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ code, data }: { code: string; data: { name?: string; enabled?: boolean; draining?: boolean } }) =>
+      updateAgentRegion(code, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-agent-regions"] });
+    },
+  });
+}
+
+export function useDeleteAgentRegion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteAgentRegion,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-agent-regions"] });
+    },
+  });
+}
@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { authedFetch } from "../utils";
+
+export type ImportSource = "ga4" | "universal_analytics" | "plausible" | "umami";
+
+export interface SiteImport {
+  id: number;
+  siteId: number;
+  source: ImportSource;
+  fileName: string;
+  target: "events" | "aggregates" | null;
+  status: "processing" | "completed" | "failed" | "purged";
+  totalRows: number;
+  importedRows: number;
+  error: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface CreateImportInput {
+  source: ImportSource;
+  file: File;
+}
+
+export const useGetImports = (siteId: number) => {
+  return useQuery({
+    queryKey: ["siteImports", siteId],
+    queryFn: async () => {
+      const response = await authedFetch<{ data: SiteImport[] }>(`/site/${siteId}/imports`);
+      return response.data;
+    },
+    enabled: !!siteId,
+    // Poll for progress while an import is being processed
+    refetchInterval: query => (query.state.data?.some(item => item.status === "processing") ? 5000 : false),
+  });
+};
+
+export const useCreateImport = (siteId: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ source, file }: CreateImportInput) => {
+      // The file is sent as the raw body so the browser streams it from disk
+      const response = await authedFetch<{ data: SiteImport }>(
+        `/site/${siteId}/imports`,
+        { source, fileName: file.name },
+        { method: "POST", data: file, headers: { "Content-Type": "application/octet-stream" } }
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["siteImports", siteId] });
+    },
+  });
+};
+
+export const usePurgeImport = (siteId: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (importId: number) => {
+      const response = await authedFetch<{ data: SiteImport }>(
+        `/site/${siteId}/imports/${importId}`,
+        {},
+        { method: "DELETE" }
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["siteImports", siteId] });
+    },
+  });
+};
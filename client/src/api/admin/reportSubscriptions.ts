@@ -0,0 +1,90 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { authedFetch } from "../utils";
+
+export type ReportFrequency = "daily" | "weekly" | "monthly";
+
+export type ReportSection =
+  | "overview"
+  | "top_pages"
+  | "referrers"
+  | "countries"
+  | "devices"
+  | "goals"
+  | "errors"
+  | "uptime";
+
+export interface ReportSubscriptionRequest {
+  siteIds: number[];
+  frequency: ReportFrequency;
+  sendHour: number;
+  timezone: string;
+  sections: ReportSection[];
+  enabled: boolean;
+}
+
+export interface ReportSubscription extends ReportSubscriptionRequest {
+  id: number;
+  lastSentAt: string | null;
+  createdAt: string;
+}
+
+const REPORT_SUBSCRIPTIONS_QUERY_KEY = ["report-subscriptions"];
+
+export function useGetReportSubscriptions() {
+  return useQuery({
+    queryKey: REPORT_SUBSCRIPTIONS_QUERY_KEY,
+    queryFn: async () => {
+      const response = await authedFetch<{ data: ReportSubscription[] }>("/report-subscriptions");
+      return response.data;
+    },
+  });
+}
+
+export function useSaveReportSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ success: boolean; id: number }, Error, ReportSubscriptionRequest & { id?: number }>({
+    mutationFn: async ({ id, ...data }) => {
+      try {
+        return await authedFetch(id ? `/report-subscriptions/${id}` : "/report-subscriptions", undefined, {
+          method: id ? "PUT" : "POST",
+          data,
+        });
+      } catch (error) {
+        throw new Error(error instanceof Error ? error.message : "Failed to save report subscription");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: REPORT_SUBSCRIPTIONS_QUERY_KEY });
+    },
+  });
+}
+
+export function useDeleteReportSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ success: boolean }, Error, number>({
+    mutationFn: async id => {
+      try {
+        return await authedFetch(`/report-subscriptions/${id}`, undefined, { method: "DELETE" });
+      } catch (error) {
+        throw new Error(error instanceof Error ? error.message : "Failed to delete report subscription");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: REPORT_SUBSCRIPTIONS_QUERY_KEY });
+    },
+  });
+}
+
+export function useSendReportPreview() {
+  return useMutation<{ success: boolean; sent: number }, Error, number>({
+    mutationFn: async id => {
+      try {
+        return await authedFetch(`/report-subscriptions/${id}/preview`, undefined, { method: "POST" });
+      } catch (error) {
+        throw new Error(error instanceof Error ? error.message : "Failed to send report preview");
+      }
+    },
+  });
+}
@@ -26,6 +26,12 @@ export type SiteResponse = {
   trackInitialPageView?: boolean;
   trackSpaNavigation?: boolean;
   trackIp?: boolean;
+  // Auto-capture
+  trackForms?: boolean;
+  trackFileDownloads?: boolean;
+  downloadExtensions?: string[] | null;
+  trackContactLinks?: boolean;
+  trackImpressions?: boolean;
 };
 
 export type GetSitesFromOrgResponse = {
@@ -124,6 +130,11 @@ export function updateSiteConfig(
     trackUrlParams?: boolean;
     trackInitialPageView?: boolean;
     trackSpaNavigation?: boolean;
+    trackForms?: boolean;
+    trackFileDownloads?: boolean;
+    downloadExtensions?: string[] | null;
+    trackContactLinks?: boolean;
+    trackImpressions?: boolean;
   }
 ) {
   return authedFetch("/update-site-config", undefined, {
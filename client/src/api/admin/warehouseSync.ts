@@ -0,0 +1,97 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { authedFetch } from "../utils";
+
+export interface WarehouseSync {
+  id: number;
+  siteId: number;
+  enabled: boolean;
+  endpoint: string | null;
+  region: string;
+  bucket: string;
+  prefix: string;
+  accessKeyId: string;
+  hasSecretAccessKey: boolean;
+  cursorDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WarehouseSyncRun {
+  id: number;
+  siteId: number;
+  trigger: "scheduled" | "backfill";
+  status: "running" | "succeeded" | "failed";
+  startDate: string;
+  endDate: string;
+  rowCount: number;
+  fileCount: number;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface UpdateWarehouseSyncInput {
+  enabled: boolean;
+  endpoint: string | null;
+  region: string;
+  bucket: string;
+  prefix: string;
+  accessKeyId: string;
+  // Leave out to keep the stored secret
+  secretAccessKey?: string;
+}
+
+export const useGetWarehouseSync = (siteId: number) => {
+  return useQuery({
+    queryKey: ["warehouseSync", siteId],
+    queryFn: async () => {
+      const response = await authedFetch<{ data: WarehouseSync | null }>(`/site/${siteId}/warehouse-sync`);
+      return response.data;
+    },
+    enabled: !!siteId,
+  });
+};
+
+export const useGetWarehouseSyncRuns = (siteId: number) => {
+  return useQuery({
+    queryKey: ["warehouseSyncRuns", siteId],
+    queryFn: async () => {
+      const response = await authedFetch<{ data: WarehouseSyncRun[] }>(`/site/${siteId}/warehouse-sync/runs`);
+      return response.data;
+    },
+    enabled: !!siteId,
+    // Keep run history fresh while a run is in progress
+    refetchInterval: query => (query.state.data?.some(run => run.status === "running") ? 5000 : false),
+  });
+};
+
+export const useUpdateWarehouseSync = (siteId: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UpdateWarehouseSyncInput) => {
+      return authedFetch<{ success: boolean }>(`/site/${siteId}/warehouse-sync`, {}, { method: "POST", data });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["warehouseSync", siteId] });
+    },
+  });
+};
+
+export const useBackfillWarehouseSync = (siteId: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { startDate: string; endDate: string }) => {
+      const response = await authedFetch<{ data: WarehouseSyncRun }>(
+        `/site/${siteId}/warehouse-sync/backfill`,
+        {},
+        { method: "POST", data }
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["warehouseSyncRuns", siteId] });
+    },
+  });
+};
@@ -0,0 +1,56 @@
+import { Filter, FilterParameter, TimeBucket } from "@rybbit/shared";
+import { FunnelStep } from "../funnels/useGetFunnel";
+
+export type WidgetType = "overview_bucketed" | "single_col" | "funnel" | "retention" | "goals" | "performance";
+
+export type OverviewMetric =
+  | "pageviews"
+  | "sessions"
+  | "users"
+  | "pages_per_session"
+  | "bounce_rate"
+  | "session_duration";
+
+export type WidgetConfig = {
+  bucket?: TimeBucket;
+  metric?: OverviewMetric;
+  parameter?: FilterParameter;
+  limit?: number;
+  steps?: FunnelStep[];
+  mode?: "day" | "week";
+  range?: number;
+  percentile?: "p50" | "p75" | "p90" | "p99";
+};
+
+export type WidgetDateRange =
+  | { type: "relative"; days: number }
+  | { type: "fixed"; startDate: string; endDate: string };
+
+export interface DashboardWidget {
+  widgetId: number;
+  dashboardId: number;
+  title: string;
+  widgetType: WidgetType;
+  config: WidgetConfig;
+  filters: Filter[];
+  dateRange: WidgetDateRange;
+  position: number;
+  width: number;
+  height: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DashboardSummary {
+  dashboardId: number;
+  siteId: number;
+  name: string;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+  widgetCount: number;
+}
+
+export interface Dashboard extends Omit<DashboardSummary, "widgetCount"> {
+  widgets: DashboardWidget[];
+}
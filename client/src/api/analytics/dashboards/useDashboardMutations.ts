@@ -0,0 +1,157 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useStore } from "../../../lib/store";
+import { authedFetch } from "../../utils";
+import { WidgetConfig, WidgetDateRange, WidgetType } from "./types";
+import { Filter } from "@rybbit/shared";
+
+export interface SaveDashboardRequest {
+  name: string;
+  description?: string;
+}
+
+export interface WidgetLayoutItem {
+  widgetId: number;
+  position: number;
+  width: number;
+  height: number;
+}
+
+export interface SaveWidgetRequest {
+  title: string;
+  widgetType: WidgetType;
+  config: WidgetConfig;
+  filters: Filter[];
+  dateRange: WidgetDateRange;
+  width: number;
+  height: number;
+}
+
+export function useCreateDashboard() {
+  const { site } = useStore();
+  const queryClient = useQueryClient();
+
+  return useMutation<{ success: boolean; dashboardId: number }, Error, SaveDashboardRequest>({
+    mutationFn: async data => {
+      try {
+        return await authedFetch("/dashboard/create", undefined, {
+          method: "POST",
+          data: { ...data, siteId: Number(site) },
+        });
+      } catch (error) {
+        throw new Error(error instanceof Error ? error.message : "Failed to create dashboard");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["dashboards", site] });
+    },
+  });
+}
+
+export function useUpdateDashboard() {
+  const { site } = useStore();
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    { success: boolean; dashboardId: number },
+    Error,
+    SaveDashboardRequest & { dashboardId: number; layout?: WidgetLayoutItem[] }
+  >({
+    mutationFn: async data => {
+      try {
+        return await authedFetch("/dashboard/update", undefined, {
+          method: "PUT",
+          data,
+        });
+      } catch (error) {
+        throw new Error(error instanceof Error ? error.message : "Failed to update dashboard");
+      }
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["dashboards", site] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard", variables.dashboardId] });
+    },
+  });
+}
+
+export function useDeleteDashboard() {
+  const { site } = useStore();
+  const queryClient = useQueryClient();
+
+  return useMutation<{ success: boolean }, Error, number>({
+    mutationFn: async dashboardId => {
+      try {
+        return await authedFetch(`/dashboard/${dashboardId}`, undefined, {
+          method: "DELETE",
+        });
+      } catch (error) {
+        throw new Error(error instanceof Error ? error.message : "Failed to delete dashboard");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["dashboards", site] });
+    },
+  });
+}
+
+export function useCreateDashboardWidget(dashboardId: number) {
+  const { site } = useStore();
+  const queryClient = useQueryClient();
+
+  return useMutation<{ success: boolean; widgetId: number }, Error, SaveWidgetRequest>({
+    mutationFn: async data => {
+      try {
+        return await authedFetch("/dashboard/widget/create", undefined, {
+          method: "POST",
+          data: { ...data, dashboardId },
+        });
+      } catch (error) {
+        throw new Error(error instanceof Error ? error.message : "Failed to create widget");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["dashboards", site] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard", dashboardId] });
+    },
+  });
+}
+
+export function useUpdateDashboardWidget(dashboardId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ success: boolean; widgetId: number }, Error, SaveWidgetRequest & { widgetId: number }>({
+    mutationFn: async data => {
+      try {
+        return await authedFetch("/dashboard/widget/update", undefined, {
+          method: "PUT",
+          data,
+        });
+      } catch (error) {
+        throw new Error(error instanceof Error ? error.message : "Failed to update widget");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["dashboard", dashboardId] });
+    },
+  });
+}
+
+export function useDeleteDashboardWidget(dashboardId: number) {
+  const { site } = useStore();
+  const queryClient = useQueryClient();
+
+  return useMutation<{ success: boolean }, Error, number>({
+    mutationFn: async widgetId => {
+      try {
+        return await authedFetch(`/dashboard/widget/${widgetId}`, undefined, {
+          method: "DELETE",
+        });
+      } catch (error) {
+        throw new Error(error instanceof Error ? error.message : "Failed to delete widget");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["dashboards", site] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard", dashboardId] });
+    },
+  });
+}
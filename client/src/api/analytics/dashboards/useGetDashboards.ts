@@ -0,0 +1,28 @@
+import { useQuery } from "@tanstack/react-query";
+import { useStore } from "../../../lib/store";
+import { authedFetch } from "../../utils";
+import { Dashboard, DashboardSummary } from "./types";
+
+export function useGetDashboards() {
+  const { site } = useStore();
+
+  return useQuery({
+    queryKey: ["dashboards", site],
+    queryFn: async () => {
+      const response = await authedFetch<{ data: DashboardSummary[] }>(`/dashboards/${site}`);
+      return response.data;
+    },
+    enabled: !!site,
+  });
+}
+
+export function useGetDashboard(dashboardId?: number) {
+  return useQuery({
+    queryKey: ["dashboard", dashboardId],
+    queryFn: async () => {
+      const response = await authedFetch<{ data: Dashboard }>(`/dashboard/${dashboardId}`);
+      return response.data;
+    },
+    enabled: !!dashboardId,
+  });
+}
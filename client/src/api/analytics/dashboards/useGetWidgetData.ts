@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import { DateTime } from "luxon";
+import { timeZone } from "../../../lib/dateTimeUtils";
+import { useStore } from "../../../lib/store";
+import { authedFetch } from "../../utils";
+import { DashboardWidget, WidgetDateRange } from "./types";
+
+export function getWidgetDates(dateRange: WidgetDateRange) {
+  if (dateRange.type === "fixed") {
+    return { startDate: dateRange.startDate, endDate: dateRange.endDate };
+  }
+  const today = DateTime.now().setZone(timeZone);
+  return {
+    startDate: today.minus({ days: dateRange.days - 1 }).toISODate(),
+    endDate: today.toISODate(),
+  };
+}
+
+/**
+ * Fetches the data for a dashboard widget. Widgets carry their own filters and
+ * date range, so the global filters and time selection are deliberately ignored.
+ */
+export function useGetWidgetData<T = unknown>(widget: DashboardWidget) {
+  const { site } = useStore();
+  const { widgetType, config, filters, dateRange } = widget;
+
+  const timeParams = { ...getWidgetDates(dateRange), timeZone, filters };
+
+  return useQuery({
+    queryKey: ["dashboard-widget-data", site, widget.widgetId, widgetType, config, timeParams],
+    queryFn: async () => {
+      switch (widgetType) {
+        case "overview_bucketed":
+          return authedFetch<{ data: T }>(`/overview-bucketed/${site}`, {
+            ...timeParams,
+            bucket: config.bucket ?? "day",
+          });
+        case "single_col":
+          return authedFetch<{ data: T }>(`/single-col/${site}`, {
+            ...timeParams,
+            parameter: config.parameter,
+            limit: config.limit ?? 10,
+          });
+        case "funnel":
+          return authedFetch<{ data: T }>(`/funnel/${site}`, timeParams, {
+            method: "POST",
+            data: { steps: config.steps ?? [] },
+          });
+        case "retention":
+          return authedFetch<{ data: T }>(`/retention/${site}`, {
+            mode: config.mode ?? "week",
+            range: config.range ?? 90,
+          });
+        case "goals":
+          return authedFetch<{ data: T }>(`/goals/${site}`, { ...timeParams, pageSize: 100 });
+        case "performance":
+          return authedFetch<{ data: T }>(`/performance/overview/${site}`, timeParams);
+      }
+    },
+    select: response => response?.data,
+    staleTime: 60_000,
+    enabled: !!site,
+  });
+}
@@ -28,3 +28,17 @@ export function useGetEventProperties(eventName: string | null) {
     },
   });
 }
+
+// Property keys and values across all custom events, unfiltered, for the event property filter picker
+export function useGetAllEventProperties() {
+  const { site, time } = useStore();
+
+  const timeParams = getQueryParams(time);
+
+  return useQuery({
+    queryKey: ["event-properties", site, null, timeParams],
+    enabled: !!site,
+    queryFn: () =>
+      authedFetch<{ data: EventProperty[] }>(`/events/properties/${site}`, timeParams).then(res => res.data),
+  });
+}
@@ -0,0 +1,38 @@
+import { authedFetch } from "../utils";
+import { FunnelStep } from "./funnels/useGetFunnel";
+
+export type ExportFormat = "csv" | "ndjson" | "parquet";
+
+export type ExportReport = "single_col" | "sessions" | "users" | "events" | "error_events" | "retention" | "funnel";
+
+export async function exportReport({
+  site,
+  report,
+  format,
+  params,
+  steps,
+}: {
+  site: number | string;
+  report: ExportReport;
+  format: ExportFormat;
+  params: Record<string, any>;
+  // Funnels are defined by their steps, which go in the request body
+  steps?: FunnelStep[];
+}) {
+  const blob = await authedFetch<Blob>(
+    `/export/${report}/${site}`,
+    { ...params, format },
+    {
+      method: steps ? "POST" : "GET",
+      data: steps ? { steps } : undefined,
+      responseType: "blob",
+    }
+  );
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${report}-${site}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -37,9 +37,24 @@ export interface SessionReplayMetadata {
   created_at: Date;
 }
 
+// A rage, dead or error click reported by the tracking script during the session
+export interface FrustrationSignal {
+  timestamp: number;
+  type: "rage_click" | "dead_click" | "error_click";
+  selector: string;
+  pathname: string;
+}
+
+export const FRUSTRATION_SIGNAL_LABELS: Record<FrustrationSignal["type"], string> = {
+  rage_click: "Rage click",
+  dead_click: "Dead click",
+  error_click: "Error click",
+};
+
 export interface GetSessionReplayEventsResponse {
   events: SessionReplayEvent[];
   metadata: SessionReplayMetadata;
+  frustrationSignals: FrustrationSignal[];
 }
 
 export function useGetSessionReplayEvents(siteId: number, sessionId: string) {
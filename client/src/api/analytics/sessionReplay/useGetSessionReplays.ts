@@ -30,13 +30,19 @@ export interface SessionReplayListResponse {
 type UseGetSessionReplaysOptions = {
   limit?: number;
   minDuration?: number;
+  // Only sessions with a rage, dead or error click
+  hasFrustration?: boolean;
 };
 
-export function useGetSessionReplays({ limit = 20, minDuration = 30 }: UseGetSessionReplaysOptions = {}) {
+export function useGetSessionReplays({
+  limit = 20,
+  minDuration = 30,
+  hasFrustration = false,
+}: UseGetSessionReplaysOptions = {}) {
   const { time, site, filters } = useStore();
 
   return useInfiniteQuery({
-    queryKey: ["session-replays", site, time, filters, limit, minDuration],
+    queryKey: ["session-replays", site, time, filters, limit, minDuration, hasFrustration],
     queryFn: async ({ pageParam = 0 }) => {
       const queryParams = {
         ...getQueryParams(time),
@@ -44,6 +50,7 @@ export function useGetSessionReplays({ limit = 20, minDuration = 30 }: UseGetSes
         offset: pageParam,
         filters,
         minDuration,
+        ...(hasFrustration && { hasFrustration }),
       };
 
       const response = await authedFetch<SessionReplayListResponse>(`/session-replay/list/${site}`, queryParams);
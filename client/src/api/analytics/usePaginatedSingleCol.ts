@@ -1,7 +1,7 @@
 import { SingleColResponse } from "@/api/analytics/useSingleCol";
 import { authedFetch, getQueryParams } from "@/api/utils";
 import { useStore } from "@/lib/store";
-import { Filter, FilterParameter } from "@rybbit/shared";
+import { CompareMode, Filter, FilterParameter } from "@rybbit/shared";
 import { useQuery, UseQueryResult } from "@tanstack/react-query";
 
 type UsePaginatedSingleColOptions = {
@@ -11,6 +11,7 @@ type UsePaginatedSingleColOptions = {
   useFilters?: boolean;
   enabled?: boolean;
   additionalFilters?: Filter[];
+  compare?: CompareMode;
 };
 
 type PaginatedResponse = {
@@ -25,6 +26,7 @@ export function usePaginatedSingleCol({
   useFilters = true,
   enabled = true,
   additionalFilters = [],
+  compare,
 }: UsePaginatedSingleColOptions): UseQueryResult<PaginatedResponse> {
   const { time, site, filters } = useStore();
 
@@ -34,10 +36,11 @@ export function usePaginatedSingleCol({
     limit,
     page,
     filters: useFilters ? [...filters, ...additionalFilters] : undefined,
+    compare,
   };
 
   return useQuery({
-    queryKey: [parameter, time, site, filters, limit, page, additionalFilters],
+    queryKey: [parameter, time, site, filters, limit, page, additionalFilters, compare],
     queryFn: async () => {
       const response = await authedFetch<{ data: PaginatedResponse }>(`/single-col/${site}`, queryParams);
       return response.data;
@@ -14,6 +14,17 @@ export type SingleColResponse = {
   pageviews?: number;
   pageviews_percentage?: number;
   time_on_page_seconds?: number;
+  // Pathname only, from engagement events; zero when the page has none
+  engaged_visits?: number;
+  avg_engaged_seconds?: number;
+  avg_scroll_depth?: number;
+  scroll_depth_25?: number;
+  scroll_depth_50?: number;
+  scroll_depth_75?: number;
+  scroll_depth_100?: number;
+  // Only present when a comparison range was requested
+  comparison_count?: number;
+  comparison_pageviews?: number;
 };
 
 export function useSingleCol({
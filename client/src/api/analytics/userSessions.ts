@@ -39,7 +39,8 @@ export type GetSessionsResponse = {
   lon: number;
 }[];
 
-export function useGetSessionsInfinite(userId?: string) {
+// hasFrustration keeps only sessions with a rage, dead or error click
+export function useGetSessionsInfinite(userId?: string, hasFrustration = false) {
   const { time, site } = useStore();
 
   // Get the appropriate time parameters using getQueryParams
@@ -48,7 +49,7 @@ export function useGetSessionsInfinite(userId?: string) {
   const filteredFilters = getFilteredFilters(SESSION_PAGE_FILTERS);
 
   return useInfiniteQuery<APIResponse<GetSessionsResponse>>({
-    queryKey: ["sessions-infinite", time, site, filteredFilters, userId],
+    queryKey: ["sessions-infinite", time, site, filteredFilters, userId, hasFrustration],
     queryFn: ({ pageParam = 1 }) => {
       // Use an object for request parameters so we can conditionally add fields
       const requestParams: Record<string, any> = {
@@ -62,6 +63,10 @@ export function useGetSessionsInfinite(userId?: string) {
         requestParams.userId = userId;
       }
 
+      if (hasFrustration) {
+        requestParams.hasFrustration = true;
+      }
+
       // Add time parameters
       if (time.mode === "past-minutes") {
         Object.assign(requestParams, timeParams);
@@ -115,6 +120,11 @@ export interface SessionEventProps {
   // Error-specific props
   message?: string;
   stack?: string;
+
+  // Frustration-specific props
+  selector?: string;
+  text?: string;
+  clicks?: number;
 }
 
 export interface SessionEvent {
@@ -0,0 +1,85 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { authedFetch } from "../utils";
+
+export interface EscalationStep {
+  afterMinutes: number;
+  channelIds: number[];
+}
+
+export interface EscalationPolicy {
+  id: number;
+  organizationId: string;
+  name: string;
+  steps: EscalationStep[];
+  repeatIntervalMinutes: number | null;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+}
+
+export interface EscalationPolicyInput {
+  name: string;
+  steps: EscalationStep[];
+  repeatIntervalMinutes: number | null;
+}
+
+// Escalation policies API
+async function getEscalationPolicies() {
+  return authedFetch<{ escalationPolicies: EscalationPolicy[] }>("/uptime/escalation-policies");
+}
+
+async function createEscalationPolicy(data: EscalationPolicyInput) {
+  return authedFetch<EscalationPolicy>("/uptime/escalation-policies", undefined, { method: "POST", data });
+}
+
+async function updateEscalationPolicy(id: number, data: Partial<EscalationPolicyInput>) {
+  return authedFetch<EscalationPolicy>(`/uptime/escalation-policies/${id}`, undefined, { method: "PUT", data });
+}
+
+async function deleteEscalationPolicy(id: number) {
+  return authedFetch(`/uptime/escalation-policies/${id}`, undefined, { method: "DELETE" });
+}
+
+// Hooks
+export function useEscalationPolicies() {
+  return useQuery({
+    queryKey: ["uptime-escalation-policies"],
+    queryFn: getEscalationPolicies,
+  });
+}
+
+export function useCreateEscalationPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createEscalationPolicy,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["uptime-escalation-policies"] });
+    },
+  });
+}
+
+export function useUpdateEscalationPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Partial<EscalationPolicyInput> }) =>
+      updateEscalationPolicy(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["uptime-escalation-policies"] });
+    },
+  });
+}
+
+export function useDeleteEscalationPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteEscalationPolicy,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["uptime-escalation-policies"] });
+      // Monitors using the policy fall back to no policy
+      queryClient.invalidateQueries({ queryKey: ["uptime-monitors"] });
+    },
+  });
+}
@@ -6,6 +6,7 @@ export interface UptimeIncident {
   organizationId: string;
   monitorId: number;
   monitorName: string;
+  kind: "down" | "degraded" | "slo_burn";
   region?: string;
   affectedRegions?: string[];
   startTime: string;
@@ -24,6 +25,7 @@ export interface UptimeIncident {
 
 interface GetIncidentsParams {
   status?: "active" | "acknowledged" | "resolved" | "all";
+  kind?: UptimeIncident["kind"];
   limit?: number;
   offset?: number;
 }
@@ -31,6 +33,7 @@ interface GetIncidentsParams {
 async function getIncidents(params?: GetIncidentsParams) {
   const queryParams = new URLSearchParams();
   if (params?.status) queryParams.append("status", params.status);
+  if (params?.kind) queryParams.append("kind", params.kind);
   if (params?.limit) queryParams.append("limit", params.limit.toString());
   if (params?.offset) queryParams.append("offset", params.offset.toString());
 
@@ -0,0 +1,94 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { authedFetch } from "../utils";
+
+export type MaintenanceRecurrence = "none" | "daily" | "weekly" | "monthly";
+
+export interface MaintenanceWindow {
+  id: number;
+  organizationId: string;
+  name: string;
+  description: string | null;
+  monitorIds: number[];
+  monitorTags: string[];
+  startTime: string;
+  endTime: string;
+  recurrence: MaintenanceRecurrence;
+  recurrenceEndsAt: string | null;
+  timezone: string;
+  // End of the occurrence in progress, null when the window isn't active
+  activeUntil: string | null;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+}
+
+export interface MaintenanceWindowInput {
+  name: string;
+  description: string | null;
+  monitorIds: number[];
+  monitorTags: string[];
+  startTime: string;
+  endTime: string;
+  recurrence: MaintenanceRecurrence;
+  recurrenceEndsAt: string | null;
+  timezone: string;
+}
+
+// Maintenance windows API
+async function getMaintenanceWindows() {
+  return authedFetch<{ maintenanceWindows: MaintenanceWindow[] }>("/uptime/maintenance-windows");
+}
+
+async function createMaintenanceWindow(data: MaintenanceWindowInput) {
+  return authedFetch<MaintenanceWindow>("/uptime/maintenance-windows", undefined, { method: "POST", data });
+}
+
+async function updateMaintenanceWindow(id: number, data: Partial<MaintenanceWindowInput>) {
+  return authedFetch<MaintenanceWindow>(`/uptime/maintenance-windows/${id}`, undefined, { method: "PUT", data });
+}
+
+async function deleteMaintenanceWindow(id: number) {
+  return authedFetch(`/uptime/maintenance-windows/${id}`, undefined, { method: "DELETE" });
+}
+
+// Hooks
+export function useMaintenanceWindows() {
+  return useQuery({
+    queryKey: ["uptime-maintenance-windows"],
+    queryFn: getMaintenanceWindows,
+  });
+}
+
+export function useCreateMaintenanceWindow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createMaintenanceWindow,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["uptime-maintenance-windows"] });
+    },
+  });
+}
+
+export function useUpdateMaintenanceWindow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Partial<MaintenanceWindowInput> }) =>
+      updateMaintenanceWindow(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["uptime-maintenance-windows"] });
+    },
+  });
+}
+
+export function useDeleteMaintenanceWindow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteMaintenanceWindow,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["uptime-maintenance-windows"] });
+    },
+  });
+}
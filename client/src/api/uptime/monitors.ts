@@ -1,45 +1,45 @@
+import type { ValidationRule } from "@rybbit/shared";
 import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { authedFetch } from "../utils";
 import { timeZone } from "../../lib/dateTimeUtils";
 
-// Validation rule types
-export type ValidationRule =
-  | {
-      type: "status_code";
-      operator: "equals" | "not_equals" | "in" | "not_in";
-      value: number | number[];
-    }
-  | {
-      type: "response_time";
-      operator: "less_than" | "greater_than";
-      value: number;
-    }
-  | {
-      type: "response_body_contains" | "response_body_not_contains";
-      value: string;
-      caseSensitive?: boolean;
-    }
-  | {
-      type: "header_exists";
-      header: string;
-    }
-  | {
-      type: "header_value";
-      header: string;
-      operator: "equals" | "contains";
-      value: string;
-    }
-  | {
-      type: "response_size";
-      operator: "less_than" | "greater_than";
-      value: number;
-    };
+// Validation rules are shared with the server and monitor agent
+export type { ValidationRule };
+
+export type MonitorType = "http" | "tcp" | "dns" | "ping" | "smtp" | "tls" | "multistep";
+
+export type DnsRecordType = "A" | "AAAA" | "CNAME" | "MX" | "TXT" | "NS" | "SOA";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE" | "HEAD" | "OPTIONS" | "PATCH";
+
+export interface MultistepStep {
+  name: string;
+  url: string;
+  method: HttpMethod;
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs?: number;
+  extract?: Array<{
+    name: string;
+    source: "json" | "header" | "regex";
+    expression: string;
+  }>;
+  validationRules?: ValidationRule[];
+}
+
+// Thresholds that mark a monitor degraded while its checks still pass
+export interface DegradedConfig {
+  responseTimeP95Ms?: number;
+  responseTimeWindowMinutes?: number;
+  partialRegionFailure?: boolean;
+  warningRules?: ValidationRule[];
+}
 
 export interface UptimeMonitor {
   id: number;
   organizationId: string;
   name: string;
-  monitorType: "http" | "tcp";
+  monitorType: MonitorType;
   intervalSeconds: number;
   enabled: boolean;
   httpConfig?: {
@@ -67,18 +67,54 @@ export interface UptimeMonitor {
     port: number;
     timeoutMs?: number;
   };
+  dnsConfig?: {
+    hostname: string;
+    recordType: DnsRecordType;
+    expectedValue?: string;
+    resolver?: string;
+    timeoutMs?: number;
+  };
+  pingConfig?: {
+    host: string;
+    packetCount?: number;
+    timeoutMs?: number;
+  };
+  smtpConfig?: {
+    host: string;
+    port: number;
+    secure?: boolean;
+    requireStartTls?: boolean;
+    timeoutMs?: number;
+  };
+  tlsConfig?: {
+    host: string;
+    port: number;
+    servername?: string;
+    expiryThresholdDays: number;
+    timeoutMs?: number;
+  };
+  multistepConfig?: {
+    steps: MultistepStep[];
+    followRedirects?: boolean;
+    userAgent?: string;
+  };
   validationRules: ValidationRule[];
   monitoringType: "local" | "global";
   selectedRegions: string[];
+  tags: string[];
+  escalationPolicyId: number | null;
+  degradedConfig: DegradedConfig | null;
   createdAt: string;
   updatedAt: string;
   createdBy: string;
   status?: {
     monitorId: number;
     lastCheckedAt?: string;
-    currentStatus: "up" | "down" | "unknown";
+    currentStatus: "up" | "degraded" | "down" | "unknown";
+    degradedReason?: string | null;
     consecutiveFailures: number;
     consecutiveSuccesses: number;
+    consecutiveDegraded: number;
     uptimePercentage24h?: number;
     uptimePercentage7d?: number;
     uptimePercentage30d?: number;
@@ -163,12 +199,32 @@ export interface MonitorEvent {
   port?: number;
   error_message?: string;
   error_type?: string;
+  in_maintenance?: 0 | 1;
+  // Multi-step monitors only; steps after a failing one didn't run
+  steps?: Array<{
+    name: string;
+    status: "success" | "failure" | "timeout";
+    statusCode?: number;
+    responseTimeMs: number;
+    timing: {
+      dnsMs?: number;
+      tcpMs?: number;
+      tlsMs?: number;
+      ttfbMs?: number;
+      transferMs?: number;
+    };
+    validationErrors: string[];
+    error?: {
+      message: string;
+      type: string;
+    };
+  }> | null;
 }
 
 async function getMonitors(params?: {
   organizationId?: string;
   enabled?: boolean;
-  monitorType?: "http" | "tcp";
+  monitorType?: MonitorType;
   limit?: number;
   offset?: number;
 }) {
@@ -356,11 +412,16 @@ export function useMonitorUptimeBuckets(
 export interface CreateMonitorInput {
   organizationId: string;
   name: string;
-  monitorType: "http" | "tcp";
+  monitorType: MonitorType;
   intervalSeconds: number;
   enabled?: boolean;
   httpConfig?: UptimeMonitor["httpConfig"];
   tcpConfig?: UptimeMonitor["tcpConfig"];
+  dnsConfig?: UptimeMonitor["dnsConfig"];
+  pingConfig?: UptimeMonitor["pingConfig"];
+  smtpConfig?: UptimeMonitor["smtpConfig"];
+  tlsConfig?: UptimeMonitor["tlsConfig"];
+  multistepConfig?: UptimeMonitor["multistepConfig"];
   validationRules?: ValidationRule[];
   regions?: string[];
 }
@@ -371,6 +432,11 @@ export interface UpdateMonitorInput {
   enabled?: boolean;
   httpConfig?: UptimeMonitor["httpConfig"];
   tcpConfig?: UptimeMonitor["tcpConfig"];
+  dnsConfig?: UptimeMonitor["dnsConfig"];
+  pingConfig?: UptimeMonitor["pingConfig"];
+  smtpConfig?: UptimeMonitor["smtpConfig"];
+  tlsConfig?: UptimeMonitor["tlsConfig"];
+  multistepConfig?: UptimeMonitor["multistepConfig"];
   validationRules?: ValidationRule[];
   regions?: string[];
 }
@@ -1,10 +1,23 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { authedFetch } from "../utils";
 
+export type NotificationChannelType =
+  | "email"
+  | "discord"
+  | "slack"
+  | "sms"
+  | "webhook"
+  | "pagerduty"
+  | "opsgenie"
+  | "teams"
+  | "telegram"
+  | "mattermost"
+  | "ntfy";
+
 export interface NotificationChannel {
   id: number;
   organizationId: string;
-  type: "email" | "discord" | "slack" | "sms";
+  type: NotificationChannelType;
   name: string;
   enabled: boolean;
   config: {
@@ -14,6 +27,19 @@ export interface NotificationChannel {
     slackChannel?: string;
     phoneNumber?: string;
     provider?: string;
+    webhookSecret?: string;
+    webhookTemplate?: string;
+    webhookHeaders?: Record<string, string>;
+    pagerDutyRoutingKey?: string;
+    opsgenieApiKey?: string;
+    opsgenieRegion?: "us" | "eu";
+    teamsWebhookUrl?: string;
+    telegramBotToken?: string;
+    telegramChatId?: string;
+    mattermostWebhookUrl?: string;
+    ntfyTopicUrl?: string;
+    ntfyToken?: string;
+    ntfyPriority?: number;
   };
   monitorIds: number[] | null; // null = all monitors
   triggerEvents: string[];
@@ -24,6 +50,19 @@ export interface NotificationChannel {
   createdBy: string;
 }
 
+export interface NotificationDelivery {
+  id: number;
+  channelId: number;
+  monitorId: number | null;
+  incidentId: number | null;
+  eventType: "down" | "degraded" | "slo_burn" | "recovery" | "test";
+  status: "success" | "failed";
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+}
+
 // Channels API
 async function getChannels() {
   return authedFetch<{ channels: NotificationChannel[] }>("/uptime/notification-channels");
@@ -62,6 +101,10 @@ async function testChannel(id: number) {
   return authedFetch(`/uptime/notification-channels/${id}/test`, undefined, { method: "POST", data: {} });
 }
 
+async function getChannelDeliveries(id: number) {
+  return authedFetch<{ deliveries: NotificationDelivery[] }>(`/uptime/notification-channels/${id}/deliveries`);
+}
+
 // Hooks
 export function useNotificationChannels() {
   return useQuery({
@@ -104,7 +147,20 @@ export function useDeleteChannel() {
 }
 
 export function useTestChannel() {
+  const queryClient = useQueryClient();
+
   return useMutation({
     mutationFn: testChannel,
+    onSettled: (_data, _error, id) => {
+      queryClient.invalidateQueries({ queryKey: ["notification-channel-deliveries", id] });
+    },
+  });
+}
+
+export function useChannelDeliveries(id: number | null) {
+  return useQuery({
+    queryKey: ["notification-channel-deliveries", id],
+    queryFn: () => getChannelDeliveries(id!),
+    enabled: id !== null,
   });
 }
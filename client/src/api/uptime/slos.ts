@@ -0,0 +1,94 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { authedFetch } from "../utils";
+
+export interface SloStatus {
+  attainmentPercentage: number | null;
+  // Fraction of the window's error budget left, negative once the SLO is breached
+  errorBudgetRemaining: number | null;
+  burnRate: number | null;
+  burning: boolean;
+}
+
+export interface Slo {
+  id: number;
+  organizationId: string;
+  monitorId: number;
+  name: string;
+  targetPercentage: number;
+  windowDays: number;
+  burnRateThreshold: number;
+  burnRateWindowMinutes: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  status: SloStatus | null;
+}
+
+export interface SloInput {
+  monitorId: number;
+  name: string;
+  targetPercentage: number;
+  windowDays: number;
+  burnRateThreshold: number;
+  burnRateWindowMinutes: number;
+  enabled: boolean;
+}
+
+// SLOs API
+async function getSlos() {
+  return authedFetch<{ slos: Slo[] }>("/uptime/slos");
+}
+
+async function createSlo(data: SloInput) {
+  return authedFetch<Slo>("/uptime/slos", undefined, { method: "POST", data });
+}
+
+async function updateSlo(id: number, data: Partial<Omit<SloInput, "monitorId">>) {
+  return authedFetch<Slo>(`/uptime/slos/${id}`, undefined, { method: "PUT", data });
+}
+
+async function deleteSlo(id: number) {
+  return authedFetch(`/uptime/slos/${id}`, undefined, { method: "DELETE" });
+}
+
+// Hooks
+export function useSlos() {
+  return useQuery({
+    queryKey: ["uptime-slos"],
+    queryFn: getSlos,
+  });
+}
+
+export function useCreateSlo() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createSlo,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["uptime-slos"] });
+    },
+  });
+}
+
+export function useUpdateSlo() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Partial<Omit<SloInput, "monitorId">> }) => updateSlo(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["uptime-slos"] });
+    },
+  });
+}
+
+export function useDeleteSlo() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteSlo,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["uptime-slos"] });
+    },
+  });
+}
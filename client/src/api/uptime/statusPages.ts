@@ -0,0 +1,172 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { authedFetch } from "../utils";
+
+export interface StatusPageMonitorGroup {
+  name: string;
+  monitorIds: number[];
+}
+
+export interface StatusPage {
+  id: number;
+  organizationId: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  customDomain: string | null;
+  logoUrl: string | null;
+  visibility: "public" | "private";
+  monitorGroups: StatusPageMonitorGroup[];
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+}
+
+export type StatusPageInput = Pick<
+  StatusPage,
+  "name" | "slug" | "description" | "customDomain" | "logoUrl" | "visibility" | "monitorGroups"
+>;
+
+export type IncidentUpdateStatus = "investigating" | "identified" | "monitoring" | "resolved";
+
+export interface IncidentUpdate {
+  id: number;
+  incidentId: number;
+  status: IncidentUpdateStatus;
+  message: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface PublicStatusPage {
+  name: string;
+  slug: string;
+  description: string | null;
+  logoUrl: string | null;
+  status: "operational" | "degraded_performance" | "partial_outage" | "major_outage" | "unknown";
+  groups: Array<{
+    name: string;
+    monitors: Array<{
+      id: number;
+      name: string;
+      status: "up" | "degraded" | "down" | "unknown";
+      lastCheckedAt: string | null;
+      uptimePercentage: number | null;
+      days: Array<{ date: string; totalChecks: number; uptimePercentage: number | null }>;
+    }>;
+  }>;
+  incidents: Array<{
+    id: number;
+    monitorName: string;
+    kind: "down" | "degraded";
+    status: "active" | "resolved";
+    startTime: string;
+    endTime: string | null;
+    updates: Array<{ status: IncidentUpdateStatus; message: string; createdAt: string }>;
+  }>;
+}
+
+// Status pages API
+async function getStatusPages() {
+  return authedFetch<{ statusPages: StatusPage[] }>("/uptime/status-pages");
+}
+
+async function createStatusPage(data: StatusPageInput) {
+  return authedFetch<StatusPage>("/uptime/status-pages", undefined, { method: "POST", data });
+}
+
+async function updateStatusPage(id: number, data: Partial<StatusPageInput>) {
+  return authedFetch<StatusPage>(`/uptime/status-pages/${id}`, undefined, { method: "PUT", data });
+}
+
+async function deleteStatusPage(id: number) {
+  return authedFetch(`/uptime/status-pages/${id}`, undefined, { method: "DELETE" });
+}
+
+async function getPublicStatusPage(slugOrDomain: string) {
+  return authedFetch<PublicStatusPage>(`/status-pages/${encodeURIComponent(slugOrDomain)}`);
+}
+
+async function getIncidentUpdates(incidentId: number) {
+  return authedFetch<{ updates: IncidentUpdate[] }>(`/uptime/incidents/${incidentId}/updates`);
+}
+
+async function createIncidentUpdate(incidentId: number, data: { status: IncidentUpdateStatus; message: string }) {
+  return authedFetch<IncidentUpdate>(`/uptime/incidents/${incidentId}/updates`, undefined, { method: "POST", data });
+}
+
+// Hooks
+export function useStatusPages() {
+  return useQuery({
+    queryKey: ["status-pages"],
+    queryFn: getStatusPages,
+  });
+}
+
+export function useCreateStatusPage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createStatusPage,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["status-pages"] });
+    },
+  });
+}
+
+export function useUpdateStatusPage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Partial<StatusPageInput> }) => updateStatusPage(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["status-pages"] });
+    },
+  });
+}
+
+export function useDeleteStatusPage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteStatusPage,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["status-pages"] });
+    },
+  });
+}
+
+export function usePublicStatusPage(slugOrDomain: string | undefined) {
+  return useQuery({
+    queryKey: ["public-status-page", slugOrDomain],
+    queryFn: () => getPublicStatusPage(slugOrDomain!),
+    enabled: !!slugOrDomain,
+    refetchInterval: 60_000,
+    retry: false,
+  });
+}
+
+export function useIncidentUpdates(incidentId: number | undefined) {
+  return useQuery({
+    queryKey: ["incident-updates", incidentId],
+    queryFn: () => getIncidentUpdates(incidentId!),
+    enabled: !!incidentId,
+  });
+}
+
+export function useCreateIncidentUpdate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      incidentId,
+      data,
+    }: {
+      incidentId: number;
+      data: { status: IncidentUpdateStatus; message: string };
+    }) => createIncidentUpdate(incidentId, data),
+    onSuccess: (_, { incidentId }) => {
+      queryClient.invalidateQueries({ queryKey: ["incident-updates", incidentId] });
+      queryClient.invalidateQueries({ queryKey: ["uptime-incidents"] });
+    },
+  });
+}
@@ -2,9 +2,31 @@ import { FilterParameter, FilterType } from "@rybbit/shared";
 import { X } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "../../../../../components/ui/tooltip";
 import { useGetRegionName } from "../../../../../lib/geo";
-import { removeFilter, updateFilter, useStore } from "../../../../../lib/store";
+import { isFilterAvailable, removeFilter, updateFilter, useStore } from "../../../../../lib/store";
 import { cn } from "../../../../../lib/utils";
-import { filterTypeToLabel, getParameterNameLabel, getParameterValueLabel } from "../../shared/Filters/utils";
+import {
+  filterTypeToLabel,
+  getParameterNameLabel,
+  getParameterValueLabel,
+  isNegativeFilterType,
+} from "../../shared/Filters/utils";
+
+// Clicking the operator cycles is / is not / contains / not contains; other operators flip to their counterpart
+const NEXT_FILTER_TYPE: Record<FilterType, FilterType> = {
+  equals: "not_equals",
+  not_equals: "contains",
+  contains: "not_contains",
+  not_contains: "equals",
+  regex: "not_regex",
+  not_regex: "regex",
+  greater_than: "less_than",
+  less_than: "greater_than",
+  between: "between",
+  in: "not_in",
+  not_in: "in",
+  is_set: "is_not_set",
+  is_not_set: "is_set",
+};
 
 export function Filters({ availableFilters }: { availableFilters?: FilterParameter[] }) {
   const { filters } = useStore();
@@ -13,7 +35,7 @@ export function Filters({ availableFilters }: { availableFilters?: FilterParamet
   return (
     <div className="flex gap-2 flex-wrap">
       {filters.map((filter, i) => {
-        const disabled = availableFilters && !availableFilters.includes(filter.parameter);
+        const disabled = availableFilters && !isFilterAvailable(filter.parameter, availableFilters);
 
         return (
           <Tooltip key={filter.parameter}>
@@ -36,21 +58,10 @@ export function Filters({ availableFilters }: { availableFilters?: FilterParamet
                 <div
                   className={cn(
                     "text-emerald-400 font-medium cursor-pointer whitespace-nowrap",
-                    (filter.type === "not_equals" || filter.type === "not_contains") && "text-red-400"
+                    isNegativeFilterType(filter.type) && "text-red-400"
                   )}
                   onClick={() => {
-                    let newType: FilterType = "equals";
-                    if (filter.type === "equals") {
-                      newType = "not_equals";
-                    } else if (filter.type === "not_equals") {
-                      newType = "contains";
-                    } else if (filter.type === "contains") {
-                      newType = "not_contains";
-                    } else if (filter.type === "not_contains") {
-                      newType = "equals";
-                    }
-
-                    updateFilter({ ...filter, type: newType }, i);
+                    updateFilter({ ...filter, type: NEXT_FILTER_TYPE[filter.type] }, i);
                   }}
                 >
                   {filterTypeToLabel(filter.type)}
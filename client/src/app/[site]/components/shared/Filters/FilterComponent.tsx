@@ -1,9 +1,13 @@
 import { Filter, FilterParameter, FilterType } from "@rybbit/shared";
-import { Trash } from "lucide-react";
+import { Braces, Trash } from "lucide-react";
+import { useMemo } from "react";
+import { useGetAllEventProperties } from "../../../../../api/analytics/events/useGetEventProperties";
 import { Button } from "../../../../../components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../../../components/ui/select";
-import { FilterOptions, OperatorOptions } from "./const";
-import { ValueSelect } from "./ValueSelect";
+import { EVENT_PROPERTY_FILTERS } from "../../../../../lib/store";
+import { FilterOptions } from "./const";
+import { getOperatorOptions, getPropFilterKey, isPropFilterParameter, isValuelessFilterType } from "./utils";
+import { PropertyValueSelect, ValueSelect } from "./ValueSelect";
 
 export function FilterComponent({
   filter,
@@ -20,15 +24,36 @@ export function FilterComponent({
     ? FilterOptions.filter(option => availableFilters?.includes(option.value))
     : FilterOptions;
 
+  const propertyFiltersAvailable = !availableFilters || availableFilters.includes(EVENT_PROPERTY_FILTERS);
+  const { data: eventProperties } = useGetAllEventProperties();
+
+  // One option per custom event property key, keeping the current key even if it has no recent events
+  const propertyParameters = useMemo(() => {
+    if (!propertyFiltersAvailable) {
+      return [];
+    }
+    const keys = new Set(eventProperties?.map(property => property.propertyKey));
+    if (isPropFilterParameter(filter.parameter)) {
+      keys.add(getPropFilterKey(filter.parameter));
+    }
+    return Array.from(keys).map(key => `prop:${key}` as FilterParameter);
+  }, [eventProperties, filter.parameter, propertyFiltersAvailable]);
+
+  const isPropertyFilter = isPropFilterParameter(filter.parameter);
+
   return (
     <div className="grid grid-cols-[220px_auto] md:grid-cols-[160px_100px_250px_auto] gap-2">
       <Select
         onValueChange={value => {
+          const parameter = value as FilterParameter;
+          // Fall back to equals when the current operator doesn't apply to the new parameter
+          const keepsType = getOperatorOptions(parameter).some(option => option.value === filter.type);
           updateFilter(
             {
               ...filter,
               value: [],
-              parameter: value as FilterParameter,
+              parameter,
+              type: keepsType ? filter.type : "equals",
             },
             index
           );
@@ -47,6 +72,14 @@ export function FilterComponent({
               </div>
             </SelectItem>
           ))}
+          {propertyParameters.map(parameter => (
+            <SelectItem key={parameter} value={parameter}>
+              <div className="flex items-center gap-2">
+                <Braces className="h-4 w-4" />
+                {getPropFilterKey(parameter)}
+              </div>
+            </SelectItem>
+          ))}
         </SelectContent>
       </Select>
       <Select
@@ -56,6 +89,7 @@ export function FilterComponent({
             {
               ...filter,
               type: value as FilterType,
+              value: isValuelessFilterType(value as FilterType) ? [] : filter.value,
             },
             index
           );
@@ -65,20 +99,32 @@ export function FilterComponent({
           <SelectValue placeholder="Operator" />
         </SelectTrigger>
         <SelectContent>
-          {OperatorOptions.map(option => (
+          {getOperatorOptions(filter.parameter).map(option => (
             <SelectItem key={option.value} value={option.value}>
               {option.label}
             </SelectItem>
           ))}
         </SelectContent>
       </Select>
-      <ValueSelect
-        onChange={value => {
-          updateFilter({ ...filter, value: value }, index);
-        }}
-        parameter={filter.parameter}
-        value={filter.value}
-      />
+      {isValuelessFilterType(filter.type) ? (
+        <div />
+      ) : isPropertyFilter ? (
+        <PropertyValueSelect
+          onChange={value => {
+            updateFilter({ ...filter, value: value }, index);
+          }}
+          parameter={filter.parameter}
+          value={filter.value}
+        />
+      ) : (
+        <ValueSelect
+          onChange={value => {
+            updateFilter({ ...filter, value: value }, index);
+          }}
+          parameter={filter.parameter}
+          value={filter.value}
+        />
+      )}
       <Button
         variant={"ghost"}
         size={"icon"}
@@ -2,10 +2,12 @@
 
 import { FilterParameter } from "@rybbit/shared";
 import { useMemo } from "react";
+import { useGetAllEventProperties } from "../../../../../api/analytics/events/useGetEventProperties";
 import { useSingleCol } from "../../../../../api/analytics/useSingleCol";
 import { MultiSelect } from "../../../../../components/MultiSelect";
 import { useGetRegionName } from "../../../../../lib/geo";
 import { getCountryName, getLanguageName } from "../../../../../lib/utils";
+import { getPropFilterKey } from "./utils";
 
 export function ValueSelect({
   parameter,
@@ -67,3 +69,44 @@ export function ValueSelect({
     />
   );
 }
+
+export function PropertyValueSelect({
+  parameter,
+  value,
+  onChange,
+}: {
+  parameter: FilterParameter;
+  value: (string | number)[];
+  onChange: (values: (string | number)[]) => void;
+}) {
+  const { data, isFetching } = useGetAllEventProperties();
+
+  const propertyKey = getPropFilterKey(parameter);
+
+  const suggestions = useMemo(() => {
+    const values = new Set(
+      data?.filter(property => property.propertyKey === propertyKey).map(property => property.propertyValue)
+    );
+    return Array.from(values)
+      .filter(Boolean)
+      .map(val => ({ value: val, label: val }));
+  }, [data, propertyKey]);
+
+  const handleChange = (selected: any) => {
+    const values = selected.map((item: { value: string }) => item.value);
+    onChange(values);
+  };
+
+  return (
+    <MultiSelect
+      value={value.map(val => ({
+        value: val,
+        label: val,
+      }))}
+      options={isFetching ? [] : suggestions}
+      onChange={handleChange}
+      placeholder="Select values..."
+      isLoading={isFetching}
+    />
+  );
+}
@@ -1,4 +1,4 @@
-import { FilterParameter } from "@rybbit/shared";
+import { FilterParameter, FilterType } from "@rybbit/shared";
 import {
   AppWindow,
   Brain,
@@ -157,6 +157,16 @@ export const FilterOptions: {
     value: "utm_term",
     icon: <Tag className="h-4 w-4" />,
   },
+  {
+    label: "Screen Width",
+    value: "screen_width",
+    icon: <Maximize className="h-4 w-4" />,
+  },
+  {
+    label: "Screen Height",
+    value: "screen_height",
+    icon: <Maximize className="h-4 w-4" />,
+  },
   {
     label: "Lat",
     value: "lat",
@@ -169,9 +179,26 @@ export const FilterOptions: {
   },
 ];
 
-export const OperatorOptions = [
+export const OperatorOptions: { label: string; value: FilterType }[] = [
   { label: "Is", value: "equals" },
   { label: "Is not", value: "not_equals" },
   { label: "Contains", value: "contains" },
   { label: "Not contains", value: "not_contains" },
+  { label: "In list", value: "in" },
+  { label: "Not in list", value: "not_in" },
+  { label: "Is set", value: "is_set" },
+  { label: "Is not set", value: "is_not_set" },
+];
+
+// Not offered for numeric columns like lat or screen_width
+export const RegexOperatorOptions: { label: string; value: FilterType }[] = [
+  { label: "Matches regex", value: "regex" },
+  { label: "Not matches regex", value: "not_regex" },
+];
+
+// Only offered for numeric columns and event properties, which may hold numbers
+export const NumericOperatorOptions: { label: string; value: FilterType }[] = [
+  { label: "Greater than", value: "greater_than" },
+  { label: "Less than", value: "less_than" },
+  { label: "Between", value: "between" },
 ];
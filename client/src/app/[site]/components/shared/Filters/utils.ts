@@ -1,7 +1,37 @@
 import { Filter, FilterParameter, FilterType } from "@rybbit/shared";
 import { getCountryName } from "../../../../../lib/utils";
+import { NumericOperatorOptions, OperatorOptions, RegexOperatorOptions } from "./const";
+
+export const isPropFilterParameter = (parameter: FilterParameter) => parameter.startsWith("prop:");
+
+export const getPropFilterKey = (parameter: FilterParameter) => parameter.substring("prop:".length);
+
+const NUMERIC_COLUMN_PARAMETERS: FilterParameter[] = ["lat", "lon", "screen_width", "screen_height"];
+
+// Whether the numeric operators (greater than, less than, between) apply to a parameter
+export const isNumericFilterParameter = (parameter: FilterParameter) =>
+  isPropFilterParameter(parameter) || NUMERIC_COLUMN_PARAMETERS.includes(parameter);
+
+export const getOperatorOptions = (parameter: FilterParameter) => [
+  ...OperatorOptions,
+  ...(NUMERIC_COLUMN_PARAMETERS.includes(parameter) ? [] : RegexOperatorOptions),
+  ...(isNumericFilterParameter(parameter) ? NumericOperatorOptions : []),
+];
+
+// Operators that only check for presence and take no values
+export const isValuelessFilterType = (type: FilterType) => type === "is_set" || type === "is_not_set";
+
+export const isNegativeFilterType = (type: FilterType) =>
+  type === "not_equals" ||
+  type === "not_contains" ||
+  type === "not_regex" ||
+  type === "not_in" ||
+  type === "is_not_set";
 
 export function getParameterNameLabel(parameter: FilterParameter) {
+  if (isPropFilterParameter(parameter)) {
+    return `Property: ${getPropFilterKey(parameter)}`;
+  }
   switch (parameter) {
     case "country":
       return "Country";
@@ -55,6 +85,10 @@ export function getParameterNameLabel(parameter: FilterParameter) {
       return "Lat";
     case "lon":
       return "Lon";
+    case "screen_width":
+      return "Screen Width";
+    case "screen_height":
+      return "Screen Height";
     default:
       return parameter;
   }
@@ -70,6 +104,24 @@ export const filterTypeToLabel = (type: FilterType) => {
       return "contains";
     case "not_contains":
       return "not contains";
+    case "regex":
+      return "matches";
+    case "not_regex":
+      return "not matches";
+    case "greater_than":
+      return "greater than";
+    case "less_than":
+      return "less than";
+    case "between":
+      return "between";
+    case "in":
+      return "in";
+    case "not_in":
+      return "not in";
+    case "is_set":
+      return "is set";
+    case "is_not_set":
+      return "is not set";
     default:
       return type;
   }
@@ -86,6 +138,14 @@ export function getParameterValueLabel(filter: Filter, getRegionName: (region: s
     return value;
   };
 
+  if (isValuelessFilterType(filter.type)) {
+    return "";
+  }
+
+  if (filter.type === "between") {
+    return filter.value.map(formatValue).join(" – ");
+  }
+
   if (filter.value.length === 1) {
     return formatValue(filter.value[0]);
   }
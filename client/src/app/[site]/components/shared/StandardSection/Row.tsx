@@ -6,6 +6,7 @@ import { ReactNode, useState, useCallback } from "react";
 import { usePaginatedSingleCol } from "../../../../../api/analytics/usePaginatedSingleCol";
 import { SingleColResponse } from "../../../../../api/analytics/useSingleCol";
 import { addFilter, removeFilter, useStore } from "../../../../../lib/store";
+import { cn } from "../../../../../lib/utils";
 
 // Custom hook for filter handling logic
 const useFilterToggle = () => {
@@ -30,6 +31,22 @@ const useFilterToggle = () => {
   return toggleFilter;
 };
 
+// Change in count against the comparison range; values that are new in this range show nothing
+const CountChange = ({ current, previous }: { current: number; previous?: number }) => {
+  if (!previous) {
+    return null;
+  }
+
+  const change = ((current - previous) / previous) * 100;
+
+  return (
+    <div className={cn("hidden group-hover:block", change >= 0 ? "text-green-400" : "text-red-400")}>
+      {change > 0 ? "+" : ""}
+      {round(change, 1)}%
+    </div>
+  );
+};
+
 // Shared row item component
 const RowItem = ({
   item,
@@ -76,6 +93,7 @@ const RowItem = ({
           )}
         </div>
         <div className="text-xs flex gap-2">
+          <CountChange current={item.count} previous={item.comparison_count} />
           <div className="hidden group-hover:block text-neutral-400">{round(item.percentage, 1)}%</div>
           <NumberFlow respectMotionPreference={false} value={item.count} format={{ notation: "compact" }} />
         </div>
@@ -0,0 +1,40 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { SingleColResponse } from "../../../../../api/analytics/useSingleCol";
+
+const THRESHOLDS = [25, 50, 75, 100] as const;
+
+// Bars for the share of page visits that scrolled at least 25/50/75/100% of the way down
+export function ScrollDepthDistribution({ item }: { item: SingleColResponse }) {
+  if (!item.engaged_visits) {
+    return <div className="text-right text-neutral-500">-</div>;
+  }
+
+  const shares = THRESHOLDS.map(threshold => item[`scroll_depth_${threshold}`] ?? 0);
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="flex items-end justify-end gap-0.5 h-5">
+          {shares.map((share, index) => (
+            <div
+              key={THRESHOLDS[index]}
+              className="w-2 bg-neutral-800 h-full flex items-end rounded-sm overflow-hidden"
+            >
+              <div className="w-full bg-emerald-500/70" style={{ height: `${share}%` }} />
+            </div>
+          ))}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>
+        <div className="text-xs space-y-0.5">
+          {shares.map((share, index) => (
+            <div key={THRESHOLDS[index]}>
+              {share.toFixed(0)}% scrolled past {THRESHOLDS[index]}%
+            </div>
+          ))}
+          <div className="text-neutral-400">Average depth {Math.round(item.avg_scroll_depth ?? 0)}%</div>
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -6,7 +6,9 @@ import { AlertCircle, Info, RefreshCcw } from "lucide-react";
 import { ReactNode } from "react";
 import { usePaginatedSingleCol } from "../../../../../api/analytics/usePaginatedSingleCol";
 import { SingleColResponse } from "../../../../../api/analytics/useSingleCol";
+import { ExportButton } from "../../../../../components/ExportButton";
 import { CardLoader } from "../../../../../components/ui/card";
+import { useStore } from "../../../../../lib/store";
 import { Row } from "./Row";
 import { Skeleton } from "./Skeleton";
 import { StandardSectionDialog } from "./StandardSectionDialog";
@@ -40,10 +42,13 @@ export function StandardSection({
   hasSubrow?: boolean;
   getSubrowLabel?: (item: SingleColResponse) => ReactNode;
 }) {
+  const { time } = useStore();
+
   const { data, isLoading, isFetching, error, refetch } = usePaginatedSingleCol({
     parameter: filterParameter,
     limit: 100,
     page: 1,
+    compare: time.mode === "all-time" ? undefined : "previous_period",
   });
 
   const itemsForDisplay = data?.data;
@@ -124,6 +129,7 @@ export function StandardSection({
               expanded={expanded}
               close={close}
             />
+            <ExportButton report="single_col" params={{ parameter: filterParameter }} />
           </div>
         ) : null}
       </div>
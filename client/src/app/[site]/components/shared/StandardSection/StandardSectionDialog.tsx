@@ -16,6 +16,7 @@ import { SingleColResponse } from "../../../../../api/analytics/useSingleCol";
 import { FilterParameter } from "@rybbit/shared";
 import { addFilter } from "../../../../../lib/store";
 import { cn, formatSecondsAsMinutesAndSeconds } from "../../../../../lib/utils";
+import { ScrollDepthDistribution } from "./ScrollDepthDistribution";
 
 interface StandardSectionDialogProps {
   title: string;
@@ -148,6 +149,28 @@ export function StandardSectionDialog({
           }) as any
         );
       }
+
+      const hasEngagement = filteredData[0]?.engaged_visits !== undefined;
+      if (hasEngagement) {
+        cols.push(
+          columnHelper.accessor("avg_engaged_seconds", {
+            header: "Engaged time",
+            cell: info => (
+              <div className="text-right">
+                {info.row.original.engaged_visits
+                  ? formatSecondsAsMinutesAndSeconds(Math.round(info.getValue() ?? 0))
+                  : "-"}
+              </div>
+            ),
+          }) as any
+        );
+        cols.push(
+          columnHelper.accessor("avg_scroll_depth", {
+            header: "Scroll depth",
+            cell: info => <ScrollDepthDistribution item={info.row.original} />,
+          }) as any
+        );
+      }
     }
 
     return cols;
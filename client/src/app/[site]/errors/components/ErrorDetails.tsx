@@ -1,6 +1,7 @@
 "use client";
 
 import { ErrorEvent, useGetErrorEventsInfinite } from "@/api/analytics/errors/useGetErrorEvents";
+import { ExportButton } from "@/components/ExportButton";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -331,8 +332,9 @@ export function ErrorDetails({ errorMessage }: ErrorDetailsProps) {
       )}
 
       {totalCount > 0 && (
-        <div className="text-center text-xs text-gray-500 mt-2">
+        <div className="flex items-center justify-center gap-2 text-xs text-gray-500 mt-2">
           Showing {allErrorEvents.length} of {totalCount} error events
+          <ExportButton report="error_events" params={{ errorMessage }} />
         </div>
       )}
     </div>
@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { EVENT_FILTERS } from "@/lib/store";
 import { useGetEventNames } from "../../../api/analytics/events/useGetEventNames";
 import { DisabledOverlay } from "../../../components/DisabledOverlay";
+import { ExportButton } from "../../../components/ExportButton";
 import { useSetPageTitle } from "../../../hooks/useSetPageTitle";
 import { SubHeader } from "../components/SubHeader/SubHeader";
 import { EventList } from "./components/EventList";
@@ -29,8 +30,9 @@ export default function EventsPage() {
         </Card>
 
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle>Event Log</CardTitle>
+            <ExportButton report="events" />
           </CardHeader>
           <CardContent>
             <EventLog />
@@ -10,6 +10,7 @@ import { toast } from "sonner";
 import { useDeleteFunnel } from "../../../../api/analytics/funnels/useDeleteFunnel";
 import { useGetFunnel } from "../../../../api/analytics/funnels/useGetFunnel";
 import { SavedFunnel } from "../../../../api/analytics/funnels/useGetFunnels";
+import { ExportButton } from "../../../../components/ExportButton";
 import { ThreeDotLoader } from "../../../../components/Loaders";
 import { EditFunnelDialog } from "./EditFunnel";
 import { Funnel } from "./Funnel";
@@ -116,6 +117,8 @@ export function FunnelRow({ funnel, index }: FunnelRowProps) {
 
         <div className="flex items-center gap-4">
           <div className="flex">
+            <ExportButton report="funnel" steps={funnel.steps} />
+
             {/* Edit button */}
             <Tooltip>
               <TooltipTrigger asChild>
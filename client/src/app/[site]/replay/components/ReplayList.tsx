@@ -10,12 +10,15 @@ import {
 import { useReplayStore } from "./replayStore";
 import { ScrollArea } from "../../../../components/ui/scroll-area";
 import { Input } from "../../../../components/ui/input";
+import { Label } from "../../../../components/ui/label";
+import { Switch } from "../../../../components/ui/switch";
 
 export function ReplayList() {
-  const { sessionId, setSessionId, minDuration, setMinDuration } = useReplayStore();
+  const { sessionId, setSessionId, minDuration, setMinDuration, hasFrustration, setHasFrustration } = useReplayStore();
 
   const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useGetSessionReplays({
     minDuration,
+    hasFrustration,
   });
 
   // Use the intersection observer hook for infinite scroll
@@ -63,6 +66,12 @@ export function ReplayList() {
             <div className="text-xs text-neutral-400">s</div>
           </div>
         </div>
+        <div className="flex items-center gap-2 px-2 pb-2">
+          <Switch id="hasFrustration" checked={hasFrustration} onCheckedChange={setHasFrustration} />
+          <Label htmlFor="hasFrustration" className="text-xs text-neutral-400">
+            Frustrated only
+          </Label>
+        </div>
       </div>
       <div className="rounded-lg border border-neutral-800 flex flex-col">
         <ScrollArea className="h-[calc(100vh-178px)]">
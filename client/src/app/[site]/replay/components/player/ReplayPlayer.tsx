@@ -118,6 +118,7 @@ export function ReplayPlayer({ width, height }: { width: number; height: number
         playbackSpeed={playbackSpeed}
         activityPeriods={activityPeriods}
         events={data?.events || []}
+        frustrationSignals={data?.frustrationSignals || []}
         onPlayPause={handlePlayPause}
         onSliderChange={handleSliderChange}
         onSpeedChange={handleSpeedChange}
@@ -3,6 +3,10 @@ import { ActivitySlider } from "../../../../../components/ui/activity-slider";
 import { Button } from "../../../../../components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../../../components/ui/select";
 import { formatTime, PLAYBACK_SPEEDS } from "./utils/replayUtils";
+import {
+  FRUSTRATION_SIGNAL_LABELS,
+  FrustrationSignal,
+} from "../../../../../api/analytics/sessionReplay/useGetSessionReplayEvents";
 
 interface ReplayPlayerControlsProps {
   player: any;
@@ -12,6 +16,7 @@ interface ReplayPlayerControlsProps {
   playbackSpeed: string;
   activityPeriods: { start: number; end: number }[];
   events: any[];
+  frustrationSignals: FrustrationSignal[];
   onPlayPause: () => void;
   onSliderChange: (value: number[]) => void;
   onSpeedChange: (speed: string) => void;
@@ -25,6 +30,7 @@ export function ReplayPlayerControls({
   playbackSpeed,
   activityPeriods,
   events,
+  frustrationSignals,
   onPlayPause,
   onSliderChange,
   onSpeedChange,
@@ -48,6 +54,10 @@ export function ReplayPlayerControls({
             activityPeriods={activityPeriods}
             duration={duration}
             events={events}
+            markers={frustrationSignals.map(signal => ({
+              timestamp: signal.timestamp,
+              label: `${FRUSTRATION_SIGNAL_LABELS[signal.type]} on ${signal.selector}`,
+            }))}
             className="w-full"
           />
         </div>
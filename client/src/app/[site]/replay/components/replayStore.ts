@@ -9,6 +9,9 @@ export const useReplayStore = create<{
   minDuration: number;
   setMinDuration: (minDuration: number) => void;
 
+  hasFrustration: boolean;
+  setHasFrustration: (hasFrustration: boolean) => void;
+
   // Session selection
   sessionId: string;
   setSessionId: (sessionId: string) => void;
@@ -39,6 +42,9 @@ export const useReplayStore = create<{
   minDuration: 30,
   setMinDuration: minDuration => set({ minDuration }),
 
+  hasFrustration: false,
+  setHasFrustration: hasFrustration => set({ hasFrustration }),
+
   // Session selection
   sessionId: "",
   setSessionId: sessionId => set({ sessionId }),
@@ -17,9 +17,9 @@ import { Video } from "lucide-react";
 export default function SessionReplayPage() {
   useSetPageTitle("Rybbit · Session Replay");
 
-  const { minDuration } = useReplayStore();
+  const { minDuration, hasFrustration } = useReplayStore();
 
-  const { data, isLoading } = useGetSessionReplays({ minDuration });
+  const { data, isLoading } = useGetSessionReplays({ minDuration, hasFrustration });
 
   const hasNoReplays = !isLoading && !data?.pages[0].data?.length;
 
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { DashboardSummary } from "../../../../api/analytics/dashboards/types";
+import { useCreateDashboard, useUpdateDashboard } from "../../../../api/analytics/dashboards/useDashboardMutations";
+import { Button } from "../../../../components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "../../../../components/ui/dialog";
+import { Input } from "../../../../components/ui/input";
+import { Label } from "../../../../components/ui/label";
+import { Textarea } from "../../../../components/ui/textarea";
+
+interface DashboardFormModalProps {
+  dashboard?: Pick<DashboardSummary, "dashboardId" | "name" | "description">; // Optional dashboard for editing mode
+  trigger: React.ReactNode;
+  onCreated?: (dashboardId: number) => void;
+}
+
+export function DashboardFormModal({ dashboard, trigger, onCreated }: DashboardFormModalProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState(dashboard?.name ?? "");
+  const [description, setDescription] = useState(dashboard?.description ?? "");
+
+  const createDashboard = useCreateDashboard();
+  const updateDashboard = useUpdateDashboard();
+  const isSaving = createDashboard.isPending || updateDashboard.isPending;
+
+  const onSubmit = async () => {
+    try {
+      if (dashboard) {
+        await updateDashboard.mutateAsync({ dashboardId: dashboard.dashboardId, name, description });
+      } else {
+        const result = await createDashboard.mutateAsync({ name, description });
+        onCreated?.(result.dashboardId);
+        setName("");
+        setDescription("");
+      }
+      setIsOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save dashboard");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{dashboard ? "Edit Dashboard" : "Create Dashboard"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Marketing" />
+          </div>
+          <div className="space-y-2">
+            <Label>Description</Label>
+            <Textarea value={description} onChange={e => setDescription(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button variant="success" onClick={onSubmit} disabled={!name || isSaving}>
+            {isSaving ? "Saving..." : dashboard ? "Update" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { ArrowLeft, ArrowRight, Edit, Trash2 } from "lucide-react";
+import { DashboardWidget } from "../../../../api/analytics/dashboards/types";
+import { useDeleteDashboardWidget } from "../../../../api/analytics/dashboards/useDashboardMutations";
+import { getWidgetDates } from "../../../../api/analytics/dashboards/useGetWidgetData";
+import { Button } from "../../../../components/ui/button";
+import { WidgetContent } from "./WidgetContent";
+import { WidgetFormModal } from "./WidgetFormModal";
+
+// Tailwind needs the full class names at build time
+const COL_SPANS: Record<number, string> = {
+  4: "md:col-span-4",
+  6: "md:col-span-6",
+  8: "md:col-span-8",
+  12: "md:col-span-12",
+};
+
+const HEIGHTS: Record<number, string> = {
+  1: "h-[260px]",
+  2: "h-[540px]",
+  3: "h-[820px]",
+  4: "h-[1100px]",
+};
+
+interface DashboardWidgetCardProps {
+  widget: DashboardWidget;
+  onMove: (direction: -1 | 1) => void;
+  canMoveBack: boolean;
+  canMoveForward: boolean;
+}
+
+export function DashboardWidgetCard({ widget, onMove, canMoveBack, canMoveForward }: DashboardWidgetCardProps) {
+  const deleteWidget = useDeleteDashboardWidget(widget.dashboardId);
+  const { startDate, endDate } = getWidgetDates(widget.dateRange);
+
+  return (
+    <div
+      className={`col-span-12 ${COL_SPANS[widget.width] ?? "md:col-span-6"} rounded-lg bg-neutral-900 border border-neutral-800 p-3 flex flex-col`}
+    >
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div className="min-w-0">
+          <h3 className="font-medium truncate">{widget.title}</h3>
+          <p className="text-xs text-neutral-400">
+            {widget.widgetType === "retention" ? `Last ${widget.config.range ?? 90} days` : `${startDate} – ${endDate}`}
+            {widget.filters.length > 0 && ` · ${widget.filters.length} filter(s)`}
+          </p>
+        </div>
+        <div className="flex flex-shrink-0 gap-1">
+          <Button variant="ghost" size="smIcon" disabled={!canMoveBack} onClick={() => onMove(-1)}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="smIcon" disabled={!canMoveForward} onClick={() => onMove(1)}>
+            <ArrowRight className="h-4 w-4" />
+          </Button>
+          <WidgetFormModal
+            dashboardId={widget.dashboardId}
+            widget={widget}
+            trigger={
+              <Button variant="ghost" size="smIcon">
+                <Edit className="h-4 w-4" />
+              </Button>
+            }
+          />
+          <Button
+            variant="ghost"
+            size="smIcon"
+            disabled={deleteWidget.isPending}
+            onClick={() => deleteWidget.mutate(widget.widgetId)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className={`${HEIGHTS[widget.height] ?? HEIGHTS[1]} overflow-hidden`}>
+        <WidgetContent widget={widget} />
+      </div>
+    </div>
+  );
+}
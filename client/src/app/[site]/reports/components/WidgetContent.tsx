@@ -0,0 +1,142 @@
+"use client";
+
+import { nivoTheme } from "@/lib/nivo";
+import { ResponsiveLine } from "@nivo/line";
+import { DateTime } from "luxon";
+import { FunnelResponse } from "../../../../api/analytics/funnels/useGetFunnel";
+import { Goal } from "../../../../api/analytics/goals/useGetGoals";
+import { GetOverviewBucketedResponse } from "../../../../api/analytics/useGetOverviewBucketed";
+import { ProcessedRetentionData } from "../../../../api/analytics/useGetRetention";
+import { SingleColResponse } from "../../../../api/analytics/useSingleCol";
+import { DashboardWidget } from "../../../../api/analytics/dashboards/types";
+import { useGetWidgetData } from "../../../../api/analytics/dashboards/useGetWidgetData";
+import { Skeleton } from "../../../../components/ui/skeleton";
+import { Funnel } from "../../funnels/components/Funnel";
+import { RetentionChart } from "../../retention/RetentionChart";
+
+function OverviewLine({ widget, data }: { widget: DashboardWidget; data: GetOverviewBucketedResponse }) {
+  const metric = widget.config.metric ?? "pageviews";
+  const points = data.map(row => ({
+    x: DateTime.fromSQL(row.time).toUTC().toFormat("yyyy-MM-dd HH:mm:ss"),
+    y: row[metric],
+  }));
+
+  return (
+    <ResponsiveLine
+      data={[{ id: metric, data: points }]}
+      theme={nivoTheme}
+      margin={{ top: 10, right: 10, bottom: 25, left: 35 }}
+      xScale={{ type: "time", format: "%Y-%m-%d %H:%M:%S", precision: "second", useUTC: true }}
+      yScale={{ type: "linear", min: 0, stacked: false }}
+      axisBottom={{ format: "%b %d", tickValues: 4 }}
+      axisLeft={{ tickValues: 4 }}
+      enableGridX={false}
+      gridYValues={4}
+      enablePoints={false}
+      useMesh={true}
+      animate={false}
+      colors={["hsl(var(--dataviz))"]}
+    />
+  );
+}
+
+function SingleColList({ data }: { data: SingleColResponse[] }) {
+  return (
+    <div className="space-y-1 overflow-y-auto h-full">
+      {data.map(row => (
+        <div key={row.value} className="relative flex items-center justify-between text-sm px-2 py-1">
+          <div className="absolute inset-0 bg-dataviz rounded-md opacity-25" style={{ width: `${row.percentage}%` }} />
+          <span className="truncate z-10">{row.title || row.value || "(not set)"}</span>
+          <span className="z-10 text-neutral-300">{row.count.toLocaleString()}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function GoalsTable({ data }: { data: Goal[] }) {
+  return (
+    <div className="space-y-1 overflow-y-auto h-full text-sm">
+      {data.map(goal => (
+        <div key={goal.goalId} className="flex items-center justify-between px-2 py-1">
+          <span className="truncate">{goal.name || goal.config.pathPattern || goal.config.eventName}</span>
+          <span className="text-neutral-300">
+            {goal.total_conversions.toLocaleString()} · {(goal.conversion_rate * 100).toFixed(1)}%
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PerformanceSummary({ widget, data }: { widget: DashboardWidget; data: Record<string, number> }) {
+  const percentile = widget.config.percentile ?? "p75";
+  const metrics = [
+    { key: "lcp", label: "LCP", unit: "ms" },
+    { key: "cls", label: "CLS", unit: "" },
+    { key: "inp", label: "INP", unit: "ms" },
+    { key: "fcp", label: "FCP", unit: "ms" },
+    { key: "ttfb", label: "TTFB", unit: "ms" },
+  ] as const;
+
+  return (
+    <div className="grid grid-cols-5 gap-2 h-full items-center">
+      {metrics.map(({ key, label, unit }) => (
+        <div key={key} className="text-center">
+          <div className="text-lg font-semibold">
+            {key === "cls"
+              ? (data[`${key}_${percentile}`] ?? 0).toFixed(3)
+              : Math.round(data[`${key}_${percentile}`] ?? 0)}
+            <span className="text-xs text-neutral-400">{unit}</span>
+          </div>
+          <div className="text-xs text-neutral-400">{label}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function WidgetContent({ widget }: { widget: DashboardWidget }) {
+  const { data, isLoading, isError, error } = useGetWidgetData<any>(widget);
+
+  if (widget.widgetType === "funnel") {
+    return (
+      <Funnel
+        data={data as FunnelResponse[] | undefined}
+        steps={widget.config.steps ?? []}
+        isError={isError}
+        error={error}
+        isPending={isLoading}
+      />
+    );
+  }
+
+  if (widget.widgetType === "retention") {
+    return (
+      <RetentionChart
+        data={data as ProcessedRetentionData | undefined}
+        isLoading={isLoading}
+        mode={widget.config.mode ?? "week"}
+      />
+    );
+  }
+
+  if (isLoading) {
+    return <Skeleton className="w-full h-full" />;
+  }
+
+  if (isError || !data) {
+    return <div className="text-sm text-red-500">{error instanceof Error ? error.message : "Failed to load"}</div>;
+  }
+
+  switch (widget.widgetType) {
+    case "overview_bucketed":
+      return <OverviewLine widget={widget} data={data as GetOverviewBucketedResponse} />;
+    case "single_col":
+      return <SingleColList data={(data as { data: SingleColResponse[] }).data} />;
+    case "goals":
+      return <GoalsTable data={data as Goal[]} />;
+    case "performance":
+      return <PerformanceSummary widget={widget} data={data as Record<string, number>} />;
+  }
+}
@@ -0,0 +1,442 @@
+"use client";
+
+import { FilterParameter, TimeBucket } from "@rybbit/shared";
+import { Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  useCreateDashboardWidget,
+  useUpdateDashboardWidget,
+} from "../../../../api/analytics/dashboards/useDashboardMutations";
+import {
+  DashboardWidget,
+  OverviewMetric,
+  WidgetConfig,
+  WidgetDateRange,
+  WidgetType,
+} from "../../../../api/analytics/dashboards/types";
+import { FunnelStep } from "../../../../api/analytics/funnels/useGetFunnel";
+import { Button } from "../../../../components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "../../../../components/ui/dialog";
+import { Input } from "../../../../components/ui/input";
+import { Label } from "../../../../components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../../components/ui/select";
+import { Switch } from "../../../../components/ui/switch";
+import { useStore } from "../../../../lib/store";
+
+const WIDGET_TYPES: { value: WidgetType; label: string }[] = [
+  { value: "overview_bucketed", label: "Time series" },
+  { value: "single_col", label: "Breakdown" },
+  { value: "funnel", label: "Funnel" },
+  { value: "retention", label: "Retention" },
+  { value: "goals", label: "Goals" },
+  { value: "performance", label: "Web vitals" },
+];
+
+const METRICS: { value: OverviewMetric; label: string }[] = [
+  { value: "pageviews", label: "Pageviews" },
+  { value: "sessions", label: "Sessions" },
+  { value: "users", label: "Users" },
+  { value: "pages_per_session", label: "Pages per session" },
+  { value: "bounce_rate", label: "Bounce rate" },
+  { value: "session_duration", label: "Session duration" },
+];
+
+const BUCKETS: { value: TimeBucket; label: string }[] = [
+  { value: "hour", label: "Hourly" },
+  { value: "day", label: "Daily" },
+  { value: "week", label: "Weekly" },
+  { value: "month", label: "Monthly" },
+];
+
+const PARAMETERS: { value: FilterParameter; label: string }[] = [
+  { value: "pathname", label: "Pages" },
+  { value: "entry_page", label: "Entry pages" },
+  { value: "exit_page", label: "Exit pages" },
+  { value: "referrer", label: "Referrers" },
+  { value: "channel", label: "Channels" },
+  { value: "utm_source", label: "UTM source" },
+  { value: "utm_campaign", label: "UTM campaign" },
+  { value: "country", label: "Countries" },
+  { value: "browser", label: "Browsers" },
+  { value: "operating_system", label: "Operating systems" },
+  { value: "device_type", label: "Devices" },
+  { value: "event_name", label: "Events" },
+];
+
+const RELATIVE_RANGES = [7, 14, 30, 90, 180, 365];
+
+const WIDTHS = [
+  { value: 4, label: "One third" },
+  { value: 6, label: "Half" },
+  { value: 8, label: "Two thirds" },
+  { value: 12, label: "Full width" },
+];
+
+function defaultConfig(widgetType: WidgetType): WidgetConfig {
+  switch (widgetType) {
+    case "overview_bucketed":
+      return { bucket: "day", metric: "pageviews" };
+    case "single_col":
+      return { parameter: "pathname", limit: 10 };
+    case "funnel":
+      return {
+        steps: [
+          { type: "page", value: "/" },
+          { type: "page", value: "" },
+        ],
+      };
+    case "retention":
+      return { mode: "week", range: 90 };
+    case "performance":
+      return { percentile: "p75" };
+    default:
+      return {};
+  }
+}
+
+interface WidgetFormModalProps {
+  dashboardId: number;
+  widget?: DashboardWidget; // Optional widget for editing mode
+  trigger: React.ReactNode;
+}
+
+export function WidgetFormModal({ dashboardId, widget, trigger }: WidgetFormModalProps) {
+  const { filters: currentFilters } = useStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const isEditMode = !!widget;
+
+  const [title, setTitle] = useState(widget?.title ?? "");
+  const [widgetType, setWidgetType] = useState<WidgetType>(widget?.widgetType ?? "overview_bucketed");
+  const [config, setConfig] = useState<WidgetConfig>(widget?.config ?? defaultConfig("overview_bucketed"));
+  const [dateRange, setDateRange] = useState<WidgetDateRange>(widget?.dateRange ?? { type: "relative", days: 30 });
+  const [width, setWidth] = useState(widget?.width ?? 6);
+  // Filters are snapshotted from the page's filter bar when the widget is saved
+  const [useCurrentFilters, setUseCurrentFilters] = useState(false);
+
+  const createWidget = useCreateDashboardWidget(dashboardId);
+  const updateWidget = useUpdateDashboardWidget(dashboardId);
+  const isSaving = createWidget.isPending || updateWidget.isPending;
+
+  const filters = useCurrentFilters ? currentFilters : (widget?.filters ?? []);
+  const steps = config.steps ?? [];
+
+  const updateStep = (index: number, step: Partial<FunnelStep>) => {
+    setConfig({ ...config, steps: steps.map((s, i) => (i === index ? { ...s, ...step } : s)) });
+  };
+
+  const handleTypeChange = (value: WidgetType) => {
+    setWidgetType(value);
+    setConfig(defaultConfig(value));
+  };
+
+  const onSubmit = async () => {
+    const data = { title, widgetType, config, filters, dateRange, width, height: widget?.height ?? 1 };
+    try {
+      if (isEditMode) {
+        await updateWidget.mutateAsync({ ...data, widgetId: widget.widgetId });
+      } else {
+        await createWidget.mutateAsync(data);
+      }
+      setIsOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save widget");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isEditMode ? "Edit Widget" : "Add Widget"}</DialogTitle>
+          <DialogDescription>
+            Widgets keep their own date range and filters, independent of the rest of the dashboard.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Title</Label>
+            <Input value={title} onChange={e => setTitle(e.target.value)} placeholder="e.g. Signups per day" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={widgetType} onValueChange={value => handleTypeChange(value as WidgetType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WIDGET_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Width</Label>
+              <Select value={String(width)} onValueChange={value => setWidth(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WIDTHS.map(option => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {widgetType === "overview_bucketed" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Metric</Label>
+                <Select
+                  value={config.metric}
+                  onValueChange={value => setConfig({ ...config, metric: value as OverviewMetric })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {METRICS.map(metric => (
+                      <SelectItem key={metric.value} value={metric.value}>
+                        {metric.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Interval</Label>
+                <Select
+                  value={config.bucket}
+                  onValueChange={value => setConfig({ ...config, bucket: value as TimeBucket })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BUCKETS.map(bucket => (
+                      <SelectItem key={bucket.value} value={bucket.value}>
+                        {bucket.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {widgetType === "single_col" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Breakdown</Label>
+                <Select
+                  value={config.parameter}
+                  onValueChange={value => setConfig({ ...config, parameter: value as FilterParameter })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PARAMETERS.map(parameter => (
+                      <SelectItem key={parameter.value} value={parameter.value}>
+                        {parameter.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Rows</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={config.limit ?? 10}
+                  onChange={e => setConfig({ ...config, limit: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+          )}
+
+          {widgetType === "funnel" && (
+            <div className="space-y-2">
+              <Label>Steps</Label>
+              {steps.map((step, index) => (
+                <div key={index} className="flex gap-2">
+                  <Select
+                    value={step.type}
+                    onValueChange={value => updateStep(index, { type: value as FunnelStep["type"] })}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="page">Page</SelectItem>
+                      <SelectItem value="event">Event</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={step.value}
+                    placeholder={step.type === "page" ? "/pricing" : "signup"}
+                    onChange={e => updateStep(index, { value: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={steps.length <= 2}
+                    onClick={() => setConfig({ ...config, steps: steps.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setConfig({ ...config, steps: [...steps, { type: "page", value: "" }] })}
+              >
+                <Plus className="h-4 w-4" /> Add step
+              </Button>
+            </div>
+          )}
+
+          {widgetType === "retention" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Cohorts</Label>
+                <Select
+                  value={config.mode}
+                  onValueChange={value => setConfig({ ...config, mode: value as "day" | "week" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="day">Daily</SelectItem>
+                    <SelectItem value="week">Weekly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Range (days)</Label>
+                <Input
+                  type="number"
+                  min={7}
+                  max={365}
+                  value={config.range ?? 90}
+                  onChange={e => setConfig({ ...config, range: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+          )}
+
+          {widgetType === "performance" && (
+            <div className="space-y-2">
+              <Label>Percentile</Label>
+              <Select
+                value={config.percentile}
+                onValueChange={value => setConfig({ ...config, percentile: value as WidgetConfig["percentile"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {["p50", "p75", "p90", "p99"].map(percentile => (
+                    <SelectItem key={percentile} value={percentile}>
+                      {percentile.toUpperCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {widgetType !== "retention" && (
+            <div className="space-y-2">
+              <Label>Date range</Label>
+              <div className="flex gap-2">
+                <Select
+                  value={dateRange.type === "relative" ? String(dateRange.days) : "fixed"}
+                  onValueChange={value =>
+                    setDateRange(
+                      value === "fixed"
+                        ? { type: "fixed", startDate: "", endDate: "" }
+                        : { type: "relative", days: Number(value) }
+                    )
+                  }
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RELATIVE_RANGES.map(days => (
+                      <SelectItem key={days} value={String(days)}>
+                        Last {days} days
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="fixed">Fixed dates</SelectItem>
+                  </SelectContent>
+                </Select>
+                {dateRange.type === "fixed" && (
+                  <>
+                    <Input
+                      type="date"
+                      value={dateRange.startDate}
+                      onChange={e => setDateRange({ ...dateRange, startDate: e.target.value })}
+                    />
+                    <Input
+                      type="date"
+                      value={dateRange.endDate}
+                      onChange={e => setDateRange({ ...dateRange, endDate: e.target.value })}
+                    />
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {widgetType !== "retention" && (
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Use current filters</Label>
+                <p className="text-xs text-neutral-400">
+                  {useCurrentFilters
+                    ? `${currentFilters.length} filter(s) from the filter bar will be saved`
+                    : `${widget?.filters.length ?? 0} saved filter(s)`}
+                </p>
+              </div>
+              <Switch checked={useCurrentFilters} onCheckedChange={setUseCurrentFilters} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button variant="success" onClick={onSubmit} disabled={!title || isSaving}>
+            {isSaving ? "Saving..." : isEditMode ? "Update" : "Add"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,166 @@
 "use client";
 
+import { LayoutDashboard, Pencil, Plus, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useDeleteDashboard, useUpdateDashboard } from "../../../api/analytics/dashboards/useDashboardMutations";
+import { useGetDashboard, useGetDashboards } from "../../../api/analytics/dashboards/useGetDashboards";
+import { NothingFound } from "../../../components/NothingFound";
+import { Button } from "../../../components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../components/ui/select";
+import { Skeleton } from "../../../components/ui/skeleton";
 import { useSetPageTitle } from "../../../hooks/useSetPageTitle";
+import { DashboardFormModal } from "./components/DashboardFormModal";
+import { DashboardWidgetCard } from "./components/DashboardWidgetCard";
+import { WidgetFormModal } from "./components/WidgetFormModal";
 
 export default function ReportsPage() {
   useSetPageTitle("Rybbit · Reports");
 
+  const { data: dashboards, isLoading } = useGetDashboards();
+  const [selectedId, setSelectedId] = useState<number>();
+  const { data: dashboard, isLoading: isLoadingDashboard } = useGetDashboard(selectedId);
+  const updateDashboard = useUpdateDashboard();
+  const deleteDashboard = useDeleteDashboard();
+
+  // Fall back to the first dashboard when nothing (or a deleted one) is selected
+  useEffect(() => {
+    if (dashboards && !dashboards.some(d => d.dashboardId === selectedId)) {
+      setSelectedId(dashboards[0]?.dashboardId);
+    }
+  }, [dashboards, selectedId]);
+
+  const moveWidget = (index: number, direction: -1 | 1) => {
+    if (!dashboard) return;
+    const widgets = [...dashboard.widgets];
+    [widgets[index], widgets[index + direction]] = [widgets[index + direction], widgets[index]];
+
+    updateDashboard.mutate({
+      dashboardId: dashboard.dashboardId,
+      name: dashboard.name,
+      description: dashboard.description ?? undefined,
+      layout: widgets.map((widget, position) => ({
+        widgetId: widget.widgetId,
+        position,
+        width: widget.width,
+        height: widget.height,
+      })),
+    });
+  };
+
+  const createButton = (
+    <DashboardFormModal
+      onCreated={setSelectedId}
+      trigger={
+        <Button variant="success">
+          <Plus className="h-4 w-4" /> New Dashboard
+        </Button>
+      }
+    />
+  );
+
+  if (isLoading) {
+    return (
+      <div className="p-2 md:p-4 max-w-[1400px] mx-auto space-y-3">
+        <Skeleton className="h-9 w-64" />
+        <Skeleton className="h-[300px] w-full" />
+      </div>
+    );
+  }
+
+  if (!dashboards?.length) {
+    return (
+      <div className="p-2 md:p-4 max-w-[1400px] mx-auto">
+        <NothingFound
+          icon={<LayoutDashboard className="w-10 h-10" />}
+          title="No dashboards yet"
+          description="Combine charts, breakdowns, funnels and more into a saved dashboard."
+          action={createButton}
+        />
+      </div>
+    );
+  }
+
   return (
-    <div className="p-6">
-      <h1 className="text-2xl font-bold mb-4">Reports</h1>
-      <p className="text-neutral-400">Reports and analytics content will go here.</p>
+    <div className="p-2 md:p-4 max-w-[1400px] mx-auto space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Select value={selectedId ? String(selectedId) : undefined} onValueChange={v => setSelectedId(Number(v))}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Select a dashboard" />
+            </SelectTrigger>
+            <SelectContent>
+              {dashboards.map(d => (
+                <SelectItem key={d.dashboardId} value={String(d.dashboardId)}>
+                  {d.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {dashboard && (
+            <>
+              <DashboardFormModal
+                key={dashboard.dashboardId}
+                dashboard={dashboard}
+                trigger={
+                  <Button variant="ghost" size="icon">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                }
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={deleteDashboard.isPending}
+                onClick={() => {
+                  if (confirm(`Delete dashboard "${dashboard.name}"?`)) {
+                    deleteDashboard.mutate(dashboard.dashboardId);
+                  }
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {dashboard && (
+            <WidgetFormModal
+              key={`new-widget-${dashboard.dashboardId}`}
+              dashboardId={dashboard.dashboardId}
+              trigger={
+                <Button variant="outline">
+                  <Plus className="h-4 w-4" /> Add Widget
+                </Button>
+              }
+            />
+          )}
+          {createButton}
+        </div>
+      </div>
+
+      {dashboard?.description && <p className="text-sm text-neutral-400">{dashboard.description}</p>}
+
+      {isLoadingDashboard || !dashboard ? (
+        <Skeleton className="h-[300px] w-full" />
+      ) : dashboard.widgets.length === 0 ? (
+        <NothingFound
+          icon={<LayoutDashboard className="w-10 h-10" />}
+          title="This dashboard is empty"
+          description="Add a widget to start building your report."
+        />
+      ) : (
+        <div className="grid grid-cols-12 gap-3">
+          {dashboard.widgets.map((widget, index) => (
+            <DashboardWidgetCard
+              key={widget.widgetId}
+              widget={widget}
+              onMove={direction => moveWidget(index, direction)}
+              canMoveBack={index > 0}
+              canMoveForward={index < dashboard.widgets.length - 1}
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
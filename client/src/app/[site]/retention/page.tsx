@@ -5,6 +5,7 @@ import { DateTime } from "luxon"; // Import Luxon for date formatting
 import { Fragment, useMemo, useState } from "react";
 import { RetentionMode, useGetRetention } from "../../../api/analytics/useGetRetention";
 import { DisabledOverlay } from "../../../components/DisabledOverlay";
+import { ExportButton } from "../../../components/ExportButton";
 import { ThreeDotLoader } from "../../../components/Loaders";
 import { NothingFound } from "../../../components/NothingFound";
 import { Card, CardContent, CardHeader, CardTitle } from "../../../components/ui/card";
@@ -135,6 +136,7 @@ export default function RetentionPage() {
             </SelectContent>
           </Select>
         </div>
+        <ExportButton report="retention" params={{ mode, range: timeRange }} disabled={isLoading} />
         <Tabs value={mode} onValueChange={handleModeChange}>
           <TabsList>
             <TabsTrigger value="day" disabled={isLoading}>
@@ -1,6 +1,7 @@
 "use client";
 
 import { DisabledOverlay } from "../../../components/DisabledOverlay";
+import { ExportButton } from "../../../components/ExportButton";
 import { useSetPageTitle } from "../../../hooks/useSetPageTitle";
 import { SESSION_PAGE_FILTERS } from "../../../lib/store";
 import { SubHeader } from "../components/SubHeader/SubHeader";
@@ -13,6 +14,9 @@ export default function SessionsPage() {
     <DisabledOverlay message="Sessions" featurePath="sessions">
       <div className="p-2 md:p-4 max-w-[1300px] mx-auto space-y-3">
         <SubHeader availableFilters={SESSION_PAGE_FILTERS} />
+        <div className="flex justify-end">
+          <ExportButton report="sessions" availableFilters={SESSION_PAGE_FILTERS} />
+        </div>
         <SessionsList />
       </div>
     </DisabledOverlay>
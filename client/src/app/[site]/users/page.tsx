@@ -18,6 +18,7 @@ import { useGetUsers, UsersResponse } from "../../../api/analytics/users";
 import { Avatar, generateName } from "../../../components/Avatar";
 import { extractDomain, getChannelIcon, getDisplayName } from "../../../components/Channel";
 import { DisabledOverlay } from "../../../components/DisabledOverlay";
+import { ExportButton } from "../../../components/ExportButton";
 import { Favicon } from "../../../components/Favicon";
 import { Pagination } from "../../../components/pagination";
 import { Button } from "../../../components/ui/button";
@@ -270,6 +271,9 @@ export default function UsersPage() {
     <DisabledOverlay message="Users" featurePath="users">
       <div className="p-2 md:p-4 max-w-[1400px] mx-auto space-y-3">
         <SubHeader availableFilters={USER_PAGE_FILTERS} />
+        <div className="flex justify-end">
+          <ExportButton report="users" availableFilters={USER_PAGE_FILTERS} params={{ sortBy, sortOrder }} />
+        </div>
         <div className="rounded-md border border-neutral-800 bg-neutral-900">
           <div className="relative overflow-x-auto">
             <table className="w-full text-sm text-left">
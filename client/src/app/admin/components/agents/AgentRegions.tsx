@@ -0,0 +1,178 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MoreHorizontal, Plus } from "lucide-react";
+import { DateTime } from "luxon";
+import { useState } from "react";
+import { toast } from "sonner";
+import { AgentRegion, useAgentRegions, useDeleteAgentRegion, useUpdateAgentRegion } from "@/api/admin/agentRegions";
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { AdminLayout } from "../shared/AdminLayout";
+import { ErrorAlert } from "../shared/ErrorAlert";
+import { EnrollAgentDialog } from "./EnrollAgentDialog";
+
+function formatRelative(timestamp: string | null) {
+  if (!timestamp) return "-";
+  return DateTime.fromSQL(timestamp, { zone: "UTC" }).toRelative() ?? "-";
+}
+
+function StateBadge({ region }: { region: AgentRegion }) {
+  if (!region.enabled) return <Badge variant="secondary">Disabled</Badge>;
+  if (region.draining) return <Badge variant="warning">Draining</Badge>;
+  if (region.isHealthy === false) return <Badge variant="destructive">Unhealthy</Badge>;
+  return <Badge variant="success">Active</Badge>;
+}
+
+export function AgentRegions() {
+  const { data, isLoading, isError } = useAgentRegions();
+  const updateAgentRegion = useUpdateAgentRegion();
+  const deleteAgentRegion = useDeleteAgentRegion();
+  const [enrollOpen, setEnrollOpen] = useState(false);
+  const [deletingRegion, setDeletingRegion] = useState<AgentRegion | null>(null);
+
+  const handleUpdate = async (region: AgentRegion, update: { enabled?: boolean; draining?: boolean }) => {
+    try {
+      await updateAgentRegion.mutateAsync({ code: region.code, data: update });
+      toast.success(`Region ${region.code} updated`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update region");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingRegion) return;
+    await deleteAgentRegion.mutateAsync(deletingRegion.code);
+    toast.success(`Region ${deletingRegion.code} removed`);
+  };
+
+  if (isError) {
+    return (
+      <AdminLayout title="Monitoring regions">
+        <ErrorAlert message="Failed to load monitoring regions. Please try again later." />
+      </AdminLayout>
+    );
+  }
+
+  const regions = data?.regions ?? [];
+
+  return (
+    <AdminLayout title="Monitoring regions">
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-neutral-400">
+          Agents that run uptime checks from other locations. Pull agents poll this server for work, push agents are
+          called on their own URL.
+        </p>
+        <Button onClick={() => setEnrollOpen(true)}>
+          <Plus className="h-4 w-4" />
+          Enroll agent
+        </Button>
+      </div>
+
+      <div className="rounded-md border border-neutral-700">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Region</TableHead>
+              <TableHead>Mode</TableHead>
+              <TableHead>Version</TableHead>
+              <TableHead>Load</TableHead>
+              <TableHead>Last heartbeat</TableHead>
+              <TableHead>State</TableHead>
+              <TableHead className="w-[50px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array(3)
+                .fill(0)
+                .map((_, index) => (
+                  <TableRow key={index}>
+                    {Array(7)
+                      .fill(0)
+                      .map((_, cell) => (
+                        <TableCell key={cell}>
+                          <Skeleton className="h-5 w-16" />
+                        </TableCell>
+                      ))}
+                  </TableRow>
+                ))
+            ) : regions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
+                  No monitoring regions yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              regions.map(region => (
+                <TableRow key={region.code}>
+                  <TableCell>
+                    <div className="font-medium">{region.name}</div>
+                    <div className="text-xs text-neutral-500">{region.code}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{region.connectionMode}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-neutral-300">{region.agentVersion || "-"}</TableCell>
+                  <TableCell className="text-sm text-neutral-300">
+                    {region.capacity ? `${region.inFlight ?? 0}/${region.capacity}` : "-"}
+                    {region.queuedJobs > 0 && (
+                      <div className="text-xs text-neutral-500">{region.queuedJobs} queued</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-neutral-300">
+                    {formatRelative(region.connectionMode === "pull" ? region.lastHeartbeatAt : region.lastHealthCheck)}
+                  </TableCell>
+                  <TableCell>
+                    <StateBadge region={region} />
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => handleUpdate(region, { draining: !region.draining })}>
+                          {region.draining ? "Resume" : "Drain"}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleUpdate(region, { enabled: !region.enabled })}>
+                          {region.enabled ? "Disable" : "Enable"}
+                        </DropdownMenuItem>
+                        {region.code !== "local" && (
+                          <DropdownMenuItem className="text-red-400" onClick={() => setDeletingRegion(region)}>
+                            Remove
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <EnrollAgentDialog open={enrollOpen} onOpenChange={setEnrollOpen} />
+
+      <ConfirmationModal
+        title="Remove monitoring region"
+        description={`Monitors stop running from ${deletingRegion?.name ?? "this region"} and its agent can no longer connect. Enroll it again to bring it back.`}
+        isOpen={!!deletingRegion}
+        setIsOpen={open => !open && setDeletingRegion(null)}
+        onConfirm={handleDelete}
+        primaryAction={{ children: "Remove", variant: "destructive" }}
+      />
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { CodeSnippet } from "@/components/CodeSnippet";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DateTime } from "luxon";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { EnrollmentToken, useCreateEnrollmentToken } from "@/api/admin/agentRegions";
+
+interface EnrollAgentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function EnrollAgentDialog({ open, onOpenChange }: EnrollAgentDialogProps) {
+  const createEnrollmentToken = useCreateEnrollmentToken();
+  const [regionCode, setRegionCode] = useState("");
+  const [regionName, setRegionName] = useState("");
+  const [expiresInHours, setExpiresInHours] = useState("24");
+  const [enrollment, setEnrollment] = useState<EnrollmentToken | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setRegionCode("");
+    setRegionName("");
+    setExpiresInHours("24");
+    setEnrollment(null);
+  }, [open]);
+
+  const handleSubmit = async () => {
+    try {
+      const result = await createEnrollmentToken.mutateAsync({
+        regionCode: regionCode.trim(),
+        regionName: regionName.trim(),
+        expiresInHours: parseInt(expiresInHours, 10) || 24,
+      });
+      setEnrollment(result);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create enrollment token");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Enroll a monitoring agent</DialogTitle>
+        </DialogHeader>
+
+        {enrollment ? (
+          <div className="space-y-3">
+            <p className="text-sm text-neutral-400">
+              Start the agent with these settings. The token works once and is only shown now; it expires{" "}
+              {DateTime.fromISO(enrollment.expiresAt).toRelative()}.
+            </p>
+            <CodeSnippet
+              language="bash"
+              code={`SERVER_URL=${window.location.origin}\nENROLLMENT_TOKEN=${enrollment.token}\n# pull: no inbound connections needed, push: set PUBLIC_URL too\nCONNECTION_MODE=pull`}
+            />
+            <p className="text-xs text-neutral-500">
+              The agent registers as region <strong>{enrollment.regionCode}</strong>. Enrolling again for an existing
+              region replaces its agent.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="agent-region-code">Region code</Label>
+              <Input
+                id="agent-region-code"
+                placeholder="eu-west"
+                value={regionCode}
+                onChange={e => setRegionCode(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="agent-region-name">Region name</Label>
+              <Input
+                id="agent-region-name"
+                placeholder="Europe (Frankfurt)"
+                value={regionName}
+                onChange={e => setRegionName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="agent-token-expiry">Token expires after (hours)</Label>
+              <Input
+                id="agent-token-expiry"
+                type="number"
+                min={1}
+                max={168}
+                value={expiresInHours}
+                onChange={e => setExpiresInHours(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {enrollment ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSubmit}
+                disabled={!regionCode.trim() || !regionName.trim() || createEnrollmentToken.isPending}
+              >
+                {createEnrollmentToken.isPending ? "Creating..." : "Create token"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
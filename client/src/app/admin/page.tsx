@@ -6,6 +6,7 @@ import { useState } from "react";
 import { Sites } from "./components/sites/Sites";
 import { Users } from "./components/users/Users";
 import { Organizations } from "./components/organizations/Organizations";
+import { AgentRegions } from "./components/agents/AgentRegions";
 import { AdminLayout } from "./components/shared/AdminLayout";
 import { AppSidebar } from "../../components/AppSidebar";
 
@@ -62,6 +63,7 @@ export default function AdminPage() {
               <TabsTrigger value="organizations">Organizations</TabsTrigger>
               <TabsTrigger value="sites">Sites</TabsTrigger>
               <TabsTrigger value="users">Users</TabsTrigger>
+              <TabsTrigger value="regions">Monitoring regions</TabsTrigger>
               <TabsTrigger value="settings">Settings</TabsTrigger>
             </TabsList>
 
@@ -77,6 +79,10 @@ export default function AdminPage() {
               <Sites />
             </TabsContent>
 
+            <TabsContent value="regions">
+              <AgentRegions />
+            </TabsContent>
+
             <TabsContent value="settings">
               <div className="p-4 border rounded-md">
                 <h2 className="text-xl font-bold mb-4">Admin Settings</h2>
@@ -8,6 +8,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "../../../../components
 import { Input } from "../../../../components/ui/input";
 import { ChangePassword } from "./ChangePassword";
 import { DeleteAccount } from "./DeleteAccount";
+import { EmailReports } from "./EmailReports";
 import { validateEmail } from "../../../../lib/auth-utils";
 import { useRouter } from "next/navigation";
 import { useQueryClient } from "@tanstack/react-query";
@@ -170,6 +171,8 @@ export function AccountInner() {
         </CardContent>
       </Card>
 
+      <EmailReports />
+
       <Card className="p-2">
         <CardHeader>
           <CardTitle className="text-xl">Security</CardTitle>
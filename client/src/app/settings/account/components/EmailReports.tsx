@@ -0,0 +1,264 @@
+"use client";
+
+import { MultiSelect } from "@/components/ui/multi-select";
+import { authClient } from "@/lib/auth";
+import { Edit, Plus, Send, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  ReportFrequency,
+  ReportSection,
+  ReportSubscription,
+  useDeleteReportSubscription,
+  useGetReportSubscriptions,
+  useSaveReportSubscription,
+  useSendReportPreview,
+} from "../../../../api/admin/reportSubscriptions";
+import { useGetSitesFromOrg } from "../../../../api/admin/sites";
+import { Button } from "../../../../components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../../../../components/ui/card";
+import { Checkbox } from "../../../../components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "../../../../components/ui/dialog";
+import { Label } from "../../../../components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../../components/ui/select";
+import { Switch } from "../../../../components/ui/switch";
+
+const SECTIONS: { value: ReportSection; label: string }[] = [
+  { value: "overview", label: "Overview" },
+  { value: "top_pages", label: "Top pages" },
+  { value: "referrers", label: "Referrers" },
+  { value: "countries", label: "Countries" },
+  { value: "devices", label: "Devices" },
+  { value: "goals", label: "Goals" },
+  { value: "errors", label: "Errors" },
+  { value: "uptime", label: "Uptime" },
+];
+
+const FREQUENCY_LABELS: Record<ReportFrequency, string> = {
+  daily: "Daily",
+  weekly: "Weekly (Mondays)",
+  monthly: "Monthly (1st of the month)",
+};
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, "0")}:00`;
+
+function SubscriptionDialog({
+  subscription,
+  sites,
+  trigger,
+}: {
+  subscription?: ReportSubscription;
+  sites: { siteId: number; name: string }[];
+  trigger: React.ReactNode;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [siteIds, setSiteIds] = useState<number[]>(subscription?.siteIds ?? []);
+  const [frequency, setFrequency] = useState<ReportFrequency>(subscription?.frequency ?? "weekly");
+  const [sendHour, setSendHour] = useState(subscription?.sendHour ?? 8);
+  const [sections, setSections] = useState<ReportSection[]>(
+    subscription?.sections ?? ["overview", "top_pages", "referrers", "countries"]
+  );
+  const timezone = subscription?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const saveSubscription = useSaveReportSubscription();
+
+  const toggleSection = (section: ReportSection, checked: boolean) => {
+    setSections(checked ? [...sections, section] : sections.filter(s => s !== section));
+  };
+
+  const onSubmit = async () => {
+    try {
+      await saveSubscription.mutateAsync({
+        id: subscription?.id,
+        siteIds,
+        frequency,
+        sendHour,
+        timezone,
+        sections,
+        enabled: subscription?.enabled ?? true,
+      });
+      toast.success("Email report saved");
+      setIsOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save email report");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{subscription ? "Edit Email Report" : "New Email Report"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Sites</Label>
+            <MultiSelect
+              options={sites.map(site => ({ value: String(site.siteId), label: site.name }))}
+              value={siteIds.map(String)}
+              onValueChange={value => setSiteIds(value.map(Number))}
+              placeholder="Select sites"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Frequency</Label>
+              <Select value={frequency} onValueChange={value => setFrequency(value as ReportFrequency)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Send at</Label>
+              <Select value={String(sendHour)} onValueChange={value => setSendHour(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <SelectItem key={hour} value={String(hour)}>
+                      {formatHour(hour)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-neutral-500">Times are in {timezone}.</p>
+          <div className="space-y-2">
+            <Label>Sections</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {SECTIONS.map(section => (
+                <label key={section.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={sections.includes(section.value)}
+                    onCheckedChange={checked => toggleSection(section.value, !!checked)}
+                  />
+                  {section.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="success"
+            onClick={onSubmit}
+            disabled={siteIds.length === 0 || sections.length === 0 || saveSubscription.isPending}
+          >
+            {saveSubscription.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function EmailReports() {
+  const { data: activeOrganization } = authClient.useActiveOrganization();
+  const { data: sitesData } = useGetSitesFromOrg(activeOrganization?.id);
+  const { data: subscriptions } = useGetReportSubscriptions();
+  const saveSubscription = useSaveReportSubscription();
+  const deleteSubscription = useDeleteReportSubscription();
+  const sendPreview = useSendReportPreview();
+
+  const sites = sitesData?.sites ?? [];
+  const siteNames = new Map(sites.map(site => [site.siteId, site.name]));
+
+  const handlePreview = async (id: number) => {
+    try {
+      const result = await sendPreview.mutateAsync(id);
+      toast.success(`Sent ${result.sent} preview email${result.sent === 1 ? "" : "s"}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send preview");
+    }
+  };
+
+  return (
+    <Card className="p-2">
+      <CardHeader>
+        <CardTitle className="text-xl">Email Reports</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-neutral-500">
+          Scheduled analytics summaries sent to your inbox. Setting up a report replaces the default weekly email.
+        </p>
+        {subscriptions?.map(subscription => (
+          <div
+            key={subscription.id}
+            className="flex items-center justify-between gap-4 rounded-md border border-neutral-800 px-3 py-2"
+          >
+            <div className="min-w-0">
+              <div className="text-sm font-medium truncate">
+                {subscription.siteIds.map(siteId => siteNames.get(siteId) ?? `Site ${siteId}`).join(", ")}
+              </div>
+              <div className="text-xs text-neutral-500">
+                {FREQUENCY_LABELS[subscription.frequency]} at {formatHour(subscription.sendHour)} (
+                {subscription.timezone}) · {subscription.sections.length} sections
+              </div>
+            </div>
+            <div className="flex flex-shrink-0 items-center gap-1">
+              <Switch
+                checked={subscription.enabled}
+                disabled={saveSubscription.isPending}
+                onCheckedChange={enabled => saveSubscription.mutate({ ...subscription, enabled })}
+              />
+              <Button
+                variant="ghost"
+                size="smIcon"
+                disabled={sendPreview.isPending}
+                onClick={() => handlePreview(subscription.id)}
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+              <SubscriptionDialog
+                subscription={subscription}
+                sites={sites}
+                trigger={
+                  <Button variant="ghost" size="smIcon">
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                }
+              />
+              <Button
+                variant="ghost"
+                size="smIcon"
+                disabled={deleteSubscription.isPending}
+                onClick={() => deleteSubscription.mutate(subscription.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        <SubscriptionDialog
+          sites={sites}
+          trigger={
+            <Button variant="outline">
+              <Plus className="h-4 w-4" /> New email report
+            </Button>
+          }
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { AlertCircle, CheckCircle } from "lucide-react";
+import { DateTime } from "luxon";
+import { useParams } from "next/navigation";
+import { PublicStatusPage, usePublicStatusPage } from "../../../api/uptime/statusPages";
+
+const OVERALL_STATUS: Record<PublicStatusPage["status"], { label: string; className: string }> = {
+  operational: { label: "All systems operational", className: "bg-green-500/10 border-green-500/30 text-green-400" },
+  degraded_performance: {
+    label: "Degraded performance",
+    className: "bg-yellow-500/10 border-yellow-500/30 text-yellow-400",
+  },
+  partial_outage: { label: "Partial outage", className: "bg-orange-500/10 border-orange-500/30 text-orange-400" },
+  major_outage: { label: "Major outage", className: "bg-red-500/10 border-red-500/30 text-red-400" },
+  unknown: { label: "Status unknown", className: "bg-neutral-800 border-neutral-700 text-neutral-400" },
+};
+
+const getBarColor = (uptimePercentage: number | null) => {
+  if (uptimePercentage === null) return "bg-neutral-700";
+  if (uptimePercentage >= 99.9) return "bg-green-500";
+  if (uptimePercentage >= 99) return "bg-yellow-500";
+  if (uptimePercentage >= 95) return "bg-orange-500";
+  return "bg-red-500";
+};
+
+const formatTimestamp = (timestamp: string) =>
+  DateTime.fromSQL(timestamp, { zone: "UTC" }).toLocal().toFormat("MMM dd, HH:mm");
+
+export default function PublicStatusPageView() {
+  const params = useParams();
+  const slug = params.slug as string;
+  const { data, isLoading, isError } = usePublicStatusPage(slug);
+
+  if (isLoading) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-12 space-y-6">
+        <Skeleton className="h-10 w-48" />
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-24 text-center text-neutral-500">This status page does not exist.</div>
+    );
+  }
+
+  const activeIncidents = data.incidents.filter(incident => incident.status === "active");
+  const resolvedIncidents = data.incidents.filter(incident => incident.status === "resolved");
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-12 space-y-8">
+      <div className="flex items-center gap-3">
+        {data.logoUrl && <img src={data.logoUrl} alt={data.name} className="h-10 w-auto" />}
+        <div>
+          <h1 className="text-2xl font-semibold">{data.name}</h1>
+          {data.description && <p className="text-sm text-neutral-400 mt-1">{data.description}</p>}
+        </div>
+      </div>
+
+      <div className={cn("rounded-lg border p-4 font-medium", OVERALL_STATUS[data.status].className)}>
+        {OVERALL_STATUS[data.status].label}
+      </div>
+
+      {activeIncidents.map(incident => (
+        <div
+          key={incident.id}
+          className={cn(
+            "rounded-lg border bg-neutral-900 p-4 space-y-3",
+            incident.kind === "degraded" ? "border-yellow-500/30" : "border-red-500/30"
+          )}
+        >
+          <div className="flex items-center gap-2 font-medium">
+            <AlertCircle className={cn("w-4 h-4", incident.kind === "degraded" ? "text-yellow-500" : "text-red-500")} />
+            {incident.kind === "degraded"
+              ? `${incident.monitorName} is experiencing degraded performance`
+              : `${incident.monitorName} is experiencing issues`}
+          </div>
+          <div className="text-xs text-neutral-500">Since {formatTimestamp(incident.startTime)}</div>
+          {incident.updates.map(update => (
+            <div key={update.createdAt} className="text-sm border-l-2 border-neutral-700 pl-3">
+              <div className="text-xs text-neutral-500">
+                <span className="capitalize text-neutral-300">{update.status}</span> ·{" "}
+                {formatTimestamp(update.createdAt)}
+              </div>
+              <div className="text-neutral-300 whitespace-pre-wrap">{update.message}</div>
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {data.groups.map(group => (
+        <div key={group.name} className="rounded-lg border border-neutral-800 bg-neutral-900">
+          <div className="px-4 py-3 border-b border-neutral-800 font-medium">{group.name}</div>
+          <div className="divide-y divide-neutral-800">
+            {group.monitors.map(monitor => (
+              <div key={monitor.id} className="px-4 py-3 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <div className="flex items-center gap-2">
+                    <div
+                      className={cn(
+                        "w-2 h-2 rounded-full",
+                        monitor.status === "up" && "bg-green-500",
+                        monitor.status === "degraded" && "bg-yellow-500",
+                        monitor.status === "down" && "bg-red-500",
+                        monitor.status === "unknown" && "bg-neutral-500"
+                      )}
+                    />
+                    {monitor.name}
+                  </div>
+                  <span className="text-neutral-400">
+                    {monitor.uptimePercentage !== null ? `${monitor.uptimePercentage.toFixed(2)}% uptime` : "No data"}
+                  </span>
+                </div>
+                <div className="flex gap-[2px] h-8">
+                  {monitor.days.map(day => (
+                    <Tooltip key={day.date}>
+                      <TooltipTrigger asChild>
+                        <div className={cn("flex-1 rounded-sm", getBarColor(day.uptimePercentage))} />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <div className="text-sm">
+                          <div className="font-medium">{DateTime.fromISO(day.date).toFormat("MMM dd, yyyy")}</div>
+                          <div>
+                            {day.uptimePercentage !== null ? `${day.uptimePercentage.toFixed(2)}% uptime` : "No data"}
+                          </div>
+                        </div>
+                      </TooltipContent>
+                    </Tooltip>
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-neutral-500">
+                  <span>{monitor.days.length} days ago</span>
+                  <span>Today</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {resolvedIncidents.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-lg font-medium">Past incidents</h2>
+          {resolvedIncidents.map(incident => (
+            <div key={incident.id} className="rounded-lg border border-neutral-800 bg-neutral-900 p-4 space-y-2">
+              <div className="flex items-center gap-2 font-medium">
+                <CheckCircle className="w-4 h-4 text-green-500" />
+                {incident.monitorName}
+              </div>
+              <div className="text-xs text-neutral-500">
+                {formatTimestamp(incident.startTime)}
+                {incident.endTime && ` – ${formatTimestamp(incident.endTime)}`}
+              </div>
+              {incident.updates.map(update => (
+                <div key={update.createdAt} className="text-sm border-l-2 border-neutral-700 pl-3">
+                  <div className="text-xs text-neutral-500">
+                    <span className="capitalize text-neutral-300">{update.status}</span> ·{" "}
+                    {formatTimestamp(update.createdAt)}
+                  </div>
+                  <div className="text-neutral-300 whitespace-pre-wrap">{update.message}</div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="text-center text-xs text-neutral-600">Powered by Rybbit</div>
+    </div>
+  );
+}
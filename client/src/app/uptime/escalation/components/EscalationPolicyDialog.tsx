@@ -0,0 +1,200 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MultiSelect } from "@/components/ui/multi-select";
+import { Plus, X } from "lucide-react";
+import * as React from "react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  EscalationPolicy,
+  EscalationPolicyInput,
+  useCreateEscalationPolicy,
+  useUpdateEscalationPolicy,
+} from "@/api/uptime/escalationPolicies";
+import { useNotificationChannels } from "@/api/uptime/notifications";
+
+interface EscalationPolicyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  policy?: EscalationPolicy | null;
+}
+
+interface StepForm {
+  afterMinutes: string;
+  channelIds: string[];
+}
+
+const getEmptyForm = () => ({
+  name: "",
+  steps: [{ afterMinutes: "0", channelIds: [] }] as StepForm[],
+  repeatIntervalMinutes: "",
+});
+
+export function EscalationPolicyDialog({ open, onOpenChange, policy }: EscalationPolicyDialogProps) {
+  const createEscalationPolicy = useCreateEscalationPolicy();
+  const updateEscalationPolicy = useUpdateEscalationPolicy();
+  const { data: channelsData } = useNotificationChannels();
+
+  const [form, setForm] = useState(getEmptyForm);
+
+  useEffect(() => {
+    if (!open) return;
+
+    if (policy) {
+      setForm({
+        name: policy.name,
+        steps: policy.steps.map(step => ({
+          afterMinutes: step.afterMinutes.toString(),
+          channelIds: step.channelIds.map(id => id.toString()),
+        })),
+        repeatIntervalMinutes: policy.repeatIntervalMinutes?.toString() ?? "",
+      });
+    } else {
+      setForm(getEmptyForm());
+    }
+  }, [open, policy]);
+
+  const channelOptions = React.useMemo(
+    () =>
+      (channelsData?.channels ?? []).map(channel => ({
+        value: channel.id.toString(),
+        label: channel.name,
+      })),
+    [channelsData]
+  );
+
+  const updateStep = (index: number, changes: Partial<StepForm>) =>
+    setForm(current => ({
+      ...current,
+      steps: current.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    }));
+
+  const addStep = () =>
+    setForm(current => {
+      const last = current.steps[current.steps.length - 1];
+      const afterMinutes = (parseInt(last?.afterMinutes || "0", 10) || 0) + 15;
+      return { ...current, steps: [...current.steps, { afterMinutes: afterMinutes.toString(), channelIds: [] }] };
+    });
+
+  const removeStep = (index: number) =>
+    setForm(current => ({ ...current, steps: current.steps.filter((_, i) => i !== index) }));
+
+  const handleSubmit = async () => {
+    const data: EscalationPolicyInput = {
+      name: form.name.trim(),
+      steps: form.steps.map(step => ({
+        afterMinutes: parseInt(step.afterMinutes, 10) || 0,
+        channelIds: step.channelIds.map(id => parseInt(id, 10)),
+      })),
+      repeatIntervalMinutes: form.repeatIntervalMinutes ? parseInt(form.repeatIntervalMinutes, 10) : null,
+    };
+
+    try {
+      if (policy) {
+        await updateEscalationPolicy.mutateAsync({ id: policy.id, data });
+        toast.success("Escalation policy updated");
+      } else {
+        await createEscalationPolicy.mutateAsync(data);
+        toast.success("Escalation policy created");
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save escalation policy");
+    }
+  };
+
+  const isPending = createEscalationPolicy.isPending || updateEscalationPolicy.isPending;
+  const isComplete = form.name.trim() && form.steps.every(step => step.channelIds.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{policy ? "Edit escalation policy" : "Create escalation policy"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="escalation-name">Name</Label>
+            <Input
+              id="escalation-name"
+              placeholder="Production on-call"
+              value={form.name}
+              onChange={e => setForm(current => ({ ...current, name: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Steps</Label>
+            {form.steps.map((step, index) => (
+              <div key={index} className="flex items-start gap-2 rounded-md border border-neutral-800 p-3">
+                <div className="w-32 space-y-1">
+                  <Label htmlFor={`escalation-step-${index}`} className="text-xs text-neutral-500">
+                    After (minutes)
+                  </Label>
+                  <Input
+                    id={`escalation-step-${index}`}
+                    type="number"
+                    min={0}
+                    value={step.afterMinutes}
+                    disabled={index === 0}
+                    onChange={e => updateStep(index, { afterMinutes: e.target.value })}
+                  />
+                </div>
+                <div className="flex-1 space-y-1">
+                  <Label className="text-xs text-neutral-500">Notify</Label>
+                  <MultiSelect
+                    options={channelOptions}
+                    value={step.channelIds}
+                    onValueChange={channelIds => updateStep(index, { channelIds })}
+                    placeholder="Select channels"
+                  />
+                </div>
+                {index > 0 && (
+                  <Button variant="ghost" size="sm" className="mt-5 h-9 w-9 p-0" onClick={() => removeStep(index)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={addStep} disabled={form.steps.length >= 10}>
+              <Plus className="h-4 w-4" />
+              Add step
+            </Button>
+            <p className="text-xs text-neutral-500">
+              Step 1 is sent when the incident opens. Later steps are sent if nobody has acknowledged it by then.
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="escalation-repeat">Repeat every (minutes)</Label>
+            <Input
+              id="escalation-repeat"
+              type="number"
+              min={1}
+              placeholder="Don't repeat"
+              value={form.repeatIntervalMinutes}
+              onChange={e => setForm(current => ({ ...current, repeatIntervalMinutes: e.target.value }))}
+            />
+            <p className="text-xs text-neutral-500">
+              Re-notifies the latest step's channels until the incident is acknowledged or resolved.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isComplete || isPending}>
+            {isPending ? "Saving..." : policy ? "Save" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, MoreHorizontal, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  EscalationPolicy,
+  useDeleteEscalationPolicy,
+  useEscalationPolicies,
+} from "../../../api/uptime/escalationPolicies";
+import { useNotificationChannels } from "../../../api/uptime/notifications";
+import { EscalationPolicyDialog } from "./components/EscalationPolicyDialog";
+
+export default function EscalationPage() {
+  const { data, isLoading } = useEscalationPolicies();
+  const { data: channelsData } = useNotificationChannels();
+  const deleteEscalationPolicy = useDeleteEscalationPolicy();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<EscalationPolicy | null>(null);
+  const [deleteModalOpen, setDeleteModalOpen] = useState(false);
+  const [policyToDelete, setPolicyToDelete] = useState<EscalationPolicy | null>(null);
+
+  const channelNames = new Map((channelsData?.channels ?? []).map(channel => [channel.id, channel.name]));
+
+  const openDialog = (policy: EscalationPolicy | null) => {
+    setEditingPolicy(policy);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!policyToDelete) return;
+
+    try {
+      await deleteEscalationPolicy.mutateAsync(policyToDelete.id);
+      toast.success("Escalation policy deleted");
+      setPolicyToDelete(null);
+    } catch (error) {
+      toast.error("Failed to delete escalation policy");
+      throw error; // Re-throw to show error in modal
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Escalation</h1>
+          <p className="text-sm text-neutral-500 mt-1">
+            Keep notifying more people until an incident is acknowledged. Assign policies to monitors in their
+            notification settings.
+          </p>
+        </div>
+        <Button variant="success" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4" />
+          Create Policy
+        </Button>
+      </div>
+
+      {data?.escalationPolicies?.length === 0 && !isLoading ? (
+        <Card>
+          <CardContent className="p-8 text-center text-neutral-500">No escalation policies yet</CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Steps</TableHead>
+                <TableHead>Repeat</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading
+                ? Array.from({ length: 3 }).map((_, i) => (
+                    <TableRow key={`skeleton-${i}`}>
+                      <TableCell>
+                        <Skeleton className="h-4 w-32" />
+                      </TableCell>
+                      <TableCell>
+                        <Skeleton className="h-4 w-48" />
+                      </TableCell>
+                      <TableCell>
+                        <Skeleton className="h-4 w-16" />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Skeleton className="h-8 w-8 ml-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                : data?.escalationPolicies?.map(policy => (
+                    <TableRow key={policy.id}>
+                      <TableCell className="font-medium">{policy.name}</TableCell>
+                      <TableCell className="text-sm text-neutral-400">
+                        {policy.steps.map((step, index) => (
+                          <div key={index}>
+                            <span className="text-neutral-500">
+                              {step.afterMinutes === 0 ? "Immediately" : `After ${step.afterMinutes} min`}:
+                            </span>{" "}
+                            {step.channelIds.map(id => channelNames.get(id) ?? `#${id}`).join(", ")}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-sm text-neutral-500">
+                        {policy.repeatIntervalMinutes ? `Every ${policy.repeatIntervalMinutes} min` : "Never"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                              <MoreHorizontal className="h-4 w-4" />
+                              <span className="sr-only">Open menu</span>
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => openDialog(policy)}>
+                              <Edit className="mr-2 h-4 w-4" />
+                              Edit
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              onClick={() => {
+                                setPolicyToDelete(policy);
+                                setDeleteModalOpen(true);
+                              }}
+                              className="text-red-600"
+                            >
+                              <Trash2 className="mr-2 h-4 w-4" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <EscalationPolicyDialog open={dialogOpen} onOpenChange={setDialogOpen} policy={editingPolicy} />
+      <ConfirmationModal
+        isOpen={deleteModalOpen}
+        setIsOpen={setDeleteModalOpen}
+        onConfirm={handleDelete}
+        title="Delete Escalation Policy"
+        description={
+          policyToDelete ? (
+            <>
+              Are you sure you want to delete the escalation policy <strong>{policyToDelete.name}</strong>? Monitors
+              using it will notify their matching channels once instead.
+            </>
+          ) : (
+            "Are you sure you want to delete this escalation policy?"
+          )
+        }
+        primaryAction={{
+          children: "Delete Escalation Policy",
+          variant: "destructive",
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { DateTime } from "luxon";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { UptimeIncident } from "@/api/uptime/incidents";
+import { IncidentUpdateStatus, useCreateIncidentUpdate, useIncidentUpdates } from "@/api/uptime/statusPages";
+
+const UPDATE_STATUSES: { value: IncidentUpdateStatus; label: string }[] = [
+  { value: "investigating", label: "Investigating" },
+  { value: "identified", label: "Identified" },
+  { value: "monitoring", label: "Monitoring" },
+  { value: "resolved", label: "Resolved" },
+];
+
+interface IncidentUpdateDialogProps {
+  incident: UptimeIncident | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function IncidentUpdateDialog({ incident, onOpenChange }: IncidentUpdateDialogProps) {
+  const { data } = useIncidentUpdates(incident?.id);
+  const createUpdate = useCreateIncidentUpdate();
+  const [status, setStatus] = useState<IncidentUpdateStatus>("investigating");
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    if (incident) {
+      setStatus("investigating");
+      setMessage("");
+    }
+  }, [incident]);
+
+  const handleSubmit = async () => {
+    if (!incident) return;
+
+    try {
+      await createUpdate.mutateAsync({ incidentId: incident.id, data: { status, message: message.trim() } });
+      toast.success("Update posted");
+      onOpenChange(false);
+    } catch (error) {
+      toast.error("Failed to post update");
+    }
+  };
+
+  return (
+    <Dialog open={!!incident} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Post update</DialogTitle>
+          <DialogDescription>
+            Updates are shown on every status page that includes {incident?.monitorName ?? "this monitor"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={value => setStatus(value as IncidentUpdateStatus)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {UPDATE_STATUSES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="incident-update-message">Message</Label>
+            <Textarea
+              id="incident-update-message"
+              rows={4}
+              placeholder="We're investigating elevated error rates on the API."
+              value={message}
+              onChange={e => setMessage(e.target.value)}
+            />
+          </div>
+
+          {data?.updates && data.updates.length > 0 && (
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {data.updates.map(update => (
+                <div key={update.id} className="text-sm border-l-2 border-neutral-700 pl-3">
+                  <div className="text-xs text-neutral-500">
+                    <span className="capitalize text-neutral-300">{update.status}</span>
+                    {" · "}
+                    {DateTime.fromSQL(update.createdAt, { zone: "UTC" }).toLocal().toFormat("MMM dd, HH:mm")}
+                  </div>
+                  <div className="text-neutral-300 whitespace-pre-wrap">{update.message}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!message.trim() || createUpdate.isPending}>
+            {createUpdate.isPending ? "Posting..." : "Post update"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
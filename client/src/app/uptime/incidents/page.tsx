@@ -21,6 +21,7 @@ import {
   useIncidents,
   useResolveIncident,
 } from "../../../api/uptime/incidents";
+import { IncidentUpdateDialog } from "./components/IncidentUpdateDialog";
 
 const formatStartTime = (timestamp: string) => {
   const dt = DateTime.fromSQL(timestamp, { zone: "UTC" }).toLocal();
@@ -76,6 +77,7 @@ const formatDuration = (startTime: string, endTime: string | null): string => {
 
 export default function IncidentsPage() {
   const [statusFilter, setStatusFilter] = useState<"active" | "acknowledged" | "resolved" | "all">("active");
+  const [updatingIncident, setUpdatingIncident] = useState<UptimeIncident | null>(null);
 
   const { data, isLoading } = useIncidents({ status: statusFilter });
 
@@ -162,7 +164,17 @@ export default function IncidentsPage() {
                 <TableRow key={incident.id}>
                   <TableCell>{getStatusIcon(incident.status)}</TableCell>
                   <TableCell>
-                    <div className="font-medium">{incident.monitorName}</div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{incident.monitorName}</span>
+                      {incident.kind !== "down" && (
+                        <span className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-500/20 text-yellow-400">
+                          {incident.kind === "degraded" ? "Degraded" : "SLO burn"}
+                        </span>
+                      )}
+                    </div>
+                    {incident.kind !== "down" && incident.lastError && (
+                      <div className="text-xs text-neutral-500">{incident.lastError}</div>
+                    )}
                   </TableCell>
                   <TableCell>
                     {incident.affectedRegions && incident.affectedRegions.length > 0 ? (
@@ -233,6 +245,7 @@ export default function IncidentsPage() {
                         {incident.status !== "resolved" && (
                           <DropdownMenuItem onClick={() => handleResolve(incident)}>Resolve</DropdownMenuItem>
                         )}
+                        <DropdownMenuItem onClick={() => setUpdatingIncident(incident)}>Post update</DropdownMenuItem>
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </TableCell>
@@ -242,6 +255,8 @@ export default function IncidentsPage() {
           </TableBody>
         </Table>
       </div>
+
+      <IncidentUpdateDialog incident={updatingIncident} onOpenChange={open => !open && setUpdatingIncident(null)} />
     </>
   );
 }
@@ -0,0 +1,268 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MultiSelect } from "@/components/ui/multi-select";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { DateTime } from "luxon";
+import * as React from "react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  MaintenanceRecurrence,
+  MaintenanceWindow,
+  MaintenanceWindowInput,
+  useCreateMaintenanceWindow,
+  useUpdateMaintenanceWindow,
+} from "@/api/uptime/maintenanceWindows";
+import { useMonitors } from "@/api/uptime/monitors";
+import { timeZone } from "@/lib/dateTimeUtils";
+import { getMonitorTarget } from "@/app/uptime/monitors/components/utils";
+
+interface MaintenanceWindowDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  maintenanceWindow?: MaintenanceWindow | null;
+}
+
+const RECURRENCE_OPTIONS: Array<{ value: MaintenanceRecurrence; label: string }> = [
+  { value: "none", label: "Does not repeat" },
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+];
+
+const LOCAL_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+// <input type="datetime-local"> values are wall-clock times in the window's timezone
+const toInputValue = (timestamp: string | null, zone: string) =>
+  timestamp ? DateTime.fromSQL(timestamp, { zone: "utc" }).setZone(zone).toFormat(LOCAL_INPUT_FORMAT) : "";
+
+const fromInputValue = (value: string, zone: string) => DateTime.fromISO(value, { zone }).toUTC().toISO();
+
+const getEmptyForm = () => {
+  const start = DateTime.now().plus({ hours: 1 }).startOf("hour");
+  return {
+    name: "",
+    description: "",
+    monitorIds: [] as string[],
+    monitorTags: "",
+    startTime: start.toFormat(LOCAL_INPUT_FORMAT),
+    endTime: start.plus({ hours: 1 }).toFormat(LOCAL_INPUT_FORMAT),
+    recurrence: "none" as MaintenanceRecurrence,
+    recurrenceEndsAt: "",
+    timezone: timeZone,
+  };
+};
+
+export function MaintenanceWindowDialog({ open, onOpenChange, maintenanceWindow }: MaintenanceWindowDialogProps) {
+  const createMaintenanceWindow = useCreateMaintenanceWindow();
+  const updateMaintenanceWindow = useUpdateMaintenanceWindow();
+  const { data: monitorsData } = useMonitors();
+
+  const [form, setForm] = useState(getEmptyForm);
+
+  useEffect(() => {
+    if (!open) return;
+
+    if (maintenanceWindow) {
+      setForm({
+        name: maintenanceWindow.name,
+        description: maintenanceWindow.description ?? "",
+        monitorIds: maintenanceWindow.monitorIds.map(id => id.toString()),
+        monitorTags: maintenanceWindow.monitorTags.join(", "),
+        startTime: toInputValue(maintenanceWindow.startTime, maintenanceWindow.timezone),
+        endTime: toInputValue(maintenanceWindow.endTime, maintenanceWindow.timezone),
+        recurrence: maintenanceWindow.recurrence,
+        recurrenceEndsAt: toInputValue(maintenanceWindow.recurrenceEndsAt, maintenanceWindow.timezone),
+        timezone: maintenanceWindow.timezone,
+      });
+    } else {
+      setForm(getEmptyForm());
+    }
+  }, [open, maintenanceWindow]);
+
+  const monitorOptions = React.useMemo(() => {
+    if (!monitorsData) return [];
+    return monitorsData.map(monitor => ({
+      value: monitor.id.toString(),
+      label: monitor.name || getMonitorTarget(monitor),
+    }));
+  }, [monitorsData]);
+
+  const tagOptions = React.useMemo(
+    () => [...new Set((monitorsData ?? []).flatMap(monitor => monitor.tags ?? []))].sort(),
+    [monitorsData]
+  );
+
+  const handleSubmit = async () => {
+    const startTime = fromInputValue(form.startTime, form.timezone);
+    const endTime = fromInputValue(form.endTime, form.timezone);
+
+    if (!startTime || !endTime) {
+      toast.error("Invalid start time, end time or timezone");
+      return;
+    }
+
+    const data: MaintenanceWindowInput = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      monitorIds: form.monitorIds.map(id => parseInt(id, 10)),
+      monitorTags: form.monitorTags
+        .split(",")
+        .map(tag => tag.trim().toLowerCase())
+        .filter(Boolean),
+      startTime,
+      endTime,
+      recurrence: form.recurrence,
+      recurrenceEndsAt:
+        form.recurrence !== "none" && form.recurrenceEndsAt
+          ? fromInputValue(form.recurrenceEndsAt, form.timezone)
+          : null,
+      timezone: form.timezone,
+    };
+
+    try {
+      if (maintenanceWindow) {
+        await updateMaintenanceWindow.mutateAsync({ id: maintenanceWindow.id, data });
+        toast.success("Maintenance window updated");
+      } else {
+        await createMaintenanceWindow.mutateAsync(data);
+        toast.success("Maintenance window scheduled");
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save maintenance window");
+    }
+  };
+
+  const isPending = createMaintenanceWindow.isPending || updateMaintenanceWindow.isPending;
+  const hasTargets = form.monitorIds.length > 0 || form.monitorTags.trim().length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{maintenanceWindow ? "Edit maintenance window" : "Schedule maintenance"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="maintenance-name">Name</Label>
+            <Input
+              id="maintenance-name"
+              placeholder="Database upgrade"
+              value={form.name}
+              onChange={e => setForm(current => ({ ...current, name: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="maintenance-description">Description</Label>
+            <Textarea
+              id="maintenance-description"
+              rows={2}
+              value={form.description}
+              onChange={e => setForm(current => ({ ...current, description: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Monitors</Label>
+            <MultiSelect
+              options={monitorOptions}
+              value={form.monitorIds}
+              onValueChange={monitorIds => setForm(current => ({ ...current, monitorIds }))}
+              placeholder="Select monitors"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="maintenance-tags">Monitor tags</Label>
+            <Input
+              id="maintenance-tags"
+              placeholder={tagOptions.length > 0 ? tagOptions.join(", ") : "database, production"}
+              value={form.monitorTags}
+              onChange={e => setForm(current => ({ ...current, monitorTags: e.target.value }))}
+            />
+            <p className="text-xs text-neutral-500">
+              Comma-separated. Applies to every monitor with any of these tags.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="maintenance-start">Starts</Label>
+              <Input
+                id="maintenance-start"
+                type="datetime-local"
+                value={form.startTime}
+                onChange={e => setForm(current => ({ ...current, startTime: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="maintenance-end">Ends</Label>
+              <Input
+                id="maintenance-end"
+                type="datetime-local"
+                value={form.endTime}
+                onChange={e => setForm(current => ({ ...current, endTime: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Repeats</Label>
+              <Select
+                value={form.recurrence}
+                onValueChange={value =>
+                  setForm(current => ({ ...current, recurrence: value as MaintenanceRecurrence }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RECURRENCE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="maintenance-timezone">Timezone</Label>
+              <Input
+                id="maintenance-timezone"
+                value={form.timezone}
+                onChange={e => setForm(current => ({ ...current, timezone: e.target.value }))}
+              />
+            </div>
+            {form.recurrence !== "none" && (
+              <div className="space-y-1">
+                <Label htmlFor="maintenance-recurrence-end">Repeat until</Label>
+                <Input
+                  id="maintenance-recurrence-end"
+                  type="datetime-local"
+                  value={form.recurrenceEndsAt}
+                  onChange={e => setForm(current => ({ ...current, recurrenceEndsAt: e.target.value }))}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!form.name.trim() || !hasTargets || isPending}>
+            {isPending ? "Saving..." : maintenanceWindow ? "Save" : "Schedule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
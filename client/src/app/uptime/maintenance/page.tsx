@@ -0,0 +1,211 @@
+"use client";
+
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, MoreHorizontal, Plus, Trash2 } from "lucide-react";
+import { DateTime } from "luxon";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  MaintenanceWindow,
+  useDeleteMaintenanceWindow,
+  useMaintenanceWindows,
+} from "../../../api/uptime/maintenanceWindows";
+import { MaintenanceWindowDialog } from "./components/MaintenanceWindowDialog";
+
+const RECURRENCE_LABELS: Record<MaintenanceWindow["recurrence"], string> = {
+  none: "Once",
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+const formatTimestamp = (timestamp: string, zone: string) =>
+  DateTime.fromSQL(timestamp, { zone: "utc" }).setZone(zone).toFormat("MMM dd, yyyy HH:mm");
+
+const getWindowState = (maintenanceWindow: MaintenanceWindow): "active" | "scheduled" | "ended" => {
+  if (maintenanceWindow.activeUntil) return "active";
+
+  const now = DateTime.utc();
+  const lastEnd =
+    maintenanceWindow.recurrence === "none" ? maintenanceWindow.endTime : maintenanceWindow.recurrenceEndsAt;
+  if (lastEnd && DateTime.fromSQL(lastEnd, { zone: "utc" }) < now) return "ended";
+  return "scheduled";
+};
+
+export default function MaintenancePage() {
+  const { data, isLoading } = useMaintenanceWindows();
+  const deleteMaintenanceWindow = useDeleteMaintenanceWindow();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingWindow, setEditingWindow] = useState<MaintenanceWindow | null>(null);
+  const [deleteModalOpen, setDeleteModalOpen] = useState(false);
+  const [windowToDelete, setWindowToDelete] = useState<MaintenanceWindow | null>(null);
+
+  const openDialog = (maintenanceWindow: MaintenanceWindow | null) => {
+    setEditingWindow(maintenanceWindow);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!windowToDelete) return;
+
+    try {
+      await deleteMaintenanceWindow.mutateAsync(windowToDelete.id);
+      toast.success("Maintenance window deleted");
+      setWindowToDelete(null);
+    } catch (error) {
+      toast.error("Failed to delete maintenance window");
+      throw error; // Re-throw to show error in modal
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Maintenance</h1>
+          <p className="text-sm text-neutral-500 mt-1">
+            Checks keep running during maintenance but don't open incidents, send alerts or count against uptime
+          </p>
+        </div>
+        <Button variant="success" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4" />
+          Schedule
+        </Button>
+      </div>
+
+      {data?.maintenanceWindows?.length === 0 && !isLoading ? (
+        <Card>
+          <CardContent className="p-8 text-center text-neutral-500">No maintenance windows scheduled</CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Schedule</TableHead>
+                <TableHead>Applies to</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading
+                ? Array.from({ length: 3 }).map((_, i) => (
+                    <TableRow key={`skeleton-${i}`}>
+                      <TableCell>
+                        <Skeleton className="h-4 w-32" />
+                      </TableCell>
+                      <TableCell>
+                        <Skeleton className="h-4 w-48" />
+                      </TableCell>
+                      <TableCell>
+                        <Skeleton className="h-4 w-24" />
+                      </TableCell>
+                      <TableCell>
+                        <Skeleton className="h-4 w-16" />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Skeleton className="h-8 w-8 ml-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                : data?.maintenanceWindows?.map(maintenanceWindow => {
+                    const state = getWindowState(maintenanceWindow);
+                    return (
+                      <TableRow key={maintenanceWindow.id}>
+                        <TableCell className="font-medium">{maintenanceWindow.name}</TableCell>
+                        <TableCell className="text-sm text-neutral-400">
+                          <div>
+                            {formatTimestamp(maintenanceWindow.startTime, maintenanceWindow.timezone)} –{" "}
+                            {formatTimestamp(maintenanceWindow.endTime, maintenanceWindow.timezone)}
+                          </div>
+                          <div className="text-xs text-neutral-500">
+                            {RECURRENCE_LABELS[maintenanceWindow.recurrence]} · {maintenanceWindow.timezone}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm text-neutral-500">
+                          {[
+                            maintenanceWindow.monitorIds.length > 0 &&
+                              `${maintenanceWindow.monitorIds.length} monitor${maintenanceWindow.monitorIds.length === 1 ? "" : "s"}`,
+                            ...maintenanceWindow.monitorTags.map(tag => `#${tag}`),
+                          ]
+                            .filter(Boolean)
+                            .join(", ")}
+                        </TableCell>
+                        <TableCell>
+                          {state === "active" && <Badge variant="warning">In progress</Badge>}
+                          {state === "scheduled" && <Badge variant="info">Scheduled</Badge>}
+                          {state === "ended" && <Badge variant="secondary">Ended</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                                <MoreHorizontal className="h-4 w-4" />
+                                <span className="sr-only">Open menu</span>
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => openDialog(maintenanceWindow)}>
+                                <Edit className="mr-2 h-4 w-4" />
+                                Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                onClick={() => {
+                                  setWindowToDelete(maintenanceWindow);
+                                  setDeleteModalOpen(true);
+                                }}
+                                className="text-red-600"
+                              >
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <MaintenanceWindowDialog open={dialogOpen} onOpenChange={setDialogOpen} maintenanceWindow={editingWindow} />
+      <ConfirmationModal
+        isOpen={deleteModalOpen}
+        setIsOpen={setDeleteModalOpen}
+        onConfirm={handleDelete}
+        title="Delete Maintenance Window"
+        description={
+          windowToDelete ? (
+            <>
+              Are you sure you want to delete the maintenance window <strong>{windowToDelete.name}</strong>? Checks will
+              count towards incidents and uptime again.
+            </>
+          ) : (
+            "Are you sure you want to delete this maintenance window?"
+          )
+        }
+        primaryAction={{
+          children: "Delete Maintenance Window",
+          variant: "destructive",
+        }}
+      />
+    </>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { cn } from "@/lib/utils";
 import { MonitorEvent } from "@/api/uptime/monitors";
+import { StepBreakdown } from "./StepBreakdown";
 import { TimingWaterfall } from "./TimingWaterfall";
 
 interface EventDetailsRowProps {
@@ -19,6 +20,9 @@ export function EventDetailsRow({ event }: EventDetailsRowProps) {
           </div>
         )}
 
+        {/* Step Breakdown */}
+        {event.steps && event.steps.length > 0 && <StepBreakdown steps={event.steps} />}
+
         {/* Error Message */}
         {event.error_message && (
           <div>
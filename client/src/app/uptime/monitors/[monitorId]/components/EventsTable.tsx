@@ -77,8 +77,9 @@ export function EventsTable({ monitor, monitorId }: { monitor?: UptimeMonitor; m
         cell: ({ row }) => {
           const timestamp = DateTime.fromSQL(row.original.timestamp, { zone: "utc" });
           return (
-            <div className="text-sm">
+            <div className="text-sm flex items-center gap-2">
               <div className="">{timestamp.toLocal().toFormat("MMM dd, HH:mm:ss")}</div>
+              {row.original.in_maintenance === 1 && <Badge variant="outline">Maintenance</Badge>}
             </div>
           );
         },
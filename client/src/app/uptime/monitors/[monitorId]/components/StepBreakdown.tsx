@@ -0,0 +1,52 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { MonitorEvent } from "@/api/uptime/monitors";
+
+interface StepBreakdownProps {
+  steps: NonNullable<MonitorEvent["steps"]>;
+}
+
+// Each step is drawn where it falls in the whole transaction, like a request waterfall
+export function StepBreakdown({ steps }: StepBreakdownProps) {
+  const totalTime = steps.reduce((total, step) => total + step.responseTimeMs, 0);
+  let elapsed = 0;
+
+  return (
+    <div className="w-full">
+      <div className="text-sm font-medium mb-2">Steps</div>
+      <div className="border border-neutral-800 rounded divide-y divide-neutral-800">
+        {steps.map((step, index) => {
+          const left = totalTime > 0 ? (elapsed / totalTime) * 100 : 0;
+          const width = totalTime > 0 ? (step.responseTimeMs / totalTime) * 100 : 0;
+          elapsed += step.responseTimeMs;
+          const failed = step.status !== "success";
+
+          return (
+            <div key={index} className="px-4 py-2 space-y-1">
+              <div className="flex items-center gap-3 text-sm">
+                <div className={cn("w-2 h-2 rounded-full shrink-0", failed ? "bg-red-500" : "bg-green-500")} />
+                <span className="w-48 truncate">
+                  {index + 1}. {step.name}
+                </span>
+                <span className="w-10 font-mono text-xs text-neutral-400">{step.statusCode ?? "-"}</span>
+                <div className="relative flex-1 h-2 bg-neutral-800 rounded overflow-hidden">
+                  <div
+                    className={cn("absolute h-full", failed ? "bg-red-500" : "bg-blue-500")}
+                    style={{ left: `${left}%`, width: `${Math.max(width, 0.5)}%` }}
+                  />
+                </div>
+                <span className="w-16 text-right font-mono text-xs">{step.responseTimeMs}ms</span>
+              </div>
+              {(step.error || step.validationErrors.length > 0) && (
+                <div className="pl-5 text-xs text-red-400 font-mono whitespace-pre-wrap">
+                  {[step.error?.message, ...step.validationErrors].filter(Boolean).join("\n")}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
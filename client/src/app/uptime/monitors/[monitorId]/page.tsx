@@ -12,7 +12,7 @@ import { MonitorActions } from "../components/MonitorActions";
 import { MonitorResponseTimeChart } from "../components/MonitorResponseTimeChart";
 import { StatusOrb } from "../components/StatusOrb";
 import { useUptimeStore } from "../components/uptimeStore";
-import { getHoursFromTimeRange } from "../components/utils";
+import { getHoursFromTimeRange, getMonitorTarget } from "../components/utils";
 import { EventsTable } from "./components/EventsTable";
 import { FilterBar } from "./components/FilterBar";
 
@@ -64,10 +64,7 @@ function StatCard({ label, value, isLoading }: StatCardProps) {
 }
 
 const getMonitorName = (monitor: UptimeMonitor) => {
-  return (
-    monitor.name ||
-    (monitor.monitorType === "http" ? monitor.httpConfig?.url : `${monitor.tcpConfig?.host}:${monitor.tcpConfig?.port}`)
-  );
+  return monitor.name || getMonitorTarget(monitor);
 };
 
 const MonitorHeader = ({ monitor, isLoadingMonitor }: { monitor?: UptimeMonitor; isLoadingMonitor: boolean }) => {
@@ -97,18 +94,26 @@ const MonitorHeader = ({ monitor, isLoadingMonitor }: { monitor?: UptimeMonitor;
       </div>
       <p className="text-sm text-neutral-300 mt-1 flex items-center gap-2">
         <span
-          className={cn("font-medium", monitor.status?.currentStatus === "up" ? "text-green-400" : "text-red-500/80")}
+          className={cn(
+            "font-medium",
+            monitor.status?.currentStatus === "up"
+              ? "text-green-400"
+              : monitor.status?.currentStatus === "degraded"
+                ? "text-yellow-400"
+                : "text-red-500/80"
+          )}
         >
-          {monitor.status?.currentStatus === "up" ? "Up" : "Down"}
-        </span>
-        •
-        <span>
-          {monitor.monitorType === "http"
-            ? monitor.httpConfig?.url
-            : `${monitor.tcpConfig?.host}:${monitor.tcpConfig?.port}`}
+          {monitor.status?.currentStatus === "up"
+            ? "Up"
+            : monitor.status?.currentStatus === "degraded"
+              ? "Degraded"
+              : "Down"}
         </span>
-        •<span>every {formatInterval(monitor.intervalSeconds)}</span>
+        •<span>{getMonitorTarget(monitor)}</span>•<span>every {formatInterval(monitor.intervalSeconds)}</span>
       </p>
+      {monitor.status?.currentStatus === "degraded" && monitor.status.degradedReason && (
+        <p className="text-xs text-yellow-400/80">{monitor.status.degradedReason}</p>
+      )}
     </div>
   );
 };
@@ -22,6 +22,7 @@ import {
 } from "../../../../components/ui/dropdown-menu";
 import { cn } from "../../../../lib/utils";
 import { MonitorDialog } from "./dialog";
+import { getMonitorTarget } from "./utils";
 
 export function MonitorActions({ monitor }: { monitor?: UptimeMonitor }) {
   const router = useRouter();
@@ -106,12 +107,8 @@ export function MonitorActions({ monitor }: { monitor?: UptimeMonitor }) {
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete the monitor "
-              {monitor?.name ||
-                (monitor?.monitorType === "http"
-                  ? monitor?.httpConfig?.url
-                  : `${monitor?.tcpConfig?.host}:${monitor?.tcpConfig?.port}`)}
-              " and all its historical data. This action cannot be undone.
+              This will permanently delete the monitor "{monitor && (monitor.name || getMonitorTarget(monitor))}" and
+              all its historical data. This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
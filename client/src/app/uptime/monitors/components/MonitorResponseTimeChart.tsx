@@ -114,7 +114,7 @@ export function MonitorResponseTimeChart({
 
   // Create data series based on monitor type
   const createDataSeries = () => {
-    if (monitorType === "tcp") {
+    if (monitorType !== "http") {
       return [
         {
           id: "Response Time",
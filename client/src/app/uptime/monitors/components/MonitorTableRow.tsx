@@ -3,6 +3,7 @@ import { DateTime } from "luxon";
 import { TableCell, TableRow } from "@/components/ui/table";
 import { StatusOrb } from "./StatusOrb";
 import { UptimeBar } from "./UptimeBar";
+import { getMonitorTarget } from "./utils";
 import { UptimeMonitor, useMonitorUptime } from "@/api/uptime/monitors";
 import { cn } from "@/lib/utils";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -69,11 +70,7 @@ export function MonitorTableRow({ monitor, onClick }: MonitorTableRowProps) {
       </TableCell>
       <TableCell className="font-medium">
         <div>{monitor.name}</div>
-        <div className="text-xs text-neutral-500">
-          {monitor.monitorType === "http"
-            ? monitor.httpConfig?.url
-            : `${monitor.tcpConfig?.host}:${monitor.tcpConfig?.port}`}
-        </div>
+        <div className="text-xs text-neutral-500">{getMonitorTarget(monitor)}</div>
       </TableCell>
       <TableCell>
         <span
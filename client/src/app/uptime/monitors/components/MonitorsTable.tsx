@@ -17,6 +17,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Radio, ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
 import { StatusOrb } from "./StatusOrb";
 import { UptimeBar } from "./UptimeBar";
+import { getMonitorTarget } from "./utils";
 import { Input } from "../../../../components/ui/input";
 import { Button } from "../../../../components/ui/button";
 import { Pagination } from "../../../../components/pagination";
@@ -36,8 +37,7 @@ const fuzzyFilter: FilterFn<UptimeMonitor> = (row, columnId, value, addMeta) =>
   if (monitor.name && monitor.name.toLowerCase().includes(search)) return true;
 
   // Search in URL/host
-  if (monitor.monitorType === "http" && monitor.httpConfig?.url?.toLowerCase().includes(search)) return true;
-  if (monitor.monitorType === "tcp" && monitor.tcpConfig?.host?.toLowerCase().includes(search)) return true;
+  if (getMonitorTarget(monitor).toLowerCase().includes(search)) return true;
 
   // Search in type
   if (monitor.monitorType.toLowerCase().includes(search)) return true;
@@ -124,16 +124,9 @@ export function MonitorsTable({ onMonitorClick }: MonitorsTableProps) {
       columnHelper.accessor("name", {
         header: ({ column }) => <SortHeader column={column}>Monitor</SortHeader>,
         cell: ({ row }) => {
-          const displayName =
-            row.original.name ||
-            (row.original.monitorType === "http"
-              ? row.original.httpConfig?.url
-              : `${row.original.tcpConfig?.host}:${row.original.tcpConfig?.port}`);
-          const subtext = row.original.name
-            ? row.original.monitorType === "http"
-              ? row.original.httpConfig?.url
-              : `${row.original.tcpConfig?.host}:${row.original.tcpConfig?.port}`
-            : null;
+          const target = getMonitorTarget(row.original);
+          const displayName = row.original.name || target;
+          const subtext = row.original.name ? target : null;
 
           return (
             <div>
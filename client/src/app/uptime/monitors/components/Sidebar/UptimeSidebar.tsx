@@ -1,5 +1,5 @@
 "use client";
-import { Activity, AlertCircle, Plug2, Globe } from "lucide-react";
+import { Activity, AlertCircle, Plug2, Globe, Siren, Target, Wrench } from "lucide-react";
 import { usePathname } from "next/navigation";
 import { Sidebar } from "../../../../../components/sidebar/Sidebar";
 
@@ -22,12 +22,30 @@ export function UptimeSidebar() {
           href={"/uptime/incidents"}
           icon={<AlertCircle className="w-4 h-4" />}
         />
+        <Sidebar.Item
+          label="SLOs"
+          active={pathname.startsWith("/uptime/slos")}
+          href={"/uptime/slos"}
+          icon={<Target className="w-4 h-4" />}
+        />
+        <Sidebar.Item
+          label="Maintenance"
+          active={pathname.startsWith("/uptime/maintenance")}
+          href={"/uptime/maintenance"}
+          icon={<Wrench className="w-4 h-4" />}
+        />
         <Sidebar.Item
           label="Notifications"
           active={pathname.startsWith("/uptime/notifications")}
           href={"/uptime/notifications"}
           icon={<Plug2 className="w-4 h-4" />}
         />
+        <Sidebar.Item
+          label="Escalation"
+          active={pathname.startsWith("/uptime/escalation")}
+          href={"/uptime/escalation"}
+          icon={<Siren className="w-4 h-4" />}
+        />
         <Sidebar.Item
           label="Status Page"
           active={pathname.startsWith("/uptime/status-page")}
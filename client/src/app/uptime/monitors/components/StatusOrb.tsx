@@ -2,7 +2,7 @@ import React from "react";
 import { cn } from "@/lib/utils";
 
 interface StatusOrbProps {
-  status: "up" | "down" | "unknown";
+  status: "up" | "degraded" | "down" | "unknown";
   className?: string;
   size?: "sm" | "md" | "lg";
   animated?: boolean;
@@ -17,12 +17,14 @@ export function StatusOrb({ status, className, size = "md", animated = true }: S
 
   const statusClasses = {
     up: "bg-green-400",
+    degraded: "bg-yellow-400",
     down: "bg-red-500",
     unknown: "bg-gray-400 dark:bg-gray-600",
   };
 
   const pulseClasses = {
     up: "animate-pulse",
+    degraded: "animate-pulse",
     down: "animate-pulse",
     unknown: "",
   };
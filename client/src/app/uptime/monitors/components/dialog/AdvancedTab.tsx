@@ -7,11 +7,13 @@ import { Button } from "@/components/ui/button";
 import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Plus, X } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
+import { MonitorType } from "@/api/uptime/monitors";
 import { CreateMonitorFormData, UpdateMonitorFormData } from "../monitorSchemas";
+import { MONITOR_TYPE_LABELS } from "../utils";
 
 interface AdvancedTabProps {
   form: UseFormReturn<CreateMonitorFormData | UpdateMonitorFormData>;
-  monitorType: "http" | "tcp";
+  monitorType: MonitorType;
 }
 
 export function AdvancedTab({ form, monitorType }: AdvancedTabProps) {
@@ -35,8 +37,90 @@ export function AdvancedTab({ form, monitorType }: AdvancedTabProps) {
         )}
       />
 
-      {monitorType === "tcp" ? (
-        <div className="text-sm text-neutral-500 mt-4">No additional advanced options available for TCP monitors.</div>
+      {/* Tags */}
+      <FormField
+        control={form.control}
+        name="tags"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Tags</FormLabel>
+            <FormControl>
+              <Input
+                // Remount when the form is reset so the text follows the current value
+                key={(field.value || []).join(",")}
+                placeholder="database, production"
+                defaultValue={(field.value || []).join(", ")}
+                onBlur={e =>
+                  field.onChange(
+                    e.target.value
+                      .split(",")
+                      .map(tag => tag.trim().toLowerCase())
+                      .filter(Boolean)
+                  )
+                }
+              />
+            </FormControl>
+            <FormDescription>Comma-separated. Maintenance windows can target every monitor with a tag.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {/* Degraded thresholds */}
+      <FormField
+        control={form.control}
+        name="degradedConfig"
+        render={({ field }) => {
+          const config = field.value ?? {};
+          const update = (changes: Partial<NonNullable<typeof field.value>>) => {
+            const next = { ...config, ...changes };
+            const isEmpty =
+              !next.responseTimeP95Ms && !next.partialRegionFailure && !(next.warningRules && next.warningRules.length);
+            field.onChange(isEmpty ? null : next);
+          };
+          const parseNumber = (value: string) => (value ? parseInt(value, 10) || undefined : undefined);
+
+          return (
+            <FormItem>
+              <FormLabel>Degraded when</FormLabel>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="p95 response time (ms)"
+                  value={config.responseTimeP95Ms ?? ""}
+                  onChange={e => update({ responseTimeP95Ms: parseNumber(e.target.value) })}
+                />
+                <Input
+                  type="number"
+                  min={5}
+                  max={1440}
+                  placeholder="Over the last 15 minutes"
+                  value={config.responseTimeWindowMinutes ?? ""}
+                  onChange={e => update({ responseTimeWindowMinutes: parseNumber(e.target.value) })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm">Some, but not all, regions fail</span>
+                <Switch
+                  checked={!!config.partialRegionFailure}
+                  onCheckedChange={checked => update({ partialRegionFailure: checked || undefined })}
+                />
+              </div>
+              <FormDescription>
+                Degraded monitors stay up but open a separate degraded incident and notify channels subscribed to
+                degraded events.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          );
+        }}
+      />
+
+      {monitorType !== "http" ? (
+        <div className="text-sm text-neutral-500 mt-4">
+          No additional advanced options available for {MONITOR_TYPE_LABELS[monitorType]} monitors.
+        </div>
       ) : (
         <>
           <FormField
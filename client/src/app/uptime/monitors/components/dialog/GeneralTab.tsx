@@ -4,14 +4,17 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { UptimeMonitor } from "@/api/uptime/monitors";
+import { MonitorType, UptimeMonitor } from "@/api/uptime/monitors";
 import { CreateMonitorFormData, UpdateMonitorFormData } from "../monitorSchemas";
+import { MONITOR_TYPE_LABELS } from "../utils";
+import { DnsConfigFields, PingConfigFields, SmtpConfigFields, TlsConfigFields } from "./NetworkConfigFields";
+import { MultistepConfigFields } from "./MultistepConfigFields";
 
 interface GeneralTabProps {
   form: UseFormReturn<CreateMonitorFormData | UpdateMonitorFormData>;
   monitor?: UptimeMonitor;
   isEdit: boolean;
-  monitorType: "http" | "tcp";
+  monitorType: MonitorType;
 }
 
 export const INTERVAL_OPTIONS = [
@@ -44,8 +47,11 @@ export function GeneralTab({ form, monitor, isEdit, monitorType }: GeneralTabPro
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  <SelectItem value="http">HTTP/HTTPS</SelectItem>
-                  <SelectItem value="tcp">TCP Port</SelectItem>
+                  {Object.entries(MONITOR_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <FormMessage />
@@ -56,7 +62,7 @@ export function GeneralTab({ form, monitor, isEdit, monitorType }: GeneralTabPro
         <div className="space-y-1">
           <FormLabel>Monitor Type</FormLabel>
           <div className="px-3 py-2 border border-neutral-800 rounded-md bg-neutral-900 text-neutral-400">
-            {monitor?.monitorType === "http" ? "HTTP/HTTPS" : "TCP Port"}
+            {monitor && MONITOR_TYPE_LABELS[monitor.monitorType]}
           </div>
         </div>
       )}
@@ -164,6 +170,12 @@ export function GeneralTab({ form, monitor, isEdit, monitorType }: GeneralTabPro
         </div>
       )}
 
+      {monitorType === "dns" && <DnsConfigFields form={form} />}
+      {monitorType === "ping" && <PingConfigFields form={form} />}
+      {monitorType === "smtp" && <SmtpConfigFields form={form} />}
+      {monitorType === "tls" && <TlsConfigFields form={form} />}
+      {monitorType === "multistep" && <MultistepConfigFields form={form} />}
+
       {/* Check Interval */}
       <FormField
         control={form.control}
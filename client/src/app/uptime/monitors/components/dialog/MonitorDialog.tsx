@@ -10,7 +10,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { useCreateMonitor, useUpdateMonitor, UptimeMonitor } from "@/api/uptime/monitors";
+import { MonitorType, useCreateMonitor, useUpdateMonitor, UptimeMonitor } from "@/api/uptime/monitors";
 import { toast } from "sonner";
 import { Loader2 } from "lucide-react";
 import { createMonitorSchema, updateMonitorSchema } from "../monitorSchemas";
@@ -21,6 +21,7 @@ import { GeneralTab } from "./GeneralTab";
 import { AdvancedTab } from "./AdvancedTab";
 import { RegionsTab } from "./RegionsTab";
 import { NotificationsTab } from "./NotificationsTab";
+import { createStep } from "./MultistepConfigFields";
 import { IS_CLOUD } from "@/lib/const";
 import { useQuery } from "@tanstack/react-query";
 import { authedFetch } from "../../../../../api/utils";
@@ -31,6 +32,16 @@ interface MonitorDialogProps {
   onOpenChange: (open: boolean) => void;
 }
 
+const DEFAULT_CONFIGS: Record<MonitorType, Record<string, unknown>> = {
+  http: { url: "", method: "GET", followRedirects: true, timeoutMs: 30000, ipVersion: "any" },
+  tcp: { host: "", port: 80, timeoutMs: 30000 },
+  dns: { hostname: "", recordType: "A", timeoutMs: 10000 },
+  ping: { host: "", packetCount: 3, timeoutMs: 10000 },
+  smtp: { host: "", port: 25, secure: false, requireStartTls: false, timeoutMs: 30000 },
+  tls: { host: "", port: 443, expiryThresholdDays: 14, timeoutMs: 30000 },
+  multistep: { steps: [createStep(1)], followRedirects: true },
+};
+
 export function MonitorDialog({ monitor, open, onOpenChange }: MonitorDialogProps) {
   const { data: activeOrganization, isPending } = authClient.useActiveOrganization();
   const createMonitor = useCreateMonitor();
@@ -76,9 +87,17 @@ export function MonitorDialog({ monitor, open, onOpenChange }: MonitorDialogProp
                 timeoutMs: monitor.tcpConfig.timeoutMs ?? 30000,
               }
             : undefined,
+          dnsConfig: monitor.dnsConfig ?? undefined,
+          pingConfig: monitor.pingConfig ?? undefined,
+          smtpConfig: monitor.smtpConfig ?? undefined,
+          tlsConfig: monitor.tlsConfig ?? undefined,
+          multistepConfig: monitor.multistepConfig ?? undefined,
           validationRules: monitor.validationRules || [],
           monitoringType: monitor.monitoringType || "local",
           selectedRegions: monitor.selectedRegions || ["local"],
+          tags: monitor.tags || [],
+          escalationPolicyId: monitor.escalationPolicyId ?? null,
+          degradedConfig: monitor.degradedConfig ?? null,
         }
       : {
           organizationId: activeOrganization?.id || "",
@@ -96,6 +115,9 @@ export function MonitorDialog({ monitor, open, onOpenChange }: MonitorDialogProp
           validationRules: [],
           monitoringType: IS_CLOUD ? "global" : "local",
           selectedRegions: IS_CLOUD ? [] : ["local"], // Empty array for cloud, will be populated in RegionsTab
+          tags: [],
+          escalationPolicyId: null,
+          degradedConfig: null,
         },
   });
 
@@ -178,9 +200,17 @@ export function MonitorDialog({ monitor, open, onOpenChange }: MonitorDialogProp
               timeoutMs: monitor.tcpConfig.timeoutMs ?? 30000,
             }
           : undefined,
+        dnsConfig: monitor.dnsConfig ?? undefined,
+        pingConfig: monitor.pingConfig ?? undefined,
+        smtpConfig: monitor.smtpConfig ?? undefined,
+        tlsConfig: monitor.tlsConfig ?? undefined,
+        multistepConfig: monitor.multistepConfig ?? undefined,
         validationRules: monitor.validationRules || [],
         monitoringType: monitor.monitoringType || "local",
         selectedRegions: monitor.selectedRegions || ["local"],
+        tags: monitor.tags || [],
+        escalationPolicyId: monitor.escalationPolicyId ?? null,
+        degradedConfig: monitor.degradedConfig ?? null,
       });
     }
   }, [monitor, open, form, isEdit]);
@@ -190,22 +220,10 @@ export function MonitorDialog({ monitor, open, onOpenChange }: MonitorDialogProp
     if (!isEdit && form.watch) {
       const subscription = form.watch((value, { name }) => {
         if (name === "monitorType") {
-          if (value.monitorType === "tcp") {
-            form.setValue("httpConfig", undefined as any);
-            form.setValue("tcpConfig", {
-              host: "",
-              port: 80,
-              timeoutMs: 30000,
-            });
-          } else {
-            form.setValue("tcpConfig", undefined as any);
-            form.setValue("httpConfig", {
-              url: "",
-              method: "GET" as const,
-              followRedirects: true,
-              timeoutMs: 30000,
-              ipVersion: "any" as const,
-            });
+          const selectedType = (value.monitorType ?? "http") as MonitorType;
+          // Only the config for the selected type is kept, starting from its defaults
+          for (const [type, defaults] of Object.entries(DEFAULT_CONFIGS)) {
+            form.setValue(`${type}Config`, type === selectedType ? structuredClone(defaults) : (undefined as any));
           }
         }
       });
@@ -248,7 +266,7 @@ export function MonitorDialog({ monitor, open, onOpenChange }: MonitorDialogProp
               </TabsContent>
 
               <TabsContent value="notifications" className="space-y-4 mt-4">
-                <NotificationsTab />
+                <NotificationsTab form={form} />
               </TabsContent>
             </Tabs>
 
@@ -0,0 +1,487 @@
+import React from "react";
+import { useFieldArray, UseFormReturn } from "react-hook-form";
+import { ArrowUp, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ValidationRule } from "@/api/uptime/monitors";
+import {
+  CreateMonitorFormData,
+  MULTISTEP_MAX_STEPS,
+  MultistepStepFormData,
+  UpdateMonitorFormData,
+} from "../monitorSchemas";
+
+type MonitorForm = UseFormReturn<CreateMonitorFormData | UpdateMonitorFormData>;
+
+const HTTP_METHODS = ["GET", "POST", "PUT", "DELETE", "HEAD", "OPTIONS", "PATCH"] as const;
+
+const EXTRACT_SOURCES = [
+  { value: "json", label: "JSON path", placeholder: "$.data.token" },
+  { value: "header", label: "Header", placeholder: "x-request-id" },
+  { value: "regex", label: "Regex", placeholder: 'id="(\\w+)"' },
+] as const;
+
+// The rules offered per step; all but JSON path are edited through a single value
+const STEP_RULE_TYPES = {
+  status_code: "Status code is",
+  response_time: "Faster than (ms)",
+  response_body_contains: "Body contains",
+  response_body_not_contains: "Body doesn't contain",
+  response_body_matches: "Body matches regex",
+  json_path: "JSON path",
+  header_exists: "Header exists",
+} as const;
+
+type StepRuleType = keyof typeof STEP_RULE_TYPES;
+
+type JsonPathRule = Extract<ValidationRule, { type: "json_path" }>;
+
+const JSON_PATH_OPERATORS: Record<JsonPathRule["operator"], string> = {
+  exists: "exists",
+  not_exists: "doesn't exist",
+  equals: "==",
+  not_equals: "!=",
+  contains: "contains",
+  less_than: "<",
+  greater_than: ">",
+  length_equals: "length ==",
+  length_less_than: "length <",
+  length_greater_than: "length >",
+};
+
+const buildRule = (type: StepRuleType, input: string): ValidationRule => {
+  switch (type) {
+    case "status_code":
+      return { type, operator: "equals", value: Number(input) };
+    case "response_time":
+      return { type, operator: "less_than", value: Number(input) };
+    case "header_exists":
+      return { type, header: input };
+    case "response_body_matches":
+      return { type, pattern: input };
+    case "json_path":
+      return { type, path: "$.", operator: "exists" };
+    default:
+      return { type, value: input };
+  }
+};
+
+const getRuleInput = (rule: ValidationRule) => {
+  switch (rule.type) {
+    case "header_exists":
+      return rule.header;
+    case "response_body_matches":
+      return rule.pattern;
+    case "status_code":
+    case "response_time":
+    case "response_body_contains":
+    case "response_body_not_contains":
+      return Array.isArray(rule.value) ? rule.value.join(",") : String(rule.value ?? "");
+    default:
+      return "";
+  }
+};
+
+// Lets `ok` be typed for a string while `42`, `true` and `null` keep their JSON type
+const parseJsonValue = (input: string): JsonPathRule["value"] => {
+  try {
+    const value = JSON.parse(input);
+    return value === null || typeof value !== "object" ? value : input;
+  } catch {
+    return input;
+  }
+};
+
+const formatJsonValue = (value: JsonPathRule["value"]) =>
+  typeof value === "string" ? value : value === undefined ? "" : JSON.stringify(value);
+
+function JsonPathRuleInputs({ rule, onChange }: { rule: JsonPathRule; onChange: (rule: JsonPathRule) => void }) {
+  const needsValue = rule.operator !== "exists" && rule.operator !== "not_exists";
+
+  return (
+    <>
+      <Input
+        className="flex-1 font-mono"
+        placeholder="$.status"
+        value={rule.path}
+        onChange={e => onChange({ ...rule, path: e.target.value })}
+      />
+      <Select
+        value={rule.operator}
+        onValueChange={operator => onChange({ ...rule, operator: operator as JsonPathRule["operator"] })}
+      >
+        <SelectTrigger className="w-32">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(JSON_PATH_OPERATORS).map(([operator, label]) => (
+            <SelectItem key={operator} value={operator}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {needsValue && (
+        <Input
+          className="w-28 font-mono"
+          placeholder="ok"
+          value={formatJsonValue(rule.value)}
+          onChange={e => onChange({ ...rule, value: parseJsonValue(e.target.value) })}
+        />
+      )}
+    </>
+  );
+}
+
+export const createStep = (position: number): MultistepStepFormData => ({
+  name: `Step ${position}`,
+  url: "",
+  method: "GET",
+  extract: [],
+  validationRules: [{ type: "status_code", operator: "equals", value: 200 }],
+});
+
+// "Name: value" per line, parsed as the user types
+function HeadersTextarea({
+  value,
+  onChange,
+}: {
+  value?: Record<string, string>;
+  onChange: (headers: Record<string, string> | undefined) => void;
+}) {
+  return (
+    <Textarea
+      placeholder={"Authorization: Bearer {{token}}\nContent-Type: application/json"}
+      defaultValue={Object.entries(value ?? {})
+        .map(([key, headerValue]) => `${key}: ${headerValue}`)
+        .join("\n")}
+      onChange={e => {
+        const headers = Object.fromEntries(
+          e.target.value
+            .split("\n")
+            .map(line => [line.slice(0, line.indexOf(":")).trim(), line.slice(line.indexOf(":") + 1).trim()])
+            .filter(([key]) => key !== "")
+        );
+        onChange(Object.keys(headers).length > 0 ? headers : undefined);
+      }}
+      className="font-mono min-h-[60px]"
+      style={{ fontSize: "12px" }}
+    />
+  );
+}
+
+function StepExtractFields({ form, stepIndex }: { form: MonitorForm; stepIndex: number }) {
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: `multistepConfig.steps.${stepIndex}.extract`,
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <FormLabel>Extract values</FormLabel>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7"
+          onClick={() => append({ name: "", source: "json", expression: "" })}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add
+        </Button>
+      </div>
+      {fields.map((field, extractIndex) => {
+        const source = form.watch(`multistepConfig.steps.${stepIndex}.extract.${extractIndex}.source`);
+        return (
+          <div key={field.id} className="flex gap-2 items-start">
+            <FormField
+              control={form.control}
+              name={`multistepConfig.steps.${stepIndex}.extract.${extractIndex}.name`}
+              render={({ field }) => (
+                <FormItem className="w-32">
+                  <FormControl>
+                    <Input placeholder="token" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`multistepConfig.steps.${stepIndex}.extract.${extractIndex}.source`}
+              render={({ field }) => (
+                <FormItem className="w-32">
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {EXTRACT_SOURCES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`multistepConfig.steps.${stepIndex}.extract.${extractIndex}.expression`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl>
+                    <Input
+                      className="font-mono"
+                      placeholder={EXTRACT_SOURCES.find(option => option.value === source)?.placeholder}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="button" variant="ghost" size="sm" className="px-2" onClick={() => remove(extractIndex)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function StepRuleFields({ form, stepIndex }: { form: MonitorForm; stepIndex: number }) {
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: `multistepConfig.steps.${stepIndex}.validationRules`,
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <FormLabel>Assertions</FormLabel>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7"
+          onClick={() => append(buildRule("status_code", "200"))}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add
+        </Button>
+      </div>
+      {fields.map((field, ruleIndex) => (
+        <FormField
+          key={field.id}
+          control={form.control}
+          name={`multistepConfig.steps.${stepIndex}.validationRules.${ruleIndex}`}
+          render={({ field }) => {
+            const rule = field.value as ValidationRule;
+            return (
+              <div className="flex gap-2 items-center">
+                <Select
+                  value={rule.type}
+                  onValueChange={type => field.onChange(buildRule(type as StepRuleType, getRuleInput(rule)))}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STEP_RULE_TYPES).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {rule.type === "json_path" ? (
+                  <JsonPathRuleInputs rule={rule} onChange={field.onChange} />
+                ) : (
+                  <Input
+                    className="flex-1"
+                    value={getRuleInput(rule)}
+                    onChange={e => field.onChange(buildRule(rule.type as StepRuleType, e.target.value))}
+                  />
+                )}
+                <Button type="button" variant="ghost" size="sm" className="px-2" onClick={() => remove(ruleIndex)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+function StepFields({
+  form,
+  index,
+  onRemove,
+  onMoveUp,
+}: {
+  form: MonitorForm;
+  index: number;
+  onRemove?: () => void;
+  onMoveUp?: () => void;
+}) {
+  const method = form.watch(`multistepConfig.steps.${index}.method`);
+
+  return (
+    <div className="border border-neutral-800 rounded-md p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-neutral-400">Step {index + 1}</span>
+        <div className="flex gap-1">
+          {onMoveUp && (
+            <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={onMoveUp}>
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+          )}
+          {onRemove && (
+            <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={onRemove}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[1fr_8rem] gap-2">
+        <FormField
+          control={form.control}
+          name={`multistepConfig.steps.${index}.name`}
+          render={({ field }) => (
+            <FormItem>
+              <FormControl>
+                <Input placeholder="Log in" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name={`multistepConfig.steps.${index}.method`}
+          render={({ field }) => (
+            <FormItem>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {HTTP_METHODS.map(httpMethod => (
+                    <SelectItem key={httpMethod} value={httpMethod}>
+                      {httpMethod}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={form.control}
+        name={`multistepConfig.steps.${index}.url`}
+        render={({ field }) => (
+          <FormItem>
+            <FormControl>
+              <Input placeholder="https://api.example.com/login" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name={`multistepConfig.steps.${index}.headers`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Headers</FormLabel>
+            <FormControl>
+              <HeadersTextarea value={field.value} onChange={field.onChange} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {method !== "GET" && method !== "HEAD" && (
+        <FormField
+          control={form.control}
+          name={`multistepConfig.steps.${index}.body`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Body</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder='{"email": "monitor@example.com"}'
+                  {...field}
+                  value={field.value || ""}
+                  className="font-mono min-h-[60px]"
+                  style={{ fontSize: "12px" }}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+
+      <StepExtractFields form={form} stepIndex={index} />
+      <StepRuleFields form={form} stepIndex={index} />
+    </div>
+  );
+}
+
+export function MultistepConfigFields({ form }: { form: MonitorForm }) {
+  const { fields, append, remove, move } = useFieldArray({
+    control: form.control,
+    name: "multistepConfig.steps",
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <FormLabel>Steps</FormLabel>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-8"
+          disabled={fields.length >= MULTISTEP_MAX_STEPS}
+          onClick={() => append(createStep(fields.length + 1))}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add step
+        </Button>
+      </div>
+      {fields.map((field, index) => (
+        <StepFields
+          key={field.id}
+          form={form}
+          index={index}
+          onRemove={fields.length > 1 ? () => remove(index) : undefined}
+          onMoveUp={index > 0 ? () => move(index, index - 1) : undefined}
+        />
+      ))}
+      <FormDescription>
+        Steps run in order and stop at the first failure. Use {"{{name}}"} in a URL, header or body to insert a value
+        extracted by an earlier step.
+      </FormDescription>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+import React from "react";
+import { UseFormReturn } from "react-hook-form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { CreateMonitorFormData, DNS_RECORD_TYPES, UpdateMonitorFormData } from "../monitorSchemas";
+
+interface ConfigFieldsProps {
+  form: UseFormReturn<CreateMonitorFormData | UpdateMonitorFormData>;
+}
+
+const parseNumber = (value: string) => (value ? parseInt(value) : undefined);
+
+export function DnsConfigFields({ form }: ConfigFieldsProps) {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="dnsConfig.hostname"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Hostname</FormLabel>
+              <FormControl>
+                <Input placeholder="example.com" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="dnsConfig.recordType"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Record Type</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {DNS_RECORD_TYPES.map(recordType => (
+                    <SelectItem key={recordType} value={recordType}>
+                      {recordType}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={form.control}
+        name="dnsConfig.expectedValue"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Expected Value</FormLabel>
+            <FormControl>
+              <Input placeholder="93.184.216.34" {...field} value={field.value || ""} />
+            </FormControl>
+            <FormDescription>Optional. The check fails unless one of the answers matches this value.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="dnsConfig.resolver"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Resolver</FormLabel>
+            <FormControl>
+              <Input placeholder="1.1.1.1" {...field} value={field.value || ""} />
+            </FormControl>
+            <FormDescription>Optional. Defaults to the system resolver.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
+
+export function PingConfigFields({ form }: ConfigFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <FormField
+        control={form.control}
+        name="pingConfig.host"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Host</FormLabel>
+            <FormControl>
+              <Input placeholder="example.com" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="pingConfig.packetCount"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Packets</FormLabel>
+            <FormControl>
+              <Input
+                type="number"
+                {...field}
+                value={field.value || ""}
+                onChange={e => field.onChange(parseNumber(e.target.value))}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
+
+export function SmtpConfigFields({ form }: ConfigFieldsProps) {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="smtpConfig.host"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Host</FormLabel>
+              <FormControl>
+                <Input placeholder="mail.example.com" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="smtpConfig.port"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Port</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  {...field}
+                  value={field.value || ""}
+                  onChange={e => field.onChange(parseNumber(e.target.value))}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={form.control}
+        name="smtpConfig.secure"
+        render={({ field }) => (
+          <FormItem className="flex flex-row items-center justify-between">
+            <div className="space-y-0.5">
+              <FormLabel>Implicit TLS</FormLabel>
+              <FormDescription>Connect over TLS from the start, usually on port 465</FormDescription>
+            </div>
+            <FormControl>
+              <Switch checked={field.value} onCheckedChange={field.onChange} />
+            </FormControl>
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="smtpConfig.requireStartTls"
+        render={({ field }) => (
+          <FormItem className="flex flex-row items-center justify-between">
+            <div className="space-y-0.5">
+              <FormLabel>Require STARTTLS</FormLabel>
+              <FormDescription>Fail if the server doesn&apos;t offer STARTTLS or the upgrade fails</FormDescription>
+            </div>
+            <FormControl>
+              <Switch checked={field.value} onCheckedChange={field.onChange} />
+            </FormControl>
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
+
+export function TlsConfigFields({ form }: ConfigFieldsProps) {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="tlsConfig.host"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Host</FormLabel>
+              <FormControl>
+                <Input placeholder="example.com" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="tlsConfig.port"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Port</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  {...field}
+                  value={field.value || ""}
+                  onChange={e => field.onChange(parseNumber(e.target.value))}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="tlsConfig.expiryThresholdDays"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Alert Before Expiry (days)</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  {...field}
+                  value={field.value || ""}
+                  onChange={e => field.onChange(parseNumber(e.target.value))}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="tlsConfig.servername"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>SNI Server Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Defaults to the host" {...field} value={field.value || ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </>
+  );
+}
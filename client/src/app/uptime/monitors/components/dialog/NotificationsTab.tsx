@@ -1,5 +1,55 @@
 import React from "react";
+import Link from "next/link";
+import { UseFormReturn } from "react-hook-form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useEscalationPolicies } from "@/api/uptime/escalationPolicies";
+import { CreateMonitorFormData, UpdateMonitorFormData } from "../monitorSchemas";
 
-export function NotificationsTab() {
-  return <div className="text-neutral-500 text-sm">Notification settings will be available in a future update.</div>;
+interface NotificationsTabProps {
+  form: UseFormReturn<CreateMonitorFormData | UpdateMonitorFormData>;
+}
+
+const NO_POLICY = "none";
+
+export function NotificationsTab({ form }: NotificationsTabProps) {
+  const { data } = useEscalationPolicies();
+
+  return (
+    <FormField
+      control={form.control}
+      name="escalationPolicyId"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Escalation Policy</FormLabel>
+          <Select
+            value={field.value ? field.value.toString() : NO_POLICY}
+            onValueChange={value => field.onChange(value === NO_POLICY ? null : parseInt(value, 10))}
+          >
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value={NO_POLICY}>None - notify all matching channels once</SelectItem>
+              {data?.escalationPolicies?.map(policy => (
+                <SelectItem key={policy.id} value={policy.id.toString()}>
+                  {policy.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormDescription>
+            Policies re-notify and escalate until someone acknowledges the incident. Manage them under{" "}
+            <Link href="/uptime/escalation" className="underline">
+              Escalation
+            </Link>
+            .
+          </FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
 }
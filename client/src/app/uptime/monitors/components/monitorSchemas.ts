@@ -44,6 +44,87 @@ const tcpConfigSchema = z.object({
   timeoutMs: z.number().int().min(1000).max(300000),
 });
 
+const hostSchema = z
+  .string()
+  .trim()
+  .min(1, "Host is required")
+  .regex(/^[a-zA-Z0-9_][a-zA-Z0-9_.:-]*$/, "Enter a hostname or IP address");
+
+const portSchema = z.number().int().min(1, "Invalid port").max(65535, "Port must be between 1 and 65535");
+
+export const DNS_RECORD_TYPES = ["A", "AAAA", "CNAME", "MX", "TXT", "NS", "SOA"] as const;
+
+// DNS config schema
+const dnsConfigSchema = z.object({
+  hostname: hostSchema,
+  recordType: z.enum(DNS_RECORD_TYPES),
+  expectedValue: z.string().max(1024).optional(),
+  resolver: z.string().ip("Resolver must be an IP address").optional().or(z.literal("")),
+  timeoutMs: z.number().int().min(1000).max(60000),
+});
+
+// Ping config schema
+const pingConfigSchema = z.object({
+  host: hostSchema,
+  packetCount: z.number().int().min(1).max(10),
+  timeoutMs: z.number().int().min(1000).max(60000),
+});
+
+// SMTP config schema
+const smtpConfigSchema = z.object({
+  host: hostSchema,
+  port: portSchema,
+  secure: z.boolean(),
+  requireStartTls: z.boolean(),
+  timeoutMs: z.number().int().min(1000).max(300000),
+});
+
+// TLS certificate config schema
+const tlsConfigSchema = z.object({
+  host: hostSchema,
+  port: portSchema,
+  servername: z.string().max(253).optional(),
+  expiryThresholdDays: z.number().int().min(1, "At least 1 day").max(365),
+  timeoutMs: z.number().int().min(1000).max(300000),
+});
+
+export const MULTISTEP_MAX_STEPS = 10;
+
+const multistepStepSchema = z.object({
+  name: z.string().trim().min(1, "Step name is required").max(100),
+  // Placeholders like {{token}} can appear anywhere in the URL, so only the scheme is checked
+  url: z.string().regex(/^https?:\/\//i, "URL must start with http:// or https://"),
+  method: httpMethodSchema,
+  headers: z.record(z.string()).optional(),
+  body: z.string().optional(),
+  timeoutMs: z.number().int().min(1000).max(300000).optional(),
+  extract: z.array(
+    z.object({
+      name: z.string().regex(/^[\w.-]{1,64}$/, "Use letters, numbers, dots, dashes and underscores"),
+      source: z.enum(["json", "header", "regex"]),
+      expression: z.string().min(1, "Expression is required").max(512),
+    })
+  ),
+  validationRules: z.array(z.any()),
+});
+
+// Multi-step config schema
+const multistepConfigSchema = z.object({
+  steps: z.array(multistepStepSchema).min(1, "Add at least one step").max(MULTISTEP_MAX_STEPS),
+  followRedirects: z.boolean(),
+  userAgent: z.string().max(256).optional(),
+});
+
+// Degraded thresholds, a monitor is degraded while checks pass but any of these is crossed
+const degradedConfigSchema = z
+  .object({
+    responseTimeP95Ms: z.number().int().min(1).max(300000).optional(),
+    responseTimeWindowMinutes: z.number().int().min(5).max(1440).optional(),
+    partialRegionFailure: z.boolean().optional(),
+    warningRules: z.array(z.any()).optional(),
+  })
+  .nullable();
+
 // Partial schemas for updates
 const partialHttpConfigSchema = z.object({
   url: z.string().url("Please enter a valid URL").optional(),
@@ -68,14 +149,22 @@ export const createMonitorSchema = z
   .object({
     organizationId: z.string().min(1, "Organization is required"),
     name: z.string().max(256).optional(), // Made optional
-    monitorType: z.enum(["http", "tcp"]),
+    monitorType: z.enum(["http", "tcp", "dns", "ping", "smtp", "tls", "multistep"]),
     intervalSeconds: z.number().int().min(30).max(86400),
     enabled: z.boolean(),
     httpConfig: httpConfigSchema.optional(),
     tcpConfig: tcpConfigSchema.optional(),
+    dnsConfig: dnsConfigSchema.optional(),
+    pingConfig: pingConfigSchema.optional(),
+    smtpConfig: smtpConfigSchema.optional(),
+    tlsConfig: tlsConfigSchema.optional(),
+    multistepConfig: multistepConfigSchema.optional(),
     validationRules: z.array(z.any()).optional(),
     monitoringType: z.enum(["local", "global"]).optional(),
     selectedRegions: z.array(z.string()).optional(),
+    tags: z.array(z.string()).optional(),
+    escalationPolicyId: z.number().nullable().optional(),
+    degradedConfig: degradedConfigSchema.optional(),
   })
   .refine(
     data => {
@@ -85,6 +174,21 @@ export const createMonitorSchema = z
       if (data.monitorType === "tcp") {
         return data.tcpConfig !== undefined && data.tcpConfig.host !== "";
       }
+      if (data.monitorType === "dns") {
+        return data.dnsConfig !== undefined;
+      }
+      if (data.monitorType === "ping") {
+        return data.pingConfig !== undefined;
+      }
+      if (data.monitorType === "smtp") {
+        return data.smtpConfig !== undefined;
+      }
+      if (data.monitorType === "tls") {
+        return data.tlsConfig !== undefined;
+      }
+      if (data.monitorType === "multistep") {
+        return data.multistepConfig !== undefined;
+      }
       return false;
     },
     {
@@ -110,11 +214,20 @@ export const updateMonitorSchema = z.object({
   enabled: z.boolean().optional(),
   httpConfig: partialHttpConfigSchema.optional(),
   tcpConfig: partialTcpConfigSchema.optional(),
+  dnsConfig: dnsConfigSchema.optional(),
+  pingConfig: pingConfigSchema.optional(),
+  smtpConfig: smtpConfigSchema.optional(),
+  tlsConfig: tlsConfigSchema.optional(),
+  multistepConfig: multistepConfigSchema.optional(),
   validationRules: z.array(z.any()).optional(),
   monitoringType: z.enum(["local", "global"]).optional(),
   selectedRegions: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  escalationPolicyId: z.number().nullable().optional(),
+  degradedConfig: degradedConfigSchema.optional(),
 });
 
 // Type exports
 export type CreateMonitorFormData = z.infer<typeof createMonitorSchema>;
 export type UpdateMonitorFormData = z.infer<typeof updateMonitorSchema>;
+export type MultistepStepFormData = z.infer<typeof multistepStepSchema>;
@@ -1,3 +1,4 @@
+import { MonitorType, UptimeMonitor } from "@/api/uptime/monitors";
 import { TimeRange } from "./uptimeStore";
 
 export const getHoursFromTimeRange = (timeRange: TimeRange) => {
@@ -30,3 +31,35 @@ export const getHoursFromTimeRange = (timeRange: TimeRange) => {
       return 24;
   }
 };
+
+export const MONITOR_TYPE_LABELS: Record<MonitorType, string> = {
+  http: "HTTP/HTTPS",
+  tcp: "TCP Port",
+  dns: "DNS",
+  ping: "Ping (ICMP)",
+  smtp: "SMTP",
+  tls: "TLS Certificate",
+  multistep: "Multi-step API",
+};
+
+// What a monitor checks, e.g. its URL or "example.com:443"
+export const getMonitorTarget = (monitor: UptimeMonitor) => {
+  switch (monitor.monitorType) {
+    case "http":
+      return monitor.httpConfig?.url || "";
+    case "dns":
+      return `${monitor.dnsConfig?.hostname} (${monitor.dnsConfig?.recordType})`;
+    case "ping":
+      return monitor.pingConfig?.host || "";
+    case "smtp":
+      return `${monitor.smtpConfig?.host}:${monitor.smtpConfig?.port}`;
+    case "tls":
+      return `${monitor.tlsConfig?.host}:${monitor.tlsConfig?.port}`;
+    case "multistep": {
+      const steps = monitor.multistepConfig?.steps ?? [];
+      return steps.length > 1 ? `${steps[0].url} (+${steps.length - 1} steps)` : steps[0]?.url || "";
+    }
+    default:
+      return `${monitor.tcpConfig?.host}:${monitor.tcpConfig?.port}`;
+  }
+};
@@ -0,0 +1,74 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DateTime } from "luxon";
+import { NotificationChannel, useChannelDeliveries } from "@/api/uptime/notifications";
+
+interface DeliveriesDialogProps {
+  channel: NotificationChannel | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function DeliveriesDialog({ channel, onOpenChange }: DeliveriesDialogProps) {
+  const { data, isLoading } = useChannelDeliveries(channel?.id ?? null);
+
+  return (
+    <Dialog open={!!channel} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Recent deliveries{channel && ` · ${channel.name}`}</DialogTitle>
+        </DialogHeader>
+        {data?.deliveries?.length === 0 && !isLoading ? (
+          <p className="p-8 text-center text-sm text-neutral-500">Nothing has been sent through this channel yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Response</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading
+                ? Array.from({ length: 3 }).map((_, i) => (
+                    <TableRow key={`skeleton-${i}`}>
+                      <TableCell colSpan={5}>
+                        <Skeleton className="h-4 w-full" />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                : data?.deliveries?.map(delivery => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="text-sm text-neutral-400 whitespace-nowrap">
+                        {DateTime.fromSQL(delivery.createdAt, { zone: "utc" }).toLocal().toFormat("MMM dd, HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="capitalize">{delivery.eventType}</TableCell>
+                      <TableCell>
+                        {delivery.status === "success" ? (
+                          <Badge variant="success">Delivered</Badge>
+                        ) : (
+                          <Badge variant="destructive">Failed</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{delivery.attempts}</TableCell>
+                      <TableCell
+                        className="text-sm text-neutral-500 max-w-[280px] truncate"
+                        title={delivery.error ?? ""}
+                      >
+                        {delivery.error ?? delivery.responseStatus ?? "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
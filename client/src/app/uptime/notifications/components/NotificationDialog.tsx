@@ -4,15 +4,18 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 import { useNotificationsStore } from "../notificationsStore";
 import { NotificationChannel, useCreateChannel, useUpdateChannel } from "@/api/uptime/notifications";
-import { CHANNEL_CONFIG } from "../constants";
+import { CHANNEL_CONFIG, TRIGGER_EVENT_OPTIONS } from "../constants";
 import { useForm } from "react-hook-form";
 import { useEffect, useState } from "react";
 import * as React from "react";
 import { useMonitors } from "@/api/uptime/monitors";
 import { MultiSelect } from "@/components/ui/multi-select";
+import { getMonitorTarget } from "@/app/uptime/monitors/components/utils";
 
 type FormData = {
   name: string;
@@ -21,8 +24,65 @@ type FormData = {
   slackWebhookUrl?: string;
   slackChannel?: string;
   phoneNumber?: string;
+  webhookSecret?: string;
+  webhookTemplate?: string;
+  webhookHeaders?: string;
+  pagerDutyRoutingKey?: string;
+  opsgenieApiKey?: string;
+  opsgenieRegion?: "us" | "eu";
+  teamsWebhookUrl?: string;
+  telegramBotToken?: string;
+  telegramChatId?: string;
+  mattermostWebhookUrl?: string;
+  ntfyTopicUrl?: string;
+  ntfyToken?: string;
+  ntfyPriority?: string;
 };
 
+const DEFAULT_VALUES: FormData = {
+  name: "",
+  email: "",
+  webhookUrl: "",
+  slackWebhookUrl: "",
+  slackChannel: "",
+  phoneNumber: "",
+  webhookSecret: "",
+  webhookTemplate: "",
+  webhookHeaders: "",
+  pagerDutyRoutingKey: "",
+  opsgenieApiKey: "",
+  opsgenieRegion: "us",
+  teamsWebhookUrl: "",
+  telegramBotToken: "",
+  telegramChatId: "",
+  mattermostWebhookUrl: "",
+  ntfyTopicUrl: "",
+  ntfyToken: "",
+  ntfyPriority: "",
+};
+
+const DEFAULT_TRIGGER_EVENTS = ["down", "recovery"];
+
+// Headers are edited as one "Name: value" pair per line
+const parseHeaders = (value: string) =>
+  Object.fromEntries(
+    value
+      .split("\n")
+      .filter(line => line.includes(":"))
+      .map(line => [line.slice(0, line.indexOf(":")).trim(), line.slice(line.indexOf(":") + 1).trim()])
+      .filter(([name, headerValue]) => name && headerValue)
+  );
+
+const formatHeaders = (headers?: Record<string, string>) =>
+  Object.entries(headers ?? {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
+
+const WEBHOOK_TEMPLATE_PLACEHOLDER = `{
+  "text": "{{monitor.name}} is {{event}}",
+  "error": "{{incident.error}}"
+}`;
+
 export function NotificationDialog() {
   const createChannel = useCreateChannel();
   const updateChannel = useUpdateChannel();
@@ -35,6 +95,7 @@ export function NotificationDialog() {
   } = useNotificationsStore();
   const { data: monitorsData, isLoading: monitorsLoading } = useMonitors({ enabled: true });
   const [selectedMonitorIds, setSelectedMonitorIds] = useState<string[]>([]);
+  const [triggerEvents, setTriggerEvents] = useState<string[]>(DEFAULT_TRIGGER_EVENTS);
 
   const {
     register,
@@ -42,16 +103,10 @@ export function NotificationDialog() {
     formState: { errors, isValid },
     reset,
     watch,
+    setValue,
   } = useForm<FormData>({
     mode: "onChange",
-    defaultValues: {
-      name: "",
-      email: "",
-      webhookUrl: "",
-      slackWebhookUrl: "",
-      slackChannel: "",
-      phoneNumber: "",
-    },
+    defaultValues: DEFAULT_VALUES,
   });
 
   // Reset form when dialog closes or populate with editing data
@@ -59,17 +114,33 @@ export function NotificationDialog() {
     if (!isDialogOpen) {
       reset();
       setSelectedMonitorIds([]);
+      setTriggerEvents(DEFAULT_TRIGGER_EVENTS);
     } else if (editingChannel) {
+      const config = editingChannel.config ?? {};
       // Populate form with existing channel data
       reset({
         name: editingChannel.name,
-        email: editingChannel.config?.email || "",
-        webhookUrl: editingChannel.config?.webhookUrl || "",
-        slackWebhookUrl: editingChannel.config?.slackWebhookUrl || "",
-        slackChannel: editingChannel.config?.slackChannel || "",
-        phoneNumber: editingChannel.config?.phoneNumber || "",
+        email: config.email || "",
+        webhookUrl: config.webhookUrl || "",
+        slackWebhookUrl: config.slackWebhookUrl || "",
+        slackChannel: config.slackChannel || "",
+        phoneNumber: config.phoneNumber || "",
+        webhookSecret: config.webhookSecret || "",
+        webhookTemplate: config.webhookTemplate || "",
+        webhookHeaders: formatHeaders(config.webhookHeaders),
+        pagerDutyRoutingKey: config.pagerDutyRoutingKey || "",
+        opsgenieApiKey: config.opsgenieApiKey || "",
+        opsgenieRegion: config.opsgenieRegion || "us",
+        teamsWebhookUrl: config.teamsWebhookUrl || "",
+        telegramBotToken: config.telegramBotToken || "",
+        telegramChatId: config.telegramChatId || "",
+        mattermostWebhookUrl: config.mattermostWebhookUrl || "",
+        ntfyTopicUrl: config.ntfyTopicUrl || "",
+        ntfyToken: config.ntfyToken || "",
+        ntfyPriority: config.ntfyPriority?.toString() || "",
       });
       setSelectedMonitorIds(editingChannel.monitorIds?.map(id => id.toString()) || []);
+      setTriggerEvents(editingChannel.triggerEvents ?? DEFAULT_TRIGGER_EVENTS);
     }
   }, [isDialogOpen, editingChannel, reset]);
 
@@ -77,11 +148,7 @@ export function NotificationDialog() {
     if (!monitorsData) return [];
     return monitorsData.map(monitor => ({
       value: monitor.id.toString(),
-      label:
-        monitor.name ||
-        (monitor.monitorType === "http"
-          ? monitor.httpConfig?.url || "HTTP Monitor"
-          : `${monitor.tcpConfig?.host}:${monitor.tcpConfig?.port}` || "TCP Monitor"),
+      label: monitor.name || getMonitorTarget(monitor),
     }));
   }, [monitorsData]);
 
@@ -95,6 +162,30 @@ export function NotificationDialog() {
       if (data.slackChannel) config.slackChannel = data.slackChannel;
     }
     if (selectedType === "sms" && data.phoneNumber) config.phoneNumber = data.phoneNumber;
+    if (selectedType === "webhook") {
+      if (data.webhookUrl) config.webhookUrl = data.webhookUrl;
+      if (data.webhookSecret) config.webhookSecret = data.webhookSecret;
+      if (data.webhookTemplate?.trim()) config.webhookTemplate = data.webhookTemplate;
+      if (data.webhookHeaders?.trim()) config.webhookHeaders = parseHeaders(data.webhookHeaders);
+    }
+    if (selectedType === "pagerduty" && data.pagerDutyRoutingKey) config.pagerDutyRoutingKey = data.pagerDutyRoutingKey;
+    if (selectedType === "opsgenie") {
+      if (data.opsgenieApiKey) config.opsgenieApiKey = data.opsgenieApiKey;
+      config.opsgenieRegion = data.opsgenieRegion || "us";
+    }
+    if (selectedType === "teams" && data.teamsWebhookUrl) config.teamsWebhookUrl = data.teamsWebhookUrl;
+    if (selectedType === "telegram") {
+      if (data.telegramBotToken) config.telegramBotToken = data.telegramBotToken;
+      if (data.telegramChatId) config.telegramChatId = data.telegramChatId;
+    }
+    if (selectedType === "mattermost" && data.mattermostWebhookUrl) {
+      config.mattermostWebhookUrl = data.mattermostWebhookUrl;
+    }
+    if (selectedType === "ntfy") {
+      if (data.ntfyTopicUrl) config.ntfyTopicUrl = data.ntfyTopicUrl;
+      if (data.ntfyToken) config.ntfyToken = data.ntfyToken;
+      if (data.ntfyPriority) config.ntfyPriority = parseInt(data.ntfyPriority, 10);
+    }
 
     try {
       const monitorIds = selectedMonitorIds.length > 0 ? selectedMonitorIds.map(id => parseInt(id, 10)) : null;
@@ -106,6 +197,7 @@ export function NotificationDialog() {
             name: data.name,
             config,
             monitorIds,
+            triggerEvents,
           },
         });
         toast.success("Notification channel updated");
@@ -115,6 +207,7 @@ export function NotificationDialog() {
           name: data.name,
           config,
           monitorIds,
+          triggerEvents,
         });
         toast.success("Notification channel created");
       }
@@ -122,8 +215,15 @@ export function NotificationDialog() {
       resetStoreForm();
       reset();
       setSelectedMonitorIds([]);
+      setTriggerEvents(DEFAULT_TRIGGER_EVENTS);
     } catch (error) {
-      toast.error(editingChannel ? "Failed to update channel" : "Failed to create channel");
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : editingChannel
+            ? "Failed to update channel"
+            : "Failed to create channel"
+      );
     }
   };
 
@@ -141,6 +241,20 @@ export function NotificationDialog() {
         return !!values.slackWebhookUrl?.trim();
       case "sms":
         return !!values.phoneNumber?.trim();
+      case "webhook":
+        return !!values.webhookUrl?.trim();
+      case "pagerduty":
+        return !!values.pagerDutyRoutingKey?.trim();
+      case "opsgenie":
+        return !!values.opsgenieApiKey?.trim();
+      case "teams":
+        return !!values.teamsWebhookUrl?.trim();
+      case "telegram":
+        return !!values.telegramBotToken?.trim() && !!values.telegramChatId?.trim();
+      case "mattermost":
+        return !!values.mattermostWebhookUrl?.trim();
+      case "ntfy":
+        return !!values.ntfyTopicUrl?.trim();
       default:
         return false;
     }
@@ -151,7 +265,7 @@ export function NotificationDialog() {
 
   return (
     <Dialog open={isDialogOpen} onOpenChange={closeDialog}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-3">
             {Icon && <Icon />}
@@ -255,6 +369,190 @@ export function NotificationDialog() {
             </div>
           )}
 
+          {selectedType === "webhook" && (
+            <>
+              <div>
+                <Label htmlFor="webhookUrl">Webhook URL</Label>
+                <Input
+                  id="webhookUrl"
+                  placeholder="https://example.com/hooks/rybbit"
+                  {...register("webhookUrl", {
+                    required: "Webhook URL is required",
+                    pattern: { value: /^https?:\/\/.+/, message: "Invalid webhook URL" },
+                  })}
+                />
+                {errors.webhookUrl && <p className="text-sm text-red-500 mt-1">{errors.webhookUrl.message}</p>}
+              </div>
+              <div>
+                <Label htmlFor="webhookSecret">Signing secret (optional)</Label>
+                <Input id="webhookSecret" type="password" autoComplete="off" {...register("webhookSecret")} />
+                <p className="text-xs text-neutral-500 mt-1">
+                  Requests are signed with X-Rybbit-Signature: sha256=HMAC(secret, &quot;timestamp.body&quot;), where
+                  timestamp is the X-Rybbit-Timestamp header
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="webhookTemplate">Body template (optional)</Label>
+                <Textarea
+                  id="webhookTemplate"
+                  rows={4}
+                  className="font-mono text-xs"
+                  placeholder={WEBHOOK_TEMPLATE_PLACEHOLDER}
+                  {...register("webhookTemplate")}
+                />
+                <p className="text-xs text-neutral-500 mt-1">
+                  Leave empty to send the default JSON payload. Placeholders: event, key, monitor.id, monitor.name,
+                  monitor.type, monitor.target, incident.id, incident.region, incident.startTime, incident.endTime,
+                  incident.error, acknowledgeUrl
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="webhookHeaders">Extra headers (optional)</Label>
+                <Textarea
+                  id="webhookHeaders"
+                  rows={2}
+                  className="font-mono text-xs"
+                  placeholder="Authorization: Bearer token"
+                  {...register("webhookHeaders")}
+                />
+              </div>
+            </>
+          )}
+
+          {selectedType === "pagerduty" && (
+            <div>
+              <Label htmlFor="pagerDutyRoutingKey">Integration Key</Label>
+              <Input
+                id="pagerDutyRoutingKey"
+                autoComplete="off"
+                {...register("pagerDutyRoutingKey", { required: "Integration key is required" })}
+              />
+              <p className="text-xs text-neutral-500 mt-1">
+                Add an Events API v2 integration to a PagerDuty service and copy its integration key
+              </p>
+            </div>
+          )}
+
+          {selectedType === "opsgenie" && (
+            <>
+              <div>
+                <Label htmlFor="opsgenieApiKey">API Key</Label>
+                <Input
+                  id="opsgenieApiKey"
+                  type="password"
+                  autoComplete="off"
+                  {...register("opsgenieApiKey", { required: "API key is required" })}
+                />
+                <p className="text-xs text-neutral-500 mt-1">Use the key of an API integration in Opsgenie</p>
+              </div>
+              <div>
+                <Label>Region</Label>
+                <Select
+                  value={watch("opsgenieRegion") || "us"}
+                  onValueChange={value => setValue("opsgenieRegion", value as "us" | "eu")}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="us">US (api.opsgenie.com)</SelectItem>
+                    <SelectItem value="eu">EU (api.eu.opsgenie.com)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          {selectedType === "teams" && (
+            <div>
+              <Label htmlFor="teamsWebhookUrl">Teams Webhook URL</Label>
+              <Input
+                id="teamsWebhookUrl"
+                placeholder="https://example.webhook.office.com/..."
+                {...register("teamsWebhookUrl", {
+                  required: "Teams webhook URL is required",
+                  pattern: { value: /^https:\/\/.+/, message: "Invalid Teams webhook URL" },
+                })}
+              />
+              {errors.teamsWebhookUrl && <p className="text-sm text-red-500 mt-1">{errors.teamsWebhookUrl.message}</p>}
+            </div>
+          )}
+
+          {selectedType === "telegram" && (
+            <>
+              <div>
+                <Label htmlFor="telegramBotToken">Bot Token</Label>
+                <Input
+                  id="telegramBotToken"
+                  type="password"
+                  autoComplete="off"
+                  placeholder="123456:ABC-DEF..."
+                  {...register("telegramBotToken", { required: "Bot token is required" })}
+                />
+                <p className="text-xs text-neutral-500 mt-1">Create a bot with @BotFather</p>
+              </div>
+              <div>
+                <Label htmlFor="telegramChatId">Chat ID</Label>
+                <Input
+                  id="telegramChatId"
+                  placeholder="-1001234567890 or @channel"
+                  {...register("telegramChatId", { required: "Chat ID is required" })}
+                />
+              </div>
+            </>
+          )}
+
+          {selectedType === "mattermost" && (
+            <div>
+              <Label htmlFor="mattermostWebhookUrl">Mattermost Webhook URL</Label>
+              <Input
+                id="mattermostWebhookUrl"
+                placeholder="https://mattermost.example.com/hooks/..."
+                {...register("mattermostWebhookUrl", {
+                  required: "Mattermost webhook URL is required",
+                  pattern: { value: /^https?:\/\/.+\/hooks\/.+/, message: "Invalid Mattermost webhook URL" },
+                })}
+              />
+              {errors.mattermostWebhookUrl && (
+                <p className="text-sm text-red-500 mt-1">{errors.mattermostWebhookUrl.message}</p>
+              )}
+            </div>
+          )}
+
+          {selectedType === "ntfy" && (
+            <>
+              <div>
+                <Label htmlFor="ntfyTopicUrl">Topic URL</Label>
+                <Input
+                  id="ntfyTopicUrl"
+                  placeholder="https://ntfy.sh/my-alerts"
+                  {...register("ntfyTopicUrl", {
+                    required: "Topic URL is required",
+                    pattern: { value: /^https?:\/\/[^/]+\/.+/, message: "Topic URL must include the topic" },
+                  })}
+                />
+                {errors.ntfyTopicUrl && <p className="text-sm text-red-500 mt-1">{errors.ntfyTopicUrl.message}</p>}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="ntfyToken">Access token (optional)</Label>
+                  <Input id="ntfyToken" type="password" autoComplete="off" {...register("ntfyToken")} />
+                </div>
+                <div>
+                  <Label htmlFor="ntfyPriority">Priority (optional)</Label>
+                  <Input
+                    id="ntfyPriority"
+                    type="number"
+                    min={1}
+                    max={5}
+                    placeholder="1-5"
+                    {...register("ntfyPriority")}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
           {/* Monitor Selection */}
           <div className="space-y-2">
             <Label>Monitors</Label>
@@ -272,6 +570,19 @@ export function NotificationDialog() {
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <MultiSelect
+              options={TRIGGER_EVENT_OPTIONS}
+              value={triggerEvents}
+              onValueChange={setTriggerEvents}
+              placeholder="Select events..."
+            />
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">
+              Recoveries from degraded and SLO burn incidents are only sent if that event is selected too
+            </p>
+          </div>
+
           <div className="flex justify-end gap-2">
             <Button type="button" variant="outline" onClick={closeDialog}>
               Cancel
@@ -1,5 +1,13 @@
-import { Mail, Smartphone } from "lucide-react";
-import { SiDiscord, SiSlack } from "@icons-pack/react-simple-icons";
+import { Mail, MessageSquare, Smartphone, Webhook } from "lucide-react";
+import {
+  SiDiscord,
+  SiMattermost,
+  SiNtfy,
+  SiOpsgenie,
+  SiPagerduty,
+  SiSlack,
+  SiTelegram,
+} from "@icons-pack/react-simple-icons";
 
 export interface ChannelConfigItem {
   icon: typeof Mail;
@@ -29,4 +37,46 @@ export const CHANNEL_CONFIG: Record<string, ChannelConfigItem> = {
     title: "SMS",
     description: "Send notifications via SMS",
   },
+  webhook: {
+    icon: Webhook,
+    title: "Webhook",
+    description: "POST signed JSON to any URL",
+  },
+  pagerduty: {
+    icon: SiPagerduty,
+    title: "PagerDuty",
+    description: "Trigger and resolve PagerDuty incidents",
+  },
+  opsgenie: {
+    icon: SiOpsgenie,
+    title: "Opsgenie",
+    description: "Create and close Opsgenie alerts",
+  },
+  teams: {
+    icon: MessageSquare,
+    title: "Microsoft Teams",
+    description: "Send notifications to a Teams channel via webhook",
+  },
+  telegram: {
+    icon: SiTelegram,
+    title: "Telegram",
+    description: "Send notifications to a Telegram chat via bot",
+  },
+  mattermost: {
+    icon: SiMattermost,
+    title: "Mattermost",
+    description: "Send notifications to a Mattermost channel via webhook",
+  },
+  ntfy: {
+    icon: SiNtfy,
+    title: "ntfy",
+    description: "Push notifications to an ntfy topic",
+  },
 };
+
+export const TRIGGER_EVENT_OPTIONS = [
+  { value: "down", label: "Monitor down" },
+  { value: "degraded", label: "Monitor degraded" },
+  { value: "slo_burn", label: "SLO burn rate" },
+  { value: "recovery", label: "Recovery" },
+];
@@ -14,7 +14,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Switch } from "@/components/ui/switch";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { cn } from "@/lib/utils";
-import { Bell, Edit, MoreHorizontal, Power, Trash2 } from "lucide-react";
+import { Bell, Edit, History, MoreHorizontal, Power, Trash2 } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner";
 import {
@@ -25,12 +25,41 @@ import {
   useUpdateChannel,
 } from "../../../api/uptime/notifications";
 import { StandardPage } from "../../../components/StandardPage";
+import { DeliveriesDialog } from "./components/DeliveriesDialog";
 import { NotificationDialog } from "./components/NotificationDialog";
 import { CHANNEL_CONFIG } from "./constants";
 import { useNotificationsStore } from "./notificationsStore";
 
 type ChannelType = NotificationChannel["type"];
 
+const getChannelDetails = (channel: NotificationChannel) => {
+  const config = channel.config ?? {};
+  switch (channel.type) {
+    case "email":
+      return config.email;
+    case "discord":
+      return "Discord webhook";
+    case "slack":
+      return `Slack ${config.slackChannel || "webhook"}`;
+    case "sms":
+      return config.phoneNumber;
+    case "webhook":
+      return `${config.webhookUrl}${config.webhookSecret ? " (signed)" : ""}`;
+    case "pagerduty":
+      return "Events API v2";
+    case "opsgenie":
+      return `Opsgenie ${config.opsgenieRegion === "eu" ? "EU" : "US"}`;
+    case "teams":
+      return "Teams webhook";
+    case "telegram":
+      return `Chat ${config.telegramChatId}`;
+    case "mattermost":
+      return "Mattermost webhook";
+    case "ntfy":
+      return config.ntfyTopicUrl;
+  }
+};
+
 export default function NotificationsPage() {
   const { data, isLoading } = useNotificationChannels();
   const updateChannel = useUpdateChannel();
@@ -39,6 +68,7 @@ export default function NotificationsPage() {
   const { openDialog } = useNotificationsStore();
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [channelToDelete, setChannelToDelete] = useState<NotificationChannel | null>(null);
+  const [deliveriesChannel, setDeliveriesChannel] = useState<NotificationChannel | null>(null);
 
   const handleToggleChannel = async (channel: NotificationChannel) => {
     try {
@@ -166,7 +196,7 @@ export default function NotificationsPage() {
                       </TableRow>
                     ))
                   : data?.channels?.map(channel => {
-                      const config = CHANNEL_CONFIG[channel.type];
+                      const config = CHANNEL_CONFIG[channel.type] ?? CHANNEL_CONFIG.webhook;
                       const Icon = config.icon;
                       return (
                         <TableRow key={channel.id}>
@@ -183,14 +213,11 @@ export default function NotificationsPage() {
                           <TableCell>
                             <div className="flex items-center gap-2">
                               <Icon className="w-4 h-4" />
-                              <span className="capitalize">{channel.type}</span>
+                              <span>{config.title}</span>
                             </div>
                           </TableCell>
-                          <TableCell className="text-sm text-neutral-500">
-                            {channel.type === "email" && channel.config?.email}
-                            {channel.type === "discord" && "Discord webhook"}
-                            {channel.type === "slack" && `Slack ${channel.config?.slackChannel || "webhook"}`}
-                            {channel.type === "sms" && channel.config?.phoneNumber}
+                          <TableCell className="text-sm text-neutral-500 max-w-[320px] truncate">
+                            {getChannelDetails(channel)}
                           </TableCell>
                           <TableCell className="text-right">
                             <DropdownMenu>
@@ -212,6 +239,10 @@ export default function NotificationsPage() {
                                   <Bell className="mr-2 h-4 w-4" />
                                   Test
                                 </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setDeliveriesChannel(channel)}>
+                                  <History className="mr-2 h-4 w-4" />
+                                  Deliveries
+                                </DropdownMenuItem>
                                 <DropdownMenuItem onClick={() => openEditDialog(channel)}>
                                   <Edit className="mr-2 h-4 w-4" />
                                   Edit
@@ -233,6 +264,7 @@ export default function NotificationsPage() {
         )}
       </div>
       <NotificationDialog />
+      <DeliveriesDialog channel={deliveriesChannel} onOpenChange={open => !open && setDeliveriesChannel(null)} />
       <ConfirmationModal
         isOpen={deleteModalOpen}
         setIsOpen={setDeleteModalOpen}
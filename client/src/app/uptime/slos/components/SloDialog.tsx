@@ -0,0 +1,197 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useMonitors } from "@/api/uptime/monitors";
+import { Slo, SloInput, useCreateSlo, useUpdateSlo } from "@/api/uptime/slos";
+import { getMonitorTarget } from "../../monitors/components/utils";
+
+interface SloDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  slo?: Slo | null;
+}
+
+const getEmptyForm = () => ({
+  monitorId: "",
+  name: "",
+  targetPercentage: "99.9",
+  windowDays: "30",
+  burnRateThreshold: "14.4",
+  burnRateWindowMinutes: "60",
+  enabled: true,
+});
+
+export function SloDialog({ open, onOpenChange, slo }: SloDialogProps) {
+  const createSlo = useCreateSlo();
+  const updateSlo = useUpdateSlo();
+  const { data: monitorsData } = useMonitors();
+
+  const [form, setForm] = useState(getEmptyForm);
+
+  useEffect(() => {
+    if (!open) return;
+
+    if (slo) {
+      setForm({
+        monitorId: slo.monitorId.toString(),
+        name: slo.name,
+        targetPercentage: slo.targetPercentage.toString(),
+        windowDays: slo.windowDays.toString(),
+        burnRateThreshold: slo.burnRateThreshold.toString(),
+        burnRateWindowMinutes: slo.burnRateWindowMinutes.toString(),
+        enabled: slo.enabled,
+      });
+    } else {
+      setForm(getEmptyForm());
+    }
+  }, [open, slo]);
+
+  const handleSubmit = async () => {
+    const data: SloInput = {
+      monitorId: parseInt(form.monitorId, 10),
+      name: form.name.trim(),
+      targetPercentage: parseFloat(form.targetPercentage),
+      windowDays: parseInt(form.windowDays, 10),
+      burnRateThreshold: parseFloat(form.burnRateThreshold),
+      burnRateWindowMinutes: parseInt(form.burnRateWindowMinutes, 10),
+      enabled: form.enabled,
+    };
+
+    try {
+      if (slo) {
+        const { monitorId: _monitorId, ...updates } = data;
+        await updateSlo.mutateAsync({ id: slo.id, data: updates });
+        toast.success("SLO updated");
+      } else {
+        await createSlo.mutateAsync(data);
+        toast.success("SLO created");
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save SLO");
+    }
+  };
+
+  const isPending = createSlo.isPending || updateSlo.isPending;
+  const target = parseFloat(form.targetPercentage);
+  const isComplete = form.monitorId && form.name.trim() && target > 0 && target < 100;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{slo ? "Edit SLO" : "Create SLO"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="slo-name">Name</Label>
+            <Input
+              id="slo-name"
+              placeholder="API availability"
+              value={form.name}
+              onChange={e => setForm(current => ({ ...current, name: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Monitor</Label>
+            <Select
+              value={form.monitorId}
+              disabled={!!slo}
+              onValueChange={value => setForm(current => ({ ...current, monitorId: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a monitor" />
+              </SelectTrigger>
+              <SelectContent>
+                {(monitorsData ?? []).map(monitor => (
+                  <SelectItem key={monitor.id} value={monitor.id.toString()}>
+                    {monitor.name || getMonitorTarget(monitor)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="slo-target">Target (%)</Label>
+              <Input
+                id="slo-target"
+                type="number"
+                step="0.01"
+                min={0}
+                max={100}
+                value={form.targetPercentage}
+                onChange={e => setForm(current => ({ ...current, targetPercentage: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="slo-window">Window (days)</Label>
+              <Input
+                id="slo-window"
+                type="number"
+                min={1}
+                max={90}
+                value={form.windowDays}
+                onChange={e => setForm(current => ({ ...current, windowDays: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="slo-burn-rate">Alert at burn rate</Label>
+              <Input
+                id="slo-burn-rate"
+                type="number"
+                step="0.1"
+                min={1}
+                value={form.burnRateThreshold}
+                onChange={e => setForm(current => ({ ...current, burnRateThreshold: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="slo-burn-window">Over (minutes)</Label>
+              <Input
+                id="slo-burn-window"
+                type="number"
+                min={5}
+                max={1440}
+                value={form.burnRateWindowMinutes}
+                onChange={e => setForm(current => ({ ...current, burnRateWindowMinutes: e.target.value }))}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-neutral-500">
+            A burn rate of 1 spends the error budget exactly over the window. At 14.4 a 30 day budget is gone in about
+            two days. Alerts go to notification channels subscribed to SLO burn events.
+          </p>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="slo-enabled">Enabled</Label>
+            <Switch
+              id="slo-enabled"
+              checked={form.enabled}
+              onCheckedChange={checked => setForm(current => ({ ...current, enabled: checked }))}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isComplete || isPending}>
+            {isPending ? "Saving..." : slo ? "Save" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
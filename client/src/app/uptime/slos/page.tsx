@@ -0,0 +1,197 @@
+"use client";
+
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { Edit, MoreHorizontal, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useMonitors } from "../../../api/uptime/monitors";
+import { Slo, useDeleteSlo, useSlos } from "../../../api/uptime/slos";
+import { getMonitorTarget } from "../monitors/components/utils";
+import { SloDialog } from "./components/SloDialog";
+
+const getBudgetColor = (errorBudgetRemaining: number) => {
+  if (errorBudgetRemaining <= 0) return "text-red-400";
+  if (errorBudgetRemaining < 0.25) return "text-yellow-400";
+  return "text-green-400";
+};
+
+export default function SlosPage() {
+  const { data, isLoading } = useSlos();
+  const { data: monitorsData } = useMonitors();
+  const deleteSlo = useDeleteSlo();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSlo, setEditingSlo] = useState<Slo | null>(null);
+  const [deleteModalOpen, setDeleteModalOpen] = useState(false);
+  const [sloToDelete, setSloToDelete] = useState<Slo | null>(null);
+
+  const monitorNames = new Map(
+    (monitorsData ?? []).map(monitor => [monitor.id, monitor.name || getMonitorTarget(monitor)])
+  );
+
+  const openDialog = (slo: Slo | null) => {
+    setEditingSlo(slo);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!sloToDelete) return;
+
+    try {
+      await deleteSlo.mutateAsync(sloToDelete.id);
+      toast.success("SLO deleted");
+      setSloToDelete(null);
+    } catch (error) {
+      toast.error("Failed to delete SLO");
+      throw error; // Re-throw to show error in modal
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold">SLOs</h1>
+          <p className="text-sm text-neutral-500 mt-1">
+            Availability targets for your monitors, with alerts when the error budget burns too fast.
+          </p>
+        </div>
+        <Button variant="success" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4" />
+          Create SLO
+        </Button>
+      </div>
+
+      {data?.slos?.length === 0 && !isLoading ? (
+        <Card>
+          <CardContent className="p-8 text-center text-neutral-500">No SLOs yet</CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Monitor</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Attainment</TableHead>
+                <TableHead>Error budget</TableHead>
+                <TableHead>Burn rate</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading
+                ? Array.from({ length: 3 }).map((_, i) => (
+                    <TableRow key={`skeleton-${i}`}>
+                      {Array.from({ length: 6 }).map((_, j) => (
+                        <TableCell key={j}>
+                          <Skeleton className="h-4 w-20" />
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right">
+                        <Skeleton className="h-8 w-8 ml-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                : data?.slos?.map(slo => (
+                    <TableRow key={slo.id} className={cn(!slo.enabled && "opacity-50")}>
+                      <TableCell className="font-medium">{slo.name}</TableCell>
+                      <TableCell className="text-sm text-neutral-400">
+                        {monitorNames.get(slo.monitorId) ?? `#${slo.monitorId}`}
+                      </TableCell>
+                      <TableCell className="text-sm text-neutral-400">
+                        {slo.targetPercentage}% / {slo.windowDays}d
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {slo.status?.attainmentPercentage != null
+                          ? `${slo.status.attainmentPercentage.toFixed(3)}%`
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {slo.status?.errorBudgetRemaining != null ? (
+                          <span className={getBudgetColor(slo.status.errorBudgetRemaining)}>
+                            {(slo.status.errorBudgetRemaining * 100).toFixed(1)}% left
+                          </span>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {slo.status?.burnRate != null ? (
+                          <span className={cn(slo.status.burning ? "text-red-400" : "text-neutral-400")}>
+                            {slo.status.burnRate.toFixed(1)}x
+                          </span>
+                        ) : (
+                          "-"
+                        )}
+                        <span className="text-neutral-500"> (alert at {slo.burnRateThreshold}x)</span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                              <MoreHorizontal className="h-4 w-4" />
+                              <span className="sr-only">Open menu</span>
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => openDialog(slo)}>
+                              <Edit className="mr-2 h-4 w-4" />
+                              Edit
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              onClick={() => {
+                                setSloToDelete(slo);
+                                setDeleteModalOpen(true);
+                              }}
+                              className="text-red-600"
+                            >
+                              <Trash2 className="mr-2 h-4 w-4" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <SloDialog open={dialogOpen} onOpenChange={setDialogOpen} slo={editingSlo} />
+      <ConfirmationModal
+        isOpen={deleteModalOpen}
+        setIsOpen={setDeleteModalOpen}
+        onConfirm={handleDelete}
+        title="Delete SLO"
+        description={
+          sloToDelete ? (
+            <>
+              Are you sure you want to delete the SLO <strong>{sloToDelete.name}</strong>?
+            </>
+          ) : (
+            "Are you sure you want to delete this SLO?"
+          )
+        }
+        primaryAction={{
+          children: "Delete SLO",
+          variant: "destructive",
+        }}
+      />
+    </>
+  );
+}
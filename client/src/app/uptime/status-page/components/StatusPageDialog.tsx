@@ -0,0 +1,243 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MultiSelect } from "@/components/ui/multi-select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, Trash2 } from "lucide-react";
+import * as React from "react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useMonitors } from "@/api/uptime/monitors";
+import {
+  StatusPage,
+  StatusPageInput,
+  StatusPageMonitorGroup,
+  useCreateStatusPage,
+  useUpdateStatusPage,
+} from "@/api/uptime/statusPages";
+import { getMonitorTarget } from "@/app/uptime/monitors/components/utils";
+
+interface StatusPageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  statusPage?: StatusPage | null;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  slug: "",
+  description: "",
+  customDomain: "",
+  logoUrl: "",
+  visibility: "public" as StatusPage["visibility"],
+};
+
+const toSlug = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export function StatusPageDialog({ open, onOpenChange, statusPage }: StatusPageDialogProps) {
+  const createStatusPage = useCreateStatusPage();
+  const updateStatusPage = useUpdateStatusPage();
+  const { data: monitorsData } = useMonitors();
+
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [groups, setGroups] = useState<StatusPageMonitorGroup[]>([{ name: "Services", monitorIds: [] }]);
+  const [slugEdited, setSlugEdited] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    if (statusPage) {
+      setForm({
+        name: statusPage.name,
+        slug: statusPage.slug,
+        description: statusPage.description ?? "",
+        customDomain: statusPage.customDomain ?? "",
+        logoUrl: statusPage.logoUrl ?? "",
+        visibility: statusPage.visibility,
+      });
+      setGroups(
+        statusPage.monitorGroups.length > 0 ? statusPage.monitorGroups : [{ name: "Services", monitorIds: [] }]
+      );
+      setSlugEdited(true);
+    } else {
+      setForm(EMPTY_FORM);
+      setGroups([{ name: "Services", monitorIds: [] }]);
+      setSlugEdited(false);
+    }
+  }, [open, statusPage]);
+
+  const monitorOptions = React.useMemo(() => {
+    if (!monitorsData) return [];
+    return monitorsData.map(monitor => ({
+      value: monitor.id.toString(),
+      label: monitor.name || getMonitorTarget(monitor),
+    }));
+  }, [monitorsData]);
+
+  const updateGroup = (index: number, group: Partial<StatusPageMonitorGroup>) => {
+    setGroups(current => current.map((existing, i) => (i === index ? { ...existing, ...group } : existing)));
+  };
+
+  const handleSubmit = async () => {
+    const data: StatusPageInput = {
+      name: form.name.trim(),
+      slug: form.slug,
+      description: form.description.trim() || null,
+      customDomain: form.customDomain.trim() || null,
+      logoUrl: form.logoUrl.trim() || null,
+      visibility: form.visibility,
+      monitorGroups: groups.filter(group => group.name.trim() && group.monitorIds.length > 0),
+    };
+
+    try {
+      if (statusPage) {
+        await updateStatusPage.mutateAsync({ id: statusPage.id, data });
+        toast.success("Status page updated");
+      } else {
+        await createStatusPage.mutateAsync(data);
+        toast.success("Status page created");
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save status page");
+    }
+  };
+
+  const isPending = createStatusPage.isPending || updateStatusPage.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{statusPage ? "Edit status page" : "Create status page"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="status-page-name">Name</Label>
+              <Input
+                id="status-page-name"
+                placeholder="Acme Status"
+                value={form.name}
+                onChange={e => {
+                  const name = e.target.value;
+                  setForm(current => ({ ...current, name, slug: slugEdited ? current.slug : toSlug(name) }));
+                }}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="status-page-slug">Slug</Label>
+              <Input
+                id="status-page-slug"
+                placeholder="acme"
+                value={form.slug}
+                onChange={e => {
+                  setSlugEdited(true);
+                  setForm(current => ({ ...current, slug: toSlug(e.target.value) }));
+                }}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="status-page-domain">Custom domain</Label>
+              <Input
+                id="status-page-domain"
+                placeholder="status.example.com"
+                value={form.customDomain}
+                onChange={e => setForm(current => ({ ...current, customDomain: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="status-page-logo">Logo URL</Label>
+              <Input
+                id="status-page-logo"
+                placeholder="https://example.com/logo.svg"
+                value={form.logoUrl}
+                onChange={e => setForm(current => ({ ...current, logoUrl: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="status-page-description">Description</Label>
+            <Textarea
+              id="status-page-description"
+              rows={2}
+              value={form.description}
+              onChange={e => setForm(current => ({ ...current, description: e.target.value }))}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="status-page-public">Public</Label>
+              <p className="text-xs text-neutral-500">Private pages are only visible to members of your organization</p>
+            </div>
+            <Switch
+              id="status-page-public"
+              checked={form.visibility === "public"}
+              onCheckedChange={checked =>
+                setForm(current => ({ ...current, visibility: checked ? "public" : "private" }))
+              }
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Monitor groups</Label>
+            {groups.map((group, index) => (
+              <div key={index} className="flex gap-2 items-start">
+                <Input
+                  className="w-48 shrink-0"
+                  placeholder="Group name"
+                  value={group.name}
+                  onChange={e => updateGroup(index, { name: e.target.value })}
+                />
+                <MultiSelect
+                  className="flex-1"
+                  options={monitorOptions}
+                  value={group.monitorIds.map(id => id.toString())}
+                  onValueChange={values => updateGroup(index, { monitorIds: values.map(value => parseInt(value, 10)) })}
+                  placeholder="Select monitors"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-9 w-9 p-0"
+                  disabled={groups.length === 1}
+                  onClick={() => setGroups(current => current.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setGroups(current => [...current, { name: "", monitorIds: [] }])}
+            >
+              <Plus className="h-4 w-4" />
+              Add group
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!form.name.trim() || form.slug.length < 2 || isPending}>
+            {isPending ? "Saving..." : statusPage ? "Save" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,170 @@
+"use client";
+
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, ExternalLink, MoreHorizontal, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { StatusPage as StatusPageType, useDeleteStatusPage, useStatusPages } from "../../../api/uptime/statusPages";
+import { StatusPageDialog } from "./components/StatusPageDialog";
+
 export default function StatusPage() {
+  const { data, isLoading } = useStatusPages();
+  const deleteStatusPage = useDeleteStatusPage();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingStatusPage, setEditingStatusPage] = useState<StatusPageType | null>(null);
+  const [deleteModalOpen, setDeleteModalOpen] = useState(false);
+  const [statusPageToDelete, setStatusPageToDelete] = useState<StatusPageType | null>(null);
+
+  const openDialog = (statusPage: StatusPageType | null) => {
+    setEditingStatusPage(statusPage);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!statusPageToDelete) return;
+
+    try {
+      await deleteStatusPage.mutateAsync(statusPageToDelete.id);
+      toast.success("Status page deleted");
+      setStatusPageToDelete(null);
+    } catch (error) {
+      toast.error("Failed to delete status page");
+      throw error; // Re-throw to show error in modal
+    }
+  };
+
   return (
-    <div className="flex items-center justify-between">
-      <div>
-        <h1 className="text-2xl font-semibold">Uptime Monitoring</h1>
-        <p className="text-sm text-neutral-500 mt-1">Monitor the availability and performance of your endpoints</p>
+    <>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Status Pages</h1>
+          <p className="text-sm text-neutral-500 mt-1">Share the current status and uptime history of your services</p>
+        </div>
+        <Button variant="success" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4" />
+          Create
+        </Button>
       </div>
-    </div>
+
+      {data?.statusPages?.length === 0 && !isLoading ? (
+        <Card>
+          <CardContent className="p-8 text-center text-neutral-500">No status pages created yet</CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead>Monitors</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading
+                ? Array.from({ length: 3 }).map((_, i) => (
+                    <TableRow key={`skeleton-${i}`}>
+                      <TableCell>
+                        <Skeleton className="h-4 w-32" />
+                      </TableCell>
+                      <TableCell>
+                        <Skeleton className="h-4 w-40" />
+                      </TableCell>
+                      <TableCell>
+                        <Skeleton className="h-4 w-12" />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Skeleton className="h-8 w-8 ml-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                : data?.statusPages?.map(statusPage => (
+                    <TableRow key={statusPage.id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {statusPage.name}
+                          {statusPage.visibility === "private" && (
+                            <span className="text-xs bg-neutral-800 text-neutral-400 px-2 py-0.5 rounded">Private</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-neutral-500">
+                        {statusPage.customDomain || `/status/${statusPage.slug}`}
+                      </TableCell>
+                      <TableCell className="text-sm text-neutral-500">
+                        {new Set(statusPage.monitorGroups.flatMap(group => group.monitorIds)).size}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                              <MoreHorizontal className="h-4 w-4" />
+                              <span className="sr-only">Open menu</span>
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => window.open(`/status/${statusPage.slug}`, "_blank")}>
+                              <ExternalLink className="mr-2 h-4 w-4" />
+                              View
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => openDialog(statusPage)}>
+                              <Edit className="mr-2 h-4 w-4" />
+                              Edit
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              onClick={() => {
+                                setStatusPageToDelete(statusPage);
+                                setDeleteModalOpen(true);
+                              }}
+                              className="text-red-600"
+                            >
+                              <Trash2 className="mr-2 h-4 w-4" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <StatusPageDialog open={dialogOpen} onOpenChange={setDialogOpen} statusPage={editingStatusPage} />
+      <ConfirmationModal
+        isOpen={deleteModalOpen}
+        setIsOpen={setDeleteModalOpen}
+        onConfirm={handleDelete}
+        title="Delete Status Page"
+        description={
+          statusPageToDelete ? (
+            <>
+              Are you sure you want to delete the status page <strong>{statusPageToDelete.name}</strong>? It will no
+              longer be reachable.
+            </>
+          ) : (
+            "Are you sure you want to delete this status page?"
+          )
+        }
+        primaryAction={{
+          children: "Delete Status Page",
+          variant: "destructive",
+        }}
+      />
+    </>
   );
 }
@@ -4,8 +4,11 @@ import { useEffect } from "react";
 import { redirect, usePathname } from "next/navigation";
 import { userStore } from "../lib/userStore";
 import { useGetSiteIsPublic } from "../api/admin/sites";
+import { isStatusPageDomain } from "../lib/statusPage";
 
 const publicRoutes = ["/login", "/signup", "/invitation", "/reset-password"];
+// Status pages are public; private ones are checked by the API instead
+const publicRoutePrefixes = ["/status/"];
 
 export function AuthenticationGuard() {
   const { user, isPending } = userStore();
@@ -24,7 +27,15 @@ export function AuthenticationGuard() {
     // 2. User is not logged in
     // 3. Not on a public route
     // 4. Not on a public site
-    if (!isPending && !isCheckingPublic && !user && !publicRoutes.includes(pathname) && !isPublicSite) {
+    if (
+      !isPending &&
+      !isCheckingPublic &&
+      !user &&
+      !publicRoutes.includes(pathname) &&
+      !publicRoutePrefixes.some(prefix => pathname.startsWith(prefix)) &&
+      !isStatusPageDomain(window.location.hostname) &&
+      !isPublicSite
+    ) {
       redirect("/login");
     }
   }, [isPending, user, pathname, isCheckingPublic, isPublicSite]);
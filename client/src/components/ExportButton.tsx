@@ -0,0 +1,81 @@
+"use client";
+
+import { FilterParameter } from "@rybbit/shared";
+import { Download } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useCurrentSite } from "../api/admin/sites";
+import { ExportFormat, ExportReport, exportReport } from "../api/analytics/exportReport";
+import { FunnelStep } from "../api/analytics/funnels/useGetFunnel";
+import { getQueryParams } from "../api/utils";
+import { isFilterAvailable, useStore } from "../lib/store";
+import { Button } from "./ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "./ui/dropdown-menu";
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "ndjson", label: "NDJSON" },
+  { value: "parquet", label: "Parquet" },
+];
+
+export function ExportButton({
+  report,
+  params = {},
+  availableFilters,
+  steps,
+  disabled,
+}: {
+  report: ExportReport;
+  params?: Record<string, any>;
+  // Only export with the filters the page applies, like the page's own queries do
+  availableFilters?: FilterParameter[];
+  steps?: FunnelStep[];
+  disabled?: boolean;
+}) {
+  const { site, time, filters } = useStore();
+  const [isExporting, setIsExporting] = useState(false);
+  // Exports are members-only, so visitors of public sites don't get the button
+  const { site: memberSite } = useCurrentSite();
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      await exportReport({
+        site,
+        report,
+        format,
+        params: getQueryParams(time, {
+          filters: availableFilters ? filters.filter(f => isFilterAvailable(f.parameter, availableFilters)) : filters,
+          ...params,
+        }),
+        steps,
+      });
+    } catch (error) {
+      toast.error("Failed to export data");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!memberSite) {
+    return null;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild disabled={disabled || isExporting}>
+        <Button variant="ghost" size="sm" title="Export">
+          <Download />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {FORMAT_OPTIONS.map(option => (
+          <DropdownMenuItem key={option.value} onClick={() => handleExport(option.value)}>
+            {option.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -4,12 +4,26 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import { ArrowRight, Clock, ExternalLink, Loader2, Monitor, Smartphone, Tablet, TriangleAlert } from "lucide-react";
+import {
+  ArrowRight,
+  Clock,
+  ExternalLink,
+  Loader2,
+  Monitor,
+  MousePointerClick,
+  Smartphone,
+  Tablet,
+  TriangleAlert,
+} from "lucide-react";
 import { DateTime } from "luxon";
 import Link from "next/link";
 import { useParams } from "next/navigation";
 import { memo, useMemo } from "react";
 import { GetSessionsResponse, SessionEvent, useGetSessionDetailsInfinite } from "../../api/analytics/userSessions";
+import {
+  FRUSTRATION_SIGNAL_LABELS,
+  FrustrationSignal,
+} from "../../api/analytics/sessionReplay/useGetSessionReplayEvents";
 import { Browser } from "../../app/[site]/components/shared/icons/Browser";
 import { CountryFlag } from "../../app/[site]/components/shared/icons/CountryFlag";
 import { OperatingSystem } from "../../app/[site]/components/shared/icons/OperatingSystem";
@@ -36,6 +50,7 @@ function PageviewItem({
   const isEvent = item.type === "custom_event";
   const isPageview = item.type === "pageview";
   const isOutbound = item.type === "outbound";
+  const isFrustration = item.type === "frustration";
   const timestamp = DateTime.fromSQL(item.timestamp, { zone: "utc" }).toLocal();
   const formattedTime = timestamp.toFormat(hour12 ? "h:mm:ss a" : "HH:mm:ss");
 
@@ -69,7 +84,9 @@ function PageviewItem({
                 ? "bg-red-900/30 border-red-500/50"
                 : isOutbound
                   ? "bg-purple-900/30 border-purple-500/50"
-                  : "bg-blue-900/30 border-blue-500/50"
+                  : isFrustration
+                    ? "bg-orange-900/30 border-orange-500/50"
+                    : "bg-blue-900/30 border-blue-500/50"
           )}
         >
           <span className="text-sm font-medium">{index + 1}</span>
@@ -85,6 +102,8 @@ function PageviewItem({
               <TriangleAlert className="w-4 h-4 text-red-500" />
             ) : isOutbound ? (
               <ExternalLink className="w-4 h-4 text-purple-500" />
+            ) : isFrustration ? (
+              <MousePointerClick className="w-4 h-4 text-orange-500" />
             ) : (
               <PageviewIcon />
             )}
@@ -120,6 +139,10 @@ function PageviewItem({
                   {String(item.props.url)}
                 </div>
               </Link>
+            ) : isFrustration ? (
+              <div className="text-sm truncate text-orange-400">
+                {FRUSTRATION_SIGNAL_LABELS[item.event_name as FrustrationSignal["type"]] ?? item.event_name}
+              </div>
             ) : (
               <div className="text-sm truncate">{item.event_name || "Outbound Click"}</div>
             )}
@@ -192,6 +215,36 @@ function PageviewItem({
             </div>
           </div>
         )}
+        {isFrustration && item.props?.selector && (
+          <div className="flex items-center pl-7 mt-1">
+            <div className="text-xs text-neutral-400">
+              <span className="flex flex-wrap gap-2 mt-1">
+                <Badge
+                  variant="outline"
+                  className="px-1.5 py-0 h-5 text-xs bg-neutral-800 text-neutral-100 font-medium"
+                >
+                  <span className="text-neutral-300 font-light mr-1">element:</span> {item.props.selector}
+                </Badge>
+                {item.props.text ? (
+                  <Badge
+                    variant="outline"
+                    className="px-1.5 py-0 h-5 text-xs bg-neutral-800 text-neutral-100 font-medium"
+                  >
+                    <span className="text-neutral-300 font-light mr-1">text:</span> {item.props.text}
+                  </Badge>
+                ) : null}
+                {item.props.message ? (
+                  <Badge
+                    variant="outline"
+                    className="px-1.5 py-0 h-5 text-xs bg-neutral-800 text-neutral-100 font-medium"
+                  >
+                    <span className="text-neutral-300 font-light mr-1">error:</span> {item.props.message}
+                  </Badge>
+                ) : null}
+              </span>
+            </div>
+          </div>
+        )}
         {isError && (
           <div className="flex items-center pl-7 mt-1">
             <div className="text-xs text-neutral-400">
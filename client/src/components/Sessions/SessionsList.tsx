@@ -1,13 +1,20 @@
-import { useEffect, useMemo, useRef } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useGetSessionsInfinite } from "../../api/analytics/userSessions";
 import { SessionCard, SessionCardSkeleton } from "./SessionCard";
 import { Button } from "../ui/button";
 import { NothingFound } from "../NothingFound";
 import { Rewind } from "lucide-react";
+import { Switch } from "../ui/switch";
+import { Label } from "../ui/label";
 
 export default function SessionsList({ userId }: { userId?: string }) {
+  const [hasFrustration, setHasFrustration] = useState(false);
+
   // Get sessions data with infinite loading
-  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useGetSessionsInfinite(userId);
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useGetSessionsInfinite(
+    userId,
+    hasFrustration
+  );
 
   // Combine all pages of data
   const flattenedData = useMemo(() => {
@@ -22,6 +29,12 @@ export default function SessionsList({ userId }: { userId?: string }) {
 
   return (
     <div ref={containerRef} className="overflow-auto space-y-3">
+      <div className="flex items-center justify-end gap-2">
+        <Switch id="hasFrustration" checked={hasFrustration} onCheckedChange={setHasFrustration} />
+        <Label htmlFor="hasFrustration" className="text-xs text-neutral-400">
+          Only sessions with rage, dead or error clicks
+        </Label>
+      </div>
       {isLoading ? (
         // Show skeleton cards while loading
         <SessionCardSkeleton />
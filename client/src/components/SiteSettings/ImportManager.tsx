@@ -0,0 +1,225 @@
+"use client";
+
+import { DateTime } from "luxon";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import { ImportSource, SiteImport, useCreateImport, useGetImports, usePurgeImport } from "@/api/admin/imports";
+
+interface ImportManagerProps {
+  siteId: number;
+  disabled?: boolean;
+}
+
+const SOURCES: { value: ImportSource; label: string; hint: string }[] = [
+  {
+    value: "ga4",
+    label: "Google Analytics 4",
+    hint: "BigQuery event export (JSON/NDJSON) or a report CSV broken down by date.",
+  },
+  {
+    value: "universal_analytics",
+    label: "Universal Analytics",
+    hint: "Report CSV broken down by date. Imported as daily totals.",
+  },
+  {
+    value: "plausible",
+    label: "Plausible",
+    hint: "One imported_*.csv file from a Plausible CSV export. Imported as daily totals.",
+  },
+  {
+    value: "umami",
+    label: "Umami",
+    hint: "Website event export CSV. Imported as individual events.",
+  },
+];
+
+const STATUS_VARIANTS: Record<SiteImport["status"], "info" | "success" | "destructive" | "secondary"> = {
+  processing: "info",
+  completed: "success",
+  failed: "destructive",
+  purged: "secondary",
+};
+
+const MAX_FILE_BYTES = 100 * 1024 * 1024;
+
+export function ImportManager({ siteId, disabled = false }: ImportManagerProps) {
+  const { data: imports, isLoading } = useGetImports(siteId);
+  const createImport = useCreateImport(siteId);
+  const purgeImport = usePurgeImport(siteId);
+
+  const [source, setSource] = useState<ImportSource>("ga4");
+  const [file, setFile] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async () => {
+    if (!file) {
+      return;
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      toast.error("Files larger than 100MB must be split before importing");
+      return;
+    }
+
+    try {
+      await createImport.mutateAsync({ source, file });
+      setFile(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+      toast.success("Import started");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to start import");
+    }
+  };
+
+  const handlePurge = async (importId: number) => {
+    try {
+      await purgeImport.mutateAsync(importId);
+      toast.success("Imported data purged");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to purge import");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div>
+          <h4 className="text-sm font-semibold text-foreground">Import Historical Data</h4>
+          <p className="text-xs text-muted-foreground mt-1">
+            Bring in data exported from another analytics tool. Imported data is tagged and can be purged at any time.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Source</Label>
+            <Select value={source} onValueChange={value => setSource(value as ImportSource)} disabled={disabled}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SOURCES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="import-file">Export file</Label>
+            <Input
+              id="import-file"
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,.ndjson,.jsonl"
+              disabled={disabled}
+              onChange={e => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-muted-foreground">{SOURCES.find(option => option.value === source)?.hint}</p>
+          <Button onClick={handleImport} disabled={disabled || !file || createImport.isPending} size="sm">
+            {createImport.isPending ? "Uploading..." : "Import"}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-12 w-full" />
+          <Skeleton className="h-12 w-full" />
+        </div>
+      ) : (
+        imports &&
+        imports.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-foreground">Imports</h4>
+            <div className="space-y-2">
+              {imports.map(item => (
+                <div key={item.id} className="rounded-md border border-neutral-800 p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-sm truncate">{item.fileName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {SOURCES.find(option => option.value === item.source)?.label ?? item.source}
+                        {item.target && ` · ${item.target === "events" ? "Events" : "Daily totals"}`}
+                        {" · "}
+                        {DateTime.fromSQL(item.createdAt, { zone: "utc" })
+                          .toLocal()
+                          .toLocaleString(DateTime.DATETIME_SHORT)}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant={STATUS_VARIANTS[item.status]} title={item.error ?? undefined}>
+                        {item.status}
+                      </Badge>
+                      {(item.status === "completed" || item.status === "failed") && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" disabled={disabled || purgeImport.isPending}>
+                              Purge
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Purge imported data?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                This permanently deletes the {item.importedRows.toLocaleString()} rows imported from{" "}
+                                {item.fileName}. Data tracked by Rybbit is not affected.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handlePurge(item.id)} variant="destructive">
+                                Purge
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  </div>
+                  {/* Files are parsed as they're imported, so the total is only known at the end */}
+                  {item.status === "processing" && (
+                    <div className="text-xs text-muted-foreground">
+                      {item.importedRows.toLocaleString()} rows imported so far
+                    </div>
+                  )}
+                  {item.status !== "processing" && item.status !== "purged" && item.importedRows > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      {item.importedRows.toLocaleString()} rows imported
+                    </div>
+                  )}
+                  {item.status === "failed" && item.error && <div className="text-xs text-red-400">{item.error}</div>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
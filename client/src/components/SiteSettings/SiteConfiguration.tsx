@@ -53,6 +53,8 @@ export function SiteConfiguration({ siteMetadata, disabled = false, onClose }: S
   const [newDomain, setNewDomain] = useState(siteMetadata.domain);
   const [isChangingDomain, setIsChangingDomain] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [downloadExtensions, setDownloadExtensions] = useState((siteMetadata.downloadExtensions ?? []).join(", "));
+  const [isSavingExtensions, setIsSavingExtensions] = useState(false);
 
   // Track all toggle states and loading states in single objects
   const [toggleStates, setToggleStates] = useState({
@@ -67,6 +69,10 @@ export function SiteConfiguration({ siteMetadata, disabled = false, onClose }: S
     trackInitialPageView: siteMetadata.trackInitialPageView ?? true,
     trackSpaNavigation: siteMetadata.trackSpaNavigation ?? true,
     trackIp: siteMetadata.trackIp ?? false,
+    trackForms: siteMetadata.trackForms ?? false,
+    trackFileDownloads: siteMetadata.trackFileDownloads ?? false,
+    trackContactLinks: siteMetadata.trackContactLinks ?? false,
+    trackImpressions: siteMetadata.trackImpressions ?? false,
   });
 
   const [loadingStates, setLoadingStates] = useState<Record<string, boolean>>({});
@@ -121,6 +127,27 @@ export function SiteConfiguration({ siteMetadata, disabled = false, onClose }: S
     }
   };
 
+  const handleDownloadExtensionsChange = async () => {
+    const extensions = downloadExtensions
+      .split(/[\s,]+/)
+      .map(ext => ext.trim().replace(/^\./, "").toLowerCase())
+      .filter(Boolean);
+
+    try {
+      setIsSavingExtensions(true);
+      // An empty list falls back to the tracking script's defaults
+      await updateSiteConfig(siteMetadata.siteId, { downloadExtensions: extensions.length ? extensions : null });
+      setDownloadExtensions(extensions.join(", "));
+      toast.success("Download extensions updated");
+      refetch();
+    } catch (error) {
+      console.error("Error updating download extensions:", error);
+      toast.error("Failed to update download extensions");
+    } finally {
+      setIsSavingExtensions(false);
+    }
+  };
+
   const handleDelete = async () => {
     try {
       setIsDeleting(true);
@@ -256,6 +283,46 @@ export function SiteConfiguration({ siteMetadata, disabled = false, onClose }: S
     },
   ];
 
+  // Configuration for auto-capture toggles, each sent as a custom event
+  const autoCaptureToggles: ToggleConfig[] = [
+    {
+      id: "trackForms",
+      label: "Form Submissions",
+      description: "Send a form_submit event with the form's id, name and action. Field values are never sent",
+      value: toggleStates.trackForms,
+      key: "trackForms",
+      enabledMessage: "Form submission tracking enabled",
+      disabledMessage: "Form submission tracking disabled",
+    },
+    {
+      id: "trackFileDownloads",
+      label: "File Downloads",
+      description: "Send a file_download event when users click links to files",
+      value: toggleStates.trackFileDownloads,
+      key: "trackFileDownloads",
+      enabledMessage: "File download tracking enabled",
+      disabledMessage: "File download tracking disabled",
+    },
+    {
+      id: "trackContactLinks",
+      label: "Email & Phone Links",
+      description: "Send mailto_click and tel_click events when users click email or phone links",
+      value: toggleStates.trackContactLinks,
+      key: "trackContactLinks",
+      enabledMessage: "Email and phone link tracking enabled",
+      disabledMessage: "Email and phone link tracking disabled",
+    },
+    {
+      id: "trackImpressions",
+      label: "Element Impressions",
+      description: "Send an element_impression event when elements with data-rybbit-impression become visible",
+      value: toggleStates.trackImpressions,
+      key: "trackImpressions",
+      enabledMessage: "Impression tracking enabled",
+      disabledMessage: "Impression tracking disabled",
+    },
+  ];
+
   const renderToggleSection = (toggles: ToggleConfig[], title?: string) => (
     <>
       {title && <h4 className="text-sm font-semibold text-foreground">{title}</h4>}
@@ -294,6 +361,43 @@ export function SiteConfiguration({ siteMetadata, disabled = false, onClose }: S
       {/* Analytics Features */}
       <div className="space-y-4">{renderToggleSection(analyticsToggles, "Analytics Features")}</div>
 
+      {/* Auto-capture */}
+      <div className="space-y-4">
+        {renderToggleSection(autoCaptureToggles, "Auto-capture")}
+        {toggleStates.trackFileDownloads && (
+          <div className="space-y-2">
+            <div>
+              <Label htmlFor="downloadExtensions" className="text-sm font-medium text-foreground">
+                Download Extensions
+              </Label>
+              <p className="text-xs text-muted-foreground mt-1">
+                Comma-separated file extensions counted as downloads. Leave empty to use the defaults (pdf, zip, csv,
+                docx, ...)
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <Input
+                id="downloadExtensions"
+                value={downloadExtensions}
+                onChange={e => setDownloadExtensions(e.target.value)}
+                placeholder="pdf, zip, csv"
+              />
+              <Button
+                variant="outline"
+                onClick={handleDownloadExtensionsChange}
+                disabled={
+                  isSavingExtensions ||
+                  downloadExtensions === (siteMetadata.downloadExtensions ?? []).join(", ") ||
+                  disabled
+                }
+              >
+                {isSavingExtensions ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* IP Exclusions Section */}
       <IPExclusionManager siteId={siteMetadata.siteId} disabled={disabled} />
 
@@ -21,6 +21,8 @@ import { useUserOrganizations } from "../../api/admin/organizations";
 import { ApiKeyManager } from "./ApiKeyManager";
 import { ScriptBuilder } from "./ScriptBuilder";
 import { SiteConfiguration } from "./SiteConfiguration";
+import { WarehouseSync } from "./WarehouseSync";
+import { ImportManager } from "./ImportManager";
 
 export function SiteSettings({ siteId, trigger }: { siteId: number; trigger?: React.ReactNode }) {
   const { data: siteMetadata, isLoading, error } = useGetSite(siteId);
@@ -58,10 +60,12 @@ function SiteSettingsInner({ siteMetadata, trigger }: { siteMetadata: SiteRespon
           <DialogDescription>Manage settings for {siteMetadata.domain}</DialogDescription>
         </DialogHeader>
         <Tabs value={activeTab} onValueChange={setActiveTab} className="pb-4">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="settings">Site Settings</TabsTrigger>
             <TabsTrigger value="script">Tracking Script</TabsTrigger>
             <TabsTrigger value="apikey">API Key</TabsTrigger>
+            <TabsTrigger value="warehouse">Warehouse</TabsTrigger>
+            <TabsTrigger value="import">Import</TabsTrigger>
           </TabsList>
 
           <TabsContent value="script" className="pt-4 space-y-4 max-h-[70vh] overflow-y-auto">
@@ -72,6 +76,14 @@ function SiteSettingsInner({ siteMetadata, trigger }: { siteMetadata: SiteRespon
             <ApiKeyManager siteId={siteMetadata.siteId} disabled={disabled} />
           </TabsContent>
 
+          <TabsContent value="warehouse" className="pt-4 space-y-4 max-h-[70vh] overflow-y-auto">
+            <WarehouseSync siteId={siteMetadata.siteId} disabled={disabled} />
+          </TabsContent>
+
+          <TabsContent value="import" className="pt-4 space-y-4 max-h-[70vh] overflow-y-auto">
+            <ImportManager siteId={siteMetadata.siteId} disabled={disabled} />
+          </TabsContent>
+
           <TabsContent value="settings">
             <SiteConfiguration siteMetadata={siteMetadata} disabled={disabled} onClose={() => setDialogOpen(false)} />
           </TabsContent>
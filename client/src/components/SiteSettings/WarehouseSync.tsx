@@ -0,0 +1,271 @@
+"use client";
+
+import { DateTime } from "luxon";
+import React, { useState } from "react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+import {
+  useBackfillWarehouseSync,
+  useGetWarehouseSync,
+  useGetWarehouseSyncRuns,
+  useUpdateWarehouseSync,
+  WarehouseSyncRun,
+} from "@/api/admin/warehouseSync";
+
+interface WarehouseSyncProps {
+  siteId: number;
+  disabled?: boolean;
+}
+
+const EMPTY_FORM = {
+  enabled: true,
+  endpoint: "",
+  region: "auto",
+  bucket: "",
+  prefix: "rybbit",
+  accessKeyId: "",
+  secretAccessKey: "",
+};
+
+const STATUS_VARIANTS: Record<WarehouseSyncRun["status"], "info" | "success" | "destructive"> = {
+  running: "info",
+  succeeded: "success",
+  failed: "destructive",
+};
+
+export function WarehouseSync({ siteId, disabled = false }: WarehouseSyncProps) {
+  const { data: config, isLoading } = useGetWarehouseSync(siteId);
+  const { data: runs } = useGetWarehouseSyncRuns(siteId);
+  const updateWarehouseSync = useUpdateWarehouseSync(siteId);
+  const backfillWarehouseSync = useBackfillWarehouseSync(siteId);
+
+  const [form, setForm] = useState(EMPTY_FORM);
+  const yesterday = DateTime.utc().minus({ days: 1 }).toISODate()!;
+  const [backfillRange, setBackfillRange] = useState({ startDate: yesterday, endDate: yesterday });
+
+  React.useEffect(() => {
+    if (config) {
+      setForm({
+        enabled: config.enabled,
+        endpoint: config.endpoint ?? "",
+        region: config.region,
+        bucket: config.bucket,
+        prefix: config.prefix,
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: "",
+      });
+    }
+  }, [config]);
+
+  const updateField = (field: keyof typeof EMPTY_FORM, value: string | boolean) => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    try {
+      await updateWarehouseSync.mutateAsync({
+        ...form,
+        endpoint: form.endpoint.trim() || null,
+        secretAccessKey: form.secretAccessKey || undefined,
+      });
+      setForm(current => ({ ...current, secretAccessKey: "" }));
+      toast.success("Warehouse sync saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save warehouse sync");
+    }
+  };
+
+  const handleBackfill = async () => {
+    try {
+      await backfillWarehouseSync.mutateAsync(backfillRange);
+      toast.success("Backfill started");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to start backfill");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-9 w-full" />
+        <Skeleton className="h-9 w-full" />
+        <Skeleton className="h-9 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="text-sm font-semibold text-foreground">Warehouse Sync</h4>
+            <p className="text-xs text-muted-foreground mt-1">
+              Deliver raw events nightly to an S3-compatible bucket as hourly Parquet files, with a manifest per day.
+            </p>
+          </div>
+          <Switch
+            id="warehouse-enabled"
+            checked={form.enabled}
+            disabled={disabled}
+            onCheckedChange={checked => updateField("enabled", checked)}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="warehouse-bucket">Bucket</Label>
+            <Input
+              id="warehouse-bucket"
+              value={form.bucket}
+              disabled={disabled}
+              onChange={e => updateField("bucket", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="warehouse-prefix">Path prefix</Label>
+            <Input
+              id="warehouse-prefix"
+              value={form.prefix}
+              disabled={disabled}
+              onChange={e => updateField("prefix", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="warehouse-endpoint">Endpoint</Label>
+            <Input
+              id="warehouse-endpoint"
+              placeholder="Leave empty for AWS S3"
+              value={form.endpoint}
+              disabled={disabled}
+              onChange={e => updateField("endpoint", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="warehouse-region">Region</Label>
+            <Input
+              id="warehouse-region"
+              value={form.region}
+              disabled={disabled}
+              onChange={e => updateField("region", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="warehouse-access-key">Access key ID</Label>
+            <Input
+              id="warehouse-access-key"
+              value={form.accessKeyId}
+              disabled={disabled}
+              onChange={e => updateField("accessKeyId", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="warehouse-secret-key">Secret access key</Label>
+            <Input
+              id="warehouse-secret-key"
+              type="password"
+              placeholder={config?.hasSecretAccessKey ? "••••••••  (unchanged)" : ""}
+              value={form.secretAccessKey}
+              disabled={disabled}
+              onChange={e => updateField("secretAccessKey", e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">
+            {config?.cursorDate ? `Delivered through ${config.cursorDate} (UTC)` : "Nothing delivered yet"}
+          </p>
+          <Button onClick={handleSave} disabled={disabled || updateWarehouseSync.isPending} size="sm">
+            {updateWarehouseSync.isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </div>
+
+      {config && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-foreground">Backfill</h4>
+          <p className="text-xs text-muted-foreground">
+            Re-deliver a range of past days (UTC). Existing files for those days are overwritten.
+          </p>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="backfill-start">From</Label>
+              <Input
+                id="backfill-start"
+                type="date"
+                value={backfillRange.startDate}
+                max={yesterday}
+                disabled={disabled}
+                onChange={e => setBackfillRange(range => ({ ...range, startDate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="backfill-end">To</Label>
+              <Input
+                id="backfill-end"
+                type="date"
+                value={backfillRange.endDate}
+                max={yesterday}
+                disabled={disabled}
+                onChange={e => setBackfillRange(range => ({ ...range, endDate: e.target.value }))}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleBackfill}
+              disabled={disabled || backfillWarehouseSync.isPending}
+            >
+              Start backfill
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {runs && runs.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-foreground">Run History</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Days</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Rows</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map(run => (
+                <TableRow key={run.id}>
+                  <TableCell className="text-xs">
+                    {DateTime.fromSQL(run.startedAt, { zone: "utc" }).toLocal().toLocaleString(DateTime.DATETIME_SHORT)}
+                  </TableCell>
+                  <TableCell className="text-xs capitalize">{run.trigger}</TableCell>
+                  <TableCell className="text-xs">
+                    {run.startDate === run.endDate ? run.startDate : `${run.startDate} – ${run.endDate}`}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    <Badge variant={STATUS_VARIANTS[run.status]} title={run.error ?? undefined}>
+                      {run.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-xs text-right">{run.rowCount.toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
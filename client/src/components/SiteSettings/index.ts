@@ -2,3 +2,5 @@ export { SiteSettings } from "./SiteSettings";
 export { ScriptBuilder } from "./ScriptBuilder";
 export { ApiKeyManager } from "./ApiKeyManager";
 export { SiteConfiguration } from "./SiteConfiguration";
+export { WarehouseSync } from "./WarehouseSync";
+export { ImportManager } from "./ImportManager";
@@ -10,14 +10,24 @@ interface ActivityPeriod {
   end: number;
 }
 
+interface TimelineMarker {
+  timestamp: number;
+  label: string;
+}
+
 interface ActivitySliderProps extends React.ComponentPropsWithoutRef<typeof SliderPrimitive.Root> {
   activityPeriods?: ActivityPeriod[];
   duration?: number;
   events?: Array<{ timestamp: number; type: string | number }>;
+  // Highlighted moments, such as frustration signals; clicking one seeks to it
+  markers?: TimelineMarker[];
 }
 
+// Marker timestamps come from the server clock with second precision, so allow them to fall slightly outside
+const MARKER_TOLERANCE_MS = 1000;
+
 const ActivitySlider = React.forwardRef<React.ElementRef<typeof SliderPrimitive.Root>, ActivitySliderProps>(
-  ({ className, activityPeriods = [], duration = 100, events = [], ...props }, ref) => {
+  ({ className, activityPeriods = [], duration = 100, events = [], markers = [], ...props }, ref) => {
     const firstEventTime = events.length > 0 ? events[0].timestamp : 0;
 
     return (
@@ -63,6 +73,25 @@ const ActivitySlider = React.forwardRef<React.ElementRef<typeof SliderPrimitive.
               />
             );
           })}
+
+          {markers.map((marker, index) => {
+            const relativeTime = marker.timestamp - firstEventTime;
+            if (duration <= 0 || relativeTime < -MARKER_TOLERANCE_MS || relativeTime > duration + MARKER_TOLERANCE_MS) {
+              return null;
+            }
+            const position = Math.max(0, Math.min(100, (relativeTime / duration) * 100));
+
+            return (
+              <button
+                key={`marker-${index}`}
+                type="button"
+                className="absolute top-0 h-full w-1 rounded-full bg-red-500 hover:bg-red-400"
+                style={{ left: `${position}%`, transform: "translateX(-50%)" }}
+                title={marker.label}
+                onClick={() => props.onValueChange?.([position])}
+              />
+            );
+          })}
         </div>
 
         {/* Activity Slider */}
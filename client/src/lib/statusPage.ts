@@ -0,0 +1,9 @@
+// Status pages on custom domains need the app's own host to tell the two apart; without it they're off.
+// Any hostname other than the app's is then treated as a status page's custom domain.
+export function isStatusPageDomain(hostname: string | null | undefined): boolean {
+  const appHost = process.env.NEXT_PUBLIC_APP_HOST;
+  if (!hostname || !appHost) {
+    return false;
+  }
+  return hostname !== appHost.split(":")[0];
+}
@@ -3,6 +3,9 @@ import { DateTime } from "luxon";
 import { create } from "zustand";
 import { Time } from "../components/DateSelector/types";
 
+// Stands in for every custom event property filter (prop:<key>) in the page filter lists below
+export const EVENT_PROPERTY_FILTERS: FilterParameter = "prop:*";
+
 export type StatType = "pageviews" | "sessions" | "users" | "pages_per_session" | "bounce_rate" | "session_duration";
 
 export const SESSION_PAGE_FILTERS: FilterParameter[] = [
@@ -29,6 +32,7 @@ export const SESSION_PAGE_FILTERS: FilterParameter[] = [
   "user_id",
   "lat",
   "lon",
+  EVENT_PROPERTY_FILTERS,
 ];
 
 export const SESSION_REPLAY_PAGE_FILTERS: FilterParameter[] = [
@@ -78,6 +82,8 @@ export const EVENT_FILTERS: FilterParameter[] = [
   "entry_page",
   "exit_page",
   "dimensions",
+  "screen_width",
+  "screen_height",
   "user_id",
 ];
 
@@ -97,6 +103,7 @@ export const GOALS_PAGE_FILTERS: FilterParameter[] = [
   "channel",
   "entry_page",
   "exit_page",
+  EVENT_PROPERTY_FILTERS,
 ];
 
 export const USER_PAGE_FILTERS: FilterParameter[] = [
@@ -133,6 +140,8 @@ export const JOURNEY_PAGE_FILTERS: FilterParameter[] = [
   "entry_page",
   "exit_page",
   "dimensions",
+  "screen_width",
+  "screen_height",
   "browser_version",
   "operating_system_version",
   "user_id",
@@ -413,7 +422,11 @@ export const updateFilter = (filter: Filter, index: number) => {
   setFilters(filters.map((f, i) => (i === index ? filter : f)));
 };
 
+export const isFilterAvailable = (parameter: FilterParameter, availableFilters: FilterParameter[]) =>
+  availableFilters.includes(parameter) ||
+  (parameter.startsWith("prop:") && availableFilters.includes(EVENT_PROPERTY_FILTERS));
+
 export const getFilteredFilters = (parameters: FilterParameter[]) => {
   const { filters } = useStore.getState();
-  return filters.filter(f => parameters.includes(f.parameter));
+  return filters.filter(f => isFilterAvailable(f.parameter, parameters));
 };
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import { isStatusPageDomain } from "./lib/statusPage";
 
 export async function middleware(request: NextRequest) {
   const url = request.nextUrl.clone();
@@ -18,6 +19,13 @@ export async function middleware(request: NextRequest) {
     return response;
   }
 
+  // Status pages on a custom domain are served from that domain's root
+  const hostname = request.headers.get("host")?.split(":")[0];
+  if (path === "/" && isStatusPageDomain(hostname)) {
+    url.pathname = `/status/${hostname}`;
+    return NextResponse.rewrite(url);
+  }
+
   // Check if we're on a site route without a specific page
   // This matches exactly /{siteId} with nothing after it
   const siteRoutePattern = /^\/([^/]+)$/;
@@ -39,6 +47,7 @@ export async function middleware(request: NextRequest) {
       "account",
       "uptime",
       "settings",
+      "status",
       "_next",
       "api",
     ];
@@ -50,7 +50,7 @@ SERVER=${REGIONS[$REGION]}
 case $ACTION in
     build)
         log_info "Building Docker image for $REGION..."
-        docker build -t $DOCKER_IMAGE:$REGION .
+        docker build -f Dockerfile -t $DOCKER_IMAGE:$REGION ..
         docker tag $DOCKER_IMAGE:$REGION $DOCKER_REGISTRY/$DOCKER_IMAGE:$REGION
         docker tag $DOCKER_IMAGE:$REGION $DOCKER_REGISTRY/$DOCKER_IMAGE:$VERSION
         ;;
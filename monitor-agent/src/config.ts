@@ -16,6 +16,21 @@ export const CONFIG = {
     ? process.env.ALLOWED_IPS.split(",").map((ip) => ip.trim()).filter((ip) => ip.length > 0) 
     : [],
 
+  // Self-registration with the main server. Without SERVER_URL the agent only serves /execute and
+  // has to be added to agent_regions by hand.
+  SERVER_URL: process.env.SERVER_URL?.replace(/\/+$/, "") || "",
+  // One-time token from the admin panel, exchanged for the agent's own token on first start
+  ENROLLMENT_TOKEN: process.env.ENROLLMENT_TOKEN || "",
+  // Where the agent token is kept between restarts
+  STATE_FILE: process.env.STATE_FILE || "./data/agent-state.json",
+  // 'push': the server calls /execute, 'pull': the agent polls the server for checks (works behind NAT)
+  CONNECTION_MODE: (process.env.CONNECTION_MODE === "pull" ? "pull" : "push") as "push" | "pull",
+  // Public URL of this agent, required to register in push mode
+  PUBLIC_URL: process.env.PUBLIC_URL || "",
+  // Checks run at the same time when pulling work
+  CAPACITY: parseInt(process.env.CAPACITY || "10", 10),
+  VERSION: process.env.npm_package_version || "1.0.0",
+
   // Monitoring defaults
   DEFAULT_TIMEOUT_MS: parseInt(process.env.DEFAULT_TIMEOUT_MS || "30000", 10),
   MAX_TIMEOUT_MS: parseInt(process.env.MAX_TIMEOUT_MS || "60000", 10),
@@ -33,6 +48,14 @@ export function validateConfig(): void {
     throw new Error(`Missing required environment variables: ${missing.join(", ")}`);
   }
 
+  if (CONFIG.SERVER_URL && CONFIG.CONNECTION_MODE === "push" && !CONFIG.PUBLIC_URL) {
+    throw new Error("PUBLIC_URL is required to register a push agent");
+  }
+
+  if (!Number.isInteger(CONFIG.CAPACITY) || CONFIG.CAPACITY < 1) {
+    throw new Error("CAPACITY must be a positive integer");
+  }
+
   // Warn if no IP whitelist is configured
   if (CONFIG.ALLOWED_IPS.length === 0) {
     console.warn("WARNING: No IP whitelist configured. Agent will accept requests from any IP address.");
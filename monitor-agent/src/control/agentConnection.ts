@@ -0,0 +1,119 @@
+import { CONFIG } from '../config.js';
+import { executeCheck, getInFlightChecks } from '../executor.js';
+import { ExecuteRequest } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { AgentState } from './registration.js';
+import { serverClient } from './serverClient.js';
+
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 30000;
+const CLAIM_WAIT_MS = 20000;
+// Pause after a failed poll, or while disabled or draining
+const IDLE_DELAY_MS = 5000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Keeps a registered agent in touch with the main server: heartbeats in both modes, and in pull mode a
+ * long-polling loop that claims checks up to CAPACITY and posts their results back.
+ */
+export class AgentConnection {
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private heartbeatIntervalMs = DEFAULT_HEARTBEAT_INTERVAL_MS;
+  private running = false;
+  private pullLoop: Promise<void> | null = null;
+  private enabled = true;
+  private draining = false;
+  private runningJobs = new Set<Promise<void>>();
+
+  constructor(private state: AgentState) {}
+
+  async start(): Promise<void> {
+    this.running = true;
+    await this.sendHeartbeat();
+    this.scheduleHeartbeat();
+
+    if (CONFIG.CONNECTION_MODE === 'pull') {
+      this.pullLoop = this.pull();
+    }
+  }
+
+  // Stops taking work and waits for running checks so their results still reach the server
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    await this.pullLoop;
+    await Promise.all(this.runningJobs);
+  }
+
+  private scheduleHeartbeat(): void {
+    if (!this.running) {
+      return;
+    }
+    this.heartbeatTimer = setTimeout(async () => {
+      await this.sendHeartbeat();
+      this.scheduleHeartbeat();
+    }, this.heartbeatIntervalMs);
+  }
+
+  private async sendHeartbeat(): Promise<void> {
+    try {
+      const response = await serverClient.heartbeat(this.state.agentToken, {
+        version: CONFIG.VERSION,
+        capacity: CONFIG.CAPACITY,
+        inFlight: getInFlightChecks(),
+      });
+
+      if (response.enabled !== this.enabled || response.draining !== this.draining) {
+        logger.info({ enabled: response.enabled, draining: response.draining }, 'Region state changed');
+      }
+      this.enabled = response.enabled;
+      this.draining = response.draining;
+      this.heartbeatIntervalMs = response.heartbeatIntervalMs || DEFAULT_HEARTBEAT_INTERVAL_MS;
+    } catch (error) {
+      logger.error({ error }, 'Heartbeat failed');
+    }
+  }
+
+  private async pull(): Promise<void> {
+    while (this.running) {
+      const free = CONFIG.CAPACITY - this.runningJobs.size;
+
+      if (!this.enabled || this.draining) {
+        await sleep(IDLE_DELAY_MS);
+        continue;
+      }
+
+      // At capacity, wait for a check to finish before asking for more
+      if (free <= 0) {
+        await Promise.race(this.runningJobs);
+        continue;
+      }
+
+      try {
+        const { jobs } = await serverClient.claimJobs(this.state.agentToken, free, CLAIM_WAIT_MS);
+        for (const job of jobs) {
+          this.run(job);
+        }
+      } catch (error) {
+        logger.error({ error }, 'Failed to claim jobs');
+        await sleep(IDLE_DELAY_MS);
+      }
+    }
+  }
+
+  private run(job: ExecuteRequest): void {
+    const task = executeCheck(job)
+      .then((result) => serverClient.submitResult(this.state.agentToken, result))
+      .then(() => undefined)
+      .catch((error) => {
+        logger.error({ error, jobId: job.jobId }, 'Failed to submit check result');
+      })
+      .finally(() => {
+        this.runningJobs.delete(task);
+      });
+    this.runningJobs.add(task);
+  }
+}
@@ -0,0 +1,64 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { CONFIG } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { serverClient } from './serverClient.js';
+
+export interface AgentState {
+  regionCode: string;
+  agentToken: string;
+}
+
+async function readState(): Promise<AgentState | null> {
+  try {
+    const state = JSON.parse(await readFile(CONFIG.STATE_FILE, 'utf8')) as Partial<AgentState>;
+    return state.regionCode && state.agentToken ? { regionCode: state.regionCode, agentToken: state.agentToken } : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writeState(state: AgentState): Promise<void> {
+  await mkdir(dirname(CONFIG.STATE_FILE), { recursive: true });
+  await writeFile(CONFIG.STATE_FILE, JSON.stringify(state, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Returns the agent's credentials, enrolling with ENROLLMENT_TOKEN on first start. Returns null when no
+ * SERVER_URL is configured, in which case the agent only answers pushed /execute requests.
+ */
+export async function loadOrRegister(): Promise<AgentState | null> {
+  if (!CONFIG.SERVER_URL) {
+    return null;
+  }
+
+  const saved = await readState();
+  if (saved) {
+    return saved;
+  }
+
+  if (!CONFIG.ENROLLMENT_TOKEN) {
+    throw new Error(`Agent is not enrolled yet: set ENROLLMENT_TOKEN or provide ${CONFIG.STATE_FILE}`);
+  }
+
+  const registration = await serverClient.register({
+    enrollmentToken: CONFIG.ENROLLMENT_TOKEN,
+    connectionMode: CONFIG.CONNECTION_MODE,
+    endpointUrl: CONFIG.CONNECTION_MODE === 'push' ? CONFIG.PUBLIC_URL : undefined,
+    version: CONFIG.VERSION,
+    capacity: CONFIG.CAPACITY,
+  });
+
+  const state = { regionCode: registration.regionCode, agentToken: registration.agentToken };
+  await writeState(state);
+
+  logger.info(
+    { region: registration.regionCode, connectionMode: CONFIG.CONNECTION_MODE },
+    'Registered with the main server, the enrollment token is no longer needed'
+  );
+
+  return state;
+}
@@ -0,0 +1,53 @@
+import { CONFIG } from '../config.js';
+import {
+  ClaimJobsResponse,
+  ExecuteResponse,
+  HeartbeatRequest,
+  HeartbeatResponse,
+  RegisterRequest,
+  RegisterResponse,
+} from '../types.js';
+
+export class ServerRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'ServerRequestError';
+  }
+}
+
+async function post<T>(path: string, body: unknown, agentToken?: string, timeoutMs = 15000): Promise<T> {
+  const response = await fetch(`${CONFIG.SERVER_URL}/api/uptime/agent${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(agentToken && { Authorization: `Bearer ${agentToken}` }),
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+
+  if (!response.ok) {
+    const data = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new ServerRequestError(data?.error || `Server returned status ${response.status}`, response.status);
+  }
+
+  return (await response.json()) as T;
+}
+
+// Talks to the main server's agent API
+export const serverClient = {
+  register: (request: RegisterRequest) => post<RegisterResponse>('/register', request),
+
+  heartbeat: (agentToken: string, request: HeartbeatRequest) =>
+    post<HeartbeatResponse>('/heartbeat', request, agentToken),
+
+  // The server holds the request open for up to waitMs until a check comes in
+  claimJobs: (agentToken: string, max: number, waitMs: number) =>
+    post<ClaimJobsResponse>('/jobs/claim', { max, waitMs }, agentToken, waitMs + 15000),
+
+  submitResult: (agentToken: string, result: ExecuteResponse) =>
+    post<{ success: boolean }>(`/jobs/${encodeURIComponent(result.jobId)}/result`, result, agentToken),
+};
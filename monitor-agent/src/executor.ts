@@ -0,0 +1,159 @@
+import { CONFIG } from './config.js';
+import { logger } from './utils/logger.js';
+import { ExecuteRequest, ExecuteResponse, HttpCheckResult, MultistepCheckResult, ValidationRule } from './types.js';
+import { performHttpCheck } from './monitors/http.js';
+import { performTcpCheck } from './monitors/tcp.js';
+import { performDnsCheck } from './monitors/dns.js';
+import { performPingCheck } from './monitors/ping.js';
+import { performSmtpCheck } from './monitors/smtp.js';
+import { performTlsCheck } from './monitors/tls.js';
+import { performMultistepCheck } from './monitors/multistep.js';
+import { applyValidationRules, getValidationRequirements } from './utils/validation.js';
+import { checkDuration, checksTotal } from './utils/metrics.js';
+
+let inFlight = 0;
+
+// Checks running right now, reported in heartbeats
+export function getInFlightChecks(): number {
+  return inFlight;
+}
+
+// Runs one check, whether it was pushed to /execute or pulled from the server
+export async function executeCheck(request: ExecuteRequest): Promise<ExecuteResponse> {
+  inFlight++;
+  try {
+    return await runCheck(request);
+  } finally {
+    inFlight--;
+  }
+}
+
+async function runCheck(request: ExecuteRequest): Promise<ExecuteResponse> {
+  const { jobId, monitorId, monitorType, config } = request;
+  const validationRules = request.validationRules ?? [];
+  const warningRules = request.warningRules ?? [];
+
+  logger.info({ jobId, monitorId, monitorType }, 'Executing monitor check');
+
+  try {
+    let result;
+
+    switch (monitorType) {
+      case 'http': {
+        const requirements = getValidationRequirements([...validationRules, ...warningRules]);
+        result = await performHttpCheck(config, {
+          captureBody: requirements.responseBody,
+          checkCertificate: requirements.certificate,
+        });
+        break;
+      }
+      case 'tcp':
+        result = await performTcpCheck(config);
+        break;
+      case 'dns':
+        result = await performDnsCheck(config);
+        break;
+      case 'smtp':
+        result = await performSmtpCheck(config);
+        break;
+      case 'ping':
+        result = await performPingCheck(config);
+        break;
+      case 'tls':
+        result = await performTlsCheck(config);
+        break;
+      case 'multistep':
+        result = await performMultistepCheck(config);
+        break;
+      default:
+        throw new Error(`Unknown monitor type: ${monitorType}`);
+    }
+
+    // Apply validation rules (only response time rules apply to non-HTTP checks)
+    const applicableRules = (rules: ValidationRule[]) =>
+      monitorType === 'http' ? rules : rules.filter((rule) => rule.type === 'response_time');
+    if (result.status === 'success' && validationRules.length > 0) {
+      const checkedResult = result as HttpCheckResult;
+      const validationErrors = applyValidationRules(
+        checkedResult,
+        applicableRules(validationRules),
+        checkedResult.responseBody
+      );
+      if (validationErrors.length > 0) {
+        checkedResult.validationErrors = validationErrors;
+        checkedResult.status = 'failure';
+      }
+    }
+
+    // Warning rules degrade the monitor on the server instead of failing the check
+    let validationWarnings: string[] = [];
+    if (result.status === 'success' && warningRules.length > 0) {
+      const checkedResult = result as HttpCheckResult;
+      validationWarnings = applyValidationRules(
+        checkedResult,
+        applicableRules(warningRules),
+        checkedResult.responseBody
+      );
+    }
+
+    checksTotal.inc({ monitor_type: monitorType, status: result.status });
+    checkDuration.observe({ monitor_type: monitorType }, result.responseTimeMs / 1000);
+
+    const response: ExecuteResponse = {
+      jobId,
+      region: CONFIG.REGION,
+      status: result.status,
+      responseTimeMs: result.responseTimeMs,
+      error: result.error,
+      validationWarnings,
+    };
+
+    // Add HTTP-specific fields
+    if (monitorType === 'http' && result && 'statusCode' in result) {
+      const httpResult = result as HttpCheckResult;
+      response.statusCode = httpResult.statusCode;
+      response.headers = httpResult.headers;
+      response.timing = httpResult.timing;
+      response.bodySizeBytes = httpResult.bodySizeBytes;
+      response.validationErrors = httpResult.validationErrors;
+    }
+
+    // Multi-step checks report every step that ran
+    if (monitorType === 'multistep') {
+      const multistepResult = result as MultistepCheckResult;
+      response.statusCode = multistepResult.statusCode;
+      response.steps = multistepResult.steps;
+    }
+
+    // Add validation errors for other monitor types if any (e.g. DNS expected value mismatches)
+    if (monitorType !== 'http' && result && 'validationErrors' in result) {
+      response.validationErrors = (result as { validationErrors?: string[] }).validationErrors;
+    }
+
+    logger.info(
+      {
+        jobId,
+        monitorId,
+        status: result.status,
+        responseTimeMs: result.responseTimeMs,
+      },
+      'Monitor check completed'
+    );
+
+    return response;
+  } catch (error) {
+    logger.error({ error, jobId, monitorId }, 'Monitor check failed with unexpected error');
+    checksTotal.inc({ monitor_type: monitorType, status: 'error' });
+
+    return {
+      jobId,
+      region: CONFIG.REGION,
+      status: 'failure',
+      responseTimeMs: 0,
+      error: {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        type: 'internal_error',
+      },
+    };
+  }
+}
@@ -1,6 +1,9 @@
 import { CONFIG, validateConfig } from './config.js';
 import { logger } from './utils/logger.js';
 import { createServer } from './api/server.js';
+import { loadOrRegister } from './control/registration.js';
+import { AgentConnection } from './control/agentConnection.js';
+import { metricsRegistry } from './utils/metrics.js';
 
 async function start() {
   try {
@@ -15,6 +18,14 @@ async function start() {
       'Starting monitor agent'
     );
     
+    // Enrolled agents get their region from the server
+    const agentState = await loadOrRegister();
+    if (agentState) {
+      CONFIG.REGION = agentState.regionCode;
+      logger.setBindings({ region: agentState.regionCode });
+      metricsRegistry.setDefaultLabels({ region: agentState.regionCode });
+    }
+    
     // Create and start server
     const server = await createServer();
     
@@ -31,11 +42,15 @@ async function start() {
       'Monitor agent started successfully'
     );
     
+    const connection = agentState ? new AgentConnection(agentState) : null;
+    await connection?.start();
+    
     // Graceful shutdown
     const shutdown = async (signal: string) => {
       logger.info({ signal }, 'Shutting down monitor agent');
       
       try {
+        await connection?.stop();
         await server.close();
         logger.info('Monitor agent stopped');
         process.exit(0);
@@ -0,0 +1,130 @@
+import { Resolver } from 'dns/promises';
+import { performance } from 'perf_hooks';
+import { MonitorConfig, DnsCheckResult } from '../types.js';
+import { CONFIG } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+type RecordType = NonNullable<MonitorConfig['recordType']>;
+
+async function resolveRecords(resolver: Resolver, hostname: string, recordType: RecordType): Promise<string[]> {
+  switch (recordType) {
+    case 'A':
+      return resolver.resolve4(hostname);
+    case 'AAAA':
+      return resolver.resolve6(hostname);
+    case 'CNAME':
+      return resolver.resolveCname(hostname);
+    case 'NS':
+      return resolver.resolveNs(hostname);
+    case 'MX':
+      return (await resolver.resolveMx(hostname))
+        .sort((a, b) => a.priority - b.priority)
+        .map((record) => `${record.priority} ${record.exchange}`);
+    case 'TXT':
+      return (await resolver.resolveTxt(hostname)).map((chunks) => chunks.join(''));
+    case 'SOA': {
+      const soa = await resolver.resolveSoa(hostname);
+      return [`${soa.nsname} ${soa.hostmaster} ${soa.serial}`];
+    }
+  }
+}
+
+const normalizeName = (value: string) => value.trim().toLowerCase().replace(/\.$/, '');
+
+// Same matching as the main server: names without the trailing dot, MX by exchange, SOA by primary nameserver
+function answerMatches(recordType: RecordType, answer: string, expectedValue: string): boolean {
+  if (recordType === 'TXT') {
+    return answer === expectedValue.trim();
+  }
+  
+  const expected = normalizeName(expectedValue);
+  if (normalizeName(answer) === expected) return true;
+  if (recordType === 'MX') return normalizeName(answer.split(' ')[1] ?? '') === expected;
+  if (recordType === 'SOA') return normalizeName(answer.split(' ')[0] ?? '') === expected;
+  return false;
+}
+
+export async function performDnsCheck(config: MonitorConfig): Promise<DnsCheckResult> {
+  const startTime = performance.now();
+  
+  if (!config.hostname) {
+    return {
+      status: 'failure',
+      responseTimeMs: 0,
+      error: {
+        message: 'Hostname is required for DNS monitoring',
+        type: 'configuration_error',
+      },
+    };
+  }
+  
+  const recordType = config.recordType || 'A';
+  const timeout = Math.min(config.timeoutMs || 10000, CONFIG.MAX_TIMEOUT_MS);
+  const resolver = new Resolver({ timeout, tries: 1 });
+  if (config.resolver) {
+    resolver.setServers([config.resolver]);
+  }
+  
+  try {
+    const answers = await resolveRecords(resolver, config.hostname, recordType);
+    const responseTimeMs = Math.round(performance.now() - startTime);
+    
+    if (answers.length === 0) {
+      return {
+        status: 'failure',
+        responseTimeMs,
+        answers,
+        error: {
+          message: `No ${recordType} records found for ${config.hostname}`,
+          type: 'dns_no_records',
+        },
+      };
+    }
+    
+    if (config.expectedValue && !answers.some((answer) => answerMatches(recordType, answer, config.expectedValue!))) {
+      return {
+        status: 'failure',
+        responseTimeMs,
+        answers,
+        validationErrors: [`Expected ${recordType} record "${config.expectedValue}", got ${answers.join(', ')}`],
+      };
+    }
+    
+    logger.info({ hostname: config.hostname, recordType, responseTimeMs }, 'DNS check successful');
+    
+    return {
+      status: 'success',
+      responseTimeMs,
+      answers,
+    };
+  } catch (error: any) {
+    const responseTimeMs = Math.round(performance.now() - startTime);
+    
+    let errorType = 'dns_failure';
+    let errorMessage = error.message || 'DNS lookup failed';
+    
+    if (error.code === 'ENOTFOUND' || error.code === 'ENODATA') {
+      errorType = 'dns_no_records';
+      errorMessage = `No ${recordType} records found for ${config.hostname}`;
+    } else if (error.code === 'ETIMEOUT') {
+      errorType = 'dns_timeout';
+      errorMessage = `DNS query timed out after ${timeout}ms`;
+    } else if (error.code === 'ESERVFAIL' || error.code === 'EREFUSED') {
+      errorType = 'dns_server_error';
+      errorMessage = `Nameserver returned ${error.code === 'ESERVFAIL' ? 'SERVFAIL' : 'REFUSED'}`;
+    }
+    
+    logger.error({ error, hostname: config.hostname, recordType }, 'DNS check failed');
+    
+    return {
+      status: errorType === 'dns_timeout' ? 'timeout' : 'failure',
+      responseTimeMs,
+      error: {
+        message: errorMessage,
+        type: errorType,
+      },
+    };
+  } finally {
+    resolver.cancel();
+  }
+}
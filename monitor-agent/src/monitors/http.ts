@@ -4,8 +4,12 @@ import dns from 'dns/promises';
 import { MonitorConfig, HttpCheckResult, TimingInfo } from '../types.js';
 import { CONFIG } from '../config.js';
 import { logger } from '../utils/logger.js';
+import { performTlsCheck } from './tls.js';
 
-export async function performHttpCheck(config: MonitorConfig): Promise<HttpCheckResult> {
+export async function performHttpCheck(
+  config: MonitorConfig,
+  options: { captureBody?: boolean; checkCertificate?: boolean } = {}
+): Promise<HttpCheckResult> {
   const startTime = performance.now();
   const timing: TimingInfo = {};
   
@@ -96,6 +100,22 @@ export async function performHttpCheck(config: MonitorConfig): Promise<HttpCheck
       responseHeaders[key] = Array.isArray(value) ? value.join(', ') : String(value);
     }
     
+    // The redirect history lists every URL requested, including the final one
+    const history = (response.context as { history?: URL[] } | undefined)?.history;
+    const redirectCount = history ? Math.max(history.length - 1, 0) : 0;
+    
+    // Only looked up when a tls_expiry_days rule needs it
+    let tlsDaysUntilExpiry: number | undefined;
+    if (options.checkCertificate && url.protocol === 'https:') {
+      const certificate = await performTlsCheck({
+        host: url.hostname,
+        port: url.port ? parseInt(url.port, 10) : 443,
+        expiryThresholdDays: 0,
+        timeoutMs: config.timeoutMs,
+      });
+      tlsDaysUntilExpiry = certificate.daysUntilExpiry;
+    }
+    
     return {
       status: 'success',
       statusCode: response.statusCode,
@@ -103,7 +123,10 @@ export async function performHttpCheck(config: MonitorConfig): Promise<HttpCheck
       timing,
       headers: responseHeaders,
       bodySizeBytes,
+      redirectCount,
+      tlsDaysUntilExpiry,
       validationErrors: [],
+      ...(options.captureBody && { responseBody: Buffer.from(bodyBuffer).toString('utf8') }),
     };
     
   } catch (error: any) {
@@ -0,0 +1,162 @@
+import { MonitorConfig, MultistepCheckResult, MultistepStep, MultistepStepResult, HttpCheckResult } from '../types.js';
+import { evaluateJsonPath } from '@rybbit/shared';
+import { applyValidationRules, getValidationRequirements } from '../utils/validation.js';
+import { logger } from '../utils/logger.js';
+import { performHttpCheck } from './http.js';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+function extractValue(
+  extraction: NonNullable<MultistepStep['extract']>[number],
+  result: HttpCheckResult
+): string | undefined {
+  switch (extraction.source) {
+    case 'header': {
+      const key = Object.keys(result.headers).find(
+        (header) => header.toLowerCase() === extraction.expression.toLowerCase()
+      );
+      return key ? result.headers[key] : undefined;
+    }
+    case 'regex': {
+      const match = new RegExp(extraction.expression).exec(result.responseBody ?? '');
+      if (!match) return undefined;
+      return match[1] ?? match[0];
+    }
+    case 'json': {
+      let body: unknown;
+      try {
+        body = JSON.parse(result.responseBody ?? '');
+      } catch {
+        return undefined;
+      }
+      const value = evaluateJsonPath(body, extraction.expression);
+      if (value === undefined || value === null) return undefined;
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+  }
+}
+
+async function runStep(
+  step: MultistepStep,
+  config: MonitorConfig,
+  variables: Record<string, string>
+): Promise<MultistepStepResult> {
+  const missing = new Set<string>();
+  const resolve = (template: string) =>
+    template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+      if (Object.prototype.hasOwnProperty.call(variables, name)) {
+        return variables[name] ?? placeholder;
+      }
+      missing.add(name);
+      return placeholder;
+    });
+  
+  const url = resolve(step.url);
+  const headers = Object.fromEntries(
+    Object.entries(step.headers ?? {}).map(([key, value]) => [key, resolve(value)])
+  );
+  const body = step.body !== undefined ? resolve(step.body) : undefined;
+  
+  if (missing.size > 0) {
+    return {
+      name: step.name,
+      status: 'failure',
+      responseTimeMs: 0,
+      timing: {},
+      validationErrors: [],
+      error: {
+        message: `No value extracted for ${[...missing].map((name) => `{{${name}}}`).join(', ')}`,
+        type: 'missing_variable',
+      },
+    };
+  }
+  
+  const result = await performHttpCheck(
+    {
+      url,
+      method: step.method,
+      headers,
+      body,
+      timeoutMs: step.timeoutMs,
+      followRedirects: config.followRedirects,
+      userAgent: config.userAgent,
+    },
+    { captureBody: true, checkCertificate: getValidationRequirements(step.validationRules ?? []).certificate }
+  );
+  
+  const stepResult: MultistepStepResult = {
+    name: step.name,
+    status: result.status,
+    statusCode: result.statusCode,
+    responseTimeMs: result.responseTimeMs,
+    timing: result.timing,
+    validationErrors: [],
+    error: result.error,
+  };
+  
+  if (stepResult.status !== 'success') {
+    return stepResult;
+  }
+  
+  const validationErrors = applyValidationRules(result, step.validationRules ?? [], result.responseBody ?? '');
+  if (validationErrors.length > 0) {
+    return { ...stepResult, status: 'failure', validationErrors };
+  }
+  
+  for (const extraction of step.extract ?? []) {
+    let value: string | undefined;
+    try {
+      value = extractValue(extraction, result);
+    } catch {
+      // Invalid regex
+      value = undefined;
+    }
+    
+    if (value === undefined) {
+      return {
+        ...stepResult,
+        status: 'failure',
+        error: {
+          message: `Could not extract "${extraction.name}" using ${extraction.source} ${extraction.expression}`,
+          type: 'extraction_failed',
+        },
+      };
+    }
+    variables[extraction.name] = value;
+  }
+  
+  return stepResult;
+}
+
+export async function performMultistepCheck(config: MonitorConfig): Promise<MultistepCheckResult> {
+  if (!config.steps || config.steps.length === 0) {
+    throw new Error('At least one step is required for multi-step monitoring');
+  }
+  
+  const variables: Record<string, string> = {};
+  const steps: MultistepStepResult[] = [];
+  
+  for (const step of config.steps) {
+    const stepResult = await runStep(step, config, variables);
+    steps.push(stepResult);
+    // Later steps usually depend on this one, so there's no point running them
+    if (stepResult.status !== 'success') {
+      logger.debug({ step: step.name, error: stepResult.error }, 'Multi-step check stopped at failing step');
+      break;
+    }
+  }
+  
+  const failedStep = steps.find((step) => step.status !== 'success');
+  const prefix = failedStep ? `Step ${steps.length} (${failedStep.name})` : '';
+  
+  return {
+    status: failedStep?.status ?? 'success',
+    statusCode: steps[steps.length - 1]?.statusCode,
+    responseTimeMs: steps.reduce((total, step) => total + step.responseTimeMs, 0),
+    steps,
+    validationErrors: failedStep ? failedStep.validationErrors.map((error) => `${prefix}: ${error}`) : [],
+    ...(failedStep?.error && {
+      error: { message: `${prefix}: ${failedStep.error.message}`, type: failedStep.error.type },
+    }),
+  };
+}
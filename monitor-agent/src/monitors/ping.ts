@@ -0,0 +1,71 @@
+import ping from 'ping';
+import { performance } from 'perf_hooks';
+import { MonitorConfig, PingCheckResult } from '../types.js';
+import { CONFIG } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export async function performPingCheck(config: MonitorConfig): Promise<PingCheckResult> {
+  const startTime = performance.now();
+  
+  // The host ends up on the ping command line
+  if (!config.host || config.host.startsWith('-')) {
+    return {
+      status: 'failure',
+      responseTimeMs: 0,
+      error: {
+        message: 'A valid host is required for ping monitoring',
+        type: 'configuration_error',
+      },
+    };
+  }
+  
+  const packetCount = config.packetCount || 3;
+  const timeout = Math.min(config.timeoutMs || 10000, CONFIG.MAX_TIMEOUT_MS);
+  
+  try {
+    const response = await ping.promise.probe(config.host, {
+      min_reply: packetCount,
+      timeout: Math.max(1, Math.ceil(timeout / 1000 / packetCount)),
+      deadline: Math.ceil(timeout / 1000),
+    });
+    
+    const elapsedMs = Math.round(performance.now() - startTime);
+    const packetLossPercent = Math.round(parseFloat(String(response.packetLoss)) || 0);
+    
+    if (!response.alive) {
+      logger.warn({ host: config.host }, 'Ping check failed, host did not reply');
+      
+      return {
+        status: 'failure',
+        responseTimeMs: elapsedMs,
+        packetLossPercent: 100,
+        error: {
+          message: `No reply from ${config.host} (${packetCount} packets sent)`,
+          type: 'host_unreachable',
+        },
+      };
+    }
+    
+    const avgMs = parseFloat(String(response.avg));
+    const responseTimeMs = Math.round(Number.isFinite(avgMs) ? avgMs : elapsedMs);
+    
+    logger.info({ host: config.host, responseTimeMs, packetLossPercent }, 'Ping check successful');
+    
+    return {
+      status: 'success',
+      responseTimeMs,
+      packetLossPercent,
+    };
+  } catch (error: any) {
+    logger.error({ error, host: config.host }, 'Ping check failed');
+    
+    return {
+      status: 'failure',
+      responseTimeMs: Math.round(performance.now() - startTime),
+      error: {
+        message: error.message || `Ping to ${config.host} failed`,
+        type: 'ping_error',
+      },
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import nodemailer from 'nodemailer';
+import { performance } from 'perf_hooks';
+import { MonitorConfig, SmtpCheckResult } from '../types.js';
+import { CONFIG } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export async function performSmtpCheck(config: MonitorConfig): Promise<SmtpCheckResult> {
+  const startTime = performance.now();
+  
+  if (!config.smtpHost || !config.smtpPort) {
+    return {
+      status: 'failure',
+      responseTimeMs: 0,
+      error: {
+        message: 'Host and port are required for SMTP monitoring',
+        type: 'configuration_error',
+      },
+    };
+  }
+  
+  const timeout = Math.min(config.timeoutMs || CONFIG.DEFAULT_TIMEOUT_MS, CONFIG.MAX_TIMEOUT_MS);
+  
+  // verify() connects, greets with EHLO, upgrades with STARTTLS when required and logs in if credentials are set
+  const transporter = nodemailer.createTransport({
+    host: config.smtpHost,
+    port: config.smtpPort,
+    secure: config.smtpSecure ?? false,
+    requireTLS: config.smtpRequireTls ?? false,
+    ignoreTLS: !config.smtpSecure && !config.smtpRequireTls,
+    auth: config.smtpAuth?.user ? { user: config.smtpAuth.user, pass: config.smtpAuth.pass } : undefined,
+    name: 'rybbit-monitor',
+    connectionTimeout: timeout,
+    greetingTimeout: timeout,
+    socketTimeout: timeout,
+  });
+  
+  try {
+    await transporter.verify();
+    const responseTimeMs = Math.round(performance.now() - startTime);
+    
+    logger.info({ host: config.smtpHost, port: config.smtpPort, responseTimeMs }, 'SMTP check successful');
+    
+    return {
+      status: 'success',
+      responseTimeMs,
+    };
+  } catch (error: any) {
+    const responseTimeMs = Math.round(performance.now() - startTime);
+    
+    let errorType = 'smtp_error';
+    let errorMessage = error.message || 'SMTP check failed';
+    
+    if (error.code === 'ETIMEDOUT') {
+      errorType = 'connection_timeout';
+      errorMessage = `SMTP check timed out after ${timeout}ms`;
+    } else if (error.code === 'ECONNECTION' && error.message?.includes('ECONNREFUSED')) {
+      errorType = 'connection_refused';
+      errorMessage = `Connection refused to ${config.smtpHost}:${config.smtpPort}`;
+    } else if (error.code === 'EDNS') {
+      errorType = 'dns_failure';
+      errorMessage = `Host ${config.smtpHost} not found`;
+    } else if (error.code === 'ETLS') {
+      errorType = config.smtpRequireTls && error.message?.includes('STARTTLS') ? 'smtp_starttls_unavailable' : 'ssl_error';
+    } else if (error.code === 'EAUTH') {
+      errorType = 'smtp_auth_failed';
+    } else if (error.responseCode >= 500) {
+      errorType = 'smtp_rejected';
+    }
+    
+    logger.error({ error, host: config.smtpHost, port: config.smtpPort }, 'SMTP check failed');
+    
+    return {
+      status: errorType === 'connection_timeout' ? 'timeout' : 'failure',
+      responseTimeMs,
+      error: {
+        message: errorMessage,
+        type: errorType,
+      },
+    };
+  } finally {
+    transporter.close();
+  }
+}
@@ -0,0 +1,140 @@
+import net from 'net';
+import tls from 'tls';
+import { performance } from 'perf_hooks';
+import { MonitorConfig, TlsCheckResult, ErrorInfo } from '../types.js';
+import { CONFIG } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getCertificateError(
+  authorizationError: string | null,
+  validTo: Date,
+  daysUntilExpiry: number,
+  expiryThresholdDays: number
+): ErrorInfo | null {
+  if (daysUntilExpiry < 0 || authorizationError === 'CERT_HAS_EXPIRED') {
+    return { message: `Certificate expired on ${validTo.toISOString()}`, type: 'certificate_expired' };
+  }
+  if (authorizationError === 'ERR_TLS_CERT_ALTNAME_INVALID') {
+    return { message: 'Certificate is not valid for this hostname', type: 'certificate_hostname_mismatch' };
+  }
+  if (authorizationError) {
+    return { message: `Certificate chain is not trusted: ${authorizationError}`, type: 'certificate_chain_error' };
+  }
+  if (daysUntilExpiry < expiryThresholdDays) {
+    return {
+      message: `Certificate expires in ${daysUntilExpiry} day${daysUntilExpiry === 1 ? '' : 's'} (alert threshold ${expiryThresholdDays} days)`,
+      type: 'certificate_expiring',
+    };
+  }
+  return null;
+}
+
+export async function performTlsCheck(config: MonitorConfig): Promise<TlsCheckResult> {
+  const startTime = performance.now();
+  
+  return new Promise((resolve) => {
+    if (!config.host) {
+      resolve({
+        status: 'failure',
+        responseTimeMs: 0,
+        error: {
+          message: 'Host is required for TLS certificate monitoring',
+          type: 'configuration_error',
+        },
+      });
+      return;
+    }
+    
+    const port = config.port || 443;
+    const expiryThresholdDays = config.expiryThresholdDays ?? 14;
+    const timeout = Math.min(config.timeoutMs || CONFIG.DEFAULT_TIMEOUT_MS, CONFIG.MAX_TIMEOUT_MS);
+    
+    // Certificates are verified by hand so an untrusted one is reported instead of aborting the handshake
+    const socket = tls.connect({
+      host: config.host,
+      port,
+      servername: config.servername || (net.isIP(config.host) ? undefined : config.host),
+      rejectUnauthorized: false,
+    });
+    
+    socket.setTimeout(timeout);
+    
+    socket.on('secureConnect', () => {
+      const responseTimeMs = Math.round(performance.now() - startTime);
+      const certificate = socket.getPeerCertificate();
+      const authorizationError = socket.authorizationError ? String(socket.authorizationError) : null;
+      socket.destroy();
+      
+      if (!certificate || !certificate.valid_to) {
+        resolve({
+          status: 'failure',
+          responseTimeMs,
+          error: { message: 'Server did not present a certificate', type: 'ssl_error' },
+        });
+        return;
+      }
+      
+      const validTo = new Date(certificate.valid_to);
+      const daysUntilExpiry = Math.floor((validTo.getTime() - Date.now()) / DAY_MS);
+      const error = getCertificateError(authorizationError, validTo, daysUntilExpiry, expiryThresholdDays);
+      
+      logger.info({ host: config.host, port, daysUntilExpiry, authorizationError }, 'TLS certificate checked');
+      
+      resolve({
+        status: error ? 'failure' : 'success',
+        responseTimeMs,
+        daysUntilExpiry,
+        validTo: validTo.toISOString(),
+        ...(error && { error }),
+      });
+    });
+    
+    socket.on('error', (error: any) => {
+      const responseTimeMs = Math.round(performance.now() - startTime);
+      socket.destroy();
+      
+      let errorType = 'ssl_error';
+      let errorMessage = error.message;
+      
+      if (error.code === 'ECONNREFUSED') {
+        errorType = 'connection_refused';
+        errorMessage = 'Connection refused';
+      } else if (error.code === 'EHOSTUNREACH') {
+        errorType = 'host_unreachable';
+        errorMessage = 'Host unreachable';
+      } else if (error.code === 'ENOTFOUND') {
+        errorType = 'dns_failure';
+        errorMessage = 'Host not found';
+      }
+      
+      logger.error({ error, host: config.host, port }, 'TLS check failed');
+      
+      resolve({
+        status: 'failure',
+        responseTimeMs,
+        error: {
+          message: errorMessage,
+          type: errorType,
+        },
+      });
+    });
+    
+    socket.on('timeout', () => {
+      const responseTimeMs = Math.round(performance.now() - startTime);
+      socket.destroy();
+      
+      logger.warn({ host: config.host, port, responseTimeMs }, 'TLS handshake timeout');
+      
+      resolve({
+        status: 'timeout',
+        responseTimeMs,
+        error: {
+          message: 'TLS handshake timeout',
+          type: 'timeout',
+        },
+      });
+    });
+  });
+}
@@ -1,3 +1,5 @@
+import type { ValidationRule } from "@rybbit/shared";
+
 export interface MonitorConfig {
   // HTTP config
   url?: string;
@@ -27,31 +29,54 @@ export interface MonitorConfig {
   hostname?: string;
   recordType?: "A" | "AAAA" | "CNAME" | "MX" | "TXT" | "NS" | "SOA";
   expectedValue?: string;
+  resolver?: string;
+
+  // Ping config (host)
+  packetCount?: number;
 
   // SMTP config
   smtpHost?: string;
   smtpPort?: number;
   smtpSecure?: boolean;
+  smtpRequireTls?: boolean;
   smtpAuth?: {
     user?: string;
     pass?: string;
   };
+
+  // TLS certificate config (host, port)
+  servername?: string;
+  expiryThresholdDays?: number;
+
+  // Multi-step config (followRedirects, userAgent)
+  steps?: MultistepStep[];
 }
 
-export interface ValidationRule {
-  type: string;
-  operator?: string;
-  value?: any;
-  header?: string;
-  caseSensitive?: boolean;
+export interface MultistepStep {
+  name: string;
+  url: string;
+  method: string;
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs?: number;
+  extract?: {
+    name: string;
+    source: "json" | "header" | "regex";
+    expression: string;
+  }[];
+  validationRules?: ValidationRule[];
 }
 
+export type { ValidationRule };
+
 export interface ExecuteRequest {
   jobId: string;
   monitorId: number;
-  monitorType: "http" | "tcp" | "dns" | "smtp" | "ping";
+  monitorType: "http" | "tcp" | "dns" | "smtp" | "ping" | "tls" | "multistep";
   config: MonitorConfig;
   validationRules: ValidationRule[];
+  // Failing these reports warnings instead of failing the check
+  warningRules: ValidationRule[];
 }
 
 export interface TimingInfo {
@@ -77,7 +102,43 @@ export interface ExecuteResponse {
   timing?: TimingInfo;
   error?: ErrorInfo;
   validationErrors?: string[];
+  validationWarnings?: string[];
   bodySizeBytes?: number;
+  steps?: MultistepStepResult[];
+}
+
+// Enrollment and heartbeats with the main server
+export interface RegisterRequest {
+  enrollmentToken: string;
+  connectionMode: "push" | "pull";
+  endpointUrl?: string;
+  version: string;
+  capacity: number;
+}
+
+export interface RegisterResponse {
+  regionCode: string;
+  regionName: string;
+  agentToken: string;
+  heartbeatIntervalMs: number;
+}
+
+export interface HeartbeatRequest {
+  version: string;
+  capacity: number;
+  inFlight: number;
+}
+
+export interface HeartbeatResponse {
+  regionCode: string;
+  enabled: boolean;
+  // Finish running checks but don't take new ones
+  draining: boolean;
+  heartbeatIntervalMs: number;
+}
+
+export interface ClaimJobsResponse {
+  jobs: ExecuteRequest[];
 }
 
 export interface HttpCheckResult {
@@ -87,7 +148,10 @@ export interface HttpCheckResult {
   timing: TimingInfo;
   headers: Record<string, string>;
   bodySizeBytes: number;
+  redirectCount?: number;
+  tlsDaysUntilExpiry?: number;
   validationErrors: string[];
+  responseBody?: string;
   error?: ErrorInfo;
 }
 
@@ -101,7 +165,8 @@ export interface TcpCheckResult {
 export interface DnsCheckResult {
   status: "success" | "failure" | "timeout";
   responseTimeMs: number;
-  answers?: any[];
+  answers?: string[];
+  validationErrors?: string[];
   error?: ErrorInfo;
 }
 
@@ -109,4 +174,38 @@ export interface SmtpCheckResult {
   status: "success" | "failure" | "timeout";
   responseTimeMs: number;
   error?: ErrorInfo;
-}
\ No newline at end of file
+}
+
+export interface PingCheckResult {
+  status: "success" | "failure" | "timeout";
+  responseTimeMs: number;
+  packetLossPercent?: number;
+  error?: ErrorInfo;
+}
+
+export interface TlsCheckResult {
+  status: "success" | "failure" | "timeout";
+  responseTimeMs: number;
+  daysUntilExpiry?: number;
+  validTo?: string;
+  error?: ErrorInfo;
+}
+
+export interface MultistepStepResult {
+  name: string;
+  status: "success" | "failure" | "timeout";
+  statusCode?: number;
+  responseTimeMs: number;
+  timing: TimingInfo;
+  validationErrors: string[];
+  error?: ErrorInfo;
+}
+
+export interface MultistepCheckResult {
+  status: "success" | "failure" | "timeout";
+  statusCode?: number;
+  responseTimeMs: number;
+  steps: MultistepStepResult[];
+  validationErrors: string[];
+  error?: ErrorInfo;
+}
@@ -0,0 +1,23 @@
+import { collectDefaultMetrics, Counter, Histogram, Registry } from 'prom-client';
+import { CONFIG } from '../config.js';
+
+// Every series carries the agent's region so several agents can share one Prometheus
+export const metricsRegistry = new Registry();
+metricsRegistry.setDefaultLabels({ region: CONFIG.REGION });
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'monitor_agent_' });
+
+export const checksTotal = new Counter({
+  name: 'monitor_agent_checks_total',
+  help: 'Checks executed by monitor type and outcome',
+  labelNames: ['monitor_type', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+export const checkDuration = new Histogram({
+  name: 'monitor_agent_check_duration_seconds',
+  help: 'Check response time by monitor type',
+  labelNames: ['monitor_type'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [metricsRegistry],
+});
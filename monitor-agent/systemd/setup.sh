@@ -65,6 +65,10 @@ log_info "Copying application files..."
 cp -r ../dist/* "$INSTALL_DIR/dist/"
 cp ../package.json "$INSTALL_DIR/"
 
+# The agent depends on the built shared package through file:../shared
+mkdir -p "$INSTALL_DIR/../shared"
+cp -r ../../shared/package.json ../../shared/dist "$INSTALL_DIR/../shared/"
+
 # Install production dependencies
 log_info "Installing production dependencies..."
 cd "$INSTALL_DIR"
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { setupTracking } from "../../server/src/analytics-script/setup.js";
+import { RybbitAPI } from "./types.js";
+
+vi.mock("../../server/src/analytics-script/config.js", () => ({
+  createDefaultConfig: vi.fn((analyticsHost: string, siteId: string) => ({ analyticsHost, siteId })),
+  fetchTrackingConfig: vi.fn(async (config: unknown) => config),
+}));
+
+vi.mock("../../server/src/analytics-script/setup.js", async importOriginal => ({
+  ...(await importOriginal<typeof import("../../server/src/analytics-script/setup.js")>()),
+  setupTracking: vi.fn(),
+}));
+
+function makeApi(): RybbitAPI {
+  return {
+    pageview: vi.fn(),
+    event: vi.fn(),
+    error: vi.fn(),
+    trackOutbound: vi.fn(),
+    identify: vi.fn(),
+    clearUserId: vi.fn(),
+    getUserId: vi.fn(() => "user_123"),
+    startSessionReplay: vi.fn(),
+    stopSessionReplay: vi.fn(),
+    isSessionReplayActive: vi.fn(() => false),
+  };
+}
+
+const options = { analyticsHost: "https://analytics.example.com/api/", siteId: 7 };
+
+// The SDK keeps its tracker in module state, so every test starts from a fresh copy
+const loadSdk = () => import("./index.js");
+
+describe("init", () => {
+  let api: RybbitAPI;
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.mocked(setupTracking).mockReset();
+    api = makeApi();
+    vi.mocked(setupTracking).mockReturnValue({ api, onRouteChange: vi.fn() });
+    localStorage.clear();
+  });
+
+  it("starts tracking once with the site's config", async () => {
+    const { init } = await loadSdk();
+
+    const first = init(options);
+    const second = init({ ...options, siteId: 8 });
+
+    expect(await first).toBe(api);
+    expect(await second).toBe(api);
+    expect(setupTracking).toHaveBeenCalledTimes(1);
+    expect(setupTracking).toHaveBeenCalledWith(
+      { analyticsHost: "https://analytics.example.com/api", siteId: "7" },
+      { patchHistory: true }
+    );
+  });
+
+  it("rejects without an analytics host or site id", async () => {
+    const { init } = await loadSdk();
+
+    await expect(init({ ...options, analyticsHost: "" })).rejects.toThrow("analyticsHost and siteId are required");
+    await expect(init({ ...options, siteId: "" })).rejects.toThrow("analyticsHost and siteId are required");
+    expect(setupTracking).not.toHaveBeenCalled();
+  });
+
+  it("can be retried after starting fails", async () => {
+    vi.mocked(setupTracking).mockImplementationOnce(() => {
+      throw new Error("boom");
+    });
+    const { init } = await loadSdk();
+
+    await expect(init(options)).rejects.toThrow("boom");
+    expect(await init(options)).toBe(api);
+    expect(setupTracking).toHaveBeenCalledTimes(2);
+  });
+
+  it("replays calls made before tracking started", async () => {
+    const { init, rybbit } = await loadSdk();
+
+    rybbit.event("signup", { plan: "pro" });
+    rybbit.identify("user_123");
+    await init(options);
+    rybbit.pageview();
+
+    expect(api.event).toHaveBeenCalledWith("signup", { plan: "pro" });
+    expect(api.identify).toHaveBeenCalledWith("user_123");
+    expect(api.pageview).toHaveBeenCalledTimes(1);
+    expect(rybbit.getUserId()).toBe("user_123");
+  });
+
+  it("doesn't track visitors who opted out", async () => {
+    localStorage.setItem("disable-rybbit", "true");
+    const { init, rybbit } = await loadSdk();
+
+    const noop = await init(options);
+    rybbit.event("signup");
+
+    expect(setupTracking).not.toHaveBeenCalled();
+    expect(noop.getUserId()).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { createDefaultConfig, fetchTrackingConfig } from "../../server/src/analytics-script/config.js";
+import { createNoopApi, isOptedOut, setupTracking, TrackingInstance } from "../../server/src/analytics-script/setup.js";
+import { ScriptConfig } from "../../server/src/analytics-script/types.js";
+import { Rybbit, RybbitAPI, RybbitOptions } from "./types.js";
+
+export type {
+  ErrorProperties,
+  EventName,
+  EventProperties,
+  Rybbit,
+  RybbitAPI,
+  RybbitEvents,
+  RybbitOptions,
+} from "./types.js";
+
+// Calls made before init() has fetched the site's config, replayed once tracking starts
+const MAX_PENDING_CALLS = 100;
+
+let instance: TrackingInstance | null = null;
+let starting: Promise<RybbitAPI> | null = null;
+let pendingCalls: Array<(api: RybbitAPI) => void> = [];
+
+const isBrowser = () => typeof window !== "undefined" && typeof document !== "undefined";
+
+async function start(options: RybbitOptions): Promise<RybbitAPI> {
+  if (isOptedOut()) {
+    instance = { api: createNoopApi(), onRouteChange: () => {} };
+  } else {
+    const localOptions: Partial<ScriptConfig> = {
+      debounceDuration: options.debounce !== undefined ? Math.max(0, options.debounce) : undefined,
+      skipPatterns: options.skipPatterns,
+      maskPatterns: options.maskPatterns,
+      trackEngagement: options.trackEngagement,
+      trackFrustration: options.trackFrustration,
+      sessionReplayBatchSize: options.sessionReplayBatchSize,
+      sessionReplayBatchInterval: options.sessionReplayBatchInterval,
+    };
+    // Leave out options that weren't given, so they keep their defaults
+    for (const key of Object.keys(localOptions) as Array<keyof ScriptConfig>) {
+      if (localOptions[key] === undefined) {
+        delete localOptions[key];
+      }
+    }
+
+    const analyticsHost = options.analyticsHost.replace(/\/+$/, "");
+    const config = await fetchTrackingConfig(createDefaultConfig(analyticsHost, String(options.siteId), localOptions));
+    instance = setupTracking(config, { patchHistory: options.patchHistory ?? true });
+  }
+
+  const api = instance.api;
+  pendingCalls.forEach(call => call(api));
+  pendingCalls = [];
+  return api;
+}
+
+/**
+ * Starts tracking. Only the first successful call has an effect, later calls return the same instance.
+ * Rejects when analyticsHost or siteId is missing. Does nothing during server-side rendering.
+ */
+export function init(options: RybbitOptions): Promise<RybbitAPI> {
+  if (!isBrowser()) {
+    return Promise.resolve(createNoopApi());
+  }
+  if (!options.analyticsHost || !options.siteId) {
+    return Promise.reject(new Error("Rybbit: analyticsHost and siteId are required"));
+  }
+  if (!starting) {
+    starting = start(options).catch(error => {
+      // Let a later init() try again
+      starting = null;
+      throw error;
+    });
+  }
+  return starting;
+}
+
+/**
+ * Tracks a pageview for a client-side navigation. Called by the router adapters,
+ * or by your own router integration when `patchHistory` is off.
+ */
+export function trackRouteChange(): void {
+  // The initial pageview is tracked once init() finishes
+  instance?.onRouteChange();
+}
+
+function call(method: (api: RybbitAPI) => void): void {
+  if (instance) {
+    method(instance.api);
+  } else if (isBrowser() && pendingCalls.length < MAX_PENDING_CALLS) {
+    pendingCalls.push(method);
+  }
+}
+
+/**
+ * Tracking API with the same methods as window.rybbit. Safe to call before init()
+ * and during server-side rendering.
+ */
+export const rybbit: Rybbit = {
+  pageview: () => call(api => api.pageview()),
+  event: (name: string, properties?: Record<string, any>) => call(api => api.event(name, properties)),
+  error: (error, properties) => call(api => api.error(error, properties)),
+  trackOutbound: (url, text, target) => call(api => api.trackOutbound(url, text, target)),
+  identify: userId => call(api => api.identify(userId)),
+  clearUserId: () => call(api => api.clearUserId()),
+  getUserId: () => instance?.api.getUserId() ?? null,
+  startSessionReplay: () => call(api => api.startSessionReplay()),
+  stopSessionReplay: () => call(api => api.stopSessionReplay()),
+  isSessionReplayActive: () => instance?.api.isSessionReplayActive() ?? false,
+};
+
+export default rybbit;
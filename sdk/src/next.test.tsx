@@ -0,0 +1,77 @@
+import { act } from "react";
+import { createRoot, Root } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { init, trackRouteChange } from "@rybbit/sdk";
+import { RybbitProvider } from "./next.js";
+
+const navigation = vi.hoisted(() => ({ pathname: "/", search: "" }));
+
+vi.mock("@rybbit/sdk", () => ({
+  init: vi.fn(() => new Promise(() => {})),
+  trackRouteChange: vi.fn(),
+  rybbit: {},
+}));
+
+vi.mock("next/navigation", () => ({
+  usePathname: () => navigation.pathname,
+  useSearchParams: () => new URLSearchParams(navigation.search),
+}));
+
+declare global {
+  // eslint-disable-next-line no-var
+  var IS_REACT_ACT_ENVIRONMENT: boolean;
+}
+globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+
+describe("next adapter", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  const renderApp = () =>
+    act(() =>
+      root.render(
+        <RybbitProvider analyticsHost="https://analytics.example.com/api" siteId="7">
+          <span>page</span>
+        </RybbitProvider>
+      )
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    navigation.pathname = "/";
+    navigation.search = "";
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+  });
+
+  it("starts tracking with navigations reported by the router", () => {
+    renderApp();
+
+    expect(container.textContent).toBe("page");
+    expect(init).toHaveBeenCalledWith({
+      analyticsHost: "https://analytics.example.com/api",
+      siteId: "7",
+      patchHistory: false,
+    });
+    expect(trackRouteChange).not.toHaveBeenCalled();
+  });
+
+  it("tracks pathname and search param changes", () => {
+    renderApp();
+
+    navigation.pathname = "/pricing";
+    renderApp();
+    expect(trackRouteChange).toHaveBeenCalledTimes(1);
+
+    navigation.search = "plan=pro";
+    renderApp();
+    expect(trackRouteChange).toHaveBeenCalledTimes(2);
+
+    renderApp();
+    expect(trackRouteChange).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,30 @@
+import { Suspense } from "react";
+import { usePathname, useSearchParams } from "next/navigation";
+import { RybbitProvider as BaseRybbitProvider, RybbitProviderProps, useRouteTracking } from "@rybbit/sdk/react";
+
+export { useRybbit } from "@rybbit/sdk/react";
+
+function NextRouteTracker() {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const search = searchParams.toString();
+
+  useRouteTracking(search ? `${pathname}?${search}` : pathname);
+  return null;
+}
+
+/**
+ * Provider for the Next.js App Router. Add it to the root layout; navigations are
+ * reported by the router instead of by wrapping history.pushState.
+ */
+export function RybbitProvider({ children, ...options }: Omit<RybbitProviderProps, "patchHistory">) {
+  return (
+    <BaseRybbitProvider {...options} patchHistory={false}>
+      {/* useSearchParams needs a Suspense boundary so static pages can still be prerendered */}
+      <Suspense fallback={null}>
+        <NextRouteTracker />
+      </Suspense>
+      {children}
+    </BaseRybbitProvider>
+  );
+}
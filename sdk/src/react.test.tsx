@@ -0,0 +1,86 @@
+import { act } from "react";
+import { createRoot, Root } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { init, rybbit, trackRouteChange } from "@rybbit/sdk";
+import { RybbitProvider, useRouteTracking, useRybbit } from "./react.js";
+
+vi.mock("@rybbit/sdk", () => ({
+  init: vi.fn(() => new Promise(() => {})),
+  trackRouteChange: vi.fn(),
+  rybbit: { event: vi.fn() },
+}));
+
+declare global {
+  // eslint-disable-next-line no-var
+  var IS_REACT_ACT_ENVIRONMENT: boolean;
+}
+globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+
+function RouteTracker({ path }: { path: string }) {
+  useRouteTracking(path);
+  return null;
+}
+
+describe("react adapter", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+  });
+
+  it("starts tracking once when the provider mounts", () => {
+    act(() =>
+      root.render(
+        <RybbitProvider analyticsHost="https://analytics.example.com/api" siteId="7" patchHistory={false}>
+          <span>app</span>
+        </RybbitProvider>
+      )
+    );
+    act(() =>
+      root.render(
+        <RybbitProvider analyticsHost="https://analytics.example.com/api" siteId="8">
+          <span>app</span>
+        </RybbitProvider>
+      )
+    );
+
+    expect(container.textContent).toBe("app");
+    expect(init).toHaveBeenCalledTimes(1);
+    expect(init).toHaveBeenCalledWith({
+      analyticsHost: "https://analytics.example.com/api",
+      siteId: "7",
+      patchHistory: false,
+    });
+  });
+
+  it("tracks a pageview when the route changes after the first render", () => {
+    act(() => root.render(<RouteTracker path="/" />));
+    expect(trackRouteChange).not.toHaveBeenCalled();
+
+    act(() => root.render(<RouteTracker path="/pricing" />));
+    act(() => root.render(<RouteTracker path="/pricing" />));
+    expect(trackRouteChange).toHaveBeenCalledTimes(1);
+
+    act(() => root.render(<RouteTracker path="/pricing?plan=pro" />));
+    expect(trackRouteChange).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns the tracking API from useRybbit", () => {
+    let api: unknown;
+    function Consumer() {
+      api = useRybbit();
+      return null;
+    }
+
+    act(() => root.render(<Consumer />));
+
+    expect(api).toBe(rybbit);
+  });
+});
@@ -0,0 +1,40 @@
+import { ReactNode, useEffect, useRef } from "react";
+import { init, rybbit, trackRouteChange, Rybbit, RybbitOptions } from "@rybbit/sdk";
+
+export interface RybbitProviderProps extends RybbitOptions {
+  children?: ReactNode;
+}
+
+/**
+ * Starts tracking once the app mounts in the browser. Options are read on the first render only.
+ */
+export function RybbitProvider({ children, ...options }: RybbitProviderProps) {
+  useEffect(() => {
+    init(options);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return <>{children}</>;
+}
+
+// The tracking API. Calls made before tracking has started are queued.
+export function useRybbit(): Rybbit {
+  return rybbit;
+}
+
+/**
+ * Router integration: tracks a pageview whenever `path` changes after the first render.
+ * Use with `patchHistory={false}` on the provider, e.g. with React Router:
+ * useRouteTracking(location.pathname + location.search)
+ */
+export function useRouteTracking(path: string): void {
+  const previousPath = useRef(path);
+
+  useEffect(() => {
+    if (previousPath.current === path) {
+      return;
+    }
+    previousPath.current = path;
+    trackRouteChange();
+  }, [path]);
+}
@@ -0,0 +1,41 @@
+import type { AfterNavigate } from "@sveltejs/kit";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { trackRouteChange } from "@rybbit/sdk";
+import { trackNavigation } from "./svelte.js";
+
+vi.mock("@rybbit/sdk", () => ({
+  init: vi.fn(),
+  trackRouteChange: vi.fn(),
+  rybbit: {},
+}));
+
+function navigate(type: AfterNavigate["type"], from: string | null, to: string): AfterNavigate {
+  const target = (href: string) => ({ url: new URL(href, "https://example.com") });
+  return { type, from: from ? target(from) : null, to: target(to), willUnload: false } as AfterNavigate;
+}
+
+describe("svelte adapter", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("leaves the initial page load to init()", () => {
+    trackNavigation(navigate("enter", null, "/"));
+
+    expect(trackRouteChange).not.toHaveBeenCalled();
+  });
+
+  it("tracks client-side navigations to a new url", () => {
+    trackNavigation(navigate("link", "/", "/pricing"));
+    trackNavigation(navigate("popstate", "/pricing", "/"));
+    trackNavigation(navigate("goto", "/", "/?plan=pro"));
+
+    expect(trackRouteChange).toHaveBeenCalledTimes(3);
+  });
+
+  it("ignores navigations that stay on the same url", () => {
+    trackNavigation(navigate("link", "/pricing", "/pricing"));
+
+    expect(trackRouteChange).not.toHaveBeenCalled();
+  });
+});
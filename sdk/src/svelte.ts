@@ -0,0 +1,18 @@
+import type { AfterNavigate } from "@sveltejs/kit";
+import { trackRouteChange } from "@rybbit/sdk";
+
+export { init, rybbit } from "@rybbit/sdk";
+
+/**
+ * SvelteKit navigation handler. In the root +layout.svelte:
+ *
+ * onMount(() => init({ analyticsHost, siteId, patchHistory: false }));
+ * afterNavigate(trackNavigation);
+ */
+export function trackNavigation(navigation: AfterNavigate): void {
+  // The initial page load is tracked by init()
+  if (navigation.type === "enter" || navigation.from?.url.href === navigation.to?.url.href) {
+    return;
+  }
+  trackRouteChange();
+}
@@ -0,0 +1,46 @@
+import type { ErrorProperties, RybbitAPI } from "../../server/src/analytics-script/types.js";
+
+export type { ErrorProperties, RybbitAPI };
+
+export interface RybbitOptions {
+  // URL of the Rybbit API, e.g. https://app.rybbit.io/api
+  analyticsHost: string;
+  siteId: string | number;
+  // Milliseconds to wait before tracking a pageview after a navigation. 0 tracks immediately.
+  debounce?: number;
+  // Paths that are never tracked, e.g. "/admin/**"
+  skipPatterns?: string[];
+  // Paths that are tracked as the pattern instead, e.g. "/users/*"
+  maskPatterns?: string[];
+  trackEngagement?: boolean;
+  trackFrustration?: boolean;
+  sessionReplayBatchSize?: number;
+  sessionReplayBatchInterval?: number;
+  // Detect navigations by wrapping history.pushState. Turn off when a router adapter reports them.
+  patchHistory?: boolean;
+}
+
+/**
+ * Custom events and their properties. Augment it to type-check `event()` calls:
+ *
+ * declare module "@rybbit/sdk" {
+ *   interface RybbitEvents {
+ *     signup: { plan: "free" | "pro" };
+ *   }
+ * }
+ */
+export interface RybbitEvents {}
+
+// Any string until RybbitEvents is augmented, then only the declared names
+export type EventName = keyof RybbitEvents extends never ? string : Extract<keyof RybbitEvents, string>;
+
+export type EventProperties<N extends string> = N extends keyof RybbitEvents ? RybbitEvents[N] : Record<string, any>;
+
+// Properties are optional only when every declared property is
+type EventArgs<N extends string> =
+  {} extends EventProperties<N> ? [properties?: EventProperties<N>] : [properties: EventProperties<N>];
+
+// Same surface as window.rybbit, with typed custom events
+export interface Rybbit extends Omit<RybbitAPI, "event"> {
+  event<N extends EventName>(name: N, ...args: EventArgs<N>): void;
+}
@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp, defineComponent } from "vue";
+import { createMemoryHistory, createRouter } from "vue-router";
+import { init, rybbit, trackRouteChange } from "@rybbit/sdk";
+import { createRybbit, useRybbit } from "./vue.js";
+
+vi.mock("@rybbit/sdk", () => ({
+  init: vi.fn(() => new Promise(() => {})),
+  trackRouteChange: vi.fn(),
+  rybbit: { event: vi.fn() },
+}));
+
+const Page = defineComponent({ render: () => null });
+const options = { analyticsHost: "https://analytics.example.com/api", siteId: "7" };
+
+function makeRouter() {
+  return createRouter({
+    history: createMemoryHistory(),
+    routes: [
+      { path: "/", component: Page },
+      { path: "/pricing", component: Page },
+    ],
+  });
+}
+
+describe("vue adapter", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("tracks router navigations after the initial one", async () => {
+    const router = makeRouter();
+    createApp(Page)
+      .use(router)
+      .use(createRybbit({ ...options, router }));
+
+    await router.push("/");
+    expect(init).toHaveBeenCalledWith({ ...options, patchHistory: false });
+    expect(trackRouteChange).not.toHaveBeenCalled();
+
+    await router.push("/pricing");
+    await router.push("/pricing");
+    expect(trackRouteChange).toHaveBeenCalledTimes(1);
+
+    await router.push("/pricing?plan=pro");
+    expect(trackRouteChange).toHaveBeenCalledTimes(2);
+  });
+
+  it("wraps history itself without a router", () => {
+    createApp(Page).use(createRybbit(options));
+
+    expect(init).toHaveBeenCalledWith({ ...options, patchHistory: true });
+  });
+
+  it("exposes the tracking API to components", () => {
+    const app = createApp(Page).use(createRybbit(options));
+
+    expect(app.config.globalProperties.$rybbit).toBe(rybbit);
+    expect(app.runWithContext(() => useRybbit())).toBe(rybbit);
+  });
+});
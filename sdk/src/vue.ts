@@ -0,0 +1,43 @@
+import { App, inject, InjectionKey } from "vue";
+import { Router, START_LOCATION } from "vue-router";
+import { init, rybbit, trackRouteChange, Rybbit, RybbitOptions } from "@rybbit/sdk";
+
+export interface RybbitVueOptions extends Omit<RybbitOptions, "patchHistory"> {
+  // Report navigations from Vue Router instead of wrapping history.pushState
+  router?: Router;
+}
+
+declare module "vue" {
+  interface ComponentCustomProperties {
+    $rybbit: Rybbit;
+  }
+}
+
+export const RYBBIT_KEY: InjectionKey<Rybbit> = Symbol("rybbit");
+
+/**
+ * Vue plugin: app.use(createRybbit({ analyticsHost, siteId, router }))
+ * Makes the API available through useRybbit() and this.$rybbit.
+ */
+export function createRybbit({ router, ...options }: RybbitVueOptions) {
+  return {
+    install(app: App) {
+      app.provide(RYBBIT_KEY, rybbit);
+      app.config.globalProperties.$rybbit = rybbit;
+
+      init({ ...options, patchHistory: !router });
+
+      router?.afterEach((to, from, failure) => {
+        // The initial navigation is tracked by init()
+        if (failure || from === START_LOCATION || to.fullPath === from.fullPath) {
+          return;
+        }
+        trackRouteChange();
+      });
+    },
+  };
+}
+
+export function useRybbit(): Rybbit {
+  return inject(RYBBIT_KEY, rybbit);
+}
@@ -0,0 +1,25 @@
+import { defineConfig } from "tsup";
+
+// Adapters import the core through the package name, so every entry shares one tracker instance
+const external = ["@rybbit/sdk", "@rybbit/sdk/react"];
+
+export default defineConfig([
+  {
+    entry: { index: "src/index.ts", vue: "src/vue.ts", svelte: "src/svelte.ts" },
+    format: ["esm"],
+    target: "es2020",
+    platform: "browser",
+    dts: true,
+    external,
+  },
+  {
+    // React components and hooks can only run on the client in the Next.js App Router
+    entry: { react: "src/react.tsx", next: "src/next.tsx" },
+    format: ["esm"],
+    target: "es2020",
+    platform: "browser",
+    dts: true,
+    external,
+    banner: { js: '"use client";' },
+  },
+]);
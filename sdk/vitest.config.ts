@@ -0,0 +1,19 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+const resolvePath = (path: string) => fileURLToPath(new URL(path, import.meta.url));
+
+export default defineConfig({
+  test: {
+    environment: "jsdom",
+    include: ["src/**/*.test.{ts,tsx}"],
+  },
+  resolve: {
+    // Same mapping as tsconfig paths; the tracker sources live in the server package
+    alias: [
+      { find: /^@rybbit\/sdk$/, replacement: resolvePath("./src/index.ts") },
+      { find: /^@rybbit\/sdk\/react$/, replacement: resolvePath("./src/react.tsx") },
+      { find: /^web-vitals$/, replacement: resolvePath("./node_modules/web-vitals") },
+    ],
+  },
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { AutoCapture, DEFAULT_DOWNLOAD_EXTENSIONS } from "./autoCapture.js";
+import { ScriptConfig } from "./types.js";
+
+// jsdom has no IntersectionObserver, so keep a handle on the one AutoCapture creates
+class MockIntersectionObserver {
+  static instance: MockIntersectionObserver;
+  observed = new Set<Element>();
+
+  constructor(public callback: IntersectionObserverCallback) {
+    MockIntersectionObserver.instance = this;
+  }
+
+  observe(element: Element) {
+    this.observed.add(element);
+  }
+
+  unobserve(element: Element) {
+    this.observed.delete(element);
+  }
+
+  disconnect() {
+    this.observed.clear();
+  }
+
+  show(element: Element) {
+    this.callback(
+      [{ target: element, isIntersecting: true } as unknown as IntersectionObserverEntry],
+      this as unknown as IntersectionObserver
+    );
+  }
+}
+
+function makeConfig(overrides: Partial<ScriptConfig> = {}): ScriptConfig {
+  return {
+    analyticsHost: "https://analytics.example.com",
+    siteId: "123",
+    debounceDuration: 0,
+    autoTrackPageview: true,
+    autoTrackSpa: true,
+    trackQuerystring: true,
+    trackOutbound: true,
+    enableWebVitals: false,
+    trackErrors: false,
+    enableSessionReplay: false,
+    trackEngagement: false,
+    trackFrustration: false,
+    trackForms: true,
+    trackFileDownloads: true,
+    downloadExtensions: DEFAULT_DOWNLOAD_EXTENSIONS,
+    trackContactLinks: true,
+    trackImpressions: true,
+    sessionReplayBatchSize: 250,
+    sessionReplayBatchInterval: 5000,
+    skipPatterns: [],
+    maskPatterns: [],
+    ...overrides,
+  };
+}
+
+function makeLink(href: string, attributes: Record<string, string> = {}): HTMLAnchorElement {
+  const link = document.createElement("a");
+  link.setAttribute("href", href);
+  for (const [name, value] of Object.entries(attributes)) {
+    link.setAttribute(name, value);
+  }
+  return link;
+}
+
+describe("AutoCapture", () => {
+  let onEvent: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    onEvent = vi.fn();
+    document.body.innerHTML = "";
+    vi.stubGlobal("IntersectionObserver", MockIntersectionObserver);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("form submissions", () => {
+    it("sends the form's id, name, action and method without field values", () => {
+      document.body.innerHTML = `
+        <form id="signup" name="signup-form" action="/subscribe?ref=footer" method="POST">
+          <input name="email" value="visitor@example.com" />
+        </form>`;
+      const capture = new AutoCapture(makeConfig(), onEvent);
+      capture.initialize();
+
+      document.querySelector("form")!.dispatchEvent(new Event("submit", { bubbles: true, cancelable: true }));
+
+      expect(onEvent).toHaveBeenCalledWith("form_submit", {
+        formId: "signup",
+        formName: "signup-form",
+        action: "/subscribe",
+        method: "post",
+      });
+      expect(JSON.stringify(onEvent.mock.calls)).not.toContain("visitor@example.com");
+    });
+
+    it("does nothing when disabled", () => {
+      document.body.innerHTML = `<form></form>`;
+      const capture = new AutoCapture(makeConfig({ trackForms: false }), onEvent);
+      capture.initialize();
+
+      document.querySelector("form")!.dispatchEvent(new Event("submit", { bubbles: true, cancelable: true }));
+
+      expect(onEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("link clicks", () => {
+    it("captures links to files with a listed extension", () => {
+      const capture = new AutoCapture(makeConfig(), onEvent);
+
+      expect(capture.captureLinkClick(makeLink("https://cdn.example.com/files/Report%202024.PDF?v=2"))).toBe(true);
+      expect(onEvent).toHaveBeenCalledWith("file_download", {
+        url: "https://cdn.example.com/files/Report%202024.PDF",
+        fileName: "Report 2024.PDF",
+        extension: "pdf",
+      });
+    });
+
+    it("captures links with a download attribute regardless of extension", () => {
+      const capture = new AutoCapture(makeConfig({ downloadExtensions: [] }), onEvent);
+
+      expect(capture.captureLinkClick(makeLink("/export", { download: "export.json" }))).toBe(true);
+      expect(onEvent).toHaveBeenCalledWith("file_download", expect.objectContaining({ fileName: "export.json" }));
+    });
+
+    it("ignores pages and unlisted extensions", () => {
+      const capture = new AutoCapture(makeConfig({ downloadExtensions: ["zip"] }), onEvent);
+
+      expect(capture.captureLinkClick(makeLink("/pricing"))).toBe(false);
+      expect(capture.captureLinkClick(makeLink("/guide.pdf"))).toBe(false);
+      expect(onEvent).not.toHaveBeenCalled();
+    });
+
+    it("captures mailto and tel links", () => {
+      const capture = new AutoCapture(makeConfig(), onEvent);
+
+      expect(capture.captureLinkClick(makeLink("mailto:sales%40example.com?subject=Hi"))).toBe(true);
+      expect(capture.captureLinkClick(makeLink("tel:+1-555-0100"))).toBe(true);
+      expect(onEvent).toHaveBeenCalledWith("mailto_click", { email: "sales@example.com" });
+      expect(onEvent).toHaveBeenCalledWith("tel_click", { phone: "+1-555-0100" });
+    });
+
+    it("leaves links alone when their mode is disabled", () => {
+      const capture = new AutoCapture(makeConfig({ trackContactLinks: false, trackFileDownloads: false }), onEvent);
+
+      expect(capture.captureLinkClick(makeLink("mailto:sales@example.com"))).toBe(false);
+      expect(capture.captureLinkClick(makeLink("/guide.pdf"))).toBe(false);
+      expect(onEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("impressions", () => {
+    it("reports each marked element once with its data-rybbit-prop attributes", () => {
+      document.body.innerHTML = `<div data-rybbit-impression="pricing-banner" data-rybbit-prop-variant="b"></div>`;
+      const capture = new AutoCapture(makeConfig(), onEvent);
+      capture.initialize();
+
+      const banner = document.querySelector("div")!;
+      const observer = MockIntersectionObserver.instance;
+      expect(observer.observed.has(banner)).toBe(true);
+
+      observer.show(banner);
+      observer.show(banner);
+
+      expect(onEvent).toHaveBeenCalledTimes(1);
+      expect(onEvent).toHaveBeenCalledWith("element_impression", { element: "pricing-banner", variant: "b" });
+      expect(observer.observed.has(banner)).toBe(false);
+    });
+
+    it("observes elements added after load", async () => {
+      const capture = new AutoCapture(makeConfig(), onEvent);
+      capture.initialize();
+
+      const wrapper = document.createElement("section");
+      wrapper.innerHTML = `<div data-rybbit-impression="late"></div>`;
+      document.body.appendChild(wrapper);
+      // MutationObserver callbacks run as a microtask
+      await Promise.resolve();
+
+      expect(MockIntersectionObserver.instance.observed.has(wrapper.firstElementChild!)).toBe(true);
+    });
+
+    it("reports elements again after a page change", () => {
+      document.body.innerHTML = `<div data-rybbit-impression="nav-cta"></div>`;
+      const capture = new AutoCapture(makeConfig(), onEvent);
+      capture.initialize();
+
+      const element = document.querySelector("div")!;
+      MockIntersectionObserver.instance.show(element);
+      capture.onPageChange();
+      MockIntersectionObserver.instance.show(element);
+
+      expect(onEvent).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { ScriptConfig } from "./types.js";
+import { getDataProperties } from "./utils.js";
+
+// Event names sent for each auto-capture mode, so they can be used as goals
+export const FORM_SUBMIT_EVENT = "form_submit";
+export const FILE_DOWNLOAD_EVENT = "file_download";
+export const MAILTO_CLICK_EVENT = "mailto_click";
+export const TEL_CLICK_EVENT = "tel_click";
+export const IMPRESSION_EVENT = "element_impression";
+
+export const DEFAULT_DOWNLOAD_EXTENSIONS = [
+  "pdf",
+  "csv",
+  "txt",
+  "rtf",
+  "doc",
+  "docx",
+  "xls",
+  "xlsx",
+  "ppt",
+  "pptx",
+  "odt",
+  "ods",
+  "epub",
+  "zip",
+  "rar",
+  "7z",
+  "gz",
+  "tar",
+  "dmg",
+  "exe",
+  "msi",
+  "pkg",
+  "deb",
+  "rpm",
+  "apk",
+  "iso",
+  "mp3",
+  "wav",
+  "mp4",
+  "mov",
+  "avi",
+];
+
+const IMPRESSION_ATTRIBUTE = "data-rybbit-impression";
+// Share of an element that has to be on screen to count as seen
+const IMPRESSION_THRESHOLD = 0.5;
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (e) {
+    return value;
+  }
+}
+
+/**
+ * Sends custom events for form submissions, file downloads, mailto:/tel: links and
+ * elements marked with data-rybbit-impression scrolling into view. Each mode is opt-in
+ * through the site's tracking config. Form field values are never read.
+ */
+export class AutoCapture {
+  private config: ScriptConfig;
+  private onEvent: (name: string, properties: Record<string, string>) => void;
+  private downloadExtensions: Set<string>;
+  private observer?: IntersectionObserver;
+  // Elements already reported on the current page
+  private seenElements = new WeakSet<Element>();
+
+  constructor(config: ScriptConfig, onEvent: (name: string, properties: Record<string, string>) => void) {
+    this.config = config;
+    this.onEvent = onEvent;
+    this.downloadExtensions = new Set(config.downloadExtensions.map(ext => ext.toLowerCase()));
+  }
+
+  initialize(): void {
+    if (this.config.trackForms) {
+      // Capture phase, so forms whose handlers stop propagation are still seen
+      document.addEventListener("submit", this.handleSubmit, true);
+    }
+
+    if (this.config.trackImpressions && typeof IntersectionObserver !== "undefined") {
+      this.observer = new IntersectionObserver(this.handleIntersection, { threshold: IMPRESSION_THRESHOLD });
+      this.observeImpressionElements(document);
+
+      // Pick up elements rendered after load
+      new MutationObserver(mutations => {
+        for (const mutation of mutations) {
+          mutation.addedNodes.forEach(node => {
+            if (node instanceof Element) {
+              this.observeImpressionElements(node);
+            }
+          });
+        }
+      }).observe(document.documentElement, { childList: true, subtree: true });
+    }
+  }
+
+  /**
+   * Tracks a click on a download or contact link.
+   * Returns true if the click was captured, so it isn't also counted as an outbound link.
+   */
+  captureLinkClick(link: HTMLAnchorElement): boolean {
+    const href = link.getAttribute("href");
+    if (!href) {
+      return false;
+    }
+
+    const protocol = href.trim().split(":")[0].toLowerCase();
+    if (protocol === "mailto" || protocol === "tel") {
+      if (!this.config.trackContactLinks) {
+        return false;
+      }
+      const value = safeDecode(
+        href
+          .trim()
+          .slice(protocol.length + 1)
+          .split("?")[0]
+      );
+      if (protocol === "mailto") {
+        this.onEvent(MAILTO_CLICK_EVENT, { email: value });
+      } else {
+        this.onEvent(TEL_CLICK_EVENT, { phone: value });
+      }
+      return true;
+    }
+
+    if (!this.config.trackFileDownloads) {
+      return false;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(link.href);
+    } catch (e) {
+      return false;
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return false;
+    }
+
+    const fileName = safeDecode(url.pathname.split("/").pop() || "");
+    const dotIndex = fileName.lastIndexOf(".");
+    const extension = dotIndex > 0 ? fileName.slice(dotIndex + 1).toLowerCase() : "";
+    if (!this.downloadExtensions.has(extension) && !link.hasAttribute("download")) {
+      return false;
+    }
+
+    this.onEvent(FILE_DOWNLOAD_EVENT, {
+      url: url.origin + url.pathname,
+      fileName: link.getAttribute("download") || fileName,
+      extension,
+    });
+    return true;
+  }
+
+  // Lets impressions fire again for elements that are still on the new page
+  onPageChange(): void {
+    if (!this.observer) {
+      return;
+    }
+    this.seenElements = new WeakSet();
+    this.observer.disconnect();
+    this.observeImpressionElements(document);
+  }
+
+  private handleSubmit = (e: Event): void => {
+    const form = e.target;
+    if (!(form instanceof HTMLFormElement)) {
+      return;
+    }
+
+    this.onEvent(FORM_SUBMIT_EVENT, {
+      formId: form.getAttribute("id") || "",
+      formName: form.getAttribute("name") || "",
+      action: this.getFormAction(form),
+      method: (form.getAttribute("method") || "get").toLowerCase(),
+    });
+  };
+
+  private handleIntersection = (entries: IntersectionObserverEntry[]): void => {
+    for (const entry of entries) {
+      if (!entry.isIntersecting || this.seenElements.has(entry.target)) {
+        continue;
+      }
+      this.seenElements.add(entry.target);
+      this.observer?.unobserve(entry.target);
+
+      this.onEvent(IMPRESSION_EVENT, {
+        ...getDataProperties(entry.target),
+        element: entry.target.getAttribute(IMPRESSION_ATTRIBUTE) || "",
+      });
+    }
+  };
+
+  private observeImpressionElements(root: Element | Document): void {
+    if (root instanceof Element && root.hasAttribute(IMPRESSION_ATTRIBUTE)) {
+      this.observer?.observe(root);
+    }
+    root.querySelectorAll(`[${IMPRESSION_ATTRIBUTE}]`).forEach(element => this.observer?.observe(element));
+  }
+
+  // Action URL without query string or hash, as a path when it stays on this site
+  private getFormAction(form: HTMLFormElement): string {
+    try {
+      const url = new URL(form.getAttribute("action") || "", window.location.href);
+      return url.hostname === window.location.hostname ? url.pathname : url.origin + url.pathname;
+    } catch (e) {
+      return "";
+    }
+  }
+}
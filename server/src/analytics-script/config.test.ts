@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { parseScriptConfig } from "./config.js";
+import { DEFAULT_DOWNLOAD_EXTENSIONS } from "./autoCapture.js";
 
 // Mock fetch globally
 global.fetch = vi.fn();
@@ -36,6 +37,11 @@ describe("parseScriptConfig", () => {
         trackUrlParams: false,
         trackInitialPageView: true,
         trackSpaNavigation: false,
+        trackForms: true,
+        trackFileDownloads: true,
+        downloadExtensions: ["pdf", "zip"],
+        trackContactLinks: false,
+        trackImpressions: true,
       }),
     });
 
@@ -56,6 +62,13 @@ describe("parseScriptConfig", () => {
       maskPatterns: [],
       sessionReplayBatchInterval: 5000,
       sessionReplayBatchSize: 250,
+      trackEngagement: true,
+      trackFrustration: true,
+      trackForms: true,
+      trackFileDownloads: true,
+      downloadExtensions: ["pdf", "zip"],
+      trackContactLinks: false,
+      trackImpressions: true,
     });
 
     expect(global.fetch).toHaveBeenCalledWith(
@@ -97,6 +110,13 @@ describe("parseScriptConfig", () => {
       maskPatterns: [],
       sessionReplayBatchInterval: 5000,
       sessionReplayBatchSize: 250,
+      trackEngagement: true,
+      trackFrustration: true,
+      trackForms: false,
+      trackFileDownloads: false,
+      downloadExtensions: DEFAULT_DOWNLOAD_EXTENSIONS,
+      trackContactLinks: false,
+      trackImpressions: false,
     });
 
     expect(consoleWarnSpy).toHaveBeenCalledWith(
@@ -128,6 +148,13 @@ describe("parseScriptConfig", () => {
       maskPatterns: [],
       sessionReplayBatchInterval: 5000,
       sessionReplayBatchSize: 250,
+      trackEngagement: true,
+      trackFrustration: true,
+      trackForms: false,
+      trackFileDownloads: false,
+      downloadExtensions: DEFAULT_DOWNLOAD_EXTENSIONS,
+      trackContactLinks: false,
+      trackImpressions: false,
     });
 
     expect(consoleWarnSpy).toHaveBeenCalledWith(
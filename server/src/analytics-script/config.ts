@@ -1,66 +1,106 @@
-import { ScriptConfig } from "./types.js";
-import { parseJsonSafely } from "./utils.js";
-
-/**
- * Parse minimal script configuration from the script tag attributes
- * Most configuration will be fetched from the API
- */
-export async function parseScriptConfig(scriptTag: HTMLScriptElement): Promise<ScriptConfig | null> {
-  const src = scriptTag.getAttribute("src");
-  if (!src) {
-    console.error("Script src attribute is missing");
-    return null;
-  }
-
-  const analyticsHost = src.split("/script.js")[0];
-  if (!analyticsHost) {
-    console.error("Please provide a valid analytics host");
-    return null;
-  }
-
-  const siteId = scriptTag.getAttribute("data-site-id") || scriptTag.getAttribute("site-id");
-  if (!siteId) {
-    console.error("Please provide a valid site ID using the data-site-id attribute");
-    return null;
-  }
-
-  // These can be overridden via data attributes for testing/debugging
-  const skipPatterns = parseJsonSafely<string[]>(scriptTag.getAttribute("data-skip-patterns"), []);
-  const maskPatterns = parseJsonSafely<string[]>(scriptTag.getAttribute("data-mask-patterns"), []);
-
-  const debounceDuration = scriptTag.getAttribute("data-debounce")
-    ? Math.max(0, parseInt(scriptTag.getAttribute("data-debounce")!))
-    : 500;
-
-  const sessionReplayBatchSize = scriptTag.getAttribute("data-replay-batch-size")
-    ? Math.max(1, parseInt(scriptTag.getAttribute("data-replay-batch-size")!))
-    : 250;
-
-  const sessionReplayBatchInterval = scriptTag.getAttribute("data-replay-batch-interval")
-    ? Math.max(1000, parseInt(scriptTag.getAttribute("data-replay-batch-interval")!))
-    : 5000;
-
-  // Default config with minimal settings
-  const defaultConfig: ScriptConfig = {
-    analyticsHost,
-    siteId,
-    debounceDuration,
-    sessionReplayBatchSize,
-    sessionReplayBatchInterval,
-    skipPatterns,
-    maskPatterns,
-    // Default all tracking to true initially (will be updated from API)
-    autoTrackPageview: true,
-    autoTrackSpa: true,
-    trackQuerystring: true,
-    trackOutbound: true,
-    enableWebVitals: false,
-    trackErrors: false,
-    enableSessionReplay: false,
-  };
-
-  try {
-    // Fetch configuration from API
+import { ScriptConfig } from "./types.js";
+import { parseJsonSafely } from "./utils.js";
+import { DEFAULT_DOWNLOAD_EXTENSIONS } from "./autoCapture.js";
+
+/**
+ * Parse minimal script configuration from the script tag attributes
+ * Most configuration will be fetched from the API
+ */
+export async function parseScriptConfig(scriptTag: HTMLScriptElement): Promise<ScriptConfig | null> {
+  const src = scriptTag.getAttribute("src");
+  if (!src) {
+    console.error("Script src attribute is missing");
+    return null;
+  }
+
+  const analyticsHost = src.split("/script.js")[0];
+  if (!analyticsHost) {
+    console.error("Please provide a valid analytics host");
+    return null;
+  }
+
+  const siteId = scriptTag.getAttribute("data-site-id") || scriptTag.getAttribute("site-id");
+  if (!siteId) {
+    console.error("Please provide a valid site ID using the data-site-id attribute");
+    return null;
+  }
+
+  // These can be overridden via data attributes for testing/debugging
+  const skipPatterns = parseJsonSafely<string[]>(scriptTag.getAttribute("data-skip-patterns"), []);
+  const maskPatterns = parseJsonSafely<string[]>(scriptTag.getAttribute("data-mask-patterns"), []);
+
+  const debounceDuration = scriptTag.getAttribute("data-debounce")
+    ? Math.max(0, parseInt(scriptTag.getAttribute("data-debounce")!))
+    : 500;
+
+  const sessionReplayBatchSize = scriptTag.getAttribute("data-replay-batch-size")
+    ? Math.max(1, parseInt(scriptTag.getAttribute("data-replay-batch-size")!))
+    : 250;
+
+  const sessionReplayBatchInterval = scriptTag.getAttribute("data-replay-batch-interval")
+    ? Math.max(1000, parseInt(scriptTag.getAttribute("data-replay-batch-interval")!))
+    : 5000;
+
+  const trackEngagement = scriptTag.getAttribute("data-track-engagement") !== "false";
+  const trackFrustration = scriptTag.getAttribute("data-track-frustration") !== "false";
+
+  return fetchTrackingConfig(
+    createDefaultConfig(analyticsHost, siteId, {
+      debounceDuration,
+      sessionReplayBatchSize,
+      sessionReplayBatchInterval,
+      skipPatterns,
+      maskPatterns,
+      trackEngagement,
+      trackFrustration,
+    })
+  );
+}
+
+/**
+ * Config used until the site's tracking settings are fetched, with the given local options applied
+ */
+export function createDefaultConfig(
+  analyticsHost: string,
+  siteId: string,
+  options: Partial<ScriptConfig> = {}
+): ScriptConfig {
+  return {
+    analyticsHost,
+    siteId,
+    debounceDuration: 500,
+    sessionReplayBatchSize: 250,
+    sessionReplayBatchInterval: 5000,
+    skipPatterns: [],
+    maskPatterns: [],
+    trackEngagement: true,
+    trackFrustration: true,
+    // Default all tracking to true initially (will be updated from API)
+    autoTrackPageview: true,
+    autoTrackSpa: true,
+    trackQuerystring: true,
+    trackOutbound: true,
+    enableWebVitals: false,
+    trackErrors: false,
+    enableSessionReplay: false,
+    // Auto-capture is opt-in
+    trackForms: false,
+    trackFileDownloads: false,
+    downloadExtensions: DEFAULT_DOWNLOAD_EXTENSIONS,
+    trackContactLinks: false,
+    trackImpressions: false,
+    ...options,
+  };
+}
+
+/**
+ * Fetch the site's tracking settings and merge them over the default config
+ */
+export async function fetchTrackingConfig(defaultConfig: ScriptConfig): Promise<ScriptConfig> {
+  const { analyticsHost, siteId } = defaultConfig;
+
+  try {
+    // Fetch configuration from API
     const configUrl = `${analyticsHost}/api/site/${siteId}/tracking-config`;
     const response = await fetch(configUrl, {
       method: "GET",
@@ -70,30 +110,37 @@ export async function parseScriptConfig(scriptTag: HTMLScriptElement): Promise<S
         "Content-Type": "application/json",
       },
     });
-
-    if (response.ok) {
-      const apiConfig = await response.json();
-
-      // Merge API config with defaults, API config takes precedence
-      return {
-        ...defaultConfig,
-        // Map API field names to script config field names
-        autoTrackPageview: apiConfig.trackInitialPageView ?? defaultConfig.autoTrackPageview,
-        autoTrackSpa: apiConfig.trackSpaNavigation ?? defaultConfig.autoTrackSpa,
-        trackQuerystring: apiConfig.trackUrlParams ?? defaultConfig.trackQuerystring,
-        trackOutbound: apiConfig.trackOutbound ?? defaultConfig.trackOutbound,
-        enableWebVitals: apiConfig.webVitals ?? defaultConfig.enableWebVitals,
-        trackErrors: apiConfig.trackErrors ?? defaultConfig.trackErrors,
-        enableSessionReplay: apiConfig.sessionReplay ?? defaultConfig.enableSessionReplay,
-      };
-    } else {
-      // If API call fails, log warning and use defaults
-      console.warn("Failed to fetch tracking config from API, using defaults");
-      return defaultConfig;
-    }
-  } catch (error) {
-    // If network error, log and use defaults
-    console.warn("Error fetching tracking config:", error);
-    return defaultConfig;
-  }
-}
+
+    if (response.ok) {
+      const apiConfig = await response.json();
+
+      // Merge API config with defaults, API config takes precedence
+      return {
+        ...defaultConfig,
+        // Map API field names to script config field names
+        autoTrackPageview: apiConfig.trackInitialPageView ?? defaultConfig.autoTrackPageview,
+        autoTrackSpa: apiConfig.trackSpaNavigation ?? defaultConfig.autoTrackSpa,
+        trackQuerystring: apiConfig.trackUrlParams ?? defaultConfig.trackQuerystring,
+        trackOutbound: apiConfig.trackOutbound ?? defaultConfig.trackOutbound,
+        enableWebVitals: apiConfig.webVitals ?? defaultConfig.enableWebVitals,
+        trackErrors: apiConfig.trackErrors ?? defaultConfig.trackErrors,
+        enableSessionReplay: apiConfig.sessionReplay ?? defaultConfig.enableSessionReplay,
+        trackForms: apiConfig.trackForms ?? defaultConfig.trackForms,
+        trackFileDownloads: apiConfig.trackFileDownloads ?? defaultConfig.trackFileDownloads,
+        downloadExtensions: Array.isArray(apiConfig.downloadExtensions)
+          ? apiConfig.downloadExtensions
+          : defaultConfig.downloadExtensions,
+        trackContactLinks: apiConfig.trackContactLinks ?? defaultConfig.trackContactLinks,
+        trackImpressions: apiConfig.trackImpressions ?? defaultConfig.trackImpressions,
+      };
+    } else {
+      // If API call fails, log warning and use defaults
+      console.warn("Failed to fetch tracking config from API, using defaults");
+      return defaultConfig;
+    }
+  } catch (error) {
+    // If network error, log and use defaults
+    console.warn("Error fetching tracking config:", error);
+    return defaultConfig;
+  }
+}
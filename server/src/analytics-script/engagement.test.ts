@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EngagementTracker } from "./engagement.js";
+
+function setVisibility(state: "visible" | "hidden") {
+  Object.defineProperty(document, "visibilityState", { value: state, configurable: true });
+  document.dispatchEvent(new Event("visibilitychange"));
+}
+
+function setScroll(scrollY: number, scrollHeight: number) {
+  Object.defineProperty(window, "scrollY", { value: scrollY, configurable: true });
+  Object.defineProperty(window, "innerHeight", { value: 1000, configurable: true });
+  Object.defineProperty(document.documentElement, "scrollHeight", { value: scrollHeight, configurable: true });
+}
+
+describe("EngagementTracker", () => {
+  let onReport: ReturnType<typeof vi.fn>;
+  let tracker: EngagementTracker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    Object.defineProperty(document, "visibilityState", { value: "visible", configurable: true });
+    setScroll(0, 4000);
+
+    onReport = vi.fn();
+    tracker = new EngagementTracker(onReport);
+    tracker.initialize();
+    tracker.reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reports visible time when the page is hidden", () => {
+    vi.advanceTimersByTime(10000);
+    setVisibility("hidden");
+
+    expect(onReport).toHaveBeenCalledWith({ engaged_time_ms: 10000, scroll_depth: 25 });
+  });
+
+  it("stops counting once the visitor has been idle", () => {
+    vi.advanceTimersByTime(5000);
+    document.dispatchEvent(new Event("keydown"));
+    vi.advanceTimersByTime(120000);
+
+    tracker.report();
+
+    // 5s before the keypress plus the 30s idle allowance after it
+    expect(onReport).toHaveBeenCalledWith({ engaged_time_ms: 35000, scroll_depth: 25 });
+  });
+
+  it("resumes counting on activity after being idle", () => {
+    vi.advanceTimersByTime(60000);
+    document.dispatchEvent(new Event("mousemove"));
+    vi.advanceTimersByTime(2000);
+
+    tracker.report();
+
+    expect(onReport).toHaveBeenCalledWith({ engaged_time_ms: 32000, scroll_depth: 25 });
+  });
+
+  it("does not count time spent in a background tab", () => {
+    vi.advanceTimersByTime(3000);
+    setVisibility("hidden");
+    onReport.mockClear();
+
+    vi.advanceTimersByTime(600000);
+    setVisibility("visible");
+    vi.advanceTimersByTime(2000);
+    tracker.report();
+
+    expect(onReport).toHaveBeenCalledWith({ engaged_time_ms: 2000, scroll_depth: 25 });
+  });
+
+  it("keeps the deepest scroll position", () => {
+    setScroll(3000, 4000);
+    tracker.report();
+    setScroll(0, 4000);
+    vi.advanceTimersByTime(2000);
+    tracker.report();
+
+    expect(onReport).toHaveBeenLastCalledWith({ engaged_time_ms: 2000, scroll_depth: 100 });
+  });
+
+  it("skips reports with nothing new to say", () => {
+    vi.advanceTimersByTime(5000);
+    tracker.report();
+    vi.advanceTimersByTime(500);
+    tracker.report();
+
+    expect(onReport).toHaveBeenCalledTimes(1);
+  });
+
+  it("starts from zero after a reset", () => {
+    setScroll(3000, 4000);
+    vi.advanceTimersByTime(5000);
+    tracker.reset();
+    setScroll(0, 4000);
+    vi.advanceTimersByTime(2000);
+    tracker.report();
+
+    expect(onReport).toHaveBeenCalledWith({ engaged_time_ms: 2000, scroll_depth: 25 });
+  });
+});
@@ -0,0 +1,114 @@
+import { EngagementData } from "./types.js";
+
+// Time without any input after which the visitor stops counting as engaged
+const IDLE_TIMEOUT_MS = 30000;
+// Reports with less engaged time than this and no deeper scroll aren't worth an event
+const MIN_REPORT_MS = 1000;
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "touchstart", "wheel"];
+
+/**
+ * Measures how long the current page is visible and in use, and how far down it was scrolled.
+ * Time only counts while the tab is visible and within IDLE_TIMEOUT_MS of the last input, so background
+ * tabs and walked-away visitors don't inflate it. Measurements are reported when the page is hidden or
+ * left, and reset for each new pageview.
+ */
+export class EngagementTracker {
+  private onReport: (data: EngagementData) => void;
+  private engagedMs = 0;
+  // Engaged time has been added up to this point
+  private lastTick = Date.now();
+  private lastActivity = Date.now();
+  private visible = true;
+  private maxScrollDepth = 0;
+  private reportedScrollDepth = 0;
+  private scrollCheckPending = false;
+
+  constructor(onReport: (data: EngagementData) => void) {
+    this.onReport = onReport;
+  }
+
+  initialize(): void {
+    this.visible = document.visibilityState === "visible";
+
+    for (const eventName of ACTIVITY_EVENTS) {
+      document.addEventListener(eventName, this.handleActivity, { capture: true, passive: true });
+    }
+    window.addEventListener("scroll", this.handleScroll, { passive: true });
+
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "hidden") {
+        // The page may never be shown again, so report what we have
+        this.report();
+        this.visible = false;
+      } else {
+        const now = Date.now();
+        this.visible = true;
+        this.lastTick = now;
+        this.lastActivity = now;
+      }
+    });
+    window.addEventListener("pagehide", () => this.report());
+  }
+
+  // Starts measuring a new page
+  reset(): void {
+    const now = Date.now();
+    this.engagedMs = 0;
+    this.lastTick = now;
+    this.lastActivity = now;
+    this.maxScrollDepth = 0;
+    this.reportedScrollDepth = 0;
+  }
+
+  // Sends what was measured since the last report
+  report(): void {
+    this.accumulate(Date.now());
+    this.updateScrollDepth();
+
+    const engagedMs = Math.round(this.engagedMs);
+    if (engagedMs < MIN_REPORT_MS && this.maxScrollDepth <= this.reportedScrollDepth) {
+      return;
+    }
+
+    this.onReport({ engaged_time_ms: engagedMs, scroll_depth: this.maxScrollDepth });
+    this.engagedMs = 0;
+    this.reportedScrollDepth = this.maxScrollDepth;
+  }
+
+  private handleActivity = (): void => {
+    const now = Date.now();
+    this.accumulate(now);
+    this.lastActivity = now;
+  };
+
+  private handleScroll = (): void => {
+    this.handleActivity();
+
+    // Reading the page height forces layout, so do it at most once per frame
+    if (!this.scrollCheckPending) {
+      this.scrollCheckPending = true;
+      requestAnimationFrame(() => {
+        this.scrollCheckPending = false;
+        this.updateScrollDepth();
+      });
+    }
+  };
+
+  private accumulate(now: number): void {
+    if (this.visible) {
+      const engagedUntil = Math.min(now, this.lastActivity + IDLE_TIMEOUT_MS);
+      this.engagedMs += Math.max(0, engagedUntil - this.lastTick);
+    }
+    this.lastTick = now;
+  }
+
+  private updateScrollDepth(): void {
+    const scrollHeight = Math.max(document.documentElement.scrollHeight, document.body?.scrollHeight ?? 0);
+    if (scrollHeight <= 0) {
+      return;
+    }
+
+    const depth = Math.min(100, Math.round(((window.scrollY + window.innerHeight) / scrollHeight) * 100));
+    this.maxScrollDepth = Math.max(this.maxScrollDepth, depth);
+  }
+}
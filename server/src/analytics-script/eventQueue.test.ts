@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EventQueue } from "./eventQueue.js";
+import { TrackingPayload } from "./types.js";
+
+const STORAGE_KEY = "rybbit-queue-123";
+
+function makeEvent(pathname: string): TrackingPayload {
+  return {
+    type: "pageview",
+    site_id: "123",
+    hostname: "example.com",
+    pathname,
+    querystring: "",
+    screenWidth: 1920,
+    screenHeight: 1080,
+    language: "en-US",
+    page_title: "Test Page",
+    referrer: "",
+  };
+}
+
+function okResponse(body: unknown = { success: true, retry: [] }) {
+  return { ok: true, status: 200, json: () => Promise.resolve(body) } as unknown as Response;
+}
+
+function sentEvents(callIndex: number) {
+  return JSON.parse(vi.mocked(global.fetch).mock.calls[callIndex][1]!.body as string).events;
+}
+
+// jsdom's Blob has no text()
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+}
+
+// Lets pending fetch promises and their continuations settle
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("EventQueue", () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    Object.defineProperty(window, "localStorage", {
+      value: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value),
+        removeItem: (key: string) => storage.delete(key),
+      },
+      writable: true,
+    });
+    Object.defineProperty(navigator, "onLine", { value: true, configurable: true });
+
+    global.fetch = vi.fn().mockResolvedValue(okResponse());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends an event right away to the batch endpoint", async () => {
+    const queue = new EventQueue("https://analytics.example.com", "123");
+    queue.enqueue(makeEvent("/a"));
+    await settle();
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(global.fetch).mock.calls[0][0]).toBe("https://analytics.example.com/track/batch");
+    expect(sentEvents(0)).toEqual([expect.objectContaining({ pathname: "/a", queued_at: expect.any(Number) })]);
+    expect(queue.size()).toBe(0);
+    expect(storage.has(STORAGE_KEY)).toBe(false);
+  });
+
+  it("batches events tracked while a request is in flight", async () => {
+    let resolveFirst!: (response: Response) => void;
+    vi.mocked(global.fetch).mockImplementationOnce(() => new Promise(resolve => (resolveFirst = resolve)));
+
+    const queue = new EventQueue("https://analytics.example.com", "123");
+    queue.enqueue(makeEvent("/a"));
+    queue.enqueue(makeEvent("/b"));
+    queue.enqueue(makeEvent("/c"));
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    resolveFirst(okResponse());
+    await settle();
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(sentEvents(1).map((e: TrackingPayload) => e.pathname)).toEqual(["/b", "/c"]);
+  });
+
+  it("keeps events and retries with backoff when the network fails", async () => {
+    vi.useFakeTimers();
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(global.fetch).mockRejectedValueOnce(new Error("offline")).mockRejectedValueOnce(new Error("offline"));
+
+    const queue = new EventQueue("https://analytics.example.com", "123");
+    queue.enqueue(makeEvent("/a"));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(queue.size()).toBe(1);
+    expect(JSON.parse(storage.get(STORAGE_KEY)!)).toHaveLength(1);
+
+    // First retry after 1s, second after another 2s
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+
+    expect(queue.size()).toBe(0);
+    consoleSpy.mockRestore();
+  });
+
+  it("retries server errors but drops batches the server rejects", async () => {
+    vi.useFakeTimers();
+    vi.mocked(global.fetch).mockResolvedValueOnce({ ok: false, status: 503 } as Response);
+
+    const queue = new EventQueue("https://analytics.example.com", "123");
+    queue.enqueue(makeEvent("/a"));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.size()).toBe(1);
+
+    vi.mocked(global.fetch).mockResolvedValueOnce({ ok: false, status: 400 } as Response);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(queue.size()).toBe(0);
+  });
+
+  it("requeues only the events the server asks to retry", async () => {
+    vi.useFakeTimers();
+    storage.set(
+      STORAGE_KEY,
+      JSON.stringify(["/a", "/b", "/c"].map((pathname, i) => ({ ...makeEvent(pathname), queued_at: i })))
+    );
+    vi.mocked(global.fetch).mockResolvedValueOnce(okResponse({ success: true, retry: [1] }));
+
+    const queue = new EventQueue("https://analytics.example.com", "123");
+    await queue.flush();
+
+    expect(sentEvents(0).map((e: TrackingPayload) => e.pathname)).toEqual(["/a", "/b", "/c"]);
+    expect(queue.size()).toBe(1);
+    expect(JSON.parse(storage.get(STORAGE_KEY)!)[0].pathname).toBe("/b");
+  });
+
+  it("splits batches that would exceed the keepalive size limit", async () => {
+    const big = "x".repeat(25000);
+    storage.set(
+      STORAGE_KEY,
+      JSON.stringify(["/a", "/b", "/c"].map(pathname => ({ ...makeEvent(pathname), page_title: big, queued_at: 1 })))
+    );
+
+    const queue = new EventQueue("https://analytics.example.com", "123");
+    await queue.flush();
+
+    expect(sentEvents(0).map((e: TrackingPayload) => e.pathname)).toEqual(["/a", "/b"]);
+    expect(sentEvents(1).map((e: TrackingPayload) => e.pathname)).toEqual(["/c"]);
+    expect(vi.mocked(global.fetch).mock.calls[0][1]!.keepalive).toBe(true);
+  });
+
+  it("sends a single oversized event without keepalive", async () => {
+    const queue = new EventQueue("https://analytics.example.com", "123");
+    queue.enqueue({ ...makeEvent("/a"), page_title: "x".repeat(70000) });
+    await settle();
+
+    expect(sentEvents(0)).toHaveLength(1);
+    expect(vi.mocked(global.fetch).mock.calls[0][1]!.keepalive).toBe(false);
+  });
+
+  it("sends events left over from an earlier page load", async () => {
+    storage.set(STORAGE_KEY, JSON.stringify([{ ...makeEvent("/old"), queued_at: 1 }]));
+
+    const queue = new EventQueue("https://analytics.example.com", "123");
+    await queue.flush();
+
+    expect(sentEvents(0)).toEqual([expect.objectContaining({ pathname: "/old", queued_at: 1 })]);
+    expect(storage.has(STORAGE_KEY)).toBe(false);
+  });
+
+  it("drops the oldest events once the queue is full", () => {
+    Object.defineProperty(navigator, "onLine", { value: false, configurable: true });
+
+    const queue = new EventQueue("https://analytics.example.com", "123");
+    for (let i = 0; i < 205; i++) {
+      queue.enqueue(makeEvent(`/${i}`));
+    }
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(queue.size()).toBe(200);
+    expect(JSON.parse(storage.get(STORAGE_KEY)!)[0].pathname).toBe("/5");
+  });
+
+  describe("flushWithBeacon", () => {
+    beforeEach(() => {
+      Object.defineProperty(navigator, "onLine", { value: false, configurable: true });
+    });
+
+    it("hands queued events to sendBeacon as text/plain", async () => {
+      const sendBeacon = vi.fn().mockReturnValue(true);
+      Object.defineProperty(navigator, "sendBeacon", { value: sendBeacon, configurable: true });
+
+      const queue = new EventQueue("https://analytics.example.com", "123");
+      queue.enqueue(makeEvent("/a"));
+      queue.enqueue(makeEvent("/b"));
+
+      Object.defineProperty(navigator, "onLine", { value: true, configurable: true });
+      queue.flushWithBeacon();
+
+      expect(sendBeacon).toHaveBeenCalledTimes(1);
+      const [url, blob] = sendBeacon.mock.calls[0];
+      expect(url).toBe("https://analytics.example.com/track/batch");
+      expect((blob as Blob).type).toBe("text/plain");
+      const body = JSON.parse(await readBlob(blob as Blob));
+      expect(body.events.map((e: TrackingPayload) => e.pathname)).toEqual(["/a", "/b"]);
+      expect(queue.size()).toBe(0);
+      expect(storage.has(STORAGE_KEY)).toBe(false);
+    });
+
+    it("keeps events the browser refuses to queue", () => {
+      Object.defineProperty(navigator, "sendBeacon", { value: vi.fn().mockReturnValue(false), configurable: true });
+
+      const queue = new EventQueue("https://analytics.example.com", "123");
+      queue.enqueue(makeEvent("/a"));
+
+      Object.defineProperty(navigator, "onLine", { value: true, configurable: true });
+      queue.flushWithBeacon();
+
+      expect(queue.size()).toBe(1);
+      expect(JSON.parse(storage.get(STORAGE_KEY)!)).toHaveLength(1);
+    });
+  });
+});
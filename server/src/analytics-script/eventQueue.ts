@@ -0,0 +1,186 @@
+import { TrackingPayload } from "./types.js";
+
+export interface QueuedEvent extends TrackingPayload {
+  // Browser clock time when the event was tracked; the server backdates the event by how long it waited
+  queued_at: number;
+}
+
+const MAX_QUEUE_SIZE = 200;
+// Matches MAX_BATCH_EVENTS on the server
+const MAX_BATCH_SIZE = 50;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60000;
+// Browsers cap the total size of pending beacons and keepalive requests at 64KB
+const MAX_KEEPALIVE_BYTES = 60000;
+
+/**
+ * Holds tracked events until the server has them. Events are persisted to localStorage, sent in batches,
+ * retried with exponential backoff when the network or server fails, and handed to sendBeacon when the page
+ * is hidden so they survive navigation. Anything still queued is sent on the next page load.
+ *
+ * Tabs share one storage key and the last tab to write wins, so at worst another tab's backlog is lost.
+ */
+export class EventQueue {
+  private endpoint: string;
+  private storageKey: string;
+  private events: QueuedEvent[];
+  // The first `inFlight` events have been handed to fetch and are left out of storage until it settles
+  private inFlight = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+
+  constructor(analyticsHost: string, siteId: string) {
+    this.endpoint = `${analyticsHost}/track/batch`;
+    this.storageKey = `rybbit-queue-${siteId}`;
+    this.events = this.load();
+  }
+
+  enqueue(payload: TrackingPayload): void {
+    this.events.push({ ...payload, queued_at: Date.now() });
+
+    // Drop the oldest unsent events once the queue is full
+    const overflow = this.events.length - MAX_QUEUE_SIZE;
+    if (overflow > 0) {
+      this.events.splice(this.inFlight, Math.min(overflow, this.events.length - this.inFlight));
+    }
+
+    this.persist();
+    this.flush();
+  }
+
+  size(): number {
+    return this.events.length;
+  }
+
+  // Sends the next batch unless one is already in flight or a retry is pending
+  async flush(): Promise<void> {
+    if (this.inFlight > 0 || this.retryTimer || this.events.length === 0) {
+      return;
+    }
+    // Wait for the "online" event rather than burning retries
+    if (navigator.onLine === false) {
+      return;
+    }
+
+    const batch = this.nextChunk(0);
+    this.inFlight = batch.length;
+    this.persist();
+
+    const body = JSON.stringify({ sent_at: Date.now(), events: batch });
+
+    let failed = false;
+    let retry: number[] = [];
+    try {
+      const response = await fetch(this.endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body,
+        mode: "cors",
+        // Browsers reject oversized keepalive requests outright, so a single huge event goes without it
+        keepalive: body.length <= MAX_KEEPALIVE_BYTES,
+      });
+
+      if (response.ok) {
+        const result = await response.json().catch(() => null);
+        retry = Array.isArray(result?.retry) ? result.retry : [];
+      } else if (response.status >= 500 || response.status === 429) {
+        failed = true;
+      }
+      // Any other error means the batch itself was rejected, and sending it again won't help
+    } catch (error) {
+      console.error("Failed to send tracking data:", error);
+      failed = true;
+    }
+
+    const unsent = failed ? batch : retry.map(index => batch[index]).filter(Boolean);
+    this.events.splice(0, this.inFlight, ...unsent);
+    this.inFlight = 0;
+    this.persist();
+
+    if (unsent.length > 0) {
+      this.scheduleRetry();
+    } else {
+      this.attempts = 0;
+      this.flush();
+    }
+  }
+
+  // Retries right away, e.g. when the browser comes back online
+  retryNow(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.flush();
+  }
+
+  /**
+   * Hands everything not already in flight to sendBeacon, which the browser delivers even after the page is
+   * gone. Events the browser refuses stay queued for the next page load.
+   */
+  flushWithBeacon(): void {
+    if (typeof navigator.sendBeacon !== "function" || navigator.onLine === false) {
+      return;
+    }
+
+    while (this.events.length > this.inFlight) {
+      const chunk = this.nextChunk(this.inFlight);
+      const body = JSON.stringify({ sent_at: Date.now(), events: chunk });
+      // text/plain keeps the beacon a simple request that needs no CORS preflight
+      if (!navigator.sendBeacon(this.endpoint, new Blob([body], { type: "text/plain" }))) {
+        break;
+      }
+      this.events.splice(this.inFlight, chunk.length);
+    }
+
+    this.persist();
+  }
+
+  // The events from `start` that fit in one batch, by count and by size
+  private nextChunk(start: number): QueuedEvent[] {
+    const pending = this.events.slice(start, start + MAX_BATCH_SIZE);
+    let bytes = 0;
+    for (let i = 0; i < pending.length; i++) {
+      bytes += JSON.stringify(pending[i]).length;
+      if (bytes > MAX_KEEPALIVE_BYTES && i > 0) {
+        return pending.slice(0, i);
+      }
+    }
+    return pending;
+  }
+
+  private scheduleRetry(): void {
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** this.attempts, RETRY_MAX_DELAY_MS);
+    this.attempts++;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private load(): QueuedEvent[] {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      const events = stored ? JSON.parse(stored) : [];
+      return Array.isArray(events) ? events.slice(-MAX_QUEUE_SIZE) : [];
+    } catch (e) {
+      // localStorage not available or holds something we didn't write
+      return [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      const unsent = this.events.slice(this.inFlight);
+      if (unsent.length > 0) {
+        localStorage.setItem(this.storageKey, JSON.stringify(unsent));
+      } else {
+        localStorage.removeItem(this.storageKey);
+      }
+    } catch (e) {
+      // localStorage not available or full; events are still kept in memory
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { FrustrationDetector } from "./frustration.js";
+
+function click(element: Element, x = 100, y = 100) {
+  element.dispatchEvent(new MouseEvent("click", { bubbles: true, clientX: x, clientY: y }));
+}
+
+describe("FrustrationDetector", () => {
+  let onSignal: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    Object.defineProperty(document, "visibilityState", { value: "visible", configurable: true });
+    document.body.innerHTML = `<div id="checkout"><button class="pay">Pay now</button><span>Total</span></div>`;
+
+    onSignal = vi.fn();
+    // Listeners from earlier tests stay attached to document, so only look at this test's detector
+    new FrustrationDetector(onSignal).initialize();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("rage clicks", () => {
+    it("reports three quick clicks on one spot once per burst", () => {
+      const span = document.querySelector("span")!;
+      for (let i = 0; i < 5; i++) {
+        click(span);
+        vi.advanceTimersByTime(100);
+      }
+
+      expect(onSignal).toHaveBeenCalledTimes(1);
+      expect(onSignal).toHaveBeenCalledWith({
+        type: "rage_click",
+        selector: "#checkout > span",
+        text: "Total",
+        clicks: 3,
+      });
+    });
+
+    it("ignores clicks spread out in space or time", () => {
+      const span = document.querySelector("span")!;
+      click(span, 0, 0);
+      click(span, 200, 0);
+      click(span, 400, 0);
+      click(span);
+      vi.advanceTimersByTime(1500);
+      click(span);
+
+      expect(onSignal).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("dead clicks", () => {
+    it("reports a click on a button that changes nothing", () => {
+      click(document.querySelector("button")!);
+      vi.advanceTimersByTime(1000);
+
+      expect(onSignal).toHaveBeenCalledWith({
+        type: "dead_click",
+        selector: "#checkout > button.pay",
+        text: "Pay now",
+      });
+    });
+
+    it("does not report a click that changes the page", async () => {
+      const button = document.querySelector("button")!;
+      button.addEventListener("click", () => button.setAttribute("aria-busy", "true"));
+
+      click(button);
+      // Let the MutationObserver callback run
+      await Promise.resolve();
+      vi.advanceTimersByTime(1000);
+
+      expect(onSignal).not.toHaveBeenCalled();
+    });
+
+    it("ignores clicks on things that aren't clickable", () => {
+      click(document.querySelector("span")!);
+      vi.advanceTimersByTime(1000);
+
+      expect(onSignal).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("error clicks", () => {
+    it("reports an error right after a click", () => {
+      click(document.querySelector("button")!);
+      window.dispatchEvent(new ErrorEvent("error", { message: "Cannot read properties of undefined" }));
+      window.dispatchEvent(new ErrorEvent("error", { message: "A second error" }));
+
+      const errorClicks = onSignal.mock.calls.filter(([signal]) => signal.type === "error_click");
+      expect(errorClicks).toEqual([
+        [
+          {
+            type: "error_click",
+            selector: "#checkout > button.pay",
+            text: "Pay now",
+            message: "Cannot read properties of undefined",
+          },
+        ],
+      ]);
+    });
+
+    it("ignores errors long after the last click", () => {
+      click(document.querySelector("span")!);
+      vi.advanceTimersByTime(2000);
+      window.dispatchEvent(new ErrorEvent("error", { message: "Unrelated" }));
+
+      expect(onSignal).not.toHaveBeenCalled();
+    });
+  });
+});
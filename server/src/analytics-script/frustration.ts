@@ -0,0 +1,134 @@
+import { FrustrationSignal } from "./types.js";
+import { getElementSelector } from "./utils.js";
+
+// Rage click: this many clicks close together in space and time
+const RAGE_CLICK_COUNT = 3;
+const RAGE_CLICK_WINDOW_MS = 1000;
+const RAGE_CLICK_RADIUS_PX = 30;
+// Dead click: a click on something clickable after which nothing on the page changes for this long
+const DEAD_CLICK_TIMEOUT_MS = 1000;
+// Error click: an error this soon after a click
+const ERROR_CLICK_WINDOW_MS = 1000;
+
+const CLICKABLE_SELECTOR =
+  'a[href], button, summary, [onclick], [role="button"], [role="link"], [role="tab"], [role="menuitem"], input[type="button"], input[type="submit"]';
+// Clickable elements that normally change nothing on the page, such as links opening a new tab
+const NO_FEEDBACK_SELECTOR =
+  'a[target="_blank"], a[download], a[href^="mailto:"], a[href^="tel:"], label, select, textarea, [contenteditable]';
+
+interface RecentClick {
+  time: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Watches clicks for signs of a frustrated visitor: rage clicks (repeated clicks on one spot), dead clicks
+ * (a click on something clickable that changes nothing) and error clicks (a click followed by a JavaScript error).
+ */
+export class FrustrationDetector {
+  private onSignal: (signal: FrustrationSignal) => void;
+  private recentClicks: RecentClick[] = [];
+  private rageReported = false;
+  private deadClickPending = false;
+  private lastClick: { time: number; element: Element } | null = null;
+  private leaving = false;
+
+  constructor(onSignal: (signal: FrustrationSignal) => void) {
+    this.onSignal = onSignal;
+  }
+
+  initialize(): void {
+    // Capture phase, so clicks the page stops from propagating still count
+    document.addEventListener("click", this.handleClick, true);
+    window.addEventListener("error", event => this.handleError(event.message || String(event.error)));
+    window.addEventListener("unhandledrejection", event =>
+      this.handleError(event.reason instanceof Error ? event.reason.message : String(event.reason))
+    );
+    window.addEventListener("pagehide", () => {
+      this.leaving = true;
+    });
+  }
+
+  private handleClick = (e: MouseEvent): void => {
+    if (!(e.target instanceof Element)) {
+      return;
+    }
+
+    const now = Date.now();
+    const clickable = e.target.closest(CLICKABLE_SELECTOR);
+    const element = clickable || e.target;
+    this.lastClick = { time: now, element };
+
+    this.checkRageClick(now, e.clientX, e.clientY, element);
+
+    if (clickable && !clickable.matches(NO_FEEDBACK_SELECTOR)) {
+      this.checkDeadClick(clickable);
+    }
+  };
+
+  private checkRageClick(now: number, x: number, y: number, element: Element): void {
+    this.recentClicks = this.recentClicks.filter(click => now - click.time <= RAGE_CLICK_WINDOW_MS);
+    if (this.recentClicks.length === 0) {
+      // A new burst of clicks
+      this.rageReported = false;
+    }
+    this.recentClicks.push({ time: now, x, y });
+
+    const nearby = this.recentClicks.filter(
+      click => Math.hypot(click.x - x, click.y - y) <= RAGE_CLICK_RADIUS_PX
+    ).length;
+    if (nearby >= RAGE_CLICK_COUNT && !this.rageReported) {
+      this.rageReported = true;
+      this.report("rage_click", element, { clicks: nearby });
+    }
+  }
+
+  private checkDeadClick(element: Element): void {
+    // One check at a time; repeated clicks on a dead element show up as a rage click instead
+    if (this.deadClickPending || typeof MutationObserver === "undefined") {
+      return;
+    }
+    this.deadClickPending = true;
+
+    const startUrl = window.location.href;
+    let changed = false;
+    const observer = new MutationObserver(() => {
+      changed = true;
+      observer.disconnect();
+    });
+    observer.observe(document.documentElement, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      characterData: true,
+    });
+
+    setTimeout(() => {
+      observer.disconnect();
+      this.deadClickPending = false;
+      if (!changed && !this.leaving && window.location.href === startUrl && document.visibilityState === "visible") {
+        this.report("dead_click", element);
+      }
+    }, DEAD_CLICK_TIMEOUT_MS);
+  }
+
+  private handleError(message: string): void {
+    if (!this.lastClick || Date.now() - this.lastClick.time > ERROR_CLICK_WINDOW_MS) {
+      return;
+    }
+    // Only the first error after a click
+    const { element } = this.lastClick;
+    this.lastClick = null;
+    this.report("error_click", element, { message: message.substring(0, 500) });
+  }
+
+  private report(type: FrustrationSignal["type"], element: Element, extra: Partial<FrustrationSignal> = {}): void {
+    this.onSignal({
+      type,
+      selector: getElementSelector(element),
+      text: (element.textContent || "").trim().replace(/\s+/g, " ").substring(0, 100),
+      ...extra,
+    });
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { setupTracking } from "./setup.js";
+import { Tracker } from "./tracking.js";
+import { ScriptConfig } from "./types.js";
+
+vi.mock("./tracking.js", () => ({
+  Tracker: vi.fn().mockImplementation(() => ({
+    trackPageview: vi.fn(),
+    trackEvent: vi.fn(),
+    onPageChange: vi.fn(),
+    cleanup: vi.fn(),
+    flushQueuedEvents: vi.fn(),
+    retryQueuedEvents: vi.fn(),
+  })),
+}));
+
+function makeConfig(overrides: Partial<ScriptConfig> = {}): ScriptConfig {
+  return {
+    analyticsHost: "https://analytics.example.com",
+    siteId: "123",
+    debounceDuration: 0,
+    autoTrackPageview: true,
+    autoTrackSpa: true,
+    trackQuerystring: true,
+    trackOutbound: true,
+    enableWebVitals: false,
+    trackErrors: false,
+    enableSessionReplay: false,
+    trackEngagement: false,
+    trackFrustration: false,
+    trackForms: false,
+    trackFileDownloads: false,
+    downloadExtensions: [],
+    trackContactLinks: false,
+    trackImpressions: false,
+    sessionReplayBatchSize: 250,
+    sessionReplayBatchInterval: 5000,
+    skipPatterns: [],
+    maskPatterns: [],
+    ...overrides,
+  };
+}
+
+// The mocked Tracker created by the last setupTracking call
+function lastTracker() {
+  return vi.mocked(Tracker).mock.results.at(-1)!.value;
+}
+
+describe("setupTracking", () => {
+  const originalPushState = history.pushState;
+  const originalReplaceState = history.replaceState;
+
+  beforeEach(() => {
+    vi.mocked(Tracker).mockClear();
+  });
+
+  afterEach(() => {
+    history.pushState = originalPushState;
+    history.replaceState = originalReplaceState;
+  });
+
+  it("tracks the initial pageview", () => {
+    setupTracking(makeConfig(), { patchHistory: true });
+
+    expect(lastTracker().trackPageview).toHaveBeenCalledTimes(1);
+  });
+
+  it("tracks navigations through history.pushState", () => {
+    setupTracking(makeConfig({ autoTrackPageview: false }), { patchHistory: true });
+    history.pushState({}, "", "/pricing");
+
+    expect(lastTracker().trackPageview).toHaveBeenCalledTimes(1);
+    expect(lastTracker().onPageChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves history alone when a router reports navigations", () => {
+    const { onRouteChange } = setupTracking(makeConfig({ autoTrackPageview: false }), { patchHistory: false });
+    history.pushState({}, "", "/docs");
+
+    expect(history.pushState).toBe(originalPushState);
+    expect(lastTracker().trackPageview).not.toHaveBeenCalled();
+
+    onRouteChange();
+    expect(lastTracker().trackPageview).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores route changes when SPA tracking is off for the site", () => {
+    const { onRouteChange } = setupTracking(makeConfig({ autoTrackPageview: false, autoTrackSpa: false }), {
+      patchHistory: false,
+    });
+    onRouteChange();
+
+    expect(lastTracker().trackPageview).not.toHaveBeenCalled();
+  });
+
+  it("exposes the tracker through the public API", () => {
+    const { api } = setupTracking(makeConfig({ autoTrackPageview: false }), { patchHistory: false });
+    api.event("signup", { plan: "pro" });
+
+    expect(lastTracker().trackEvent).toHaveBeenCalledWith("signup", { plan: "pro" });
+  });
+});
@@ -0,0 +1,194 @@
+import { Tracker } from "./tracking.js";
+import { WebVitalsCollector } from "./webVitals.js";
+import { AutoCapture } from "./autoCapture.js";
+import { FrustrationDetector } from "./frustration.js";
+import { debounce, getDataProperties, isOutboundLink } from "./utils.js";
+import { RybbitAPI, ScriptConfig, WebVitalsData, ErrorProperties } from "./types.js";
+
+declare global {
+  interface Window {
+    __RYBBIT_OPTOUT__?: boolean;
+  }
+}
+
+export interface TrackingInstance {
+  api: RybbitAPI;
+  // Tracks a pageview for a client-side navigation, if SPA tracking is enabled for the site
+  onRouteChange: () => void;
+}
+
+export interface SetupOptions {
+  // Wrap history.pushState/replaceState to detect navigations. Off when a router reports them instead.
+  patchHistory: boolean;
+}
+
+export function isOptedOut(): boolean {
+  try {
+    return !!window.__RYBBIT_OPTOUT__ || localStorage.getItem("disable-rybbit") !== null;
+  } catch (e) {
+    // localStorage not available
+    return !!window.__RYBBIT_OPTOUT__;
+  }
+}
+
+export function createNoopApi(): RybbitAPI {
+  return {
+    pageview: () => {},
+    event: () => {},
+    error: () => {},
+    trackOutbound: () => {},
+    identify: () => {},
+    clearUserId: () => {},
+    getUserId: () => null,
+    startSessionReplay: () => {},
+    stopSessionReplay: () => {},
+    isSessionReplayActive: () => false,
+  };
+}
+
+/**
+ * Starts tracking with a resolved config: sets up the tracker, the optional collectors, click and
+ * navigation listeners, and tracks the initial pageview. Shared by script.js and the npm SDK.
+ */
+export function setupTracking(config: ScriptConfig, { patchHistory }: SetupOptions): TrackingInstance {
+  // Initialize tracker
+  const tracker = new Tracker(config);
+
+  // Initialize web vitals if enabled
+  if (config.enableWebVitals) {
+    const webVitalsCollector = new WebVitalsCollector((vitals: WebVitalsData) => {
+      tracker.trackWebVitals(vitals);
+    });
+    webVitalsCollector.initialize();
+  }
+
+  // Initialize error tracking if enabled
+  if (config.trackErrors) {
+    // Global error handler for uncaught errors
+    window.addEventListener("error", event => {
+      tracker.trackError(event.error || new Error(event.message), {
+        filename: event.filename,
+        lineno: event.lineno,
+        colno: event.colno,
+      });
+    });
+
+    // Global handler for unhandled promise rejections
+    window.addEventListener("unhandledrejection", event => {
+      const error = event.reason instanceof Error ? event.reason : new Error(String(event.reason));
+      tracker.trackError(error, {
+        type: "unhandledrejection",
+      });
+    });
+  }
+
+  // Initialize rage, dead and error click detection if enabled
+  if (config.trackFrustration) {
+    const frustrationDetector = new FrustrationDetector(signal => tracker.trackFrustration(signal));
+    frustrationDetector.initialize();
+  }
+
+  // Initialize auto-capture of forms, downloads, contact links and impressions
+  const autoCapture = new AutoCapture(config, (name, properties) => tracker.trackEvent(name, properties));
+  autoCapture.initialize();
+
+  // Create debounced pageview tracker
+  const trackPageview = () => tracker.trackPageview();
+  const debouncedTrackPageview =
+    config.debounceDuration > 0 ? debounce(trackPageview, config.debounceDuration) : trackPageview;
+
+  const onRouteChange = () => {
+    if (!config.autoTrackSpa) {
+      return;
+    }
+    debouncedTrackPageview();
+    tracker.onPageChange();
+    autoCapture.onPageChange();
+  };
+
+  // Track custom events and outbound links
+  document.addEventListener("click", function (e) {
+    let target = e.target as HTMLElement;
+
+    // Check for custom events via data attributes
+    while (target && target !== document.documentElement) {
+      if (target.hasAttribute("data-rybbit-event")) {
+        const eventName = target.getAttribute("data-rybbit-event");
+        if (eventName) {
+          tracker.trackEvent(eventName, getDataProperties(target));
+        }
+        break;
+      }
+      target = target.parentElement as HTMLElement;
+    }
+
+    const link = (e.target as HTMLElement).closest("a") as HTMLAnchorElement;
+
+    // Downloads and contact links are captured as their own events
+    if (link && autoCapture.captureLinkClick(link)) {
+      return;
+    }
+
+    // Check for outbound links
+    if (config.trackOutbound) {
+      if (link?.href && isOutboundLink(link.href)) {
+        tracker.trackOutbound(link.href, link.innerText || link.textContent || "", link.target || "_self");
+      }
+    }
+  });
+
+  // Setup SPA tracking
+  if (config.autoTrackSpa && patchHistory) {
+    const originalPushState = history.pushState;
+    const originalReplaceState = history.replaceState;
+
+    history.pushState = function (...args) {
+      originalPushState.apply(this, args);
+      onRouteChange();
+    };
+
+    history.replaceState = function (...args) {
+      originalReplaceState.apply(this, args);
+      onRouteChange();
+    };
+
+    window.addEventListener("popstate", onRouteChange);
+    window.addEventListener("hashchange", onRouteChange);
+  }
+
+  // Setup cleanup on page unload
+  window.addEventListener("beforeunload", () => {
+    tracker.cleanup();
+  });
+
+  // Deliver queued events before the page goes away, and retry them once the network is back
+  window.addEventListener("pagehide", () => tracker.flushQueuedEvents());
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") {
+      tracker.flushQueuedEvents();
+    }
+  });
+  window.addEventListener("online", () => tracker.retryQueuedEvents());
+
+  // Track initial pageview if enabled
+  if (config.autoTrackPageview) {
+    tracker.trackPageview();
+  }
+
+  return {
+    api: {
+      pageview: () => tracker.trackPageview(),
+      event: (name: string, properties: Record<string, any> = {}) => tracker.trackEvent(name, properties),
+      error: (error: Error, properties: ErrorProperties = {}) => tracker.trackError(error, properties),
+      trackOutbound: (url: string, text: string = "", target: string = "_self") =>
+        tracker.trackOutbound(url, text, target),
+      identify: (userId: string) => tracker.identify(userId),
+      clearUserId: () => tracker.clearUserId(),
+      getUserId: () => tracker.getUserId(),
+      startSessionReplay: () => tracker.startSessionReplay(),
+      stopSessionReplay: () => tracker.stopSessionReplay(),
+      isSessionReplayActive: () => tracker.isSessionReplayActive(),
+    },
+    onRouteChange,
+  };
+}
@@ -85,6 +85,13 @@ describe("Tracker", () => {
       trackErrors: false,
       enableWebVitals: false,
       enableSessionReplay: false,
+      trackEngagement: false,
+      trackFrustration: false,
+      trackForms: false,
+      trackFileDownloads: false,
+      downloadExtensions: [],
+      trackContactLinks: false,
+      trackImpressions: false,
       sessionReplayBatchSize: 50,
       sessionReplayBatchInterval: 5000,
       skipPatterns: [],
@@ -161,7 +168,7 @@ describe("Tracker", () => {
       tracker.trackPageview();
 
       expect(global.fetch).toHaveBeenCalledWith(
-        "https://analytics.example.com/track",
+        "https://analytics.example.com/track/batch",
         expect.objectContaining({
           method: "POST",
           headers: { "Content-Type": "application/json" },
@@ -176,13 +183,13 @@ describe("Tracker", () => {
       tracker.trackEvent("button_click", { button: "submit" });
 
       expect(global.fetch).toHaveBeenCalledWith(
-        "https://analytics.example.com/track",
+        "https://analytics.example.com/track/batch",
         expect.objectContaining({
           body: expect.stringContaining('"type":"custom_event"'),
         })
       );
 
-      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string);
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string).events[0];
       expect(body.event_name).toBe("button_click");
       expect(body.properties).toBe(JSON.stringify({ button: "submit" }));
     });
@@ -200,7 +207,7 @@ describe("Tracker", () => {
     it("should track outbound link", async () => {
       tracker.trackOutbound("https://external.com", "External Link", "_blank");
 
-      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string);
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string).events[0];
       expect(body.type).toBe("outbound");
       expect(body.properties).toBe(
         JSON.stringify({
@@ -222,13 +229,47 @@ describe("Tracker", () => {
 
       tracker.trackWebVitals(vitals);
 
-      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string);
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string).events[0];
       expect(body.type).toBe("performance");
       expect(body.event_name).toBe("web-vitals");
       expect(body.lcp).toBe(2500);
       expect(body.cls).toBe(0.1);
     });
 
+    it("should report engagement against the last pageview", async () => {
+      tracker.trackPageview();
+      mockLocation.pathname = "/other";
+
+      tracker.trackEngagement({ engaged_time_ms: 4200, scroll_depth: 80 });
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[1][1]!.body as string).events[0];
+      expect(body.type).toBe("engagement");
+      expect(body.pathname).toBe("/page");
+      expect(body.engaged_time_ms).toBe(4200);
+      expect(body.scroll_depth).toBe(80);
+    });
+
+    it("should not report engagement for skipped pages", () => {
+      config.skipPatterns = ["/page"];
+      tracker = new Tracker(config);
+
+      tracker.trackPageview();
+      tracker.trackEngagement({ engaged_time_ms: 4200, scroll_depth: 80 });
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should send frustration signals with the signal as event name", async () => {
+      tracker.trackFrustration({ type: "rage_click", selector: "#checkout", text: "Pay now", clicks: 4 });
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string).events[0];
+      expect(body.type).toBe("frustration");
+      expect(body.event_name).toBe("rage_click");
+      expect(JSON.parse(body.properties)).toEqual({ selector: "#checkout", text: "Pay now", clicks: 4 });
+    });
+
     it("should handle fetch errors gracefully", async () => {
       const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
       vi.mocked(global.fetch).mockRejectedValue(new Error("Network error"));
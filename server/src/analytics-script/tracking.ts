@@ -1,19 +1,42 @@
-import { BasePayload, ScriptConfig, TrackingPayload, WebVitalsData, SessionReplayBatch } from "./types.js";
+import {
+  BasePayload,
+  EngagementData,
+  FrustrationSignal,
+  ScriptConfig,
+  TrackingPayload,
+  WebVitalsData,
+  SessionReplayBatch,
+} from "./types.js";
 import { findMatchingPattern } from "./utils.js";
 import { SessionReplayRecorder } from "./sessionReplay.js";
+import { EventQueue } from "./eventQueue.js";
+import { EngagementTracker } from "./engagement.js";
 
 export class Tracker {
   private config: ScriptConfig;
   private customUserId: string | null = null;
   private sessionReplayRecorder?: SessionReplayRecorder;
+  private eventQueue: EventQueue;
+  private engagementTracker?: EngagementTracker;
+  // Base payload of the last tracked pageview, which engagement is reported against
+  private currentPage: BasePayload | null = null;
 
   constructor(config: ScriptConfig) {
     this.config = config;
     this.loadUserId();
 
+    // Send whatever an earlier page load couldn't deliver
+    this.eventQueue = new EventQueue(config.analyticsHost, config.siteId);
+    this.eventQueue.flush();
+
     if (config.enableSessionReplay) {
       this.initializeSessionReplay();
     }
+
+    if (config.trackEngagement) {
+      this.engagementTracker = new EngagementTracker(data => this.trackEngagement(data));
+      this.engagementTracker.initialize();
+    }
   }
 
   private loadUserId(): void {
@@ -94,20 +117,18 @@ export class Tracker {
     return payload;
   }
 
-  async sendTrackingData(payload: TrackingPayload): Promise<void> {
-    try {
-      await fetch(`${this.config.analyticsHost}/track`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-        mode: "cors",
-        keepalive: true,
-      });
-    } catch (error) {
-      console.error("Failed to send tracking data:", error);
-    }
+  sendTrackingData(payload: TrackingPayload): void {
+    this.eventQueue.enqueue(payload);
+  }
+
+  // Called when the browser reports it is back online
+  retryQueuedEvents(): void {
+    this.eventQueue.retryNow();
+  }
+
+  // Called when the page is hidden or unloaded, as the page may never become visible again
+  flushQueuedEvents(): void {
+    this.eventQueue.flushWithBeacon();
   }
 
   track(eventType: TrackingPayload["type"], eventName: string = "", properties: Record<string, any> = {}): void {
@@ -117,6 +138,9 @@ export class Tracker {
     }
 
     const basePayload = this.createBasePayload();
+    if (eventType === "pageview") {
+      this.currentPage = basePayload;
+    }
     if (!basePayload) {
       return; // Skip tracking
     }
@@ -126,7 +150,7 @@ export class Tracker {
       type: eventType,
       event_name: eventName,
       properties:
-        eventType === "custom_event" || eventType === "outbound" || eventType === "error"
+        eventType === "custom_event" || eventType === "outbound" || eventType === "error" || eventType === "frustration"
           ? JSON.stringify(properties)
           : undefined,
     };
@@ -135,6 +159,11 @@ export class Tracker {
   }
 
   trackPageview(): void {
+    // Close out the previous page before measuring the new one
+    if (this.engagementTracker) {
+      this.engagementTracker.report();
+      this.engagementTracker.reset();
+    }
     this.track("pageview");
   }
 
@@ -162,6 +191,23 @@ export class Tracker {
     this.sendTrackingData(payload);
   }
 
+  trackEngagement(data: EngagementData): void {
+    // Reported against the page the time was spent on, which may no longer be the current URL
+    if (!this.currentPage) {
+      return;
+    }
+
+    this.sendTrackingData({
+      ...this.currentPage,
+      type: "engagement",
+      ...data,
+    });
+  }
+
+  trackFrustration({ type, ...properties }: FrustrationSignal): void {
+    this.track("frustration", type, properties);
+  }
+
   trackError(error: Error, additionalInfo: Record<string, any> = {}): void {
     // Industry-standard filtering: Only track errors from the same origin to avoid noise from third-party scripts
     const currentOrigin = window.location.origin;
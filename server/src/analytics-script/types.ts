@@ -9,6 +9,13 @@ export interface ScriptConfig {
   enableWebVitals: boolean;
   trackErrors: boolean;
   enableSessionReplay: boolean;
+  trackEngagement: boolean;
+  trackFrustration: boolean;
+  trackForms: boolean;
+  trackFileDownloads: boolean;
+  downloadExtensions: string[];
+  trackContactLinks: boolean;
+  trackImpressions: boolean;
   sessionReplayBatchSize: number;
   sessionReplayBatchInterval: number;
   skipPatterns: string[];
@@ -29,7 +36,7 @@ export interface BasePayload {
 }
 
 export interface TrackingPayload extends BasePayload {
-  type: "pageview" | "custom_event" | "outbound" | "performance" | "error";
+  type: "pageview" | "custom_event" | "outbound" | "performance" | "error" | "engagement" | "frustration";
   event_name?: string;
   properties?: string;
   // Web vitals metrics
@@ -38,6 +45,9 @@ export interface TrackingPayload extends BasePayload {
   inp?: number | null;
   fcp?: number | null;
   ttfb?: number | null;
+  // Engagement metrics
+  engaged_time_ms?: number;
+  scroll_depth?: number;
 }
 
 export interface WebVitalsData {
@@ -48,6 +58,22 @@ export interface WebVitalsData {
   ttfb: number | null;
 }
 
+export interface EngagementData {
+  engaged_time_ms: number;
+  scroll_depth: number;
+}
+
+export interface FrustrationSignal {
+  type: "rage_click" | "dead_click" | "error_click";
+  // CSS selector of the clicked element
+  selector: string;
+  text: string;
+  // Rage clicks: clicks in the burst
+  clicks?: number;
+  // Error clicks: message of the error that followed
+  message?: string;
+}
+
 export interface ErrorProperties {
   filename?: string;
   lineno?: number | string;
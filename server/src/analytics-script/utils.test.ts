@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { patternToRegex, findMatchingPattern, debounce, isOutboundLink, parseJsonSafely } from "./utils.js";
+import {
+  patternToRegex,
+  findMatchingPattern,
+  debounce,
+  isOutboundLink,
+  parseJsonSafely,
+  getElementSelector,
+} from "./utils.js";
 
 describe("utils", () => {
   describe("patternToRegex", () => {
@@ -124,6 +131,18 @@ describe("utils", () => {
     });
   });
 
+  describe("getElementSelector", () => {
+    it("should stop at the nearest ancestor with an id", () => {
+      document.body.innerHTML = `<div id="pricing"><div class="card pro"><button class="btn hover:bg-x">Buy</button></div></div>`;
+      expect(getElementSelector(document.querySelector("button")!)).toBe("#pricing > div.card.pro > button.btn");
+    });
+
+    it("should tell apart siblings with the same tag", () => {
+      document.body.innerHTML = `<ul><li>One</li><li>Two</li></ul>`;
+      expect(getElementSelector(document.querySelectorAll("li")[1])).toBe("body > ul > li:nth-of-type(2)");
+    });
+  });
+
   describe("parseJsonSafely", () => {
     it("should parse valid JSON", () => {
       expect(parseJsonSafely('["a", "b"]', [])).toEqual(["a", "b"]);
@@ -48,7 +48,7 @@ export function findMatchingPattern(path: string, patterns: string[]): string |
  * Debounce function implementation
  */
 export function debounce<T extends (...args: any[]) => any>(func: T, wait: number): (...args: Parameters<T>) => void {
-  let timeout: NodeJS.Timeout | null = null;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
 
   return (...args: Parameters<T>) => {
     if (timeout) {
@@ -71,6 +71,58 @@ export function isOutboundLink(url: string): boolean {
   }
 }
 
+/**
+ * Collect data-rybbit-prop-* attributes of an element as event properties
+ */
+export function getDataProperties(element: Element): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const attr of element.attributes) {
+    if (attr.name.startsWith("data-rybbit-prop-")) {
+      properties[attr.name.replace("data-rybbit-prop-", "")] = attr.value;
+    }
+  }
+  return properties;
+}
+
+const SIMPLE_IDENTIFIER = /^[A-Za-z_][\w-]*$/;
+
+/**
+ * Build a short CSS selector for an element, anchored at the nearest ancestor with an id
+ */
+export function getElementSelector(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.documentElement && parts.length < 5) {
+    if (current.id && SIMPLE_IDENTIFIER.test(current.id)) {
+      parts.unshift(`#${current.id}`);
+      break;
+    }
+
+    let part = current.tagName.toLowerCase();
+    // Utility-class names with modifiers (hover:..., md:...) aren't valid without escaping, so leave them out
+    const classes = Array.from(current.classList)
+      .filter(name => SIMPLE_IDENTIFIER.test(name))
+      .slice(0, 2);
+    if (classes.length > 0) {
+      part += `.${classes.join(".")}`;
+    }
+
+    const parent: Element | null = current.parentElement;
+    if (parent) {
+      const sameTag = Array.from(parent.children).filter(child => child.tagName === current!.tagName);
+      if (sameTag.length > 1) {
+        part += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+      }
+    }
+
+    parts.unshift(part);
+    current = parent;
+  }
+
+  return parts.join(" > ") || element.tagName.toLowerCase();
+}
+
 /**
  * Parse JSON safely with fallback
  */
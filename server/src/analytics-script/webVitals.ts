@@ -11,7 +11,7 @@ export class WebVitalsCollector {
   };
 
   private sent = false;
-  private timeout: NodeJS.Timeout | null = null;
+  private timeout: ReturnType<typeof setTimeout> | null = null;
   private onReadyCallback: ((data: WebVitalsData) => void) | null = null;
 
   constructor(onReady: (data: WebVitalsData) => void) {
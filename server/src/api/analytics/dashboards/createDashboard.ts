@@ -0,0 +1,61 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { db } from "../../../db/postgres/postgres.js";
+import { dashboards } from "../../../db/postgres/schema.js";
+import { getUserHasAccessToSite } from "../../../lib/auth-utils.js";
+import { z } from "zod";
+import { createDashboardSchema } from "./schemas.js";
+
+type CreateDashboardRequest = z.infer<typeof createDashboardSchema>;
+
+export async function createDashboard(
+  request: FastifyRequest<{
+    Body: CreateDashboardRequest;
+  }>,
+  reply: FastifyReply
+) {
+  try {
+    const { siteId, name, description } = createDashboardSchema.parse(request.body);
+    const userId = request.user?.id;
+
+    if (!userId) {
+      return reply.status(401).send({ error: "Unauthorized" });
+    }
+
+    // Check user access to site
+    const userHasAccessToSite = await getUserHasAccessToSite(request, siteId.toString());
+    if (!userHasAccessToSite) {
+      return reply.status(403).send({ error: "Forbidden" });
+    }
+
+    const result = await db
+      .insert(dashboards)
+      .values({
+        siteId,
+        name,
+        description: description || null,
+        createdBy: userId,
+      })
+      .returning({ dashboardId: dashboards.dashboardId });
+
+    if (!result || result.length === 0) {
+      return reply.status(500).send({ error: "Failed to create dashboard" });
+    }
+
+    return reply.status(201).send({
+      success: true,
+      dashboardId: result[0].dashboardId,
+    });
+  } catch (error) {
+    console.error("Error creating dashboard:", error);
+
+    // Handle validation errors
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: "Validation error",
+        details: error.errors,
+      });
+    }
+
+    return reply.status(500).send({ error: "Failed to create dashboard" });
+  }
+}
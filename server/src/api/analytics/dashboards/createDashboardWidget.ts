@@ -0,0 +1,78 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { db } from "../../../db/postgres/postgres.js";
+import { dashboards, dashboardWidgets } from "../../../db/postgres/schema.js";
+import { getUserHasAccessToSite } from "../../../lib/auth-utils.js";
+import { eq, max } from "drizzle-orm";
+import { z } from "zod";
+import { createWidgetSchema } from "./schemas.js";
+
+type CreateDashboardWidgetRequest = z.infer<typeof createWidgetSchema>;
+
+export async function createDashboardWidget(
+  request: FastifyRequest<{
+    Body: CreateDashboardWidgetRequest;
+  }>,
+  reply: FastifyReply
+) {
+  try {
+    const { dashboardId, title, widgetType, config, filters, dateRange, width, height } = createWidgetSchema.parse(
+      request.body
+    );
+
+    const dashboard = await db.query.dashboards.findFirst({
+      where: eq(dashboards.dashboardId, dashboardId),
+    });
+
+    if (!dashboard) {
+      return reply.status(404).send({ error: "Dashboard not found" });
+    }
+
+    // Check user access to site
+    const userHasAccessToSite = await getUserHasAccessToSite(request, dashboard.siteId.toString());
+    if (!userHasAccessToSite) {
+      return reply.status(403).send({ error: "Forbidden" });
+    }
+
+    // New widgets are appended to the end of the dashboard
+    const [{ lastPosition }] = await db
+      .select({ lastPosition: max(dashboardWidgets.position) })
+      .from(dashboardWidgets)
+      .where(eq(dashboardWidgets.dashboardId, dashboardId));
+
+    const result = await db
+      .insert(dashboardWidgets)
+      .values({
+        dashboardId,
+        title,
+        widgetType,
+        config,
+        filters,
+        dateRange,
+        position: lastPosition === null ? 0 : lastPosition + 1,
+        width,
+        height,
+      })
+      .returning({ widgetId: dashboardWidgets.widgetId });
+
+    if (!result || result.length === 0) {
+      return reply.status(500).send({ error: "Failed to create widget" });
+    }
+
+    return reply.status(201).send({
+      success: true,
+      widgetId: result[0].widgetId,
+    });
+  } catch (error) {
+    console.error("Error creating dashboard widget:", error);
+
+    // Handle validation errors
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: "Validation error",
+        details: error.errors,
+      });
+    }
+
+    return reply.status(500).send({ error: "Failed to create widget" });
+  }
+}
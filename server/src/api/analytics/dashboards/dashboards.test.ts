@@ -0,0 +1,338 @@
+import Fastify from "fastify";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createDashboard } from "./createDashboard.js";
+import { createDashboardWidget } from "./createDashboardWidget.js";
+import { deleteDashboard } from "./deleteDashboard.js";
+import { deleteDashboardWidget } from "./deleteDashboardWidget.js";
+import { getDashboard } from "./getDashboard.js";
+import { getDashboards } from "./getDashboards.js";
+import { updateDashboard } from "./updateDashboard.js";
+import { updateDashboardWidget } from "./updateDashboardWidget.js";
+
+interface RecordedQuery {
+  operation: string;
+  calls: Array<[string, unknown[]]>;
+}
+
+const { dbMock, queries, results, findDashboardMock, getUserHasAccessToSiteMock } = vi.hoisted(() => {
+  const queries: RecordedQuery[] = [];
+  // Results for the next select/insert/update/delete queries, in order
+  const results: unknown[] = [];
+
+  // Stands in for a drizzle query builder: records every chained call and resolves to the next result
+  const query = (operation: string) => {
+    const recorded: RecordedQuery = { operation, calls: [] };
+    queries.push(recorded);
+    const result = results.shift() ?? [];
+    const builder: any = new Proxy(
+      {},
+      {
+        get(_target, prop) {
+          if (prop === "then") {
+            return (resolve: (value: unknown) => void, reject: (error: unknown) => void) =>
+              Promise.resolve(result).then(resolve, reject);
+          }
+          return (...args: unknown[]) => {
+            recorded.calls.push([String(prop), args]);
+            return builder;
+          };
+        },
+      }
+    );
+    return builder;
+  };
+
+  const findDashboardMock = vi.fn();
+  const dbMock: any = {
+    select: () => query("select"),
+    insert: () => query("insert"),
+    update: () => query("update"),
+    delete: () => query("delete"),
+    query: { dashboards: { findFirst: findDashboardMock } },
+    transaction: async (callback: (tx: unknown) => Promise<unknown>) => callback(dbMock),
+  };
+
+  return { dbMock, queries, results, findDashboardMock, getUserHasAccessToSiteMock: vi.fn() };
+});
+
+vi.mock("../../../db/postgres/postgres.js", () => ({ db: dbMock }));
+
+vi.mock("../../../lib/auth-utils.js", () => ({
+  getUserHasAccessToSite: getUserHasAccessToSiteMock,
+}));
+
+const dashboard = { dashboardId: 4, siteId: 1, name: "Marketing", description: null };
+
+// Arguments of the first `method` call on a recorded query
+const argsOf = (query: RecordedQuery, method: string) => query.calls.find(([name]) => name === method)?.[1][0];
+
+function buildServer() {
+  const server = Fastify();
+  server.addHook("onRequest", async request => {
+    request.user = { id: "user_1" } as typeof request.user;
+  });
+  server.get("/api/dashboards/:site", getDashboards);
+  server.get("/api/dashboard/:dashboardId", getDashboard);
+  server.post("/api/dashboard/create", createDashboard);
+  server.put("/api/dashboard/update", updateDashboard);
+  server.delete("/api/dashboard/:dashboardId", deleteDashboard);
+  server.post("/api/dashboard/widget/create", createDashboardWidget);
+  server.put("/api/dashboard/widget/update", updateDashboardWidget);
+  server.delete("/api/dashboard/widget/:widgetId", deleteDashboardWidget);
+  return server;
+}
+
+describe("dashboards", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    queries.length = 0;
+    results.length = 0;
+    getUserHasAccessToSiteMock.mockResolvedValue(true);
+    findDashboardMock.mockResolvedValue(dashboard);
+  });
+
+  describe("create", () => {
+    it("creates a dashboard for the current user", async () => {
+      results.push([{ dashboardId: 4 }]);
+
+      const response = await buildServer().inject({
+        method: "POST",
+        url: "/api/dashboard/create",
+        payload: { siteId: 1, name: "Marketing" },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json()).toEqual({ success: true, dashboardId: 4 });
+      expect(argsOf(queries[0], "values")).toEqual({
+        siteId: 1,
+        name: "Marketing",
+        description: null,
+        createdBy: "user_1",
+      });
+    });
+
+    it("rejects invalid dashboards and sites the user can't access", async () => {
+      const server = buildServer();
+
+      const invalid = await server.inject({
+        method: "POST",
+        url: "/api/dashboard/create",
+        payload: { siteId: 1, name: "" },
+      });
+      getUserHasAccessToSiteMock.mockResolvedValue(false);
+      const forbidden = await server.inject({
+        method: "POST",
+        url: "/api/dashboard/create",
+        payload: { siteId: 1, name: "Marketing" },
+      });
+
+      expect(invalid.statusCode).toBe(400);
+      expect(forbidden.statusCode).toBe(403);
+      expect(queries).toHaveLength(0);
+    });
+  });
+
+  describe("read", () => {
+    it("lists a site's dashboards", async () => {
+      results.push([{ ...dashboard, widgetCount: 2 }]);
+
+      const response = await buildServer().inject({ method: "GET", url: "/api/dashboards/1" });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: [{ ...dashboard, widgetCount: 2 }] });
+      expect(getUserHasAccessToSiteMock).toHaveBeenCalledWith(expect.anything(), "1");
+    });
+
+    it("returns a dashboard with its widgets", async () => {
+      const widgets = [{ widgetId: 9, dashboardId: 4, position: 0 }];
+      results.push(widgets);
+
+      const response = await buildServer().inject({ method: "GET", url: "/api/dashboard/4" });
+
+      expect(response.json()).toEqual({ data: { ...dashboard, widgets } });
+    });
+
+    it("hides dashboards that are missing or on other sites", async () => {
+      const server = buildServer();
+
+      findDashboardMock.mockResolvedValueOnce(undefined);
+      const missing = await server.inject({ method: "GET", url: "/api/dashboard/4" });
+      getUserHasAccessToSiteMock.mockResolvedValue(false);
+      const forbidden = await server.inject({ method: "GET", url: "/api/dashboard/4" });
+
+      expect(missing.statusCode).toBe(404);
+      expect(forbidden.statusCode).toBe(403);
+      expect(queries).toHaveLength(0);
+    });
+  });
+
+  describe("update", () => {
+    it("renames the dashboard and applies the layout to its own widgets", async () => {
+      const response = await buildServer().inject({
+        method: "PUT",
+        url: "/api/dashboard/update",
+        payload: {
+          dashboardId: 4,
+          name: "Growth",
+          layout: [
+            { widgetId: 9, position: 1, width: 12, height: 2 },
+            { widgetId: 10, position: 0, width: 6, height: 1 },
+          ],
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(queries.map(query => query.operation)).toEqual(["update", "update", "update"]);
+      expect(argsOf(queries[0], "set")).toMatchObject({ name: "Growth", description: null });
+      expect(argsOf(queries[1], "set")).toMatchObject({ position: 1, width: 12, height: 2 });
+    });
+
+    it("returns 404 for missing dashboards", async () => {
+      findDashboardMock.mockResolvedValueOnce(undefined);
+
+      const response = await buildServer().inject({
+        method: "PUT",
+        url: "/api/dashboard/update",
+        payload: { dashboardId: 4, name: "Growth" },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe("delete", () => {
+    it("deletes the dashboard", async () => {
+      results.push([{ deleted: 4 }]);
+
+      const response = await buildServer().inject({ method: "DELETE", url: "/api/dashboard/4" });
+
+      expect(response.json()).toEqual({ success: true });
+      expect(queries.map(query => query.operation)).toEqual(["delete"]);
+    });
+
+    it("doesn't delete dashboards on sites the user can't access", async () => {
+      getUserHasAccessToSiteMock.mockResolvedValue(false);
+
+      const response = await buildServer().inject({ method: "DELETE", url: "/api/dashboard/4" });
+
+      expect(response.statusCode).toBe(403);
+      expect(queries).toHaveLength(0);
+    });
+  });
+});
+
+describe("dashboard widgets", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    queries.length = 0;
+    results.length = 0;
+    getUserHasAccessToSiteMock.mockResolvedValue(true);
+    findDashboardMock.mockResolvedValue(dashboard);
+  });
+
+  const createWidget = (payload: Record<string, unknown>) =>
+    buildServer().inject({
+      method: "POST",
+      url: "/api/dashboard/widget/create",
+      payload: {
+        dashboardId: 4,
+        title: "Top pages",
+        widgetType: "single_col",
+        config: { parameter: "pathname" },
+        ...payload,
+      },
+    });
+
+  it("appends new widgets after the last one", async () => {
+    results.push([{ lastPosition: 2 }], [{ widgetId: 11 }]);
+
+    const response = await createWidget({});
+
+    expect(response.statusCode).toBe(201);
+    expect(response.json()).toEqual({ success: true, widgetId: 11 });
+    expect(argsOf(queries[1], "values")).toEqual({
+      dashboardId: 4,
+      title: "Top pages",
+      widgetType: "single_col",
+      config: { parameter: "pathname", limit: 10 },
+      filters: [],
+      dateRange: { type: "relative", days: 30 },
+      position: 3,
+      width: 6,
+      height: 1,
+    });
+  });
+
+  it("places the first widget at the top", async () => {
+    results.push([{ lastPosition: null }], [{ widgetId: 11 }]);
+
+    await createWidget({});
+
+    expect(argsOf(queries[1], "values")).toMatchObject({ position: 0 });
+  });
+
+  it("rejects widgets with an invalid config before touching the dashboard", async () => {
+    const response = await createWidget({ widgetType: "funnel", config: { steps: [{ value: "/", type: "page" }] } });
+
+    expect(response.statusCode).toBe(400);
+    expect(findDashboardMock).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 when the dashboard doesn't exist", async () => {
+    findDashboardMock.mockResolvedValueOnce(undefined);
+
+    const response = await createWidget({});
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it("updates widgets on sites the user can access", async () => {
+    results.push([{ widgetId: 11, siteId: 1 }], [{ widgetId: 11 }]);
+
+    const response = await buildServer().inject({
+      method: "PUT",
+      url: "/api/dashboard/widget/update",
+      payload: { widgetId: 11, title: "Retention", widgetType: "retention", config: { mode: "day" }, width: 12 },
+    });
+
+    expect(response.json()).toEqual({ success: true, widgetId: 11 });
+    expect(argsOf(queries[1], "set")).toMatchObject({
+      title: "Retention",
+      widgetType: "retention",
+      config: { mode: "day", range: 90 },
+      width: 12,
+    });
+  });
+
+  it("doesn't update or delete widgets on other sites", async () => {
+    const server = buildServer();
+    getUserHasAccessToSiteMock.mockResolvedValue(false);
+
+    results.push([{ widgetId: 11, siteId: 2 }]);
+    const update = await server.inject({
+      method: "PUT",
+      url: "/api/dashboard/widget/update",
+      payload: { widgetId: 11, title: "Goals", widgetType: "goals" },
+    });
+    results.push([{ widgetId: 11, siteId: 2 }]);
+    const remove = await server.inject({ method: "DELETE", url: "/api/dashboard/widget/11" });
+
+    expect(update.statusCode).toBe(403);
+    expect(remove.statusCode).toBe(403);
+    expect(queries.map(query => query.operation)).toEqual(["select", "select"]);
+  });
+
+  it("deletes widgets and returns 404 for missing ones", async () => {
+    const server = buildServer();
+
+    results.push([{ widgetId: 11, siteId: 1 }], [{ deleted: 11 }]);
+    const deleted = await server.inject({ method: "DELETE", url: "/api/dashboard/widget/11" });
+    results.push([]);
+    const missing = await server.inject({ method: "DELETE", url: "/api/dashboard/widget/12" });
+
+    expect(deleted.json()).toEqual({ success: true });
+    expect(missing.statusCode).toBe(404);
+  });
+});
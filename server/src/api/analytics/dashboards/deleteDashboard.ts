@@ -0,0 +1,48 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { db } from "../../../db/postgres/postgres.js";
+import { dashboards } from "../../../db/postgres/schema.js";
+import { getUserHasAccessToSite } from "../../../lib/auth-utils.js";
+import { eq } from "drizzle-orm";
+
+export async function deleteDashboard(
+  request: FastifyRequest<{
+    Params: {
+      dashboardId: string;
+    };
+  }>,
+  reply: FastifyReply
+) {
+  const { dashboardId } = request.params;
+
+  try {
+    // Get the dashboard to check the site ID
+    const dashboardToDelete = await db.query.dashboards.findFirst({
+      where: eq(dashboards.dashboardId, parseInt(dashboardId, 10)),
+    });
+
+    if (!dashboardToDelete) {
+      return reply.status(404).send({ error: "Dashboard not found" });
+    }
+
+    // Check user access to the site
+    const userHasAccessToSite = await getUserHasAccessToSite(request, dashboardToDelete.siteId.toString());
+    if (!userHasAccessToSite) {
+      return reply.status(403).send({ error: "Forbidden" });
+    }
+
+    // Widgets are removed by the cascading foreign key
+    const result = await db
+      .delete(dashboards)
+      .where(eq(dashboards.dashboardId, dashboardToDelete.dashboardId))
+      .returning({ deleted: dashboards.dashboardId });
+
+    if (!result || result.length === 0) {
+      return reply.status(500).send({ error: "Failed to delete dashboard" });
+    }
+
+    return reply.send({ success: true });
+  } catch (error) {
+    console.error("Error deleting dashboard:", error);
+    return reply.status(500).send({ error: "Failed to delete dashboard" });
+  }
+}
@@ -0,0 +1,50 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { db } from "../../../db/postgres/postgres.js";
+import { dashboards, dashboardWidgets } from "../../../db/postgres/schema.js";
+import { getUserHasAccessToSite } from "../../../lib/auth-utils.js";
+import { eq } from "drizzle-orm";
+
+export async function deleteDashboardWidget(
+  request: FastifyRequest<{
+    Params: {
+      widgetId: string;
+    };
+  }>,
+  reply: FastifyReply
+) {
+  const widgetId = parseInt(request.params.widgetId, 10);
+
+  try {
+    // Get the owning dashboard to check the site ID
+    const [widgetToDelete] = await db
+      .select({ widgetId: dashboardWidgets.widgetId, siteId: dashboards.siteId })
+      .from(dashboardWidgets)
+      .innerJoin(dashboards, eq(dashboards.dashboardId, dashboardWidgets.dashboardId))
+      .where(eq(dashboardWidgets.widgetId, widgetId))
+      .limit(1);
+
+    if (!widgetToDelete) {
+      return reply.status(404).send({ error: "Widget not found" });
+    }
+
+    // Check user access to the site
+    const userHasAccessToSite = await getUserHasAccessToSite(request, widgetToDelete.siteId.toString());
+    if (!userHasAccessToSite) {
+      return reply.status(403).send({ error: "Forbidden" });
+    }
+
+    const result = await db
+      .delete(dashboardWidgets)
+      .where(eq(dashboardWidgets.widgetId, widgetId))
+      .returning({ deleted: dashboardWidgets.widgetId });
+
+    if (!result || result.length === 0) {
+      return reply.status(500).send({ error: "Failed to delete widget" });
+    }
+
+    return reply.send({ success: true });
+  } catch (error) {
+    console.error("Error deleting dashboard widget:", error);
+    return reply.status(500).send({ error: "Failed to delete widget" });
+  }
+}
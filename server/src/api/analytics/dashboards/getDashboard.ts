@@ -0,0 +1,43 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { db } from "../../../db/postgres/postgres.js";
+import { dashboards, dashboardWidgets } from "../../../db/postgres/schema.js";
+import { getUserHasAccessToSite } from "../../../lib/auth-utils.js";
+import { asc, eq } from "drizzle-orm";
+
+export async function getDashboard(
+  request: FastifyRequest<{
+    Params: {
+      dashboardId: string;
+    };
+  }>,
+  reply: FastifyReply
+) {
+  const { dashboardId } = request.params;
+
+  try {
+    const dashboard = await db.query.dashboards.findFirst({
+      where: eq(dashboards.dashboardId, parseInt(dashboardId, 10)),
+    });
+
+    if (!dashboard) {
+      return reply.status(404).send({ error: "Dashboard not found" });
+    }
+
+    // Check user access to the site
+    const userHasAccessToSite = await getUserHasAccessToSite(request, dashboard.siteId.toString());
+    if (!userHasAccessToSite) {
+      return reply.status(403).send({ error: "Forbidden" });
+    }
+
+    const widgets = await db
+      .select()
+      .from(dashboardWidgets)
+      .where(eq(dashboardWidgets.dashboardId, dashboard.dashboardId))
+      .orderBy(asc(dashboardWidgets.position), asc(dashboardWidgets.widgetId));
+
+    return reply.send({ data: { ...dashboard, widgets } });
+  } catch (error) {
+    console.error("Error fetching dashboard:", error);
+    return reply.status(500).send({ error: "Failed to fetch dashboard" });
+  }
+}
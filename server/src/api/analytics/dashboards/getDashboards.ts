@@ -0,0 +1,45 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { db } from "../../../db/postgres/postgres.js";
+import { dashboards, dashboardWidgets } from "../../../db/postgres/schema.js";
+import { getUserHasAccessToSite } from "../../../lib/auth-utils.js";
+import { asc, count, eq } from "drizzle-orm";
+
+export async function getDashboards(
+  request: FastifyRequest<{
+    Params: {
+      site: string;
+    };
+  }>,
+  reply: FastifyReply
+) {
+  const { site } = request.params;
+
+  // Check user access to site
+  const userHasAccessToSite = await getUserHasAccessToSite(request, site);
+  if (!userHasAccessToSite) {
+    return reply.status(403).send({ error: "Forbidden" });
+  }
+
+  try {
+    const siteDashboards = await db
+      .select({
+        dashboardId: dashboards.dashboardId,
+        siteId: dashboards.siteId,
+        name: dashboards.name,
+        description: dashboards.description,
+        createdAt: dashboards.createdAt,
+        updatedAt: dashboards.updatedAt,
+        widgetCount: count(dashboardWidgets.widgetId),
+      })
+      .from(dashboards)
+      .leftJoin(dashboardWidgets, eq(dashboardWidgets.dashboardId, dashboards.dashboardId))
+      .where(eq(dashboards.siteId, Number(site)))
+      .groupBy(dashboards.dashboardId)
+      .orderBy(asc(dashboards.name));
+
+    return reply.send({ data: siteDashboards });
+  } catch (error) {
+    console.error("Error fetching dashboards:", error);
+    return reply.status(500).send({ error: "Failed to fetch dashboards" });
+  }
+}
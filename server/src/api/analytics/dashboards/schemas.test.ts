@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { createWidgetSchema, updateDashboardSchema, updateWidgetSchema } from "./schemas.js";
+
+const widget = (overrides: Record<string, unknown> = {}) => ({
+  dashboardId: 1,
+  title: "Pageviews",
+  widgetType: "overview_bucketed",
+  config: {},
+  ...overrides,
+});
+
+describe("createWidgetSchema", () => {
+  it("fills in defaults for the config, settings and placement", () => {
+    expect(createWidgetSchema.parse(widget())).toEqual({
+      dashboardId: 1,
+      title: "Pageviews",
+      widgetType: "overview_bucketed",
+      config: { bucket: "day", metric: "pageviews" },
+      filters: [],
+      dateRange: { type: "relative", days: 30 },
+      width: 6,
+      height: 1,
+    });
+  });
+
+  it("validates the config against the widget type", () => {
+    expect(createWidgetSchema.safeParse(widget({ widgetType: "single_col", config: {} })).success).toBe(false);
+    expect(
+      createWidgetSchema.safeParse(widget({ widgetType: "single_col", config: { parameter: "pathname" } })).data
+    ).toMatchObject({ config: { parameter: "pathname", limit: 10 } });
+    expect(
+      createWidgetSchema.safeParse(widget({ widgetType: "single_col", config: { parameter: "pathname", limit: 101 } }))
+        .success
+    ).toBe(false);
+    expect(createWidgetSchema.safeParse(widget({ config: { metric: "revenue" } })).success).toBe(false);
+  });
+
+  it("rejects unknown widget types", () => {
+    expect(createWidgetSchema.safeParse(widget({ widgetType: "heatmap" })).success).toBe(false);
+  });
+
+  it("requires at least two funnel steps", () => {
+    const step = { value: "/", type: "page" };
+
+    expect(createWidgetSchema.safeParse(widget({ widgetType: "funnel", config: { steps: [step] } })).success).toBe(
+      false
+    );
+    expect(
+      createWidgetSchema.safeParse(
+        widget({ widgetType: "funnel", config: { steps: [step, { value: "signup", type: "event" }] } })
+      ).success
+    ).toBe(true);
+  });
+
+  it("validates date ranges", () => {
+    const fixed = { type: "fixed", startDate: "2024-03-01", endDate: "2024-03-31" };
+
+    expect(createWidgetSchema.safeParse(widget({ dateRange: fixed })).success).toBe(true);
+    expect(createWidgetSchema.safeParse(widget({ dateRange: { ...fixed, endDate: "03/31/2024" } })).success).toBe(
+      false
+    );
+    expect(createWidgetSchema.safeParse(widget({ dateRange: { type: "relative", days: 731 } })).success).toBe(false);
+  });
+
+  it("validates filters, title and placement", () => {
+    const filter = { parameter: "country", type: "equals", value: ["US"] };
+
+    expect(createWidgetSchema.safeParse(widget({ filters: [filter] })).success).toBe(true);
+    expect(createWidgetSchema.safeParse(widget({ filters: [{ ...filter, parameter: "nope" }] })).success).toBe(false);
+    expect(createWidgetSchema.safeParse(widget({ title: "" })).success).toBe(false);
+    expect(createWidgetSchema.safeParse(widget({ width: 13 })).success).toBe(false);
+    expect(createWidgetSchema.safeParse(widget({ height: 0 })).success).toBe(false);
+  });
+
+  it("requires a dashboard", () => {
+    expect(createWidgetSchema.safeParse(widget({ dashboardId: undefined })).success).toBe(false);
+  });
+});
+
+describe("updateWidgetSchema", () => {
+  it("identifies the widget instead of the dashboard", () => {
+    const { dashboardId: _dashboardId, ...rest } = widget();
+
+    expect(updateWidgetSchema.safeParse({ ...rest, widgetId: 3 }).success).toBe(true);
+    expect(updateWidgetSchema.safeParse(rest).success).toBe(false);
+  });
+});
+
+describe("updateDashboardSchema", () => {
+  it("validates the layout", () => {
+    const dashboard = { dashboardId: 1, name: "Marketing" };
+    const item = { widgetId: 3, position: 0, width: 12, height: 2 };
+
+    expect(updateDashboardSchema.safeParse(dashboard).success).toBe(true);
+    expect(updateDashboardSchema.safeParse({ ...dashboard, layout: [item] }).success).toBe(true);
+    expect(updateDashboardSchema.safeParse({ ...dashboard, layout: [{ ...item, position: -1 }] }).success).toBe(false);
+    expect(updateDashboardSchema.safeParse({ ...dashboard, layout: [{ ...item, width: 0 }] }).success).toBe(false);
+    expect(updateDashboardSchema.safeParse({ ...dashboard, name: "" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+import { z } from "zod";
+import { filterParamSchema, filterSchema } from "../query-validation.js";
+
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+const timeBucketSchema = z.enum([
+  "minute",
+  "five_minutes",
+  "ten_minutes",
+  "fifteen_minutes",
+  "hour",
+  "day",
+  "week",
+  "month",
+  "year",
+]);
+
+const overviewMetricSchema = z.enum([
+  "pageviews",
+  "sessions",
+  "users",
+  "pages_per_session",
+  "bounce_rate",
+  "session_duration",
+]);
+
+const funnelStepSchema = z.object({
+  value: z.string().min(1),
+  name: z.string().optional(),
+  type: z.enum(["page", "event"]),
+  eventPropertyKey: z.string().optional(),
+  eventPropertyValue: z.union([z.string(), z.number(), z.boolean()]).optional(),
+});
+
+// Widget type and its query options, one variant per supported analytics query
+const widgetDefinitionSchema = z.discriminatedUnion("widgetType", [
+  z.object({
+    widgetType: z.literal("overview_bucketed"),
+    config: z.object({
+      bucket: timeBucketSchema.default("day"),
+      metric: overviewMetricSchema.default("pageviews"),
+    }),
+  }),
+  z.object({
+    widgetType: z.literal("single_col"),
+    config: z.object({
+      parameter: filterParamSchema,
+      limit: z.number().int().min(1).max(100).default(10),
+    }),
+  }),
+  z.object({
+    widgetType: z.literal("funnel"),
+    config: z.object({
+      steps: z.array(funnelStepSchema).min(2, "At least 2 steps are required for a funnel"),
+    }),
+  }),
+  z.object({
+    widgetType: z.literal("retention"),
+    config: z.object({
+      mode: z.enum(["day", "week"]).default("week"),
+      range: z.number().int().min(7).max(365).default(90),
+    }),
+  }),
+  z.object({
+    widgetType: z.literal("goals"),
+    config: z.object({}).default({}),
+  }),
+  z.object({
+    widgetType: z.literal("performance"),
+    config: z.object({
+      percentile: z.enum(["p50", "p75", "p90", "p99"]).default("p75"),
+    }),
+  }),
+]);
+
+const dateRangeSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("relative"),
+    days: z.number().int().min(1).max(730),
+  }),
+  z.object({
+    type: z.literal("fixed"),
+    startDate: z.string().regex(dateRegex, { message: "Invalid date format. Use YYYY-MM-DD" }),
+    endDate: z.string().regex(dateRegex, { message: "Invalid date format. Use YYYY-MM-DD" }),
+  }),
+]);
+
+const widgetPlacementSchema = z.object({
+  width: z.number().int().min(1).max(12).default(6),
+  height: z.number().int().min(1).max(4).default(1),
+});
+
+const widgetSettingsSchema = z.object({
+  title: z.string().min(1, "Title cannot be empty").max(100),
+  filters: z.array(filterSchema).default([]),
+  dateRange: dateRangeSchema.default({ type: "relative", days: 30 }),
+});
+
+export const createDashboardSchema = z.object({
+  siteId: z.number().int().positive("Site ID must be a positive integer"),
+  name: z.string().min(1, "Name cannot be empty").max(100),
+  description: z.string().max(500).optional(),
+});
+
+export const updateDashboardSchema = z.object({
+  dashboardId: z.number().int().positive("Dashboard ID must be a positive integer"),
+  name: z.string().min(1, "Name cannot be empty").max(100),
+  description: z.string().max(500).optional(),
+  // Optional bulk re-layout of the dashboard's widgets
+  layout: z
+    .array(
+      z.object({
+        widgetId: z.number().int().positive(),
+        position: z.number().int().min(0),
+        width: z.number().int().min(1).max(12),
+        height: z.number().int().min(1).max(4),
+      })
+    )
+    .optional(),
+});
+
+export const createWidgetSchema = widgetDefinitionSchema.and(
+  widgetSettingsSchema.merge(widgetPlacementSchema).extend({
+    dashboardId: z.number().int().positive("Dashboard ID must be a positive integer"),
+  })
+);
+
+export const updateWidgetSchema = widgetDefinitionSchema.and(
+  widgetSettingsSchema.merge(widgetPlacementSchema).extend({
+    widgetId: z.number().int().positive("Widget ID must be a positive integer"),
+  })
+);
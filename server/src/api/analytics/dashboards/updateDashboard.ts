@@ -0,0 +1,77 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { db } from "../../../db/postgres/postgres.js";
+import { dashboards, dashboardWidgets } from "../../../db/postgres/schema.js";
+import { getUserHasAccessToSite } from "../../../lib/auth-utils.js";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { updateDashboardSchema } from "./schemas.js";
+
+type UpdateDashboardRequest = z.infer<typeof updateDashboardSchema>;
+
+export async function updateDashboard(
+  request: FastifyRequest<{
+    Body: UpdateDashboardRequest;
+  }>,
+  reply: FastifyReply
+) {
+  try {
+    const { dashboardId, name, description, layout } = updateDashboardSchema.parse(request.body);
+
+    const existingDashboard = await db.query.dashboards.findFirst({
+      where: eq(dashboards.dashboardId, dashboardId),
+    });
+
+    if (!existingDashboard) {
+      return reply.status(404).send({ error: "Dashboard not found" });
+    }
+
+    // Check user access to site
+    const userHasAccessToSite = await getUserHasAccessToSite(request, existingDashboard.siteId.toString());
+    if (!userHasAccessToSite) {
+      return reply.status(403).send({ error: "Forbidden" });
+    }
+
+    const now = new Date().toISOString();
+
+    await db.transaction(async tx => {
+      await tx
+        .update(dashboards)
+        .set({
+          name,
+          description: description || null,
+          updatedAt: now,
+        })
+        .where(eq(dashboards.dashboardId, dashboardId));
+
+      // Widgets from other dashboards are ignored by the dashboardId condition
+      for (const item of layout ?? []) {
+        await tx
+          .update(dashboardWidgets)
+          .set({
+            position: item.position,
+            width: item.width,
+            height: item.height,
+            updatedAt: now,
+          })
+          .where(and(eq(dashboardWidgets.widgetId, item.widgetId), eq(dashboardWidgets.dashboardId, dashboardId)));
+      }
+    });
+
+    return reply.send({
+      success: true,
+      dashboardId,
+    });
+  } catch (error) {
+    console.error("Error updating dashboard:", error);
+
+    // Handle validation errors
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: "Validation error",
+        details: error.errors,
+      });
+    }
+
+    return reply.status(500).send({ error: "Failed to update dashboard" });
+  }
+}
@@ -0,0 +1,75 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { db } from "../../../db/postgres/postgres.js";
+import { dashboards, dashboardWidgets } from "../../../db/postgres/schema.js";
+import { getUserHasAccessToSite } from "../../../lib/auth-utils.js";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { updateWidgetSchema } from "./schemas.js";
+
+type UpdateDashboardWidgetRequest = z.infer<typeof updateWidgetSchema>;
+
+export async function updateDashboardWidget(
+  request: FastifyRequest<{
+    Body: UpdateDashboardWidgetRequest;
+  }>,
+  reply: FastifyReply
+) {
+  try {
+    const { widgetId, title, widgetType, config, filters, dateRange, width, height } = updateWidgetSchema.parse(
+      request.body
+    );
+
+    const [existingWidget] = await db
+      .select({ widgetId: dashboardWidgets.widgetId, siteId: dashboards.siteId })
+      .from(dashboardWidgets)
+      .innerJoin(dashboards, eq(dashboards.dashboardId, dashboardWidgets.dashboardId))
+      .where(eq(dashboardWidgets.widgetId, widgetId))
+      .limit(1);
+
+    if (!existingWidget) {
+      return reply.status(404).send({ error: "Widget not found" });
+    }
+
+    // Check user access to site
+    const userHasAccessToSite = await getUserHasAccessToSite(request, existingWidget.siteId.toString());
+    if (!userHasAccessToSite) {
+      return reply.status(403).send({ error: "Forbidden" });
+    }
+
+    const result = await db
+      .update(dashboardWidgets)
+      .set({
+        title,
+        widgetType,
+        config,
+        filters,
+        dateRange,
+        width,
+        height,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(dashboardWidgets.widgetId, widgetId))
+      .returning({ widgetId: dashboardWidgets.widgetId });
+
+    if (!result || result.length === 0) {
+      return reply.status(500).send({ error: "Failed to update widget" });
+    }
+
+    return reply.send({
+      success: true,
+      widgetId: result[0].widgetId,
+    });
+  } catch (error) {
+    console.error("Error updating dashboard widget:", error);
+
+    // Handle validation errors
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: "Validation error",
+        details: error.errors,
+      });
+    }
+
+    return reply.status(500).send({ error: "Failed to update widget" });
+  }
+}
@@ -28,7 +28,7 @@ export async function getEventNames(req: FastifyRequest<GetEventNamesRequest>, r
 
   const timeStatement = getTimeStatement(req.query);
 
-  const filterStatement = filters ? getFilterStatement(filters) : "";
+  const filterStatement = filters ? getFilterStatement(filters, "events", req.query) : "";
 
   const query = `
     SELECT
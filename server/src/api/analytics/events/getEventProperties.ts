@@ -15,7 +15,8 @@ export interface GetEventPropertiesRequest {
     site: string;
   };
   Querystring: FilterParams<{
-    eventName: string;
+    // Omit to list properties across all custom events, e.g. for the property filter picker
+    eventName?: string;
   }>;
 }
 
@@ -27,13 +28,9 @@ export async function getEventProperties(req: FastifyRequest<GetEventPropertiesR
     return res.status(403).send({ error: "Forbidden" });
   }
 
-  if (!eventName) {
-    return res.status(400).send({ error: "Event name is required" });
-  }
-
   const timeStatement = getTimeStatement(req.query);
 
-  const filterStatement = filters ? getFilterStatement(filters) : "";
+  const filterStatement = filters ? getFilterStatement(filters, "events", req.query) : "";
 
   const query = `
     SELECT
@@ -45,7 +42,7 @@ export async function getEventProperties(req: FastifyRequest<GetEventPropertiesR
     WHERE
       site_id = {siteId:Int32}
       AND type = 'custom_event'
-      AND event_name = {eventName:String}
+      ${eventName ? "AND event_name = {eventName:String}" : ""}
       AND props != '{}' -- Check if the JSON object is not empty
       ${timeStatement}
       ${filterStatement}
@@ -21,7 +21,7 @@ export type GetEventsResponse = {
   page_title: string;
 }[];
 
-interface GetEventsRequest {
+export interface GetEventsRequest {
   Params: {
     site: string;
   };
@@ -32,9 +32,47 @@ interface GetEventsRequest {
   }>;
 }
 
+// Default to the last 30 minutes if no time range is specified
+const getEventsTimeStatement = (params: GetEventsRequest["Querystring"]) =>
+  params.startDate || params.endDate ? getTimeStatement(params) : "AND timestamp > now() - INTERVAL 30 MINUTE";
+
+/**
+ * Pageviews, custom events and outbound clicks, newest first. Expects `siteId`, `limit` and `offset` query params.
+ */
+export function getEventsQuery(params: GetEventsRequest["Querystring"]) {
+  const timeStatement = getEventsTimeStatement(params);
+  const filterStatement = params.filters ? getFilterStatement(params.filters, "events", params) : "";
+
+  return `
+    SELECT
+      timestamp,
+      event_name,
+      toString(props) as properties, -- Convert props Map to string
+      user_id,
+      pathname,
+      querystring,
+      hostname,
+      page_title,
+      referrer,
+      browser,
+      operating_system,
+      country,
+      device_type,
+      type
+    FROM events
+    WHERE
+      site_id = {siteId:Int32}
+      AND (type = 'custom_event' OR type = 'pageview' OR type = 'outbound')
+      ${timeStatement}
+      ${filterStatement}
+    ORDER BY timestamp DESC
+    LIMIT {limit:Int32} OFFSET {offset:Int32}
+  `;
+}
+
 export async function getEvents(req: FastifyRequest<GetEventsRequest>, res: FastifyReply) {
   const { site } = req.params;
-  const { startDate, endDate, timeZone, filters, page = "1", pageSize = "20", count } = req.query;
+  const { filters, page = "1", pageSize = "20", count } = req.query;
 
   const userHasAccessToSite = await getUserHasAccessToSitePublic(req, site);
   if (!userHasAccessToSite) {
@@ -45,11 +83,8 @@ export async function getEvents(req: FastifyRequest<GetEventsRequest>, res: Fast
   const limit = count ? parseInt(count, 10) : parseInt(pageSize, 10);
   const offset = (parseInt(page, 10) - 1) * limit;
 
-  // Get time and filter statements if parameters are provided
-  const timeStatement =
-    startDate || endDate ? getTimeStatement(req.query) : "AND timestamp > now() - INTERVAL 30 MINUTE"; // Default to last 30 minutes if no time range specified
-
-  const filterStatement = filters ? getFilterStatement(filters) : "";
+  const timeStatement = getEventsTimeStatement(req.query);
+  const filterStatement = filters ? getFilterStatement(filters, "events", req.query) : "";
 
   try {
     // First, get the total count for pagination metadata
@@ -76,31 +111,7 @@ export async function getEvents(req: FastifyRequest<GetEventsRequest>, res: Fast
     const totalCount = countData[0]?.total || 0;
 
     // Then, get the actual events with pagination
-    const eventsQuery = `
-      SELECT
-        timestamp,
-        event_name,
-        toString(props) as properties, -- Convert props Map to string
-        user_id,
-        pathname,
-        querystring,
-        hostname,
-        page_title,
-        referrer,
-        browser,
-        operating_system,
-        country,
-        device_type,
-        type
-      FROM events
-      WHERE
-        site_id = {siteId:Int32}
-        AND (type = 'custom_event' OR type = 'pageview' OR type = 'outbound')
-        ${timeStatement}
-        ${filterStatement}
-      ORDER BY timestamp DESC
-      LIMIT {limit:Int32} OFFSET {offset:Int32}
-    `;
+    const eventsQuery = getEventsQuery(req.query);
 
     const eventsResult = await clickhouse.query({
       query: eventsQuery,
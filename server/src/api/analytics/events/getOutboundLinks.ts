@@ -26,7 +26,7 @@ export async function getOutboundLinks(req: FastifyRequest<GetOutboundLinksReque
   }
 
   const timeStatement = getTimeStatement(req.query);
-  const filterStatement = filters ? getFilterStatement(filters) : "";
+  const filterStatement = filters ? getFilterStatement(filters, "events", req.query) : "";
 
   const query = `
     SELECT
@@ -0,0 +1,134 @@
+import Fastify from "fastify";
+import { Readable } from "node:stream";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { EXPORT_ROW_LIMIT, exportReport } from "./exportReport.js";
+
+const { execMock, getUserHasAccessToSiteMock, getUserHasAccessToSitePublicMock } = vi.hoisted(() => ({
+  execMock: vi.fn(),
+  getUserHasAccessToSiteMock: vi.fn(),
+  getUserHasAccessToSitePublicMock: vi.fn(),
+}));
+
+vi.mock("../../db/clickhouse/clickhouse.js", () => ({
+  clickhouse: { exec: execMock },
+}));
+
+vi.mock("../../lib/auth-utils.js", () => ({
+  getUserHasAccessToSite: getUserHasAccessToSiteMock,
+  getUserHasAccessToSitePublic: getUserHasAccessToSitePublicMock,
+}));
+
+const timeRange = "startDate=2024-03-01&endDate=2024-03-07&timeZone=UTC";
+
+function buildServer() {
+  const server = Fastify();
+  server.get("/api/export/:report/:site", exportReport);
+  server.post("/api/export/:report/:site", exportReport);
+  return server;
+}
+
+// The query sent to ClickHouse by the last export
+function lastQuery(): string {
+  return execMock.mock.calls.at(-1)![0].query;
+}
+
+describe("exportReport", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getUserHasAccessToSiteMock.mockResolvedValue(true);
+    getUserHasAccessToSitePublicMock.mockResolvedValue(true);
+    execMock.mockImplementation(async () => ({ stream: Readable.from(["pathname,count\n/,1\n"]) }));
+  });
+
+  describe("access", () => {
+    it("rejects users who aren't members of the site, even when it is public", async () => {
+      getUserHasAccessToSiteMock.mockResolvedValue(false);
+
+      const response = await buildServer().inject({ method: "GET", url: `/api/export/events/1?${timeRange}` });
+
+      expect(response.statusCode).toBe(403);
+      expect(getUserHasAccessToSiteMock).toHaveBeenCalledWith(expect.anything(), "1");
+      expect(execMock).not.toHaveBeenCalled();
+    });
+
+    it("streams the export for site members", async () => {
+      const response = await buildServer().inject({ method: "GET", url: `/api/export/events/1?${timeRange}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toBe("pathname,count\n/,1\n");
+      expect(execMock.mock.calls[0][0].query_params).toMatchObject({ siteId: 1 });
+    });
+  });
+
+  describe("format", () => {
+    it("defaults to CSV", async () => {
+      const response = await buildServer().inject({ method: "GET", url: `/api/export/events/1?${timeRange}` });
+
+      expect(lastQuery()).toMatch(/FORMAT CSVWithNames$/);
+      expect(response.headers["content-type"]).toBe("text/csv; charset=utf-8");
+      expect(response.headers["content-disposition"]).toBe('attachment; filename="events-1.csv"');
+    });
+
+    it("maps each format to its ClickHouse output format and content type", async () => {
+      const server = buildServer();
+
+      const ndjson = await server.inject({ method: "GET", url: `/api/export/users/1?format=ndjson&${timeRange}` });
+      expect(lastQuery()).toMatch(/FORMAT JSONEachRow$/);
+      expect(ndjson.headers["content-type"]).toBe("application/x-ndjson");
+
+      const parquet = await server.inject({ method: "GET", url: `/api/export/users/1?format=parquet&${timeRange}` });
+      expect(lastQuery()).toMatch(/FORMAT Parquet$/);
+      expect(parquet.headers["content-disposition"]).toBe('attachment; filename="users-1.parquet"');
+    });
+
+    it("rejects unknown formats and reports", async () => {
+      const server = buildServer();
+
+      const format = await server.inject({ method: "GET", url: `/api/export/events/1?format=xlsx&${timeRange}` });
+      const report = await server.inject({ method: "GET", url: `/api/export/pageviews/1?${timeRange}` });
+
+      expect(format.statusCode).toBe(400);
+      expect(report.statusCode).toBe(400);
+      expect(execMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("limit", () => {
+    it("caps exports at the row limit by default", async () => {
+      await buildServer().inject({ method: "GET", url: `/api/export/sessions/1?${timeRange}` });
+
+      expect(lastQuery()).toContain(`) LIMIT ${EXPORT_ROW_LIMIT} FORMAT`);
+    });
+
+    it("applies a smaller requested limit", async () => {
+      await buildServer().inject({ method: "GET", url: `/api/export/sessions/1?limit=500&${timeRange}` });
+
+      expect(lastQuery()).toContain(") LIMIT 500 FORMAT");
+    });
+
+    it("rejects limits above the row limit", async () => {
+      const response = await buildServer().inject({
+        method: "GET",
+        url: `/api/export/sessions/1?limit=${EXPORT_ROW_LIMIT + 1}&${timeRange}`,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(execMock).not.toHaveBeenCalled();
+    });
+  });
+
+  it("requires the report-specific parameters", async () => {
+    const server = buildServer();
+
+    const singleCol = await server.inject({ method: "GET", url: `/api/export/single_col/1?${timeRange}` });
+    const funnel = await server.inject({
+      method: "POST",
+      url: `/api/export/funnel/1?${timeRange}`,
+      payload: { steps: [{ value: "/", type: "page" }] },
+    });
+
+    expect(singleCol.statusCode).toBe(400);
+    expect(funnel.statusCode).toBe(400);
+    expect(execMock).not.toHaveBeenCalled();
+  });
+});
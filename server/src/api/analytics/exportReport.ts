@@ -0,0 +1,157 @@
+import { FilterParams } from "@rybbit/shared";
+import { FastifyReply, FastifyRequest } from "fastify";
+import { z } from "zod";
+import { clickhouse } from "../../db/clickhouse/clickhouse.js";
+import { getUserHasAccessToSite } from "../../lib/auth-utils.js";
+import { getEventsQuery } from "./events/getEvents.js";
+import { FunnelStep, getFunnelQuery } from "./funnels/getFunnel.js";
+import { getErrorEventsQuery } from "./getErrorEvents.js";
+import { getRetentionQuery } from "./getRetention.js";
+import { getSessionsQuery } from "./getSessions.js";
+import { getSingleColQuery } from "./getSingleCol.js";
+import { getUsersQuery } from "./getUsers.js";
+import { filterParamSchema } from "./query-validation.js";
+
+// Hard cap on exported rows so a single request can't stream an entire table
+export const EXPORT_ROW_LIMIT = 1_000_000;
+
+export const EXPORT_FORMATS = {
+  csv: { clickhouseFormat: "CSVWithNames", contentType: "text/csv; charset=utf-8" },
+  ndjson: { clickhouseFormat: "JSONEachRow", contentType: "application/x-ndjson" },
+  parquet: { clickhouseFormat: "Parquet", contentType: "application/vnd.apache.parquet" },
+} as const;
+
+const exportReportSchema = z.enum(["single_col", "sessions", "users", "events", "error_events", "retention", "funnel"]);
+
+const exportQuerySchema = z
+  .object({
+    format: z.enum(["csv", "ndjson", "parquet"]).default("csv"),
+    parameter: filterParamSchema.optional(),
+    errorMessage: z.string().min(1).optional(),
+    mode: z.enum(["day", "week"]).default("week"),
+    range: z.coerce.number().int().min(7).max(365).default(90),
+    limit: z.coerce.number().int().positive().max(EXPORT_ROW_LIMIT).default(EXPORT_ROW_LIMIT),
+  })
+  .passthrough();
+
+const exportFunnelBodySchema = z.object({
+  steps: z
+    .array(
+      z.object({
+        value: z.string(),
+        name: z.string().optional(),
+        type: z.enum(["page", "event"]),
+        eventPropertyKey: z.string().optional(),
+        eventPropertyValue: z.union([z.string(), z.number(), z.boolean()]).optional(),
+      })
+    )
+    .min(2, "At least 2 steps are required for a funnel"),
+});
+
+type ExportReport = z.infer<typeof exportReportSchema>;
+type ExportQuery = z.infer<typeof exportQuerySchema> & FilterParams;
+
+interface ExportReportRequest {
+  Params: {
+    report: string;
+    site: string;
+  };
+  Querystring: FilterParams<{
+    format?: string;
+    parameter?: string;
+    errorMessage?: string;
+    mode?: string;
+    range?: string;
+    limit?: string;
+  }>;
+  Body?: {
+    steps: FunnelStep[];
+  };
+}
+
+// Builds the report query plus the params it expects, reusing the builders behind the JSON endpoints
+function getExportQuery(
+  report: ExportReport,
+  query: ExportQuery,
+  body: ExportReportRequest["Body"],
+  siteId: number
+): { query: string; params: Record<string, unknown> } {
+  const rowParams = { siteId, limit: query.limit, offset: 0 };
+
+  switch (report) {
+    case "single_col":
+      if (!query.parameter) {
+        throw new Error("parameter is required for single_col exports");
+      }
+      return {
+        query: getSingleColQuery(
+          { ...query, parameter: query.parameter, limit: undefined, page: undefined },
+          false,
+          true
+        ),
+        params: { siteId },
+      };
+    case "sessions":
+      return { query: getSessionsQuery({ ...query, limit: query.limit, page: 1 }), params: rowParams };
+    case "users":
+      return { query: getUsersQuery(query), params: rowParams };
+    case "events":
+      return { query: getEventsQuery(query), params: rowParams };
+    case "error_events":
+      if (!query.errorMessage) {
+        throw new Error("errorMessage is required for error_events exports");
+      }
+      return {
+        query: getErrorEventsQuery({ ...query, errorMessage: query.errorMessage, limit: query.limit, page: undefined }),
+        params: { siteId, errorMessage: query.errorMessage },
+      };
+    case "retention":
+      return { query: getRetentionQuery(query.mode), params: { siteId, timeRange: query.range } };
+    case "funnel": {
+      const { steps } = exportFunnelBodySchema.parse(body);
+      return { query: getFunnelQuery(steps, query), params: { siteId, stepNumber: steps.length } };
+    }
+  }
+}
+
+export async function exportReport(req: FastifyRequest<ExportReportRequest>, res: FastifyReply) {
+  const { site } = req.params;
+
+  // Unlike the JSON endpoints, exports stay members-only on public sites since they return raw rows in bulk
+  const userHasAccessToSite = await getUserHasAccessToSite(req, site);
+  if (!userHasAccessToSite) {
+    return res.status(403).send({ error: "Forbidden" });
+  }
+
+  let exportQuery: { query: string; params: Record<string, unknown> };
+  let query: ExportQuery;
+  let report: ExportReport;
+  try {
+    report = exportReportSchema.parse(req.params.report);
+    query = exportQuerySchema.parse(req.query) as ExportQuery;
+    exportQuery = getExportQuery(report, query, req.body, Number(site));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).send({ error: "Validation error", details: error.errors });
+    }
+    return res.status(400).send({ error: error instanceof Error ? error.message : "Invalid export parameters" });
+  }
+
+  const format = EXPORT_FORMATS[query.format];
+
+  try {
+    const result = await clickhouse.exec({
+      // Inner queries can end in a line comment, so the closing paren goes on its own line
+      query: `SELECT * FROM (\n${exportQuery.query.trim().replace(/;$/, "")}\n) LIMIT ${query.limit} FORMAT ${format.clickhouseFormat}`,
+      query_params: exportQuery.params,
+    });
+
+    return res
+      .header("Content-Type", format.contentType)
+      .header("Content-Disposition", `attachment; filename="${report}-${site}.${query.format}"`)
+      .send(result.stream);
+  } catch (error) {
+    console.error(`Error exporting ${report}:`, error);
+    return res.status(500).send({ error: "Failed to export report" });
+  }
+}
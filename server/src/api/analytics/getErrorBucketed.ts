@@ -63,7 +63,7 @@ export async function getErrorBucketed(req: FastifyRequest<GetErrorBucketedReque
     return res.status(403).send({ error: "Access denied" });
   }
 
-  const filterStatement = getFilterStatement(req.query.filters);
+  const filterStatement = getFilterStatement(req.query.filters, "events", req.query);
   const timeStatement = getTimeStatement(req.query);
   const timeStatementFill = getTimeStatementFill(req.query, bucket);
 
@@ -4,7 +4,7 @@ import { getUserHasAccessToSitePublic } from "../../lib/auth-utils.js";
 import { getFilterStatement, getTimeStatement, processResults } from "./utils.js";
 import { FilterParams } from "@rybbit/shared";
 
-interface GetErrorEventsRequest {
+export interface GetErrorEventsRequest {
   Params: {
     site: string;
   };
@@ -46,12 +46,12 @@ type ErrorEventsPaginatedResponse = {
   totalCount: number;
 };
 
-const getErrorEventsQuery = (request: FastifyRequest<GetErrorEventsRequest>, isCountQuery: boolean = false) => {
-  const { startDate, endDate, timeZone, filters, errorMessage, limit, page, pastMinutesStart, pastMinutesEnd } =
-    request.query;
+// Expects `siteId` and `errorMessage` query params
+export const getErrorEventsQuery = (params: GetErrorEventsRequest["Querystring"], isCountQuery: boolean = false) => {
+  const { startDate, endDate, timeZone, filters, errorMessage, limit, page, pastMinutesStart, pastMinutesEnd } = params;
 
-  const filterStatement = getFilterStatement(filters);
-  const timeStatement = getTimeStatement(request.query);
+  const filterStatement = getFilterStatement(filters, "events", params);
+  const timeStatement = getTimeStatement(params);
 
   let validatedLimit: number | null = null;
   if (!isCountQuery && limit !== undefined) {
@@ -147,7 +147,7 @@ export async function getErrorEvents(req: FastifyRequest<GetErrorEventsRequest>,
 
   const isPaginatedRequest = page !== undefined;
 
-  const dataQuery = getErrorEventsQuery(req, false);
+  const dataQuery = getErrorEventsQuery(req.query, false);
 
   try {
     const dataResult = await clickhouse.query({
@@ -161,7 +161,7 @@ export async function getErrorEvents(req: FastifyRequest<GetErrorEventsRequest>,
     const items = await processResults<ErrorEvent>(dataResult);
 
     if (isPaginatedRequest) {
-      const countQuery = getErrorEventsQuery(req, true);
+      const countQuery = getErrorEventsQuery(req.query, true);
       const countResult = await clickhouse.query({
         query: countQuery,
         format: "JSONEachRow",
@@ -180,7 +180,7 @@ export async function getErrorEvents(req: FastifyRequest<GetErrorEventsRequest>,
     console.error(`Error fetching error events:`, error);
     console.error("Failed dataQuery:", dataQuery);
     if (isPaginatedRequest) {
-      const countQuery = getErrorEventsQuery(req, true);
+      const countQuery = getErrorEventsQuery(req.query, true);
       console.error("Failed countQuery:", countQuery);
     }
     return res.status(500).send({ error: `Failed to fetch error events` });
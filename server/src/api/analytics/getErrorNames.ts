@@ -32,7 +32,7 @@ type ErrorNamesPaginatedResponse = {
 const getErrorNamesQuery = (request: FastifyRequest<GetErrorNamesRequest>, isCountQuery: boolean = false) => {
   const { filters, limit, page } = request.query;
 
-  const filterStatement = getFilterStatement(filters);
+  const filterStatement = getFilterStatement(filters, "events", request.query);
   const timeStatement = getTimeStatement(request.query);
 
   let validatedLimit: number | null = null;
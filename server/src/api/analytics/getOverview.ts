@@ -1,9 +1,19 @@
 import { FastifyReply, FastifyRequest } from "fastify";
 import { clickhouse } from "../../db/clickhouse/clickhouse.js";
-import { getFilterStatement, getTimeStatement, processResults } from "./utils.js";
+import {
+  canUseImportedAggregates,
+  canUseSessionsTable,
+  getComparisonTimeParams,
+  getFilterStatement,
+  getSessionsSubquery,
+  getTimeRange,
+  getTimeStatement,
+  processResults,
+  withImportedTotals,
+} from "./utils.js";
 import { getUserHasAccessToSitePublic } from "../../lib/auth-utils.js";
 import { FilterParameter } from "./types.js";
-import { FilterParams } from "@rybbit/shared";
+import { CompareParams, FilterParams } from "@rybbit/shared";
 
 type GetOverviewResponse = {
   sessions: number;
@@ -14,19 +24,18 @@ type GetOverviewResponse = {
   session_duration: number;
 };
 
-const getQuery = (params: FilterParams) => {
-  const filterStatement = getFilterStatement(params.filters);
+const getSessionStatsFromRollup = (params: FilterParams) => `
+        SELECT
+            COUNT() AS sessions,
+            AVG(pageviews) AS pages_per_session,
+            sumIf(1, pageviews = 1) / COUNT() AS bounce_rate,
+            AVG(session_duration) AS session_duration
+        FROM ${getSessionsSubquery(getTimeRange(params))}
+        WHERE 1 = 1
+            ${getFilterStatement(params.filters, "sessions", params)}
+            ${getTimeStatement(params, "sessions")}`;
 
-  return `SELECT
-      session_stats.sessions,
-      session_stats.pages_per_session,
-      session_stats.bounce_rate * 100 AS bounce_rate,
-      session_stats.session_duration,
-      page_stats.pageviews,
-      page_stats.users  
-    FROM
-    (
-        -- Session-level metrics
+const getSessionStatsFromEvents = (params: FilterParams) => `
         SELECT
             COUNT() AS sessions,
             AVG(pages_in_session) AS pages_per_session,
@@ -43,10 +52,29 @@ const getQuery = (params: FilterParams) => {
                 FROM events
                 WHERE
                     site_id = {siteId:Int32}
-                    ${filterStatement}
+                    ${getFilterStatement(params.filters, "events", params)}
                     ${getTimeStatement(params)}
                 GROUP BY session_id
-            )
+            )`;
+
+const getQuery = (params: FilterParams) => {
+  const filterStatement = getFilterStatement(params.filters, "events", params);
+  // Session metrics come from the rollup unless an event-level filter redefines which events make up a session
+  const sessionStats = canUseSessionsTable(params.filters)
+    ? getSessionStatsFromRollup(params)
+    : getSessionStatsFromEvents(params);
+
+  const query = `SELECT
+      session_stats.sessions,
+      session_stats.pages_per_session,
+      session_stats.bounce_rate * 100 AS bounce_rate,
+      session_stats.session_duration,
+      page_stats.pageviews,
+      page_stats.users  
+    FROM
+    (
+        -- Session-level metrics
+        ${sessionStats}
         ) AS session_stats
         CROSS JOIN
         (
@@ -61,13 +89,15 @@ const getQuery = (params: FilterParams) => {
                 ${getTimeStatement(params)}
                 AND type = 'pageview'
         ) AS page_stats`;
+
+  return canUseImportedAggregates(params) ? withImportedTotals(query, params) : query;
 };
 
 export interface OverviewRequest {
   Params: {
     site: string;
   };
-  Querystring: FilterParams;
+  Querystring: FilterParams<CompareParams>;
 }
 
 export async function getOverview(req: FastifyRequest<OverviewRequest>, res: FastifyReply) {
@@ -78,26 +108,52 @@ export async function getOverview(req: FastifyRequest<OverviewRequest>, res: Fas
     return res.status(403).send({ error: "Forbidden" });
   }
 
-  const query = getQuery({
+  let comparisonTimeParams;
+  try {
+    comparisonTimeParams = getComparisonTimeParams(req.query);
+  } catch (error) {
+    return res.status(400).send({ error: "Invalid comparison parameters" });
+  }
+
+  const params = {
     startDate,
     endDate,
     timeZone,
     filters,
     pastMinutesStart,
     pastMinutesEnd,
-  });
+  };
+
+  const query = getQuery(params);
+  const comparisonQuery = comparisonTimeParams ? getQuery({ ...params, ...comparisonTimeParams }) : undefined;
 
   try {
-    const result = await clickhouse.query({
-      query,
-      format: "JSONEachRow",
-      query_params: {
-        siteId: Number(site),
-      },
-    });
+    const [result, comparisonResult] = await Promise.all([
+      clickhouse.query({
+        query,
+        format: "JSONEachRow",
+        query_params: {
+          siteId: Number(site),
+        },
+      }),
+      comparisonQuery
+        ? clickhouse.query({
+            query: comparisonQuery,
+            format: "JSONEachRow",
+            query_params: {
+              siteId: Number(site),
+            },
+          })
+        : undefined,
+    ]);
 
     const data = await processResults<GetOverviewResponse>(result);
-    return res.send({ data: data[0] });
+    if (!comparisonResult) {
+      return res.send({ data: data[0] });
+    }
+
+    const comparisonData = await processResults<GetOverviewResponse>(comparisonResult);
+    return res.send({ data: data[0], comparison: { ...comparisonTimeParams, data: comparisonData[0] } });
   } catch (error) {
     console.error("Error fetching overview:", error);
     return res.status(500).send({ error: "Failed to fetch overview" });
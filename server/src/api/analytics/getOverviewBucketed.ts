@@ -1,10 +1,19 @@
-import { FilterParams } from "@rybbit/shared";
+import { CompareParams, FilterParams } from "@rybbit/shared";
 import { FastifyReply, FastifyRequest } from "fastify";
 import SqlString from "sqlstring";
 import { clickhouse } from "../../db/clickhouse/clickhouse.js";
 import { getUserHasAccessToSitePublic } from "../../lib/auth-utils.js";
 import { validateTimeStatementFillParams } from "./query-validation.js";
-import { getFilterStatement, getTimeStatement, processResults, TimeBucketToFn, bucketIntervalMap } from "./utils.js";
+import {
+  canUseImportedAggregates,
+  getComparisonTimeParams,
+  getFilterStatement,
+  getTimeStatement,
+  processResults,
+  TimeBucketToFn,
+  bucketIntervalMap,
+  withImportedTotals,
+} from "./utils.js";
 import { TimeBucket } from "./types.js";
 
 function getTimeStatementFill(params: FilterParams, bucket: TimeBucket) {
@@ -68,7 +77,7 @@ function getTimeStatementFill(params: FilterParams, bucket: TimeBucket) {
 
 const getQuery = (params: FilterParams<{ bucket: TimeBucket }>) => {
   const { startDate, endDate, timeZone, bucket, filters, pastMinutesStart, pastMinutesEnd } = params;
-  const filterStatement = getFilterStatement(filters);
+  const filterStatement = getFilterStatement(filters, "events", params);
 
   const pastMinutesRange =
     pastMinutesStart !== undefined && pastMinutesEnd !== undefined
@@ -129,7 +138,7 @@ FULL JOIN
 USING time
 ORDER BY time`;
 
-  return query;
+  return canUseImportedAggregates(params, bucket) ? withImportedTotals(query, params, bucket) : query;
 };
 
 type getOverviewBucketed = { time: string; pageviews: number }[];
@@ -139,9 +148,11 @@ export async function getOverviewBucketed(
     Params: {
       site: string;
     };
-    Querystring: FilterParams<{
-      bucket: TimeBucket;
-    }>;
+    Querystring: FilterParams<
+      {
+        bucket: TimeBucket;
+      } & CompareParams
+    >;
   }>,
   res: FastifyReply
 ) {
@@ -153,7 +164,14 @@ export async function getOverviewBucketed(
     return res.status(403).send({ error: "Forbidden" });
   }
 
-  const query = getQuery({
+  let comparisonTimeParams;
+  try {
+    comparisonTimeParams = getComparisonTimeParams(req.query);
+  } catch (error) {
+    return res.status(400).send({ error: "Invalid comparison parameters" });
+  }
+
+  const params = {
     startDate,
     endDate,
     timeZone,
@@ -161,19 +179,39 @@ export async function getOverviewBucketed(
     filters,
     pastMinutesStart,
     pastMinutesEnd,
-  });
+  };
+
+  const query = getQuery(params);
+  // Comparison buckets line up with the requested ones by position, not by time
+  const comparisonQuery = comparisonTimeParams ? getQuery({ ...params, ...comparisonTimeParams }) : undefined;
 
   try {
-    const result = await clickhouse.query({
-      query,
-      format: "JSONEachRow",
-      query_params: {
-        siteId: Number(site),
-      },
-    });
+    const [result, comparisonResult] = await Promise.all([
+      clickhouse.query({
+        query,
+        format: "JSONEachRow",
+        query_params: {
+          siteId: Number(site),
+        },
+      }),
+      comparisonQuery
+        ? clickhouse.query({
+            query: comparisonQuery,
+            format: "JSONEachRow",
+            query_params: {
+              siteId: Number(site),
+            },
+          })
+        : undefined,
+    ]);
 
     const data = await processResults<getOverviewBucketed[number]>(result);
-    return res.send({ data });
+    if (!comparisonResult) {
+      return res.send({ data });
+    }
+
+    const comparisonData = await processResults<getOverviewBucketed[number]>(comparisonResult);
+    return res.send({ data, comparison: { ...comparisonTimeParams, data: comparisonData } });
   } catch (error) {
     console.error("Error fetching pageviews:", error);
     return res.status(500).send({ error: "Failed to fetch pageviews" });
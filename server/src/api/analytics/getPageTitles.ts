@@ -32,7 +32,7 @@ type PageTitlesPaginatedResponse = {
 const getPageTitlesQuery = (request: FastifyRequest<GetPageTitlesRequest>, isCountQuery: boolean = false) => {
   const { startDate, endDate, timeZone, filters, limit, page, pastMinutesStart, pastMinutesEnd } = request.query;
 
-  const filterStatement = getFilterStatement(filters);
+  const filterStatement = getFilterStatement(filters, "events", request.query);
   const timeStatement = getTimeStatement(request.query);
 
   let validatedLimit: number | null = null;
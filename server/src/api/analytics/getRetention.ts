@@ -20,33 +20,15 @@ interface ProcessedRetentionData {
   range: number;
 }
 
-export const getRetention = async (
-  req: FastifyRequest<{
-    Params: { site: string };
-    Querystring: { mode?: string; range?: string };
-  }>,
-  res: FastifyReply
-) => {
-  const { site } = req.params;
-  const { mode = "week", range = "90" } = req.query; // Default to weekly mode and 90 days range
-
-  // Validate mode parameter
-  const retentionMode = mode === "day" ? "day" : "week";
-
-  // Validate range parameter (between 7-365 days)
-  const timeRange = Math.min(365, Math.max(7, parseInt(range) || 90));
-
-  const userHasAccessToSite = await getUserHasAccessToSitePublic(req, site);
-  if (!userHasAccessToSite) {
-    return res.status(403).send({ error: "Forbidden" });
-  }
-
+/**
+ * Cohort retention over the last `timeRange` days. Expects `siteId` and `timeRange` query params.
+ */
+export function getRetentionQuery(retentionMode: "day" | "week") {
   // Build the appropriate SQL based on the retention mode
   const periodFunction = retentionMode === "day" ? "toDate" : "toStartOfWeek";
   const periodDiffFunc = retentionMode === "day" ? "day" : "week";
 
-  const query = await clickhouse.query({
-    query: `
+  return `
 WITH UserFirstPeriod AS (
     SELECT
         user_id,
@@ -96,7 +78,32 @@ JOIN CohortSize cs ON cr.cohort_period = cs.cohort_period
 ORDER BY
     cr.cohort_period DESC,
     cr.period_difference ASC;
-    `,
+`;
+}
+
+export const getRetention = async (
+  req: FastifyRequest<{
+    Params: { site: string };
+    Querystring: { mode?: string; range?: string };
+  }>,
+  res: FastifyReply
+) => {
+  const { site } = req.params;
+  const { mode = "week", range = "90" } = req.query; // Default to weekly mode and 90 days range
+
+  // Validate mode parameter
+  const retentionMode = mode === "day" ? "day" : "week";
+
+  // Validate range parameter (between 7-365 days)
+  const timeRange = Math.min(365, Math.max(7, parseInt(range) || 90));
+
+  const userHasAccessToSite = await getUserHasAccessToSitePublic(req, site);
+  if (!userHasAccessToSite) {
+    return res.status(403).send({ error: "Forbidden" });
+  }
+
+  const query = await clickhouse.query({
+    query: getRetentionQuery(retentionMode),
     format: "JSONEachRow",
     query_params: {
       siteId: Number(site),
@@ -125,7 +125,7 @@ FROM events
 WHERE
     site_id = {siteId:Int32}
     AND session_id = {sessionId:String}
-    AND type != 'performance'
+    AND type NOT IN ('performance', 'engagement')
     ${timeFilterWithConnector}
     `;
 
@@ -145,7 +145,7 @@ FROM events
 WHERE
     site_id = {siteId:Int32}
     AND session_id = {sessionId:String}
-    AND type != 'performance'
+    AND type NOT IN ('performance', 'engagement')
     ${timeFilterWithConnector}
 ORDER BY timestamp ASC
 LIMIT {limit:Int32}
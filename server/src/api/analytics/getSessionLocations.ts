@@ -14,7 +14,7 @@ export async function getSessionLocations(
 ) {
   const { site } = req.params;
 
-  const filterStatement = getFilterStatement(req.query.filters);
+  const filterStatement = getFilterStatement(req.query.filters, "events", req.query);
   const timeStatement = getTimeStatement(req.query);
 
   const result = await clickhouse.query({
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from "vitest";
+import { getSessionsQuery } from "./getSessions.js";
+import { getTimeRange } from "./utils.js";
+
+vi.mock("../../db/clickhouse/clickhouse.js", () => ({ clickhouse: {} }));
+
+const week = { startDate: "2024-03-04", endDate: "2024-03-10", timeZone: "UTC", filters: "", limit: 100, page: 1 };
+
+describe("getSessionsQuery", () => {
+  it("reads merged sessions from the rollup around the requested range", () => {
+    const query = getSessionsQuery(week as any);
+    const range = getTimeRange(week)!;
+
+    expect(query).toContain("FROM sessions");
+    expect(query).toContain("argMinIfMerge(entry_page) AS entry_page");
+    expect(query).toContain(`AND session_start >= ${range.start} - INTERVAL 1 DAY`);
+    expect(query).toContain(`AND session_start < ${range.end} + INTERVAL 1 DAY`);
+    expect(query).not.toContain("FROM events");
+  });
+
+  it("filters on session-level columns of the rollup", () => {
+    const query = getSessionsQuery({
+      ...week,
+      filters: JSON.stringify([{ parameter: "entry_page", type: "equals", value: ["/pricing"] }]),
+    } as any);
+
+    expect(query).toContain("entry_page = '/pricing'");
+    expect(query).not.toContain("FROM events");
+  });
+
+  it("searches events only within the range for frustrated sessions and property filters", () => {
+    const query = getSessionsQuery({
+      ...week,
+      hasFrustration: "true",
+      filters: JSON.stringify([{ parameter: "prop:plan", type: "equals", value: ["pro"] }]),
+    } as any);
+
+    const eventSubqueries = query.split("FROM events").slice(1);
+    expect(eventSubqueries).toHaveLength(2);
+    for (const subquery of eventSubqueries) {
+      expect(subquery).toMatch(/^\s*WHERE site_id = \{siteId:Int32\}\s+AND timestamp >= toTimeZone\(/);
+    }
+  });
+
+  it("reads every session for all-time requests", () => {
+    const query = getSessionsQuery({ ...week, startDate: "", endDate: "" } as any);
+
+    expect(query).toContain("FROM sessions");
+    expect(query).not.toContain("session_start >=");
+  });
+});
@@ -2,18 +2,33 @@ import { FastifyReply, FastifyRequest } from "fastify";
 import { clickhouse } from "../../db/clickhouse/clickhouse.js";
 import { getUserHasAccessToSitePublic } from "../../lib/auth-utils.js";
 import { FilterParameter } from "./types.js";
-import { getFilterStatement, getSqlParam, getTimeStatement, processResults } from "./utils.js";
-import { FilterParams } from "@rybbit/shared";
+import {
+  canUseImportedAggregates,
+  canUseSessionsTable,
+  getComparisonTimeParams,
+  getFilterStatement,
+  getImportedValuesQuery,
+  getSqlParam,
+  getSessionsSubquery,
+  getTimeRange,
+  getTimeStatement,
+  isImportedDimension,
+  isSessionLevelParameter,
+  processResults,
+} from "./utils.js";
+import { CompareParams, FilterParams } from "@rybbit/shared";
 
-interface GetSingleColRequest {
+export interface GetSingleColRequest {
   Params: {
     site: string;
   };
-  Querystring: FilterParams<{
-    parameter: FilterParameter;
-    limit?: number;
-    page?: number;
-  }>;
+  Querystring: FilterParams<
+    {
+      parameter: FilterParameter;
+      limit?: number;
+      page?: number;
+    } & CompareParams
+  >;
 }
 
 type GetSingleColResponse = {
@@ -39,6 +54,17 @@ type SingleColItem = {
   pageviews?: number;
   pageviews_percentage?: number;
   time_on_page_seconds?: number;
+  // pathname only; all zero when no engagement events were received for the page
+  engaged_visits?: number;
+  avg_engaged_seconds?: number;
+  avg_scroll_depth?: number;
+  scroll_depth_25?: number;
+  scroll_depth_50?: number;
+  scroll_depth_75?: number;
+  scroll_depth_100?: number;
+  // count and pageviews of the same value in the comparison range, when requested
+  comparison_count?: number;
+  comparison_pageviews?: number;
 };
 
 // This is the structure the API will now send
@@ -47,12 +73,33 @@ type GetSingleColPaginatedResponse = {
   totalCount: number;
 };
 
-const getQuery = (request: FastifyRequest<GetSingleColRequest>, isCountQuery: boolean = false) => {
-  const { startDate, endDate, timeZone, filters, parameter, limit, page, pastMinutesStart, pastMinutesEnd } =
-    request.query;
+// Adds imported rows to a breakdown with `value`, `unique_sessions` and `pageviews` columns
+const withImportedValues = (stats: string, params: GetSingleColRequest["Querystring"]) => `
+      SELECT value, sum(sessions_part) AS unique_sessions, sum(pageviews_part) AS pageviews
+      FROM (
+        SELECT value, unique_sessions AS sessions_part, pageviews AS pageviews_part FROM (${stats})
+        UNION ALL
+        SELECT value, visits, pageviews FROM (${getImportedValuesQuery(params.parameter, params)})
+      )
+      GROUP BY value
+    `;
 
-  const filterStatement = getFilterStatement(filters);
-  const timeStatement = getTimeStatement(request.query);
+// Unlimited queries return every row, for exports and for matching comparison rows against the requested page
+export const getSingleColQuery = (
+  params: GetSingleColRequest["Querystring"],
+  isCountQuery: boolean = false,
+  isUnlimited: boolean = false
+) => {
+  const { startDate, endDate, timeZone, filters, parameter, limit, page, pastMinutesStart, pastMinutesEnd } = params;
+
+  const filterStatement = getFilterStatement(filters, "events", params);
+  const timeStatement = getTimeStatement(params);
+  // Session-level breakdowns read from the sessions rollup when no event-level filter is applied
+  const useSessionsTable = canUseSessionsTable(filters);
+  const sessionFilterStatement = useSessionsTable ? getFilterStatement(filters, "sessions", params) : "";
+  const sessionTimeStatement = useSessionsTable ? getTimeStatement(params, "sessions") : "";
+  // Daily totals from aggregate-only imports, for the breakdowns they include
+  const useImportedAggregates = isImportedDimension(parameter) && canUseImportedAggregates(params);
 
   let validatedLimit: number | null = null;
   if (!isCountQuery && limit !== undefined) {
@@ -61,7 +108,8 @@ const getQuery = (request: FastifyRequest<GetSingleColRequest>, isCountQuery: bo
       validatedLimit = parsedLimit;
     }
   }
-  const limitStatement = !isCountQuery && validatedLimit ? `LIMIT ${validatedLimit}` : isCountQuery ? "" : "LIMIT 100";
+  const limitStatement =
+    !isCountQuery && validatedLimit ? `LIMIT ${validatedLimit}` : isCountQuery || isUnlimited ? "" : "LIMIT 100";
 
   let validatedOffset: number | null = null;
   if (!isCountQuery && page !== undefined) {
@@ -146,6 +194,37 @@ const getQuery = (request: FastifyRequest<GetSingleColRequest>, isCountQuery: bo
     `;
   }
 
+  if ((parameter === "exit_page" || parameter === "entry_page") && useSessionsTable) {
+    const pageStats = `
+      SELECT
+          ${parameter} as pathname,
+          count() as unique_sessions
+      FROM ${getSessionsSubquery(getTimeRange(params))}
+      WHERE
+          ${parameter} <> ''
+          ${sessionFilterStatement}
+          ${sessionTimeStatement}
+      GROUP BY pathname
+    `;
+
+    if (isCountQuery) {
+      return `SELECT COUNT(*) as totalCount FROM (${pageStats});`;
+    }
+
+    // Every session has exactly one entry and one exit page, so sessions and pageviews coincide
+    return `
+    SELECT
+        pathname as value,
+        unique_sessions as count,
+        round((unique_sessions / sum(unique_sessions) OVER ()) * 100, 2) as percentage,
+        unique_sessions as pageviews,
+        round((unique_sessions / sum(unique_sessions) OVER ()) * 100, 2) as pageviews_percentage
+    FROM (${pageStats})
+    ORDER BY unique_sessions DESC
+    ${limitStatement}
+    ${offsetStatement};`;
+  }
+
   if (parameter === "exit_page" || parameter === "entry_page") {
     const isEntry = parameter === "entry_page";
     const orderDirection = isEntry ? "ASC" : "DESC";
@@ -220,6 +299,24 @@ const getQuery = (request: FastifyRequest<GetSingleColRequest>, isCountQuery: bo
   }
 
   if (parameter === "pathname") {
+    // Imported pages have no time on page
+    const importedPathStats = useImportedAggregates
+      ? `
+      PathStats AS (
+          SELECT
+              pathname,
+              sum(visits_part) as visits,
+              sum(sessions_part) as unique_sessions,
+              sum(time_part) as avg_time_on_page_seconds
+          FROM (
+              SELECT pathname, visits as visits_part, unique_sessions as sessions_part, avg_time_on_page_seconds as time_part
+              FROM LivePathStats
+              UNION ALL
+              SELECT value, pageviews, visits, 0 FROM (${getImportedValuesQuery(parameter, params)})
+          )
+          GROUP BY pathname
+      ),`
+      : "";
     const baseCteQuery = `
       EventTimes AS (
           SELECT
@@ -243,7 +340,7 @@ const getQuery = (request: FastifyRequest<GetSingleColRequest>, isCountQuery: bo
               if(isNull(next_timestamp), 0, dateDiff('second', timestamp, next_timestamp)) as time_diff_seconds
           FROM EventTimes
       ),
-      PathStats AS (
+      ${useImportedAggregates ? "LivePathStats" : "PathStats"} AS (
           SELECT
               pathname,
               count() as visits,
@@ -251,6 +348,35 @@ const getQuery = (request: FastifyRequest<GetSingleColRequest>, isCountQuery: bo
               avg(if(time_diff_seconds < 0, 0, if(time_diff_seconds > 1800, 1800, time_diff_seconds))) as avg_time_on_page_seconds
           FROM PageDurations
           GROUP BY pathname
+      ),${importedPathStats}
+      -- A visit is one page in one session; engagement events for the same visit are combined
+      EngagedVisits AS (
+          SELECT
+              session_id,
+              pathname,
+              sum(engaged_time_ms) / 1000 as engaged_seconds,
+              max(scroll_depth) as max_scroll_depth
+          FROM events
+          WHERE
+            site_id = {siteId:Int32}
+            AND type = 'engagement'
+            ${filterStatement}
+            ${timeStatement}
+          GROUP BY session_id, pathname
+      ),
+      EngagementStats AS (
+          SELECT
+              pathname,
+              count() as engaged_visits,
+              avg(engaged_seconds) as avg_engaged_seconds,
+              avgIf(max_scroll_depth, isNotNull(max_scroll_depth)) as avg_scroll_depth,
+              -- Share of visits that scrolled at least this far
+              round(countIf(max_scroll_depth >= 25) * 100 / count(), 2) as scroll_depth_25,
+              round(countIf(max_scroll_depth >= 50) * 100 / count(), 2) as scroll_depth_50,
+              round(countIf(max_scroll_depth >= 75) * 100 / count(), 2) as scroll_depth_75,
+              round(countIf(max_scroll_depth >= 100) * 100 / count(), 2) as scroll_depth_100
+          FROM EngagedVisits
+          GROUP BY pathname
       )
     `;
     if (isCountQuery) {
@@ -262,13 +388,21 @@ const getQuery = (request: FastifyRequest<GetSingleColRequest>, isCountQuery: bo
     return `
     WITH ${baseCteQuery}
     SELECT
-        pathname as value,
+        PathStats.pathname as value,
         unique_sessions as count,
         round((unique_sessions / sum(unique_sessions) OVER ()) * 100, 2) as percentage,
         visits as pageviews,
         round((visits / sum(visits) OVER ()) * 100, 2) as pageviews_percentage,
-        avg_time_on_page_seconds as time_on_page_seconds
+        avg_time_on_page_seconds as time_on_page_seconds,
+        EngagementStats.engaged_visits as engaged_visits,
+        EngagementStats.avg_engaged_seconds as avg_engaged_seconds,
+        EngagementStats.avg_scroll_depth as avg_scroll_depth,
+        EngagementStats.scroll_depth_25 as scroll_depth_25,
+        EngagementStats.scroll_depth_50 as scroll_depth_50,
+        EngagementStats.scroll_depth_75 as scroll_depth_75,
+        EngagementStats.scroll_depth_100 as scroll_depth_100
     FROM PathStats
+    LEFT JOIN EngagementStats ON PathStats.pathname = EngagementStats.pathname
     ORDER BY unique_sessions DESC
     ${limitStatement}
     ${offsetStatement};
@@ -277,6 +411,41 @@ const getQuery = (request: FastifyRequest<GetSingleColRequest>, isCountQuery: bo
 
   // Default case for other parameters
   const sqlParam = getSqlParam(parameter);
+
+  if (isSessionLevelParameter(parameter) && useSessionsTable) {
+    const liveSessionStats = `
+      SELECT
+        ${sqlParam} as value,
+        count() as unique_sessions,
+        sum(total_events) as pageviews
+      FROM ${getSessionsSubquery(getTimeRange(params))}
+      WHERE
+          ${sqlParam} IS NOT NULL
+          AND ${sqlParam} <> ''
+          ${sessionFilterStatement}
+          ${sessionTimeStatement}
+      GROUP BY value
+    `;
+    const sessionStats = useImportedAggregates ? withImportedValues(liveSessionStats, params) : liveSessionStats;
+
+    if (isCountQuery) {
+      return `SELECT COUNT(*) as totalCount FROM (${sessionStats});`;
+    }
+
+    return `
+    WITH PageStats AS (${sessionStats})
+    SELECT
+      value,
+      unique_sessions as count,
+      round((unique_sessions / sum(unique_sessions) OVER ()) * 100, 2) as percentage,
+      pageviews,
+      round((pageviews / sum(pageviews) OVER ()) * 100, 2) as pageviews_percentage
+    FROM PageStats
+    ORDER BY count desc
+    ${limitStatement}
+    ${offsetStatement};
+  `;
+  }
   if (isCountQuery) {
     return `
     SELECT COUNT(DISTINCT ${sqlParam}) as totalCount
@@ -329,8 +498,15 @@ export async function getSingleCol(req: FastifyRequest<GetSingleColRequest>, res
 
   const isPaginatedRequest = page !== undefined;
 
-  const dataQuery = getQuery(req, false);
-  const countQuery = getQuery(req, true);
+  let comparisonTimeParams;
+  try {
+    comparisonTimeParams = getComparisonTimeParams(req.query);
+  } catch (error) {
+    return res.status(400).send({ error: "Invalid comparison parameters" });
+  }
+
+  const dataQuery = getSingleColQuery(req.query, false);
+  const countQuery = getSingleColQuery(req.query, true);
 
   try {
     // Run both queries in parallel
@@ -355,6 +531,30 @@ export async function getSingleCol(req: FastifyRequest<GetSingleColRequest>, res
     const countData = await processResults<{ totalCount: number }>(countResult);
     const totalCount = countData.length > 0 ? countData[0].totalCount : 0;
 
+    if (comparisonTimeParams && items.length > 0) {
+      const comparisonQuery = getSingleColQuery(
+        { ...req.query, ...comparisonTimeParams, limit: undefined, page: undefined },
+        false,
+        true
+      );
+      const comparisonResult = await clickhouse.query({
+        query: `SELECT * FROM (${comparisonQuery.trim().replace(/;$/, "")}) WHERE toString(value) IN {values:Array(String)}`,
+        format: "JSONEachRow",
+        query_params: {
+          siteId: Number(site),
+          values: items.map(item => String(item.value)),
+        },
+      });
+      const comparisonItems = await processResults<SingleColItem>(comparisonResult);
+      const comparisonByValue = new Map(comparisonItems.map(item => [String(item.value), item]));
+
+      for (const item of items) {
+        const comparisonItem = comparisonByValue.get(String(item.value));
+        item.comparison_count = comparisonItem?.count ?? 0;
+        item.comparison_pageviews = comparisonItem?.pageviews;
+      }
+    }
+
     return res.send({ data: { data: items, totalCount } });
   } catch (error) {
     console.error(`Error fetching ${parameter}:`, error);
@@ -58,7 +58,7 @@ export async function getUserSessions(req: FastifyRequest<GetUserSessionsRequest
     return res.status(403).send({ error: "Forbidden" });
   }
 
-  const filterStatement = getFilterStatement(filters);
+  const filterStatement = getFilterStatement(filters, "events", req.query);
   const timeStatement = getTimeStatement(req.query);
 
   const query = `
@@ -32,40 +32,21 @@ export interface GetUsersRequest {
   }>;
 }
 
-export async function getUsers(req: FastifyRequest<GetUsersRequest>, res: FastifyReply) {
-  const {
-    startDate,
-    endDate,
-    timeZone,
-    filters,
-    page = "1",
-    pageSize = "20",
-    sortBy = "last_seen",
-    sortOrder = "desc",
-    pastMinutesStart,
-    pastMinutesEnd,
-  } = req.query;
-  const site = req.params.site;
-
-  const userHasAccessToSite = await getUserHasAccessToSitePublic(req, site);
-  if (!userHasAccessToSite) {
-    return res.status(403).send({ error: "Forbidden" });
-  }
-
-  const pageNum = parseInt(page, 10);
-  const pageSizeNum = parseInt(pageSize, 10);
-  const offset = (pageNum - 1) * pageSizeNum;
+/**
+ * Users seen in the time range, aggregated from their events. Expects `siteId`, `limit` and `offset` query params.
+ */
+export function getUsersQuery(params: GetUsersRequest["Querystring"]) {
+  const { filters, sortBy = "last_seen", sortOrder = "desc" } = params;
 
   // Validate sort parameters
   const validSortFields = ["first_seen", "last_seen", "pageviews", "sessions", "events"];
   const actualSortBy = validSortFields.includes(sortBy) ? sortBy : "last_seen";
   const actualSortOrder = sortOrder === "asc" ? "ASC" : "DESC";
 
-  // Generate filter statement and time statement
-  const filterStatement = getFilterStatement(filters);
-  const timeStatement = getTimeStatement(req.query);
+  const filterStatement = getFilterStatement(filters, "events", params);
+  const timeStatement = getTimeStatement(params);
 
-  const query = `
+  return `
 WITH AggregatedUsers AS (
     SELECT
         user_id,
@@ -98,6 +79,35 @@ WHERE 1 = 1 ${filterStatement}
 ORDER BY ${actualSortBy} ${actualSortOrder}
 LIMIT {limit:Int32} OFFSET {offset:Int32}
   `;
+}
+
+export async function getUsers(req: FastifyRequest<GetUsersRequest>, res: FastifyReply) {
+  const {
+    startDate,
+    endDate,
+    timeZone,
+    filters,
+    page = "1",
+    pageSize = "20",
+    pastMinutesStart,
+    pastMinutesEnd,
+  } = req.query;
+  const site = req.params.site;
+
+  const userHasAccessToSite = await getUserHasAccessToSitePublic(req, site);
+  if (!userHasAccessToSite) {
+    return res.status(403).send({ error: "Forbidden" });
+  }
+
+  const pageNum = parseInt(page, 10);
+  const pageSizeNum = parseInt(pageSize, 10);
+  const offset = (pageNum - 1) * pageSizeNum;
+
+  // Generate filter statement and time statement
+  const filterStatement = getFilterStatement(filters, "events", req.query);
+  const timeStatement = getTimeStatement(req.query);
+
+  const query = getUsersQuery(req.query);
 
   // Query to get total count
   const countQuery = `
@@ -129,7 +129,7 @@ export async function getGoals(
     }
 
     // Build filter and time clauses for ClickHouse queries
-    const filterStatement = filters ? getFilterStatement(filters) : "";
+    const filterStatement = filters ? getFilterStatement(filters, "events", request.query) : "";
     const timeStatement = getTimeStatement(request.query);
 
     // First, get the total number of unique sessions (denominator for conversion rate)
@@ -76,7 +76,7 @@ const getQuery = (request: FastifyRequest<GetPerformanceByDimensionRequest>, isC
     throw new Error(`Invalid dimension: ${dimension}`);
   }
 
-  const filterStatement = getFilterStatement(filters);
+  const filterStatement = getFilterStatement(filters, "events", request.query);
   const timeStatement = getTimeStatement(request.query);
 
   let validatedLimit: number | null = null;
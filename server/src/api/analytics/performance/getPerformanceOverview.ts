@@ -6,7 +6,7 @@ import { PerformanceOverviewMetrics } from "../types.js";
 import { FilterParams } from "@rybbit/shared";
 
 const getQuery = (params: FilterParams) => {
-  const filterStatement = getFilterStatement(params.filters);
+  const filterStatement = getFilterStatement(params.filters, "events", params);
 
   return `SELECT
       quantile(0.5)(lcp) AS lcp_p50,
@@ -68,7 +68,7 @@ function getTimeStatementFill(params: FilterParams, bucket: TimeBucket) {
 
 const getQuery = (params: FilterParams<{ bucket: TimeBucket }>) => {
   const { startDate, endDate, timeZone, bucket, filters, pastMinutesStart, pastMinutesEnd } = params;
-  const filterStatement = getFilterStatement(filters);
+  const filterStatement = getFilterStatement(filters, "events", params);
 
   const isAllTime = !startDate && !endDate && !pastMinutesStart && !pastMinutesEnd;
 
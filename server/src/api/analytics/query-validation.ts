@@ -213,6 +213,34 @@ const timeBucketSchema = z.enum([
   "year",
 ]);
 
+/**
+ * Schema for comparison range parameters; custom comparisons need explicit dates
+ */
+const compareParamsSchema = z
+  .object({
+    compare: z.enum(["previous_period", "previous_year", "custom"]).optional(),
+    compareStartDate: z
+      .string()
+      .regex(dateRegex, { message: "Invalid date format. Use YYYY-MM-DD" })
+      .optional()
+      .refine(date => !date || !isNaN(Date.parse(date)), {
+        message: "Invalid date value",
+      }),
+    compareEndDate: z
+      .string()
+      .regex(dateRegex, { message: "Invalid date format. Use YYYY-MM-DD" })
+      .optional()
+      .refine(date => !date || !isNaN(Date.parse(date)), {
+        message: "Invalid date value",
+      }),
+  })
+  .refine(data => data.compare !== "custom" || (data.compareStartDate && data.compareEndDate), {
+    message: "compareStartDate and compareEndDate are required for custom comparisons",
+  })
+  .refine(data => !data.compareStartDate || !data.compareEndDate || data.compareStartDate <= data.compareEndDate, {
+    message: "compareStartDate must not be after compareEndDate",
+  });
+
 // =============================================================================
 // FILTER RELATED SCHEMAS
 // =============================================================================
@@ -220,7 +248,31 @@ const timeBucketSchema = z.enum([
 /**
  * Schema for filter type values
  */
-const filterTypeSchema = z.enum(["equals", "not_equals", "contains", "not_contains"]);
+const filterTypeSchema = z.enum([
+  "equals",
+  "not_equals",
+  "contains",
+  "not_contains",
+  "regex",
+  "not_regex",
+  "greater_than",
+  "less_than",
+  "between",
+  "in",
+  "not_in",
+  "is_set",
+  "is_not_set",
+]);
+
+/**
+ * Filter types that compare values as numbers
+ */
+const NUMERIC_FILTER_TYPES = ["greater_than", "less_than", "between"];
+
+/**
+ * Filter parameters backed by numeric columns
+ */
+export const NUMERIC_FILTER_PARAMETERS = ["lat", "lon", "screen_width", "screen_height"];
 
 /**
  * Schema for filter parameter values
@@ -253,16 +305,58 @@ export const filterParamSchema = z.enum([
   "user_id",
   "lat",
   "lon",
+  "screen_width",
+  "screen_height",
 ]);
 
+/**
+ * Schema for custom event property filter parameters (prop:<key>).
+ * Keys are restricted to characters that are safe in a quoted JSON sub-column path.
+ */
+export const propFilterParamSchema = z.custom<`prop:${string}`>(
+  value => typeof value === "string" && /^prop:[\w .-]{1,128}$/.test(value),
+  { message: "Invalid event property filter" }
+);
+
 /**
  * Schema for filter objects
  */
-const filterSchema = z.object({
-  parameter: filterParamSchema,
-  type: filterTypeSchema,
-  value: z.array(z.string().or(z.number())),
-});
+export const filterSchema = z
+  .object({
+    parameter: filterParamSchema.or(propFilterParamSchema),
+    type: filterTypeSchema,
+    value: z.array(z.string().or(z.number())),
+  })
+  .superRefine((filter, ctx) => {
+    const isPropParameter = filter.parameter.startsWith("prop:");
+    const isNumericColumn = NUMERIC_FILTER_PARAMETERS.includes(filter.parameter);
+
+    if (NUMERIC_FILTER_TYPES.includes(filter.type)) {
+      if (!isPropParameter && !isNumericColumn) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${filter.type} requires a numeric filter parameter` });
+      }
+      if (!filter.value.every(value => value !== "" && !isNaN(Number(value)))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${filter.type} requires numeric values` });
+      }
+      if (filter.type === "between" && filter.value.length !== 2) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "between requires a minimum and a maximum value" });
+      }
+    }
+
+    if ((filter.type === "in" || filter.type === "not_in") && filter.value.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${filter.type} requires at least one value` });
+    }
+
+    if (filter.type === "regex" || filter.type === "not_regex") {
+      if (isNumericColumn) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${filter.type} cannot be used on numeric parameters` });
+      }
+      // Patterns are passed to ClickHouse's RE2 engine, which runs in linear time; just bound their size
+      if (!filter.value.every(value => typeof value === "string" && value.length > 0 && value.length <= 500)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Regex patterns must be 1-500 characters" });
+      }
+    }
+  });
 
 // =============================================================================
 // SANITIZATION FUNCTIONS
@@ -293,6 +387,15 @@ export function validateTimeStatementFillParams(params: FilterParams, bucket: un
   };
 }
 
+/**
+ * Validates comparison parameters for getComparisonTimeParams()
+ * @param params Raw input parameters
+ * @returns Validated comparison mode and custom range
+ */
+export function validateCompareParams(params: unknown) {
+  return compareParamsSchema.parse(params);
+}
+
 /**
  * Validates and sanitizes filters for getFilterStatement()
  * @param filtersStr JSON string of filters
@@ -0,0 +1,288 @@
+import { describe, expect, it } from "vitest";
+import {
+  canUseImportedAggregates,
+  canUseSessionsTable,
+  getComparisonTimeParams,
+  getFilterStatement,
+  getFrustratedSessionsCondition,
+  getImportedTotalsQuery,
+  getImportedValuesQuery,
+  getSessionsSubquery,
+  getSqlParam,
+  getTimeRange,
+  getTimeStatement,
+  withImportedTotals,
+} from "./utils.js";
+
+const filters = (...items: unknown[]) => JSON.stringify(items);
+
+describe("getSqlParam", () => {
+  it("reads custom event properties from the JSON props column", () => {
+    expect(getSqlParam("prop:plan")).toBe("toString(props.`plan`)");
+  });
+
+  it("rejects property keys that are not safe in a column path", () => {
+    expect(() => getSqlParam("prop:plan`) OR 1=1 --")).toThrow();
+  });
+});
+
+describe("getFilterStatement with property filters", () => {
+  it("matches string values with equals and contains", () => {
+    expect(getFilterStatement(filters({ parameter: "prop:plan", type: "equals", value: ["pro"] }))).toBe(
+      "AND toString(props.`plan`) = 'pro'"
+    );
+    expect(getFilterStatement(filters({ parameter: "prop:plan", type: "contains", value: ["pro", "team"] }))).toBe(
+      "AND (toString(props.`plan`) LIKE '%pro%' OR toString(props.`plan`) LIKE '%team%')"
+    );
+  });
+
+  it("compares numeric values", () => {
+    expect(getFilterStatement(filters({ parameter: "prop:amount", type: "greater_than", value: ["10.5"] }))).toBe(
+      "AND toFloat64OrNull(toString(props.`amount`)) > 10.5"
+    );
+  });
+
+  it("only allows numeric comparisons on property filters with numeric values", () => {
+    expect(() => getFilterStatement(filters({ parameter: "pathname", type: "greater_than", value: ["1"] }))).toThrow();
+    expect(() =>
+      getFilterStatement(filters({ parameter: "prop:amount", type: "less_than", value: ["abc"] }))
+    ).toThrow();
+  });
+
+  it("matches sessions through their events on the sessions rollup", () => {
+    const statement = getFilterStatement(
+      filters({ parameter: "prop:plan", type: "equals", value: ["pro"] }),
+      "sessions"
+    );
+
+    expect(statement).toContain("session_id IN (");
+    expect(statement).toContain("FROM events");
+    expect(statement).toContain("toString(props.`plan`) = 'pro'");
+  });
+
+  it("keeps session metrics on the events table", () => {
+    expect(canUseSessionsTable(filters({ parameter: "prop:plan", type: "equals", value: ["pro"] }))).toBe(false);
+  });
+});
+
+describe("sessions rollup time bounds", () => {
+  const week = { startDate: "2024-03-04", endDate: "2024-03-10", timeZone: "UTC" };
+
+  it("keeps the time statement for date ranges", () => {
+    const statement = getTimeStatement(week, "sessions");
+    expect(statement).toMatch(/^AND session_start >= toTimeZone\(/);
+    expect(statement).toContain("AND session_start < if(");
+  });
+
+  it("excludes the start and includes the end of past-minutes ranges", () => {
+    expect(getTimeStatement({ pastMinutesStart: 60, pastMinutesEnd: 0 } as any)).toMatch(
+      /^AND timestamp > toDateTime\('[\d-]+ [\d:]+'\) AND timestamp <= toDateTime\('[\d-]+ [\d:]+'\)$/
+    );
+  });
+
+  it("has no range or statement for all-time requests", () => {
+    expect(getTimeRange({ startDate: "", endDate: "", timeZone: "UTC" })).toBeUndefined();
+    expect(getTimeStatement({ startDate: "", endDate: "", timeZone: "UTC" })).toBe("");
+  });
+
+  it("only merges rollup rows around the requested range", () => {
+    const range = getTimeRange(week)!;
+    const subquery = getSessionsSubquery(range);
+
+    expect(subquery).toContain("WHERE site_id = {siteId:Int32}");
+    expect(subquery).toContain(`AND session_start >= ${range.start} - INTERVAL 1 DAY`);
+    expect(subquery).toContain(`AND session_start < ${range.end} + INTERVAL 1 DAY`);
+    expect(getSessionsSubquery()).not.toContain("AND session_start");
+  });
+
+  it("bounds entry and exit page filters on events by site and time", () => {
+    const statement = getFilterStatement(
+      filters({ parameter: "entry_page", type: "equals", value: ["/pricing"] }),
+      "events",
+      week
+    );
+
+    expect(statement).toContain("FROM sessions");
+    expect(statement).toContain("WHERE site_id = {siteId:Int32}");
+    expect(statement).toContain("AND session_start >= toTimeZone(");
+    expect(statement).toContain("WHERE entry_page = '/pricing'");
+  });
+
+  it("bounds property filters on the rollup by time", () => {
+    const statement = getFilterStatement(
+      filters({ parameter: "prop:plan", type: "equals", value: ["pro"] }),
+      "sessions",
+      week
+    );
+
+    expect(statement).toContain("AND timestamp >= toTimeZone(");
+    expect(statement).toContain("+ INTERVAL 1 DAY");
+  });
+
+  it("only searches frustration signals within the range", () => {
+    const range = getTimeRange(week)!;
+    const condition = getFrustratedSessionsCondition(range);
+
+    expect(condition).toContain(`AND timestamp >= ${range.start} AND timestamp < ${range.end} + INTERVAL 1 DAY`);
+    expect(condition).toContain("AND type = 'frustration'");
+    expect(getFrustratedSessionsCondition()).not.toContain("timestamp");
+  });
+});
+
+describe("getFilterStatement operators", () => {
+  it("matches regex patterns", () => {
+    expect(getFilterStatement(filters({ parameter: "pathname", type: "regex", value: ["^/blog/\\d+$"] }))).toBe(
+      "AND match(pathname, '^/blog/\\\\d+$')"
+    );
+    expect(getFilterStatement(filters({ parameter: "pathname", type: "not_regex", value: ["^/admin"] }))).toBe(
+      "AND NOT match(pathname, '^/admin')"
+    );
+  });
+
+  it("compares numeric columns and ranges", () => {
+    expect(getFilterStatement(filters({ parameter: "screen_width", type: "greater_than", value: [1200] }))).toBe(
+      "AND screen_width > 1200"
+    );
+    expect(getFilterStatement(filters({ parameter: "lat", type: "between", value: ["40.5", "41"] }))).toBe(
+      "AND lat BETWEEN 40.5 AND 41"
+    );
+  });
+
+  it("matches value lists", () => {
+    expect(getFilterStatement(filters({ parameter: "country", type: "in", value: ["US", "CA"] }))).toBe(
+      "AND country IN ('US', 'CA')"
+    );
+    expect(getFilterStatement(filters({ parameter: "country", type: "not_in", value: ["US"] }))).toBe(
+      "AND country NOT IN ('US')"
+    );
+  });
+
+  it("checks whether a value is set", () => {
+    expect(getFilterStatement(filters({ parameter: "utm_source", type: "is_set", value: [] }))).toBe(
+      "AND (url_parameters['utm_source'] IS NOT NULL AND toString(url_parameters['utm_source']) != '')"
+    );
+    expect(getFilterStatement(filters({ parameter: "utm_source", type: "is_not_set", value: [] }))).toBe(
+      "AND (url_parameters['utm_source'] IS NULL OR toString(url_parameters['utm_source']) = '')"
+    );
+  });
+
+  it("rejects operators that do not fit the parameter or values", () => {
+    expect(() => getFilterStatement(filters({ parameter: "lat", type: "between", value: ["40"] }))).toThrow();
+    expect(() => getFilterStatement(filters({ parameter: "country", type: "greater_than", value: [1] }))).toThrow();
+    expect(() => getFilterStatement(filters({ parameter: "lat", type: "regex", value: ["^4"] }))).toThrow();
+    expect(() => getFilterStatement(filters({ parameter: "pathname", type: "regex", value: [""] }))).toThrow();
+  });
+
+  it("keeps tolerance matching for lat/lon equality", () => {
+    expect(getFilterStatement(filters({ parameter: "lat", type: "equals", value: [40] }))).toBe(
+      "AND lat >= 39.999 AND lat <= 40.001"
+    );
+  });
+});
+
+describe("getComparisonTimeParams", () => {
+  const range = { startDate: "2024-03-01", endDate: "2024-03-07", timeZone: "America/New_York", filters: "" };
+
+  it("returns nothing unless a comparison is requested", () => {
+    expect(getComparisonTimeParams(range)).toBeUndefined();
+    expect(
+      getComparisonTimeParams({ ...range, startDate: "", endDate: "", compare: "previous_period" })
+    ).toBeUndefined();
+  });
+
+  it("compares against the equally long range right before", () => {
+    expect(getComparisonTimeParams({ ...range, compare: "previous_period" })).toEqual({
+      startDate: "2024-02-23",
+      endDate: "2024-02-29",
+      timeZone: "America/New_York",
+    });
+  });
+
+  it("keeps the day count across daylight saving changes", () => {
+    expect(
+      getComparisonTimeParams({ ...range, startDate: "2024-03-10", endDate: "2024-03-16", compare: "previous_period" })
+    ).toMatchObject({ startDate: "2024-03-03", endDate: "2024-03-09" });
+  });
+
+  it("compares against the same dates a year earlier", () => {
+    expect(getComparisonTimeParams({ ...range, compare: "previous_year" })).toMatchObject({
+      startDate: "2023-03-01",
+      endDate: "2023-03-07",
+    });
+  });
+
+  it("uses explicit dates for custom comparisons", () => {
+    expect(
+      getComparisonTimeParams({
+        ...range,
+        compare: "custom",
+        compareStartDate: "2024-01-01",
+        compareEndDate: "2024-01-31",
+      })
+    ).toMatchObject({ startDate: "2024-01-01", endDate: "2024-01-31" });
+    expect(() => getComparisonTimeParams({ ...range, compare: "custom" })).toThrow();
+  });
+
+  it("shifts past-minutes ranges back by their length", () => {
+    expect(
+      getComparisonTimeParams({
+        startDate: "",
+        endDate: "",
+        timeZone: "UTC",
+        pastMinutesStart: 60,
+        pastMinutesEnd: 0,
+        compare: "previous_period",
+      })
+    ).toMatchObject({ pastMinutesStart: 120, pastMinutesEnd: 60 });
+  });
+});
+
+describe("imported aggregates", () => {
+  const march = { startDate: "2024-03-01", endDate: "2024-03-31", timeZone: "UTC" };
+
+  it("only apply to unfiltered date ranges at daily or coarser buckets", () => {
+    expect(canUseImportedAggregates({ ...march, filters: "" })).toBe(true);
+    expect(canUseImportedAggregates({ startDate: "", endDate: "", timeZone: "UTC" })).toBe(true);
+    expect(canUseImportedAggregates({ ...march, filters: "" }, "week")).toBe(true);
+    expect(canUseImportedAggregates({ ...march, filters: "" }, "hour")).toBe(false);
+    expect(
+      canUseImportedAggregates({
+        ...march,
+        filters: filters({ parameter: "country", type: "equals", value: ["US"] }),
+      })
+    ).toBe(false);
+    expect(
+      canUseImportedAggregates({ ...march, startDate: "", endDate: "", pastMinutesStart: 60, pastMinutesEnd: 0 })
+    ).toBe(false);
+  });
+
+  it("read site-wide totals for the requested local dates", () => {
+    const query = getImportedTotalsQuery(march);
+
+    expect(query).toContain("AND dimension = 'total'");
+    expect(query).toContain("AND date >= toDate('2024-03-01') AND date <= toDate('2024-03-31')");
+    expect(query).not.toContain("GROUP BY");
+    expect(getImportedTotalsQuery({ startDate: "", endDate: "", timeZone: "UTC" })).not.toContain("AND date");
+  });
+
+  it("bucket totals the same way as events", () => {
+    const query = getImportedTotalsQuery(march, "week");
+
+    expect(query).toContain("toDateTime(toStartOfWeek(toDateTime(date, 'UTC'))) AS time");
+    expect(query).toContain("GROUP BY time");
+  });
+
+  it("read breakdowns by their dimension", () => {
+    expect(getImportedValuesQuery("browser", march)).toContain("AND dimension = 'browser'");
+  });
+
+  it("are joined onto the live metrics", () => {
+    const overview = withImportedTotals("SELECT 1", march);
+    const bucketed = withImportedTotals("SELECT 1", march, "day");
+
+    expect(overview).toContain("CROSS JOIN");
+    expect(overview).toContain("live.pageviews + imported.pageviews AS pageviews");
+    expect(bucketed).toContain("FULL JOIN");
+    expect(bucketed).toContain("USING time ORDER BY time");
+  });
+});
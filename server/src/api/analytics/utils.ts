@@ -1,12 +1,144 @@
 import { ResultSet } from "@clickhouse/client";
-import { FilterParams } from "@rybbit/shared";
+import { CompareParams, FilterParams } from "@rybbit/shared";
+import { DateTime } from "luxon";
 import SqlString from "sqlstring";
-import { filterParamSchema, validateFilters, validateTimeStatementParams } from "./query-validation.js";
-import { FilterParameter, FilterType } from "./types.js";
+import {
+  filterParamSchema,
+  propFilterParamSchema,
+  validateCompareParams,
+  validateFilters,
+  validateTimeStatementParams,
+} from "./query-validation.js";
+import { Filter, FilterParameter, FilterType, TimeBucket } from "./types.js";
 
-export function getTimeStatement(
+/**
+ * Tables the shared time/filter statements can target. Sessions are matched on their start time
+ * and read from the merged rollup (see getSessionsSubquery), whose columns mirror `events`.
+ */
+export type AnalyticsTable = "events" | "sessions";
+
+// Sessions longer than this are cut off at the edges of the time range when reading the rollup
+const SESSION_READ_PADDING = "INTERVAL 1 DAY";
+
+/**
+ * One row per session, merged from the `sessions` rollup table. Expects a `siteId` query param.
+ * Column names match their `events` counterparts so getFilterStatement/getSqlParam apply unchanged.
+ * Only rollup rows around `range` are merged, so the outer query's time filter doesn't have to scan the
+ * site's whole history. Without a range every session is read.
+ */
+export function getSessionsSubquery(range?: TimeRange) {
+  const rangeStatement = range
+    ? `AND session_start >= ${range.start} - ${SESSION_READ_PADDING}
+      AND session_start < ${range.end} + ${SESSION_READ_PADDING}`
+    : "";
+
+  return `(
+    SELECT
+      session_id,
+      any(user_id) AS user_id,
+      min(session_start) AS session_start,
+      max(session_end) AS session_end,
+      dateDiff('second', min(session_start), max(session_end)) AS session_duration,
+      argMinIfMerge(entry_page) AS entry_page,
+      argMaxIfMerge(exit_page) AS exit_page,
+      argMinMerge(hostname) AS hostname,
+      argMinMerge(referrer) AS referrer,
+      argMinMerge(channel) AS channel,
+      argMinMerge(url_parameters) AS url_parameters,
+      argMaxMerge(country) AS country,
+      argMaxMerge(region) AS region,
+      argMaxMerge(city) AS city,
+      argMaxMerge(lat) AS lat,
+      argMaxMerge(lon) AS lon,
+      argMaxMerge(language) AS language,
+      argMaxMerge(device_type) AS device_type,
+      argMaxMerge(browser) AS browser,
+      argMaxMerge(browser_version) AS browser_version,
+      argMaxMerge(operating_system) AS operating_system,
+      argMaxMerge(operating_system_version) AS operating_system_version,
+      argMaxMerge(screen_width) AS screen_width,
+      argMaxMerge(screen_height) AS screen_height,
+      argMaxMerge(ip) AS ip,
+      sum(pageviews) AS pageviews,
+      sum(events) AS events,
+      sum(errors) AS errors,
+      sum(outbound) AS outbound,
+      sum(total_events) AS total_events
+    FROM sessions
+    WHERE site_id = {siteId:Int32}
+      ${rangeStatement}
+    GROUP BY session_id
+  )`;
+}
+
+/**
+ * Keeps sessions in which the tracking script reported a frustration signal. Expects a `siteId` query param.
+ * Only events within `range` are searched, padded at the end like the rollup read.
+ */
+export function getFrustratedSessionsCondition(range?: TimeRange) {
+  const rangeStatement = range
+    ? `AND timestamp >= ${range.start} AND timestamp < ${range.end} + ${SESSION_READ_PADDING}`
+    : "";
+  return `session_id IN (
+    SELECT session_id FROM events WHERE site_id = {siteId:Int32} ${rangeStatement} AND type = 'frustration'
+  )`;
+}
+
+// Filter parameters that describe a whole session rather than an individual event
+const SESSION_LEVEL_PARAMETERS = new Set<FilterParameter>([
+  "browser",
+  "browser_version",
+  "operating_system",
+  "operating_system_version",
+  "language",
+  "country",
+  "region",
+  "city",
+  "lat",
+  "lon",
+  "device_type",
+  "dimensions",
+  "screen_width",
+  "screen_height",
+  "referrer",
+  "channel",
+  "utm_source",
+  "utm_medium",
+  "utm_campaign",
+  "utm_term",
+  "utm_content",
+  "entry_page",
+  "exit_page",
+  "user_id",
+]);
+
+export const isSessionLevelParameter = (parameter: FilterParameter) => SESSION_LEVEL_PARAMETERS.has(parameter);
+
+/**
+ * Whether every filter can be evaluated against the sessions rollup. Event-level filters such as
+ * pathname or event_name change which events count towards a session, so they need the events table.
+ */
+export function canUseSessionsTable(filters: string | undefined) {
+  if (!filters) {
+    return true;
+  }
+  return validateFilters(filters).every(filter => isSessionLevelParameter(filter.parameter));
+}
+
+// SQL expressions for the bounds of a request's time range, in UTC
+export interface TimeRange {
+  start: string;
+  end: string;
+  // Relative ranges exclude their start and include their end, date ranges the other way round
+  pastMinutes: boolean;
+}
+
+/**
+ * Resolves the request's time range to SQL expressions, or undefined for all-time requests.
+ */
+export function getTimeRange(
   params: Pick<FilterParams, "startDate" | "endDate" | "timeZone" | "pastMinutesStart" | "pastMinutesEnd">
-) {
+): TimeRange | undefined {
   const { startDate, endDate, timeZone, pastMinutesStart, pastMinutesEnd } = params;
 
   // Construct the legacy format for validation
@@ -26,22 +158,25 @@ export function getTimeStatement(
   if (sanitized.date) {
     const { startDate, endDate, timeZone } = sanitized.date;
     if (!startDate && !endDate) {
-      return "";
+      return undefined;
     }
 
     // Use SqlString.escape for date and timeZone values
-    return `AND timestamp >= toTimeZone(
+    return {
+      start: `toTimeZone(
       toStartOfDay(toDateTime(${SqlString.escape(startDate)}, ${SqlString.escape(timeZone)})),
       'UTC'
-      )
-      AND timestamp < if(
+      )`,
+      end: `if(
         toDate(${SqlString.escape(endDate)}) = toDate(now(), ${SqlString.escape(timeZone)}),
         now(),
         toTimeZone(
           toStartOfDay(toDateTime(${SqlString.escape(endDate)}, ${SqlString.escape(timeZone)})) + INTERVAL 1 DAY,
           'UTC'
         )
-      )`;
+      )`,
+      pastMinutes: false,
+    };
   }
 
   // Handle specific range of past minutes - convert to exact timestamps for better performance
@@ -57,11 +192,87 @@ export function getTimeStatement(
     const startIso = startTimestamp.toISOString().slice(0, 19).replace("T", " ");
     const endIso = endTimestamp.toISOString().slice(0, 19).replace("T", " ");
 
-    return `AND timestamp > toDateTime(${SqlString.escape(startIso)}) AND timestamp <= toDateTime(${SqlString.escape(endIso)})`;
+    return {
+      start: `toDateTime(${SqlString.escape(startIso)})`,
+      end: `toDateTime(${SqlString.escape(endIso)})`,
+      pastMinutes: true,
+    };
   }
 
-  // If no valid time parameters were provided, return empty string
-  return "";
+  // If no valid time parameters were provided, the range is all-time
+  return undefined;
+}
+
+export function getTimeStatement(
+  params: Pick<FilterParams, "startDate" | "endDate" | "timeZone" | "pastMinutesStart" | "pastMinutesEnd">,
+  table: AnalyticsTable = "events"
+) {
+  const column = table === "sessions" ? "session_start" : "timestamp";
+  const range = getTimeRange(params);
+
+  if (!range) {
+    return "";
+  }
+
+  if (range.pastMinutes) {
+    return `AND ${column} > ${range.start} AND ${column} <= ${range.end}`;
+  }
+
+  return `AND ${column} >= ${range.start}
+      AND ${column} < ${range.end}`;
+}
+
+type TimeParams = Pick<FilterParams, "startDate" | "endDate" | "timeZone" | "pastMinutesStart" | "pastMinutesEnd">;
+
+/**
+ * Resolves the time range a request should be compared against, or undefined when no comparison was asked for
+ * or the range is all-time. Date ranges are shifted by whole days in the request's time zone, so the comparison
+ * covers the same number of local days. Throws if the comparison parameters are invalid.
+ */
+export function getComparisonTimeParams(params: TimeParams & CompareParams): TimeParams | undefined {
+  const { compare, compareStartDate, compareEndDate } = validateCompareParams(params);
+  const { startDate, endDate, timeZone, pastMinutesStart, pastMinutesEnd } = params;
+
+  if (!compare) {
+    return undefined;
+  }
+
+  if (compare === "custom") {
+    return { startDate: compareStartDate!, endDate: compareEndDate!, timeZone };
+  }
+
+  if (pastMinutesStart !== undefined && pastMinutesEnd !== undefined) {
+    const start = Number(pastMinutesStart);
+    const end = Number(pastMinutesEnd);
+    const shift =
+      compare === "previous_period"
+        ? start - end
+        : Math.round(DateTime.now().diff(DateTime.now().minus({ years: 1 }), "minutes").minutes);
+
+    return { startDate: "", endDate: "", timeZone, pastMinutesStart: start + shift, pastMinutesEnd: end + shift };
+  }
+
+  if (!startDate || !endDate) {
+    return undefined;
+  }
+
+  const start = DateTime.fromISO(startDate, { zone: timeZone });
+  const end = DateTime.fromISO(endDate, { zone: timeZone });
+
+  if (compare === "previous_year") {
+    return {
+      startDate: start.minus({ years: 1 }).toISODate()!,
+      endDate: end.minus({ years: 1 }).toISODate()!,
+      timeZone,
+    };
+  }
+
+  const days = Math.round(end.diff(start, "days").days) + 1;
+  return {
+    startDate: start.minus({ days }).toISODate()!,
+    endDate: start.minus({ days: 1 }).toISODate()!,
+    timeZone,
+  };
 }
 
 export async function processResults<T>(results: ResultSet<"JSONEachRow">): Promise<T[]> {
@@ -94,10 +305,26 @@ const filterTypeToOperator = (type: FilterType) => {
       return "LIKE";
     case "not_contains":
       return "NOT LIKE";
+    case "greater_than":
+      return ">";
+    case "less_than":
+      return "<";
+    case "in":
+      return "IN";
+    case "not_in":
+      return "NOT IN";
   }
 };
 
+export const isPropFilterParameter = (parameter: FilterParameter) => parameter.startsWith("prop:");
+
 export const getSqlParam = (parameter: FilterParameter) => {
+  // Custom event properties are sub-columns of the native JSON props column, as in getFunnel
+  if (isPropFilterParameter(parameter)) {
+    const key = propFilterParamSchema.parse(parameter).substring("prop:".length);
+    return `toString(props.${SqlString.escapeId(key)})`;
+  }
+
   // Handle URL parameters through the url_parameters map
   if (parameter.startsWith("utm_") || parameter.startsWith("url_param:")) {
     // For explicit url_param: prefix (e.g., url_param:campaign_id)
@@ -113,11 +340,9 @@ export const getSqlParam = (parameter: FilterParameter) => {
   if (parameter === "referrer") {
     return "domainWithoutWWW(referrer)";
   }
-  if (parameter === "entry_page") {
-    return "(SELECT argMin(pathname, timestamp) FROM events WHERE session_id = events.session_id)";
-  }
-  if (parameter === "exit_page") {
-    return "(SELECT argMax(pathname, timestamp) FROM events WHERE session_id = events.session_id)";
+  // Only available on the sessions rollup; event-level filters go through a session_id subquery instead
+  if (parameter === "entry_page" || parameter === "exit_page") {
+    return parameter;
   }
   if (parameter === "dimensions") {
     return "concat(toString(screen_width), 'x', toString(screen_height))";
@@ -138,7 +363,67 @@ export const getSqlParam = (parameter: FilterParameter) => {
   return filterParamSchema.parse(parameter);
 };
 
-export function getFilterStatement(filters: string) {
+/**
+ * Builds the condition for a single filter against an already resolved SQL expression.
+ * Multiple values are OR-ed together, except for operators that take the whole list at once.
+ */
+const getFilterCondition = (filter: Filter, sqlParam: string, numericSqlParam: string) => {
+  switch (filter.type) {
+    case "is_set":
+      return `(${sqlParam} IS NOT NULL AND toString(${sqlParam}) != '')`;
+    case "is_not_set":
+      return `(${sqlParam} IS NULL OR toString(${sqlParam}) = '')`;
+    case "in":
+    case "not_in":
+      return `${sqlParam} ${filterTypeToOperator(filter.type)} (${filter.value.map(value => SqlString.escape(value)).join(", ")})`;
+    case "between":
+      return `${numericSqlParam} BETWEEN ${Number(filter.value[0])} AND ${Number(filter.value[1])}`;
+  }
+
+  const x = filter.type === "contains" || filter.type === "not_contains" ? "%" : "";
+  const conditions = filter.value.map(value => {
+    switch (filter.type) {
+      case "regex":
+        return `match(${sqlParam}, ${SqlString.escape(String(value))})`;
+      case "not_regex":
+        return `NOT match(${sqlParam}, ${SqlString.escape(String(value))})`;
+      case "greater_than":
+      case "less_than":
+        return `${numericSqlParam} ${filterTypeToOperator(filter.type)} ${Number(value)}`;
+      default:
+        return `${sqlParam} ${filterTypeToOperator(filter.type)} ${SqlString.escape(x + value + x)}`;
+    }
+  });
+
+  return conditions.length === 1 ? conditions[0] : `(${conditions.join(" OR ")})`;
+};
+
+const getPropFilterStatement = (filter: Filter, table: AnalyticsTable, range?: TimeRange) => {
+  const sqlParam = getSqlParam(filter.parameter);
+  const condition = getFilterCondition(filter, sqlParam, `toFloat64OrNull(${sqlParam})`);
+
+  if (table === "events") {
+    return condition;
+  }
+
+  // Props only exist on events, so a session matches if any of its events does
+  const rangeStatement = range
+    ? `AND timestamp >= ${range.start} AND timestamp < ${range.end} + ${SESSION_READ_PADDING}`
+    : "";
+  return `session_id IN (
+    SELECT session_id
+    FROM events
+    WHERE site_id = {siteId:Int32} ${rangeStatement} AND ${condition}
+  )`;
+};
+
+// The original equals/contains operators; lat/lon keep their tolerance matching for these
+const LEGACY_FILTER_TYPES = new Set<FilterType>(["equals", "not_equals", "contains", "not_contains"]);
+
+/**
+ * `timeParams` should be the request's time range. Filters that look up sessions only read those around it.
+ */
+export function getFilterStatement(filters: string, table: AnalyticsTable = "events", timeParams?: TimeParams) {
   if (!filters) {
     return "";
   }
@@ -150,79 +435,26 @@ export function getFilterStatement(filters: string) {
     return "";
   }
 
+  const range = timeParams ? getTimeRange(timeParams) : undefined;
+
   return (
     "AND " +
     filtersArray
       .map(filter => {
-        const x = filter.type === "contains" || filter.type === "not_contains" ? "%" : "";
-        const isNumericParam = filter.parameter === "lat" || filter.parameter === "lon";
-
-        if (filter.parameter === "entry_page") {
-          if (filter.value.length === 1) {
-            return `session_id IN (
-              SELECT session_id
-              FROM (
-                SELECT
-                  session_id,
-                  argMin(pathname, timestamp) AS entry_pathname
-                FROM events
-                GROUP BY session_id
-              )
-              WHERE entry_pathname ${filterTypeToOperator(filter.type)} ${SqlString.escape(x + filter.value[0] + x)}
-            )`;
-          }
-
-          const valuesWithOperator = filter.value.map(
-            value => `entry_pathname ${filterTypeToOperator(filter.type)} ${SqlString.escape(x + value + x)}`
-          );
-
-          return `session_id IN (
-            SELECT session_id
-            FROM (
-              SELECT
-                session_id,
-                argMin(pathname, timestamp) AS entry_pathname
-              FROM events
-              GROUP BY session_id
-            )
-            WHERE (${valuesWithOperator.join(" OR ")})
-          )`;
+        if (isPropFilterParameter(filter.parameter)) {
+          return getPropFilterStatement(filter, table, range);
         }
 
-        if (filter.parameter === "exit_page") {
-          if (filter.value.length === 1) {
-            return `session_id IN (
-              SELECT session_id
-              FROM (
-                SELECT
-                  session_id,
-                  argMax(pathname, timestamp) AS exit_pathname
-                FROM events
-                GROUP BY session_id
-              )
-              WHERE exit_pathname ${filterTypeToOperator(filter.type)} ${SqlString.escape(x + filter.value[0] + x)}
-            )`;
-          }
-
-          const valuesWithOperator = filter.value.map(
-            value => `exit_pathname ${filterTypeToOperator(filter.type)} ${SqlString.escape(x + value + x)}`
-          );
-
+        if ((filter.parameter === "entry_page" || filter.parameter === "exit_page") && table === "events") {
           return `session_id IN (
             SELECT session_id
-            FROM (
-              SELECT
-                session_id,
-                argMax(pathname, timestamp) AS exit_pathname
-              FROM events
-              GROUP BY session_id
-            )
-            WHERE (${valuesWithOperator.join(" OR ")})
+            FROM ${getSessionsSubquery(range)}
+            WHERE ${getFilterCondition(filter, filter.parameter, filter.parameter)}
           )`;
         }
 
         // Special handling for lat/lon with tolerance
-        if (filter.parameter === "lat" || filter.parameter === "lon") {
+        if ((filter.parameter === "lat" || filter.parameter === "lon") && LEGACY_FILTER_TYPES.has(filter.type)) {
           const tolerance = 0.001;
           if (filter.value.length === 1) {
             const targetValue = Number(filter.value[0]);
@@ -237,17 +469,8 @@ export function getFilterStatement(filters: string) {
           return `(${rangeConditions.join(" OR ")})`;
         }
 
-        if (filter.value.length === 1) {
-          const value = isNumericParam ? filter.value[0] : SqlString.escape(x + filter.value[0] + x);
-          return `${getSqlParam(filter.parameter)} ${filterTypeToOperator(filter.type)} ${value}`;
-        }
-
-        const valuesWithOperator = filter.value.map(value => {
-          const escapedValue = isNumericParam ? value : SqlString.escape(x + value + x);
-          return `${getSqlParam(filter.parameter)} ${filterTypeToOperator(filter.type)} ${escapedValue}`;
-        });
-
-        return `(${valuesWithOperator.join(" OR ")})`;
+        const sqlParam = getSqlParam(filter.parameter);
+        return getFilterCondition(filter, sqlParam, sqlParam);
       })
       .join(" AND ")
   );
@@ -301,3 +524,105 @@ export const bucketIntervalMap = {
   month: "1 MONTH",
   year: "1 YEAR",
 } as const;
+
+// Parameters that aggregate-only imports are broken down by, stored as the `dimension` of imported_aggregates
+const IMPORTED_DIMENSIONS = new Set<FilterParameter>([
+  "pathname",
+  "referrer",
+  "country",
+  "device_type",
+  "browser",
+  "operating_system",
+]);
+
+export const isImportedDimension = (parameter: FilterParameter) => IMPORTED_DIMENSIONS.has(parameter);
+
+const DAILY_BUCKETS = new Set<TimeBucket>(["day", "week", "month", "year"]);
+
+/**
+ * Whether daily totals from `imported_aggregates` can be merged into a query. They have no event-level
+ * detail, so filtered requests, past-minutes ranges and buckets shorter than a day leave them out.
+ */
+export function canUseImportedAggregates(params: TimeParams & { filters?: string }, bucket?: TimeBucket) {
+  if (params.filters && validateFilters(params.filters).length > 0) {
+    return false;
+  }
+  if (bucket && !DAILY_BUCKETS.has(bucket)) {
+    return false;
+  }
+  return !getTimeRange(params)?.pastMinutes;
+}
+
+// Imported rows are dated in the source's time zone, so they're matched on the requested local dates
+function getImportedDateStatement(params: TimeParams) {
+  const range = getTimeRange(params);
+  if (!range) {
+    return "";
+  }
+  const { date } = validateTimeStatementParams({
+    date: { startDate: params.startDate, endDate: params.endDate, timeZone: params.timeZone },
+  });
+  return `AND date >= toDate(${SqlString.escape(date!.startDate)}) AND date <= toDate(${SqlString.escape(date!.endDate)})`;
+}
+
+/**
+ * Site-wide imported totals in the requested range, one row per bucket when `bucket` is given.
+ * Bucket times are computed the same way as for events so the rows can be joined on `time`.
+ */
+export function getImportedTotalsQuery(params: TimeParams, bucket?: TimeBucket) {
+  const time = bucket
+    ? `toDateTime(${TimeBucketToFn[bucket]}(toDateTime(date, ${SqlString.escape(params.timeZone)}))) AS time,`
+    : "";
+  return `
+    SELECT
+        ${time}
+        sum(visitors) AS visitors,
+        sum(visits) AS visits,
+        sum(pageviews) AS pageviews,
+        sum(bounces) AS bounces,
+        sum(visit_duration) AS visit_duration
+    FROM imported_aggregates
+    WHERE
+        site_id = {siteId:Int32}
+        AND dimension = 'total'
+        ${getImportedDateStatement(params)}
+    ${bucket ? "GROUP BY time" : ""}`;
+}
+
+/**
+ * Imported rows for one breakdown in the requested range, with `value`, `visits` and `pageviews` columns.
+ */
+export function getImportedValuesQuery(parameter: FilterParameter, params: TimeParams) {
+  return `
+    SELECT value, visits, pageviews
+    FROM imported_aggregates
+    WHERE
+        site_id = {siteId:Int32}
+        AND dimension = ${SqlString.escape(parameter)}
+        AND value <> ''
+        ${getImportedDateStatement(params)}`;
+}
+
+/**
+ * Adds imported totals to an overview query, or to a bucketed one joined on `time`. `liveQuery` returns the
+ * overview columns, with per-session averages that are re-weighted by the combined session count. Imported
+ * visitors are unique per day only, so users are overcounted across days that mix both sources.
+ */
+export function withImportedTotals(liveQuery: string, params: TimeParams, bucket?: TimeBucket) {
+  const sessions = "(live.sessions + imported.visits)";
+  const combine = (average: string, importedTotal: string) =>
+    `if(${sessions} = 0, 0, (if(live.sessions = 0, 0, ${average} * live.sessions) + ${importedTotal}) / ${sessions})`;
+
+  return `
+SELECT
+    ${bucket ? "time," : ""}
+    ${sessions} AS sessions,
+    ${combine("live.pages_per_session", "imported.pageviews")} AS pages_per_session,
+    ${combine("live.bounce_rate", "imported.bounces * 100")} AS bounce_rate,
+    ${combine("live.session_duration", "imported.visit_duration")} AS session_duration,
+    live.pageviews + imported.pageviews AS pageviews,
+    live.users + imported.visitors AS users
+FROM (${liveQuery}) AS live
+${bucket ? "FULL JOIN" : "CROSS JOIN"} (${getImportedTotalsQuery(params, bucket)}) AS imported
+${bucket ? "USING time ORDER BY time" : ""}`;
+}
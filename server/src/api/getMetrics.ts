@@ -0,0 +1,25 @@
+import crypto from "crypto";
+import { FastifyReply, FastifyRequest } from "fastify";
+import { METRICS_TOKEN } from "../lib/const.js";
+import { metricsRegistry } from "../lib/metrics.js";
+
+function isAuthorized(header: string | undefined): boolean {
+  if (!METRICS_TOKEN || !header?.startsWith("Bearer ")) {
+    return false;
+  }
+  const expected = Buffer.from(METRICS_TOKEN);
+  const actual = Buffer.from(header.slice("Bearer ".length));
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export async function getMetrics(request: FastifyRequest, reply: FastifyReply) {
+  if (!METRICS_TOKEN) {
+    return reply.status(404).send({ error: "Metrics are disabled, set METRICS_TOKEN to enable them" });
+  }
+  if (!isAuthorized(request.headers.authorization)) {
+    return reply.status(401).send({ error: "Unauthorized" });
+  }
+
+  reply.type(metricsRegistry.contentType);
+  return reply.send(await metricsRegistry.metrics());
+}
@@ -0,0 +1,61 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { db } from "../../db/postgres/postgres.js";
+import { reportSubscriptions } from "../../db/postgres/schema.js";
+import { getUserHasAccessToSite } from "../../lib/auth-utils.js";
+import { ReportSubscriptionRequest, reportSubscriptionSchema } from "./schemas.js";
+
+export async function createReportSubscription(
+  request: FastifyRequest<{
+    Body: ReportSubscriptionRequest;
+  }>,
+  reply: FastifyReply
+) {
+  const userId = request.user?.id;
+  if (!userId) {
+    return reply.status(401).send({ error: "Unauthorized" });
+  }
+
+  try {
+    const data = reportSubscriptionSchema.parse(request.body);
+
+    // Check user access to every site
+    for (const siteId of data.siteIds) {
+      const userHasAccessToSite = await getUserHasAccessToSite(request, siteId.toString());
+      if (!userHasAccessToSite) {
+        return reply.status(403).send({ error: "Forbidden" });
+      }
+    }
+
+    const result = await db
+      .insert(reportSubscriptions)
+      .values({
+        ...data,
+        userId,
+        unsubscribeToken: randomBytes(24).toString("base64url"),
+      })
+      .returning({ id: reportSubscriptions.id });
+
+    if (!result || result.length === 0) {
+      return reply.status(500).send({ error: "Failed to create report subscription" });
+    }
+
+    return reply.status(201).send({
+      success: true,
+      id: result[0].id,
+    });
+  } catch (error) {
+    console.error("Error creating report subscription:", error);
+
+    // Handle validation errors
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: "Validation error",
+        details: error.errors,
+      });
+    }
+
+    return reply.status(500).send({ error: "Failed to create report subscription" });
+  }
+}
@@ -0,0 +1,39 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { and, eq } from "drizzle-orm";
+import { db } from "../../db/postgres/postgres.js";
+import { reportSubscriptions } from "../../db/postgres/schema.js";
+
+export async function deleteReportSubscription(
+  request: FastifyRequest<{
+    Params: {
+      subscriptionId: string;
+    };
+  }>,
+  reply: FastifyReply
+) {
+  const userId = request.user?.id;
+  if (!userId) {
+    return reply.status(401).send({ error: "Unauthorized" });
+  }
+
+  try {
+    const result = await db
+      .delete(reportSubscriptions)
+      .where(
+        and(
+          eq(reportSubscriptions.id, parseInt(request.params.subscriptionId, 10)),
+          eq(reportSubscriptions.userId, userId)
+        )
+      )
+      .returning({ deleted: reportSubscriptions.id });
+
+    if (!result || result.length === 0) {
+      return reply.status(404).send({ error: "Report subscription not found" });
+    }
+
+    return reply.send({ success: true });
+  } catch (error) {
+    console.error("Error deleting report subscription:", error);
+    return reply.status(500).send({ error: "Failed to delete report subscription" });
+  }
+}
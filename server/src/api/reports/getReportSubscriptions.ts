@@ -0,0 +1,34 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { asc, eq } from "drizzle-orm";
+import { db } from "../../db/postgres/postgres.js";
+import { reportSubscriptions } from "../../db/postgres/schema.js";
+
+export async function getReportSubscriptions(request: FastifyRequest, reply: FastifyReply) {
+  const userId = request.user?.id;
+  if (!userId) {
+    return reply.status(401).send({ error: "Unauthorized" });
+  }
+
+  try {
+    const subscriptions = await db
+      .select({
+        id: reportSubscriptions.id,
+        siteIds: reportSubscriptions.siteIds,
+        frequency: reportSubscriptions.frequency,
+        sendHour: reportSubscriptions.sendHour,
+        timezone: reportSubscriptions.timezone,
+        sections: reportSubscriptions.sections,
+        enabled: reportSubscriptions.enabled,
+        lastSentAt: reportSubscriptions.lastSentAt,
+        createdAt: reportSubscriptions.createdAt,
+      })
+      .from(reportSubscriptions)
+      .where(eq(reportSubscriptions.userId, userId))
+      .orderBy(asc(reportSubscriptions.createdAt));
+
+    return reply.send({ data: subscriptions });
+  } catch (error) {
+    console.error("Error fetching report subscriptions:", error);
+    return reply.status(500).send({ error: "Failed to fetch report subscriptions" });
+  }
+}
@@ -0,0 +1,14 @@
+import { DateTime } from "luxon";
+import { z } from "zod";
+import { REPORT_SECTIONS } from "../../services/weekyReports/weeklyReportTypes.js";
+
+export const reportSubscriptionSchema = z.object({
+  siteIds: z.array(z.number().int().positive()).min(1, "Select at least one site"),
+  frequency: z.enum(["daily", "weekly", "monthly"]),
+  sendHour: z.number().int().min(0).max(23),
+  timezone: z.string().refine(zone => DateTime.local().setZone(zone).isValid, { message: "Invalid timezone" }),
+  sections: z.array(z.enum(REPORT_SECTIONS)).min(1, "Select at least one section"),
+  enabled: z.boolean().default(true),
+});
+
+export type ReportSubscriptionRequest = z.infer<typeof reportSubscriptionSchema>;
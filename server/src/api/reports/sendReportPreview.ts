@@ -0,0 +1,44 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { and, eq } from "drizzle-orm";
+import { db } from "../../db/postgres/postgres.js";
+import { reportSubscriptions } from "../../db/postgres/schema.js";
+import { reportSubscriptionService } from "../../services/weekyReports/reportSubscriptionService.js";
+
+// Sends the subscription's report to its owner right away, without touching its schedule
+export async function sendReportPreview(
+  request: FastifyRequest<{
+    Params: {
+      subscriptionId: string;
+    };
+  }>,
+  reply: FastifyReply
+) {
+  const userId = request.user?.id;
+  if (!userId) {
+    return reply.status(401).send({ error: "Unauthorized" });
+  }
+
+  try {
+    const subscription = await db.query.reportSubscriptions.findFirst({
+      where: and(
+        eq(reportSubscriptions.id, parseInt(request.params.subscriptionId, 10)),
+        eq(reportSubscriptions.userId, userId)
+      ),
+    });
+
+    if (!subscription) {
+      return reply.status(404).send({ error: "Report subscription not found" });
+    }
+
+    const sent = await reportSubscriptionService.sendSubscription(subscription);
+
+    if (sent === 0) {
+      return reply.status(422).send({ error: "No data to report for the selected sites in this period" });
+    }
+
+    return reply.send({ success: true, sent });
+  } catch (error) {
+    console.error("Error sending report preview:", error);
+    return reply.status(500).send({ error: "Failed to send report preview" });
+  }
+}
@@ -0,0 +1,84 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { eq } from "drizzle-orm";
+import { db } from "../../db/postgres/postgres.js";
+import { reportSubscriptions } from "../../db/postgres/schema.js";
+
+type UnsubscribeRequest = FastifyRequest<{ Params: { token: string } }>;
+
+const page = (body: string) =>
+  `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">` +
+  `<title>Unsubscribe</title></head>` +
+  `<body style="font-family:system-ui,sans-serif;max-width:480px;margin:64px auto;padding:0 16px">${body}</body></html>`;
+
+const INVALID_LINK = page("<p>This unsubscribe link is invalid or has expired.</p>");
+
+async function findSubscription(token: string) {
+  const [subscription] = await db
+    .select({ id: reportSubscriptions.id, enabled: reportSubscriptions.enabled })
+    .from(reportSubscriptions)
+    .where(eq(reportSubscriptions.unsubscribeToken, token))
+    .limit(1);
+
+  return subscription ?? null;
+}
+
+// Public unsubscribe links from report emails. GET only shows a confirmation form so link scanners that
+// prefetch URLs in emails don't unsubscribe on their own. POST unsubscribes, and also serves mail clients
+// implementing RFC 8058 List-Unsubscribe-Post.
+export const unsubscribeReportRoutes = async (server: FastifyInstance) => {
+  // One-click unsubscribe requests carry a form body that isn't needed
+  server.addContentTypeParser("application/x-www-form-urlencoded", (_request, _payload, done) => done(null, null));
+
+  server.route({
+    method: "GET",
+    url: "/api/report-subscriptions/unsubscribe/:token",
+    handler: async (request: UnsubscribeRequest, reply: FastifyReply) => {
+      try {
+        const subscription = await findSubscription(request.params.token);
+
+        if (!subscription) {
+          return reply.status(404).type("text/html").send(INVALID_LINK);
+        }
+
+        if (!subscription.enabled) {
+          return reply.type("text/html").send(page("<p>You are already unsubscribed from this email report.</p>"));
+        }
+
+        return reply
+          .type("text/html")
+          .send(
+            page(
+              `<h2>Unsubscribe from this email report?</h2><p>You can subscribe again from your account settings.</p>` +
+                `<form method="post"><button type="submit" style="padding:8px 16px">Unsubscribe</button></form>`
+            )
+          );
+      } catch (error) {
+        console.error("Error loading report subscription:", error);
+        return reply.status(500).type("text/html").send(page("<p>Something went wrong. Please try again later.</p>"));
+      }
+    },
+  });
+
+  server.route({
+    method: "POST",
+    url: "/api/report-subscriptions/unsubscribe/:token",
+    handler: async (request: UnsubscribeRequest, reply: FastifyReply) => {
+      try {
+        const result = await db
+          .update(reportSubscriptions)
+          .set({ enabled: false, updatedAt: new Date().toISOString() })
+          .where(eq(reportSubscriptions.unsubscribeToken, request.params.token))
+          .returning({ id: reportSubscriptions.id });
+
+        if (!result || result.length === 0) {
+          return reply.status(404).type("text/html").send(INVALID_LINK);
+        }
+
+        return reply.type("text/html").send(page("<p>You have been unsubscribed from this email report.</p>"));
+      } catch (error) {
+        console.error("Error unsubscribing from report:", error);
+        return reply.status(500).type("text/html").send(page("<p>Failed to unsubscribe. Please try again later.</p>"));
+      }
+    },
+  });
+};
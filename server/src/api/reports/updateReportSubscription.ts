@@ -0,0 +1,66 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../../db/postgres/postgres.js";
+import { reportSubscriptions } from "../../db/postgres/schema.js";
+import { getUserHasAccessToSite } from "../../lib/auth-utils.js";
+import { ReportSubscriptionRequest, reportSubscriptionSchema } from "./schemas.js";
+
+export async function updateReportSubscription(
+  request: FastifyRequest<{
+    Params: {
+      subscriptionId: string;
+    };
+    Body: ReportSubscriptionRequest;
+  }>,
+  reply: FastifyReply
+) {
+  const userId = request.user?.id;
+  if (!userId) {
+    return reply.status(401).send({ error: "Unauthorized" });
+  }
+
+  const subscriptionId = parseInt(request.params.subscriptionId, 10);
+
+  try {
+    const data = reportSubscriptionSchema.parse(request.body);
+
+    // Check user access to every site
+    for (const siteId of data.siteIds) {
+      const userHasAccessToSite = await getUserHasAccessToSite(request, siteId.toString());
+      if (!userHasAccessToSite) {
+        return reply.status(403).send({ error: "Forbidden" });
+      }
+    }
+
+    const result = await db
+      .update(reportSubscriptions)
+      .set({
+        ...data,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(and(eq(reportSubscriptions.id, subscriptionId), eq(reportSubscriptions.userId, userId)))
+      .returning({ id: reportSubscriptions.id });
+
+    if (!result || result.length === 0) {
+      return reply.status(404).send({ error: "Report subscription not found" });
+    }
+
+    return reply.send({
+      success: true,
+      id: result[0].id,
+    });
+  } catch (error) {
+    console.error("Error updating report subscription:", error);
+
+    // Handle validation errors
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: "Validation error",
+        details: error.errors,
+      });
+    }
+
+    return reply.status(500).send({ error: "Failed to update report subscription" });
+  }
+}
@@ -10,13 +10,14 @@ export async function getSessionReplays(
       offset?: string;
       userId?: string;
       minDuration?: string;
+      hasFrustration?: string;
     }>;
   }>,
   reply: FastifyReply
 ) {
   try {
     const siteId = Number(request.params.site);
-    const { limit, offset, userId, minDuration, filters } = request.query;
+    const { limit, offset, userId, minDuration, hasFrustration, filters } = request.query;
 
     const sessionReplayService = new SessionReplayQueryService();
     const replays = await sessionReplayService.getSessionReplayList(siteId, {
@@ -24,6 +25,7 @@ export async function getSessionReplays(
       offset: offset ? Number(offset) : 0,
       userId: userId || undefined,
       minDuration: minDuration ? Number(minDuration) : undefined,
+      hasFrustration: hasFrustration === "true",
       startDate: request.query.startDate,
       endDate: request.query.endDate,
       timeZone: request.query.timeZone,
@@ -11,8 +11,15 @@ export async function deleteSite(request: FastifyRequest<{ Params: { id: string
     return reply.status(403).send({ error: "Forbidden" });
   }
 
+  const query_params = { siteId: Number(id) };
   await clickhouse.command({
-    query: `DELETE FROM events WHERE site_id = ${id}`,
+    query: "DELETE FROM events WHERE site_id = {siteId:UInt16}",
+    query_params,
+  });
+  // Otherwise the rollup would show the site's sessions again if its id is reused
+  await clickhouse.command({
+    query: "DELETE FROM sessions WHERE site_id = {siteId:UInt16}",
+    query_params,
   });
 
   siteConfig.removeSite(Number(id));
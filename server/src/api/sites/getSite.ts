@@ -55,6 +55,11 @@ export async function getSite(request: FastifyRequest<GetSiteParams>, reply: Fas
       trackUrlParams: site.trackUrlParams,
       trackInitialPageView: site.trackInitialPageView,
       trackSpaNavigation: site.trackSpaNavigation,
+      trackForms: site.trackForms,
+      trackFileDownloads: site.trackFileDownloads,
+      downloadExtensions: site.downloadExtensions,
+      trackContactLinks: site.trackContactLinks,
+      trackImpressions: site.trackImpressions,
     });
   } catch (error) {
     console.error("Error retrieving site:", error);
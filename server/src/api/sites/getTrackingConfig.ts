@@ -20,6 +20,11 @@ export async function getTrackingConfig(request: FastifyRequest<{ Params: { site
       trackUrlParams: config.trackUrlParams ?? true,
       trackInitialPageView: config.trackInitialPageView ?? true,
       trackSpaNavigation: config.trackSpaNavigation ?? true,
+      trackForms: config.trackForms || false,
+      trackFileDownloads: config.trackFileDownloads || false,
+      downloadExtensions: config.downloadExtensions,
+      trackContactLinks: config.trackContactLinks || false,
+      trackImpressions: config.trackImpressions || false,
     });
   } catch (error) {
     console.error("Error getting tracking config:", error);
@@ -0,0 +1,63 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { Readable } from "stream";
+import { z } from "zod";
+import { getSessionFromReq, getUserHasAdminAccessToSite } from "../../../lib/auth-utils.js";
+import { ImportError, importService } from "../../../services/import/importService.js";
+import { createImportSchema } from "./schemas.js";
+
+async function createImport(
+  request: FastifyRequest<{
+    Params: { siteId: string };
+    Querystring: z.infer<typeof createImportSchema>;
+    Body: unknown;
+  }>,
+  reply: FastifyReply
+) {
+  try {
+    const siteId = parseInt(request.params.siteId, 10);
+    if (isNaN(siteId)) {
+      return reply.status(400).send({ error: "Invalid site ID" });
+    }
+
+    const userHasAdminAccessToSite = await getUserHasAdminAccessToSite(request, siteId);
+    if (!userHasAdminAccessToSite) {
+      return reply.status(403).send({ error: "Forbidden" });
+    }
+
+    const { source, fileName } = createImportSchema.parse(request.query);
+    if (!(request.body instanceof Readable)) {
+      return reply.status(415).send({ error: "Upload the export file as application/octet-stream" });
+    }
+
+    const session = await getSessionFromReq(request);
+    const siteImport = await importService.startImport({
+      siteId,
+      source,
+      fileName,
+      content: request.body,
+      userId: session?.user.id,
+    });
+
+    return reply.status(202).send({ data: siteImport });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: "Validation error",
+        details: error.errors,
+      });
+    }
+    if (error instanceof ImportError) {
+      return reply.status(error.statusCode).send({ error: error.message });
+    }
+
+    console.error("Error starting import:", error);
+    return reply.status(500).send({ error: "Failed to start import" });
+  }
+}
+
+export const createImportRoutes = async (server: FastifyInstance) => {
+  // Hands the body over unread, so the upload is streamed to disk instead of buffered
+  server.addContentTypeParser("application/octet-stream", (_request, payload, done) => done(null, payload));
+
+  server.post("/api/site/:siteId/imports", createImport);
+};
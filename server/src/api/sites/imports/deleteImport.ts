@@ -0,0 +1,32 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { getUserHasAdminAccessToSite } from "../../../lib/auth-utils.js";
+import { ImportError, importService } from "../../../services/import/importService.js";
+
+export async function deleteImport(
+  request: FastifyRequest<{ Params: { siteId: string; importId: string } }>,
+  reply: FastifyReply
+) {
+  try {
+    const siteId = parseInt(request.params.siteId, 10);
+    const importId = parseInt(request.params.importId, 10);
+    if (isNaN(siteId) || isNaN(importId)) {
+      return reply.status(400).send({ error: "Invalid site or import ID" });
+    }
+
+    const userHasAdminAccessToSite = await getUserHasAdminAccessToSite(request, siteId);
+    if (!userHasAdminAccessToSite) {
+      return reply.status(403).send({ error: "Forbidden" });
+    }
+
+    const siteImport = await importService.purgeImport(siteId, importId);
+
+    return reply.send({ data: siteImport });
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return reply.status(400).send({ error: error.message });
+    }
+
+    console.error("Error purging import:", error);
+    return reply.status(500).send({ error: "Failed to purge import" });
+  }
+}
@@ -0,0 +1,30 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { desc, eq } from "drizzle-orm";
+import { db } from "../../../db/postgres/postgres.js";
+import { siteImports } from "../../../db/postgres/schema.js";
+import { getUserHasAdminAccessToSite } from "../../../lib/auth-utils.js";
+
+export async function getImports(request: FastifyRequest<{ Params: { siteId: string } }>, reply: FastifyReply) {
+  try {
+    const siteId = parseInt(request.params.siteId, 10);
+    if (isNaN(siteId)) {
+      return reply.status(400).send({ error: "Invalid site ID" });
+    }
+
+    const userHasAdminAccessToSite = await getUserHasAdminAccessToSite(request, siteId);
+    if (!userHasAdminAccessToSite) {
+      return reply.status(403).send({ error: "Forbidden" });
+    }
+
+    const imports = await db
+      .select()
+      .from(siteImports)
+      .where(eq(siteImports.siteId, siteId))
+      .orderBy(desc(siteImports.createdAt));
+
+    return reply.send({ data: imports });
+  } catch (error) {
+    console.error("Error fetching imports:", error);
+    return reply.status(500).send({ error: "Failed to fetch imports" });
+  }
+}
@@ -0,0 +1,8 @@
+import { z } from "zod";
+import { IMPORT_SOURCES } from "../../../services/import/parsers.js";
+
+// The export itself is streamed as the raw request body, so only its details are sent as query parameters
+export const createImportSchema = z.object({
+  source: z.enum(IMPORT_SOURCES),
+  fileName: z.string().min(1).max(255),
+});
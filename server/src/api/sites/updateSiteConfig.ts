@@ -44,6 +44,24 @@ const updateSiteConfigSchema = z.object({
   trackInitialPageView: z.boolean().optional(),
   trackSpaNavigation: z.boolean().optional(),
   trackIp: z.boolean().optional(),
+
+  // Auto-capture
+  trackForms: z.boolean().optional(),
+  trackFileDownloads: z.boolean().optional(),
+  downloadExtensions: z
+    .array(
+      z
+        .string()
+        .trim()
+        .toLowerCase()
+        .regex(/^\.?[a-z0-9]{1,10}$/, "File extensions may only contain letters and digits")
+        .transform(ext => ext.replace(/^\./, ""))
+    )
+    .max(50)
+    .nullable()
+    .optional(),
+  trackContactLinks: z.boolean().optional(),
+  trackImpressions: z.boolean().optional(),
 });
 
 type UpdateSiteConfigRequest = z.infer<typeof updateSiteConfigSchema>;
@@ -117,6 +135,11 @@ export async function updateSiteConfig(
       "trackInitialPageView",
       "trackSpaNavigation",
       "trackIp",
+      "trackForms",
+      "trackFileDownloads",
+      "downloadExtensions",
+      "trackContactLinks",
+      "trackImpressions",
     ];
 
     for (const field of directMappings) {
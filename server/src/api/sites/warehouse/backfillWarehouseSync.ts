@@ -0,0 +1,40 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { z } from "zod";
+import { getUserHasAdminAccessToSite } from "../../../lib/auth-utils.js";
+import { WarehouseSyncError, warehouseSyncService } from "../../../services/warehouse/warehouseSyncService.js";
+import { backfillWarehouseSyncSchema } from "./schemas.js";
+
+export async function backfillWarehouseSync(
+  request: FastifyRequest<{ Params: { siteId: string }; Body: z.infer<typeof backfillWarehouseSyncSchema> }>,
+  reply: FastifyReply
+) {
+  try {
+    const siteId = parseInt(request.params.siteId, 10);
+    if (isNaN(siteId)) {
+      return reply.status(400).send({ error: "Invalid site ID" });
+    }
+
+    const userHasAdminAccessToSite = await getUserHasAdminAccessToSite(request, siteId);
+    if (!userHasAdminAccessToSite) {
+      return reply.status(403).send({ error: "Forbidden" });
+    }
+
+    const { startDate, endDate } = backfillWarehouseSyncSchema.parse(request.body);
+    const run = await warehouseSyncService.startBackfill(siteId, startDate, endDate);
+
+    return reply.status(202).send({ data: run });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: "Validation error",
+        details: error.errors,
+      });
+    }
+    if (error instanceof WarehouseSyncError) {
+      return reply.status(400).send({ error: error.message });
+    }
+
+    console.error("Error starting warehouse backfill:", error);
+    return reply.status(500).send({ error: "Failed to start backfill" });
+  }
+}
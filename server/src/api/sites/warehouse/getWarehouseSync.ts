@@ -0,0 +1,31 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { eq } from "drizzle-orm";
+import { db } from "../../../db/postgres/postgres.js";
+import { warehouseSyncs } from "../../../db/postgres/schema.js";
+import { getUserHasAdminAccessToSite } from "../../../lib/auth-utils.js";
+
+export async function getWarehouseSync(request: FastifyRequest<{ Params: { siteId: string } }>, reply: FastifyReply) {
+  try {
+    const siteId = parseInt(request.params.siteId, 10);
+    if (isNaN(siteId)) {
+      return reply.status(400).send({ error: "Invalid site ID" });
+    }
+
+    const userHasAdminAccessToSite = await getUserHasAdminAccessToSite(request, siteId);
+    if (!userHasAdminAccessToSite) {
+      return reply.status(403).send({ error: "Forbidden" });
+    }
+
+    const [config] = await db.select().from(warehouseSyncs).where(eq(warehouseSyncs.siteId, siteId));
+    if (!config) {
+      return reply.send({ data: null });
+    }
+
+    // Never send the stored secret back to the browser
+    const { secretAccessKey, ...rest } = config;
+    return reply.send({ data: { ...rest, hasSecretAccessKey: !!secretAccessKey } });
+  } catch (error) {
+    console.error("Error fetching warehouse sync:", error);
+    return reply.status(500).send({ error: "Failed to fetch warehouse sync" });
+  }
+}
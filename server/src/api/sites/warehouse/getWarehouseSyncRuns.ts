@@ -0,0 +1,36 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { desc, eq } from "drizzle-orm";
+import { db } from "../../../db/postgres/postgres.js";
+import { warehouseSyncRuns } from "../../../db/postgres/schema.js";
+import { getUserHasAdminAccessToSite } from "../../../lib/auth-utils.js";
+
+const RUN_HISTORY_LIMIT = 50;
+
+export async function getWarehouseSyncRuns(
+  request: FastifyRequest<{ Params: { siteId: string } }>,
+  reply: FastifyReply
+) {
+  try {
+    const siteId = parseInt(request.params.siteId, 10);
+    if (isNaN(siteId)) {
+      return reply.status(400).send({ error: "Invalid site ID" });
+    }
+
+    const userHasAdminAccessToSite = await getUserHasAdminAccessToSite(request, siteId);
+    if (!userHasAdminAccessToSite) {
+      return reply.status(403).send({ error: "Forbidden" });
+    }
+
+    const runs = await db
+      .select()
+      .from(warehouseSyncRuns)
+      .where(eq(warehouseSyncRuns.siteId, siteId))
+      .orderBy(desc(warehouseSyncRuns.startedAt))
+      .limit(RUN_HISTORY_LIMIT);
+
+    return reply.send({ data: runs });
+  } catch (error) {
+    console.error("Error fetching warehouse sync runs:", error);
+    return reply.status(500).send({ error: "Failed to fetch warehouse sync runs" });
+  }
+}
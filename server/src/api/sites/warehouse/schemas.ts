@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+export const updateWarehouseSyncSchema = z.object({
+  enabled: z.boolean(),
+  endpoint: z.string().url().nullable().optional(),
+  region: z.string().min(1).max(64).default("auto"),
+  bucket: z.string().min(3).max(63),
+  prefix: z
+    .string()
+    .max(256)
+    .regex(/^[\w\-./=]*$/, "Prefix may only contain letters, numbers and - _ . / =")
+    .default("rybbit"),
+  accessKeyId: z.string().min(1),
+  // Omitted to keep the stored secret when updating an existing sync
+  secretAccessKey: z.string().min(1).optional(),
+});
+
+export const backfillWarehouseSyncSchema = z
+  .object({
+    startDate: isoDate,
+    endDate: isoDate,
+  })
+  .refine(data => data.startDate <= data.endDate, {
+    message: "startDate must not be after endDate",
+    path: ["endDate"],
+  });
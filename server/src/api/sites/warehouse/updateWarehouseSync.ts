@@ -0,0 +1,61 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../../../db/postgres/postgres.js";
+import { warehouseSyncs } from "../../../db/postgres/schema.js";
+import { getUserHasAdminAccessToSite } from "../../../lib/auth-utils.js";
+import { updateWarehouseSyncSchema } from "./schemas.js";
+
+export async function updateWarehouseSync(
+  request: FastifyRequest<{ Params: { siteId: string }; Body: z.infer<typeof updateWarehouseSyncSchema> }>,
+  reply: FastifyReply
+) {
+  try {
+    const siteId = parseInt(request.params.siteId, 10);
+    if (isNaN(siteId)) {
+      return reply.status(400).send({ error: "Invalid site ID" });
+    }
+
+    const userHasAdminAccessToSite = await getUserHasAdminAccessToSite(request, siteId);
+    if (!userHasAdminAccessToSite) {
+      return reply.status(403).send({ error: "Forbidden" });
+    }
+
+    const { secretAccessKey, endpoint, ...values } = updateWarehouseSyncSchema.parse(request.body);
+
+    const [existing] = await db
+      .select({ id: warehouseSyncs.id })
+      .from(warehouseSyncs)
+      .where(eq(warehouseSyncs.siteId, siteId));
+
+    if (existing) {
+      await db
+        .update(warehouseSyncs)
+        .set({
+          ...values,
+          endpoint: endpoint || null,
+          ...(secretAccessKey ? { secretAccessKey } : {}),
+          updatedAt: new Date().toISOString(),
+        })
+        .where(eq(warehouseSyncs.id, existing.id));
+    } else {
+      if (!secretAccessKey) {
+        return reply.status(400).send({ error: "secretAccessKey is required" });
+      }
+      await db.insert(warehouseSyncs).values({ ...values, endpoint: endpoint || null, secretAccessKey, siteId });
+    }
+
+    return reply.send({ success: true });
+  } catch (error) {
+    console.error("Error updating warehouse sync:", error);
+
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: "Validation error",
+        details: error.errors,
+      });
+    }
+
+    return reply.status(500).send({ error: "Failed to update warehouse sync" });
+  }
+}
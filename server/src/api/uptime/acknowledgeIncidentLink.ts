@@ -0,0 +1,102 @@
+import { and, eq } from "drizzle-orm";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { db } from "../../db/postgres/postgres.js";
+import { uptimeIncidents, uptimeMonitors } from "../../db/postgres/schema.js";
+import { SECRET } from "../../lib/const.js";
+import { verifyAcknowledgeToken } from "../../services/uptime/escalation.js";
+
+type AcknowledgeLinkRequest = FastifyRequest<{ Params: { token: string } }>;
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const page = (body: string) =>
+  `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">` +
+  `<title>Acknowledge incident</title></head>` +
+  `<body style="font-family:system-ui,sans-serif;max-width:480px;margin:64px auto;padding:0 16px">${body}</body></html>`;
+
+async function findIncident(request: AcknowledgeLinkRequest) {
+  const incidentId = SECRET ? verifyAcknowledgeToken(request.params.token, SECRET) : null;
+  if (incidentId === null) {
+    return null;
+  }
+
+  const [incident] = await db
+    .select({
+      id: uptimeIncidents.id,
+      status: uptimeIncidents.status,
+      monitorName: uptimeMonitors.name,
+      url: uptimeMonitors.httpConfig,
+    })
+    .from(uptimeIncidents)
+    .innerJoin(uptimeMonitors, eq(uptimeMonitors.id, uptimeIncidents.monitorId))
+    .where(eq(uptimeIncidents.id, incidentId))
+    .limit(1);
+
+  return incident ?? null;
+}
+
+// Public acknowledge links from alert emails and Slack messages. GET only shows a confirmation form
+// so link scanners that prefetch URLs in emails don't acknowledge incidents on their own.
+export const acknowledgeIncidentLinkRoutes = async (server: FastifyInstance) => {
+  server.addContentTypeParser("application/x-www-form-urlencoded", (_request, _payload, done) => done(null, null));
+
+  server.route({
+    method: "GET",
+    url: "/api/uptime/incidents/acknowledge/:token",
+    handler: async (request: AcknowledgeLinkRequest, reply: FastifyReply) => {
+      const incident = await findIncident(request);
+
+      if (!incident) {
+        return reply
+          .status(404)
+          .type("text/html")
+          .send(page("<p>This acknowledge link is invalid or has expired.</p>"));
+      }
+
+      const name = escapeHtml(incident.monitorName || incident.url?.url || `Monitor incident #${incident.id}`);
+
+      if (incident.status !== "active") {
+        return reply
+          .type("text/html")
+          .send(page(`<p>The incident on <strong>${name}</strong> is already ${incident.status}.</p>`));
+      }
+
+      return reply
+        .type("text/html")
+        .send(
+          page(
+            `<h2>${name} is down</h2><p>Acknowledging stops further escalation for this incident.</p>` +
+              `<form method="post"><button type="submit" style="padding:8px 16px">Acknowledge incident</button></form>`
+          )
+        );
+    },
+  });
+
+  server.route({
+    method: "POST",
+    url: "/api/uptime/incidents/acknowledge/:token",
+    handler: async (request: AcknowledgeLinkRequest, reply: FastifyReply) => {
+      const incident = await findIncident(request);
+
+      if (!incident) {
+        return reply
+          .status(404)
+          .type("text/html")
+          .send(page("<p>This acknowledge link is invalid or has expired.</p>"));
+      }
+
+      if (incident.status !== "active") {
+        return reply.type("text/html").send(page(`<p>This incident is already ${incident.status}.</p>`));
+      }
+
+      const now = new Date().toISOString();
+      // Link clicks aren't tied to a user, so acknowledgedBy stays empty
+      await db
+        .update(uptimeIncidents)
+        .set({ status: "acknowledged", acknowledgedAt: now, updatedAt: now })
+        .where(and(eq(uptimeIncidents.id, incident.id), eq(uptimeIncidents.status, "active")));
+
+      return reply.type("text/html").send(page("<p>Incident acknowledged. No further escalations will be sent.</p>"));
+    },
+  });
+};
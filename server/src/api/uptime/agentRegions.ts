@@ -0,0 +1,158 @@
+import { asc, eq } from "drizzle-orm";
+import { DateTime } from "luxon";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { z } from "zod";
+import { db } from "../../db/postgres/postgres.js";
+import { agentEnrollmentTokens, agentRegions } from "../../db/postgres/schema.js";
+import { getIsUserAdmin, getSessionFromReq } from "../../lib/auth-utils.js";
+import { agentJobQueue } from "../../services/uptime/agentJobQueue.js";
+import { generateEnrollmentToken, normalizeRegionCode } from "../../services/uptime/agentRegistry.js";
+
+// Schemas
+const createEnrollmentTokenSchema = z.object({
+  regionCode: z
+    .string()
+    .min(1)
+    .max(32)
+    .transform(normalizeRegionCode)
+    .refine(code => code.length > 0 && code !== "local", "Invalid region code"),
+  regionName: z.string().min(1).max(100),
+  expiresInHours: z.number().int().min(1).max(168).default(24),
+});
+
+const updateAgentRegionSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  enabled: z.boolean().optional(),
+  draining: z.boolean().optional(),
+});
+
+const codeParamsSchema = z.object({
+  code: z.string().min(1),
+});
+
+// Instance admins manage the monitoring regions shared by every organization
+export const agentRegionRoutes = async (server: FastifyInstance) => {
+  // Get regions with their agents' last heartbeat
+  server.route({
+    method: "GET",
+    url: "/api/uptime/agent-regions",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!(await getIsUserAdmin(request))) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const regions = await db
+        .select({
+          code: agentRegions.code,
+          name: agentRegions.name,
+          endpointUrl: agentRegions.endpointUrl,
+          connectionMode: agentRegions.connectionMode,
+          enabled: agentRegions.enabled,
+          draining: agentRegions.draining,
+          isHealthy: agentRegions.isHealthy,
+          lastHealthCheck: agentRegions.lastHealthCheck,
+          agentVersion: agentRegions.agentVersion,
+          capacity: agentRegions.capacity,
+          inFlight: agentRegions.inFlight,
+          lastHeartbeatAt: agentRegions.lastHeartbeatAt,
+          registeredAt: agentRegions.registeredAt,
+        })
+        .from(agentRegions)
+        .orderBy(asc(agentRegions.code));
+
+      return reply.send({
+        regions: regions.map(region => ({
+          ...region,
+          queuedJobs: agentJobQueue.getQueuedCount(region.code),
+        })),
+      });
+    },
+  });
+
+  // Create a one-time enrollment token. It's only returned here, the database keeps a hash.
+  server.route({
+    method: "POST",
+    url: "/api/uptime/agent-regions/enrollment-tokens",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!(await getIsUserAdmin(request))) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const session = await getSessionFromReq(request);
+      const body = createEnrollmentTokenSchema.parse(request.body);
+      const { token, tokenHash } = generateEnrollmentToken();
+      const expiresAt = DateTime.utc().plus({ hours: body.expiresInHours }).toISO();
+
+      await db.insert(agentEnrollmentTokens).values({
+        tokenHash,
+        regionCode: body.regionCode,
+        regionName: body.regionName,
+        expiresAt,
+        createdBy: session!.user.id,
+      });
+
+      return reply.send({ token, regionCode: body.regionCode, expiresAt });
+    },
+  });
+
+  // Rename, enable/disable or drain a region
+  server.route({
+    method: "PATCH",
+    url: "/api/uptime/agent-regions/:code",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!(await getIsUserAdmin(request))) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const { code } = codeParamsSchema.parse(request.params);
+      const updates = updateAgentRegionSchema.parse(request.body);
+
+      const [updated] = await db.update(agentRegions).set(updates).where(eq(agentRegions.code, code)).returning({
+        code: agentRegions.code,
+        enabled: agentRegions.enabled,
+        draining: agentRegions.draining,
+      });
+
+      if (!updated) {
+        return reply.status(404).send({ error: "Region not found" });
+      }
+
+      // Draining lets queued checks finish, disabling doesn't
+      if (updates.enabled === false) {
+        agentJobQueue.failRegion(code, `Region ${code} was disabled`);
+      }
+
+      return reply.send(updated);
+    },
+  });
+
+  // Remove a region; its agent's token stops working
+  server.route({
+    method: "DELETE",
+    url: "/api/uptime/agent-regions/:code",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!(await getIsUserAdmin(request))) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const { code } = codeParamsSchema.parse(request.params);
+
+      if (code === "local") {
+        return reply.status(400).send({ error: "The local region can't be removed" });
+      }
+
+      const [deleted] = await db
+        .delete(agentRegions)
+        .where(eq(agentRegions.code, code))
+        .returning({ code: agentRegions.code });
+
+      if (!deleted) {
+        return reply.status(404).send({ error: "Region not found" });
+      }
+
+      agentJobQueue.failRegion(code, `Region ${code} was removed`);
+
+      return reply.send({ success: true });
+    },
+  });
+};
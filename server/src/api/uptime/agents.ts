@@ -0,0 +1,244 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { z } from "zod";
+import { db } from "../../db/postgres/postgres.js";
+import { agentEnrollmentTokens, agentRegions } from "../../db/postgres/schema.js";
+import { createServiceLogger } from "../../lib/logger/logger.js";
+import { agentJobQueue } from "../../services/uptime/agentJobQueue.js";
+import {
+  AGENT_HEARTBEAT_INTERVAL_MS,
+  generateAgentToken,
+  getBearerToken,
+  hashAgentSecret,
+  isEnrollmentTokenUsable,
+} from "../../services/uptime/agentRegistry.js";
+import { AgentExecuteResponse } from "../../services/uptime/types.js";
+
+const logger = createServiceLogger("agents");
+
+// Longest a claim request is held open waiting for work
+const MAX_CLAIM_WAIT_MS = 30000;
+
+// Schemas
+const registerSchema = z
+  .object({
+    enrollmentToken: z.string().min(1),
+    connectionMode: z.enum(["push", "pull"]),
+    endpointUrl: z.string().url().optional(),
+    version: z.string().max(64),
+    capacity: z.number().int().min(1).max(1000),
+  })
+  .refine(data => data.connectionMode === "pull" || data.endpointUrl, {
+    message: "Push agents need an endpoint URL",
+    path: ["endpointUrl"],
+  });
+
+const heartbeatSchema = z.object({
+  version: z.string().max(64),
+  capacity: z.number().int().min(1).max(1000),
+  inFlight: z.number().int().min(0),
+});
+
+const claimSchema = z.object({
+  max: z.number().int().min(1).max(100),
+  waitMs: z.number().int().min(0).max(MAX_CLAIM_WAIT_MS).default(20000),
+});
+
+const jobParamsSchema = z.object({
+  jobId: z.string().min(1),
+});
+
+const resultSchema = z
+  .object({
+    status: z.enum(["success", "failure", "timeout"]),
+    responseTimeMs: z.number(),
+  })
+  .passthrough();
+
+async function authenticateAgent(request: FastifyRequest) {
+  const token = getBearerToken(request.headers.authorization);
+  if (!token) {
+    return null;
+  }
+
+  const region = await db.query.agentRegions.findFirst({
+    where: eq(agentRegions.agentTokenHash, hashAgentSecret(token)),
+  });
+
+  return region ?? null;
+}
+
+// Called by monitor agents, authenticated with the token they got when enrolling rather than a session
+export const agentRoutes = async (server: FastifyInstance) => {
+  // Exchange a one-time enrollment token for agent credentials
+  server.route({
+    method: "POST",
+    url: "/api/uptime/agent/register",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const parsed = registerSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: parsed.error.errors[0]?.message ?? "Invalid request" });
+      }
+      const body = parsed.data;
+
+      const enrollment = await db.query.agentEnrollmentTokens.findFirst({
+        where: eq(agentEnrollmentTokens.tokenHash, hashAgentSecret(body.enrollmentToken)),
+      });
+
+      if (!enrollment || !isEnrollmentTokenUsable(enrollment)) {
+        return reply.status(401).send({ error: "Invalid or expired enrollment token" });
+      }
+
+      const { token, tokenHash } = generateAgentToken();
+      const now = new Date().toISOString();
+
+      const registered = await db.transaction(async tx => {
+        // Claiming the token first keeps two agents from enrolling with it at the same time
+        const [claimed] = await tx
+          .update(agentEnrollmentTokens)
+          .set({ usedAt: now })
+          .where(and(eq(agentEnrollmentTokens.id, enrollment.id), isNull(agentEnrollmentTokens.usedAt)))
+          .returning({ id: agentEnrollmentTokens.id });
+
+        if (!claimed) {
+          return false;
+        }
+
+        // Enrolling again for an existing region replaces that region's agent
+        const region = {
+          name: enrollment.regionName,
+          endpointUrl: body.connectionMode === "push" ? body.endpointUrl : null,
+          connectionMode: body.connectionMode,
+          enabled: true,
+          draining: false,
+          isHealthy: true,
+          agentTokenHash: tokenHash,
+          agentVersion: body.version,
+          capacity: body.capacity,
+          inFlight: 0,
+          lastHeartbeatAt: now,
+          lastHealthCheck: now,
+          registeredAt: now,
+        };
+
+        await tx
+          .insert(agentRegions)
+          .values({ code: enrollment.regionCode, ...region })
+          .onConflictDoUpdate({ target: agentRegions.code, set: region });
+
+        return true;
+      });
+
+      if (!registered) {
+        return reply.status(401).send({ error: "Invalid or expired enrollment token" });
+      }
+
+      logger.info(
+        { regionCode: enrollment.regionCode, connectionMode: body.connectionMode, version: body.version },
+        "Agent registered"
+      );
+
+      return reply.send({
+        regionCode: enrollment.regionCode,
+        regionName: enrollment.regionName,
+        agentToken: token,
+        heartbeatIntervalMs: AGENT_HEARTBEAT_INTERVAL_MS,
+      });
+    },
+  });
+
+  // Agents report in periodically and learn whether they're disabled or draining
+  server.route({
+    method: "POST",
+    url: "/api/uptime/agent/heartbeat",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const region = await authenticateAgent(request);
+      if (!region) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const parsed = heartbeatSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: parsed.error.errors[0]?.message ?? "Invalid request" });
+      }
+
+      const now = new Date().toISOString();
+      await db
+        .update(agentRegions)
+        .set({
+          agentVersion: parsed.data.version,
+          capacity: parsed.data.capacity,
+          inFlight: parsed.data.inFlight,
+          lastHeartbeatAt: now,
+          // Pull agents are healthy as long as they report in
+          ...(region.connectionMode === "pull" && { isHealthy: true, lastHealthCheck: now }),
+        })
+        .where(eq(agentRegions.code, region.code));
+
+      return reply.send({
+        regionCode: region.code,
+        enabled: region.enabled ?? true,
+        draining: region.draining,
+        heartbeatIntervalMs: AGENT_HEARTBEAT_INTERVAL_MS,
+      });
+    },
+  });
+
+  // Long-poll for checks to run
+  server.route({
+    method: "POST",
+    url: "/api/uptime/agent/jobs/claim",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const region = await authenticateAgent(request);
+      if (!region) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const parsed = claimSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        return reply.status(400).send({ error: parsed.error.errors[0]?.message ?? "Invalid request" });
+      }
+
+      if (!region.enabled) {
+        return reply.send({ jobs: [] });
+      }
+
+      const abort = new AbortController();
+      reply.raw.on("close", () => abort.abort());
+
+      const jobs = await agentJobQueue.claim(region.code, parsed.data.max, parsed.data.waitMs, abort.signal);
+
+      return reply.send({ jobs });
+    },
+  });
+
+  // Results of claimed checks
+  server.route({
+    method: "POST",
+    url: "/api/uptime/agent/jobs/:jobId/result",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const region = await authenticateAgent(request);
+      if (!region) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const { jobId } = jobParamsSchema.parse(request.params);
+      const parsed = resultSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: parsed.error.errors[0]?.message ?? "Invalid request" });
+      }
+
+      const accepted = agentJobQueue.complete(region.code, {
+        ...parsed.data,
+        jobId,
+        region: region.code,
+      } as AgentExecuteResponse);
+
+      if (!accepted) {
+        return reply.status(404).send({ error: "Unknown or expired job" });
+      }
+
+      return reply.send({ success: true });
+    },
+  });
+};
@@ -5,6 +5,7 @@ import { uptimeMonitors, uptimeMonitorStatus, member } from "../../db/postgres/s
 import { getSessionFromReq } from "../../lib/auth-utils.js";
 import { uptimeService } from "../../services/uptime/uptimeService.js";
 import { createMonitorSchema, type CreateMonitorInput } from "./schemas.js";
+import { escalationPolicyBelongsToOrganization } from "./utils.js";
 
 interface CreateMonitorBody {
   Body: CreateMonitorInput;
@@ -30,9 +31,17 @@ export async function createMonitor(request: FastifyRequest<CreateMonitorBody>,
       enabled,
       httpConfig,
       tcpConfig,
+      dnsConfig,
+      pingConfig,
+      smtpConfig,
+      tlsConfig,
+      multistepConfig,
       validationRules,
       monitoringType,
       selectedRegions,
+      tags,
+      escalationPolicyId,
+      degradedConfig,
     } = validatedBody;
 
     // Check if user has access to the organization
@@ -44,6 +53,13 @@ export async function createMonitor(request: FastifyRequest<CreateMonitorBody>,
       return reply.status(403).send({ error: "Access denied to organization" });
     }
 
+    if (
+      escalationPolicyId !== null &&
+      !(await escalationPolicyBelongsToOrganization(escalationPolicyId, organizationId))
+    ) {
+      return reply.status(400).send({ error: "Escalation policy not found" });
+    }
+
     // Create the monitor
     const [newMonitor] = await db
       .insert(uptimeMonitors)
@@ -55,9 +71,17 @@ export async function createMonitor(request: FastifyRequest<CreateMonitorBody>,
         enabled,
         httpConfig: monitorType === "http" ? httpConfig : null,
         tcpConfig: monitorType === "tcp" ? tcpConfig : null,
+        dnsConfig: monitorType === "dns" ? dnsConfig : null,
+        pingConfig: monitorType === "ping" ? pingConfig : null,
+        smtpConfig: monitorType === "smtp" ? smtpConfig : null,
+        tlsConfig: monitorType === "tls" ? tlsConfig : null,
+        multistepConfig: monitorType === "multistep" ? multistepConfig : null,
         validationRules,
         monitoringType: monitoringType || "local",
         selectedRegions: selectedRegions || ["local"],
+        tags,
+        escalationPolicyId,
+        degradedConfig,
         createdBy: userId,
       })
       .returning();
@@ -0,0 +1,219 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { z } from "zod";
+import { db } from "../../db/postgres/postgres.js";
+import { notificationChannels, uptimeEscalationPolicies } from "../../db/postgres/schema.js";
+import { getSessionFromReq } from "../../lib/auth-utils.js";
+import { validateEscalationPolicy } from "../../services/uptime/escalation.js";
+import { getUserOrganizations } from "./utils.js";
+
+// Schemas
+const escalationStepSchema = z.object({
+  afterMinutes: z.number().int().min(0).max(10080),
+  channelIds: z.array(z.number().int()).min(1).max(50),
+});
+
+const createEscalationPolicySchema = z.object({
+  organizationId: z.string().optional(),
+  name: z.string().min(1).max(100),
+  steps: z.array(escalationStepSchema).min(1).max(10),
+  repeatIntervalMinutes: z.number().int().min(1).max(1440).nullable().default(null),
+});
+
+const updateEscalationPolicySchema = createEscalationPolicySchema.omit({ organizationId: true }).partial();
+
+const idParamsSchema = z.object({
+  id: z.coerce.number().int(),
+});
+
+async function getChannelIdsOutsideOrganization(organizationId: string, steps: Array<{ channelIds: number[] }>) {
+  const channelIds = [...new Set(steps.flatMap(step => step.channelIds))];
+
+  const channels = await db
+    .select({ id: notificationChannels.id })
+    .from(notificationChannels)
+    .where(and(inArray(notificationChannels.id, channelIds), eq(notificationChannels.organizationId, organizationId)));
+
+  const owned = new Set(channels.map(channel => channel.id));
+  return channelIds.filter(id => !owned.has(id));
+}
+
+export const escalationPolicyRoutes = async (server: FastifyInstance) => {
+  // Get escalation policies
+  server.route({
+    method: "GET",
+    url: "/api/uptime/escalation-policies",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const policies = await db
+        .select()
+        .from(uptimeEscalationPolicies)
+        .where(inArray(uptimeEscalationPolicies.organizationId, organizationIds))
+        .orderBy(asc(uptimeEscalationPolicies.name));
+
+      return reply.send({ escalationPolicies: policies });
+    },
+  });
+
+  // Create escalation policy
+  server.route({
+    method: "POST",
+    url: "/api/uptime/escalation-policies",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const body = createEscalationPolicySchema.parse(request.body);
+      const organizationId = body.organizationId ?? organizationIds[0];
+
+      if (!organizationIds.includes(organizationId)) {
+        return reply.status(403).send({ error: "Access denied to organization" });
+      }
+
+      const policyError = validateEscalationPolicy(body);
+      if (policyError) {
+        return reply.status(400).send({ error: policyError });
+      }
+
+      const foreignChannelIds = await getChannelIdsOutsideOrganization(organizationId, body.steps);
+      if (foreignChannelIds.length > 0) {
+        return reply.status(400).send({ error: `Notification channels not found: ${foreignChannelIds.join(", ")}` });
+      }
+
+      const [policy] = await db
+        .insert(uptimeEscalationPolicies)
+        .values({
+          organizationId,
+          name: body.name,
+          steps: body.steps,
+          repeatIntervalMinutes: body.repeatIntervalMinutes,
+          createdBy: userId,
+        })
+        .returning();
+
+      return reply.send(policy);
+    },
+  });
+
+  // Update escalation policy
+  server.route({
+    method: "PUT",
+    url: "/api/uptime/escalation-policies/:id",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const { id } = idParamsSchema.parse(request.params);
+      const updates = updateEscalationPolicySchema.parse(request.body);
+
+      const [existing] = await db
+        .select()
+        .from(uptimeEscalationPolicies)
+        .where(
+          and(eq(uptimeEscalationPolicies.id, id), inArray(uptimeEscalationPolicies.organizationId, organizationIds))
+        )
+        .limit(1);
+
+      if (!existing) {
+        return reply.code(404).send({ error: "Escalation policy not found" });
+      }
+
+      // Validate the policy as it will be after the update
+      const rules = {
+        steps: updates.steps ?? existing.steps,
+        repeatIntervalMinutes:
+          updates.repeatIntervalMinutes !== undefined ? updates.repeatIntervalMinutes : existing.repeatIntervalMinutes,
+      };
+
+      const policyError = validateEscalationPolicy(rules);
+      if (policyError) {
+        return reply.status(400).send({ error: policyError });
+      }
+
+      const foreignChannelIds = await getChannelIdsOutsideOrganization(existing.organizationId, rules.steps);
+      if (foreignChannelIds.length > 0) {
+        return reply.status(400).send({ error: `Notification channels not found: ${foreignChannelIds.join(", ")}` });
+      }
+
+      const [updated] = await db
+        .update(uptimeEscalationPolicies)
+        .set({
+          name: updates.name,
+          ...rules,
+          updatedAt: new Date().toISOString(),
+        })
+        .where(eq(uptimeEscalationPolicies.id, id))
+        .returning();
+
+      return reply.send(updated);
+    },
+  });
+
+  // Delete escalation policy
+  server.route({
+    method: "DELETE",
+    url: "/api/uptime/escalation-policies/:id",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const { id } = idParamsSchema.parse(request.params);
+
+      // Monitors using the policy fall back to notifying all matching channels
+      const [deleted] = await db
+        .delete(uptimeEscalationPolicies)
+        .where(
+          and(eq(uptimeEscalationPolicies.id, id), inArray(uptimeEscalationPolicies.organizationId, organizationIds))
+        )
+        .returning({ id: uptimeEscalationPolicies.id });
+
+      if (!deleted) {
+        return reply.code(404).send({ error: "Escalation policy not found" });
+      }
+
+      return reply.send({ success: true });
+    },
+  });
+};
@@ -68,7 +68,9 @@ export async function getMonitorEvents(request: FastifyRequest<GetMonitorEventsR
         response_size_bytes,
         port,
         error_message,
-        error_type
+        error_type,
+        in_maintenance,
+        steps
       FROM monitor_events
       WHERE monitor_id = {monitorId: UInt32}
     `;
@@ -96,7 +98,10 @@ export async function getMonitorEvents(request: FastifyRequest<GetMonitorEventsR
       format: "JSONEachRow",
     });
 
-    const events = await processResults(result);
+    const events = (await processResults<{ steps: string }>(result)).map(event => ({
+      ...event,
+      steps: event.steps ? JSON.parse(event.steps) : null,
+    }));
 
     // Get total count
     let countQuery = `
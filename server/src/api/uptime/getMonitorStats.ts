@@ -61,7 +61,7 @@ export async function getMonitorStats(request: FastifyRequest<GetMonitorStatsReq
         quantile(0.90)(response_time_ms) as p90_response_time,
         quantile(0.95)(response_time_ms) as p95_response_time,
         quantile(0.99)(response_time_ms) as p99_response_time,
-        100 * countIf(status = 'success') / count() as uptime_percentage
+        100 * countIf(status = 'success' AND in_maintenance = 0) / countIf(in_maintenance = 0) as uptime_percentage
       FROM monitor_events
       WHERE monitor_id = {monitorId: UInt32}
         AND timestamp >= now() - INTERVAL {hours: UInt32} HOUR
@@ -85,6 +85,7 @@ export async function getMonitorUptime(request: FastifyRequest<GetMonitorUptimeR
       FROM monitor_events
       WHERE monitor_id = {monitorId: UInt32}
         AND status != 'success'
+        AND in_maintenance = 0
       ORDER BY timestamp DESC
       LIMIT 1
     `;
@@ -121,7 +122,7 @@ export async function getMonitorUptime(request: FastifyRequest<GetMonitorUptimeR
       }
     }
 
-    // Get total downtime duration for accurate total uptime calculation
+    // Get total downtime duration for accurate total uptime calculation; maintenance windows don't count
     const downtimeStatsQuery = `
       SELECT 
         countIf(status != 'success') as total_downtime_checks,
@@ -130,6 +131,7 @@ export async function getMonitorUptime(request: FastifyRequest<GetMonitorUptimeR
         avg(if(status = 'success', 0, 1)) * 100 as downtime_percentage
       FROM monitor_events
       WHERE monitor_id = {monitorId: UInt32}
+        AND in_maintenance = 0
     `;
 
     const downtimeStatsResult = await clickhouse.query({
@@ -94,6 +94,7 @@ export async function getMonitorUptimeBuckets(
         FROM monitor_events
         WHERE monitor_id = {monitorId: UInt32}
           AND timestamp >= now() - INTERVAL {days: UInt32} DAY
+          AND in_maintenance = 0
       )
       GROUP BY bucket_time_tz
       ORDER BY bucket_time_tz DESC
@@ -98,6 +98,7 @@ export async function getMonitors(request: FastifyRequest<GetMonitorsRequest>, r
               FROM monitor_events
               WHERE monitor_id IN {monitorIds:Array(UInt32)}
                 AND timestamp >= {startTime:String}
+                AND in_maintenance = 0
               GROUP BY monitor_id
             `;
 
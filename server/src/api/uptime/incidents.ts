@@ -11,6 +11,7 @@ const incidentStatusSchema = z.enum(["active", "acknowledged", "resolved", "all"
 
 const getIncidentsQuerySchema = z.object({
   status: incidentStatusSchema.default("all"),
+  kind: z.enum(["down", "degraded", "slo_burn"]).optional(),
   limit: z.coerce.number().int().min(1).max(100).default(50),
   offset: z.coerce.number().int().min(0).default(0),
 });
@@ -25,6 +26,7 @@ const incidentSchema = z.object({
   monitorId: z.number(),
   monitorName: z.string(),
   region: z.string().nullable(),
+  kind: z.string(),
   startTime: z.string(),
   endTime: z.string().nullable(),
   status: z.string(),
@@ -60,7 +62,7 @@ export const incidentsRoutes = async (server: FastifyInstance) => {
       }
 
       const query = getIncidentsQuerySchema.parse(request.query);
-      const { status, limit, offset } = query;
+      const { status, kind, limit, offset } = query;
 
       // Build where conditions
       const conditions = [inArray(uptimeIncidents.organizationId, organizationIds)];
@@ -69,6 +71,10 @@ export const incidentsRoutes = async (server: FastifyInstance) => {
         conditions.push(eq(uptimeIncidents.status, status));
       }
 
+      if (kind) {
+        conditions.push(eq(uptimeIncidents.kind, kind));
+      }
+
       // Use SQL to group incidents by monitor and aggregate regions
       const groupedIncidents = await db
         .select({
@@ -80,12 +86,18 @@ export const incidentsRoutes = async (server: FastifyInstance) => {
               WHEN ${uptimeMonitors.name} IS NOT NULL AND ${uptimeMonitors.name} != '' THEN ${uptimeMonitors.name}
               WHEN ${uptimeMonitors.monitorType} = 'http' THEN COALESCE(${uptimeMonitors.httpConfig}->>'url', 'HTTP Monitor')
               WHEN ${uptimeMonitors.monitorType} = 'tcp' THEN CONCAT(${uptimeMonitors.tcpConfig}->>'host', ':', ${uptimeMonitors.tcpConfig}->>'port')
+              WHEN ${uptimeMonitors.monitorType} = 'dns' THEN CONCAT(${uptimeMonitors.dnsConfig}->>'hostname', ' (', ${uptimeMonitors.dnsConfig}->>'recordType', ')')
+              WHEN ${uptimeMonitors.monitorType} = 'ping' THEN ${uptimeMonitors.pingConfig}->>'host'
+              WHEN ${uptimeMonitors.monitorType} = 'smtp' THEN CONCAT(${uptimeMonitors.smtpConfig}->>'host', ':', ${uptimeMonitors.smtpConfig}->>'port')
+              WHEN ${uptimeMonitors.monitorType} = 'tls' THEN CONCAT(${uptimeMonitors.tlsConfig}->>'host', ':', ${uptimeMonitors.tlsConfig}->>'port')
+              WHEN ${uptimeMonitors.monitorType} = 'multistep' THEN COALESCE(${uptimeMonitors.multistepConfig}->'steps'->0->>'url', 'Multi-step Monitor')
               ELSE 'Unknown Monitor'
             END
           `,
           affectedRegions: sql<
             string[]
           >`ARRAY_REMOVE(ARRAY_AGG(DISTINCT ${uptimeIncidents.region} ORDER BY ${uptimeIncidents.region}), NULL)`,
+          kind: uptimeIncidents.kind,
           startTime: sql<string>`MIN(${uptimeIncidents.startTime})`,
           endTime: sql<string>`MAX(${uptimeIncidents.endTime})`,
           status: uptimeIncidents.status,
@@ -104,6 +116,7 @@ export const incidentsRoutes = async (server: FastifyInstance) => {
         .where(and(...conditions))
         .groupBy(
           uptimeIncidents.monitorId,
+          uptimeIncidents.kind,
           uptimeIncidents.status,
           sql`CASE 
             WHEN ${uptimeIncidents.status} = 'resolved' THEN 
@@ -114,7 +127,12 @@ export const incidentsRoutes = async (server: FastifyInstance) => {
           uptimeMonitors.name,
           uptimeMonitors.monitorType,
           uptimeMonitors.httpConfig,
-          uptimeMonitors.tcpConfig
+          uptimeMonitors.tcpConfig,
+          uptimeMonitors.dnsConfig,
+          uptimeMonitors.pingConfig,
+          uptimeMonitors.smtpConfig,
+          uptimeMonitors.tlsConfig,
+          uptimeMonitors.multistepConfig
         )
         .orderBy(desc(sql`MIN(${uptimeIncidents.startTime})`))
         .limit(limit)
@@ -127,6 +145,8 @@ export const incidentsRoutes = async (server: FastifyInstance) => {
             CONCAT(
               ${uptimeIncidents.monitorId}, 
               '-', 
+              ${uptimeIncidents.kind},
+              '-',
               ${uptimeIncidents.status},
               '-',
               CASE 
@@ -0,0 +1,268 @@
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { DateTime } from "luxon";
+import { z } from "zod";
+import { db } from "../../db/postgres/postgres.js";
+import { uptimeMaintenanceWindows, uptimeMonitors } from "../../db/postgres/schema.js";
+import { getSessionFromReq } from "../../lib/auth-utils.js";
+import {
+  getActiveOccurrence,
+  MAINTENANCE_RECURRENCES,
+  validateMaintenanceSchedule,
+} from "../../services/uptime/maintenance.js";
+import { getUserOrganizations } from "./utils.js";
+
+// Schemas
+const createMaintenanceWindowSchema = z
+  .object({
+    organizationId: z.string().optional(),
+    name: z.string().min(1).max(100),
+    description: z.string().max(1000).nullable().optional(),
+    monitorIds: z.array(z.number().int()).max(500).default([]),
+    monitorTags: z.array(z.string().trim().toLowerCase().min(1).max(50)).max(20).default([]),
+    startTime: z.string().datetime({ offset: true }),
+    endTime: z.string().datetime({ offset: true }),
+    recurrence: z.enum(MAINTENANCE_RECURRENCES).default("none"),
+    recurrenceEndsAt: z.string().datetime({ offset: true }).nullable().optional(),
+    timezone: z.string().default("UTC"),
+  })
+  .refine(data => data.monitorIds.length > 0 || data.monitorTags.length > 0, {
+    message: "Select at least one monitor or tag",
+  });
+
+const updateMaintenanceWindowSchema = createMaintenanceWindowSchema
+  .innerType()
+  .omit({ organizationId: true })
+  .partial();
+
+const idParamsSchema = z.object({
+  id: z.coerce.number().int(),
+});
+
+// Stored without a timezone, so normalize to UTC first
+const toUtcTimestamp = (value: string) => DateTime.fromISO(value).toUTC().toISO()!;
+
+async function getMonitorIdsOutsideOrganization(organizationId: string, monitorIds: number[]) {
+  if (monitorIds.length === 0) {
+    return [];
+  }
+
+  const monitors = await db
+    .select({ id: uptimeMonitors.id })
+    .from(uptimeMonitors)
+    .where(and(inArray(uptimeMonitors.id, monitorIds), eq(uptimeMonitors.organizationId, organizationId)));
+
+  const owned = new Set(monitors.map(monitor => monitor.id));
+  return monitorIds.filter(id => !owned.has(id));
+}
+
+function withActiveOccurrence(window: typeof uptimeMaintenanceWindows.$inferSelect) {
+  const occurrence = getActiveOccurrence(window);
+  return {
+    ...window,
+    activeUntil: occurrence ? occurrence.end.toUTC().toISO() : null,
+  };
+}
+
+export const maintenanceWindowRoutes = async (server: FastifyInstance) => {
+  // Get maintenance windows
+  server.route({
+    method: "GET",
+    url: "/api/uptime/maintenance-windows",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const windows = await db
+        .select()
+        .from(uptimeMaintenanceWindows)
+        .where(inArray(uptimeMaintenanceWindows.organizationId, organizationIds))
+        .orderBy(desc(uptimeMaintenanceWindows.startTime));
+
+      return reply.send({ maintenanceWindows: windows.map(withActiveOccurrence) });
+    },
+  });
+
+  // Create maintenance window
+  server.route({
+    method: "POST",
+    url: "/api/uptime/maintenance-windows",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const body = createMaintenanceWindowSchema.parse(request.body);
+      const organizationId = body.organizationId ?? organizationIds[0];
+
+      if (!organizationIds.includes(organizationId)) {
+        return reply.status(403).send({ error: "Access denied to organization" });
+      }
+
+      const schedule = {
+        startTime: toUtcTimestamp(body.startTime),
+        endTime: toUtcTimestamp(body.endTime),
+        recurrence: body.recurrence,
+        recurrenceEndsAt: body.recurrenceEndsAt ? toUtcTimestamp(body.recurrenceEndsAt) : null,
+        timezone: body.timezone,
+      };
+
+      const scheduleError = validateMaintenanceSchedule(schedule);
+      if (scheduleError) {
+        return reply.status(400).send({ error: scheduleError });
+      }
+
+      const foreignMonitorIds = await getMonitorIdsOutsideOrganization(organizationId, body.monitorIds);
+      if (foreignMonitorIds.length > 0) {
+        return reply.status(400).send({ error: `Monitors not found: ${foreignMonitorIds.join(", ")}` });
+      }
+
+      const [maintenanceWindow] = await db
+        .insert(uptimeMaintenanceWindows)
+        .values({
+          organizationId,
+          name: body.name,
+          description: body.description ?? null,
+          monitorIds: body.monitorIds,
+          monitorTags: body.monitorTags,
+          ...schedule,
+          createdBy: userId,
+        })
+        .returning();
+
+      return reply.send(withActiveOccurrence(maintenanceWindow));
+    },
+  });
+
+  // Update maintenance window
+  server.route({
+    method: "PUT",
+    url: "/api/uptime/maintenance-windows/:id",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const { id } = idParamsSchema.parse(request.params);
+      const updates = updateMaintenanceWindowSchema.parse(request.body);
+
+      const [existing] = await db
+        .select()
+        .from(uptimeMaintenanceWindows)
+        .where(
+          and(eq(uptimeMaintenanceWindows.id, id), inArray(uptimeMaintenanceWindows.organizationId, organizationIds))
+        )
+        .limit(1);
+
+      if (!existing) {
+        return reply.code(404).send({ error: "Maintenance window not found" });
+      }
+
+      // Validate the schedule as it will be after the update
+      const schedule = {
+        startTime: updates.startTime ? toUtcTimestamp(updates.startTime) : existing.startTime,
+        endTime: updates.endTime ? toUtcTimestamp(updates.endTime) : existing.endTime,
+        recurrence: updates.recurrence ?? existing.recurrence,
+        recurrenceEndsAt:
+          updates.recurrenceEndsAt !== undefined
+            ? updates.recurrenceEndsAt && toUtcTimestamp(updates.recurrenceEndsAt)
+            : existing.recurrenceEndsAt,
+        timezone: updates.timezone ?? existing.timezone,
+      };
+
+      const scheduleError = validateMaintenanceSchedule(schedule);
+      if (scheduleError) {
+        return reply.status(400).send({ error: scheduleError });
+      }
+
+      const monitorIds = updates.monitorIds ?? existing.monitorIds;
+      const monitorTags = updates.monitorTags ?? existing.monitorTags;
+      if (monitorIds.length === 0 && monitorTags.length === 0) {
+        return reply.status(400).send({ error: "Select at least one monitor or tag" });
+      }
+
+      const foreignMonitorIds = await getMonitorIdsOutsideOrganization(existing.organizationId, monitorIds);
+      if (foreignMonitorIds.length > 0) {
+        return reply.status(400).send({ error: `Monitors not found: ${foreignMonitorIds.join(", ")}` });
+      }
+
+      const [updated] = await db
+        .update(uptimeMaintenanceWindows)
+        .set({
+          name: updates.name,
+          description: updates.description,
+          monitorIds,
+          monitorTags,
+          ...schedule,
+          updatedAt: new Date().toISOString(),
+        })
+        .where(eq(uptimeMaintenanceWindows.id, id))
+        .returning();
+
+      return reply.send(withActiveOccurrence(updated));
+    },
+  });
+
+  // Delete maintenance window
+  server.route({
+    method: "DELETE",
+    url: "/api/uptime/maintenance-windows/:id",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const { id } = idParamsSchema.parse(request.params);
+
+      const [deleted] = await db
+        .delete(uptimeMaintenanceWindows)
+        .where(
+          and(eq(uptimeMaintenanceWindows.id, id), inArray(uptimeMaintenanceWindows.organizationId, organizationIds))
+        )
+        .returning({ id: uptimeMaintenanceWindows.id });
+
+      if (!deleted) {
+        return reply.code(404).send({ error: "Maintenance window not found" });
+      }
+
+      return reply.send({ success: true });
+    },
+  });
+};
@@ -1,15 +1,16 @@
-import { and, eq, inArray } from "drizzle-orm";
+import { and, desc, eq, inArray } from "drizzle-orm";
 import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import { DateTime } from "luxon";
 import { z } from "zod";
 import { db } from "../../db/postgres/postgres.js";
-import { notificationChannels } from "../../db/postgres/schema.js";
+import { notificationChannels, notificationDeliveries } from "../../db/postgres/schema.js";
 import { getSessionFromReq } from "../../lib/auth-utils.js";
 import { NotificationService } from "../../services/uptime/notificationService.js";
+import { getNotificationProvider, NOTIFICATION_CHANNEL_TYPES } from "../../services/uptime/notifications/index.js";
 import { getUserOrganizations } from "./utils.js";
 
 // Schemas
-const channelTypeSchema = z.enum(["email", "discord", "slack", "sms"]);
+const channelTypeSchema = z.enum(NOTIFICATION_CHANNEL_TYPES);
 
 const channelConfigSchema = z.object({
   email: z.string().email().optional(),
@@ -18,6 +19,19 @@ const channelConfigSchema = z.object({
   slackChannel: z.string().optional(),
   phoneNumber: z.string().optional(),
   provider: z.string().optional(),
+  webhookSecret: z.string().max(256).optional(),
+  webhookTemplate: z.string().max(10000).optional(),
+  webhookHeaders: z.record(z.string()).optional(),
+  pagerDutyRoutingKey: z.string().optional(),
+  opsgenieApiKey: z.string().optional(),
+  opsgenieRegion: z.enum(["us", "eu"]).optional(),
+  teamsWebhookUrl: z.string().url().optional(),
+  telegramBotToken: z.string().optional(),
+  telegramChatId: z.string().optional(),
+  mattermostWebhookUrl: z.string().url().optional(),
+  ntfyTopicUrl: z.string().url().optional(),
+  ntfyToken: z.string().optional(),
+  ntfyPriority: z.number().int().min(1).max(5).optional(),
 });
 
 const createChannelSchema = z.object({
@@ -42,6 +56,10 @@ const channelIdParamsSchema = z.object({
   id: z.coerce.number().int(),
 });
 
+const deliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
 export const notificationRoutes = async (server: FastifyInstance) => {
   // Get all notification channels
   server.route({
@@ -95,17 +113,9 @@ export const notificationRoutes = async (server: FastifyInstance) => {
       const { type, name, config, monitorIds, triggerEvents, cooldownMinutes } = body;
 
       // Validate config based on type
-      if (type === "email" && !config.email) {
-        return reply.code(400).send({ error: "Email address is required for email channel" });
-      }
-      if (type === "discord" && !config.webhookUrl) {
-        return reply.code(400).send({ error: "Webhook URL is required for Discord channel" });
-      }
-      if (type === "slack" && !config.slackWebhookUrl) {
-        return reply.code(400).send({ error: "Webhook URL is required for Slack channel" });
-      }
-      if (type === "sms" && !config.phoneNumber) {
-        return reply.code(400).send({ error: "Phone number is required for SMS channel" });
+      const configError = getNotificationProvider(type)?.validateConfig(config);
+      if (configError) {
+        return reply.code(400).send({ error: configError });
       }
 
       const [channel] = await db
@@ -159,6 +169,13 @@ export const notificationRoutes = async (server: FastifyInstance) => {
         return reply.code(404).send({ error: "Channel not found" });
       }
 
+      if (updates.config) {
+        const configError = getNotificationProvider(channel.type)?.validateConfig(updates.config);
+        if (configError) {
+          return reply.code(400).send({ error: configError });
+        }
+      }
+
       const [updated] = await db
         .update(notificationChannels)
         .set({
@@ -204,13 +221,56 @@ export const notificationRoutes = async (server: FastifyInstance) => {
         return reply.code(404).send({ error: "Channel not found" });
       }
 
-      // Delete the channel
+      // Delete the channel (its delivery log cascades)
       await db.delete(notificationChannels).where(eq(notificationChannels.id, id));
 
       return reply.send({ success: true });
     },
   });
 
+  // Get recent deliveries for a notification channel
+  server.route({
+    method: "GET",
+    url: "/api/uptime/notification-channels/:id/deliveries",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const { id } = channelIdParamsSchema.parse(request.params);
+      const { limit } = deliveriesQuerySchema.parse(request.query);
+
+      // Verify channel belongs to user's organization
+      const [channel] = await db
+        .select({ id: notificationChannels.id })
+        .from(notificationChannels)
+        .where(and(eq(notificationChannels.id, id), inArray(notificationChannels.organizationId, organizationIds)))
+        .limit(1);
+
+      if (!channel) {
+        return reply.code(404).send({ error: "Channel not found" });
+      }
+
+      const deliveries = await db
+        .select()
+        .from(notificationDeliveries)
+        .where(eq(notificationDeliveries.channelId, id))
+        .orderBy(desc(notificationDeliveries.createdAt))
+        .limit(limit);
+
+      return reply.send({ deliveries });
+    },
+  });
+
   // Test notification channel
   server.route({
     method: "POST",
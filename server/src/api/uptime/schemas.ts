@@ -1,3 +1,4 @@
+import { parseJsonPath, ValidationRule } from "@rybbit/shared";
 import { z } from "zod";
 
 // HTTP method enum
@@ -44,6 +45,64 @@ const tcpConfigSchema = z.object({
   timeoutMs: z.number().int().positive().max(300000).optional(), // Max 5 minutes
 });
 
+// Hostnames and IPs only; ping hosts end up as command line arguments
+const hostSchema = z
+  .string()
+  .trim()
+  .min(1, "Host is required")
+  .max(253)
+  .regex(/^[a-zA-Z0-9_][a-zA-Z0-9_.:-]*$/, "Invalid host");
+
+const portSchema = z.number().int().min(1).max(65535, "Port must be between 1 and 65535");
+
+// DNS config schema
+const dnsConfigSchema = z.object({
+  hostname: hostSchema,
+  recordType: z.enum(["A", "AAAA", "CNAME", "MX", "TXT", "NS", "SOA"]).default("A"),
+  expectedValue: z.string().trim().max(1024).optional(),
+  resolver: z.string().ip("Resolver must be an IP address").optional().or(z.literal("")),
+  timeoutMs: z.number().int().positive().max(60000).optional(),
+});
+
+// Ping config schema
+const pingConfigSchema = z.object({
+  host: hostSchema,
+  packetCount: z.number().int().min(1).max(10).default(3),
+  timeoutMs: z.number().int().positive().max(60000).optional(),
+});
+
+// SMTP config schema
+const smtpConfigSchema = z.object({
+  host: hostSchema,
+  port: portSchema.default(25),
+  secure: z.boolean().default(false),
+  requireStartTls: z.boolean().default(false),
+  timeoutMs: z.number().int().positive().max(300000).optional(),
+});
+
+// TLS certificate config schema
+const tlsConfigSchema = z.object({
+  host: hostSchema,
+  port: portSchema.default(443),
+  servername: z.string().trim().max(253).optional(),
+  expiryThresholdDays: z.number().int().min(1).max(365).default(14),
+  timeoutMs: z.number().int().positive().max(300000).optional(),
+});
+
+export const MONITOR_TYPES = ["http", "tcp", "dns", "ping", "smtp", "tls", "multistep"] as const;
+
+const MONITOR_CONFIG_KEYS = {
+  http: "httpConfig",
+  tcp: "tcpConfig",
+  dns: "dnsConfig",
+  ping: "pingConfig",
+  smtp: "smtpConfig",
+  tls: "tlsConfig",
+  multistep: "multistepConfig",
+} as const;
+
+export const getMonitorConfigKey = (monitorType: (typeof MONITOR_TYPES)[number]) => MONITOR_CONFIG_KEYS[monitorType];
+
 // Validation rule schemas
 const statusCodeRuleSchema = z.object({
   type: z.literal("status_code"),
@@ -81,41 +140,193 @@ const responseSizeRuleSchema = z.object({
   value: z.number().positive(),
 });
 
-const validationRuleSchema = z.discriminatedUnion("type", [
-  statusCodeRuleSchema,
-  responseTimeRuleSchema,
-  bodyContainsRuleSchema,
-  headerExistsRuleSchema,
-  headerValueRuleSchema,
-  responseSizeRuleSchema,
-]);
+const regexPatternSchema = z
+  .string()
+  .min(1)
+  .max(512)
+  .refine(
+    pattern => {
+      try {
+        new RegExp(pattern);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: "Invalid regular expression" }
+  );
+
+const bodyMatchesRuleSchema = z.object({
+  type: z.literal("response_body_matches"),
+  pattern: regexPatternSchema,
+  caseSensitive: z.boolean().optional(),
+});
+
+const headerMatchesRuleSchema = z.object({
+  type: z.literal("header_matches"),
+  header: z.string(),
+  pattern: regexPatternSchema,
+  caseSensitive: z.boolean().optional(),
+});
+
+const JSON_PATH_NUMERIC_OPERATORS = [
+  "less_than",
+  "greater_than",
+  "length_equals",
+  "length_less_than",
+  "length_greater_than",
+] as const;
+
+const jsonPathRuleSchema = z.object({
+  type: z.literal("json_path"),
+  path: z.string().refine(path => parseJsonPath(path) !== null, {
+    message: "Use a path like $.data.items[0].id",
+  }),
+  operator: z.enum(["exists", "not_exists", "equals", "not_equals", "contains", ...JSON_PATH_NUMERIC_OPERATORS]),
+  value: z.union([z.string(), z.number(), z.boolean(), z.null()]).optional(),
+});
+
+const tlsExpiryDaysRuleSchema = z.object({
+  type: z.literal("tls_expiry_days"),
+  operator: z.enum(["less_than", "greater_than"]),
+  value: z.number().int(),
+});
+
+const redirectCountRuleSchema = z.object({
+  type: z.literal("redirect_count"),
+  operator: z.enum(["equals", "less_than", "greater_than"]),
+  value: z.number().int().min(0),
+});
+
+// Groups nest, so the union is defined lazily
+const ruleGroupSchema = z.object({
+  type: z.enum(["all_of", "any_of"]),
+  rules: z.lazy(() => z.array(validationRuleSchema).min(1).max(20)),
+});
+
+const validationRuleSchema: z.ZodType<ValidationRule> = z
+  .discriminatedUnion("type", [
+    statusCodeRuleSchema,
+    responseTimeRuleSchema,
+    bodyContainsRuleSchema,
+    bodyMatchesRuleSchema,
+    jsonPathRuleSchema,
+    headerExistsRuleSchema,
+    headerValueRuleSchema,
+    headerMatchesRuleSchema,
+    responseSizeRuleSchema,
+    tlsExpiryDaysRuleSchema,
+    redirectCountRuleSchema,
+    ruleGroupSchema,
+  ])
+  .superRefine((rule, ctx) => {
+    if (
+      rule.type === "json_path" &&
+      (JSON_PATH_NUMERIC_OPERATORS as readonly string[]).includes(rule.operator) &&
+      typeof rule.value !== "number"
+    ) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A number is required", path: ["value"] });
+    }
+  });
+
+// Multi-step config schema
+const variableNameSchema = z.string().regex(/^[\w.-]{1,64}$/, "Use letters, numbers, dots, dashes and underscores");
+
+const extractionSchema = z.object({
+  name: variableNameSchema,
+  source: z.enum(["json", "header", "regex"]),
+  expression: z.string().min(1, "Expression is required").max(512),
+});
+
+const multistepStepSchema = z.object({
+  name: z.string().trim().min(1, "Step name is required").max(100),
+  // Placeholders can stand in for any part of the URL, so only the scheme is checked up front
+  url: z.string().regex(/^https?:\/\//i, "URL must start with http:// or https://"),
+  method: httpMethodSchema.default("GET"),
+  headers: z.record(z.string()).optional(),
+  body: z.string().optional(),
+  timeoutMs: z.number().int().positive().max(300000).optional(),
+  extract: z.array(extractionSchema).max(20).default([]),
+  validationRules: z.array(validationRuleSchema).default([]),
+});
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+const multistepConfigSchema = z
+  .object({
+    steps: z.array(multistepStepSchema).min(1, "Add at least one step").max(10),
+    followRedirects: z.boolean().default(true),
+    userAgent: z.string().max(256).optional(),
+  })
+  .superRefine((config, ctx) => {
+    // Steps can only use values extracted by the steps before them
+    const available = new Set<string>();
+    config.steps.forEach((step, index) => {
+      const templates = [step.url, step.body ?? "", ...Object.values(step.headers ?? {})];
+      for (const template of templates) {
+        for (const [, name] of template.matchAll(VARIABLE_PATTERN)) {
+          if (!available.has(name)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `{{${name}}} is not extracted by an earlier step`,
+              path: ["steps", index],
+            });
+          }
+        }
+      }
+      step.extract.forEach(extraction => available.add(extraction.name));
+    });
+  });
+
+// Degraded thresholds; a check that passes but crosses one of these marks the monitor degraded
+const degradedConfigSchema = z
+  .object({
+    responseTimeP95Ms: z.number().int().positive().max(300000).optional(),
+    responseTimeWindowMinutes: z.number().int().min(1).max(1440).optional(),
+    partialRegionFailure: z.boolean().optional(),
+    warningRules: z.array(validationRuleSchema).max(20).optional(),
+  })
+  .nullable();
+
+// Tags are matched exactly, so normalize them up front
+const monitorTagsSchema = z.array(z.string().trim().toLowerCase().min(1).max(50)).max(20);
 
 // Create monitor schema
 export const createMonitorSchema = z
   .object({
     organizationId: z.string().min(1, "Organization ID is required"),
     name: z.string().max(256).optional(), // Made optional
-    monitorType: z.enum(["http", "tcp"]),
+    monitorType: z.enum(MONITOR_TYPES),
     intervalSeconds: z.number().int().min(30).max(86400, "Interval must be between 60 and 86400 seconds"),
     enabled: z.boolean().default(true),
     httpConfig: httpConfigSchema.optional(),
     tcpConfig: tcpConfigSchema.optional(),
+    dnsConfig: dnsConfigSchema.optional(),
+    pingConfig: pingConfigSchema.optional(),
+    smtpConfig: smtpConfigSchema.optional(),
+    tlsConfig: tlsConfigSchema.optional(),
+    multistepConfig: multistepConfigSchema.optional(),
     validationRules: z.array(validationRuleSchema).default([]),
     monitoringType: z.enum(["local", "global"]).default("local"),
     selectedRegions: z.array(z.string()).default([]),
+    tags: monitorTagsSchema.default([]),
+    escalationPolicyId: z.number().int().nullable().default(null),
+    degradedConfig: degradedConfigSchema.default(null),
+  })
+  .refine(data => data[getMonitorConfigKey(data.monitorType)] !== undefined, {
+    message: "Monitor type specific configuration is required",
+  })
+  .refine(data => data.monitorType === "http" || data.validationRules.every(rule => rule.type === "response_time"), {
+    message: "Only response time rules apply to non-HTTP monitors",
+    path: ["validationRules"],
   })
   .refine(
-    data => {
-      if (data.monitorType === "http") {
-        return data.httpConfig !== undefined;
-      }
-      if (data.monitorType === "tcp") {
-        return data.tcpConfig !== undefined;
-      }
-      return false;
-    },
+    data =>
+      data.monitorType === "http" ||
+      (data.degradedConfig?.warningRules ?? []).every(rule => rule.type === "response_time"),
     {
-      message: "Monitor type specific configuration is required",
+      message: "Only response time rules apply to non-HTTP monitors",
+      path: ["degradedConfig", "warningRules"],
     }
   );
 
@@ -126,9 +337,17 @@ export const updateMonitorSchema = z.object({
   enabled: z.boolean().optional(),
   httpConfig: httpConfigSchema.optional(),
   tcpConfig: tcpConfigSchema.optional(),
+  dnsConfig: dnsConfigSchema.optional(),
+  pingConfig: pingConfigSchema.optional(),
+  smtpConfig: smtpConfigSchema.optional(),
+  tlsConfig: tlsConfigSchema.optional(),
+  multistepConfig: multistepConfigSchema.optional(),
   validationRules: z.array(validationRuleSchema).optional(),
   monitoringType: z.enum(["local", "global"]).optional(),
   selectedRegions: z.array(z.string()).optional(),
+  tags: monitorTagsSchema.optional(),
+  escalationPolicyId: z.number().int().nullable().optional(),
+  degradedConfig: degradedConfigSchema.optional(),
 });
 
 // Query params schemas
@@ -138,7 +357,7 @@ export const getMonitorsQuerySchema = z.object({
     .enum(["true", "false"])
     .transform(val => val === "true")
     .optional(),
-  monitorType: z.enum(["http", "tcp"]).optional(),
+  monitorType: z.enum(MONITOR_TYPES).optional(),
   limit: z.string().transform(Number).pipe(z.number().int().positive().max(100)).default("50"),
   offset: z.string().transform(Number).pipe(z.number().int().nonnegative()).default("0"),
 });
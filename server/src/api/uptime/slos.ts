@@ -0,0 +1,193 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { z } from "zod";
+import { db } from "../../db/postgres/postgres.js";
+import { uptimeMonitors, uptimeSlos } from "../../db/postgres/schema.js";
+import { getSessionFromReq } from "../../lib/auth-utils.js";
+import { evaluateSlo } from "../../services/uptime/sloEvaluator.js";
+import { getUserOrganizations } from "./utils.js";
+
+// Schemas
+const createSloSchema = z.object({
+  organizationId: z.string().optional(),
+  monitorId: z.number().int(),
+  name: z.string().min(1).max(100),
+  targetPercentage: z.number().gt(0).lt(100),
+  windowDays: z.number().int().min(1).max(90).default(30),
+  burnRateThreshold: z.number().min(1).max(1000).default(14.4),
+  burnRateWindowMinutes: z.number().int().min(5).max(1440).default(60),
+  enabled: z.boolean().default(true),
+});
+
+const updateSloSchema = createSloSchema.omit({ organizationId: true, monitorId: true }).partial();
+
+const getSlosQuerySchema = z.object({
+  monitorId: z.coerce.number().int().optional(),
+});
+
+const idParamsSchema = z.object({
+  id: z.coerce.number().int(),
+});
+
+export const sloRoutes = async (server: FastifyInstance) => {
+  // Get SLOs with their current attainment, error budget and burn rate
+  server.route({
+    method: "GET",
+    url: "/api/uptime/slos",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const { monitorId } = getSlosQuerySchema.parse(request.query);
+
+      const slos = await db
+        .select()
+        .from(uptimeSlos)
+        .where(
+          and(
+            inArray(uptimeSlos.organizationId, organizationIds),
+            monitorId !== undefined ? eq(uptimeSlos.monitorId, monitorId) : undefined
+          )
+        )
+        .orderBy(asc(uptimeSlos.name));
+
+      const withStatus = await Promise.all(
+        slos.map(async slo => ({
+          ...slo,
+          // A ClickHouse hiccup shouldn't hide the SLO definitions
+          status: await evaluateSlo(slo).catch(() => null),
+        }))
+      );
+
+      return reply.send({ slos: withStatus });
+    },
+  });
+
+  // Create SLO
+  server.route({
+    method: "POST",
+    url: "/api/uptime/slos",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const body = createSloSchema.parse(request.body);
+      const organizationId = body.organizationId ?? organizationIds[0];
+
+      if (!organizationIds.includes(organizationId)) {
+        return reply.status(403).send({ error: "Access denied to organization" });
+      }
+
+      const monitor = await db.query.uptimeMonitors.findFirst({
+        where: and(eq(uptimeMonitors.id, body.monitorId), eq(uptimeMonitors.organizationId, organizationId)),
+      });
+
+      if (!monitor) {
+        return reply.status(400).send({ error: "Monitor not found" });
+      }
+
+      const [slo] = await db
+        .insert(uptimeSlos)
+        .values({
+          ...body,
+          organizationId,
+          createdBy: userId,
+        })
+        .returning();
+
+      return reply.send(slo);
+    },
+  });
+
+  // Update SLO
+  server.route({
+    method: "PUT",
+    url: "/api/uptime/slos/:id",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const { id } = idParamsSchema.parse(request.params);
+      const updates = updateSloSchema.parse(request.body);
+
+      const [updated] = await db
+        .update(uptimeSlos)
+        .set({
+          ...updates,
+          updatedAt: new Date().toISOString(),
+        })
+        .where(and(eq(uptimeSlos.id, id), inArray(uptimeSlos.organizationId, organizationIds)))
+        .returning();
+
+      if (!updated) {
+        return reply.code(404).send({ error: "SLO not found" });
+      }
+
+      return reply.send(updated);
+    },
+  });
+
+  // Delete SLO
+  server.route({
+    method: "DELETE",
+    url: "/api/uptime/slos/:id",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const { id } = idParamsSchema.parse(request.params);
+
+      // Open burn incidents stay in the incident history and are resolved by hand
+      const [deleted] = await db
+        .delete(uptimeSlos)
+        .where(and(eq(uptimeSlos.id, id), inArray(uptimeSlos.organizationId, organizationIds)))
+        .returning({ id: uptimeSlos.id });
+
+      if (!deleted) {
+        return reply.code(404).send({ error: "SLO not found" });
+      }
+
+      return reply.send({ success: true });
+    },
+  });
+};
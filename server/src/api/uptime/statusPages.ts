@@ -0,0 +1,549 @@
+import { and, asc, desc, eq, gte, inArray, isNull, ne, or } from "drizzle-orm";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { DateTime } from "luxon";
+import { z } from "zod";
+import { clickhouse } from "../../db/clickhouse/clickhouse.js";
+import { db } from "../../db/postgres/postgres.js";
+import {
+  member,
+  statusPages,
+  uptimeIncidents,
+  uptimeIncidentUpdates,
+  uptimeMonitors,
+  uptimeMonitorStatus,
+} from "../../db/postgres/schema.js";
+import { getSessionFromReq } from "../../lib/auth-utils.js";
+import {
+  buildDailyUptimeBars,
+  DailyCheckCounts,
+  getOverallStatus,
+  getUptimePercentage,
+  MonitorCurrentStatus,
+  STATUS_PAGE_DAYS,
+} from "../../services/uptime/statusPage.js";
+import { processResults } from "../analytics/utils.js";
+import { getUserOrganizations } from "./utils.js";
+
+// Schemas
+const monitorGroupSchema = z.object({
+  name: z.string().min(1).max(100),
+  monitorIds: z.array(z.number().int()).max(100),
+});
+
+const createStatusPageSchema = z.object({
+  organizationId: z.string().optional(),
+  name: z.string().min(1).max(100),
+  slug: z
+    .string()
+    .min(2)
+    .max(64)
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Slug may only contain lowercase letters, numbers and dashes"),
+  description: z.string().max(500).nullable().optional(),
+  customDomain: z
+    .string()
+    .toLowerCase()
+    .regex(/^([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/, "Invalid domain")
+    .nullable()
+    .optional(),
+  logoUrl: z.string().url().nullable().optional(),
+  visibility: z.enum(["public", "private"]).default("public"),
+  monitorGroups: z.array(monitorGroupSchema).max(20).default([]),
+});
+
+const updateStatusPageSchema = createStatusPageSchema.omit({ organizationId: true }).partial();
+
+const createIncidentUpdateSchema = z.object({
+  status: z.enum(["investigating", "identified", "monitoring", "resolved"]),
+  message: z.string().min(1).max(5000),
+});
+
+const idParamsSchema = z.object({
+  id: z.coerce.number().int(),
+});
+
+// Resolved incidents older than this drop off the public page
+const RESOLVED_INCIDENT_DAYS = 14;
+
+function getMonitorDisplayName(monitor: Pick<typeof uptimeMonitors.$inferSelect, "id" | "name">) {
+  // Monitor URLs and hosts stay private; unnamed monitors get a generic label
+  return monitor.name || `Monitor ${monitor.id}`;
+}
+
+async function findConflictingStatusPage(slug?: string | null, customDomain?: string | null, excludeId?: number) {
+  const conditions = [];
+  if (slug) conditions.push(eq(statusPages.slug, slug));
+  if (customDomain) conditions.push(eq(statusPages.customDomain, customDomain));
+  if (conditions.length === 0) {
+    return null;
+  }
+
+  const [conflict] = await db
+    .select({ slug: statusPages.slug, customDomain: statusPages.customDomain })
+    .from(statusPages)
+    .where(and(or(...conditions), excludeId ? ne(statusPages.id, excludeId) : undefined))
+    .limit(1);
+
+  if (!conflict) {
+    return null;
+  }
+  return conflict.slug === slug ? "This slug is already taken" : "This domain is already used by another status page";
+}
+
+async function getMonitorIdsOutsideOrganization(organizationId: string, groups: { monitorIds: number[] }[]) {
+  const monitorIds = [...new Set(groups.flatMap(group => group.monitorIds))];
+  if (monitorIds.length === 0) {
+    return [];
+  }
+
+  const monitors = await db
+    .select({ id: uptimeMonitors.id })
+    .from(uptimeMonitors)
+    .where(and(inArray(uptimeMonitors.id, monitorIds), eq(uptimeMonitors.organizationId, organizationId)));
+
+  const owned = new Set(monitors.map(monitor => monitor.id));
+  return monitorIds.filter(id => !owned.has(id));
+}
+
+export const statusPageRoutes = async (server: FastifyInstance) => {
+  // Get status pages
+  server.route({
+    method: "GET",
+    url: "/api/uptime/status-pages",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const pages = await db
+        .select()
+        .from(statusPages)
+        .where(inArray(statusPages.organizationId, organizationIds))
+        .orderBy(asc(statusPages.name));
+
+      return reply.send({ statusPages: pages });
+    },
+  });
+
+  // Create status page
+  server.route({
+    method: "POST",
+    url: "/api/uptime/status-pages",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const body = createStatusPageSchema.parse(request.body);
+      const organizationId = body.organizationId ?? organizationIds[0];
+
+      if (!organizationIds.includes(organizationId)) {
+        return reply.status(403).send({ error: "Access denied to organization" });
+      }
+
+      const conflict = await findConflictingStatusPage(body.slug, body.customDomain);
+      if (conflict) {
+        return reply.status(409).send({ error: conflict });
+      }
+
+      const foreignMonitorIds = await getMonitorIdsOutsideOrganization(organizationId, body.monitorGroups);
+      if (foreignMonitorIds.length > 0) {
+        return reply.status(400).send({ error: `Monitors not found: ${foreignMonitorIds.join(", ")}` });
+      }
+
+      const [statusPage] = await db
+        .insert(statusPages)
+        .values({
+          organizationId,
+          name: body.name,
+          slug: body.slug,
+          description: body.description ?? null,
+          customDomain: body.customDomain ?? null,
+          logoUrl: body.logoUrl ?? null,
+          visibility: body.visibility,
+          monitorGroups: body.monitorGroups,
+          createdBy: userId,
+        })
+        .returning();
+
+      return reply.send(statusPage);
+    },
+  });
+
+  // Update status page
+  server.route({
+    method: "PUT",
+    url: "/api/uptime/status-pages/:id",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const { id } = idParamsSchema.parse(request.params);
+      const updates = updateStatusPageSchema.parse(request.body);
+
+      const [statusPage] = await db
+        .select()
+        .from(statusPages)
+        .where(and(eq(statusPages.id, id), inArray(statusPages.organizationId, organizationIds)))
+        .limit(1);
+
+      if (!statusPage) {
+        return reply.code(404).send({ error: "Status page not found" });
+      }
+
+      const conflict = await findConflictingStatusPage(updates.slug, updates.customDomain, id);
+      if (conflict) {
+        return reply.status(409).send({ error: conflict });
+      }
+
+      if (updates.monitorGroups) {
+        const foreignMonitorIds = await getMonitorIdsOutsideOrganization(
+          statusPage.organizationId,
+          updates.monitorGroups
+        );
+        if (foreignMonitorIds.length > 0) {
+          return reply.status(400).send({ error: `Monitors not found: ${foreignMonitorIds.join(", ")}` });
+        }
+      }
+
+      const [updated] = await db
+        .update(statusPages)
+        .set({
+          ...updates,
+          updatedAt: new Date().toISOString(),
+        })
+        .where(eq(statusPages.id, id))
+        .returning();
+
+      return reply.send(updated);
+    },
+  });
+
+  // Delete status page
+  server.route({
+    method: "DELETE",
+    url: "/api/uptime/status-pages/:id",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const { id } = idParamsSchema.parse(request.params);
+
+      const [statusPage] = await db
+        .select()
+        .from(statusPages)
+        .where(and(eq(statusPages.id, id), inArray(statusPages.organizationId, organizationIds)))
+        .limit(1);
+
+      if (!statusPage) {
+        return reply.code(404).send({ error: "Status page not found" });
+      }
+
+      await db.delete(statusPages).where(eq(statusPages.id, id));
+
+      return reply.send({ success: true });
+    },
+  });
+
+  // Get public updates for an incident
+  server.route({
+    method: "GET",
+    url: "/api/uptime/incidents/:id/updates",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const { id } = idParamsSchema.parse(request.params);
+
+      const [incident] = await db
+        .select({ id: uptimeIncidents.id })
+        .from(uptimeIncidents)
+        .where(and(eq(uptimeIncidents.id, id), inArray(uptimeIncidents.organizationId, organizationIds)))
+        .limit(1);
+
+      if (!incident) {
+        return reply.code(404).send({ error: "Incident not found" });
+      }
+
+      const updates = await db
+        .select()
+        .from(uptimeIncidentUpdates)
+        .where(eq(uptimeIncidentUpdates.incidentId, id))
+        .orderBy(desc(uptimeIncidentUpdates.createdAt));
+
+      return reply.send({ updates });
+    },
+  });
+
+  // Post a public update on an incident
+  server.route({
+    method: "POST",
+    url: "/api/uptime/incidents/:id/updates",
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await getSessionFromReq(request);
+      const userId = session?.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: "Unauthorized" });
+      }
+
+      const organizationIds = await getUserOrganizations(userId);
+
+      if (organizationIds.length === 0) {
+        return reply.status(403).send({ error: "No organization access" });
+      }
+
+      const { id } = idParamsSchema.parse(request.params);
+      const { status, message } = createIncidentUpdateSchema.parse(request.body);
+
+      const [incident] = await db
+        .select()
+        .from(uptimeIncidents)
+        .where(and(eq(uptimeIncidents.id, id), inArray(uptimeIncidents.organizationId, organizationIds)))
+        .limit(1);
+
+      if (!incident) {
+        return reply.code(404).send({ error: "Incident not found" });
+      }
+
+      const [update] = await db
+        .insert(uptimeIncidentUpdates)
+        .values({ incidentId: id, status, message, createdBy: userId })
+        .returning();
+
+      // Posting a "resolved" update resolves the incident itself
+      if (status === "resolved" && incident.status !== "resolved") {
+        const now = new Date().toISOString();
+        await db
+          .update(uptimeIncidents)
+          .set({ status: "resolved", resolvedBy: userId, resolvedAt: now, endTime: now, updatedAt: now })
+          .where(eq(uptimeIncidents.id, id));
+      }
+
+      return reply.send(update);
+    },
+  });
+
+  // Public status page, looked up by slug or custom domain
+  server.route({
+    method: "GET",
+    url: "/api/status-pages/:slugOrDomain",
+    handler: async (request: FastifyRequest<{ Params: { slugOrDomain: string } }>, reply: FastifyReply) => {
+      const slugOrDomain = request.params.slugOrDomain.toLowerCase();
+
+      const [statusPage] = await db
+        .select()
+        .from(statusPages)
+        .where(or(eq(statusPages.slug, slugOrDomain), eq(statusPages.customDomain, slugOrDomain)))
+        .limit(1);
+
+      if (!statusPage) {
+        return reply.code(404).send({ error: "Status page not found" });
+      }
+
+      // Private pages are only shown to members of the owning organization
+      if (statusPage.visibility === "private") {
+        const session = await getSessionFromReq(request);
+        const isMember =
+          session?.user?.id &&
+          (await db.query.member.findFirst({
+            where: and(eq(member.userId, session.user.id), eq(member.organizationId, statusPage.organizationId)),
+          }));
+
+        if (!isMember) {
+          return reply.code(404).send({ error: "Status page not found" });
+        }
+      }
+
+      const monitorIds = [...new Set(statusPage.monitorGroups.flatMap(group => group.monitorIds))];
+
+      const monitors =
+        monitorIds.length > 0
+          ? await db
+              .select({
+                id: uptimeMonitors.id,
+                name: uptimeMonitors.name,
+                currentStatus: uptimeMonitorStatus.currentStatus,
+                lastCheckedAt: uptimeMonitorStatus.lastCheckedAt,
+              })
+              .from(uptimeMonitors)
+              .leftJoin(uptimeMonitorStatus, eq(uptimeMonitorStatus.monitorId, uptimeMonitors.id))
+              .where(
+                and(
+                  inArray(uptimeMonitors.id, monitorIds),
+                  eq(uptimeMonitors.organizationId, statusPage.organizationId)
+                )
+              )
+          : [];
+      const monitorsById = new Map(monitors.map(monitor => [monitor.id, monitor]));
+
+      const dailyCounts =
+        monitors.length > 0
+          ? await processResults<DailyCheckCounts & { monitor_id: number }>(
+              await clickhouse.query({
+                query: `
+                  SELECT
+                    monitor_id,
+                    toString(toDate(timestamp, 'UTC')) AS date,
+                    count() AS total_checks,
+                    countIf(status = 'success') AS successful_checks
+                  FROM monitor_events
+                  WHERE organization_id = {organizationId:String}
+                    AND monitor_id IN {monitorIds:Array(UInt32)}
+                    AND timestamp >= toStartOfDay(now('UTC')) - INTERVAL {days:UInt32} DAY
+                    AND in_maintenance = 0
+                  GROUP BY monitor_id, date
+                `,
+                query_params: {
+                  organizationId: statusPage.organizationId,
+                  monitorIds: monitors.map(monitor => monitor.id),
+                  days: STATUS_PAGE_DAYS - 1,
+                },
+                format: "JSONEachRow",
+              })
+            )
+          : [];
+
+      const groups = statusPage.monitorGroups.map(group => ({
+        name: group.name,
+        monitors: group.monitorIds.flatMap(id => {
+          const monitor = monitorsById.get(id);
+          if (!monitor) {
+            return [];
+          }
+          const counts = dailyCounts.filter(row => Number(row.monitor_id) === id);
+          return [
+            {
+              id: monitor.id,
+              name: getMonitorDisplayName(monitor),
+              status: (monitor.currentStatus ?? "unknown") as MonitorCurrentStatus,
+              lastCheckedAt: monitor.lastCheckedAt,
+              uptimePercentage: getUptimePercentage(counts),
+              days: buildDailyUptimeBars(counts),
+            },
+          ];
+        }),
+      }));
+
+      const incidents =
+        monitors.length > 0
+          ? await db
+              .select({
+                id: uptimeIncidents.id,
+                monitorId: uptimeIncidents.monitorId,
+                kind: uptimeIncidents.kind,
+                status: uptimeIncidents.status,
+                startTime: uptimeIncidents.startTime,
+                endTime: uptimeIncidents.endTime,
+              })
+              .from(uptimeIncidents)
+              .where(
+                and(
+                  inArray(
+                    uptimeIncidents.monitorId,
+                    monitors.map(monitor => monitor.id)
+                  ),
+                  // SLO burn alerts are an internal early warning, not something visitors need to see
+                  ne(uptimeIncidents.kind, "slo_burn"),
+                  or(
+                    isNull(uptimeIncidents.endTime),
+                    gte(uptimeIncidents.endTime, DateTime.utc().minus({ days: RESOLVED_INCIDENT_DAYS }).toISO()!)
+                  )
+                )
+              )
+              .orderBy(desc(uptimeIncidents.startTime))
+              .limit(50)
+          : [];
+
+      const incidentUpdates =
+        incidents.length > 0
+          ? await db
+              .select({
+                incidentId: uptimeIncidentUpdates.incidentId,
+                status: uptimeIncidentUpdates.status,
+                message: uptimeIncidentUpdates.message,
+                createdAt: uptimeIncidentUpdates.createdAt,
+              })
+              .from(uptimeIncidentUpdates)
+              .where(
+                inArray(
+                  uptimeIncidentUpdates.incidentId,
+                  incidents.map(incident => incident.id)
+                )
+              )
+              .orderBy(desc(uptimeIncidentUpdates.createdAt))
+          : [];
+
+      return reply.send({
+        name: statusPage.name,
+        slug: statusPage.slug,
+        description: statusPage.description,
+        logoUrl: statusPage.logoUrl,
+        status: getOverallStatus(groups.flatMap(group => group.monitors.map(monitor => monitor.status))),
+        groups,
+        incidents: incidents.map(incident => ({
+          id: incident.id,
+          monitorName: getMonitorDisplayName({
+            id: incident.monitorId,
+            name: monitorsById.get(incident.monitorId)?.name ?? null,
+          }),
+          // Acknowledgement is internal; publicly an incident is either ongoing or resolved
+          status: incident.status === "resolved" ? "resolved" : "active",
+          kind: incident.kind,
+          startTime: incident.startTime,
+          endTime: incident.endTime,
+          updates: incidentUpdates
+            .filter(update => update.incidentId === incident.id)
+            .map(update => ({ status: update.status, message: update.message, createdAt: update.createdAt })),
+        })),
+      });
+    },
+  });
+};
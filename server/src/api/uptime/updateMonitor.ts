@@ -5,6 +5,7 @@ import { uptimeMonitors, member } from "../../db/postgres/schema.js";
 import { getSessionFromReq } from "../../lib/auth-utils.js";
 import { uptimeService } from "../../services/uptime/uptimeService.js";
 import { updateMonitorSchema, type UpdateMonitorInput } from "./schemas.js";
+import { escalationPolicyBelongsToOrganization } from "./utils.js";
 
 interface UpdateMonitorRequest {
   Params: {
@@ -55,6 +56,21 @@ export async function updateMonitor(request: FastifyRequest<UpdateMonitorRequest
         return reply.status(400).send({ error: "TCP monitor requires host and port" });
       }
     }
+    if (
+      existingMonitor.monitorType !== "http" &&
+      [...(updateData.validationRules ?? []), ...(updateData.degradedConfig?.warningRules ?? [])].some(
+        rule => rule.type !== "response_time"
+      )
+    ) {
+      return reply.status(400).send({ error: "Only response time rules apply to non-HTTP monitors" });
+    }
+
+    if (
+      updateData.escalationPolicyId &&
+      !(await escalationPolicyBelongsToOrganization(updateData.escalationPolicyId, existingMonitor.organizationId))
+    ) {
+      return reply.status(400).send({ error: "Escalation policy not found" });
+    }
 
     // Update the monitor
     const [updatedMonitor] = await db
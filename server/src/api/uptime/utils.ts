@@ -1,6 +1,6 @@
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { db } from "../../db/postgres/postgres.js";
-import { member } from "../../db/postgres/schema.js";
+import { member, uptimeEscalationPolicies } from "../../db/postgres/schema.js";
 
 export async function getUserOrganizations(userId: string) {
   const userOrgs = await db
@@ -10,3 +10,11 @@ export async function getUserOrganizations(userId: string) {
 
   return userOrgs.map(org => org.organizationId);
 }
+
+export async function escalationPolicyBelongsToOrganization(policyId: number, organizationId: string) {
+  const policy = await db.query.uptimeEscalationPolicies.findFirst({
+    where: and(eq(uptimeEscalationPolicies.id, policyId), eq(uptimeEscalationPolicies.organizationId, organizationId)),
+  });
+
+  return !!policy;
+}
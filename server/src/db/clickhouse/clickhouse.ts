@@ -7,6 +7,94 @@ export const clickhouse = createClient({
   password: process.env.CLICKHOUSE_PASSWORD,
 });
 
+// sessions_backfill_state step recorded when sessions_mv is created. Its completed_at is the backfill's cutoff.
+export const SESSIONS_MV_CREATED_STEP = "mv_created";
+
+// Per-session aggregation over events, shared by the materialized view and the backfill job
+// (services/sessions/sessionsRollupBackfill.ts). Output columns line up with the `sessions` table below.
+export const SESSIONS_ROLLUP_SELECT = `
+  SELECT
+    site_id,
+    session_id,
+    any(user_id) AS user_id,
+    min(timestamp) AS session_start,
+    max(timestamp) AS session_end,
+    argMinIfState(pathname, timestamp, type = 'pageview') AS entry_page,
+    argMaxIfState(pathname, timestamp, type = 'pageview') AS exit_page,
+    argMinState(hostname, timestamp) AS hostname,
+    argMinState(referrer, timestamp) AS referrer,
+    argMinState(channel, timestamp) AS channel,
+    argMinState(url_parameters, timestamp) AS url_parameters,
+    argMaxState(country, timestamp) AS country,
+    argMaxState(region, timestamp) AS region,
+    argMaxState(city, timestamp) AS city,
+    argMaxState(lat, timestamp) AS lat,
+    argMaxState(lon, timestamp) AS lon,
+    argMaxState(language, timestamp) AS language,
+    argMaxState(device_type, timestamp) AS device_type,
+    argMaxState(browser, timestamp) AS browser,
+    argMaxState(browser_version, timestamp) AS browser_version,
+    argMaxState(operating_system, timestamp) AS operating_system,
+    argMaxState(operating_system_version, timestamp) AS operating_system_version,
+    argMaxState(screen_width, timestamp) AS screen_width,
+    argMaxState(screen_height, timestamp) AS screen_height,
+    argMaxState(ip, timestamp) AS ip,
+    countIf(type = 'pageview') AS pageviews,
+    countIf(type = 'custom_event') AS events,
+    countIf(type = 'error') AS errors,
+    countIf(type = 'outbound') AS outbound,
+    count() AS total_events
+  FROM events
+`;
+
+/**
+ * Session rollup: one logical row per session, kept up to date by sessions_mv.
+ * Rows for the same session are merged in the background, so reads must GROUP BY session_id
+ * and finalize the states with the matching -Merge combinators (see getSessionsSubquery).
+ * Partitioned by month of session_start so reads bounded by a time range skip old partitions.
+ */
+export const createSessionsTable = async () => {
+  await clickhouse.exec({
+    query: `
+      CREATE TABLE IF NOT EXISTS sessions (
+        site_id UInt16,
+        session_id String,
+        user_id SimpleAggregateFunction(any, String),
+        session_start SimpleAggregateFunction(min, DateTime),
+        session_end SimpleAggregateFunction(max, DateTime),
+        entry_page AggregateFunction(argMinIf, String, DateTime, UInt8),
+        exit_page AggregateFunction(argMaxIf, String, DateTime, UInt8),
+        hostname AggregateFunction(argMin, String, DateTime),
+        referrer AggregateFunction(argMin, String, DateTime),
+        channel AggregateFunction(argMin, String, DateTime),
+        url_parameters AggregateFunction(argMin, Map(String, String), DateTime),
+        country AggregateFunction(argMax, LowCardinality(FixedString(2)), DateTime),
+        region AggregateFunction(argMax, LowCardinality(String), DateTime),
+        city AggregateFunction(argMax, String, DateTime),
+        lat AggregateFunction(argMax, Float64, DateTime),
+        lon AggregateFunction(argMax, Float64, DateTime),
+        language AggregateFunction(argMax, LowCardinality(String), DateTime),
+        device_type AggregateFunction(argMax, LowCardinality(String), DateTime),
+        browser AggregateFunction(argMax, LowCardinality(String), DateTime),
+        browser_version AggregateFunction(argMax, LowCardinality(String), DateTime),
+        operating_system AggregateFunction(argMax, LowCardinality(String), DateTime),
+        operating_system_version AggregateFunction(argMax, LowCardinality(String), DateTime),
+        screen_width AggregateFunction(argMax, UInt16, DateTime),
+        screen_height AggregateFunction(argMax, UInt16, DateTime),
+        ip AggregateFunction(argMax, Nullable(String), DateTime),
+        pageviews SimpleAggregateFunction(sum, UInt64),
+        events SimpleAggregateFunction(sum, UInt64),
+        errors SimpleAggregateFunction(sum, UInt64),
+        outbound SimpleAggregateFunction(sum, UInt64),
+        total_events SimpleAggregateFunction(sum, UInt64)
+      )
+      ENGINE = AggregatingMergeTree()
+      PARTITION BY toYYYYMM(session_start)
+      ORDER BY (site_id, session_id)
+      `,
+  });
+};
+
 export const initializeClickhouse = async () => {
   // Create events table
   await clickhouse.exec({
@@ -55,10 +143,73 @@ export const initializeClickhouse = async () => {
         ADD COLUMN IF NOT EXISTS inp Nullable(Float64),
         ADD COLUMN IF NOT EXISTS fcp Nullable(Float64),
         ADD COLUMN IF NOT EXISTS ttfb Nullable(Float64),
-        ADD COLUMN IF NOT EXISTS ip Nullable(String)
+        ADD COLUMN IF NOT EXISTS ip Nullable(String),
+        ADD COLUMN IF NOT EXISTS import_id UInt32 DEFAULT 0, /* site_imports.id for imported rows, 0 for tracked ones */
+        ADD COLUMN IF NOT EXISTS engaged_time_ms Nullable(UInt32), /* engagement events: visible, active time on the page */
+        ADD COLUMN IF NOT EXISTS scroll_depth Nullable(UInt8) /* engagement events: furthest scroll position, 0-100 */
     `,
   });
 
+  // Daily totals from imports that only provide aggregates (GA/UA reports, Plausible exports).
+  // dimension is 'total' for site-wide rows, otherwise the events column that value belongs to.
+  await clickhouse.exec({
+    query: `
+      CREATE TABLE IF NOT EXISTS imported_aggregates (
+        site_id UInt16,
+        import_id UInt32,
+        date Date,
+        dimension LowCardinality(String),
+        value String,
+        visitors UInt64,
+        visits UInt64,
+        pageviews UInt64,
+        bounces UInt64,
+        visit_duration Float64 /* total seconds across visits */
+      )
+      ENGINE = MergeTree()
+      PARTITION BY toYYYYMM(date)
+      ORDER BY (site_id, dimension, date, value)
+      `,
+  });
+
+  await createSessionsTable();
+
+  // Progress of the sessions rollup backfill: one row per finished month of events, plus 'complete'
+  await clickhouse.exec({
+    query: `
+      CREATE TABLE IF NOT EXISTS sessions_backfill_state (
+        step String,
+        completed_at DateTime DEFAULT now()
+      )
+      ENGINE = ReplacingMergeTree(completed_at)
+      ORDER BY step
+      `,
+  });
+
+  const sessionsMvResult = await clickhouse.query({
+    query: "SELECT count() AS count FROM system.tables WHERE database = currentDatabase() AND name = 'sessions_mv'",
+    format: "JSONEachRow",
+  });
+  const [{ count: sessionsMvCount }] = await sessionsMvResult.json<{ count: string }>();
+
+  await clickhouse.exec({
+    query: `
+      CREATE MATERIALIZED VIEW IF NOT EXISTS sessions_mv
+      TO sessions
+      AS ${SESSIONS_ROLLUP_SELECT}
+      GROUP BY site_id, session_id
+      `,
+  });
+
+  // Events from here on reach the rollup through the view; the backfill covers the ones stamped before
+  if (Number(sessionsMvCount) === 0) {
+    await clickhouse.insert({
+      table: "sessions_backfill_state",
+      values: [{ step: SESSIONS_MV_CREATED_STEP }],
+      format: "JSONEachRow",
+    });
+  }
+
   // Create session replay tables
   await clickhouse.exec({
     query: `
@@ -139,7 +290,7 @@ export const initializeClickhouse = async () => {
         timestamp DateTime,
         
         -- Monitor metadata
-        monitor_type LowCardinality(String), -- 'http', 'tcp'
+        monitor_type LowCardinality(String), -- 'http', 'tcp', 'dns', 'ping', 'smtp', 'tls', 'multistep'
         monitor_url String,
         monitor_name String,
         region LowCardinality(String) DEFAULT 'local',
@@ -158,6 +309,7 @@ export const initializeClickhouse = async () => {
         
         -- Validation results
         validation_errors Array(String), -- Array of failed validation rules
+        validation_warnings Array(String) DEFAULT [], -- Failed warning rules; the check still counts as up
         
         -- Response metadata (for HTTP)
         response_headers Map(String, String),
@@ -168,7 +320,13 @@ export const initializeClickhouse = async () => {
         
         -- Error information
         error_message Nullable(String),
-        error_type Nullable(String) -- 'dns_failure', 'connection_timeout', 'ssl_error', etc.
+        error_type Nullable(String), -- 'dns_failure', 'connection_timeout', 'ssl_error', etc.
+
+        -- 1 when the check ran during a maintenance window; excluded from uptime
+        in_maintenance UInt8 DEFAULT 0,
+
+        -- Multi-step monitors: JSON array of per-step results, empty for other types
+        steps String DEFAULT ''
       )
       ENGINE = MergeTree()
       PARTITION BY toYYYYMM(timestamp)
@@ -177,6 +335,15 @@ export const initializeClickhouse = async () => {
     `,
   });
 
+  await clickhouse.exec({
+    query: `
+      ALTER TABLE monitor_events
+        ADD COLUMN IF NOT EXISTS in_maintenance UInt8 DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS steps String DEFAULT '',
+        ADD COLUMN IF NOT EXISTS validation_warnings Array(String) DEFAULT []
+    `,
+  });
+
   if (IS_CLOUD) {
     await clickhouse.exec({
       query: `
@@ -1,3 +1,4 @@
+import type { ValidationRule } from "@rybbit/shared";
 import { sql } from "drizzle-orm";
 import {
   boolean,
@@ -79,6 +80,12 @@ export const sites = pgTable(
     trackInitialPageView: boolean().default(true),
     trackSpaNavigation: boolean().default(true),
     trackIp: boolean().default(false),
+    // Opt-in auto-capture, sent as custom events by the tracking script
+    trackForms: boolean().default(false),
+    trackFileDownloads: boolean().default(false),
+    downloadExtensions: jsonb("download_extensions").$type<string[]>(), // null uses the script's default list
+    trackContactLinks: boolean().default(false),
+    trackImpressions: boolean().default(false),
     apiKey: text("api_key"), // Format: rb_{32_hex_chars} = 35 chars total
   },
   table => [
@@ -270,6 +277,195 @@ export const goals = pgTable(
   ]
 );
 
+// Custom dashboards composed of saved analytics widgets
+export const dashboards = pgTable(
+  "dashboards",
+  {
+    dashboardId: serial("dashboard_id").primaryKey().notNull(),
+    siteId: integer("site_id").notNull(),
+    name: text("name").notNull(),
+    description: text("description"),
+    createdBy: text("created_by")
+      .notNull()
+      .references(() => user.id),
+    createdAt: timestamp("created_at", { mode: "string" }).defaultNow(),
+    updatedAt: timestamp("updated_at", { mode: "string" }).defaultNow(),
+  },
+  table => [
+    foreignKey({
+      columns: [table.siteId],
+      foreignColumns: [sites.siteId],
+      name: "dashboards_site_id_sites_site_id_fk",
+    }).onDelete("cascade"),
+    index("dashboards_site_id_idx").on(table.siteId),
+  ]
+);
+
+// A single widget on a dashboard. Each widget wraps one existing analytics query
+// together with its own filters and date range.
+export const dashboardWidgets = pgTable(
+  "dashboard_widgets",
+  {
+    widgetId: serial("widget_id").primaryKey().notNull(),
+    dashboardId: integer("dashboard_id").notNull(),
+    title: text("title").notNull(),
+    widgetType: text("widget_type").notNull(), // 'overview_bucketed', 'single_col', 'funnel', 'retention', 'goals', 'performance'
+    // Query options specific to the widget type
+    config: jsonb("config").notNull().default({}).$type<{
+      // For 'overview_bucketed'
+      bucket?: string;
+      metric?: string;
+      // For 'single_col'
+      parameter?: string;
+      limit?: number;
+      // For 'funnel'
+      steps?: {
+        value: string;
+        name?: string;
+        type: "page" | "event";
+        eventPropertyKey?: string;
+        eventPropertyValue?: string | number | boolean;
+      }[];
+      // For 'retention'
+      mode?: "day" | "week";
+      range?: number;
+      // For 'performance'
+      percentile?: "p50" | "p75" | "p90" | "p99";
+    }>(),
+    filters: jsonb("filters")
+      .notNull()
+      .default([])
+      .$type<{ parameter: string; type: string; value: (string | number)[] }[]>(),
+    dateRange: jsonb("date_range")
+      .notNull()
+      .default({ type: "relative", days: 30 })
+      .$type<{ type: "relative"; days: number } | { type: "fixed"; startDate: string; endDate: string }>(),
+    // Grid placement: widgets are laid out in `position` order on a 12 column grid
+    position: integer("position").notNull().default(0),
+    width: integer("width").notNull().default(6),
+    height: integer("height").notNull().default(1),
+    createdAt: timestamp("created_at", { mode: "string" }).defaultNow(),
+    updatedAt: timestamp("updated_at", { mode: "string" }).defaultNow(),
+  },
+  table => [
+    foreignKey({
+      columns: [table.dashboardId],
+      foreignColumns: [dashboards.dashboardId],
+      name: "dashboard_widgets_dashboard_id_dashboards_dashboard_id_fk",
+    }).onDelete("cascade"),
+    index("dashboard_widgets_dashboard_id_idx").on(table.dashboardId),
+  ]
+);
+
+// Per-user scheduled email report subscriptions
+export const reportSubscriptions = pgTable(
+  "report_subscriptions",
+  {
+    id: serial("id").primaryKey().notNull(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    siteIds: jsonb("site_ids").notNull().$type<number[]>(),
+    frequency: text("frequency").notNull(), // 'daily', 'weekly', 'monthly'
+    // Local hour of day (0-23) in `timezone` at which the report is sent
+    sendHour: integer("send_hour").notNull().default(8),
+    timezone: text("timezone").notNull().default("UTC"),
+    // 'overview', 'top_pages', 'referrers', 'countries', 'devices', 'goals', 'errors', 'uptime'
+    sections: jsonb("sections").notNull().$type<string[]>(),
+    enabled: boolean("enabled").notNull().default(true),
+    unsubscribeToken: text("unsubscribe_token").notNull(),
+    lastSentAt: timestamp("last_sent_at", { mode: "string" }),
+    createdAt: timestamp("created_at", { mode: "string" }).defaultNow(),
+    updatedAt: timestamp("updated_at", { mode: "string" }).defaultNow(),
+  },
+  table => [
+    unique("report_subscriptions_unsubscribe_token_unique").on(table.unsubscribeToken),
+    index("report_subscriptions_user_id_idx").on(table.userId),
+  ]
+);
+
+// Nightly delivery of raw events to a customer-owned S3-compatible bucket, one config per site
+export const warehouseSyncs = pgTable(
+  "warehouse_syncs",
+  {
+    id: serial("id").primaryKey().notNull(),
+    siteId: integer("site_id").notNull(),
+    enabled: boolean("enabled").notNull().default(true),
+    // Leave empty for AWS S3; set for R2, MinIO and other S3-compatible stores
+    endpoint: text("endpoint"),
+    region: text("region").notNull().default("auto"),
+    bucket: text("bucket").notNull(),
+    prefix: text("prefix").notNull().default("rybbit"),
+    accessKeyId: text("access_key_id").notNull(),
+    secretAccessKey: text("secret_access_key").notNull(),
+    // Last UTC day (YYYY-MM-DD) fully delivered by the nightly sync
+    cursorDate: date("cursor_date", { mode: "string" }),
+    createdAt: timestamp("created_at", { mode: "string" }).defaultNow(),
+    updatedAt: timestamp("updated_at", { mode: "string" }).defaultNow(),
+  },
+  table => [
+    foreignKey({
+      columns: [table.siteId],
+      foreignColumns: [sites.siteId],
+      name: "warehouse_syncs_site_id_sites_site_id_fk",
+    }).onDelete("cascade"),
+    unique("warehouse_syncs_site_id_unique").on(table.siteId),
+  ]
+);
+
+// One row per nightly or backfill run, for the run history in site settings
+export const warehouseSyncRuns = pgTable(
+  "warehouse_sync_runs",
+  {
+    id: serial("id").primaryKey().notNull(),
+    siteId: integer("site_id").notNull(),
+    trigger: text("trigger").notNull(), // 'scheduled', 'backfill'
+    status: text("status").notNull().default("running"), // 'running', 'succeeded', 'failed'
+    startDate: date("start_date", { mode: "string" }).notNull(),
+    endDate: date("end_date", { mode: "string" }).notNull(),
+    rowCount: integer("row_count").notNull().default(0),
+    fileCount: integer("file_count").notNull().default(0),
+    error: text("error"),
+    startedAt: timestamp("started_at", { mode: "string" }).defaultNow(),
+    finishedAt: timestamp("finished_at", { mode: "string" }),
+  },
+  table => [
+    foreignKey({
+      columns: [table.siteId],
+      foreignColumns: [sites.siteId],
+      name: "warehouse_sync_runs_site_id_sites_site_id_fk",
+    }).onDelete("cascade"),
+    index("warehouse_sync_runs_site_id_idx").on(table.siteId),
+  ]
+);
+
+// Historical imports from other analytics tools; imported ClickHouse rows carry the import id
+export const siteImports = pgTable(
+  "site_imports",
+  {
+    id: serial("id").primaryKey().notNull(),
+    siteId: integer("site_id").notNull(),
+    source: text("source").notNull(), // 'ga4', 'universal_analytics', 'plausible', 'umami'
+    fileName: text("file_name").notNull(),
+    target: text("target"), // 'events', 'aggregates'; set once the file is parsed
+    status: text("status").notNull().default("processing"), // 'processing', 'completed', 'failed', 'purged'
+    totalRows: integer("total_rows").notNull().default(0),
+    importedRows: integer("imported_rows").notNull().default(0),
+    error: text("error"),
+    createdBy: text("created_by").references(() => user.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { mode: "string" }).defaultNow(),
+    completedAt: timestamp("completed_at", { mode: "string" }),
+  },
+  table => [
+    foreignKey({
+      columns: [table.siteId],
+      foreignColumns: [sites.siteId],
+      name: "site_imports_site_id_sites_site_id_fk",
+    }).onDelete("cascade"),
+    index("site_imports_site_id_idx").on(table.siteId),
+  ]
+);
+
 export const projects = pgTable(
   "projects",
   {
@@ -468,6 +664,29 @@ export const telemetry = pgTable("telemetry", {
 });
 
 // Uptime monitor definitions
+// Who gets notified about a monitor's incidents, and when. Monitors without a policy notify every
+// matching notification channel once
+export const uptimeEscalationPolicies = pgTable(
+  "uptime_escalation_policies",
+  {
+    id: serial("id").primaryKey().notNull(),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id),
+    name: text("name").notNull(),
+    // Ordered by afterMinutes; the first step runs as soon as the incident opens
+    steps: jsonb("steps").notNull().$type<Array<{ afterMinutes: number; channelIds: number[] }>>(),
+    // Re-notify the latest step while the incident is unacknowledged, null to notify once per step
+    repeatIntervalMinutes: integer("repeat_interval_minutes"),
+    createdAt: timestamp("created_at", { mode: "string" }).defaultNow(),
+    updatedAt: timestamp("updated_at", { mode: "string" }).defaultNow(),
+    createdBy: text("created_by")
+      .notNull()
+      .references(() => user.id),
+  },
+  table => [index("uptime_escalation_policies_organization_idx").on(table.organizationId)]
+);
+
 export const uptimeMonitors = pgTable(
   "uptime_monitors",
   {
@@ -476,7 +695,7 @@ export const uptimeMonitors = pgTable(
       .notNull()
       .references(() => organization.id),
     name: text("name"),
-    monitorType: text("monitor_type").notNull(), // 'http', 'tcp'
+    monitorType: text("monitor_type").notNull(), // 'http', 'tcp', 'dns', 'ping', 'smtp', 'tls', 'multistep'
 
     // Common settings
     intervalSeconds: integer("interval_seconds").notNull(),
@@ -511,46 +730,82 @@ export const uptimeMonitors = pgTable(
       timeoutMs?: number;
     }>(),
 
+    // DNS specific configuration
+    dnsConfig: jsonb("dns_config").$type<{
+      hostname: string;
+      recordType: "A" | "AAAA" | "CNAME" | "MX" | "TXT" | "NS" | "SOA";
+      expectedValue?: string; // Fails unless one of the answers matches
+      resolver?: string; // Nameserver IP, system resolver when unset
+      timeoutMs?: number;
+    }>(),
+
+    // Ping (ICMP) specific configuration
+    pingConfig: jsonb("ping_config").$type<{
+      host: string;
+      packetCount?: number;
+      timeoutMs?: number;
+    }>(),
+
+    // SMTP specific configuration
+    smtpConfig: jsonb("smtp_config").$type<{
+      host: string;
+      port: number;
+      secure?: boolean; // Implicit TLS (port 465)
+      requireStartTls?: boolean;
+      timeoutMs?: number;
+    }>(),
+
+    // TLS certificate specific configuration
+    tlsConfig: jsonb("tls_config").$type<{
+      host: string;
+      port: number;
+      servername?: string; // SNI name, defaults to the host
+      expiryThresholdDays: number; // Fails this many days before the certificate expires
+      timeoutMs?: number;
+    }>(),
+
+    // Multi-step API monitor: requests run in order and later steps can use values extracted from earlier ones
+    multistepConfig: jsonb("multistep_config").$type<{
+      steps: Array<{
+        name: string;
+        url: string; // May reference extracted values as {{name}}, as can header values and the body
+        method: "GET" | "POST" | "PUT" | "DELETE" | "HEAD" | "OPTIONS" | "PATCH";
+        headers?: Record<string, string>;
+        body?: string;
+        timeoutMs?: number;
+        extract?: Array<{
+          name: string;
+          source: "json" | "header" | "regex";
+          expression: string; // JSONPath, header name or regex (first capture group wins)
+        }>;
+        validationRules?: ValidationRule[];
+      }>;
+      followRedirects?: boolean;
+      userAgent?: string;
+    }>(),
+
     // Validation rules
-    validationRules: jsonb("validation_rules").notNull().default([]).$type<
-      Array<
-        | {
-            type: "status_code";
-            operator: "equals" | "not_equals" | "in" | "not_in";
-            value: number | number[];
-          }
-        | {
-            type: "response_time";
-            operator: "less_than" | "greater_than";
-            value: number;
-          }
-        | {
-            type: "response_body_contains" | "response_body_not_contains";
-            value: string;
-            caseSensitive?: boolean;
-          }
-        | {
-            type: "header_exists";
-            header: string;
-          }
-        | {
-            type: "header_value";
-            header: string;
-            operator: "equals" | "contains";
-            value: string;
-          }
-        | {
-            type: "response_size";
-            operator: "less_than" | "greater_than";
-            value: number;
-          }
-      >
-    >(),
+    validationRules: jsonb("validation_rules").notNull().default([]).$type<ValidationRule[]>(),
 
     // Multi-region configuration
     monitoringType: text("monitoring_type").default("local"), // 'local' or 'global'
     selectedRegions: jsonb("selected_regions").default(["local"]).$type<string[]>(),
 
+    // Free-form labels, used to target maintenance windows at groups of monitors
+    tags: jsonb("tags").notNull().default([]).$type<string[]>(),
+
+    escalationPolicyId: integer("escalation_policy_id").references(() => uptimeEscalationPolicies.id, {
+      onDelete: "set null",
+    }),
+
+    // When a monitor that is up counts as degraded; null disables the degraded state
+    degradedConfig: jsonb("degraded_config").$type<{
+      responseTimeP95Ms?: number; // Degraded while p95 response time over the window is above this
+      responseTimeWindowMinutes?: number; // Defaults to 15
+      partialRegionFailure?: boolean; // Degraded while some, but not most, regions are failing
+      warningRules?: ValidationRule[]; // Failing these degrades the monitor instead of taking it down
+    } | null>(),
+
     // Metadata
     createdAt: timestamp("created_at", { mode: "string" }).defaultNow(),
     updatedAt: timestamp("updated_at", { mode: "string" }).defaultNow(),
@@ -582,9 +837,12 @@ export const uptimeMonitorStatus = pgTable(
       .references(() => uptimeMonitors.id, { onDelete: "cascade" }),
     lastCheckedAt: timestamp("last_checked_at", { mode: "string" }),
     nextCheckAt: timestamp("next_check_at", { mode: "string" }),
-    currentStatus: text("current_status").default("unknown"), // 'up', 'down', 'unknown'
+    currentStatus: text("current_status").default("unknown"), // 'up', 'degraded', 'down', 'unknown'
+    degradedReason: text("degraded_reason"),
     consecutiveFailures: integer("consecutive_failures").default(0),
+    // Degraded checks count as successes here, the monitor is still responding
     consecutiveSuccesses: integer("consecutive_successes").default(0),
+    consecutiveDegraded: integer("consecutive_degraded").default(0),
     uptimePercentage24h: real("uptime_percentage_24h"),
     uptimePercentage7d: real("uptime_percentage_7d"),
     uptimePercentage30d: real("uptime_percentage_30d"),
@@ -597,7 +855,7 @@ export const uptimeMonitorStatus = pgTable(
       foreignColumns: [uptimeMonitors.id],
       name: "uptime_monitor_status_monitor_id_uptime_monitors_id_fk",
     }),
-    check("uptime_monitor_status_current_status_check", sql`current_status IN ('up', 'down', 'unknown')`),
+    check("uptime_monitor_status_current_status_check", sql`current_status IN ('up', 'degraded', 'down', 'unknown')`),
     check("uptime_monitor_status_uptime_24h_check", sql`uptime_percentage_24h >= 0 AND uptime_percentage_24h <= 100`),
     check("uptime_monitor_status_uptime_7d_check", sql`uptime_percentage_7d >= 0 AND uptime_percentage_7d <= 100`),
     check("uptime_monitor_status_uptime_30d_check", sql`uptime_percentage_30d >= 0 AND uptime_percentage_30d <= 100`),
@@ -665,10 +923,33 @@ export const uptimeAlertHistory = pgTable(
 export const agentRegions = pgTable("agent_regions", {
   code: text("code").primaryKey().notNull(), // Region code (e.g., 'us-east', 'europe')
   name: text("name").notNull(), // Region display name
-  endpointUrl: text("endpoint_url").notNull(), // Agent endpoint URL
+  endpointUrl: text("endpoint_url"), // Agent endpoint URL, push agents only
+  connectionMode: text("connection_mode").notNull().default("push"), // 'push' (server calls /execute) or 'pull' (agent polls for jobs)
   enabled: boolean("enabled").default(true),
+  draining: boolean("draining").notNull().default(false), // No new checks are sent while draining
   lastHealthCheck: timestamp("last_health_check", { mode: "string" }),
   isHealthy: boolean("is_healthy").default(true),
+  // Set once an agent enrolls itself; hand-configured regions have none
+  agentTokenHash: text("agent_token_hash").unique(),
+  agentVersion: text("agent_version"),
+  capacity: integer("capacity"), // Checks the agent runs concurrently
+  inFlight: integer("in_flight"), // Checks running at the last heartbeat
+  lastHeartbeatAt: timestamp("last_heartbeat_at", { mode: "string" }),
+  registeredAt: timestamp("registered_at", { mode: "string" }),
+});
+
+// One-time tokens an agent exchanges for its own credentials when it first starts
+export const agentEnrollmentTokens = pgTable("agent_enrollment_tokens", {
+  id: serial("id").primaryKey().notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  regionCode: text("region_code").notNull(),
+  regionName: text("region_name").notNull(),
+  expiresAt: timestamp("expires_at", { mode: "string" }).notNull(),
+  usedAt: timestamp("used_at", { mode: "string" }),
+  createdAt: timestamp("created_at", { mode: "string" }).defaultNow(),
+  createdBy: text("created_by")
+    .notNull()
+    .references(() => user.id),
 });
 
 // Uptime incidents table
@@ -683,6 +964,8 @@ export const uptimeIncidents = pgTable(
       .notNull()
       .references(() => uptimeMonitors.id, { onDelete: "cascade" }),
     region: text("region"), // Region where incident occurred
+    kind: text("kind").notNull().default("down"), // 'down', 'degraded', 'slo_burn'
+    sloId: integer("slo_id"), // Set on slo_burn incidents
 
     // Incident timing
     startTime: timestamp("start_time", { mode: "string" }).notNull(),
@@ -703,6 +986,12 @@ export const uptimeIncidents = pgTable(
     lastError: text("last_error"),
     lastErrorType: text("last_error_type"),
     failureCount: integer("failure_count").default(1),
+
+    // Escalation progress, null when the monitor had no escalation policy when the incident opened
+    escalationPolicyId: integer("escalation_policy_id"),
+    escalationStep: integer("escalation_step"),
+    escalationNotifiedAt: timestamp("escalation_notified_at", { mode: "string" }),
+
     createdAt: timestamp("created_at", { mode: "string" }).defaultNow(),
     updatedAt: timestamp("updated_at", { mode: "string" }).defaultNow(),
   },
@@ -730,6 +1019,136 @@ export const uptimeIncidents = pgTable(
   ]
 );
 
+// Availability objectives, e.g. 99.9% of checks succeeding over 30 days. Alerts fire when the error budget
+// burns faster than burnRateThreshold over the last burnRateWindowMinutes
+export const uptimeSlos = pgTable(
+  "uptime_slos",
+  {
+    id: serial("id").primaryKey().notNull(),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id),
+    monitorId: integer("monitor_id")
+      .notNull()
+      .references(() => uptimeMonitors.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    targetPercentage: real("target_percentage").notNull(),
+    windowDays: integer("window_days").notNull().default(30),
+    burnRateThreshold: real("burn_rate_threshold").notNull().default(14.4),
+    burnRateWindowMinutes: integer("burn_rate_window_minutes").notNull().default(60),
+    enabled: boolean("enabled").notNull().default(true),
+    createdAt: timestamp("created_at", { mode: "string" }).defaultNow(),
+    updatedAt: timestamp("updated_at", { mode: "string" }).defaultNow(),
+    createdBy: text("created_by")
+      .notNull()
+      .references(() => user.id),
+  },
+  table => [
+    index("uptime_slos_monitor_idx").on(table.monitorId),
+    check("uptime_slos_target_check", sql`target_percentage > 0 AND target_percentage < 100`),
+  ]
+);
+
+// Public-facing updates posted on an incident, shown on status pages
+export const uptimeIncidentUpdates = pgTable(
+  "uptime_incident_updates",
+  {
+    id: serial("id").primaryKey().notNull(),
+    incidentId: integer("incident_id")
+      .notNull()
+      .references(() => uptimeIncidents.id, { onDelete: "cascade" }),
+    status: text("status").notNull(), // 'investigating', 'identified', 'monitoring', 'resolved'
+    message: text("message").notNull(),
+    createdBy: text("created_by").references(() => user.id),
+    createdAt: timestamp("created_at", { mode: "string" }).defaultNow(),
+  },
+  table => [
+    foreignKey({
+      columns: [table.incidentId],
+      foreignColumns: [uptimeIncidents.id],
+      name: "uptime_incident_updates_incident_id_uptime_incidents_id_fk",
+    }).onDelete("cascade"),
+    index("uptime_incident_updates_incident_id_idx").on(table.incidentId),
+  ]
+);
+
+// Public status pages
+export const statusPages = pgTable(
+  "status_pages",
+  {
+    id: serial("id").primaryKey().notNull(),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id),
+    name: text("name").notNull(),
+    slug: text("slug").notNull(),
+    description: text("description"),
+    customDomain: text("custom_domain"), // e.g. status.example.com, resolved from the Host header
+    logoUrl: text("logo_url"),
+    visibility: text("visibility").notNull().default("public"), // 'public', 'private' (organization members only)
+    monitorGroups: jsonb("monitor_groups")
+      .notNull()
+      .default([])
+      .$type<Array<{ name: string; monitorIds: number[] }>>(),
+    createdAt: timestamp("created_at", { mode: "string" }).defaultNow(),
+    updatedAt: timestamp("updated_at", { mode: "string" }).defaultNow(),
+    createdBy: text("created_by")
+      .notNull()
+      .references(() => user.id),
+  },
+  table => [
+    foreignKey({
+      columns: [table.organizationId],
+      foreignColumns: [organization.id],
+      name: "status_pages_organization_id_organization_id_fk",
+    }),
+    unique("status_pages_slug_unique").on(table.slug),
+    unique("status_pages_custom_domain_unique").on(table.customDomain),
+    check("status_pages_visibility_check", sql`visibility IN ('public', 'private')`),
+  ]
+);
+
+// Planned maintenance. Checks inside a window are still recorded but don't open incidents,
+// send notifications or count against uptime
+export const uptimeMaintenanceWindows = pgTable(
+  "uptime_maintenance_windows",
+  {
+    id: serial("id").primaryKey().notNull(),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id),
+    name: text("name").notNull(),
+    description: text("description"),
+
+    // A window applies to monitors listed by id and to monitors carrying any of the tags
+    monitorIds: jsonb("monitor_ids").notNull().default([]).$type<number[]>(),
+    monitorTags: jsonb("monitor_tags").notNull().default([]).$type<string[]>(),
+
+    // First occurrence; recurring windows repeat it every day/week/month in the given timezone
+    startTime: timestamp("start_time", { mode: "string" }).notNull(),
+    endTime: timestamp("end_time", { mode: "string" }).notNull(),
+    recurrence: text("recurrence").notNull().default("none"), // 'none', 'daily', 'weekly', 'monthly'
+    recurrenceEndsAt: timestamp("recurrence_ends_at", { mode: "string" }), // null repeats forever
+    timezone: text("timezone").notNull().default("UTC"),
+
+    createdAt: timestamp("created_at", { mode: "string" }).defaultNow(),
+    updatedAt: timestamp("updated_at", { mode: "string" }).defaultNow(),
+    createdBy: text("created_by")
+      .notNull()
+      .references(() => user.id),
+  },
+  table => [
+    foreignKey({
+      columns: [table.organizationId],
+      foreignColumns: [organization.id],
+      name: "uptime_maintenance_windows_organization_id_organization_id_fk",
+    }),
+    check("uptime_maintenance_windows_recurrence_check", sql`recurrence IN ('none', 'daily', 'weekly', 'monthly')`),
+    check("uptime_maintenance_windows_time_check", sql`end_time > start_time`),
+    index("uptime_maintenance_windows_organization_id_idx").on(table.organizationId),
+  ]
+);
+
 // Notification channels table
 export const notificationChannels = pgTable(
   "notification_channels",
@@ -738,7 +1157,7 @@ export const notificationChannels = pgTable(
     organizationId: text("organization_id")
       .notNull()
       .references(() => organization.id),
-    type: text("type").notNull(), // 'email', 'discord', 'slack', 'sms'
+    type: text("type").notNull(), // see NOTIFICATION_CHANNEL_TYPES in services/uptime/notifications
     name: text("name").notNull(),
     enabled: boolean("enabled").default(true),
 
@@ -757,11 +1176,38 @@ export const notificationChannels = pgTable(
       // SMS config (placeholder)
       phoneNumber?: string;
       provider?: string;
+
+      // Generic webhook config
+      webhookSecret?: string;
+      webhookTemplate?: string;
+      webhookHeaders?: Record<string, string>;
+
+      // PagerDuty Events v2 config
+      pagerDutyRoutingKey?: string;
+
+      // Opsgenie config
+      opsgenieApiKey?: string;
+      opsgenieRegion?: "us" | "eu";
+
+      // Microsoft Teams config
+      teamsWebhookUrl?: string;
+
+      // Telegram config
+      telegramBotToken?: string;
+      telegramChatId?: string;
+
+      // Mattermost config
+      mattermostWebhookUrl?: string;
+
+      // ntfy config
+      ntfyTopicUrl?: string;
+      ntfyToken?: string;
+      ntfyPriority?: number;
     }>(),
 
     // Monitor selection and notification settings
     monitorIds: jsonb("monitor_ids").$type<number[] | null>(), // null = all monitors
-    triggerEvents: jsonb("trigger_events").notNull().default(["down", "recovery"]).$type<string[]>(), // 'down', 'recovery', 'degraded'
+    triggerEvents: jsonb("trigger_events").notNull().default(["down", "recovery"]).$type<string[]>(), // 'down', 'degraded', 'slo_burn', 'recovery'
     cooldownMinutes: integer("cooldown_minutes").default(5), // Minimum time between notifications
     lastNotifiedAt: timestamp("last_notified_at", { mode: "string" }),
 
@@ -784,3 +1230,26 @@ export const notificationChannels = pgTable(
     }),
   ]
 );
+
+// One row per notification sent (or given up on) through a channel
+export const notificationDeliveries = pgTable(
+  "notification_deliveries",
+  {
+    id: serial("id").primaryKey().notNull(),
+    channelId: integer("channel_id")
+      .notNull()
+      .references(() => notificationChannels.id, { onDelete: "cascade" }),
+    monitorId: integer("monitor_id"),
+    incidentId: integer("incident_id"),
+    eventType: text("event_type").notNull(), // 'down', 'degraded', 'slo_burn', 'recovery', 'test'
+    status: text("status").notNull(), // 'success', 'failed'
+    attempts: integer("attempts").notNull().default(1),
+    responseStatus: integer("response_status"),
+    error: text("error"),
+    createdAt: timestamp("created_at", { mode: "string" }).defaultNow(),
+  },
+  table => [
+    index("notification_deliveries_channel_idx").on(table.channelId, table.createdAt),
+    check("notification_deliveries_status_check", sql`status IN ('success', 'failed')`),
+  ]
+);
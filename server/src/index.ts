@@ -33,6 +33,15 @@ import { getUserInfo } from "./api/analytics/getUserInfo.js";
 import { getUserSessionCount } from "./api/analytics/getUserSessionCount.js";
 import { getUserSessions } from "./api/analytics/getUserSessions.js";
 import { getUsers } from "./api/analytics/getUsers.js";
+import { exportReport } from "./api/analytics/exportReport.js";
+import { createDashboard } from "./api/analytics/dashboards/createDashboard.js";
+import { createDashboardWidget } from "./api/analytics/dashboards/createDashboardWidget.js";
+import { deleteDashboard } from "./api/analytics/dashboards/deleteDashboard.js";
+import { deleteDashboardWidget } from "./api/analytics/dashboards/deleteDashboardWidget.js";
+import { getDashboard } from "./api/analytics/dashboards/getDashboard.js";
+import { getDashboards } from "./api/analytics/dashboards/getDashboards.js";
+import { updateDashboard } from "./api/analytics/dashboards/updateDashboard.js";
+import { updateDashboardWidget } from "./api/analytics/dashboards/updateDashboardWidget.js";
 import { createGoal } from "./api/analytics/goals/createGoal.js";
 import { deleteGoal } from "./api/analytics/goals/deleteGoal.js";
 import { getGoals } from "./api/analytics/goals/getGoals.js";
@@ -41,6 +50,7 @@ import { getPerformanceByDimension } from "./api/analytics/performance/getPerfor
 import { getPerformanceOverview } from "./api/analytics/performance/getPerformanceOverview.js";
 import { getPerformanceTimeSeries } from "./api/analytics/performance/getPerformanceTimeSeries.js";
 import { getConfig } from "./api/getConfig.js";
+import { getMetrics } from "./api/getMetrics.js";
 import { getSessionReplayEvents } from "./api/sessionReplay/getSessionReplayEvents.js";
 import { getSessionReplays } from "./api/sessionReplay/getSessionReplays.js";
 import { recordSessionReplay } from "./api/sessionReplay/recordSessionReplay.js";
@@ -63,19 +73,39 @@ import { handleWebhook } from "./api/stripe/webhook.js";
 import { addUserToOrganization } from "./api/user/addUserToOrganization.js";
 import { getUserOrganizations } from "./api/user/getUserOrganizations.js";
 import { listOrganizationMembers } from "./api/user/listOrganizationMembers.js";
+import { createReportSubscription } from "./api/reports/createReportSubscription.js";
+import { deleteReportSubscription } from "./api/reports/deleteReportSubscription.js";
+import { getReportSubscriptions } from "./api/reports/getReportSubscriptions.js";
+import { sendReportPreview } from "./api/reports/sendReportPreview.js";
+import { unsubscribeReportRoutes } from "./api/reports/unsubscribeReport.js";
+import { updateReportSubscription } from "./api/reports/updateReportSubscription.js";
 import { updateAccountSettings } from "./api/user/updateAccountSettings.js";
 import { initializeClickhouse } from "./db/clickhouse/clickhouse.js";
 import { initPostgres } from "./db/postgres/initPostgres.js";
 import { getSessionFromReq, mapHeaders } from "./lib/auth-utils.js";
 import { auth } from "./lib/auth.js";
 import { IS_CLOUD } from "./lib/const.js";
+import { httpRequestDuration } from "./lib/metrics.js";
 import { siteConfig } from "./lib/siteConfig.js";
-import { trackEvent } from "./services/tracker/trackEvent.js";
+import { pageviewQueue } from "./services/tracker/pageviewQueue.js";
+import { sessionsRollupBackfill } from "./services/sessions/sessionsRollupBackfill.js";
+import { trackEvent, trackEventBatch } from "./services/tracker/trackEvent.js";
 // need to import telemetry service here to start it
 import { telemetryService } from "./services/telemetryService.js";
+import { reportSubscriptionService } from "./services/weekyReports/reportSubscriptionService.js";
 import { weeklyReportService } from "./services/weekyReports/weeklyReportService.js";
 import { extractSiteId } from "./utils.js";
 import { getTrackingConfig } from "./api/sites/getTrackingConfig.js";
+import { backfillWarehouseSync } from "./api/sites/warehouse/backfillWarehouseSync.js";
+import { getWarehouseSync } from "./api/sites/warehouse/getWarehouseSync.js";
+import { getWarehouseSyncRuns } from "./api/sites/warehouse/getWarehouseSyncRuns.js";
+import { updateWarehouseSync } from "./api/sites/warehouse/updateWarehouseSync.js";
+import { warehouseSyncService } from "./services/warehouse/warehouseSyncService.js";
+import { createImportRoutes } from "./api/sites/imports/createImport.js";
+import { deleteImport } from "./api/sites/imports/deleteImport.js";
+import { getImports } from "./api/sites/imports/getImports.js";
+import { importService } from "./services/import/importService.js";
+import { statusPageRoutes } from "./api/uptime/statusPages.js";
 import { apiV1Routes } from "./api/v1/index.js";
 import type { ProjectRecord } from "./services/projects/projectService.js";
 
@@ -130,11 +160,11 @@ const server = Fastify({
         const headers = { ...request.headers };
 
         // Mask sensitive data in headers
-        if (headers['x-api-key'] && typeof headers['x-api-key'] === 'string') {
-          headers['x-api-key'] = headers['x-api-key'].substring(0, 8) + '***';
+        if (headers["x-api-key"] && typeof headers["x-api-key"] === "string") {
+          headers["x-api-key"] = headers["x-api-key"].substring(0, 8) + "***";
         }
-        if (headers['authorization']) {
-          headers['authorization'] = '***';
+        if (headers["authorization"]) {
+          headers["authorization"] = "***";
         }
 
         return {
@@ -198,6 +228,18 @@ server.register(
   { auth: auth! }
 );
 
+// Per-route latency, labelled with the route pattern so ids in the URL don't explode the series count
+server.addHook("onResponse", async (request, reply) => {
+  httpRequestDuration.observe(
+    {
+      method: request.method,
+      route: request.routeOptions.url ?? "unmatched",
+      status_code: reply.statusCode,
+    },
+    reply.elapsedTime / 1000
+  );
+});
+
 const PUBLIC_ROUTES: string[] = [
   "/api/health",
   "/api/track",
@@ -215,8 +257,15 @@ const PUBLIC_ROUTES: string[] = [
   "/api/admin/telemetry",
   "/api/site/:siteId/tracking-config",
   "/api/v1",
+  "/api/report-subscriptions/unsubscribe",
+  "/api/status-pages/",
+  "/api/uptime/incidents/acknowledge/",
+  "/api/uptime/agent/",
 ];
 
+// Public only on an exact path match, since PUBLIC_ROUTES matches anywhere in the url
+const EXACT_PUBLIC_ROUTES = new Set(["/metrics"]);
+
 // Define analytics routes that can be public
 const ANALYTICS_ROUTES = [
   "/api/live-user-count/",
@@ -262,7 +311,10 @@ server.addHook("onRequest", async (request, reply) => {
   let processedUrl = url;
 
   // Bypass auth for public routes (now including the prepended /api)
-  if (PUBLIC_ROUTES.some(route => processedUrl.includes(route))) {
+  if (
+    EXACT_PUBLIC_ROUTES.has(processedUrl.split("?")[0]) ||
+    PUBLIC_ROUTES.some(route => processedUrl.includes(route))
+  ) {
     return;
   }
 
@@ -321,12 +373,22 @@ server.get("/api/session-locations/:site", getSessionLocations);
 server.get("/api/funnels/:site", getFunnels);
 server.get("/api/journeys/:site", getJourneys);
 server.post("/api/funnel/:site", getFunnel);
+server.get("/api/export/:report/:site", exportReport);
+server.post("/api/export/:report/:site", exportReport);
 server.post("/api/funnel/create/:site", createFunnel);
 server.delete("/api/funnel/:funnelId", deleteFunnel);
 server.get("/api/goals/:site", getGoals);
 server.post("/api/goal/create", createGoal);
 server.delete("/api/goal/:goalId", deleteGoal);
 server.put("/api/goal/update", updateGoal);
+server.get("/api/dashboards/:site", getDashboards);
+server.get("/api/dashboard/:dashboardId", getDashboard);
+server.post("/api/dashboard/create", createDashboard);
+server.put("/api/dashboard/update", updateDashboard);
+server.delete("/api/dashboard/:dashboardId", deleteDashboard);
+server.post("/api/dashboard/widget/create", createDashboardWidget);
+server.put("/api/dashboard/widget/update", updateDashboardWidget);
+server.delete("/api/dashboard/widget/:widgetId", deleteDashboardWidget);
 server.get("/api/events/names/:site", getEventNames);
 server.get("/api/events/properties/:site", getEventProperties);
 server.get("/api/events/outbound/:site", getOutboundLinks);
@@ -353,13 +415,30 @@ server.get("/api/site/:siteId/api-config", getSiteApiConfig);
 server.post("/api/site/:siteId/api-config", updateSiteApiConfig);
 server.get("/api/site/:siteId/tracking-config", getTrackingConfig);
 server.get("/api/site/:siteId/excluded-ips", getSiteExcludedIPs);
+server.get("/api/site/:siteId/warehouse-sync", getWarehouseSync);
+server.post("/api/site/:siteId/warehouse-sync", updateWarehouseSync);
+server.get("/api/site/:siteId/warehouse-sync/runs", getWarehouseSyncRuns);
+server.post("/api/site/:siteId/warehouse-sync/backfill", backfillWarehouseSync);
+server.get("/api/site/:siteId/imports", getImports);
+server.register(createImportRoutes);
+server.delete("/api/site/:siteId/imports/:importId", deleteImport);
 server.get("/api/list-organization-members/:organizationId", listOrganizationMembers);
 server.get("/api/user/organizations", getUserOrganizations);
 server.post("/api/add-user-to-organization", addUserToOrganization);
 server.post("/api/user/account-settings", updateAccountSettings);
+server.get("/api/report-subscriptions", getReportSubscriptions);
+server.post("/api/report-subscriptions", createReportSubscription);
+server.put("/api/report-subscriptions/:subscriptionId", updateReportSubscription);
+server.delete("/api/report-subscriptions/:subscriptionId", deleteReportSubscription);
+server.post("/api/report-subscriptions/:subscriptionId/preview", sendReportPreview);
+server.register(unsubscribeReportRoutes);
 
 // Project API v1
 server.register(apiV1Routes, { prefix: "/api/v1" });
+
+// Status pages only read monitor state, so unlike the rest of uptime they don't need Redis
+server.register(statusPageRoutes);
+
 // UPTIME MONITORING
 // Only register uptime routes when IS_CLOUD is true (Redis is available)
 // if (IS_CLOUD) {
@@ -377,6 +456,12 @@ server.register(apiV1Routes, { prefix: "/api/v1" });
 //   const { getRegions } = await import("./api/uptime/getRegions.js");
 //   const { incidentsRoutes } = await import("./api/uptime/incidents.js");
 //   const { notificationRoutes } = await import("./api/uptime/notifications.js");
+//   const { maintenanceWindowRoutes } = await import("./api/uptime/maintenanceWindows.js");
+//   const { escalationPolicyRoutes } = await import("./api/uptime/escalationPolicies.js");
+//   const { acknowledgeIncidentLinkRoutes } = await import("./api/uptime/acknowledgeIncidentLink.js");
+//   const { sloRoutes } = await import("./api/uptime/slos.js");
+//   const { agentRoutes } = await import("./api/uptime/agents.js");
+//   const { agentRegionRoutes } = await import("./api/uptime/agentRegions.js");
 
 //   server.get("/api/uptime/monitors", getMonitors);
 //   server.get("/api/uptime/monitors/:monitorId", getMonitor);
@@ -395,6 +480,20 @@ server.register(apiV1Routes, { prefix: "/api/v1" });
 
 //   // Register notification routes
 //   server.register(notificationRoutes);
+
+//   // Register maintenance window routes
+//   server.register(maintenanceWindowRoutes);
+
+//   // Register escalation policy routes and the public acknowledge links used in alerts
+//   server.register(escalationPolicyRoutes);
+//   server.register(acknowledgeIncidentLinkRoutes);
+
+//   // Register SLO routes
+//   server.register(sloRoutes);
+
+//   // Register monitor agent enrollment, heartbeat and job routes, and their admin routes
+//   server.register(agentRoutes);
+//   server.register(agentRegionRoutes);
 // }
 
 // STRIPE & ADMIN
@@ -416,17 +515,25 @@ if (IS_CLOUD) {
 
 server.post("/track", trackEvent);
 server.post("/api/track", trackEvent);
+server.post("/track/batch", trackEventBatch);
+server.post("/api/track/batch", trackEventBatch);
 
 server.get("/api/health", { logLevel: "silent" }, (_, reply) => reply.send("OK"));
+server.get("/metrics", { logLevel: "silent" }, getMetrics);
 
 const start = async () => {
   try {
     console.info("Starting server...");
     await Promise.all([initializeClickhouse(), initPostgres()]);
+    await importService.failInterruptedImports();
+    // Fills the sessions rollup with events stored before sessions_mv existed
+    sessionsRollupBackfill.start();
 
     telemetryService.startTelemetryCron();
+    warehouseSyncService.startWarehouseSyncCron();
     if (IS_CLOUD) {
       weeklyReportService.startWeeklyReportCron();
+      reportSubscriptionService.startReportSubscriptionCron();
     }
 
     // Start the server first
@@ -481,6 +588,10 @@ const shutdown = async (signal: string) => {
     await server.close();
     server.log.info("Server closed");
 
+    // Flush buffered events; anything ClickHouse does not accept stays in the ingestion log
+    await pageviewQueue.drain();
+    server.log.info("Pageview queue drained");
+
     // Shutdown uptime service
     // await uptimeService.shutdown();
     // server.log.info("Uptime service shut down");
@@ -7,6 +7,8 @@ export const DISABLE_SIGNUP = process.env.DISABLE_SIGNUP === "true";
 export const DISABLE_TELEMETRY = process.env.DISABLE_TELEMETRY === "true";
 export const SECRET = process.env.BETTER_AUTH_SECRET;
 export const MAPBOX_TOKEN = process.env.MAPBOX_TOKEN;
+// Bearer token Prometheus scrapes /metrics with; the endpoint is disabled without it
+export const METRICS_TOKEN = process.env.METRICS_TOKEN;
 
 // Trial constants (commented out as we're replacing with free tier)
 // export const TRIAL_DURATION_DAYS = 14;
@@ -4,7 +4,7 @@ import { IS_CLOUD } from "../const.js";
 import { InvitationEmail } from "./templates/InvitationEmail.js";
 import { LimitExceededEmail } from "./templates/LimitExceededEmail.js";
 import { WeeklyReportEmail } from "./templates/WeeklyReportEmail.js";
-import type { OrganizationReport } from "../../services/weekyReports/weeklyReportTypes.js";
+import type { OrganizationReport, ReportFrequency } from "../../services/weekyReports/weeklyReportTypes.js";
 
 let resend: Resend | undefined;
 
@@ -12,7 +12,7 @@ if (IS_CLOUD) {
   resend = new Resend(process.env.RESEND_API_KEY);
 }
 
-export const sendEmail = async (email: string, subject: string, html: string) => {
+export const sendEmail = async (email: string, subject: string, html: string, headers?: Record<string, string>) => {
   if (!resend) {
     return;
     // not sure how to handle self hosted instances without resend
@@ -24,6 +24,7 @@ export const sendEmail = async (email: string, subject: string, html: string) =>
       to: email,
       subject,
       html,
+      headers,
     });
     return response;
   } catch (error) {
@@ -70,19 +71,35 @@ export const sendLimitExceededEmail = async (
   await sendEmail(email, `Action Required: ${organizationName} has exceeded its monthly event limit`, html);
 };
 
+const REPORT_SUBJECT_PREFIX: Record<ReportFrequency, string> = {
+  daily: "Daily Analytics Report",
+  weekly: "Weekly Analytics Report",
+  monthly: "Monthly Analytics Report",
+};
+
 export const sendWeeklyReportEmail = async (
   email: string,
   userName: string,
-  organizationReport: OrganizationReport
+  organizationReport: OrganizationReport,
+  options: { frequency?: ReportFrequency; unsubscribeUrl?: string } = {}
 ) => {
+  const { frequency = "weekly", unsubscribeUrl } = options;
+
   const html = await render(
     WeeklyReportEmail({
       userName,
       organizationReport,
+      frequency,
+      unsubscribeUrl,
     })
   );
 
-  const subject = `Weekly Analytics Report - ${organizationReport.sites[0].siteName}`;
+  const subject = `${REPORT_SUBJECT_PREFIX[frequency]} - ${organizationReport.sites[0].siteName}`;
+
+  // One-click unsubscribe (RFC 8058) for mail clients that support it
+  const headers = unsubscribeUrl
+    ? { "List-Unsubscribe": `<${unsubscribeUrl}>`, "List-Unsubscribe-Post": "List-Unsubscribe=One-Click" }
+    : undefined;
 
-  await sendEmail(email, subject, html);
+  await sendEmail(email, subject, html, headers);
 };
@@ -12,13 +12,27 @@ import {
   pixelBasedPreset,
 } from "@react-email/components";
 import * as React from "react";
-import type { OrganizationReport, SingleColData } from "../../../services/weekyReports/weeklyReportTypes.js";
+import type {
+  GoalData,
+  OrganizationReport,
+  ReportFrequency,
+  SingleColData,
+  UptimeData,
+} from "../../../services/weekyReports/weeklyReportTypes.js";
 
 interface WeeklyReportEmailProps {
   userName: string;
   organizationReport: OrganizationReport;
+  frequency?: ReportFrequency;
+  unsubscribeUrl?: string;
 }
 
+const PERIOD_LABELS: Record<ReportFrequency, { title: string; adjective: string; coverage: string }> = {
+  daily: { title: "Daily Report", adjective: "daily", coverage: "the last 24 hours" },
+  weekly: { title: "Weekly Report", adjective: "weekly", coverage: "the last 7 days" },
+  monthly: { title: "Monthly Report", adjective: "monthly", coverage: "the last month" },
+};
+
 interface MetricCardProps {
   label: string;
   currentValue: string;
@@ -241,13 +255,106 @@ const TopListSection = ({ title, items, renderLabel, showFavicon, labelClassName
   );
 };
 
-export const WeeklyReportEmail = ({ userName, organizationReport }: WeeklyReportEmailProps) => {
+const cardStyle: React.CSSProperties = {
+  backgroundColor: "#f9fafb",
+  border: "1px solid #e5e7eb",
+  borderRadius: "8px",
+  padding: "16px",
+  marginBottom: "16px",
+};
+
+const cardTitleStyle: React.CSSProperties = {
+  color: "#111827",
+  fontSize: "14px",
+  fontWeight: 600,
+  marginBottom: "12px",
+  marginTop: 0,
+};
+
+const GoalsSection = ({ goals }: { goals: GoalData[] }) => {
+  if (goals.length === 0) return null;
+
+  return (
+    <div style={cardStyle}>
+      <Text style={cardTitleStyle}>Goals</Text>
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <tbody>
+          {goals.map(goal => (
+            <tr key={goal.goalId}>
+              <td style={{ padding: "4px 8px" }}>
+                <Text style={{ color: "#111827", fontSize: "14px", margin: 0 }}>{goal.name}</Text>
+              </td>
+              <td style={{ padding: "4px 8px", textAlign: "right", whiteSpace: "nowrap" }}>
+                <Text style={{ color: "#6b7280", fontSize: "12px", margin: 0 }}>
+                  {safeToFixed(goal.conversionRate, 1)}%
+                </Text>
+              </td>
+              <td style={{ padding: "4px 8px", textAlign: "right", whiteSpace: "nowrap", width: "40px" }}>
+                <Text style={{ color: "#111827", fontSize: "14px", fontWeight: 500, margin: 0 }}>
+                  {formatNumber(goal.conversions)}
+                </Text>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const UptimeSection = ({ monitors }: { monitors: UptimeData[] }) => {
+  if (monitors.length === 0) return null;
+
+  return (
+    <div style={cardStyle}>
+      <Text style={cardTitleStyle}>Uptime</Text>
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <tbody>
+          {monitors.map(monitor => (
+            <tr key={monitor.monitorId}>
+              <td style={{ padding: "4px 8px" }}>
+                <Text style={{ color: "#111827", fontSize: "14px", margin: 0 }}>{monitor.name}</Text>
+              </td>
+              <td style={{ padding: "4px 8px", textAlign: "right", whiteSpace: "nowrap" }}>
+                <Text
+                  style={{
+                    color: monitor.currentStatus === "down" ? "#ef4444" : "#10b981",
+                    fontSize: "12px",
+                    margin: 0,
+                    textTransform: "capitalize",
+                  }}
+                >
+                  {monitor.currentStatus}
+                </Text>
+              </td>
+              <td style={{ padding: "4px 8px", textAlign: "right", whiteSpace: "nowrap", width: "60px" }}>
+                <Text style={{ color: "#111827", fontSize: "14px", fontWeight: 500, margin: 0 }}>
+                  {monitor.uptimePercentage == null ? "–" : `${safeToFixed(monitor.uptimePercentage, 2)}%`}
+                </Text>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export const WeeklyReportEmail = ({
+  userName,
+  organizationReport,
+  frequency = "weekly",
+  unsubscribeUrl = "https://rybbit.io/settings/account",
+}: WeeklyReportEmailProps) => {
   const currentYear = new Date().getFullYear();
+  const periodLabels = PERIOD_LABELS[frequency];
 
   return (
     <Html>
       <Head />
-      <Preview>Weekly Analytics Report for {organizationReport.organizationName}</Preview>
+      <Preview>
+        {periodLabels.title} for {organizationReport.organizationName}
+      </Preview>
       <Tailwind
         config={{
           presets: [pixelBasedPreset],
@@ -272,7 +379,7 @@ export const WeeklyReportEmail = ({ userName, organizationReport }: WeeklyReport
             {/* Header */}
             <Section className="text-center mb-8">
               <div className="inline-block bg-brand/10 text-brand px-3 py-1.5 rounded-full text-sm font-medium mb-4">
-                Weekly Report
+                {periodLabels.title}
               </div>
               <table
                 style={{
@@ -325,82 +432,88 @@ export const WeeklyReportEmail = ({ userName, organizationReport }: WeeklyReport
                   </tr>
                 </tbody>
               </table>
-              <Text className="text-mutedText text-base">Hi {userName}, here's your weekly analytics summary</Text>
+              <Text className="text-mutedText text-base">
+                Hi {userName}, here's your {periodLabels.adjective} analytics summary
+              </Text>
             </Section>
 
             {/* Sites Reports */}
             {organizationReport.sites.map(site => (
               <Section key={site.siteId} className="mb-10">
                 {/* Metrics Cards */}
-                <table style={{ width: "100%", marginBottom: "24px" }}>
-                  <tbody>
-                    <tr>
-                      <td style={{ width: "50%", paddingRight: "6px", paddingBottom: "12px" }}>
-                        <MetricCard
-                          label="Sessions"
-                          currentValue={formatNumber(site.currentWeek.sessions)}
-                          growth={calculateGrowth(site.currentWeek.sessions, site.previousWeek.sessions)}
-                          isPositive={site.currentWeek.sessions >= site.previousWeek.sessions}
-                        />
-                      </td>
-                      <td style={{ width: "50%", paddingLeft: "6px", paddingBottom: "12px" }}>
-                        <MetricCard
-                          label="Pageviews"
-                          currentValue={formatNumber(site.currentWeek.pageviews)}
-                          growth={calculateGrowth(site.currentWeek.pageviews, site.previousWeek.pageviews)}
-                          isPositive={site.currentWeek.pageviews >= site.previousWeek.pageviews}
-                        />
-                      </td>
-                    </tr>
-                    <tr>
-                      <td style={{ width: "50%", paddingRight: "6px", paddingBottom: "12px" }}>
-                        <MetricCard
-                          label="Unique Users"
-                          currentValue={formatNumber(site.currentWeek.users)}
-                          growth={calculateGrowth(site.currentWeek.users, site.previousWeek.users)}
-                          isPositive={site.currentWeek.users >= site.previousWeek.users}
-                        />
-                      </td>
-                      <td style={{ width: "50%", paddingLeft: "6px", paddingBottom: "12px" }}>
-                        <MetricCard
-                          label="Avg Duration"
-                          currentValue={formatDuration(site.currentWeek.session_duration)}
-                          growth={calculateGrowth(
-                            site.currentWeek.session_duration,
-                            site.previousWeek.session_duration
-                          )}
-                          isPositive={site.currentWeek.session_duration >= site.previousWeek.session_duration}
-                        />
-                      </td>
-                    </tr>
-                    <tr>
-                      <td style={{ width: "50%", paddingRight: "6px" }}>
-                        <MetricCard
-                          label="Pages/Session"
-                          currentValue={safeToFixed(site.currentWeek.pages_per_session, 1)}
-                          growth={calculateGrowth(
-                            site.currentWeek.pages_per_session,
-                            site.previousWeek.pages_per_session
-                          )}
-                          isPositive={
-                            (site.currentWeek.pages_per_session ?? 0) >= (site.previousWeek.pages_per_session ?? 0)
-                          }
-                        />
-                      </td>
-                      <td style={{ width: "50%", paddingLeft: "6px" }}>
-                        <MetricCard
-                          label="Bounce Rate"
-                          currentValue={`${safeToFixed(site.currentWeek.bounce_rate, 1)}%`}
-                          growth={calculateGrowth(site.currentWeek.bounce_rate, site.previousWeek.bounce_rate)}
-                          isPositive={(site.currentWeek.bounce_rate ?? 0) <= (site.previousWeek.bounce_rate ?? 0)}
-                        />
-                      </td>
-                    </tr>
-                  </tbody>
-                </table>
+                {site.sections.includes("overview") && (
+                  <table style={{ width: "100%", marginBottom: "24px" }}>
+                    <tbody>
+                      <tr>
+                        <td style={{ width: "50%", paddingRight: "6px", paddingBottom: "12px" }}>
+                          <MetricCard
+                            label="Sessions"
+                            currentValue={formatNumber(site.currentPeriod.sessions)}
+                            growth={calculateGrowth(site.currentPeriod.sessions, site.previousPeriod.sessions)}
+                            isPositive={site.currentPeriod.sessions >= site.previousPeriod.sessions}
+                          />
+                        </td>
+                        <td style={{ width: "50%", paddingLeft: "6px", paddingBottom: "12px" }}>
+                          <MetricCard
+                            label="Pageviews"
+                            currentValue={formatNumber(site.currentPeriod.pageviews)}
+                            growth={calculateGrowth(site.currentPeriod.pageviews, site.previousPeriod.pageviews)}
+                            isPositive={site.currentPeriod.pageviews >= site.previousPeriod.pageviews}
+                          />
+                        </td>
+                      </tr>
+                      <tr>
+                        <td style={{ width: "50%", paddingRight: "6px", paddingBottom: "12px" }}>
+                          <MetricCard
+                            label="Unique Users"
+                            currentValue={formatNumber(site.currentPeriod.users)}
+                            growth={calculateGrowth(site.currentPeriod.users, site.previousPeriod.users)}
+                            isPositive={site.currentPeriod.users >= site.previousPeriod.users}
+                          />
+                        </td>
+                        <td style={{ width: "50%", paddingLeft: "6px", paddingBottom: "12px" }}>
+                          <MetricCard
+                            label="Avg Duration"
+                            currentValue={formatDuration(site.currentPeriod.session_duration)}
+                            growth={calculateGrowth(
+                              site.currentPeriod.session_duration,
+                              site.previousPeriod.session_duration
+                            )}
+                            isPositive={site.currentPeriod.session_duration >= site.previousPeriod.session_duration}
+                          />
+                        </td>
+                      </tr>
+                      <tr>
+                        <td style={{ width: "50%", paddingRight: "6px" }}>
+                          <MetricCard
+                            label="Pages/Session"
+                            currentValue={safeToFixed(site.currentPeriod.pages_per_session, 1)}
+                            growth={calculateGrowth(
+                              site.currentPeriod.pages_per_session,
+                              site.previousPeriod.pages_per_session
+                            )}
+                            isPositive={
+                              (site.currentPeriod.pages_per_session ?? 0) >=
+                              (site.previousPeriod.pages_per_session ?? 0)
+                            }
+                          />
+                        </td>
+                        <td style={{ width: "50%", paddingLeft: "6px" }}>
+                          <MetricCard
+                            label="Bounce Rate"
+                            currentValue={`${safeToFixed(site.currentPeriod.bounce_rate, 1)}%`}
+                            growth={calculateGrowth(site.currentPeriod.bounce_rate, site.previousPeriod.bounce_rate)}
+                            isPositive={(site.currentPeriod.bounce_rate ?? 0) <= (site.previousPeriod.bounce_rate ?? 0)}
+                          />
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                )}
 
                 {/* Top Lists Section */}
                 <div className="mb-6">
+                  {site.sections.includes("goals") && <GoalsSection goals={site.goals} />}
                   <TopListSection
                     title="Top Countries"
                     items={site.topCountries}
@@ -426,6 +539,8 @@ export const WeeklyReportEmail = ({ userName, organizationReport }: WeeklyReport
                     labelClassName="text-darkText text-sm m-0 capitalize"
                     className="bg-cardBg border border-borderColor rounded-lg p-4"
                   />
+                  <TopListSection title="Top Errors" items={site.topErrors} renderLabel={item => item.value} />
+                  {site.sections.includes("uptime") && <UptimeSection monitors={site.uptime} />}
                 </div>
 
                 {/* Dashboard Link */}
@@ -443,11 +558,11 @@ export const WeeklyReportEmail = ({ userName, organizationReport }: WeeklyReport
             {/* Footer */}
             <Section className="text-center border-t border-borderColor pt-5">
               <Text className="text-mutedText text-xs mb-2">
-                This weekly report covers the last 7 days of analytics data.
+                This {periodLabels.adjective} report covers {periodLabels.coverage} of analytics data.
               </Text>
               <Text className="text-mutedText text-xs mb-3">
-                <Link href="https://rybbit.io/settings/account" className="text-brand no-underline">
-                  Unsubscribe from weekly reports
+                <Link href={unsubscribeUrl} className="text-brand no-underline">
+                  Unsubscribe from {periodLabels.adjective} reports
                 </Link>
               </Text>
               <Text className="text-mutedText text-xs">© {currentYear} Rybbit Analytics</Text>
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { metricsRegistry, timeClickhouseInsert, trackMonitorQueue } from "./metrics.js";
+import { ProjectRateLimiter } from "./projectRateLimiter.js";
+
+const getValues = async (name: string) => (await metricsRegistry.getSingleMetric(name)!.get()).values;
+
+afterEach(() => {
+  metricsRegistry.resetMetrics();
+  trackMonitorQueue(null);
+});
+
+describe("timeClickhouseInsert", () => {
+  it("records latency for every insert and counts failures", async () => {
+    await timeClickhouseInsert("events", async () => "ok");
+    await expect(
+      timeClickhouseInsert("events", async () => {
+        throw new Error("ClickHouse unavailable");
+      })
+    ).rejects.toThrow("ClickHouse unavailable");
+
+    const durations = await getValues("rybbit_clickhouse_insert_duration_seconds");
+    expect(
+      durations.find(
+        value => "metricName" in value && value.metricName === "rybbit_clickhouse_insert_duration_seconds_count"
+      )
+    ).toMatchObject({
+      labels: { table: "events" },
+      value: 2,
+    });
+    expect(await getValues("rybbit_clickhouse_insert_failures_total")).toEqual([
+      expect.objectContaining({ labels: { table: "events" }, value: 1 }),
+    ]);
+  });
+});
+
+describe("rate limit rejections", () => {
+  it("are counted per limiter", async () => {
+    const limiter = new ProjectRateLimiter(1, 1000);
+    limiter.isAllowed("proj");
+    limiter.isAllowed("proj");
+    limiter.isAllowed("proj");
+
+    expect(await getValues("rybbit_rate_limit_rejections_total")).toEqual([
+      expect.objectContaining({ labels: { limiter: "project" }, value: 2 }),
+    ]);
+  });
+});
+
+describe("monitor queue jobs", () => {
+  it("reports job counts by state while a queue is tracked", async () => {
+    expect(await getValues("rybbit_monitor_queue_jobs")).toEqual([]);
+
+    trackMonitorQueue({ getJobCounts: async () => ({ waiting: 3, delayed: 12 }) });
+
+    expect(await getValues("rybbit_monitor_queue_jobs")).toEqual([
+      expect.objectContaining({ labels: { state: "waiting" }, value: 3 }),
+      expect.objectContaining({ labels: { state: "delayed" }, value: 12 }),
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from "prom-client";
+
+// Served by GET /metrics in the Prometheus text format
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: "rybbit_" });
+
+export const httpRequestDuration = new Histogram({
+  name: "rybbit_http_request_duration_seconds",
+  help: "HTTP request latency by route",
+  labelNames: ["method", "route", "status_code"] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry],
+});
+
+export const eventsIngested = new Counter({
+  name: "rybbit_events_ingested_total",
+  help: "Tracked events accepted into the ingestion queue",
+  labelNames: ["type"] as const,
+  registers: [metricsRegistry],
+});
+
+export const ingestionQueueBufferedEvents = new Gauge({
+  name: "rybbit_ingestion_queue_buffered_events",
+  help: "Events in the active ingestion log segment, not yet sealed for insertion",
+  registers: [metricsRegistry],
+});
+
+export const ingestionQueuePendingSegments = new Gauge({
+  name: "rybbit_ingestion_queue_pending_segments",
+  help: "Sealed ingestion log segments still waiting to be inserted into ClickHouse",
+  registers: [metricsRegistry],
+});
+
+export const clickhouseInsertDuration = new Histogram({
+  name: "rybbit_clickhouse_insert_duration_seconds",
+  help: "ClickHouse insert latency by table",
+  labelNames: ["table"] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+export const clickhouseInsertFailures = new Counter({
+  name: "rybbit_clickhouse_insert_failures_total",
+  help: "Failed ClickHouse inserts by table",
+  labelNames: ["table"] as const,
+  registers: [metricsRegistry],
+});
+
+export const rateLimitRejections = new Counter({
+  name: "rybbit_rate_limit_rejections_total",
+  help: "Requests rejected by a rate limiter",
+  labelNames: ["limiter"] as const,
+  registers: [metricsRegistry],
+});
+
+type JobCountsSource = { getJobCounts(): Promise<Record<string, number>> };
+
+let monitorQueue: JobCountsSource | null = null;
+
+/**
+ * Points the monitor queue gauge at the BullMQ queue, or stops reporting it when passed null.
+ */
+export function trackMonitorQueue(queue: JobCountsSource | null) {
+  monitorQueue = queue;
+}
+
+new Gauge({
+  name: "rybbit_monitor_queue_jobs",
+  help: "Uptime monitor check jobs in the BullMQ queue by state",
+  labelNames: ["state"] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    this.reset();
+    if (!monitorQueue) return;
+    try {
+      const counts = await monitorQueue.getJobCounts();
+      for (const [state, count] of Object.entries(counts)) {
+        this.set({ state }, count);
+      }
+    } catch {
+      // Redis being unavailable shouldn't fail the whole scrape
+    }
+  },
+});
+
+/**
+ * Runs a ClickHouse insert, recording its latency and whether it failed. Errors are rethrown.
+ */
+export async function timeClickhouseInsert<T>(table: string, insert: () => Promise<T>): Promise<T> {
+  const endTimer = clickhouseInsertDuration.startTimer({ table });
+  try {
+    return await insert();
+  } catch (error) {
+    clickhouseInsertFailures.inc({ table });
+    throw error;
+  } finally {
+    endTimer();
+  }
+}
@@ -1,3 +1,5 @@
+import { rateLimitRejections } from "./metrics.js";
+
 const DEFAULT_MAX_REQUESTS = parseInt(process.env.PROJECT_API_RATE_LIMIT ?? "600", 10);
 const DEFAULT_WINDOW_MS = parseInt(process.env.PROJECT_API_RATE_WINDOW_MS ?? `${60_000}`, 10);
 
@@ -31,6 +33,7 @@ export class ProjectRateLimiter {
     }
 
     if (existing.count >= this.maxRequests) {
+      rateLimitRejections.inc({ limiter: "project" });
       return false;
     }
 
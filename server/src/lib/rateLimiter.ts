@@ -1,4 +1,5 @@
 import { IS_CLOUD } from "./const.js";
+import { rateLimitRejections } from "./metrics.js";
 
 // In-memory rate limiter for API keys
 class ApiKeyRateLimiter {
@@ -24,6 +25,7 @@ class ApiKeyRateLimiter {
     }
 
     if (existing.count >= this.maxRequests) {
+      rateLimitRejections.inc({ limiter: "api_key" });
       return false; // Rate limit exceeded
     }
 
@@ -23,6 +23,11 @@ export interface SiteConfigData {
   trackInitialPageView: boolean;
   trackSpaNavigation: boolean;
   trackIp: boolean;
+  trackForms: boolean;
+  trackFileDownloads: boolean;
+  downloadExtensions: string[] | null;
+  trackContactLinks: boolean;
+  trackImpressions: boolean;
 }
 
 class SiteConfig {
@@ -69,6 +74,11 @@ class SiteConfig {
           trackInitialPageView: sites.trackInitialPageView,
           trackSpaNavigation: sites.trackSpaNavigation,
           trackIp: sites.trackIp,
+          trackForms: sites.trackForms,
+          trackFileDownloads: sites.trackFileDownloads,
+          downloadExtensions: sites.downloadExtensions,
+          trackContactLinks: sites.trackContactLinks,
+          trackImpressions: sites.trackImpressions,
         })
         .from(sites)
         .where(isNumeric ? eq(sites.siteId, Number(siteIdOrId)) : eq(sites.id, String(siteIdOrId)))
@@ -96,6 +106,11 @@ class SiteConfig {
         trackInitialPageView: site.trackInitialPageView || true,
         trackSpaNavigation: site.trackSpaNavigation || true,
         trackIp: site.trackIp || false,
+        trackForms: site.trackForms || false,
+        trackFileDownloads: site.trackFileDownloads || false,
+        downloadExtensions: Array.isArray(site.downloadExtensions) ? site.downloadExtensions : null,
+        trackContactLinks: site.trackContactLinks || false,
+        trackImpressions: site.trackImpressions || false,
       };
 
       this.cache.set(cacheKey, {
@@ -142,6 +157,11 @@ class SiteConfig {
           trackInitialPageView: sites.trackInitialPageView,
           trackSpaNavigation: sites.trackSpaNavigation,
           trackIp: sites.trackIp,
+          trackForms: sites.trackForms,
+          trackFileDownloads: sites.trackFileDownloads,
+          downloadExtensions: sites.downloadExtensions,
+          trackContactLinks: sites.trackContactLinks,
+          trackImpressions: sites.trackImpressions,
         })
         .from(sites)
         .where(eq(sites.apiKey, apiKey))
@@ -169,6 +189,11 @@ class SiteConfig {
         trackInitialPageView: site.trackInitialPageView || true,
         trackSpaNavigation: site.trackSpaNavigation || true,
         trackIp: site.trackIp || false,
+        trackForms: site.trackForms || false,
+        trackFileDownloads: site.trackFileDownloads || false,
+        downloadExtensions: Array.isArray(site.downloadExtensions) ? site.downloadExtensions : null,
+        trackContactLinks: site.trackContactLinks || false,
+        trackImpressions: site.trackImpressions || false,
       };
 
       // Cache by siteId for future getConfig() calls
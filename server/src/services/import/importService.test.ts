@@ -0,0 +1,102 @@
+import { PassThrough, Readable } from "stream";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ImportError, importService } from "./importService.js";
+
+const { clickhouseMock, dbMock, updates } = vi.hoisted(() => {
+  const updates: Record<string, unknown>[] = [];
+
+  return {
+    updates,
+    clickhouseMock: { insert: vi.fn(async (_options: { table: string; values: unknown[] }) => ({})) },
+    dbMock: {
+      update: () => ({
+        set: (values: Record<string, unknown>) => {
+          updates.push(values);
+          return { where: async () => [] };
+        },
+      }),
+      insert: () => ({
+        values: (values: Record<string, unknown>) => ({ returning: async () => [{ id: 7, ...values }] }),
+      }),
+    },
+  };
+});
+
+vi.mock("../../db/clickhouse/clickhouse.js", () => ({ clickhouse: clickhouseMock }));
+vi.mock("../../db/postgres/postgres.js", () => ({ db: dbMock }));
+vi.mock("../../db/postgres/schema.js", () => ({ siteImports: {} }));
+vi.mock("../../lib/logger/logger.js", () => ({ createServiceLogger: () => ({ error: vi.fn(), warn: vi.fn() }) }));
+vi.mock("../../lib/metrics.js", () => ({ timeClickhouseInsert: (_table: string, insert: () => unknown) => insert() }));
+vi.mock("../sessions/sessionsRollupBackfill.js", () => ({
+  sessionsRollupBackfill: { waitUntilComplete: async () => {} },
+}));
+vi.mock("../tracker/getChannel.js", () => ({ getChannel: () => "Direct" }));
+vi.mock("../tracker/utils.js", () => ({
+  clearSelfReferrer: (referrer: string) => referrer,
+  getAllUrlParams: () => ({}),
+}));
+
+const umamiCsv = (rows: number) =>
+  [
+    "session_id,visit_id,created_at,url_path,event_type",
+    ...Array.from({ length: rows }, (_, index) => `s${index},v${index},2024-01-02 10:00:00,/,1`),
+  ].join("\n");
+
+const start = (content: Readable) =>
+  importService.startImport({ siteId: 1, source: "umami", fileName: "events.csv", content });
+
+// Waits for the background processing to record its outcome and clean up after itself
+const finished = () =>
+  vi.waitFor(() => {
+    expect(updates.some(update => update.status)).toBe(true);
+    expect(importService["running"]).toBe(false);
+  });
+
+describe("importService.startImport", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    updates.length = 0;
+  });
+
+  it("inserts the export in batches as it is read", async () => {
+    await start(Readable.from([umamiCsv(12_001)]));
+    await finished();
+
+    expect(clickhouseMock.insert.mock.calls.map(([{ values }]) => values.length)).toEqual([5000, 5000, 2001]);
+    expect(updates.filter(update => "importedRows" in update)).toEqual([
+      { importedRows: 5000 },
+      { importedRows: 10_000 },
+      { importedRows: 12_001 },
+    ]);
+    expect(updates.at(-1)).toMatchObject({ status: "completed", totalRows: 12_001 });
+  });
+
+  it("runs one import at a time", async () => {
+    const upload = new PassThrough();
+    const first = start(upload);
+
+    const second = start(Readable.from([umamiCsv(1)]));
+    await expect(second).rejects.toBeInstanceOf(ImportError);
+    await expect(second).rejects.toMatchObject({ statusCode: 409 });
+
+    upload.end(umamiCsv(1));
+    await first;
+    await finished();
+
+    // The next import can start once the first has finished
+    updates.length = 0;
+    await start(Readable.from([umamiCsv(1)]));
+    await finished();
+  });
+
+  it("fails imports without any usable rows", async () => {
+    await start(Readable.from(["session_id,created_at\n,not a date"]));
+    await finished();
+
+    expect(clickhouseMock.insert).not.toHaveBeenCalled();
+    expect(updates.at(-1)).toMatchObject({
+      status: "failed",
+      error: "The file contains no rows that can be imported",
+    });
+  });
+});
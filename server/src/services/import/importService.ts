@@ -0,0 +1,303 @@
+import { randomUUID } from "crypto";
+import { DateTime } from "luxon";
+import { and, eq } from "drizzle-orm";
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { clickhouse } from "../../db/clickhouse/clickhouse.js";
+import { db } from "../../db/postgres/postgres.js";
+import { siteImports } from "../../db/postgres/schema.js";
+import { createServiceLogger } from "../../lib/logger/logger.js";
+import { getChannel } from "../tracker/getChannel.js";
+import { clearSelfReferrer, getAllUrlParams } from "../tracker/utils.js";
+import {
+  ImportParseError,
+  parseImportFile,
+  type ImportedAggregate,
+  type ImportedEvent,
+  type ImportSource,
+} from "./parsers.js";
+import { timeClickhouseInsert } from "../../lib/metrics.js";
+import { sessionsRollupBackfill } from "../sessions/sessionsRollupBackfill.js";
+
+type SiteImport = typeof siteImports.$inferSelect;
+
+const INSERT_BATCH_SIZE = 5000;
+
+export const MAX_IMPORT_FILE_BYTES = 100 * 1024 * 1024;
+
+// Uploads are saved here while they're processed; whatever a restart left behind is removed at startup
+const UPLOAD_DIR = path.join(os.tmpdir(), "rybbit-imports");
+
+export class ImportError extends Error {
+  constructor(
+    message: string,
+    public statusCode = 400
+  ) {
+    super(message);
+  }
+}
+
+// Imported session ids are namespaced so they never merge with tracked sessions in the
+// sessions rollup, and so the rollup rows can be found again when the import is purged
+export function getImportSessionPrefix(importId: number): string {
+  return `imp${importId}:`;
+}
+
+async function* mapRows<T, R>(rows: AsyncIterable<T>, map: (row: T) => R): AsyncGenerator<R> {
+  for await (const row of rows) {
+    yield map(row);
+  }
+}
+
+class ImportService {
+  private logger = createServiceLogger("import");
+  // One import runs at a time, since each holds a batch of rows in memory and keeps ClickHouse busy
+  private running = false;
+
+  private toEventRow(siteId: number, importId: number, event: ImportedEvent) {
+    const referrer = clearSelfReferrer(event.referrer, event.hostname);
+
+    return {
+      site_id: siteId,
+      import_id: importId,
+      timestamp: event.timestamp,
+      session_id: getImportSessionPrefix(importId) + event.session_id,
+      user_id: event.user_id,
+      hostname: event.hostname,
+      pathname: event.pathname,
+      querystring: event.querystring,
+      url_parameters: getAllUrlParams(event.querystring),
+      page_title: event.page_title,
+      referrer,
+      channel: getChannel(referrer, event.querystring, event.hostname),
+      browser: event.browser,
+      browser_version: "",
+      operating_system: event.operating_system,
+      operating_system_version: "",
+      language: event.language,
+      country: event.country,
+      region: event.region,
+      city: event.city,
+      lat: 0,
+      lon: 0,
+      screen_width: event.screen_width,
+      screen_height: event.screen_height,
+      device_type: event.device_type,
+      type: event.type,
+      event_name: event.event_name,
+      props: event.props ?? {},
+    };
+  }
+
+  private toAggregateRow(siteId: number, importId: number, aggregate: ImportedAggregate) {
+    return { site_id: siteId, import_id: importId, ...aggregate };
+  }
+
+  // Inserts rows as they're parsed and returns how many there were
+  private async insertInBatches<T extends Record<string, unknown>>(
+    importId: number,
+    table: string,
+    rows: AsyncIterable<T>
+  ): Promise<number> {
+    // Imported events are usually stamped before the backfill cutoff, so until the backfill is done
+    // they would reach the rollup through sessions_mv and again through the backfill
+    await sessionsRollupBackfill.waitUntilComplete();
+
+    let inserted = 0;
+    let batch: T[] = [];
+    const insertBatch = async () => {
+      const values = batch;
+      batch = [];
+      await timeClickhouseInsert(table, () => clickhouse.insert({ table, values, format: "JSONEachRow" }));
+      inserted += values.length;
+      await db.update(siteImports).set({ importedRows: inserted }).where(eq(siteImports.id, importId));
+    };
+
+    for await (const row of rows) {
+      batch.push(row);
+      if (batch.length === INSERT_BATCH_SIZE) {
+        await insertBatch();
+      }
+    }
+    if (batch.length > 0) {
+      await insertBatch();
+    }
+    return inserted;
+  }
+
+  /**
+   * Parses the saved upload row by row and inserts the rows in batches, recording progress on the
+   * import so the settings page can follow along. The total is only known once the file has been read.
+   */
+  private async processImport(siteImport: SiteImport, source: ImportSource, filePath: string): Promise<void> {
+    const { id, siteId } = siteImport;
+    const file = createReadStream(filePath, { encoding: "utf8" });
+
+    try {
+      const parsed = await parseImportFile(source, file);
+      await db.update(siteImports).set({ target: parsed.kind }).where(eq(siteImports.id, id));
+
+      const importedRows =
+        parsed.kind === "events"
+          ? await this.insertInBatches(
+              id,
+              "events",
+              mapRows(parsed.rows, event => this.toEventRow(siteId, id, event))
+            )
+          : await this.insertInBatches(
+              id,
+              "imported_aggregates",
+              mapRows(parsed.rows, aggregate => this.toAggregateRow(siteId, id, aggregate))
+            );
+      if (importedRows === 0) {
+        throw new ImportParseError("The file contains no rows that can be imported");
+      }
+
+      await db
+        .update(siteImports)
+        .set({ status: "completed", totalRows: importedRows, completedAt: DateTime.utc().toISO() })
+        .where(eq(siteImports.id, id));
+    } catch (error) {
+      if (!(error instanceof ImportParseError)) {
+        this.logger.error({ error, siteId, importId: id }, "Import failed");
+      }
+      await db
+        .update(siteImports)
+        .set({
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+          completedAt: DateTime.utc().toISO(),
+        })
+        .where(eq(siteImports.id, id));
+    } finally {
+      file.destroy();
+      await rm(filePath, { force: true });
+      this.running = false;
+    }
+  }
+
+  // Streams the upload to disk, so it's never held in memory as a whole
+  private async saveUpload(content: Readable, filePath: string): Promise<void> {
+    let bytes = 0;
+    await mkdir(UPLOAD_DIR, { recursive: true });
+    await pipeline(
+      content,
+      async function* (chunks: AsyncIterable<Buffer>) {
+        for await (const chunk of chunks) {
+          bytes += chunk.length;
+          if (bytes > MAX_IMPORT_FILE_BYTES) {
+            throw new ImportError("Files larger than 100MB must be split before importing", 413);
+          }
+          yield chunk;
+        }
+      },
+      createWriteStream(filePath)
+    );
+  }
+
+  /**
+   * Saves the uploaded file, records the import and processes the file in the background. Only one
+   * import runs at a time. Rows inserted before a failure are kept and can be removed with purgeImport.
+   */
+  public async startImport(params: {
+    siteId: number;
+    source: ImportSource;
+    fileName: string;
+    content: Readable;
+    userId?: string;
+  }): Promise<SiteImport> {
+    if (this.running) {
+      params.content.resume();
+      throw new ImportError("Another import is still running, try again once it has finished", 409);
+    }
+    this.running = true;
+
+    const filePath = path.join(UPLOAD_DIR, randomUUID());
+    let siteImport: SiteImport;
+    try {
+      await this.saveUpload(params.content, filePath);
+      [siteImport] = await db
+        .insert(siteImports)
+        .values({
+          siteId: params.siteId,
+          source: params.source,
+          fileName: params.fileName,
+          createdBy: params.userId,
+        })
+        .returning();
+    } catch (error) {
+      await rm(filePath, { force: true });
+      this.running = false;
+      throw error;
+    }
+
+    void this.processImport(siteImport, params.source, filePath);
+    return siteImport;
+  }
+
+  /**
+   * Deletes everything an import wrote to ClickHouse, including its sessions rollup rows.
+   */
+  public async purgeImport(siteId: number, importId: number): Promise<SiteImport> {
+    const [siteImport] = await db
+      .select()
+      .from(siteImports)
+      .where(and(eq(siteImports.id, importId), eq(siteImports.siteId, siteId)));
+
+    if (!siteImport) {
+      throw new ImportError("Import not found");
+    }
+    if (siteImport.status === "processing") {
+      throw new ImportError("Wait for the import to finish before purging it");
+    }
+    if (siteImport.status === "purged") {
+      throw new ImportError("Import has already been purged");
+    }
+
+    const query_params = { siteId, importId, sessionPrefix: getImportSessionPrefix(importId) };
+    await clickhouse.command({
+      query: "DELETE FROM events WHERE site_id = {siteId:UInt16} AND import_id = {importId:UInt32}",
+      query_params,
+    });
+    await clickhouse.command({
+      query: "DELETE FROM sessions WHERE site_id = {siteId:UInt16} AND startsWith(session_id, {sessionPrefix:String})",
+      query_params,
+    });
+    await clickhouse.command({
+      query: "DELETE FROM imported_aggregates WHERE site_id = {siteId:UInt16} AND import_id = {importId:UInt32}",
+      query_params,
+    });
+
+    const [purged] = await db
+      .update(siteImports)
+      .set({ status: "purged" })
+      .where(eq(siteImports.id, importId))
+      .returning();
+    return purged;
+  }
+
+  // Imports run in-process, so any still marked as processing at startup were cut off by a restart
+  public async failInterruptedImports(): Promise<void> {
+    await rm(UPLOAD_DIR, { recursive: true, force: true });
+
+    const interrupted = await db
+      .update(siteImports)
+      .set({
+        status: "failed",
+        error: "Import was interrupted by a server restart",
+        completedAt: DateTime.utc().toISO(),
+      })
+      .where(eq(siteImports.status, "processing"))
+      .returning({ id: siteImports.id });
+
+    if (interrupted.length > 0) {
+      this.logger.warn({ importIds: interrupted.map(row => row.id) }, "Marked interrupted imports as failed");
+    }
+  }
+}
+
+export const importService = new ImportService();
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import { ImportParseError, parseCsv, parseImportFile, parseJsonRecords, type ImportSource } from "./parsers.js";
+
+// Splits text into small chunks so quotes, line endings and JSON records straddle chunk boundaries
+async function* chunks(text: string, size = 5) {
+  for (let offset = 0; offset < text.length; offset += size) {
+    yield text.slice(offset, offset + size);
+  }
+}
+
+async function collect<T>(rows: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const row of rows) {
+    collected.push(row);
+  }
+  return collected;
+}
+
+async function parse(source: ImportSource, text: string) {
+  const parsed = await parseImportFile(source, chunks(text));
+  return { kind: parsed.kind, rows: await collect<object>(parsed.rows) };
+}
+
+describe("parseCsv", () => {
+  it("handles quotes, escaped quotes and CRLF line endings", async () => {
+    for (const size of [1, 2, 3, 5, 100]) {
+      expect(await collect(parseCsv(chunks('name,note\r\n"Doe, Jane","said ""hi"""\r\nSmith,""\r\n', size)))).toEqual([
+        { name: "Doe, Jane", note: 'said "hi"' },
+        { name: "Smith", note: "" },
+      ]);
+    }
+  });
+
+  it("skips Google Analytics comment lines before the header", async () => {
+    expect(await collect(parseCsv(chunks("# Pages\n# 20240101-20240131\n\nDate,Views\n20240101,5")))).toEqual([
+      { Date: "20240101", Views: "5" },
+    ]);
+  });
+});
+
+describe("parseJsonRecords", () => {
+  const records = [{ a: "x}, {y" }, { b: [1, { c: '\\"' }] }];
+
+  it("reads newline-delimited JSON and JSON arrays", async () => {
+    for (const size of [1, 3, 100]) {
+      expect(
+        await collect(parseJsonRecords(chunks(records.map(record => JSON.stringify(record)).join("\n"), size)))
+      ).toEqual(records);
+      expect(await collect(parseJsonRecords(chunks(JSON.stringify(records, null, 2), size)))).toEqual(records);
+    }
+  });
+
+  it("rejects invalid and truncated JSON", async () => {
+    await expect(collect(parseJsonRecords(chunks('{"a": tru}')))).rejects.toThrow(ImportParseError);
+    await expect(collect(parseJsonRecords(chunks('[{"a": 1}, {"b"')))).rejects.toThrow(ImportParseError);
+    await expect(collect(parseJsonRecords(chunks("[1, 2]")))).rejects.toThrow(ImportParseError);
+  });
+});
+
+describe("parseImportFile", () => {
+  it("maps Umami events onto the events schema", async () => {
+    const csv = [
+      "session_id,visit_id,created_at,url_path,url_query,referrer_domain,event_type,event_name,hostname,browser,os,device,screen,language,country,city",
+      "s1,v1,2024-01-02 10:00:00,/pricing,plan=pro,google.com,1,,example.com,chrome,Mac OS,laptop,1440x900,en-US,DE,Berlin",
+      "s1,v1,2024-01-02 10:01:00,/pricing,,,2,signup,example.com,chrome,Mac OS,laptop,1440x900,en-US,DE,Berlin",
+    ].join("\n");
+
+    const parsed = await parse("umami", csv);
+
+    expect(parsed.kind).toBe("events");
+    expect(parsed.rows).toHaveLength(2);
+    expect(parsed.rows[0]).toMatchObject({
+      timestamp: "2024-01-02 10:00:00",
+      session_id: "v1",
+      user_id: "s1",
+      pathname: "/pricing",
+      querystring: "?plan=pro",
+      referrer: "https://google.com",
+      device_type: "Desktop",
+      screen_width: 1440,
+      country: "DE",
+      type: "pageview",
+    });
+    expect(parsed.rows[1]).toMatchObject({ type: "custom_event", event_name: "signup" });
+  });
+
+  it("maps GA4 BigQuery exports onto events and skips automatic events", async () => {
+    const event = (name: string) =>
+      JSON.stringify({
+        event_timestamp: "1704189600000000",
+        event_name: name,
+        user_pseudo_id: "u1",
+        event_params: [
+          { key: "ga_session_id", value: { int_value: "42" } },
+          { key: "page_location", value: { string_value: "https://example.com/docs?ref=nav" } },
+          { key: "button", value: { string_value: "cta" } },
+        ],
+        device: { category: "mobile", web_info: { browser: "Safari" } },
+        geo: { country: "United States", city: "Austin" },
+      });
+
+    const parsed = await parse("ga4", [event("session_start"), event("page_view"), event("cta_click")].join("\n"));
+
+    expect(parsed.kind).toBe("events");
+    expect(parsed.rows).toHaveLength(2);
+    expect(parsed.rows[0]).toMatchObject({
+      timestamp: "2024-01-02 10:00:00",
+      session_id: "u1:42",
+      hostname: "example.com",
+      pathname: "/docs",
+      querystring: "?ref=nav",
+      device_type: "Mobile",
+      // Full country names don't fit the two-letter country column
+      country: "",
+      type: "pageview",
+    });
+    expect(parsed.rows[1]).toMatchObject({ type: "custom_event", event_name: "cta_click", props: { button: "cta" } });
+  });
+
+  it("maps Google Analytics report CSVs onto daily aggregates", async () => {
+    const csv = [
+      "Date,Page,Pageviews,Users,Sessions,Bounce Rate,Avg. Session Duration",
+      '20240101,/home,"1,200",800,1000,40.00%,00:01:30',
+    ].join("\n");
+
+    expect(await parse("universal_analytics", csv)).toEqual({
+      kind: "aggregates",
+      rows: [
+        {
+          date: "2024-01-01",
+          dimension: "pathname",
+          value: "/home",
+          visitors: 800,
+          visits: 1000,
+          pageviews: 1200,
+          bounces: 400,
+          visit_duration: 90_000,
+        },
+      ],
+    });
+  });
+
+  it("maps Plausible CSV exports by the dimension column they contain", async () => {
+    const csv = "date,visitors,pageviews,bounces,visits,visit_duration\n2024-01-01,10,30,4,12,600";
+
+    expect((await parse("plausible", csv)).rows).toEqual([
+      {
+        date: "2024-01-01",
+        dimension: "total",
+        value: "",
+        visitors: 10,
+        visits: 12,
+        pageviews: 30,
+        bounces: 4,
+        visit_duration: 600,
+      },
+    ]);
+    await expect(parse("plausible", "date,entry_page,visitors\n2024-01-01,/,1")).rejects.toThrow(ImportParseError);
+  });
+
+  it("keeps only country codes in country breakdowns", async () => {
+    const csv = "Date,Country,Total users\n20240101,United States,5\n20240101,de,3";
+
+    expect((await parse("ga4", csv)).rows).toMatchObject([{ value: "" }, { value: "DE" }]);
+  });
+
+  it("requires a date breakdown for aggregate exports", async () => {
+    await expect(parse("ga4", "Page path,Views\n/,1")).rejects.toThrow(ImportParseError);
+  });
+});
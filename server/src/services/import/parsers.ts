@@ -0,0 +1,582 @@
+import { DateTime } from "luxon";
+
+export const IMPORT_SOURCES = ["ga4", "universal_analytics", "plausible", "umami"] as const;
+export type ImportSource = (typeof IMPORT_SOURCES)[number];
+
+// A raw event mapped onto the columns of the `events` table
+export interface ImportedEvent {
+  timestamp: string;
+  session_id: string;
+  user_id: string;
+  hostname: string;
+  pathname: string;
+  querystring: string;
+  page_title: string;
+  referrer: string;
+  browser: string;
+  operating_system: string;
+  language: string;
+  country: string;
+  region: string;
+  city: string;
+  screen_width: number;
+  screen_height: number;
+  device_type: string;
+  type: "pageview" | "custom_event";
+  event_name: string;
+  props?: Record<string, unknown>;
+}
+
+export type AggregateDimension =
+  | "total"
+  | "pathname"
+  | "referrer"
+  | "country"
+  | "device_type"
+  | "browser"
+  | "operating_system";
+
+// A pre-aggregated daily row, for exports that don't include individual events
+export interface ImportedAggregate {
+  date: string;
+  dimension: AggregateDimension;
+  value: string;
+  visitors: number;
+  visits: number;
+  pageviews: number;
+  bounces: number;
+  visit_duration: number;
+}
+
+// Rows are parsed lazily as they are read, so a whole export is never held in memory
+export type ParsedImport =
+  | { kind: "events"; rows: AsyncIterable<ImportedEvent> }
+  | { kind: "aggregates"; rows: AsyncIterable<ImportedAggregate> };
+
+export class ImportParseError extends Error {}
+
+/**
+ * Parses RFC 4180 CSV from chunks of text into one object per row keyed by the header. Leading blank
+ * lines and `#` comment lines (Google Analytics puts report metadata there) are skipped.
+ */
+export async function* parseCsv(chunks: AsyncIterable<string>): AsyncGenerator<Record<string, string>> {
+  let keys: string[] | null = null;
+  let field = "";
+  let record: string[] = [];
+  let inQuotes = false;
+  // A quote inside a quoted field, or a carriage return, whose meaning depends on the next character
+  let pendingQuote = false;
+  let pendingCarriageReturn = false;
+  let isFirstChar = true;
+
+  const toRow = (fields: string[]): Record<string, string> | null => {
+    if ((fields.length === 1 && fields[0].trim() === "") || fields[0].startsWith("#")) {
+      return null;
+    }
+    if (!keys) {
+      keys = fields.map(key => key.trim());
+      return null;
+    }
+    return Object.fromEntries(keys.map((key, index) => [key, fields[index]?.trim() ?? ""]));
+  };
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (isFirstChar) {
+        isFirstChar = false;
+        if (char === "\uFEFF") {
+          continue;
+        }
+      }
+      if (pendingCarriageReturn) {
+        pendingCarriageReturn = false;
+        if (char === "\n") {
+          continue;
+        }
+      }
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ",") {
+        record.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        pendingCarriageReturn = char === "\r";
+        record.push(field);
+        const row = toRow(record);
+        field = "";
+        record = [];
+        if (row) {
+          yield row;
+        }
+      } else {
+        field += char;
+      }
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    const row = toRow(record);
+    if (row) {
+      yield row;
+    }
+  }
+}
+
+/**
+ * Parses JSON objects from chunks of text, either as newline-delimited JSON or as the elements of one
+ * top-level array. Each object is parsed as soon as it is complete.
+ */
+export async function* parseJsonRecords(chunks: AsyncIterable<string>): AsyncGenerator<unknown> {
+  // Objects sit at depth 0 in newline-delimited JSON and at depth 1 inside an array
+  let recordDepth: number | null = null;
+  let depth = 0;
+  let buffer = "";
+  let inString = false;
+  let escaped = false;
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (inString) {
+        buffer += char;
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+      if (/\s|,|\uFEFF/.test(char)) {
+        if (depth > (recordDepth ?? 0)) {
+          buffer += char;
+        }
+        continue;
+      }
+
+      recordDepth ??= char === "[" ? 1 : 0;
+      if (char === "{" || char === "[") {
+        depth++;
+        if (depth > recordDepth) {
+          buffer += char;
+        }
+      } else if (char === "}" || char === "]") {
+        if (depth > recordDepth) {
+          buffer += char;
+        }
+        depth--;
+        if (depth === recordDepth && buffer) {
+          try {
+            yield JSON.parse(buffer);
+          } catch {
+            throw new ImportParseError("The file contains invalid JSON");
+          }
+          buffer = "";
+        }
+      } else if (depth > recordDepth) {
+        buffer += char;
+        inString = char === '"';
+      } else {
+        throw new ImportParseError("Expected one JSON object per record");
+      }
+    }
+  }
+
+  if (depth !== 0 || buffer) {
+    throw new ImportParseError("The file ends in the middle of a JSON record");
+  }
+}
+
+function parseNumber(value: string | undefined): number {
+  if (!value) {
+    return 0;
+  }
+  const parsed = Number(value.replace(/[,%\s]/g, ""));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+// Seconds, or UA's HH:MM:SS durations
+function parseDuration(value: string | undefined): number {
+  if (value && /^\d+:\d{2}:\d{2}$/.test(value)) {
+    const [hours, minutes, seconds] = value.split(":").map(Number);
+    return hours * 3600 + minutes * 60 + seconds;
+  }
+  return parseNumber(value);
+}
+
+function parseReportDate(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const date = /^\d{8}$/.test(value)
+    ? DateTime.fromFormat(value, "yyyyMMdd", { zone: "utc" })
+    : DateTime.fromISO(value, { zone: "utc" });
+  return date.isValid ? date.toISODate() : null;
+}
+
+function formatTimestamp(date: DateTime): string {
+  return date.toUTC().toFormat("yyyy-MM-dd HH:mm:ss");
+}
+
+// Only ISO 3166-1 alpha-2 codes fit the events table's country column
+function toCountryCode(value: string | undefined): string {
+  return value && /^[A-Za-z]{2}$/.test(value) ? value.toUpperCase() : "";
+}
+
+function toDeviceType(value: string | undefined): string {
+  switch (value?.toLowerCase()) {
+    case "desktop":
+    case "laptop":
+      return "Desktop";
+    case "mobile":
+    case "smartphone":
+      return "Mobile";
+    case "tablet":
+      return "Tablet";
+    default:
+      return "";
+  }
+}
+
+function splitUrl(url: string | undefined): { hostname: string; pathname: string; querystring: string } {
+  try {
+    const parsed = new URL(url ?? "");
+    return { hostname: parsed.hostname, pathname: parsed.pathname, querystring: parsed.search };
+  } catch {
+    return { hostname: "", pathname: "", querystring: "" };
+  }
+}
+
+type AggregateColumns = {
+  date: string[];
+  dimensions: [AggregateDimension, string[]][];
+  visitors: string[];
+  visits: string[];
+  pageviews: string[];
+  bounces: string[];
+  bounceRate?: string[];
+  visitDuration: string[];
+  // Average durations are multiplied by visits so they can be summed like Plausible's totals
+  visitDurationIsAverage: boolean;
+  // Throws for exports the source produces but that can't be imported
+  checkHeader?: (header: string[]) => void;
+};
+
+function pickColumn(header: string[], aliases: string[]): string | undefined {
+  const lowerAliases = aliases.map(alias => alias.toLowerCase());
+  return header.find(key => lowerAliases.includes(key.toLowerCase()));
+}
+
+// Resolves the columns from the header once and returns a mapper for the rows that follow it
+function getAggregateMapper(header: string[], columns: AggregateColumns) {
+  const dateColumn = pickColumn(header, columns.date);
+  if (!dateColumn) {
+    throw new ImportParseError("The export must be broken down by date");
+  }
+
+  const dimension = columns.dimensions
+    .map(([name, aliases]) => [name, pickColumn(header, aliases)] as const)
+    .find(([, column]) => column);
+  const visitorsColumn = pickColumn(header, columns.visitors);
+  const visitsColumn = pickColumn(header, columns.visits);
+  const pageviewsColumn = pickColumn(header, columns.pageviews);
+  const bouncesColumn = pickColumn(header, columns.bounces);
+  const bounceRateColumn = columns.bounceRate && pickColumn(header, columns.bounceRate);
+  const durationColumn = pickColumn(header, columns.visitDuration);
+
+  if (!visitorsColumn && !visitsColumn && !pageviewsColumn) {
+    throw new ImportParseError("The export has no visitor, session or pageview columns");
+  }
+
+  return (row: Record<string, string>): ImportedAggregate | null => {
+    const date = parseReportDate(row[dateColumn]);
+    if (!date) {
+      return null;
+    }
+
+    const visits = visitsColumn ? parseNumber(row[visitsColumn]) : 0;
+    const duration = durationColumn ? parseDuration(row[durationColumn]) : 0;
+    const bounces = bouncesColumn
+      ? parseNumber(row[bouncesColumn])
+      : bounceRateColumn
+        ? Math.round((parseNumber(row[bounceRateColumn]) / 100) * visits)
+        : 0;
+
+    // Country breakdowns are read alongside the events' country codes, so full names are dropped
+    const value = dimension?.[1] ? row[dimension[1]] : "";
+
+    return {
+      date,
+      dimension: dimension ? dimension[0] : "total",
+      value: dimension?.[0] === "country" ? toCountryCode(value) : value,
+      visitors: visitorsColumn ? parseNumber(row[visitorsColumn]) : 0,
+      visits,
+      pageviews: pageviewsColumn ? parseNumber(row[pageviewsColumn]) : 0,
+      bounces,
+      visit_duration: columns.visitDurationIsAverage ? duration * visits : duration,
+    };
+  };
+}
+
+async function* mapAggregateRows(
+  rows: AsyncIterable<Record<string, string>>,
+  columns: AggregateColumns
+): AsyncGenerator<ImportedAggregate> {
+  let mapRow: ((row: Record<string, string>) => ImportedAggregate | null) | null = null;
+
+  for await (const row of rows) {
+    if (!mapRow) {
+      const header = Object.keys(row);
+      columns.checkHeader?.(header);
+      mapRow = getAggregateMapper(header, columns);
+    }
+    const aggregate = mapRow(row);
+    if (aggregate) {
+      yield aggregate;
+    }
+  }
+}
+
+/**
+ * Report CSVs exported from the GA4 or Universal Analytics UI. Only daily aggregates are
+ * available there, optionally broken down by one dimension.
+ */
+export function parseGoogleAnalyticsReport(rows: AsyncIterable<Record<string, string>>) {
+  return mapAggregateRows(rows, {
+    date: ["Date", "Day"],
+    dimensions: [
+      ["pathname", ["Page path and screen class", "Page path", "Page", "Landing page", "Landing Page"]],
+      ["referrer", ["Session source", "Source", "First user source"]],
+      ["country", ["Country"]],
+      ["device_type", ["Device category", "Device Category"]],
+      ["browser", ["Browser"]],
+      ["operating_system", ["Operating system", "Operating System"]],
+    ],
+    visitors: ["Total users", "Users", "Active users"],
+    visits: ["Sessions"],
+    pageviews: ["Views", "Pageviews", "Screen page views"],
+    bounces: ["Bounces"],
+    bounceRate: ["Bounce rate", "Bounce Rate"],
+    visitDuration: ["Average session duration", "Avg. Session Duration"],
+    visitDurationIsAverage: true,
+  });
+}
+
+/**
+ * The `imported_*.csv` files in a Plausible CSV export. Each file holds daily totals for one
+ * dimension; entry and exit page files have no equivalent here and are rejected.
+ */
+export function parsePlausibleExport(rows: AsyncIterable<Record<string, string>>) {
+  return mapAggregateRows(rows, {
+    date: ["date"],
+    dimensions: [
+      ["pathname", ["page"]],
+      ["referrer", ["source"]],
+      ["country", ["country"]],
+      ["device_type", ["device"]],
+      ["browser", ["browser"]],
+      ["operating_system", ["operating_system"]],
+    ],
+    visitors: ["visitors"],
+    visits: ["visits"],
+    pageviews: ["pageviews"],
+    bounces: ["bounces"],
+    visitDuration: ["visit_duration"],
+    visitDurationIsAverage: false,
+    checkHeader: header => {
+      if (header.includes("entry_page") || header.includes("exit_page")) {
+        throw new ImportParseError("Plausible entry and exit page exports are not supported");
+      }
+    },
+  });
+}
+
+/**
+ * Umami's website event export, one row per pageview or custom event with its session's
+ * device and location attached. Umami has no persistent visitor id, so sessions double as users.
+ */
+export async function* parseUmamiEvents(rows: AsyncIterable<Record<string, string>>): AsyncGenerator<ImportedEvent> {
+  for await (const row of rows) {
+    const timestamp = DateTime.fromSQL(row.created_at, { zone: "utc" }).isValid
+      ? DateTime.fromSQL(row.created_at, { zone: "utc" })
+      : DateTime.fromISO(row.created_at, { zone: "utc" });
+    if (!timestamp.isValid || !row.session_id) {
+      continue;
+    }
+
+    const [screenWidth, screenHeight] = (row.screen ?? "").split("x").map(Number);
+    const isCustomEvent = row.event_type === "2";
+
+    yield {
+      timestamp: formatTimestamp(timestamp),
+      session_id: row.visit_id || row.session_id,
+      user_id: row.session_id,
+      hostname: row.hostname ?? "",
+      pathname: row.url_path ?? "",
+      querystring: row.url_query ? `?${row.url_query.replace(/^\?/, "")}` : "",
+      page_title: row.page_title ?? "",
+      referrer: row.referrer_domain ? `https://${row.referrer_domain}${row.referrer_path ?? ""}` : "",
+      browser: row.browser ?? "",
+      operating_system: row.os ?? "",
+      language: row.language ?? "",
+      country: toCountryCode(row.country),
+      region: row.subdivision1 ?? "",
+      city: row.city ?? "",
+      screen_width: Number.isFinite(screenWidth) ? screenWidth : 0,
+      screen_height: Number.isFinite(screenHeight) ? screenHeight : 0,
+      device_type: toDeviceType(row.device),
+      type: isCustomEvent ? "custom_event" : "pageview",
+      event_name: isCustomEvent ? (row.event_name ?? "") : "",
+    };
+  }
+}
+
+type Ga4EventParam = {
+  key: string;
+  value: { string_value?: string | null; int_value?: string | number | null; double_value?: number | null };
+};
+
+type Ga4Event = {
+  event_timestamp: string | number;
+  event_name: string;
+  user_pseudo_id?: string;
+  user_id?: string | null;
+  event_params?: Ga4EventParam[];
+  device?: {
+    category?: string;
+    operating_system?: string;
+    language?: string;
+    web_info?: { browser?: string; hostname?: string };
+  };
+  geo?: { country?: string; region?: string; city?: string };
+};
+
+// Collected automatically by GA4 and covered by Rybbit's own session metrics
+const GA4_IGNORED_EVENTS = new Set(["session_start", "first_visit", "user_engagement"]);
+
+function getGa4Param(event: Ga4Event, key: string): string | number | undefined {
+  const value = event.event_params?.find(param => param.key === key)?.value;
+  return value?.string_value ?? value?.int_value ?? value?.double_value ?? undefined;
+}
+
+/**
+ * GA4's BigQuery event export, as parsed by parseJsonRecords.
+ */
+export async function* parseGa4Events(records: AsyncIterable<unknown>): AsyncGenerator<ImportedEvent> {
+  for await (const record of records) {
+    const event = record as Ga4Event;
+    if (!event?.event_name || GA4_IGNORED_EVENTS.has(event.event_name)) {
+      continue;
+    }
+
+    // BigQuery exports timestamps in microseconds
+    const timestamp = DateTime.fromMillis(Math.floor(Number(event.event_timestamp) / 1000), { zone: "utc" });
+    if (!timestamp.isValid) {
+      continue;
+    }
+
+    const userId = event.user_id || event.user_pseudo_id || "";
+    const sessionId = getGa4Param(event, "ga_session_id");
+    const url = splitUrl(String(getGa4Param(event, "page_location") ?? ""));
+    const isPageview = event.event_name === "page_view";
+
+    const props = isPageview
+      ? undefined
+      : Object.fromEntries(
+          (event.event_params ?? [])
+            .filter(
+              param =>
+                !["ga_session_id", "ga_session_number", "page_location", "page_title", "page_referrer"].includes(
+                  param.key
+                )
+            )
+            .map(param => [param.key, param.value.string_value ?? param.value.int_value ?? param.value.double_value])
+        );
+
+    yield {
+      timestamp: formatTimestamp(timestamp),
+      session_id: sessionId !== undefined ? `${userId}:${sessionId}` : userId,
+      user_id: userId,
+      hostname: url.hostname || event.device?.web_info?.hostname || "",
+      pathname: url.pathname,
+      querystring: url.querystring,
+      page_title: String(getGa4Param(event, "page_title") ?? ""),
+      referrer: String(getGa4Param(event, "page_referrer") ?? ""),
+      browser: event.device?.web_info?.browser ?? "",
+      operating_system: event.device?.operating_system ?? "",
+      language: event.device?.language ?? "",
+      country: toCountryCode(event.geo?.country),
+      region: "",
+      city: event.geo?.city ?? "",
+      screen_width: 0,
+      screen_height: 0,
+      device_type: toDeviceType(event.device?.category),
+      type: isPageview ? "pageview" : "custom_event",
+      event_name: isPageview ? "" : event.event_name,
+      props,
+    };
+  }
+}
+
+// Reads up to the first non-blank character, then replays everything that was read
+async function peekFirstChar(chunks: AsyncIterable<string>): Promise<{ first: string; chunks: AsyncIterable<string> }> {
+  const iterator = chunks[Symbol.asyncIterator]();
+  const read: string[] = [];
+  let first = "";
+
+  while (!first) {
+    const next = await iterator.next();
+    if (next.done) {
+      break;
+    }
+    read.push(next.value);
+    first = next.value.replace(/^[\s\uFEFF]+/, "").charAt(0);
+  }
+
+  async function* replay() {
+    yield* read;
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      yield next.value;
+    }
+  }
+
+  return { first, chunks: replay() };
+}
+
+/**
+ * Maps an export file, read as chunks of text, onto raw events when the source provides them, or daily
+ * aggregates otherwise. GA4 files are treated as BigQuery event exports when they are JSON and as UI
+ * reports when they are CSV.
+ */
+export async function parseImportFile(source: ImportSource, content: AsyncIterable<string>): Promise<ParsedImport> {
+  switch (source) {
+    case "ga4": {
+      const { first, chunks } = await peekFirstChar(content);
+      return first === "[" || first === "{"
+        ? { kind: "events", rows: parseGa4Events(parseJsonRecords(chunks)) }
+        : { kind: "aggregates", rows: parseGoogleAnalyticsReport(parseCsv(chunks)) };
+    }
+    case "universal_analytics":
+      return { kind: "aggregates", rows: parseGoogleAnalyticsReport(parseCsv(content)) };
+    case "plausible":
+      return { kind: "aggregates", rows: parsePlausibleExport(parseCsv(content)) };
+    case "umami":
+      return { kind: "events", rows: parseUmamiEvents(parseCsv(content)) };
+  }
+}
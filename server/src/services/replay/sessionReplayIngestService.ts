@@ -7,6 +7,7 @@ import { sessionsService } from "../sessions/sessionsService.js";
 import { userIdService } from "../userId/userIdService.js";
 import { r2Storage } from "../storage/r2StorageService.js";
 import { siteConfig } from "../../lib/siteConfig.js";
+import { timeClickhouseInsert } from "../../lib/metrics.js";
 
 export interface RequestMetadata {
   userAgent: string;
@@ -99,11 +100,13 @@ export class SessionReplayIngestService {
 
     // Batch insert events
     if (eventsToInsert.length > 0) {
-      await clickhouse.insert({
-        table: "session_replay_events",
-        values: eventsToInsert,
-        format: "JSONEachRow",
-      });
+      await timeClickhouseInsert("session_replay_events", () =>
+        clickhouse.insert({
+          table: "session_replay_events",
+          values: eventsToInsert,
+          format: "JSONEachRow",
+        })
+      );
     }
 
     // Update or insert metadata
@@ -181,39 +184,41 @@ export class SessionReplayIngestService {
     const durationMs = endTime ? endTime.getTime() - startTime.getTime() : null;
 
     // Insert or update metadata
-    await clickhouse.insert({
-      table: "session_replay_metadata",
-      values: [
-        {
-          site_id: siteId,
-          session_id: sessionId,
-          user_id: userId,
-          start_time: DateTime.fromJSDate(startTime).toFormat("yyyy-MM-dd HH:mm:ss"),
-          end_time: endTime ? DateTime.fromJSDate(endTime).toFormat("yyyy-MM-dd HH:mm:ss") : null,
-          duration_ms: durationMs,
-          event_count: sessionReplayData.event_count || 0,
-          compressed_size_bytes: sessionReplayData.compressed_size_bytes || 0,
-          page_url: metadata.pageUrl || "",
-          country: trackingData.country || "",
-          region: trackingData.region || "",
-          city: trackingData.city || "",
-          lat: trackingData.lat || 0,
-          lon: trackingData.lon || 0,
-          browser: trackingData.browser || "",
-          browser_version: trackingData.browserVersion || "",
-          operating_system: trackingData.operatingSystem || "",
-          operating_system_version: trackingData.operatingSystemVersion || "",
-          language: trackingData.language || "",
-          screen_width: sessionReplayData.screen_width || metadata?.viewportWidth || 0,
-          screen_height: sessionReplayData.screen_height || metadata?.viewportHeight || 0,
-          device_type: trackingData.deviceType || "",
-          channel: trackingData.channel || "",
-          hostname: trackingData.hostname || "",
-          referrer: trackingData.referrer || "",
-          has_replay_data: 1,
-        },
-      ],
-      format: "JSONEachRow",
-    });
+    await timeClickhouseInsert("session_replay_metadata", () =>
+      clickhouse.insert({
+        table: "session_replay_metadata",
+        values: [
+          {
+            site_id: siteId,
+            session_id: sessionId,
+            user_id: userId,
+            start_time: DateTime.fromJSDate(startTime).toFormat("yyyy-MM-dd HH:mm:ss"),
+            end_time: endTime ? DateTime.fromJSDate(endTime).toFormat("yyyy-MM-dd HH:mm:ss") : null,
+            duration_ms: durationMs,
+            event_count: sessionReplayData.event_count || 0,
+            compressed_size_bytes: sessionReplayData.compressed_size_bytes || 0,
+            page_url: metadata.pageUrl || "",
+            country: trackingData.country || "",
+            region: trackingData.region || "",
+            city: trackingData.city || "",
+            lat: trackingData.lat || 0,
+            lon: trackingData.lon || 0,
+            browser: trackingData.browser || "",
+            browser_version: trackingData.browserVersion || "",
+            operating_system: trackingData.operatingSystem || "",
+            operating_system_version: trackingData.operatingSystemVersion || "",
+            language: trackingData.language || "",
+            screen_width: sessionReplayData.screen_width || metadata?.viewportWidth || 0,
+            screen_height: sessionReplayData.screen_height || metadata?.viewportHeight || 0,
+            device_type: trackingData.deviceType || "",
+            channel: trackingData.channel || "",
+            hostname: trackingData.hostname || "",
+            referrer: trackingData.referrer || "",
+            has_replay_data: 1,
+          },
+        ],
+        format: "JSONEachRow",
+      })
+    );
   }
 }
@@ -3,8 +3,15 @@ import {
   SessionReplayMetadata,
   SessionReplayListItem,
   GetSessionReplayEventsResponse,
+  FrustrationSignal,
 } from "../../types/sessionReplay.js";
-import { processResults, getTimeStatement, getFilterStatement } from "../../api/analytics/utils.js";
+import {
+  processResults,
+  getTimeStatement,
+  getFilterStatement,
+  getFrustratedSessionsCondition,
+  getTimeRange,
+} from "../../api/analytics/utils.js";
 import { FilterParams } from "@rybbit/shared";
 import { r2Storage } from "../storage/r2StorageService.js";
 
@@ -20,13 +27,15 @@ export class SessionReplayQueryService {
       offset?: number;
       userId?: string;
       minDuration?: number;
+      // Only sessions with a rage, dead or error click
+      hasFrustration?: boolean;
     } & Pick<FilterParams, "startDate" | "endDate" | "timeZone" | "pastMinutesStart" | "pastMinutesEnd" | "filters">
   ): Promise<SessionReplayListItem[]> {
-    const { limit = 50, offset = 0, userId, minDuration } = options;
+    const { limit = 50, offset = 0, userId, minDuration, hasFrustration } = options;
 
     const timeStatement = getTimeStatement(options).replace(/timestamp/g, "start_time");
 
-    const filterStatement = getFilterStatement(options.filters || "");
+    const filterStatement = getFilterStatement(options.filters || "", "events", options);
 
     let whereConditions = [`site_id = {siteId:UInt16}`];
     const queryParams: any = { siteId, limit, offset };
@@ -41,6 +50,10 @@ export class SessionReplayQueryService {
       queryParams.minDuration = minDuration * 1000; // Convert seconds to milliseconds
     }
 
+    if (hasFrustration) {
+      whereConditions.push(getFrustratedSessionsCondition(getTimeRange(options)));
+    }
+
     // Build the base query for session IDs that have replay events
     let sessionIdsSubquery = `
       SELECT DISTINCT session_id
@@ -237,9 +250,30 @@ export class SessionReplayQueryService {
     // Sort events by timestamp (in case batches were processed out of order)
     events.sort((a, b) => a.timestamp - b.timestamp);
 
+    // Rage, dead and error clicks, shown as markers on the replay timeline
+    const frustrationResult = await clickhouse.query({
+      query: `
+        SELECT
+          toUnixTimestamp(timestamp) * 1000 AS timestamp,
+          event_name AS type,
+          toString(props.selector) AS selector,
+          pathname
+        FROM events
+        WHERE site_id = {siteId:UInt16}
+          AND session_id = {sessionId:String}
+          AND type = 'frustration'
+        ORDER BY timestamp ASC
+      `,
+      query_params: { siteId, sessionId },
+      format: "JSONEachRow",
+    });
+
+    const frustrationSignals = await processResults<FrustrationSignal>(frustrationResult);
+
     return {
       events,
       metadata,
+      frustrationSignals,
     };
   }
 
@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { clickhouseMock, backfillClientMock, state } = vi.hoisted(() => {
+  const state = {
+    finishedSteps: [] as string[],
+    eventMonths: [] as string[],
+    cutoff: { time: "2024-02-15 12:00:00", month: "202402" } as { time: string; month: string } | undefined,
+  };
+  const rows = (values: unknown[]) => ({ json: async () => values });
+
+  return {
+    state,
+    clickhouseMock: {
+      query: vi.fn(async ({ query }: { query: string }) => {
+        if (query.includes("HAVING count() > 0")) {
+          return rows(state.cutoff ? [state.cutoff] : []);
+        }
+        return query.includes("sessions_backfill_state")
+          ? rows(state.finishedSteps.map(step => ({ step })))
+          : rows(state.eventMonths.map(partition_id => ({ partition_id })));
+      }),
+      insert: vi.fn(async ({ values }: { values: { step: string }[] }) => {
+        state.finishedSteps.push(values[0].step);
+        return {};
+      }),
+    },
+    backfillClientMock: { command: vi.fn(async (_options: { query: string }) => ({})) },
+  };
+});
+
+vi.mock("@clickhouse/client", () => ({ createClient: () => backfillClientMock }));
+
+vi.mock("../../db/clickhouse/clickhouse.js", () => ({
+  clickhouse: clickhouseMock,
+  SESSIONS_MV_CREATED_STEP: "mv_created",
+  SESSIONS_ROLLUP_SELECT: "SELECT site_id, session_id FROM events",
+}));
+
+vi.mock("../../lib/logger/logger.js", () => ({
+  createServiceLogger: () => ({ info: vi.fn(), error: vi.fn() }),
+}));
+
+// The backfill is a module-level singleton, so every test gets a fresh one
+async function loadBackfill() {
+  vi.resetModules();
+  return (await import("./sessionsRollupBackfill.js")).sessionsRollupBackfill;
+}
+
+const markedSteps = () => clickhouseMock.insert.mock.calls.map(([{ values }]: any) => values[0].step);
+const backfillQueries = () => backfillClientMock.command.mock.calls.map(([{ query }]: any) => query.trim());
+const partitionQueries = () => backfillQueries().filter(query => query.startsWith("ALTER TABLE"));
+
+describe("sessionsRollupBackfill", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    backfillClientMock.command.mockImplementation(async () => ({}));
+    state.finishedSteps = ["mv_created"];
+    state.eventMonths = ["202401", "202402"];
+    state.cutoff = { time: "2024-02-15 12:00:00", month: "202402" };
+  });
+
+  it("backfills every month up to the cutoff without touching live rows", async () => {
+    const backfill = await loadBackfill();
+
+    backfill.start();
+    await backfill.waitUntilComplete();
+
+    expect(backfillQueries()).not.toContain("DROP TABLE IF EXISTS sessions");
+    expect(partitionQueries()).toEqual([
+      "ALTER TABLE sessions REPLACE PARTITION ID '202401' FROM sessions_backfill_staging",
+      "ALTER TABLE sessions ATTACH PARTITION ID '202402' FROM sessions_backfill_staging",
+    ]);
+    expect(backfillClientMock.command).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: expect.stringContaining(
+          "WHERE toYYYYMM(timestamp) = {month:UInt32} AND timestamp < toDateTime({cutoff:String}, 'UTC')"
+        ),
+        query_params: { month: 202401, cutoff: "2024-02-15 12:00:00" },
+      })
+    );
+    expect(markedSteps()).toEqual(["202401", "202402", "complete"]);
+    expect(backfill.isComplete()).toBe(true);
+  });
+
+  it("resumes after the last finished month", async () => {
+    state.finishedSteps = ["mv_created", "202401"];
+    const backfill = await loadBackfill();
+
+    backfill.start();
+    await backfill.waitUntilComplete();
+
+    expect(partitionQueries()).toEqual([
+      "ALTER TABLE sessions ATTACH PARTITION ID '202402' FROM sessions_backfill_staging",
+    ]);
+    expect(markedSteps()).toEqual(["202402", "complete"]);
+  });
+
+  it("leaves events that arrive through the view during an upgrade to it", async () => {
+    vi.useFakeTimers();
+    // Existing events, then the view is created, then the first attempt fails while new events keep arriving
+    backfillClientMock.command.mockImplementation(async ({ query }) => {
+      if (query.includes("ATTACH PARTITION") && !state.eventMonths.includes("202403")) {
+        state.eventMonths.push("202403");
+        throw new Error("timeout");
+      }
+      return {};
+    });
+    const backfill = await loadBackfill();
+
+    backfill.start();
+    await vi.advanceTimersByTimeAsync(60_000);
+    await backfill.waitUntilComplete();
+    vi.useRealTimers();
+
+    expect(backfillQueries().filter(query => query.includes("'202403'"))).toEqual([]);
+    expect(partitionQueries()).toEqual([
+      "ALTER TABLE sessions REPLACE PARTITION ID '202401' FROM sessions_backfill_staging",
+      "ALTER TABLE sessions ATTACH PARTITION ID '202402' FROM sessions_backfill_staging",
+      "ALTER TABLE sessions ATTACH PARTITION ID '202402' FROM sessions_backfill_staging",
+    ]);
+    expect(markedSteps()).toEqual(["202401", "202402", "complete"]);
+  });
+
+  it("does nothing once complete", async () => {
+    state.finishedSteps = ["202401", "202402", "complete"];
+    const backfill = await loadBackfill();
+
+    expect(backfill.isComplete()).toBe(false);
+    backfill.start();
+    await backfill.waitUntilComplete();
+
+    expect(backfillClientMock.command).not.toHaveBeenCalled();
+    expect(clickhouseMock.insert).not.toHaveBeenCalled();
+    expect(backfill.isComplete()).toBe(true);
+  });
+
+  it("retries a failed run", async () => {
+    vi.useFakeTimers();
+    backfillClientMock.command.mockRejectedValueOnce(new Error("timeout"));
+    const backfill = await loadBackfill();
+
+    backfill.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(backfill.isComplete()).toBe(false);
+    expect(markedSteps()).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    await backfill.waitUntilComplete();
+    vi.useRealTimers();
+
+    expect(markedSteps()).toEqual(["202401", "202402", "complete"]);
+  });
+
+  it("refuses unexpected partition ids", async () => {
+    vi.useFakeTimers();
+    state.eventMonths = ["tuple()"];
+    const backfill = await loadBackfill();
+
+    backfill.start();
+    await vi.advanceTimersByTimeAsync(0);
+    vi.useRealTimers();
+
+    expect(backfillClientMock.command).not.toHaveBeenCalled();
+    expect(backfill.isComplete()).toBe(false);
+  });
+
+  it("waits for the view's creation time to be recorded", async () => {
+    vi.useFakeTimers();
+    state.cutoff = undefined;
+    const backfill = await loadBackfill();
+
+    backfill.start();
+    await vi.advanceTimersByTimeAsync(0);
+    vi.useRealTimers();
+
+    expect(backfillClientMock.command).not.toHaveBeenCalled();
+    expect(backfill.isComplete()).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+import { createClient } from "@clickhouse/client";
+import { clickhouse, SESSIONS_MV_CREATED_STEP, SESSIONS_ROLLUP_SELECT } from "../../db/clickhouse/clickhouse.js";
+import { createServiceLogger } from "../../lib/logger/logger.js";
+
+const COMPLETE_STEP = "complete";
+// A month of a large site's events can take a while to aggregate
+const MONTH_TIMEOUT_MS = 60 * 60_000;
+const RETRY_DELAY_MS = 60_000;
+const STAGING_TABLE = "sessions_backfill_staging";
+
+/**
+ * Populates the sessions rollup from events that were stored before sessions_mv existed.
+ *
+ * Only events stamped before the view was created (the cutoff) are backfilled; everything newer reaches
+ * the rollup through the view, so ingestion doesn't wait for the backfill. Runs one month of events at a
+ * time into a staging table and records each finished month in sessions_backfill_state, so a restart picks
+ * up where it stopped. Earlier months replace their whole rollup partition, which makes redoing an
+ * interrupted month safe. The cutoff's own month also holds rows from the view, so its backfilled rows are
+ * attached alongside them instead.
+ */
+class SessionsRollupBackfill {
+  private complete = false;
+  private completion: Promise<void>;
+  private resolveCompletion!: () => void;
+  private logger = createServiceLogger("sessions-backfill");
+  // Separate client, since the shared one times out after 30 seconds
+  private client = createClient({
+    url: process.env.CLICKHOUSE_HOST,
+    database: process.env.CLICKHOUSE_DB,
+    password: process.env.CLICKHOUSE_PASSWORD,
+    request_timeout: MONTH_TIMEOUT_MS,
+  });
+
+  constructor() {
+    this.completion = new Promise(resolve => {
+      this.resolveCompletion = resolve;
+    });
+  }
+
+  // False until the backfill is known to be done, including before it has been checked
+  isComplete(): boolean {
+    return this.complete;
+  }
+
+  waitUntilComplete(): Promise<void> {
+    return this.completion;
+  }
+
+  // Starts the backfill in the background, retrying until it finishes
+  start(): void {
+    void this.runUntilComplete();
+  }
+
+  private async runUntilComplete(): Promise<void> {
+    while (!this.complete) {
+      try {
+        await this.run();
+      } catch (error) {
+        this.logger.error(error, "Sessions rollup backfill failed, will retry");
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
+      }
+    }
+  }
+
+  private async run(): Promise<void> {
+    const finished = await this.getFinishedSteps();
+
+    if (!finished.has(COMPLETE_STEP)) {
+      const cutoff = await this.getCutoff();
+      if (!cutoff) {
+        throw new Error("sessions_mv has no recorded creation time to backfill up to");
+      }
+
+      const months = await this.getEventMonths();
+      const pending = months.filter(month => month <= cutoff.month && !finished.has(month));
+      if (pending.length > 0) {
+        this.logger.info({ months: pending.length, cutoff: cutoff.time }, "Backfilling sessions rollup");
+      }
+
+      for (const month of pending) {
+        await this.backfillMonth(month, cutoff.time, month === cutoff.month);
+      }
+
+      await this.client.command({ query: `DROP TABLE IF EXISTS ${STAGING_TABLE}` });
+      await this.markFinished(COMPLETE_STEP);
+      if (pending.length > 0) {
+        this.logger.info("Sessions rollup backfill complete");
+      }
+    }
+
+    this.complete = true;
+    this.resolveCompletion();
+  }
+
+  private async getFinishedSteps(): Promise<Set<string>> {
+    const result = await clickhouse.query({
+      query: "SELECT DISTINCT step FROM sessions_backfill_state",
+      format: "JSONEachRow",
+    });
+    const rows = await result.json<{ step: string }>();
+    return new Set(rows.map(row => row.step));
+  }
+
+  // When sessions_mv was created, in UTC, and the events partition that time falls in
+  private async getCutoff(): Promise<{ time: string; month: string } | undefined> {
+    const result = await clickhouse.query({
+      query: `
+        SELECT toString(min(completed_at), 'UTC') AS time, toString(toYYYYMM(min(completed_at))) AS month
+        FROM sessions_backfill_state
+        WHERE step = {step:String}
+        HAVING count() > 0
+      `,
+      format: "JSONEachRow",
+      query_params: { step: SESSIONS_MV_CREATED_STEP },
+    });
+    const [cutoff] = await result.json<{ time: string; month: string }>();
+    return cutoff;
+  }
+
+  // Months that have events, as YYYYMM partition ids of the events table
+  private async getEventMonths(): Promise<string[]> {
+    const result = await clickhouse.query({
+      query: `
+        SELECT DISTINCT partition_id
+        FROM system.parts
+        WHERE database = currentDatabase() AND table = 'events' AND active
+        ORDER BY partition_id
+      `,
+      format: "JSONEachRow",
+    });
+    const rows = await result.json<{ partition_id: string }>();
+    const months = rows.map(row => row.partition_id);
+    const unexpected = months.find(month => !/^\d{6}$/.test(month));
+    if (unexpected) {
+      throw new Error(`Unexpected events partition id: ${unexpected}`);
+    }
+    return months;
+  }
+
+  private async backfillMonth(month: string, cutoff: string, isCutoffMonth: boolean): Promise<void> {
+    // A fresh staging table per month clears anything an interrupted attempt left behind
+    await this.client.command({ query: `DROP TABLE IF EXISTS ${STAGING_TABLE}` });
+    await this.client.command({ query: `CREATE TABLE ${STAGING_TABLE} AS sessions` });
+
+    await this.client.command({
+      query: `
+        INSERT INTO ${STAGING_TABLE}
+        ${SESSIONS_ROLLUP_SELECT}
+        WHERE toYYYYMM(timestamp) = {month:UInt32} AND timestamp < toDateTime({cutoff:String}, 'UTC')
+        GROUP BY site_id, session_id
+      `,
+      query_params: { month: Number(month), cutoff },
+      clickhouse_settings: { max_execution_time: MONTH_TIMEOUT_MS / 1000 },
+    });
+
+    // Attaching isn't idempotent, but only a crash before the month is recorded below would repeat it
+    await this.client.command({
+      query: isCutoffMonth
+        ? `ALTER TABLE sessions ATTACH PARTITION ID '${month}' FROM ${STAGING_TABLE}`
+        : `ALTER TABLE sessions REPLACE PARTITION ID '${month}' FROM ${STAGING_TABLE}`,
+    });
+
+    await this.markFinished(month);
+    this.logger.info({ month }, "Backfilled sessions rollup month");
+  }
+
+  private async markFinished(step: string): Promise<void> {
+    await clickhouse.insert({
+      table: "sessions_backfill_state",
+      values: [{ step }],
+      format: "JSONEachRow",
+    });
+  }
+}
+
+export const sessionsRollupBackfill = new SessionsRollupBackfill();
@@ -19,6 +19,11 @@ interface SiteConfigData {
   trackInitialPageView: boolean;
   trackSpaNavigation: boolean;
   trackIp: boolean;
+  trackForms: boolean;
+  trackFileDownloads: boolean;
+  downloadExtensions: string[] | null;
+  trackContactLinks: boolean;
+  trackImpressions: boolean;
 }
 
 const {
@@ -106,6 +111,11 @@ describe("validateApiKey", () => {
       trackInitialPageView: true,
       trackSpaNavigation: true,
       trackIp: false,
+      trackForms: false,
+      trackFileDownloads: false,
+      downloadExtensions: null,
+      trackContactLinks: false,
+      trackImpressions: false,
     };
 
     vi.mocked(siteConfig.getConfig).mockResolvedValue(mockSite);
@@ -135,6 +145,11 @@ describe("validateApiKey", () => {
       trackInitialPageView: true,
       trackSpaNavigation: true,
       trackIp: false,
+      trackForms: false,
+      trackFileDownloads: false,
+      downloadExtensions: null,
+      trackContactLinks: false,
+      trackImpressions: false,
     };
 
     vi.mocked(siteConfig.getConfig).mockResolvedValue(mockSite);
@@ -163,6 +178,11 @@ describe("validateApiKey", () => {
       trackInitialPageView: true,
       trackSpaNavigation: true,
       trackIp: false,
+      trackForms: false,
+      trackFileDownloads: false,
+      downloadExtensions: null,
+      trackContactLinks: false,
+      trackImpressions: false,
     };
 
     vi.mocked(siteConfig.getConfig).mockResolvedValue(mockSite);
@@ -208,6 +228,11 @@ describe("validateApiKey", () => {
       trackInitialPageView: true,
       trackSpaNavigation: true,
       trackIp: false,
+      trackForms: false,
+      trackFileDownloads: false,
+      downloadExtensions: null,
+      trackContactLinks: false,
+      trackImpressions: false,
     }; // No apiKey property
 
     vi.mocked(siteConfig.getConfig).mockResolvedValue(mockSite as SiteConfigData);
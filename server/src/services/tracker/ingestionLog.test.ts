@@ -0,0 +1,79 @@
+import { appendFile, mkdtemp, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IngestionLog } from "./ingestionLog.js";
+
+describe("IngestionLog", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "ingestion-log-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("only exposes records once the active segment is sealed", async () => {
+    const log = new IngestionLog<{ id: number }>(dir, 100);
+    await log.append({ id: 1 });
+    await log.append({ id: 2 });
+
+    expect(await log.listSegments()).toEqual([]);
+
+    const segment = await log.seal();
+    expect(segment).not.toBeNull();
+    expect(await log.listSegments()).toEqual([segment]);
+    expect((await log.read(segment!)).records).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it("rotates segments when they reach the maximum size", async () => {
+    const log = new IngestionLog<{ id: number }>(dir, 2);
+    for (let id = 1; id <= 5; id++) {
+      await log.append({ id });
+    }
+    await log.seal();
+
+    const segments = await log.listSegments();
+    expect(segments).toHaveLength(3);
+
+    const contents = await Promise.all(segments.map(segment => log.read(segment)));
+    expect(contents.map(c => c.records)).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }, { id: 4 }], [{ id: 5 }]]);
+  });
+
+  it("returns null when sealing an empty log", async () => {
+    const log = new IngestionLog(dir, 10);
+    expect(await log.seal()).toBeNull();
+  });
+
+  it("recovers records left in the active segment by a previous process", async () => {
+    await writeFile(path.join(dir, "active.ndjson"), '{"id":1}\n{"id":2}\n');
+
+    const log = new IngestionLog<{ id: number }>(dir, 10);
+    const segments = await log.listSegments();
+
+    expect(segments).toHaveLength(1);
+    expect((await log.read(segments[0])).records).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it("skips a torn trailing line", async () => {
+    const log = new IngestionLog<{ id: number }>(dir, 10);
+    await log.append({ id: 1 });
+    await appendFile(path.join(dir, "active.ndjson"), '{"id":');
+    const segment = await log.seal();
+
+    expect(await log.read(segment!)).toEqual({ records: [{ id: 1 }], corruptLines: 1 });
+  });
+
+  it("moves dead-lettered segments out of the processing order", async () => {
+    const log = new IngestionLog<{ id: number }>(dir, 10);
+    await log.append({ id: 1 });
+    const segment = await log.seal();
+
+    await log.deadLetter(segment!, { error: new Error("insert failed"), attempts: 3 });
+
+    expect(await log.listSegments()).toEqual([]);
+    expect((await readdir(path.join(dir, "dead-letter"))).sort()).toEqual([segment, `${segment}.error.json`]);
+  });
+});
@@ -0,0 +1,142 @@
+import { mkdirSync } from "fs";
+import { appendFile, mkdir, open, readdir, readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+
+const ACTIVE_SEGMENT = "active.ndjson";
+const SEGMENT_PATTERN = /^segment-\d+-\d+\.ndjson$/;
+
+export interface SegmentContents<T> {
+  records: T[];
+  corruptLines: number;
+}
+
+/**
+ * Append-only write-ahead log on local disk.
+ *
+ * Records are appended as NDJSON to an active segment. Once the segment reaches
+ * `maxSegmentSize` records (or `seal()` is called) it is fsynced and renamed to an
+ * immutable, lexicographically ordered `segment-*.ndjson` file. Consumers read sealed
+ * segments in order and remove them once they have been persisted downstream, or move
+ * them to the dead-letter directory when they cannot be.
+ *
+ * All file operations are serialized so appends never interleave with a rotation.
+ */
+export class IngestionLog<T> {
+  private readonly activePath: string;
+  private readonly deadLetterDir: string;
+  private activeCount = 0;
+  private sequence = 0;
+  private pending: Promise<unknown>;
+
+  constructor(
+    private readonly dir: string,
+    private readonly maxSegmentSize: number
+  ) {
+    mkdirSync(dir, { recursive: true });
+    this.activePath = path.join(dir, ACTIVE_SEGMENT);
+    this.deadLetterDir = path.join(dir, "dead-letter");
+    // Anything left in the active segment was written by a previous process
+    this.pending = this.sealActive();
+  }
+
+  append(record: T): Promise<void> {
+    return this.enqueue(async () => {
+      await appendFile(this.activePath, JSON.stringify(record) + "\n");
+      this.activeCount++;
+      if (this.activeCount >= this.maxSegmentSize) {
+        await this.sealActive();
+      }
+    });
+  }
+
+  /**
+   * Closes the active segment so its records become visible to `listSegments`.
+   * Returns the sealed segment name, or null when there was nothing to seal.
+   */
+  seal(): Promise<string | null> {
+    return this.enqueue(() => this.sealActive());
+  }
+
+  async listSegments(): Promise<string[]> {
+    await this.pending;
+    const files = await readdir(this.dir);
+    return files.filter(file => SEGMENT_PATTERN.test(file)).sort();
+  }
+
+  async read(segment: string): Promise<SegmentContents<T>> {
+    const content = await readFile(path.join(this.dir, segment), "utf8");
+    const records: T[] = [];
+    let corruptLines = 0;
+
+    for (const line of content.split("\n")) {
+      if (!line) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // A crash mid-write can leave a torn final line behind
+        corruptLines++;
+      }
+    }
+
+    return { records, corruptLines };
+  }
+
+  async remove(segment: string): Promise<void> {
+    await unlink(path.join(this.dir, segment));
+  }
+
+  async deadLetter(segment: string, reason: { error: unknown; attempts: number }): Promise<void> {
+    await mkdir(this.deadLetterDir, { recursive: true });
+    await rename(path.join(this.dir, segment), path.join(this.deadLetterDir, segment));
+    await writeFile(
+      path.join(this.deadLetterDir, `${segment}.error.json`),
+      JSON.stringify(
+        {
+          error: reason.error instanceof Error ? reason.error.message : String(reason.error),
+          attempts: reason.attempts,
+          failedAt: new Date().toISOString(),
+        },
+        null,
+        2
+      )
+    );
+  }
+
+  getActiveCount(): number {
+    return this.activeCount;
+  }
+
+  private enqueue<R>(task: () => Promise<R>): Promise<R> {
+    const result = this.pending.then(task);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async sealActive(): Promise<string | null> {
+    let size: number;
+    try {
+      size = (await stat(this.activePath)).size;
+    } catch {
+      this.activeCount = 0;
+      return null;
+    }
+
+    if (size === 0) {
+      await unlink(this.activePath);
+      this.activeCount = 0;
+      return null;
+    }
+
+    const handle = await open(this.activePath, "r+");
+    try {
+      await handle.datasync();
+    } finally {
+      await handle.close();
+    }
+
+    const segment = `segment-${String(Date.now()).padStart(15, "0")}-${String(this.sequence++).padStart(6, "0")}.ndjson`;
+    await rename(this.activePath, path.join(this.dir, segment));
+    this.activeCount = 0;
+    return segment;
+  }
+}
@@ -1,9 +1,17 @@
 import { DateTime } from "luxon";
+import path from "path";
 import { clickhouse } from "../../db/clickhouse/clickhouse.js";
 import { getLocation } from "../../db/geolocation/geolocation.js";
 import { createServiceLogger } from "../../lib/logger/logger.js";
+import {
+  eventsIngested,
+  ingestionQueueBufferedEvents,
+  ingestionQueuePendingSegments,
+  timeClickhouseInsert,
+} from "../../lib/metrics.js";
 import { getDeviceType } from "../../utils.js";
 import { getChannel } from "./getChannel.js";
+import { IngestionLog } from "./ingestionLog.js";
 import { clearSelfReferrer, getAllUrlParams, TotalTrackingPayload } from "./utils.js";
 
 type TotalPayload = TotalTrackingPayload & {
@@ -18,28 +26,136 @@ const getParsedProperties = (properties: string | undefined) => {
   }
 };
 
+const WAL_DIR = process.env.INGEST_WAL_DIR || path.join(process.cwd(), "data", "ingest-wal");
+
+// Exponential backoff between insert attempts for a failing segment: 5s, 10s, 20s ... capped at 5 minutes.
+// With 20 attempts a segment survives roughly 1.5 hours of ClickHouse downtime before being dead-lettered.
+const RETRY_BASE_DELAY_MS = 5_000;
+const RETRY_MAX_DELAY_MS = 5 * 60_000;
+const MAX_INSERT_ATTEMPTS = 20;
+
+/**
+ * Buffers tracked events and bulk inserts them into ClickHouse.
+ *
+ * Events are appended to an on-disk write-ahead log before `add` resolves, so `/api/track`
+ * only acknowledges events that will survive a restart. Sealed segments are inserted in
+ * order and deleted once ClickHouse accepts them; failed segments are retried with
+ * exponential backoff and eventually moved to the dead-letter directory.
+ */
 class PageviewQueue {
-  private queue: TotalPayload[] = [];
   private batchSize = 5000;
   private interval = 10000;
   private processing = false;
+  private timer: NodeJS.Timeout;
+  private log = new IngestionLog<TotalPayload>(WAL_DIR, this.batchSize);
+  private retries = new Map<string, { attempts: number; nextAttemptAt: number }>();
   private logger = createServiceLogger("pageview-queue");
 
   constructor() {
     // Start processing interval
-    setInterval(() => this.processQueue(), this.interval);
+    this.timer = setInterval(() => this.processQueue(), this.interval);
   }
 
   async add(pageview: TotalPayload) {
-    this.queue.push(pageview);
+    await this.log.append(pageview);
+    eventsIngested.inc({ type: pageview.type || "pageview" });
+    ingestionQueueBufferedEvents.set(this.log.getActiveCount());
+  }
+
+  /**
+   * Stops the processing interval and makes one final attempt to flush every pending
+   * segment, ignoring backoff. Whatever cannot be inserted stays on disk for the next start.
+   */
+  async drain() {
+    clearInterval(this.timer);
+
+    while (this.processing) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+
+    this.retries.clear();
+    await this.processQueue();
   }
 
   private async processQueue() {
-    if (this.processing || this.queue.length === 0) return;
+    if (this.processing) return;
     this.processing = true;
 
-    // Get batch of pageviews
-    const batch = this.queue.splice(0, this.batchSize);
+    try {
+      await this.log.seal();
+      const segments = await this.log.listSegments();
+
+      // Segments are processed in order; stop at the first one that is backing off or fails
+      for (const segment of segments) {
+        const retry = this.retries.get(segment);
+        if (retry && retry.nextAttemptAt > Date.now()) break;
+
+        const inserted = await this.processSegment(segment);
+        if (!inserted) break;
+      }
+
+      ingestionQueueBufferedEvents.set(this.log.getActiveCount());
+      ingestionQueuePendingSegments.set((await this.log.listSegments()).length);
+    } catch (error) {
+      this.logger.error(error, "Error processing pageview queue");
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async processSegment(segment: string): Promise<boolean> {
+    const { records, corruptLines } = await this.log.read(segment);
+
+    if (corruptLines > 0) {
+      this.logger.warn({ segment, corruptLines }, "Skipping unreadable lines in ingestion log segment");
+    }
+
+    if (records.length === 0) {
+      await this.log.remove(segment);
+      return true;
+    }
+
+    const processedPageviews = await this.processBatch(records);
+
+    this.logger.info({ count: processedPageviews.length }, "Bulk insert to ClickHouse");
+    // Bulk insert into database
+    try {
+      await timeClickhouseInsert("events", () =>
+        clickhouse.insert({
+          table: "events",
+          values: processedPageviews,
+          format: "JSONEachRow",
+        })
+      );
+    } catch (error) {
+      const attempts = (this.retries.get(segment)?.attempts ?? 0) + 1;
+
+      if (attempts >= MAX_INSERT_ATTEMPTS) {
+        this.retries.delete(segment);
+        await this.log.deadLetter(segment, { error, attempts });
+        this.logger.error(
+          { err: error, segment, attempts, count: records.length },
+          "Giving up on ingestion log segment, moved to dead-letter"
+        );
+        // Let the following segments through instead of blocking on a poisoned batch
+        return true;
+      }
+
+      const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+      this.retries.set(segment, { attempts, nextAttemptAt: Date.now() + delay });
+      this.logger.warn(
+        { err: error, segment, attempts, retryInMs: delay },
+        "Error inserting pageview batch, will retry"
+      );
+      return false;
+    }
+
+    this.retries.delete(segment);
+    await this.log.remove(segment);
+    return true;
+  }
+
+  private async processBatch(batch: TotalPayload[]) {
     const ips = [...new Set(batch.map(pv => pv.ipAddress))];
 
     let geoData: Record<string, { data: any }> = {};
@@ -111,23 +227,14 @@ class PageviewQueue {
         inp: pv.inp || null,
         fcp: pv.fcp || null,
         ttfb: pv.ttfb || null,
+        // Engagement metrics (only included for engagement events)
+        engaged_time_ms: pv.engaged_time_ms ?? null,
+        scroll_depth: pv.scroll_depth ?? null,
         ip: pv.storeIp ? pv.ipAddress : null,
       };
     });
 
-    this.logger.info({ count: processedPageviews.length }, "Bulk insert to ClickHouse");
-    // Bulk insert into database
-    try {
-      await clickhouse.insert({
-        table: "events",
-        values: processedPageviews,
-        format: "JSONEachRow",
-      });
-    } catch (error) {
-      this.logger.error(error, "Error processing pageview queue");
-    } finally {
-      this.processing = false;
-    }
+    return processedPageviews;
   }
 }
 
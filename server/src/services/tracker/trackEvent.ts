@@ -9,6 +9,9 @@ import { usageService } from "../usageService.js";
 import { pageviewQueue } from "./pageviewQueue.js";
 import { createBasePayload } from "./utils.js";
 
+// Clicks the tracking script reports as signs of a frustrated visitor, sent as event_name of frustration events
+export const FRUSTRATION_SIGNALS = ["rage_click", "dead_click", "error_click"] as const;
+
 // Define Zod schema for validation
 export const trackingPayloadSchema = z.discriminatedUnion("type", [
   z
@@ -193,124 +196,247 @@ export const trackingPayloadSchema = z.discriminatedUnion("type", [
       user_agent: z.string().max(512).optional(), // Custom user agent
     })
     .strict(),
+  z
+    .object({
+      type: z.literal("engagement"),
+      site_id: z.string().min(1),
+      hostname: z.string().max(253).optional(),
+      pathname: z.string().max(2048).optional(),
+      querystring: z.string().max(2048).optional(),
+      screenWidth: z.number().int().positive().optional(),
+      screenHeight: z.number().int().positive().optional(),
+      language: z.string().max(35).optional(),
+      page_title: z.string().max(512).optional(),
+      referrer: z.string().max(2048).optional(),
+      event_name: z.string().max(256).optional(),
+      user_id: z.string().max(255).optional(),
+      api_key: z.string().max(35).optional(), // rb_ prefix + 32 hex chars
+      ip_address: z.string().ip().optional(), // Custom IP for geolocation
+      user_agent: z.string().max(512).optional(), // Custom user agent
+      // Visible, active time on the page since the last engagement event for it
+      engaged_time_ms: z
+        .number()
+        .int()
+        .min(0)
+        .max(24 * 60 * 60 * 1000),
+      // Furthest point scrolled to, as a percentage of the page height
+      scroll_depth: z.number().int().min(0).max(100).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("frustration"),
+      site_id: z.string().min(1),
+      hostname: z.string().max(253).optional(),
+      pathname: z.string().max(2048).optional(),
+      querystring: z.string().max(2048).optional(),
+      screenWidth: z.number().int().positive().optional(),
+      screenHeight: z.number().int().positive().optional(),
+      language: z.string().max(35).optional(),
+      page_title: z.string().max(512).optional(),
+      referrer: z.string().max(2048).optional(),
+      event_name: z.enum(FRUSTRATION_SIGNALS),
+      properties: z
+        .string()
+        .max(2048)
+        .refine(
+          val => {
+            try {
+              const parsed = JSON.parse(val);
+              // Validate frustration-specific properties
+              if (typeof parsed.selector !== "string" || parsed.selector.length === 0) return false;
+              if (parsed.text && typeof parsed.text !== "string") return false;
+              if (parsed.clicks && typeof parsed.clicks !== "number") return false;
+              if (parsed.message && typeof parsed.message !== "string") return false;
+              return true;
+            } catch (e) {
+              return false;
+            }
+          },
+          {
+            message:
+              "Properties must be valid JSON with frustration fields (selector required, text, clicks and message optional)",
+          }
+        ),
+      user_id: z.string().max(255).optional(),
+      api_key: z.string().max(35).optional(), // rb_ prefix + 32 hex chars
+      ip_address: z.string().ip().optional(), // Custom IP for geolocation
+      user_agent: z.string().max(512).optional(), // Custom user agent
+    })
+    .strict(),
 ]);
 
-const logger = createServiceLogger("track-event");
+export const MAX_BATCH_EVENTS = 50;
+// Queued events older than this are recorded as if they had waited this long
+const MAX_QUEUED_EVENT_AGE_MS = 24 * 60 * 60 * 1000;
 
-// Unified handler for all events (pageviews and custom events)
-export async function trackEvent(request: FastifyRequest, reply: FastifyReply) {
-  try {
-    // Validate request body using Zod
-    const validationResult = trackingPayloadSchema.safeParse(request.body);
+// Batches from the browser script; queued_at and sent_at are both taken from the browser's clock
+export const trackingBatchSchema = z
+  .object({
+    sent_at: z.number().int().positive().optional(),
+    events: z.array(z.record(z.unknown())).min(1).max(MAX_BATCH_EVENTS),
+  })
+  .strict();
 
-    if (!validationResult.success) {
-      return reply.status(400).send({
-        success: false,
-        error: "Invalid payload",
-        details: validationResult.error.flatten(),
-      });
-    }
+type ValidatedTrackingPayload = z.infer<typeof trackingPayloadSchema>;
 
-    // Use validated data
-    const validatedPayload = validationResult.data;
+interface TrackResult {
+  status: number;
+  body: unknown;
+}
 
-    // First check if API key is provided and valid
-    const apiKeyValidation = await validateApiKey(validatedPayload.site_id, validatedPayload.api_key);
+const logger = createServiceLogger("track-event");
 
-    // If API key validation failed with an error, reject the request
-    if (apiKeyValidation.error) {
-      logger.warn(
-        { siteId: validatedPayload.site_id, error: apiKeyValidation.error },
-        "Request rejected - API key validation failed"
-      );
-      return reply.status(403).send({
+// Backdates an event by how long it waited in the browser queue, measured on the browser's own clock so
+// clock skew between browser and server doesn't matter
+export function getQueuedEventTimestamp(now: number, sentAt?: number, queuedAt?: unknown): string {
+  if (!sentAt || typeof queuedAt !== "number" || !Number.isFinite(queuedAt)) {
+    return new Date(now).toISOString();
+  }
+  const waited = Math.min(Math.max(sentAt - queuedAt, 0), MAX_QUEUED_EVENT_AGE_MS);
+  return new Date(now - waited).toISOString();
+}
+
+// Runs a validated event through authentication, filtering and the ingestion queue
+async function processTrackingPayload(
+  request: FastifyRequest,
+  validatedPayload: ValidatedTrackingPayload,
+  timestamp?: string
+): Promise<TrackResult> {
+  // First check if API key is provided and valid
+  const apiKeyValidation = await validateApiKey(validatedPayload.site_id, validatedPayload.api_key);
+
+  // If API key validation failed with an error, reject the request
+  if (apiKeyValidation.error) {
+    logger.warn(
+      { siteId: validatedPayload.site_id, error: apiKeyValidation.error },
+      "Request rejected - API key validation failed"
+    );
+    return {
+      status: 403,
+      body: {
         success: false,
         error: apiKeyValidation.error,
-      });
-    }
+      },
+    };
+  }
 
-    // Check rate limit for API key authenticated requests
-    if (apiKeyValidation.success && validatedPayload.api_key) {
-      if (!checkApiKeyRateLimit(validatedPayload.api_key)) {
-        logger.warn(
-          { apiKey: validatedPayload.api_key, siteId: validatedPayload.site_id },
-          "Rate limit exceeded for API key"
-        );
-        return reply.status(429).send({
+  // Check rate limit for API key authenticated requests
+  if (apiKeyValidation.success && validatedPayload.api_key) {
+    if (!checkApiKeyRateLimit(validatedPayload.api_key)) {
+      logger.warn(
+        { apiKey: validatedPayload.api_key, siteId: validatedPayload.site_id },
+        "Rate limit exceeded for API key"
+      );
+      return {
+        status: 429,
+        body: {
           success: false,
           error: "Rate limit exceeded. Maximum 20 requests per second per API key.",
-        });
-      }
+        },
+      };
     }
+  }
 
-    // Get the site configuration to get the numeric siteId
-    const siteConfiguration = await siteConfig.getConfig(validatedPayload.site_id);
-    if (!siteConfiguration) {
-      logger.warn({ siteId: validatedPayload.site_id }, "Site not found");
-      return reply.status(404).send({
+  // Get the site configuration to get the numeric siteId
+  const siteConfiguration = await siteConfig.getConfig(validatedPayload.site_id);
+  if (!siteConfiguration) {
+    logger.warn({ siteId: validatedPayload.site_id }, "Site not found");
+    return {
+      status: 404,
+      body: {
         success: false,
         error: "Site not found",
-      });
-    }
+      },
+    };
+  }
 
-    // Check if bot blocking is enabled for this site and if the request is from a bot
-    // Skip bot check for API key authenticated requests
-    if (!validatedPayload.api_key && siteConfiguration.blockBots) {
-      // Use custom user agent if provided, otherwise fall back to header
-      const userAgent = validatedPayload.user_agent || (request.headers["user-agent"] as string);
-      if (userAgent && isbot(userAgent)) {
-        logger.info({ siteId: validatedPayload.site_id, userAgent }, "Bot request filtered");
-        return reply.status(200).send({
+  // Check if bot blocking is enabled for this site and if the request is from a bot
+  // Skip bot check for API key authenticated requests
+  if (!validatedPayload.api_key && siteConfiguration.blockBots) {
+    // Use custom user agent if provided, otherwise fall back to header
+    const userAgent = validatedPayload.user_agent || (request.headers["user-agent"] as string);
+    if (userAgent && isbot(userAgent)) {
+      logger.info({ siteId: validatedPayload.site_id, userAgent }, "Bot request filtered");
+      return {
+        status: 200,
+        body: {
           success: true,
           message: "Event not tracked - bot detected",
-        });
-      }
+        },
+      };
     }
+  }
 
-    // Check if the site has exceeded its monthly limit (using numeric siteId)
-    if (usageService.isSiteOverLimit(siteConfiguration.siteId)) {
-      logger.info({ siteId: validatedPayload.site_id }, "Skipping event - site over monthly limit");
-      return reply.status(200).send("Site over monthly limit, event not tracked");
-    }
+  // Check if the site has exceeded its monthly limit (using numeric siteId)
+  if (usageService.isSiteOverLimit(siteConfiguration.siteId)) {
+    logger.info({ siteId: validatedPayload.site_id }, "Skipping event - site over monthly limit");
+    return { status: 200, body: "Site over monthly limit, event not tracked" };
+  }
 
-    // Check if the IP should be excluded from tracking
-    // Use custom IP if provided in payload, otherwise get from request
-    const requestIP = validatedPayload.ip_address || request.ip || "";
+  // Check if the IP should be excluded from tracking
+  // Use custom IP if provided in payload, otherwise get from request
+  const requestIP = validatedPayload.ip_address || request.ip || "";
 
-    if (siteConfiguration.excludedIPs && siteConfiguration.excludedIPs.length > 0) {
-      const isExcluded = await siteConfig.isIPExcluded(requestIP, validatedPayload.site_id);
-      if (isExcluded) {
-        logger.info({ siteId: validatedPayload.site_id, ip: requestIP }, "IP excluded from tracking");
-        return reply.status(200).send({
+  if (siteConfiguration.excludedIPs && siteConfiguration.excludedIPs.length > 0) {
+    const isExcluded = await siteConfig.isIPExcluded(requestIP, validatedPayload.site_id);
+    if (isExcluded) {
+      logger.info({ siteId: validatedPayload.site_id, ip: requestIP }, "IP excluded from tracking");
+      return {
+        status: 200,
+        body: {
           success: true,
           message: "Event not tracked - IP excluded",
-        });
-      }
+        },
+      };
     }
+  }
 
-    // Create base payload for the event using validated data
-    const payload = await createBasePayload(
-      request, // Pass request for IP/UA
-      validatedPayload.type,
-      validatedPayload, // Pass original validated payload
-      siteConfiguration
-    );
+  // Create base payload for the event using validated data
+  const payload = await createBasePayload(
+    request, // Pass request for IP/UA
+    validatedPayload.type,
+    validatedPayload, // Pass original validated payload
+    siteConfiguration,
+    timestamp
+  );
 
-    // Update session (use numeric siteId)
-    const { sessionId } = await sessionsService.updateSession({
-      userId: payload.userId,
-      siteId: siteConfiguration.siteId,
-    });
+  // Update session (use numeric siteId)
+  const { sessionId } = await sessionsService.updateSession({
+    userId: payload.userId,
+    siteId: siteConfiguration.siteId,
+  });
 
-    // Add to queue for processing (payload already has numeric siteId)
-    await pageviewQueue.add({
-      ...payload,
-      sessionId,
-    });
+  // Add to queue for processing (payload already has numeric siteId)
+  await pageviewQueue.add({
+    ...payload,
+    sessionId,
+  });
 
-    return reply.status(200).send({
+  return {
+    status: 200,
+    body: {
       success: true,
-    });
+    },
+  };
+}
+
+// Unified handler for all events (pageviews and custom events)
+export async function trackEvent(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    // Validate request body using Zod
+    const validationResult = trackingPayloadSchema.safeParse(request.body);
+
+    if (!validationResult.success) {
+      return reply.status(400).send({
+        success: false,
+        error: "Invalid payload",
+        details: validationResult.error.flatten(),
+      });
+    }
+
+    const result = await processTrackingPayload(request, validationResult.data);
+    return reply.status(result.status).send(result.body);
   } catch (error) {
     logger.error(error, "Error tracking event");
     if (error instanceof ZodError) {
@@ -326,3 +452,64 @@ export async function trackEvent(request: FastifyRequest, reply: FastifyReply) {
     });
   }
 }
+
+/**
+ * Accepts several events in one request, as sent by the tracking script's offline queue. Invalid events are
+ * dropped and counted as rejected; the indexes in `retry` failed on our side and are worth sending again.
+ */
+export async function trackEventBatch(request: FastifyRequest, reply: FastifyReply) {
+  let body = request.body;
+
+  // sendBeacon posts text/plain so that it doesn't need a CORS preflight
+  if (typeof body === "string") {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return reply.status(400).send({ success: false, error: "Invalid JSON" });
+    }
+  }
+
+  const batchResult = trackingBatchSchema.safeParse(body);
+  if (!batchResult.success) {
+    return reply.status(400).send({
+      success: false,
+      error: "Invalid payload",
+      details: batchResult.error.flatten(),
+    });
+  }
+
+  const { sent_at: sentAt, events } = batchResult.data;
+  const now = Date.now();
+  let accepted = 0;
+  let rejected = 0;
+  const retry: number[] = [];
+
+  for (const [index, event] of events.entries()) {
+    const { queued_at: queuedAt, ...rest } = event;
+    const validationResult = trackingPayloadSchema.safeParse(rest);
+    if (!validationResult.success) {
+      rejected++;
+      continue;
+    }
+
+    try {
+      const result = await processTrackingPayload(
+        request,
+        validationResult.data,
+        getQueuedEventTimestamp(now, sentAt, queuedAt)
+      );
+      if (result.status >= 500 || result.status === 429) {
+        retry.push(index);
+      } else if (result.status >= 400) {
+        rejected++;
+      } else {
+        accepted++;
+      }
+    } catch (error) {
+      logger.error(error, "Error tracking batched event");
+      retry.push(index);
+    }
+  }
+
+  return reply.status(200).send({ success: true, accepted, rejected, retry });
+}
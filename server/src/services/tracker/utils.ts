@@ -22,6 +22,8 @@ export type TotalTrackingPayload = TrackingPayload & {
   inp?: number;
   fcp?: number;
   ttfb?: number;
+  engaged_time_ms?: number;
+  scroll_depth?: number;
 };
 
 // Infer type from Zod schema
@@ -91,9 +93,17 @@ export function clearSelfReferrer(referrer: string, hostname: string): string {
 // Create base tracking payload from request
 export async function createBasePayload(
   request: FastifyRequest,
-  eventType: "pageview" | "custom_event" | "performance" | "error" | "outbound" = "pageview",
+  eventType:
+    | "pageview"
+    | "custom_event"
+    | "performance"
+    | "error"
+    | "outbound"
+    | "engagement"
+    | "frustration" = "pageview",
   validatedBody: ValidatedTrackingPayload,
-  siteConfiguration: SiteConfigData
+  siteConfiguration: SiteConfigData,
+  timestamp: string = new Date().toISOString()
 ): Promise<TotalTrackingPayload> {
   // Use custom user agent if provided, otherwise fall back to header
   const userAgent = validatedBody.user_agent || request.headers["user-agent"] || "";
@@ -118,7 +128,7 @@ export async function createBasePayload(
     referrer: validatedBody.referrer || "",
     type: eventType,
     ipAddress: ipAddress,
-    timestamp: new Date().toISOString(),
+    timestamp,
     ua: userAgentParser(userAgent),
     userId: userId,
     storeIp: siteConfiguration.trackIp,
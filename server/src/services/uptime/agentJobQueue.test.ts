@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AgentJobQueue } from "./agentJobQueue.js";
+import { AgentExecuteRequest, AgentExecuteResponse } from "./types.js";
+
+const job = (jobId: string): AgentExecuteRequest => ({
+  jobId,
+  monitorId: 1,
+  monitorType: "http",
+  config: { url: "https://example.com" },
+  validationRules: [],
+  warningRules: [],
+});
+
+const result = (jobId: string): AgentExecuteResponse => ({
+  jobId,
+  region: "eu-west",
+  status: "success",
+  responseTimeMs: 120,
+});
+
+describe("AgentJobQueue", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("hands queued jobs to the region's agent and resolves with its result", async () => {
+    const queue = new AgentJobQueue();
+    const dispatched = queue.dispatch("eu-west", job("a"), 60000);
+    queue.dispatch("eu-west", job("b"), 60000);
+
+    expect(await queue.claim("us-east", 10, 0)).toEqual([]);
+    expect((await queue.claim("eu-west", 1, 0)).map(j => j.jobId)).toEqual(["a"]);
+    expect(queue.getQueuedCount("eu-west")).toBe(1);
+
+    expect(queue.complete("us-east", result("a"))).toBe(false);
+    expect(queue.complete("eu-west", result("a"))).toBe(true);
+    await expect(dispatched).resolves.toMatchObject({ jobId: "a", status: "success" });
+  });
+
+  it("wakes a long-polling agent when a job arrives", async () => {
+    const queue = new AgentJobQueue();
+    const claimed = queue.claim("eu-west", 5, 20000);
+
+    queue.dispatch("eu-west", job("a"), 60000);
+
+    expect((await claimed).map(j => j.jobId)).toEqual(["a"]);
+    expect(queue.getQueuedCount("eu-west")).toBe(0);
+  });
+
+  it("returns nothing once the long poll times out or the agent disconnects", async () => {
+    const queue = new AgentJobQueue();
+    const timedOut = queue.claim("eu-west", 5, 20000);
+    vi.advanceTimersByTime(20000);
+    expect(await timedOut).toEqual([]);
+
+    const abort = new AbortController();
+    const disconnected = queue.claim("eu-west", 5, 20000, abort.signal);
+    abort.abort();
+    expect(await disconnected).toEqual([]);
+
+    // Neither waiter takes the next job
+    queue.dispatch("eu-west", job("a"), 60000);
+    expect(queue.getQueuedCount("eu-west")).toBe(1);
+  });
+
+  it("fails jobs that get no result in time", async () => {
+    const queue = new AgentJobQueue();
+    const dispatched = queue.dispatch("eu-west", job("a"), 60000);
+    vi.advanceTimersByTime(60000);
+
+    await expect(dispatched).rejects.toThrow("did not return a result within 60000ms");
+    expect(queue.getQueuedCount("eu-west")).toBe(0);
+    expect(queue.complete("eu-west", result("a"))).toBe(false);
+  });
+
+  it("fails every job of a removed region", async () => {
+    const queue = new AgentJobQueue();
+    const claimed = queue.dispatch("eu-west", job("a"), 60000);
+    const queued = queue.dispatch("eu-west", job("b"), 60000);
+    await queue.claim("eu-west", 1, 0);
+
+    queue.failRegion("eu-west", "Region eu-west was removed");
+
+    await expect(queued).rejects.toThrow("Region eu-west was removed");
+    await expect(claimed).rejects.toThrow("Region eu-west was removed");
+    expect(queue.getQueuedCount("eu-west")).toBe(0);
+  });
+});
@@ -0,0 +1,140 @@
+import { AgentExecuteRequest, AgentExecuteResponse } from "./types.js";
+
+interface PendingJob {
+  regionCode: string;
+  request: AgentExecuteRequest;
+  resolve: (response: AgentExecuteResponse) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface Waiter {
+  resolve: (jobs: AgentExecuteRequest[]) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Hands checks to pull-mode agents, which can't be reached inbound. The executor waits on dispatch() while
+ * the region's agent long-polls claim() and posts the result back through complete(). Jobs live in memory,
+ * so agents have to poll the server instance that runs the uptime service.
+ */
+export class AgentJobQueue {
+  // Unclaimed jobs per region, oldest first
+  private queued = new Map<string, PendingJob[]>();
+  // Every job waiting for a result, claimed or not
+  private pending = new Map<string, PendingJob>();
+  // Long-polling agents per region
+  private waiters = new Map<string, Waiter[]>();
+
+  dispatch(regionCode: string, request: AgentExecuteRequest, timeoutMs: number): Promise<AgentExecuteResponse> {
+    return new Promise((resolve, reject) => {
+      const job: PendingJob = {
+        regionCode,
+        request,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.pending.delete(request.jobId);
+          this.removeQueued(job);
+          reject(new Error(`Agent in region ${regionCode} did not return a result within ${timeoutMs}ms`));
+        }, timeoutMs),
+      };
+      this.pending.set(request.jobId, job);
+
+      const waiter = this.waiters.get(regionCode)?.shift();
+      if (waiter) {
+        clearTimeout(waiter.timer);
+        waiter.resolve([request]);
+        return;
+      }
+
+      const queue = this.queued.get(regionCode) ?? [];
+      queue.push(job);
+      this.queued.set(regionCode, queue);
+    });
+  }
+
+  /**
+   * Returns up to `max` jobs for a region, waiting up to `waitMs` for one to arrive if none are queued.
+   */
+  claim(regionCode: string, max: number, waitMs: number, signal?: AbortSignal): Promise<AgentExecuteRequest[]> {
+    const queue = this.queued.get(regionCode) ?? [];
+
+    if (queue.length > 0 || waitMs <= 0 || max <= 0) {
+      return Promise.resolve(queue.splice(0, Math.max(max, 0)).map(job => job.request));
+    }
+
+    return new Promise(resolve => {
+      const waiter: Waiter = {
+        resolve,
+        timer: setTimeout(() => {
+          this.removeWaiter(regionCode, waiter);
+          resolve([]);
+        }, waitMs),
+      };
+
+      const waiters = this.waiters.get(regionCode) ?? [];
+      waiters.push(waiter);
+      this.waiters.set(regionCode, waiters);
+
+      // A disconnected agent mustn't be handed jobs nobody will run
+      signal?.addEventListener("abort", () => {
+        clearTimeout(waiter.timer);
+        this.removeWaiter(regionCode, waiter);
+        resolve([]);
+      });
+    });
+  }
+
+  /**
+   * Resolves a dispatched job. Returns false for unknown or timed out jobs and for jobs of another region.
+   */
+  complete(regionCode: string, response: AgentExecuteResponse): boolean {
+    const job = this.pending.get(response.jobId);
+    if (!job || job.regionCode !== regionCode) {
+      return false;
+    }
+
+    clearTimeout(job.timer);
+    this.pending.delete(response.jobId);
+    this.removeQueued(job);
+    job.resolve(response);
+    return true;
+  }
+
+  /**
+   * Fails every job of a region, e.g. once it's disabled or removed.
+   */
+  failRegion(regionCode: string, reason: string): void {
+    for (const job of [...this.pending.values()]) {
+      if (job.regionCode === regionCode) {
+        clearTimeout(job.timer);
+        this.pending.delete(job.request.jobId);
+        job.reject(new Error(reason));
+      }
+    }
+    this.queued.delete(regionCode);
+  }
+
+  getQueuedCount(regionCode: string): number {
+    return this.queued.get(regionCode)?.length ?? 0;
+  }
+
+  private removeQueued(job: PendingJob): void {
+    const queue = this.queued.get(job.regionCode);
+    const index = queue?.indexOf(job) ?? -1;
+    if (queue && index !== -1) {
+      queue.splice(index, 1);
+    }
+  }
+
+  private removeWaiter(regionCode: string, waiter: Waiter): void {
+    const waiters = this.waiters.get(regionCode);
+    const index = waiters?.indexOf(waiter) ?? -1;
+    if (waiters && index !== -1) {
+      waiters.splice(index, 1);
+    }
+  }
+}
+
+export const agentJobQueue = new AgentJobQueue();
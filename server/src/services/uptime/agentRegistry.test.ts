@@ -0,0 +1,62 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import {
+  generateAgentToken,
+  generateEnrollmentToken,
+  getBearerToken,
+  getHeartbeatHealth,
+  hashAgentSecret,
+  isEnrollmentTokenUsable,
+  normalizeRegionCode,
+} from "./agentRegistry.js";
+
+const now = DateTime.fromISO("2024-03-10T12:00:00Z", { zone: "utc" });
+
+describe("agent tokens", () => {
+  it("only keeps a hash of the token", () => {
+    const enrollment = generateEnrollmentToken();
+    const agent = generateAgentToken();
+
+    expect(enrollment.token).toMatch(/^rbe_[0-9a-f]{48}$/);
+    expect(agent.token).toMatch(/^rba_[0-9a-f]{48}$/);
+    expect(agent.tokenHash).toBe(hashAgentSecret(agent.token));
+    expect(agent.tokenHash).not.toContain(agent.token);
+  });
+
+  it("reads bearer tokens", () => {
+    expect(getBearerToken("Bearer rba_123")).toBe("rba_123");
+    expect(getBearerToken("bearer rba_123")).toBe("rba_123");
+    expect(getBearerToken("Basic abc")).toBeNull();
+    expect(getBearerToken(undefined)).toBeNull();
+  });
+});
+
+describe("isEnrollmentTokenUsable", () => {
+  it("accepts unused tokens until they expire", () => {
+    expect(isEnrollmentTokenUsable({ expiresAt: "2024-03-10 12:00:01", usedAt: null }, now)).toBe(true);
+    expect(isEnrollmentTokenUsable({ expiresAt: "2024-03-10 12:00:00", usedAt: null }, now)).toBe(false);
+    expect(isEnrollmentTokenUsable({ expiresAt: "2024-03-11T12:00:00.000Z", usedAt: "2024-03-10 11:00:00" }, now)).toBe(
+      false
+    );
+  });
+});
+
+describe("getHeartbeatHealth", () => {
+  it("leaves push agents to the /health poll", () => {
+    expect(getHeartbeatHealth({ connectionMode: "push", lastHeartbeatAt: null }, now)).toBeNull();
+  });
+
+  it("marks pull agents unhealthy after three missed heartbeats", () => {
+    expect(getHeartbeatHealth({ connectionMode: "pull", lastHeartbeatAt: null }, now)).toBe(false);
+    expect(getHeartbeatHealth({ connectionMode: "pull", lastHeartbeatAt: "2024-03-10 11:58:30" }, now)).toBe(true);
+    expect(getHeartbeatHealth({ connectionMode: "pull", lastHeartbeatAt: "2024-03-10 11:58:29" }, now)).toBe(false);
+  });
+});
+
+describe("normalizeRegionCode", () => {
+  it("keeps lowercase letters, digits and dashes", () => {
+    expect(normalizeRegionCode(" EU West 2 ")).toBe("eu-west-2");
+    expect(normalizeRegionCode("ap_south/1")).toBe("ap-south-1");
+    expect(normalizeRegionCode("--")).toBe("");
+  });
+});
@@ -0,0 +1,76 @@
+import crypto from "crypto";
+import { DateTime } from "luxon";
+
+const ENROLLMENT_TOKEN_PREFIX = "rbe_";
+const AGENT_TOKEN_PREFIX = "rba_";
+
+export const AGENT_HEARTBEAT_INTERVAL_MS = 30_000;
+// Missing this many heartbeats in a row marks the region unhealthy
+const MISSED_HEARTBEATS_BEFORE_UNHEALTHY = 3;
+
+export type AgentConnectionMode = "push" | "pull";
+
+export interface AgentHeartbeatState {
+  connectionMode: string;
+  lastHeartbeatAt: string | null;
+}
+
+export function generateEnrollmentToken(): { token: string; tokenHash: string } {
+  const token = `${ENROLLMENT_TOKEN_PREFIX}${crypto.randomBytes(24).toString("hex")}`;
+  return { token, tokenHash: hashAgentSecret(token) };
+}
+
+export function generateAgentToken(): { token: string; tokenHash: string } {
+  const token = `${AGENT_TOKEN_PREFIX}${crypto.randomBytes(24).toString("hex")}`;
+  return { token, tokenHash: hashAgentSecret(token) };
+}
+
+export function hashAgentSecret(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+export function getBearerToken(authorization: string | undefined): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// Postgres hands timestamps back as "YYYY-MM-DD HH:mm:ss", the API takes ISO strings; both are UTC
+function parseTimestamp(value: string): DateTime {
+  return DateTime.fromISO(value.replace(" ", "T"), { zone: "utc" });
+}
+
+/**
+ * An enrollment token can be used once, before it expires.
+ */
+export function isEnrollmentTokenUsable(
+  token: { expiresAt: string; usedAt: string | null },
+  now: DateTime = DateTime.utc()
+): boolean {
+  return token.usedAt === null && parseTimestamp(token.expiresAt) > now;
+}
+
+/**
+ * Pull agents can't be reached for /health, so their heartbeats decide whether the region is healthy.
+ * Returns null for push agents, which keep being polled.
+ */
+export function getHeartbeatHealth(region: AgentHeartbeatState, now: DateTime = DateTime.utc()): boolean | null {
+  if (region.connectionMode !== "pull") {
+    return null;
+  }
+  if (!region.lastHeartbeatAt) {
+    return false;
+  }
+  const silentMs = now.diff(parseTimestamp(region.lastHeartbeatAt)).as("milliseconds");
+  return silentMs <= AGENT_HEARTBEAT_INTERVAL_MS * MISSED_HEARTBEATS_BEFORE_UNHEALTHY;
+}
+
+/**
+ * Region codes become part of job ids and metric labels, so they're kept to lowercase letters, digits and dashes.
+ */
+export function normalizeRegionCode(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
@@ -0,0 +1,139 @@
+import { Resolver } from "dns/promises";
+import { performance } from "perf_hooks";
+import { DnsCheckResult } from "../types.js";
+
+export type DnsRecordType = "A" | "AAAA" | "CNAME" | "MX" | "TXT" | "NS" | "SOA";
+
+interface DnsCheckOptions {
+  hostname: string;
+  recordType: DnsRecordType;
+  expectedValue?: string;
+  resolver?: string;
+  timeoutMs?: number;
+}
+
+async function resolveRecords(resolver: Resolver, hostname: string, recordType: DnsRecordType): Promise<string[]> {
+  switch (recordType) {
+    case "A":
+      return resolver.resolve4(hostname);
+    case "AAAA":
+      return resolver.resolve6(hostname);
+    case "CNAME":
+      return resolver.resolveCname(hostname);
+    case "NS":
+      return resolver.resolveNs(hostname);
+    case "MX":
+      return (await resolver.resolveMx(hostname))
+        .sort((a, b) => a.priority - b.priority)
+        .map(record => `${record.priority} ${record.exchange}`);
+    case "TXT":
+      // Long TXT records come back split into 255 byte chunks
+      return (await resolver.resolveTxt(hostname)).map(chunks => chunks.join(""));
+    case "SOA": {
+      const soa = await resolver.resolveSoa(hostname);
+      return [`${soa.nsname} ${soa.hostmaster} ${soa.serial}`];
+    }
+  }
+}
+
+const normalizeName = (value: string) => value.trim().toLowerCase().replace(/\.$/, "");
+
+/**
+ * Whether a formatted answer matches the expected value. Names are compared case-insensitively without the
+ * trailing dot, MX answers also match on the exchange alone and SOA answers on the primary nameserver.
+ */
+export function dnsAnswerMatches(recordType: DnsRecordType, answer: string, expectedValue: string): boolean {
+  if (recordType === "TXT") {
+    return answer === expectedValue.trim();
+  }
+
+  const expected = normalizeName(expectedValue);
+  if (normalizeName(answer) === expected) {
+    return true;
+  }
+  if (recordType === "MX") {
+    return normalizeName(answer.split(" ")[1] ?? "") === expected;
+  }
+  if (recordType === "SOA") {
+    return normalizeName(answer.split(" ")[0]) === expected;
+  }
+  return false;
+}
+
+export async function performDnsCheck(options: DnsCheckOptions): Promise<DnsCheckResult> {
+  const startTime = performance.now();
+  const timeout = options.timeoutMs || 10000;
+
+  const resolver = new Resolver({ timeout, tries: 1 });
+  if (options.resolver) {
+    resolver.setServers([options.resolver]);
+  }
+
+  try {
+    const answers = await resolveRecords(resolver, options.hostname, options.recordType);
+    const responseTimeMs = Math.round(performance.now() - startTime);
+
+    if (answers.length === 0) {
+      return {
+        status: "failure",
+        responseTimeMs,
+        answers,
+        validationErrors: [],
+        error: {
+          message: `No ${options.recordType} records found for ${options.hostname}`,
+          type: "dns_no_records",
+        },
+      };
+    }
+
+    if (
+      options.expectedValue &&
+      !answers.some(answer => dnsAnswerMatches(options.recordType, answer, options.expectedValue!))
+    ) {
+      return {
+        status: "failure",
+        responseTimeMs,
+        answers,
+        validationErrors: [
+          `Expected ${options.recordType} record "${options.expectedValue}", got ${answers.join(", ")}`,
+        ],
+      };
+    }
+
+    return {
+      status: "success",
+      responseTimeMs,
+      answers,
+      validationErrors: [],
+    };
+  } catch (error: any) {
+    const responseTimeMs = Math.round(performance.now() - startTime);
+
+    let errorType = "dns_failure";
+    let errorMessage = error.message || "DNS lookup failed";
+
+    if (error.code === "ENOTFOUND" || error.code === "ENODATA") {
+      errorType = "dns_no_records";
+      errorMessage = `No ${options.recordType} records found for ${options.hostname}`;
+    } else if (error.code === "ETIMEOUT") {
+      errorType = "dns_timeout";
+      errorMessage = `DNS query timed out after ${timeout}ms`;
+    } else if (error.code === "ESERVFAIL" || error.code === "EREFUSED") {
+      errorType = "dns_server_error";
+      errorMessage = `Nameserver returned ${error.code === "ESERVFAIL" ? "SERVFAIL" : "REFUSED"}`;
+    }
+
+    return {
+      status: errorType === "dns_timeout" ? "timeout" : "failure",
+      responseTimeMs,
+      answers: [],
+      validationErrors: [],
+      error: {
+        message: errorMessage,
+        type: errorType,
+      },
+    };
+  } finally {
+    resolver.cancel();
+  }
+}
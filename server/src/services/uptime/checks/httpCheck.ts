@@ -1,7 +1,8 @@
-import { request } from "undici";
+import { getGlobalDispatcher, interceptors, request } from "undici";
 import { performance } from "perf_hooks";
 import dns from "dns/promises";
 import { HttpCheckResult } from "../types.js";
+import { performTlsCheck } from "./tlsCheck.js";
 
 interface HttpCheckOptions {
   url: string;
@@ -22,8 +23,14 @@ interface HttpCheckOptions {
   timeoutMs?: number;
   ipVersion?: "any" | "ipv4" | "ipv6";
   userAgent?: string;
+  // Keep the decoded body on the result, e.g. for extracting values in multi-step checks
+  captureBody?: boolean;
+  // Look up the certificate's expiry for https URLs, for tls_expiry_days rules
+  checkCertificate?: boolean;
 }
 
+const MAX_REDIRECTIONS = 5;
+
 export async function performHttpCheck(options: HttpCheckOptions): Promise<HttpCheckResult> {
   const startTime = performance.now();
   const timing = {
@@ -93,7 +100,9 @@ export async function performHttpCheck(options: HttpCheckOptions): Promise<HttpC
       body: options.body,
       bodyTimeout: options.timeoutMs || 30000,
       headersTimeout: options.timeoutMs || 30000,
-      maxRedirections: options.followRedirects !== false ? 5 : 0,
+      ...(options.followRedirects !== false && {
+        dispatcher: getGlobalDispatcher().compose(interceptors.redirect({ maxRedirections: MAX_REDIRECTIONS })),
+      }),
     });
 
     // Calculate timings
@@ -120,6 +129,21 @@ export async function performHttpCheck(options: HttpCheckOptions): Promise<HttpC
       responseHeaders[key] = Array.isArray(value) ? value.join(", ") : String(value);
     }
 
+    // The redirect history lists every URL requested, including the final one
+    const history = (response.context as { history?: URL[] } | undefined)?.history;
+    const redirectCount = history ? Math.max(history.length - 1, 0) : 0;
+
+    let tlsDaysUntilExpiry: number | undefined;
+    if (options.checkCertificate && url.protocol === "https:") {
+      const certificate = await performTlsCheck({
+        host: url.hostname,
+        port: url.port ? parseInt(url.port, 10) : 443,
+        expiryThresholdDays: 0,
+        timeoutMs: options.timeoutMs,
+      });
+      tlsDaysUntilExpiry = certificate.daysUntilExpiry;
+    }
+
     return {
       status: "success",
       statusCode: response.statusCode,
@@ -127,7 +151,10 @@ export async function performHttpCheck(options: HttpCheckOptions): Promise<HttpC
       timing,
       headers: responseHeaders,
       bodySizeBytes,
+      redirectCount,
+      tlsDaysUntilExpiry,
       validationErrors: [],
+      ...(options.captureBody && { responseBody: Buffer.from(bodyBuffer).toString("utf8") }),
     };
   } catch (error: any) {
     const responseTimeMs = Math.round(performance.now() - startTime);
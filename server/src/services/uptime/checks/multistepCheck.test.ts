@@ -0,0 +1,149 @@
+import http from "http";
+import net from "net";
+import { afterEach, describe, expect, it } from "vitest";
+import { interpolate, performMultistepCheck } from "./multistepCheck.js";
+
+let server: http.Server | null = null;
+
+// Minimal API: POST /login hands out a token that GET /me requires, /status moved to /health
+async function startApiStub(): Promise<string> {
+  server = http.createServer((request, response) => {
+    if (request.method === "POST" && request.url === "/login") {
+      response.setHeader("X-Request-Id", "req-1");
+      response.setHeader("Content-Type", "application/json");
+      response.end(JSON.stringify({ data: { token: "secret-token" } }));
+    } else if (request.url === "/status") {
+      response.writeHead(301, { Location: "/health" });
+      response.end();
+    } else if (request.url === "/health") {
+      response.end(JSON.stringify({ status: "ok", checks: ["db", "cache"] }));
+    } else if (request.url?.startsWith("/me") && request.headers.authorization === "Bearer secret-token") {
+      response.end(JSON.stringify({ id: 42 }));
+    } else {
+      response.statusCode = 401;
+      response.end("Unauthorized");
+    }
+  });
+  await new Promise<void>(resolve => server!.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server!.address() as net.AddressInfo).port}`;
+}
+
+afterEach(async () => {
+  if (server) {
+    await new Promise(resolve => server!.close(resolve));
+  }
+  server = null;
+});
+
+describe("interpolate", () => {
+  it("replaces known variables and reports unknown ones", () => {
+    expect(interpolate("Bearer {{ token }} {{id}}", { token: "abc" })).toEqual({
+      value: "Bearer abc {{id}}",
+      missing: ["id"],
+    });
+  });
+});
+
+describe("performMultistepCheck", () => {
+  it("passes extracted values to later steps", async () => {
+    const baseUrl = await startApiStub();
+
+    const result = await performMultistepCheck({
+      steps: [
+        {
+          name: "Log in",
+          url: `${baseUrl}/login`,
+          method: "POST",
+          extract: [
+            { name: "token", source: "json", expression: "$.data.token" },
+            { name: "requestId", source: "header", expression: "x-request-id" },
+          ],
+        },
+        {
+          name: "Get profile",
+          url: `${baseUrl}/me?request={{requestId}}`,
+          method: "GET",
+          headers: { Authorization: "Bearer {{token}}" },
+          validationRules: [{ type: "status_code", operator: "equals", value: 200 }],
+          extract: [{ name: "userId", source: "regex", expression: '"id":(\\d+)' }],
+        },
+      ],
+    });
+
+    expect(result.status).toBe("success");
+    expect(result.steps.map(step => [step.name, step.statusCode])).toEqual([
+      ["Log in", 200],
+      ["Get profile", 200],
+    ]);
+    expect(result.responseTimeMs).toBe(result.steps[0].responseTimeMs + result.steps[1].responseTimeMs);
+  });
+
+  it("stops at the first failing step and reports it", async () => {
+    const baseUrl = await startApiStub();
+
+    const result = await performMultistepCheck({
+      steps: [
+        {
+          name: "Get profile",
+          url: `${baseUrl}/me`,
+          method: "GET",
+          validationRules: [{ type: "status_code", operator: "equals", value: 200 }],
+        },
+        { name: "Never runs", url: `${baseUrl}/login`, method: "POST" },
+      ],
+    });
+
+    expect(result.status).toBe("failure");
+    expect(result.steps).toHaveLength(1);
+    expect(result.statusCode).toBe(401);
+    expect(result.validationErrors).toEqual(["Step 1 (Get profile): Status code 401 does not equal 200"]);
+  });
+
+  it("fails when a value can't be extracted", async () => {
+    const baseUrl = await startApiStub();
+
+    const result = await performMultistepCheck({
+      steps: [
+        {
+          name: "Log in",
+          url: `${baseUrl}/login`,
+          method: "POST",
+          extract: [{ name: "token", source: "json", expression: "$.token" }],
+        },
+        { name: "Get profile", url: `${baseUrl}/me`, method: "GET", headers: { Authorization: "Bearer {{token}}" } },
+      ],
+    });
+
+    expect(result.status).toBe("failure");
+    expect(result.steps).toHaveLength(1);
+    expect(result.error?.type).toBe("extraction_failed");
+  });
+
+  it("follows redirects and applies JSON and redirect rules to the final response", async () => {
+    const baseUrl = await startApiStub();
+
+    const result = await performMultistepCheck({
+      steps: [
+        {
+          name: "Health",
+          url: `${baseUrl}/status`,
+          method: "GET",
+          validationRules: [
+            { type: "redirect_count", operator: "equals", value: 1 },
+            {
+              type: "all_of",
+              rules: [
+                { type: "json_path", path: "$.status", operator: "equals", value: "ok" },
+                { type: "json_path", path: "$.checks", operator: "length_greater_than", value: 2 },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(result.status).toBe("failure");
+    expect(result.statusCode).toBe(200);
+    expect(result.validationErrors).toEqual(["Step 1 (Health): Length of $.checks 2 is not greater than 2"]);
+  });
+});
@@ -0,0 +1,188 @@
+import { evaluateJsonPath } from "@rybbit/shared";
+import { HttpCheckResult, MultistepCheckResult, MultistepStepResult, ValidationRule } from "../types.js";
+import { applyValidationRules, getValidationRequirements } from "../validationEngine.js";
+import { performHttpCheck } from "./httpCheck.js";
+
+interface Extraction {
+  name: string;
+  source: "json" | "header" | "regex";
+  expression: string;
+}
+
+interface MultistepStep {
+  name: string;
+  url: string;
+  method: "GET" | "POST" | "PUT" | "DELETE" | "HEAD" | "OPTIONS" | "PATCH";
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs?: number;
+  extract?: Extraction[];
+  validationRules?: ValidationRule[];
+}
+
+interface MultistepCheckOptions {
+  steps: MultistepStep[];
+  followRedirects?: boolean;
+  userAgent?: string;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Replaces `{{name}}` placeholders with extracted values. Unknown names are left in place and reported.
+ */
+export function interpolate(template: string, variables: Record<string, string>): { value: string; missing: string[] } {
+  const missing: string[] = [];
+  const value = template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (Object.prototype.hasOwnProperty.call(variables, name)) {
+      return variables[name];
+    }
+    missing.push(name);
+    return placeholder;
+  });
+  return { value, missing };
+}
+
+/**
+ * Pulls a value out of a step response. Returns undefined when nothing matches.
+ */
+export function extractValue(extraction: Extraction, result: HttpCheckResult): string | undefined {
+  switch (extraction.source) {
+    case "header": {
+      const key = Object.keys(result.headers).find(
+        header => header.toLowerCase() === extraction.expression.toLowerCase()
+      );
+      return key ? result.headers[key] : undefined;
+    }
+    case "regex": {
+      const match = new RegExp(extraction.expression).exec(result.responseBody ?? "");
+      if (!match) return undefined;
+      return match[1] ?? match[0];
+    }
+    case "json": {
+      let body: unknown;
+      try {
+        body = JSON.parse(result.responseBody ?? "");
+      } catch {
+        return undefined;
+      }
+      const value = evaluateJsonPath(body, extraction.expression);
+      if (value === undefined || value === null) return undefined;
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+    }
+  }
+}
+
+async function runStep(
+  step: MultistepStep,
+  options: MultistepCheckOptions,
+  variables: Record<string, string>
+): Promise<MultistepStepResult> {
+  const missing: string[] = [];
+  const resolve = (template: string) => {
+    const resolved = interpolate(template, variables);
+    missing.push(...resolved.missing);
+    return resolved.value;
+  };
+
+  const url = resolve(step.url);
+  const headers = Object.fromEntries(Object.entries(step.headers ?? {}).map(([key, value]) => [key, resolve(value)]));
+  const body = step.body !== undefined ? resolve(step.body) : undefined;
+
+  if (missing.length > 0) {
+    return {
+      name: step.name,
+      status: "failure",
+      responseTimeMs: 0,
+      timing: {},
+      validationErrors: [],
+      error: {
+        message: `No value extracted for ${[...new Set(missing)].map(name => `{{${name}}}`).join(", ")}`,
+        type: "missing_variable",
+      },
+    };
+  }
+
+  const result = await performHttpCheck({
+    url,
+    method: step.method,
+    headers,
+    body,
+    followRedirects: options.followRedirects !== false,
+    timeoutMs: step.timeoutMs,
+    userAgent: options.userAgent,
+    captureBody: true,
+    checkCertificate: getValidationRequirements(step.validationRules ?? []).certificate,
+  });
+
+  const stepResult: MultistepStepResult = {
+    name: step.name,
+    status: result.status,
+    statusCode: result.statusCode,
+    responseTimeMs: result.responseTimeMs,
+    timing: result.timing,
+    validationErrors: [],
+    error: result.error,
+  };
+
+  if (stepResult.status !== "success") {
+    return stepResult;
+  }
+
+  const validationErrors = applyValidationRules(result, step.validationRules ?? [], result.responseBody);
+  if (validationErrors.length > 0) {
+    return { ...stepResult, status: "failure", validationErrors };
+  }
+
+  for (const extraction of step.extract ?? []) {
+    let value: string | undefined;
+    try {
+      value = extractValue(extraction, result);
+    } catch {
+      // Invalid regex
+      value = undefined;
+    }
+
+    if (value === undefined) {
+      return {
+        ...stepResult,
+        status: "failure",
+        error: {
+          message: `Could not extract "${extraction.name}" using ${extraction.source} ${extraction.expression}`,
+          type: "extraction_failed",
+        },
+      };
+    }
+    variables[extraction.name] = value;
+  }
+
+  return stepResult;
+}
+
+export async function performMultistepCheck(options: MultistepCheckOptions): Promise<MultistepCheckResult> {
+  const variables: Record<string, string> = {};
+  const steps: MultistepStepResult[] = [];
+
+  for (const step of options.steps) {
+    const stepResult = await runStep(step, options, variables);
+    steps.push(stepResult);
+    // Later steps usually depend on this one, so there's no point running them
+    if (stepResult.status !== "success") {
+      break;
+    }
+  }
+
+  const failedStep = steps.find(step => step.status !== "success");
+  const prefix = failedStep ? `Step ${steps.length} (${failedStep.name})` : "";
+
+  return {
+    status: failedStep?.status ?? "success",
+    statusCode: steps[steps.length - 1]?.statusCode,
+    responseTimeMs: steps.reduce((total, step) => total + step.responseTimeMs, 0),
+    steps,
+    validationErrors: failedStep ? failedStep.validationErrors.map(error => `${prefix}: ${error}`) : [],
+    ...(failedStep?.error && {
+      error: { message: `${prefix}: ${failedStep.error.message}`, type: failedStep.error.type },
+    }),
+  };
+}
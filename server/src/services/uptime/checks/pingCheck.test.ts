@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { parsePingOutput } from "./pingCheck.js";
+
+describe("parsePingOutput", () => {
+  it("parses iputils output", () => {
+    const output = `PING example.com (93.184.216.34) 56(84) bytes of data.
+64 bytes from 93.184.216.34: icmp_seq=1 ttl=56 time=11.2 ms
+
+--- example.com ping statistics ---
+3 packets transmitted, 2 received, 33.3333% packet loss, time 2003ms
+rtt min/avg/max/mdev = 11.180/11.425/11.670/0.245 ms`;
+
+    expect(parsePingOutput(output)).toEqual({ transmitted: 3, received: 2, avgMs: 11.425 });
+  });
+
+  it("parses BusyBox output", () => {
+    const output = `--- 10.0.0.1 ping statistics ---
+3 packets transmitted, 3 packets received, 0% packet loss
+round-trip min/avg/max = 0.052/0.060/0.071 ms`;
+
+    expect(parsePingOutput(output)).toEqual({ transmitted: 3, received: 3, avgMs: 0.06 });
+  });
+
+  it("handles hosts that never answer", () => {
+    expect(parsePingOutput("3 packets transmitted, 0 received, 100% packet loss, time 2047ms")).toEqual({
+      transmitted: 3,
+      received: 0,
+      avgMs: undefined,
+    });
+    expect(parsePingOutput("ping: unknown host example.invalid")).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { execFile } from "child_process";
+import { performance } from "perf_hooks";
+import { PingCheckResult } from "../types.js";
+
+interface PingCheckOptions {
+  host: string;
+  packetCount?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Parses the summary of the system `ping` command. Handles the iputils, BSD and BusyBox formats.
+ */
+export function parsePingOutput(output: string): { transmitted: number; received: number; avgMs?: number } | null {
+  const packets = output.match(/(\d+) packets transmitted, (\d+) (?:packets )?received/);
+  if (!packets) {
+    return null;
+  }
+
+  // "rtt min/avg/max/mdev = 0.045/0.051/0.058/0.005 ms" or "round-trip min/avg/max = ..."
+  const rtt = output.match(/min\/avg\/max(?:\/\w+)? = [\d.]+\/([\d.]+)\//);
+
+  return {
+    transmitted: parseInt(packets[1], 10),
+    received: parseInt(packets[2], 10),
+    avgMs: rtt ? parseFloat(rtt[1]) : undefined,
+  };
+}
+
+// Raw ICMP sockets need root, so this shells out to the system ping binary like most monitoring tools
+export async function performPingCheck(options: PingCheckOptions): Promise<PingCheckResult> {
+  const startTime = performance.now();
+  const packetCount = options.packetCount || 3;
+  const timeout = options.timeoutMs || 10000;
+  const perPacketTimeoutSeconds = Math.max(1, Math.ceil(timeout / 1000 / packetCount));
+
+  if (options.host.startsWith("-")) {
+    return {
+      status: "failure",
+      responseTimeMs: 0,
+      validationErrors: [],
+      error: { message: `Invalid host ${options.host}`, type: "configuration_error" },
+    };
+  }
+
+  return new Promise<PingCheckResult>(resolve => {
+    execFile(
+      "ping",
+      ["-n", "-c", packetCount.toString(), "-W", perPacketTimeoutSeconds.toString(), options.host],
+      { timeout: timeout + 1000 },
+      (error, stdout, stderr) => {
+        const elapsedMs = Math.round(performance.now() - startTime);
+        const summary = parsePingOutput(stdout);
+
+        if (summary && summary.received > 0) {
+          const packetLossPercent = Math.round(((summary.transmitted - summary.received) / summary.transmitted) * 100);
+          resolve({
+            status: "success",
+            responseTimeMs: Math.round(summary.avgMs ?? elapsedMs),
+            packetLossPercent,
+            validationErrors: [],
+          });
+          return;
+        }
+
+        if (summary) {
+          resolve({
+            status: "failure",
+            responseTimeMs: elapsedMs,
+            packetLossPercent: 100,
+            validationErrors: [],
+            error: {
+              message: `No reply from ${options.host} (${summary.transmitted} packets sent)`,
+              type: "host_unreachable",
+            },
+          });
+          return;
+        }
+
+        const killed = (error as (Error & { killed?: boolean }) | null)?.killed;
+        resolve({
+          status: killed ? "timeout" : "failure",
+          responseTimeMs: elapsedMs,
+          validationErrors: [],
+          error: killed
+            ? { message: `Ping timed out after ${timeout}ms`, type: "timeout" }
+            : {
+                message: stderr.trim() || error?.message || `Ping to ${options.host} failed`,
+                type: /unknown host|not known|cannot resolve/i.test(stderr) ? "dns_failure" : "ping_error",
+              },
+        });
+      }
+    );
+  });
+}
@@ -0,0 +1,56 @@
+import net from "net";
+import { afterEach, describe, expect, it } from "vitest";
+import { performSmtpCheck } from "./smtpCheck.js";
+
+let server: net.Server | null = null;
+
+// Minimal SMTP server that answers each command with the given replies
+async function startSmtpStub(replies: { greeting: string; ehlo: string }): Promise<number> {
+  server = net.createServer(socket => {
+    socket.write(`${replies.greeting}\r\n`);
+    socket.on("data", data => {
+      const command = data.toString().trim().toUpperCase();
+      if (command.startsWith("EHLO")) socket.write(`${replies.ehlo}\r\n`);
+      if (command === "QUIT") socket.end("221 Bye\r\n");
+    });
+  });
+  await new Promise<void>(resolve => server!.listen(0, "127.0.0.1", resolve));
+  return (server!.address() as net.AddressInfo).port;
+}
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve));
+  server = null;
+});
+
+describe("performSmtpCheck", () => {
+  it("succeeds when the server greets and accepts EHLO", async () => {
+    const port = await startSmtpStub({
+      greeting: "220 mail.example.com ESMTP",
+      ehlo: "250-mail.example.com\r\n250-SIZE 10240000\r\n250 8BITMIME",
+    });
+
+    const result = await performSmtpCheck({ host: "127.0.0.1", port, timeoutMs: 2000 });
+
+    expect(result.status).toBe("success");
+    expect(result.banner).toBe("mail.example.com ESMTP");
+  });
+
+  it("fails when STARTTLS is required but not offered", async () => {
+    const port = await startSmtpStub({ greeting: "220 mail.example.com ESMTP", ehlo: "250 mail.example.com" });
+
+    const result = await performSmtpCheck({ host: "127.0.0.1", port, requireStartTls: true, timeoutMs: 2000 });
+
+    expect(result.status).toBe("failure");
+    expect(result.error?.type).toBe("smtp_starttls_unavailable");
+  });
+
+  it("fails when the server rejects the connection", async () => {
+    const port = await startSmtpStub({ greeting: "554 No SMTP service here", ehlo: "" });
+
+    const result = await performSmtpCheck({ host: "127.0.0.1", port, timeoutMs: 2000 });
+
+    expect(result.status).toBe("failure");
+    expect(result.error?.type).toBe("smtp_rejected");
+  });
+});
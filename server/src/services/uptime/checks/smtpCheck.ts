@@ -0,0 +1,225 @@
+import net from "net";
+import { performance } from "perf_hooks";
+import tls from "tls";
+import { SmtpCheckResult } from "../types.js";
+
+interface SmtpCheckOptions {
+  host: string;
+  port: number;
+  secure?: boolean;
+  requireStartTls?: boolean;
+  timeoutMs?: number;
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+class SmtpProtocolError extends Error {
+  constructor(
+    message: string,
+    public type: string
+  ) {
+    super(message);
+    this.name = "SmtpProtocolError";
+  }
+}
+
+/**
+ * Reads multi-line SMTP replies ("250-first", "250 last") from a socket, one reply per call.
+ */
+class SmtpReader {
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpResponse[] = [];
+  private waiting: { resolve: (reply: SmtpResponse) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    socket.on("data", (chunk: Buffer) => this.onData(chunk.toString("utf8")));
+    socket.on("error", error => this.fail(error));
+    socket.on("close", () => this.fail(new SmtpProtocolError("Connection closed by server", "connection_closed")));
+  }
+
+  next(): Promise<SmtpResponse> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private onData(data: string) {
+    this.buffer += data;
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\n")) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newline + 1);
+      this.lines.push(line);
+
+      // A space (or nothing) after the code marks the last line of a reply
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.push({ code: parseInt(line.slice(0, 3), 10), lines: this.lines.map(l => l.slice(4)) });
+        this.lines = [];
+      }
+    }
+  }
+
+  private push(reply: SmtpResponse) {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+}
+
+async function expectReply(reader: SmtpReader, expectedCode: number, step: string): Promise<SmtpResponse> {
+  const reply = await reader.next();
+  if (reply.code !== expectedCode) {
+    throw new SmtpProtocolError(
+      `Unexpected reply to ${step}: ${reply.code} ${reply.lines.join(" ")}`.trim(),
+      reply.code >= 500 ? "smtp_rejected" : "smtp_unexpected_reply"
+    );
+  }
+  return reply;
+}
+
+function openConnection(options: SmtpCheckOptions): { socket: net.Socket; connected: Promise<void> } {
+  const socket = options.secure
+    ? tls.connect({
+        host: options.host,
+        port: options.port,
+        servername: net.isIP(options.host) ? undefined : options.host,
+      })
+    : net.connect({ host: options.host, port: options.port });
+
+  const connected = new Promise<void>((resolve, reject) => {
+    socket.once(options.secure ? "secureConnect" : "connect", () => resolve());
+    socket.once("error", reject);
+  });
+
+  return { socket, connected };
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    socket.removeAllListeners("data");
+    socket.removeAllListeners("close");
+    const secureSocket = tls.connect({ socket, servername: net.isIP(host) ? undefined : host });
+    secureSocket.once("secureConnect", () => resolve(secureSocket));
+    secureSocket.once("error", reject);
+  });
+}
+
+async function runSmtpSession(socket: net.Socket, options: SmtpCheckOptions): Promise<string> {
+  let reader = new SmtpReader(socket);
+
+  const greeting = await expectReply(reader, 220, "connection");
+  socket.write("EHLO rybbit-monitor\r\n");
+  const ehlo = await expectReply(reader, 250, "EHLO");
+
+  const supportsStartTls = ehlo.lines.some(line => line.toUpperCase().startsWith("STARTTLS"));
+  if (options.requireStartTls && !options.secure) {
+    if (!supportsStartTls) {
+      throw new SmtpProtocolError("Server does not offer STARTTLS", "smtp_starttls_unavailable");
+    }
+
+    socket.write("STARTTLS\r\n");
+    await expectReply(reader, 220, "STARTTLS");
+
+    try {
+      socket = await upgradeToTls(socket, options.host);
+    } catch (error: any) {
+      throw new SmtpProtocolError(`STARTTLS handshake failed: ${error.message}`, "ssl_error");
+    }
+    reader = new SmtpReader(socket);
+    socket.write("EHLO rybbit-monitor\r\n");
+    await expectReply(reader, 250, "EHLO after STARTTLS");
+  }
+
+  socket.write("QUIT\r\n");
+  socket.end();
+
+  return greeting.lines.join(" ");
+}
+
+export async function performSmtpCheck(options: SmtpCheckOptions): Promise<SmtpCheckResult> {
+  const startTime = performance.now();
+  const timeout = options.timeoutMs || 30000;
+  let timeoutHandle: NodeJS.Timeout | undefined;
+
+  const timedOut = new Promise<"timeout">(resolve => {
+    timeoutHandle = setTimeout(() => resolve("timeout"), timeout);
+  });
+
+  const { socket, connected } = openConnection(options);
+  const session = connected.then(() => runSmtpSession(socket, options));
+  // Errors after a timeout are already reported as the timeout
+  session.catch(() => {});
+
+  try {
+    const outcome = await Promise.race([session, timedOut]);
+    const responseTimeMs = Math.round(performance.now() - startTime);
+
+    if (outcome === "timeout") {
+      return {
+        status: "timeout",
+        responseTimeMs,
+        validationErrors: [],
+        error: {
+          message: `SMTP check timed out after ${timeout}ms`,
+          type: "connection_timeout",
+        },
+      };
+    }
+
+    return {
+      status: "success",
+      responseTimeMs,
+      banner: outcome,
+      validationErrors: [],
+    };
+  } catch (error: any) {
+    const responseTimeMs = Math.round(performance.now() - startTime);
+
+    let errorType = error instanceof SmtpProtocolError ? error.type : "connection_error";
+    let errorMessage = error.message || "SMTP check failed";
+
+    if (error.code === "ECONNREFUSED") {
+      errorType = "connection_refused";
+      errorMessage = `Connection refused to ${options.host}:${options.port}`;
+    } else if (error.code === "ENOTFOUND") {
+      errorType = "dns_failure";
+      errorMessage = `Host ${options.host} not found`;
+    } else if (error.code?.startsWith?.("ERR_TLS") || error.code?.includes?.("CERT")) {
+      errorType = "ssl_error";
+    }
+
+    return {
+      status: "failure",
+      responseTimeMs,
+      validationErrors: [],
+      error: {
+        message: errorMessage,
+        type: errorType,
+      },
+    };
+  } finally {
+    clearTimeout(timeoutHandle);
+    socket.destroy();
+  }
+}
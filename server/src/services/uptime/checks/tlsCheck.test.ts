@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { evaluateCertificate } from "./tlsCheck.js";
+
+const now = new Date("2024-06-01T00:00:00Z");
+const inDays = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+describe("evaluateCertificate", () => {
+  it("passes trusted certificates outside the expiry threshold", () => {
+    expect(evaluateCertificate({ authorizationError: null, validTo: inDays(30) }, 14, now)).toEqual({
+      daysUntilExpiry: 30,
+      error: null,
+    });
+  });
+
+  it("fails certificates that expire within the threshold", () => {
+    const { daysUntilExpiry, error } = evaluateCertificate({ authorizationError: null, validTo: inDays(7) }, 14, now);
+
+    expect(daysUntilExpiry).toBe(7);
+    expect(error?.type).toBe("certificate_expiring");
+    expect(error?.message).toMatch(/expires in 7 days/);
+  });
+
+  it("reports expiry, hostname and chain errors", () => {
+    expect(evaluateCertificate({ authorizationError: null, validTo: inDays(-1) }, 14, now).error?.type).toBe(
+      "certificate_expired"
+    );
+    expect(
+      evaluateCertificate({ authorizationError: "ERR_TLS_CERT_ALTNAME_INVALID", validTo: inDays(90) }, 14, now).error
+        ?.type
+    ).toBe("certificate_hostname_mismatch");
+    expect(
+      evaluateCertificate({ authorizationError: "SELF_SIGNED_CERT_IN_CHAIN", validTo: inDays(90) }, 14, now).error?.type
+    ).toBe("certificate_chain_error");
+  });
+});
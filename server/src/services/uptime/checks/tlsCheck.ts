@@ -0,0 +1,157 @@
+import net from "net";
+import { performance } from "perf_hooks";
+import tls from "tls";
+import { TlsCheckResult } from "../types.js";
+
+interface TlsCheckOptions {
+  host: string;
+  port: number;
+  servername?: string;
+  expiryThresholdDays: number;
+  timeoutMs?: number;
+}
+
+interface CertificateDetails {
+  // Chain or hostname verification error from the handshake, e.g. "CERT_HAS_EXPIRED"
+  authorizationError: string | null;
+  validTo: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Turns the outcome of a handshake into a check error: chain and hostname problems first, then certificates
+ * that expire within the threshold. The error is null for a healthy certificate.
+ */
+export function evaluateCertificate(
+  certificate: CertificateDetails,
+  expiryThresholdDays: number,
+  now: Date = new Date()
+): { daysUntilExpiry: number; error: { message: string; type: string } | null } {
+  const daysUntilExpiry = Math.floor((certificate.validTo.getTime() - now.getTime()) / DAY_MS);
+  const { authorizationError } = certificate;
+
+  if (daysUntilExpiry < 0 || authorizationError === "CERT_HAS_EXPIRED") {
+    return {
+      daysUntilExpiry,
+      error: { message: `Certificate expired on ${certificate.validTo.toISOString()}`, type: "certificate_expired" },
+    };
+  }
+  if (authorizationError === "ERR_TLS_CERT_ALTNAME_INVALID") {
+    return {
+      daysUntilExpiry,
+      error: { message: "Certificate is not valid for this hostname", type: "certificate_hostname_mismatch" },
+    };
+  }
+  if (authorizationError) {
+    return {
+      daysUntilExpiry,
+      error: { message: `Certificate chain is not trusted: ${authorizationError}`, type: "certificate_chain_error" },
+    };
+  }
+  if (daysUntilExpiry < expiryThresholdDays) {
+    return {
+      daysUntilExpiry,
+      error: {
+        message: `Certificate expires in ${daysUntilExpiry} day${daysUntilExpiry === 1 ? "" : "s"} (alert threshold ${expiryThresholdDays} days)`,
+        type: "certificate_expiring",
+      },
+    };
+  }
+  return { daysUntilExpiry, error: null };
+}
+
+export async function performTlsCheck(options: TlsCheckOptions): Promise<TlsCheckResult> {
+  const startTime = performance.now();
+  const timeout = options.timeoutMs || 30000;
+  const servername = options.servername || (net.isIP(options.host) ? undefined : options.host);
+
+  return new Promise<TlsCheckResult>(resolve => {
+    // Verification is done by hand so an untrusted certificate is reported instead of aborting the handshake
+    const socket = tls.connect({
+      host: options.host,
+      port: options.port,
+      servername,
+      rejectUnauthorized: false,
+    });
+
+    socket.setTimeout(timeout);
+
+    socket.on("secureConnect", () => {
+      const responseTimeMs = Math.round(performance.now() - startTime);
+      const certificate = socket.getPeerCertificate();
+      const authorizationError = socket.authorizationError ? String(socket.authorizationError) : null;
+      socket.destroy();
+
+      if (!certificate || !certificate.valid_to) {
+        resolve({
+          status: "failure",
+          responseTimeMs,
+          validationErrors: [],
+          error: { message: "Server did not present a certificate", type: "ssl_error" },
+        });
+        return;
+      }
+
+      const validTo = new Date(certificate.valid_to);
+      const { daysUntilExpiry, error } = evaluateCertificate(
+        { authorizationError, validTo },
+        options.expiryThresholdDays
+      );
+
+      resolve({
+        status: error ? "failure" : "success",
+        responseTimeMs,
+        daysUntilExpiry,
+        validTo: validTo.toISOString(),
+        issuer: certificate.issuer?.O || certificate.issuer?.CN,
+        validationErrors: [],
+        ...(error && { error }),
+      });
+    });
+
+    socket.on("error", (error: any) => {
+      const responseTimeMs = Math.round(performance.now() - startTime);
+      socket.destroy();
+
+      let errorType = "ssl_error";
+      let errorMessage = error.message || "TLS handshake failed";
+
+      if (error.code === "ECONNREFUSED") {
+        errorType = "connection_refused";
+        errorMessage = `Connection refused to ${options.host}:${options.port}`;
+      } else if (error.code === "ENOTFOUND") {
+        errorType = "dns_failure";
+        errorMessage = `Host ${options.host} not found`;
+      } else if (error.code === "EHOSTUNREACH") {
+        errorType = "host_unreachable";
+        errorMessage = `Host ${options.host} is unreachable`;
+      }
+
+      resolve({
+        status: "failure",
+        responseTimeMs,
+        validationErrors: [],
+        error: {
+          message: errorMessage,
+          type: errorType,
+        },
+      });
+    });
+
+    socket.on("timeout", () => {
+      const responseTimeMs = Math.round(performance.now() - startTime);
+      socket.destroy();
+
+      resolve({
+        status: "timeout",
+        responseTimeMs,
+        validationErrors: [],
+        error: {
+          message: `TLS handshake timeout after ${timeout}ms`,
+          type: "connection_timeout",
+        },
+      });
+    });
+  });
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { getDegradedReason, getNextStatusCounters } from "./degradation.js";
+
+describe("getDegradedReason", () => {
+  it("is never degraded without a config", () => {
+    expect(getDegradedReason(null, { p95ResponseTimeMs: 5000, validationWarnings: ["slow"] })).toBeNull();
+  });
+
+  it("compares p95 response time to the threshold", () => {
+    const config = { responseTimeP95Ms: 800, responseTimeWindowMinutes: 30 };
+    expect(getDegradedReason(config, { p95ResponseTimeMs: 800 })).toBeNull();
+    expect(getDegradedReason(config, { p95ResponseTimeMs: null })).toBeNull();
+    expect(getDegradedReason(config, { p95ResponseTimeMs: 1234.4 })).toBe(
+      "p95 response time 1234ms is above 800ms over the last 30 minutes"
+    );
+  });
+
+  it("reports partial regional failures and warnings together", () => {
+    const config = {
+      partialRegionFailure: true,
+      warningRules: [{ type: "response_time" as const, operator: "less_than" as const, value: 500 }],
+    };
+    expect(getDegradedReason(config, { regions: { failed: 0, total: 3 }, validationWarnings: [] })).toBeNull();
+    expect(
+      getDegradedReason(config, {
+        regions: { failed: 1, total: 3 },
+        validationWarnings: ["Response time 700ms is not less than 500ms"],
+      })
+    ).toBe("1 of 3 regions failing; Response time 700ms is not less than 500ms");
+  });
+
+  it("ignores thresholds that aren't configured", () => {
+    expect(getDegradedReason({}, { regions: { failed: 1, total: 3 }, p95ResponseTimeMs: 9000 })).toBeNull();
+  });
+});
+
+describe("getNextStatusCounters", () => {
+  const start = { consecutiveFailures: 0, consecutiveSuccesses: 3, consecutiveDegraded: 0 };
+
+  it("counts degraded checks as successes", () => {
+    const once = getNextStatusCounters(start, "degraded", false);
+    expect(once).toEqual({ consecutiveFailures: 0, consecutiveSuccesses: 4, consecutiveDegraded: 1 });
+    expect(getNextStatusCounters(once, "degraded", false).consecutiveDegraded).toBe(2);
+    expect(getNextStatusCounters(once, "up", false).consecutiveDegraded).toBe(0);
+  });
+
+  it("resets everything on failure", () => {
+    const degraded = { consecutiveFailures: 0, consecutiveSuccesses: 4, consecutiveDegraded: 2 };
+    expect(getNextStatusCounters(degraded, "down", false)).toEqual({
+      consecutiveFailures: 1,
+      consecutiveSuccesses: 0,
+      consecutiveDegraded: 0,
+    });
+  });
+
+  it("doesn't count towards incidents during maintenance", () => {
+    expect(getNextStatusCounters({ ...start, consecutiveFailures: 1 }, "down", true).consecutiveFailures).toBe(0);
+    expect(getNextStatusCounters(start, "degraded", true).consecutiveDegraded).toBe(0);
+  });
+});
@@ -0,0 +1,73 @@
+import { uptimeMonitors } from "../../db/postgres/schema.js";
+
+export type DegradedConfig = NonNullable<(typeof uptimeMonitors.$inferSelect)["degradedConfig"]>;
+export type MonitorHealth = "up" | "degraded" | "down";
+
+export const DEFAULT_RESPONSE_TIME_WINDOW_MINUTES = 15;
+
+export interface DegradedSignals {
+  // p95 response time of successful checks over the configured window, null when there were none
+  p95ResponseTimeMs?: number | null;
+  validationWarnings?: string[];
+  // Global monitors only; the monitor is down when most regions fail
+  regions?: { failed: number; total: number };
+}
+
+export interface StatusCounters {
+  consecutiveFailures: number;
+  consecutiveSuccesses: number;
+  consecutiveDegraded: number;
+}
+
+/**
+ * Why a monitor that passed its check counts as degraded, or null if it doesn't.
+ */
+export function getDegradedReason(config: DegradedConfig | null, signals: DegradedSignals): string | null {
+  if (!config) {
+    return null;
+  }
+
+  const reasons: string[] = [];
+
+  const p95 = signals.p95ResponseTimeMs;
+  if (config.responseTimeP95Ms && p95 != null && p95 > config.responseTimeP95Ms) {
+    const windowMinutes = config.responseTimeWindowMinutes ?? DEFAULT_RESPONSE_TIME_WINDOW_MINUTES;
+    reasons.push(
+      `p95 response time ${Math.round(p95)}ms is above ${config.responseTimeP95Ms}ms over the last ${windowMinutes} minutes`
+    );
+  }
+
+  if (config.partialRegionFailure && signals.regions && signals.regions.failed > 0) {
+    reasons.push(`${signals.regions.failed} of ${signals.regions.total} regions failing`);
+  }
+
+  if (config.warningRules?.length && signals.validationWarnings?.length) {
+    reasons.push(...signals.validationWarnings);
+  }
+
+  return reasons.length > 0 ? reasons.join("; ") : null;
+}
+
+/**
+ * Advances the consecutive check counters. Degraded checks still count as successes so they resolve
+ * outages, and nothing counts towards opening an incident during maintenance.
+ */
+export function getNextStatusCounters(
+  previous: StatusCounters,
+  health: MonitorHealth,
+  inMaintenance: boolean
+): StatusCounters {
+  if (health === "down") {
+    return {
+      consecutiveFailures: inMaintenance ? 0 : previous.consecutiveFailures + 1,
+      consecutiveSuccesses: 0,
+      consecutiveDegraded: 0,
+    };
+  }
+
+  return {
+    consecutiveFailures: 0,
+    consecutiveSuccesses: previous.consecutiveSuccesses + 1,
+    consecutiveDegraded: health === "degraded" && !inMaintenance ? previous.consecutiveDegraded + 1 : 0,
+  };
+}
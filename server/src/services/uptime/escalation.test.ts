@@ -0,0 +1,113 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import {
+  createAcknowledgeToken,
+  EscalationPolicyRules,
+  getDueEscalation,
+  getNextEscalationAt,
+  getNotifiedChannelIds,
+  validateEscalationPolicy,
+  verifyAcknowledgeToken,
+} from "./escalation.js";
+
+const at = (iso: string) => DateTime.fromISO(iso, { zone: "utc" });
+
+// Notify A now, B after 15 minutes, C after 60; re-notify every 5 minutes
+const rules: EscalationPolicyRules = {
+  steps: [
+    { afterMinutes: 0, channelIds: [1] },
+    { afterMinutes: 15, channelIds: [2] },
+    { afterMinutes: 60, channelIds: [3, 1] },
+  ],
+  repeatIntervalMinutes: 5,
+};
+
+const opened = { startTime: "2024-03-10 02:00:00", escalationStep: 0, escalationNotifiedAt: "2024-03-10 02:00:00" };
+
+describe("getDueEscalation", () => {
+  it("re-notifies the current step once the repeat interval passes", () => {
+    expect(getDueEscalation(rules, opened, at("2024-03-10T02:04:59Z"))).toBeNull();
+    expect(getDueEscalation(rules, opened, at("2024-03-10T02:05:00Z"))).toEqual({
+      step: 0,
+      channelIds: [1],
+      repeat: true,
+    });
+  });
+
+  it("escalates to every step that became due since the last run", () => {
+    expect(getDueEscalation(rules, opened, at("2024-03-10T02:15:00Z"))).toEqual({
+      step: 1,
+      channelIds: [2],
+      repeat: false,
+    });
+    // A worker that was down for an hour catches up on both steps at once
+    expect(getDueEscalation(rules, opened, at("2024-03-10T03:10:00Z"))).toEqual({
+      step: 2,
+      channelIds: [2, 3, 1],
+      repeat: false,
+    });
+  });
+
+  it("stays quiet without a repeat interval between steps", () => {
+    const noRepeat = { ...rules, repeatIntervalMinutes: null };
+    expect(getDueEscalation(noRepeat, opened, at("2024-03-10T02:10:00Z"))).toBeNull();
+  });
+});
+
+describe("getNextEscalationAt", () => {
+  it("picks the earlier of the next step and the next repeat", () => {
+    expect(getNextEscalationAt(rules, opened)?.toISO()).toBe("2024-03-10T02:05:00.000Z");
+    expect(getNextEscalationAt({ ...rules, repeatIntervalMinutes: null }, opened)?.toISO()).toBe(
+      "2024-03-10T02:15:00.000Z"
+    );
+    expect(getNextEscalationAt({ ...rules, repeatIntervalMinutes: null }, { ...opened, escalationStep: 2 })).toBeNull();
+  });
+});
+
+describe("getNotifiedChannelIds", () => {
+  it("collects channels from every step reached", () => {
+    expect(getNotifiedChannelIds(rules, 0)).toEqual([1]);
+    expect(getNotifiedChannelIds(rules, 2)).toEqual([1, 2, 3]);
+  });
+});
+
+describe("validateEscalationPolicy", () => {
+  it("requires an immediate first step and increasing delays", () => {
+    expect(validateEscalationPolicy(rules)).toBeNull();
+    expect(validateEscalationPolicy({ ...rules, steps: [{ afterMinutes: 5, channelIds: [1] }] })).toMatch(
+      /immediately/
+    );
+    expect(
+      validateEscalationPolicy({
+        ...rules,
+        steps: [
+          { afterMinutes: 0, channelIds: [1] },
+          { afterMinutes: 0, channelIds: [2] },
+        ],
+      })
+    ).toMatch(/must come after/);
+    expect(validateEscalationPolicy({ ...rules, steps: [{ afterMinutes: 0, channelIds: [] }] })).toMatch(
+      /no notification/
+    );
+  });
+});
+
+describe("acknowledge tokens", () => {
+  const expiresAt = at("2024-03-11T02:00:00Z");
+
+  it("round-trips the incident id until the token expires", () => {
+    const token = createAcknowledgeToken(42, "secret", expiresAt);
+
+    expect(verifyAcknowledgeToken(token, "secret", at("2024-03-10T02:00:00Z"))).toBe(42);
+    expect(verifyAcknowledgeToken(token, "secret", at("2024-03-11T02:00:01Z"))).toBeNull();
+  });
+
+  it("rejects tampered tokens and other secrets", () => {
+    const token = createAcknowledgeToken(42, "secret", expiresAt);
+    const now = at("2024-03-10T02:00:00Z");
+
+    expect(verifyAcknowledgeToken(token.replace(/^42/, "43"), "secret", now)).toBeNull();
+    expect(verifyAcknowledgeToken(token, "other", now)).toBeNull();
+    expect(verifyAcknowledgeToken("garbage", "secret", now)).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import crypto from "crypto";
+import { DateTime } from "luxon";
+import { SECRET } from "../../lib/const.js";
+
+const ACKNOWLEDGE_LINK_TTL_DAYS = 7;
+
+export interface EscalationStep {
+  // Minutes after the incident opened before this step's channels are notified
+  afterMinutes: number;
+  channelIds: number[];
+}
+
+export interface EscalationPolicyRules {
+  steps: EscalationStep[];
+  // Re-notify the latest step's channels this often while the incident is unacknowledged
+  repeatIntervalMinutes: number | null;
+}
+
+export interface EscalationState {
+  startTime: string;
+  // Index of the last step that was notified
+  escalationStep: number;
+  escalationNotifiedAt: string | null;
+}
+
+// Postgres hands timestamps back as "YYYY-MM-DD HH:mm:ss", the API takes ISO strings; both are UTC
+function parseTimestamp(value: string): DateTime {
+  return DateTime.fromISO(value.replace(" ", "T"), { zone: "utc" });
+}
+
+/**
+ * Returns a validation error for a policy's rules, or null if they are valid.
+ */
+export function validateEscalationPolicy(rules: EscalationPolicyRules): string | null {
+  if (rules.steps.length === 0) {
+    return "A policy needs at least one step";
+  }
+  if (rules.steps[0].afterMinutes !== 0) {
+    return "The first step must notify immediately";
+  }
+  for (let i = 0; i < rules.steps.length; i++) {
+    if (rules.steps[i].channelIds.length === 0) {
+      return `Step ${i + 1} has no notification channels`;
+    }
+    if (i > 0 && rules.steps[i].afterMinutes <= rules.steps[i - 1].afterMinutes) {
+      return `Step ${i + 1} must come after step ${i}`;
+    }
+  }
+  if (rules.repeatIntervalMinutes !== null && rules.repeatIntervalMinutes < 1) {
+    return "Repeat interval must be at least one minute";
+  }
+  return null;
+}
+
+/**
+ * Works out who to notify for an unacknowledged incident at `now`: the channels of any steps that became
+ * due since the last notification, or the current step's channels again if the repeat interval has passed.
+ * Returns null when nothing is due.
+ */
+export function getDueEscalation(
+  rules: EscalationPolicyRules,
+  state: EscalationState,
+  now: DateTime = DateTime.utc()
+): { step: number; channelIds: number[]; repeat: boolean } | null {
+  const elapsedMinutes = now.diff(parseTimestamp(state.startTime), "minutes").minutes;
+
+  let reachedStep = state.escalationStep;
+  while (reachedStep + 1 < rules.steps.length && rules.steps[reachedStep + 1].afterMinutes <= elapsedMinutes) {
+    reachedStep++;
+  }
+
+  if (reachedStep > state.escalationStep) {
+    const channelIds = rules.steps.slice(state.escalationStep + 1, reachedStep + 1).flatMap(step => step.channelIds);
+    return { step: reachedStep, channelIds: [...new Set(channelIds)], repeat: false };
+  }
+
+  if (rules.repeatIntervalMinutes && state.escalationNotifiedAt) {
+    const repeatAt = parseTimestamp(state.escalationNotifiedAt).plus({ minutes: rules.repeatIntervalMinutes });
+    if (repeatAt <= now) {
+      return { step: state.escalationStep, channelIds: rules.steps[state.escalationStep].channelIds, repeat: true };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * When the next escalation or repeat is due, or null if the policy has nothing left to send.
+ */
+export function getNextEscalationAt(rules: EscalationPolicyRules, state: EscalationState): DateTime | null {
+  const candidates: DateTime[] = [];
+
+  const nextStep = rules.steps[state.escalationStep + 1];
+  if (nextStep) {
+    candidates.push(parseTimestamp(state.startTime).plus({ minutes: nextStep.afterMinutes }));
+  }
+  if (rules.repeatIntervalMinutes && state.escalationNotifiedAt) {
+    candidates.push(parseTimestamp(state.escalationNotifiedAt).plus({ minutes: rules.repeatIntervalMinutes }));
+  }
+
+  return DateTime.min(...candidates) ?? null;
+}
+
+/**
+ * Channels that heard about the incident, i.e. every step up to the current one. These get the recovery.
+ */
+export function getNotifiedChannelIds(rules: EscalationPolicyRules, escalationStep: number): number[] {
+  return [...new Set(rules.steps.slice(0, escalationStep + 1).flatMap(step => step.channelIds))];
+}
+
+// Acknowledge links in alerts are "<incidentId>.<expiresAtSeconds>.<signature>"
+const signAcknowledgement = (secret: string, payload: string) =>
+  crypto.createHmac("sha256", secret).update(`incident-ack:${payload}`).digest("base64url");
+
+export function createAcknowledgeToken(incidentId: number, secret: string, expiresAt: DateTime): string {
+  const payload = `${incidentId}.${Math.floor(expiresAt.toSeconds())}`;
+  return `${payload}.${signAcknowledgement(secret, payload)}`;
+}
+
+/**
+ * Returns the incident id from a valid, unexpired acknowledge token, otherwise null.
+ */
+export function verifyAcknowledgeToken(token: string, secret: string, now: DateTime = DateTime.utc()): number | null {
+  const [incidentId, expiresAt, signature] = token.split(".");
+  if (!incidentId || !expiresAt || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(signAcknowledgement(secret, `${incidentId}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  if (Number(expiresAt) < now.toSeconds()) {
+    return null;
+  }
+
+  const id = Number(incidentId);
+  return Number.isInteger(id) ? id : null;
+}
+
+/**
+ * Signed link that acknowledges the incident without logging in, or null when links can't be signed.
+ */
+export function getIncidentAcknowledgeUrl(incidentId: number): string | null {
+  if (!SECRET || !process.env.BASE_URL) {
+    return null;
+  }
+  const token = createAcknowledgeToken(incidentId, SECRET, DateTime.utc().plus({ days: ACKNOWLEDGE_LINK_TTL_DAYS }));
+  return `${process.env.BASE_URL}/api/uptime/incidents/acknowledge/${token}`;
+}
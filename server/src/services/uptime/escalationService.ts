@@ -0,0 +1,225 @@
+import { Job, Queue, Worker } from "bullmq";
+import { and, eq, isNotNull } from "drizzle-orm";
+import { DateTime } from "luxon";
+import { db } from "../../db/postgres/postgres.js";
+import { uptimeEscalationPolicies, uptimeIncidents, uptimeMonitors } from "../../db/postgres/schema.js";
+import { createServiceLogger } from "../../lib/logger/logger.js";
+import { getDueEscalation, getNextEscalationAt, getNotifiedChannelIds } from "./escalation.js";
+import { NotificationService } from "./notificationService.js";
+import { NotificationEventType } from "./notifications/types.js";
+
+type Monitor = typeof uptimeMonitors.$inferSelect;
+type Incident = typeof uptimeIncidents.$inferSelect;
+
+interface EscalationJob {
+  incidentId: number;
+}
+
+const QUEUE_NAME = "incident-escalations";
+
+/**
+ * Sends incident notifications, following the monitor's escalation policy when it has one. Pending
+ * escalations are delayed BullMQ jobs, so they survive restarts; each job re-reads the incident and
+ * stops once it has been acknowledged or resolved.
+ */
+export class EscalationService {
+  private queue: Queue<EscalationJob>;
+  private worker: Worker<EscalationJob> | null = null;
+  private connection: { host: string; port: number; password?: string };
+  private logger = createServiceLogger("escalation-service");
+
+  constructor(private notificationService: NotificationService) {
+    this.connection = {
+      host: process.env.REDIS_HOST || "localhost",
+      port: parseInt(process.env.REDIS_PORT || "6379", 10),
+      ...(process.env.REDIS_PASSWORD && { password: process.env.REDIS_PASSWORD }),
+    };
+
+    this.queue = new Queue<EscalationJob>(QUEUE_NAME, {
+      connection: this.connection,
+      defaultJobOptions: {
+        removeOnComplete: true,
+        removeOnFail: { count: 100, age: 86400 },
+      },
+    });
+  }
+
+  async start(): Promise<void> {
+    await this.queue.waitUntilReady();
+
+    this.worker = new Worker<EscalationJob>(
+      QUEUE_NAME,
+      async (job: Job<EscalationJob>) => {
+        await this.processEscalation(job.data.incidentId);
+      },
+      { connection: this.connection, concurrency: 5 }
+    );
+
+    this.worker.on("failed", (job, err) => {
+      this.logger.error(err as Error, `Escalation job ${job?.id} failed`);
+    });
+
+    await this.rescheduleActiveEscalations();
+    this.logger.info("Escalation service started");
+  }
+
+  async onIncidentOpened(monitor: Monitor, incident: Incident): Promise<void> {
+    // Policies page people about outages; degraded and SLO incidents notify their subscribed channels once
+    if (incident.kind !== "down") {
+      await this.notificationService.sendIncidentNotifications(
+        monitor,
+        incident,
+        incident.kind as NotificationEventType
+      );
+      return;
+    }
+
+    const policy = monitor.escalationPolicyId
+      ? await db.query.uptimeEscalationPolicies.findFirst({
+          where: eq(uptimeEscalationPolicies.id, monitor.escalationPolicyId),
+        })
+      : undefined;
+
+    if (!policy) {
+      await this.notificationService.sendIncidentNotifications(monitor, incident, "down");
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const [escalating] = await db
+      .update(uptimeIncidents)
+      .set({ escalationPolicyId: policy.id, escalationStep: 0, escalationNotifiedAt: now })
+      .where(eq(uptimeIncidents.id, incident.id))
+      .returning();
+
+    await this.notificationService.sendToChannels(policy.steps[0]?.channelIds ?? [], monitor, escalating, "down");
+    await this.scheduleNext(escalating, policy);
+  }
+
+  async onIncidentResolved(monitor: Monitor, incident: Incident): Promise<void> {
+    const policy =
+      incident.escalationPolicyId !== null && incident.escalationStep !== null
+        ? await db.query.uptimeEscalationPolicies.findFirst({
+            where: eq(uptimeEscalationPolicies.id, incident.escalationPolicyId),
+          })
+        : undefined;
+
+    // Without a policy (or if it was deleted mid-incident) recovery goes out like any other notification
+    if (!policy) {
+      await this.notificationService.sendIncidentNotifications(monitor, incident, "recovery");
+      return;
+    }
+
+    await this.notificationService.sendToChannels(
+      getNotifiedChannelIds(policy, incident.escalationStep!),
+      monitor,
+      incident,
+      "recovery"
+    );
+  }
+
+  private async processEscalation(incidentId: number): Promise<void> {
+    const incident = await db.query.uptimeIncidents.findFirst({
+      where: eq(uptimeIncidents.id, incidentId),
+    });
+
+    // Acknowledged or resolved incidents stop escalating
+    if (!incident || incident.status !== "active" || incident.escalationStep === null) {
+      return;
+    }
+
+    const [monitor, policy] = await Promise.all([
+      db.query.uptimeMonitors.findFirst({ where: eq(uptimeMonitors.id, incident.monitorId) }),
+      db.query.uptimeEscalationPolicies.findFirst({
+        where: eq(uptimeEscalationPolicies.id, incident.escalationPolicyId!),
+      }),
+    ]);
+
+    if (!monitor || !policy) {
+      return;
+    }
+
+    const due = getDueEscalation(policy, {
+      startTime: incident.startTime,
+      escalationStep: incident.escalationStep,
+      escalationNotifiedAt: incident.escalationNotifiedAt,
+    });
+
+    let current = incident;
+    if (due) {
+      const [updated] = await db
+        .update(uptimeIncidents)
+        .set({ escalationStep: due.step, escalationNotifiedAt: new Date().toISOString() })
+        // Guard against a concurrent acknowledgement between the read above and this write
+        .where(and(eq(uptimeIncidents.id, incident.id), eq(uptimeIncidents.status, "active")))
+        .returning();
+
+      if (!updated) {
+        return;
+      }
+
+      this.logger.info(
+        { incidentId, step: due.step, repeat: due.repeat, channelIds: due.channelIds },
+        "Escalating incident"
+      );
+      await this.notificationService.sendToChannels(due.channelIds, monitor, updated, "down");
+      current = updated;
+    }
+
+    await this.scheduleNext(current, policy);
+  }
+
+  private async scheduleNext(incident: Incident, policy: typeof uptimeEscalationPolicies.$inferSelect): Promise<void> {
+    const nextAt = getNextEscalationAt(policy, {
+      startTime: incident.startTime,
+      escalationStep: incident.escalationStep ?? 0,
+      escalationNotifiedAt: incident.escalationNotifiedAt,
+    });
+
+    if (!nextAt) {
+      return;
+    }
+
+    // The job id is unique per run time, so rescheduling after a restart doesn't queue duplicates
+    await this.queue.add(
+      `incident-${incident.id}`,
+      { incidentId: incident.id },
+      {
+        jobId: `incident-${incident.id}-${nextAt.toMillis()}`,
+        delay: Math.max(0, nextAt.diff(DateTime.utc()).toMillis()),
+      }
+    );
+  }
+
+  // Covers incidents whose delayed job was lost, e.g. if Redis was flushed while the server was down
+  private async rescheduleActiveEscalations(): Promise<void> {
+    try {
+      const incidents = await db
+        .select()
+        .from(uptimeIncidents)
+        .where(and(eq(uptimeIncidents.status, "active"), isNotNull(uptimeIncidents.escalationStep)));
+
+      for (const incident of incidents) {
+        const policy = await db.query.uptimeEscalationPolicies.findFirst({
+          where: eq(uptimeEscalationPolicies.id, incident.escalationPolicyId!),
+        });
+        if (policy) {
+          await this.scheduleNext(incident, policy);
+        }
+      }
+    } catch (error) {
+      this.logger.error(error, "Failed to reschedule active escalations");
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    try {
+      await Promise.race([
+        Promise.all([this.worker?.close(), this.queue.close()]),
+        new Promise((_, reject) => setTimeout(() => reject(new Error("Escalation queue close timeout")), 3000)),
+      ]);
+    } catch (error) {
+      this.logger.error(error, "Error shutting down escalation service");
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { evaluateJsonPath, parseJsonPath } from "@rybbit/shared";
+import { describe, expect, it } from "vitest";
+
+describe("parseJsonPath", () => {
+  it("parses dot, index and quoted segments", () => {
+    expect(parseJsonPath("$.data.items[0]['display name']")).toEqual(["data", "items", 0, "display name"]);
+    expect(parseJsonPath("$")).toEqual([]);
+  });
+
+  it("rejects unsupported syntax", () => {
+    expect(parseJsonPath("data.items")).toBeNull();
+    expect(parseJsonPath("$.items[*]")).toBeNull();
+    expect(parseJsonPath("$..id")).toBeNull();
+  });
+});
+
+describe("evaluateJsonPath", () => {
+  const document = { data: { token: "abc", items: [{ id: 1 }, { id: 2 }], empty: null } };
+
+  it("resolves nested values", () => {
+    expect(evaluateJsonPath(document, "$.data.token")).toBe("abc");
+    expect(evaluateJsonPath(document, "$.data.items[1].id")).toBe(2);
+    expect(evaluateJsonPath(document, "$.data.items[-1]")).toEqual({ id: 2 });
+    expect(evaluateJsonPath(document, "$.data.empty")).toBeNull();
+  });
+
+  it("returns undefined for missing paths", () => {
+    expect(evaluateJsonPath(document, "$.data.missing")).toBeUndefined();
+    expect(evaluateJsonPath(document, "$.data.token.length")).toBeUndefined();
+    expect(evaluateJsonPath(document, "$.data.items[5]")).toBeUndefined();
+  });
+});
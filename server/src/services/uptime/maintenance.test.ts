@@ -0,0 +1,94 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import {
+  findActiveMaintenanceWindow,
+  getActiveOccurrence,
+  MaintenanceWindowSchedule,
+  validateMaintenanceSchedule,
+} from "./maintenance.js";
+
+const at = (iso: string) => DateTime.fromISO(iso, { zone: "utc" });
+
+const oneOff: MaintenanceWindowSchedule = {
+  startTime: "2024-03-10 02:00:00",
+  endTime: "2024-03-10 04:00:00",
+  recurrence: "none",
+  recurrenceEndsAt: null,
+  timezone: "UTC",
+};
+
+describe("getActiveOccurrence", () => {
+  it("matches one-off windows only between start and end", () => {
+    expect(getActiveOccurrence(oneOff, at("2024-03-10T01:59:59Z"))).toBeNull();
+    expect(getActiveOccurrence(oneOff, at("2024-03-10T02:00:00Z"))).not.toBeNull();
+    expect(getActiveOccurrence(oneOff, at("2024-03-10T03:59:59Z"))).not.toBeNull();
+    expect(getActiveOccurrence(oneOff, at("2024-03-10T04:00:00Z"))).toBeNull();
+  });
+
+  it("repeats weekly windows and stops after the recurrence end", () => {
+    const weekly = { ...oneOff, recurrence: "weekly", recurrenceEndsAt: "2024-03-20 00:00:00" };
+
+    expect(getActiveOccurrence(weekly, at("2024-03-17T03:00:00Z"))?.start.toUTC().toISO()).toBe(
+      "2024-03-17T02:00:00.000Z"
+    );
+    expect(getActiveOccurrence(weekly, at("2024-03-18T03:00:00Z"))).toBeNull();
+    expect(getActiveOccurrence(weekly, at("2024-03-24T03:00:00Z"))).toBeNull();
+  });
+
+  it("keeps the local wall-clock time across DST changes", () => {
+    // 01:00-02:00 in New York, first occurrence before the March 10 DST switch (UTC-5 -> UTC-4)
+    const daily = {
+      ...oneOff,
+      startTime: "2024-03-09T06:00:00Z",
+      endTime: "2024-03-09T07:00:00Z",
+      recurrence: "daily",
+      timezone: "America/New_York",
+    };
+
+    expect(getActiveOccurrence(daily, at("2024-03-11T05:30:00Z"))).not.toBeNull();
+    expect(getActiveOccurrence(daily, at("2024-03-11T06:30:00Z"))).toBeNull();
+  });
+
+  it("clamps monthly windows to the end of shorter months", () => {
+    const monthly = {
+      ...oneOff,
+      startTime: "2024-01-31 22:00:00",
+      endTime: "2024-02-01 02:00:00",
+      recurrence: "monthly",
+    };
+
+    expect(getActiveOccurrence(monthly, at("2024-02-29T23:00:00Z"))).not.toBeNull();
+    expect(getActiveOccurrence(monthly, at("2024-03-31T23:00:00Z"))).not.toBeNull();
+    expect(getActiveOccurrence(monthly, at("2024-03-15T23:00:00Z"))).toBeNull();
+  });
+});
+
+describe("validateMaintenanceSchedule", () => {
+  it("rejects windows longer than their repeat interval", () => {
+    expect(validateMaintenanceSchedule({ ...oneOff, endTime: "2024-03-11 04:00:00", recurrence: "daily" })).toMatch(
+      /longer than its repeat interval/
+    );
+    expect(validateMaintenanceSchedule({ ...oneOff, endTime: "2024-03-11 04:00:00" })).toBeNull();
+  });
+
+  it("rejects unknown timezones and inverted ranges", () => {
+    expect(validateMaintenanceSchedule({ ...oneOff, timezone: "Mars/Olympus" })).toMatch(/Unknown timezone/);
+    expect(validateMaintenanceSchedule({ ...oneOff, endTime: oneOff.startTime })).toMatch(/after start/);
+  });
+});
+
+describe("findActiveMaintenanceWindow", () => {
+  const windows = [
+    { ...oneOff, id: 1, monitorIds: [5], monitorTags: [] },
+    { ...oneOff, id: 2, monitorIds: [], monitorTags: ["database"] },
+  ];
+
+  it("targets monitors by id or by tag", () => {
+    const now = at("2024-03-10T03:00:00Z");
+
+    expect(findActiveMaintenanceWindow(windows, { id: 5, tags: [] }, now)?.id).toBe(1);
+    expect(findActiveMaintenanceWindow(windows, { id: 6, tags: ["database"] }, now)?.id).toBe(2);
+    expect(findActiveMaintenanceWindow(windows, { id: 6, tags: ["web"] }, now)).toBeNull();
+    expect(findActiveMaintenanceWindow(windows, { id: 5, tags: [] }, at("2024-03-10T05:00:00Z"))).toBeNull();
+  });
+});
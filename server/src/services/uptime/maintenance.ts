@@ -0,0 +1,131 @@
+import { DateTime, Duration } from "luxon";
+
+export const MAINTENANCE_RECURRENCES = ["none", "daily", "weekly", "monthly"] as const;
+export type MaintenanceRecurrence = (typeof MAINTENANCE_RECURRENCES)[number];
+
+export interface MaintenanceWindowSchedule {
+  startTime: string;
+  endTime: string;
+  recurrence: string;
+  recurrenceEndsAt: string | null;
+  timezone: string;
+}
+
+export interface MaintenanceWindowTarget {
+  monitorIds: number[];
+  monitorTags: string[];
+}
+
+const RECURRENCE_UNITS = {
+  daily: "days",
+  weekly: "weeks",
+  monthly: "months",
+} as const;
+
+// Shortest interval between two occurrences; a window can't be longer than this or occurrences would overlap
+const RECURRENCE_MIN_PERIODS: Record<Exclude<MaintenanceRecurrence, "none">, Duration> = {
+  daily: Duration.fromObject({ days: 1 }),
+  weekly: Duration.fromObject({ weeks: 1 }),
+  monthly: Duration.fromObject({ days: 28 }),
+};
+
+// Postgres hands timestamps back as "YYYY-MM-DD HH:mm:ss", the API takes ISO strings; both are UTC
+function parseTimestamp(value: string): DateTime {
+  return DateTime.fromISO(value.replace(" ", "T"), { zone: "utc" });
+}
+
+/**
+ * Returns a validation error for a window's schedule, or null if it is valid.
+ */
+export function validateMaintenanceSchedule(schedule: MaintenanceWindowSchedule): string | null {
+  const start = parseTimestamp(schedule.startTime);
+  const end = parseTimestamp(schedule.endTime);
+
+  if (!start.isValid || !end.isValid) {
+    return "Invalid start or end time";
+  }
+  if (end <= start) {
+    return "End time must be after start time";
+  }
+  if (!DateTime.now().setZone(schedule.timezone).isValid) {
+    return `Unknown timezone: ${schedule.timezone}`;
+  }
+  if (schedule.recurrence !== "none") {
+    const minPeriod = RECURRENCE_MIN_PERIODS[schedule.recurrence as keyof typeof RECURRENCE_MIN_PERIODS];
+    if (end.diff(start) > minPeriod) {
+      return `A ${schedule.recurrence} window can't be longer than its repeat interval`;
+    }
+    if (schedule.recurrenceEndsAt && parseTimestamp(schedule.recurrenceEndsAt) < start) {
+      return "Recurrence end must be after the first occurrence";
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the occurrence of the window that contains `at`, or null if the window isn't active then.
+ * Recurring windows repeat on the wall-clock time of their first occurrence in the window's timezone,
+ * so a weekly 02:00 window stays at 02:00 across DST changes.
+ */
+export function getActiveOccurrence(
+  schedule: MaintenanceWindowSchedule,
+  at: DateTime = DateTime.utc()
+): { start: DateTime; end: DateTime } | null {
+  const start = parseTimestamp(schedule.startTime).setZone(schedule.timezone);
+  const end = parseTimestamp(schedule.endTime).setZone(schedule.timezone);
+  const duration = end.diff(start);
+
+  if (at < start) {
+    return null;
+  }
+
+  if (schedule.recurrence === "none") {
+    return at < end ? { start, end } : null;
+  }
+
+  const unit = RECURRENCE_UNITS[schedule.recurrence as keyof typeof RECURRENCE_UNITS];
+  if (!unit) {
+    return null;
+  }
+
+  const recurrenceEndsAt = schedule.recurrenceEndsAt ? parseTimestamp(schedule.recurrenceEndsAt) : null;
+  const elapsed = Math.floor(at.setZone(schedule.timezone).diff(start, unit).get(unit));
+
+  // Month lengths and DST shifts can put the containing occurrence one step either side of the diff
+  for (const index of [elapsed + 1, elapsed, elapsed - 1]) {
+    if (index < 0) continue;
+
+    const occurrenceStart = start.plus({ [unit]: index });
+    if (recurrenceEndsAt && occurrenceStart > recurrenceEndsAt) continue;
+
+    const occurrenceEnd = occurrenceStart.plus(duration);
+    if (occurrenceStart <= at && at < occurrenceEnd) {
+      return { start: occurrenceStart, end: occurrenceEnd };
+    }
+  }
+  return null;
+}
+
+export function maintenanceWindowAppliesTo(
+  window: MaintenanceWindowTarget,
+  monitor: { id: number; tags: string[] | null }
+): boolean {
+  if (window.monitorIds.includes(monitor.id)) {
+    return true;
+  }
+  return (monitor.tags ?? []).some(tag => window.monitorTags.includes(tag));
+}
+
+/**
+ * Picks the first window that targets the monitor and is active at `at`.
+ */
+export function findActiveMaintenanceWindow<T extends MaintenanceWindowSchedule & MaintenanceWindowTarget>(
+  windows: T[],
+  monitor: { id: number; tags: string[] | null },
+  at: DateTime = DateTime.utc()
+): T | null {
+  return (
+    windows.find(window => maintenanceWindowAppliesTo(window, monitor) && getActiveOccurrence(window, at) !== null) ??
+    null
+  );
+}
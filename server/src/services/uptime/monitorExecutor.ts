@@ -2,65 +2,71 @@ import { Worker, Job } from "bullmq";
 import { eq, and, inArray } from "drizzle-orm";
 import { DateTime } from "luxon";
 import { db } from "../../db/postgres/postgres.js";
-import { uptimeMonitors, uptimeMonitorStatus, agentRegions, uptimeIncidents } from "../../db/postgres/schema.js";
+import {
+  uptimeMonitors,
+  uptimeMonitorStatus,
+  agentRegions,
+  uptimeIncidents,
+  uptimeMaintenanceWindows,
+} from "../../db/postgres/schema.js";
 import { clickhouse } from "../../db/clickhouse/clickhouse.js";
-import { MonitorCheckJob, HttpCheckResult, TcpCheckResult, MonitorEvent } from "./types.js";
+import {
+  MonitorCheckJob,
+  HttpCheckResult,
+  CheckResult,
+  MonitorEvent,
+  MultistepCheckResult,
+  AgentExecuteRequest,
+  AgentExecuteResponse,
+} from "./types.js";
+import { agentJobQueue } from "./agentJobQueue.js";
 import { performHttpCheck } from "./checks/httpCheck.js";
 import { performTcpCheck } from "./checks/tcpCheck.js";
-import { applyValidationRules } from "./validationEngine.js";
-import { NotificationService } from "./notificationService.js";
+import { performDnsCheck } from "./checks/dnsCheck.js";
+import { performPingCheck } from "./checks/pingCheck.js";
+import { performSmtpCheck } from "./checks/smtpCheck.js";
+import { performTlsCheck } from "./checks/tlsCheck.js";
+import { performMultistepCheck } from "./checks/multistepCheck.js";
+import { getMonitorTarget } from "./monitorTarget.js";
+import { applyValidationRules, getValidationRequirements } from "./validationEngine.js";
+import { EscalationService } from "./escalationService.js";
+import { findActiveMaintenanceWindow } from "./maintenance.js";
+import {
+  DEFAULT_RESPONSE_TIME_WINDOW_MINUTES,
+  DegradedSignals,
+  getDegradedReason,
+  getNextStatusCounters,
+  MonitorHealth,
+} from "./degradation.js";
 import { createServiceLogger } from "../../lib/logger/logger.js";
+import { timeClickhouseInsert } from "../../lib/metrics.js";
 
-interface AgentExecuteRequest {
-  jobId: string;
-  monitorId: number;
-  monitorType: string;
-  config: any;
-  validationRules: any[];
-}
+type Monitor = typeof uptimeMonitors.$inferSelect;
 
-interface AgentExecuteResponse {
-  jobId: string;
-  region: string;
-  status: "success" | "failure" | "timeout";
-  responseTimeMs: number;
-  statusCode?: number;
-  headers?: Record<string, string>;
-  timing?: {
-    dnsMs?: number;
-    tcpMs?: number;
-    tlsMs?: number;
-    ttfbMs?: number;
-    transferMs?: number;
-  };
-  error?: {
-    message: string;
-    type: string;
-  };
-  validationErrors?: string[];
-  bodySizeBytes?: number;
-}
+// How long an agent gets to return a result, pushed or pulled
+const AGENT_TIMEOUT_MS = 60000;
 
 export class MonitorExecutor {
   private worker: Worker | null = null;
   private concurrency: number;
   private isShuttingDown = false;
   private connection: { host: string; port: number; password?: string };
-  private notificationService: NotificationService;
+  private escalationService: EscalationService;
   private logger = createServiceLogger("monitor-executor");
 
   // Confirmation thresholds - require multiple consecutive checks before triggering incidents
   private static readonly FAILURE_THRESHOLD = 2; // Consecutive failures before creating incident
   private static readonly SUCCESS_THRESHOLD = 2; // Consecutive successes before resolving incident
+  private static readonly DEGRADED_THRESHOLD = 2; // Consecutive degraded checks before creating a degraded incident
 
-  constructor(concurrency: number = 10) {
+  constructor(concurrency: number, escalationService: EscalationService) {
     this.concurrency = concurrency;
     this.connection = {
       host: process.env.REDIS_HOST || "localhost",
       port: parseInt(process.env.REDIS_PORT || "6379", 10),
       ...(process.env.REDIS_PASSWORD && { password: process.env.REDIS_PASSWORD }),
     };
-    this.notificationService = new NotificationService();
+    this.escalationService = escalationService;
   }
 
   async start(): Promise<void> {
@@ -134,51 +140,22 @@ export class MonitorExecutor {
         return;
       }
 
+      // Checks keep running during maintenance so the event history stays complete
+      const inMaintenance = await this.isInMaintenance(monitor);
+
       // Check if this is a global monitor
       if (monitor.monitoringType === "global" && monitor.selectedRegions && monitor.selectedRegions.length > 0) {
-        await this.processGlobalMonitorCheck(monitor);
+        await this.processGlobalMonitorCheck(monitor, inMaintenance);
         return;
       }
 
       // For local monitoring, proceed with the original logic
-      let result: HttpCheckResult | TcpCheckResult;
-      let responseBody: string | undefined;
-
-      if (monitor.monitorType === "http" && monitor.httpConfig) {
-        const httpResult = await performHttpCheck({
-          url: monitor.httpConfig.url,
-          method: monitor.httpConfig.method || "GET",
-          headers: monitor.httpConfig.headers,
-          body: monitor.httpConfig.body,
-          auth: monitor.httpConfig.auth,
-          followRedirects: monitor.httpConfig.followRedirects !== false,
-          timeoutMs: monitor.httpConfig.timeoutMs,
-          ipVersion: monitor.httpConfig.ipVersion,
-          userAgent: monitor.httpConfig.userAgent,
-        });
-
-        result = httpResult;
-
-        // For HTTP checks, we might need the response body for validation
-        // Note: In production, you might want to limit body size or make this optional
-        if (httpResult.status === "success" && monitor.validationRules.length > 0) {
-          // For now, we'll skip body validation to avoid memory issues
-          // In a real implementation, you'd stream the body or limit size
-          responseBody = undefined;
-        }
-      } else if (monitor.monitorType === "tcp" && monitor.tcpConfig) {
-        result = await performTcpCheck({
-          host: monitor.tcpConfig.host,
-          port: monitor.tcpConfig.port,
-          timeoutMs: monitor.tcpConfig.timeoutMs,
-        });
-      } else {
-        throw new Error(`Invalid monitor configuration for monitor ${monitorId}`);
-      }
+      const result = await this.performLocalCheck(monitor);
 
       // Apply validation rules for successful checks
       if (result.status === "success" && monitor.validationRules.length > 0) {
-        const validationErrors = applyValidationRules(result as HttpCheckResult, monitor.validationRules, responseBody);
+        const httpResult = result as HttpCheckResult;
+        const validationErrors = applyValidationRules(httpResult, monitor.validationRules, httpResult.responseBody);
 
         if (validationErrors.length > 0) {
           result.validationErrors = validationErrors;
@@ -187,11 +164,23 @@ export class MonitorExecutor {
         }
       }
 
+      // Warning rules only matter while the check passes; they degrade the monitor instead of failing it
+      const warningRules = monitor.degradedConfig?.warningRules ?? [];
+      if (result.status === "success" && warningRules.length > 0) {
+        const httpResult = result as HttpCheckResult;
+        result.validationWarnings = applyValidationRules(httpResult, warningRules, httpResult.responseBody);
+      }
+
       // Store result in ClickHouse
-      await this.storeMonitorEvent(monitor, result);
+      await this.storeMonitorEvent(monitor, result, "local", inMaintenance);
+
+      const degradedReason =
+        result.status === "success"
+          ? await this.getDegradedReason(monitor, { validationWarnings: result.validationWarnings })
+          : null;
 
       // Update monitor status in PostgreSQL
-      await this.updateMonitorStatus(monitor.id, result);
+      await this.updateMonitorStatus(monitor.id, result, inMaintenance, degradedReason);
 
       this.logger.info(`✅ Monitor check completed: ${monitorId} - ${result.status} (${result.responseTimeMs}ms`);
     } catch (error) {
@@ -217,8 +206,9 @@ export class MonitorExecutor {
             },
           };
 
-          await this.storeMonitorEvent(monitor, errorResult);
-          await this.updateMonitorStatus(monitor.id, errorResult);
+          const inMaintenance = await this.isInMaintenance(monitor);
+          await this.storeMonitorEvent(monitor, errorResult, "local", inMaintenance);
+          await this.updateMonitorStatus(monitor.id, errorResult, inMaintenance);
         }
       } catch (innerError) {
         this.logger.error(innerError as Error, "Failed to store error event");
@@ -226,7 +216,136 @@ export class MonitorExecutor {
     }
   }
 
-  private async processGlobalMonitorCheck(monitor: any): Promise<void> {
+  private async performLocalCheck(monitor: Monitor): Promise<CheckResult> {
+    if (monitor.monitorType === "http" && monitor.httpConfig) {
+      const requirements = getValidationRequirements([
+        ...monitor.validationRules,
+        ...(monitor.degradedConfig?.warningRules ?? []),
+      ]);
+      return performHttpCheck({
+        url: monitor.httpConfig.url,
+        method: monitor.httpConfig.method || "GET",
+        headers: monitor.httpConfig.headers,
+        body: monitor.httpConfig.body,
+        auth: monitor.httpConfig.auth,
+        followRedirects: monitor.httpConfig.followRedirects !== false,
+        timeoutMs: monitor.httpConfig.timeoutMs,
+        ipVersion: monitor.httpConfig.ipVersion,
+        userAgent: monitor.httpConfig.userAgent,
+        captureBody: requirements.responseBody,
+        checkCertificate: requirements.certificate,
+      });
+    }
+    if (monitor.monitorType === "tcp" && monitor.tcpConfig) {
+      return performTcpCheck({
+        host: monitor.tcpConfig.host,
+        port: monitor.tcpConfig.port,
+        timeoutMs: monitor.tcpConfig.timeoutMs,
+      });
+    }
+    if (monitor.monitorType === "dns" && monitor.dnsConfig) {
+      return performDnsCheck(monitor.dnsConfig);
+    }
+    if (monitor.monitorType === "ping" && monitor.pingConfig) {
+      return performPingCheck(monitor.pingConfig);
+    }
+    if (monitor.monitorType === "smtp" && monitor.smtpConfig) {
+      return performSmtpCheck(monitor.smtpConfig);
+    }
+    if (monitor.monitorType === "tls" && monitor.tlsConfig) {
+      return performTlsCheck(monitor.tlsConfig);
+    }
+    if (monitor.monitorType === "multistep" && monitor.multistepConfig) {
+      return performMultistepCheck(monitor.multistepConfig);
+    }
+    throw new Error(`Invalid monitor configuration for monitor ${monitor.id}`);
+  }
+
+  // Agents take a flat config object, named after the fields of their MonitorConfig
+  private getAgentConfig(monitor: Monitor): Record<string, unknown> | null {
+    switch (monitor.monitorType) {
+      case "http":
+        return monitor.httpConfig;
+      case "dns":
+        return monitor.dnsConfig;
+      case "ping":
+        return monitor.pingConfig;
+      case "smtp":
+        return (
+          monitor.smtpConfig && {
+            smtpHost: monitor.smtpConfig.host,
+            smtpPort: monitor.smtpConfig.port,
+            smtpSecure: monitor.smtpConfig.secure,
+            smtpRequireTls: monitor.smtpConfig.requireStartTls,
+            timeoutMs: monitor.smtpConfig.timeoutMs,
+          }
+        );
+      case "tls":
+        return monitor.tlsConfig;
+      case "multistep":
+        return monitor.multistepConfig;
+      default:
+        return monitor.tcpConfig;
+    }
+  }
+
+  /**
+   * Works out whether a monitor whose check passed is degraded. The p95 threshold looks at every region's
+   * successful checks over the window, including the one just stored.
+   */
+  private async getDegradedReason(monitor: Monitor, signals: DegradedSignals): Promise<string | null> {
+    const config = monitor.degradedConfig;
+    if (!config) {
+      return null;
+    }
+
+    let p95ResponseTimeMs: number | null = null;
+    if (config.responseTimeP95Ms) {
+      try {
+        const result = await clickhouse.query({
+          query: `
+            SELECT quantile(0.95)(response_time_ms) AS p95, count() AS checks
+            FROM monitor_events
+            WHERE monitor_id = {monitorId:UInt32}
+              AND status = 'success'
+              AND in_maintenance = 0
+              AND timestamp >= now() - INTERVAL {windowMinutes:UInt32} MINUTE
+          `,
+          query_params: {
+            monitorId: monitor.id,
+            windowMinutes: config.responseTimeWindowMinutes ?? DEFAULT_RESPONSE_TIME_WINDOW_MINUTES,
+          },
+        });
+        const rows = await result.json<{ p95: number; checks: string }>();
+        const row = rows.data[0];
+        p95ResponseTimeMs = row && Number(row.checks) > 0 ? Number(row.p95) : null;
+      } catch (error) {
+        this.logger.error(error as Error, `Failed to load p95 response time for monitor ${monitor.id}`);
+      }
+    }
+
+    return getDegradedReason(config, { ...signals, p95ResponseTimeMs });
+  }
+
+  private async isInMaintenance(monitor: { id: number; organizationId: string; tags: string[] }): Promise<boolean> {
+    try {
+      const windows = await db.query.uptimeMaintenanceWindows.findMany({
+        where: eq(uptimeMaintenanceWindows.organizationId, monitor.organizationId),
+      });
+      const activeWindow = findActiveMaintenanceWindow(windows, monitor);
+
+      if (activeWindow) {
+        this.logger.debug(`Monitor ${monitor.id} is in maintenance window ${activeWindow.id} (${activeWindow.name})`);
+      }
+      return activeWindow !== null;
+    } catch (error) {
+      // Suppressing alerts because of a lookup error could hide a real outage, so assume no maintenance
+      this.logger.error(error as Error, `Failed to load maintenance windows for monitor ${monitor.id}`);
+      return false;
+    }
+  }
+
+  private async processGlobalMonitorCheck(monitor: any, inMaintenance: boolean): Promise<void> {
     try {
       // Filter to only include non-local regions
       const globalRegions = monitor.selectedRegions.filter((r: string) => r !== "local");
@@ -241,6 +360,7 @@ export class MonitorExecutor {
         where: and(
           inArray(agentRegions.code, globalRegions),
           eq(agentRegions.enabled, true),
+          eq(agentRegions.draining, false),
           eq(agentRegions.isHealthy, true)
         ),
       });
@@ -276,18 +396,26 @@ export class MonitorExecutor {
 
       // Store results for each region
       for (const { region, result } of regionResults) {
-        await this.storeMonitorEvent(monitor, result, region);
+        await this.storeMonitorEvent(monitor, result, region, inMaintenance);
       }
 
       // Handle incidents per region with thresholds
       for (const { region, result } of regionResults) {
-        await this.handleRegionalIncident(monitor, region, result);
+        await this.handleRegionalIncident(monitor, region, result, inMaintenance);
       }
 
       // Update monitor status based on the majority of regions
       const successCount = regionResults.filter(r => r.result.status === "success").length;
       const overallStatus = successCount > regionResults.length / 2 ? "success" : "failure";
 
+      const degradedReason =
+        overallStatus === "success"
+          ? await this.getDegradedReason(monitor, {
+              regions: { failed: regionResults.length - successCount, total: regionResults.length },
+              validationWarnings: [...new Set(regionResults.flatMap(r => r.result.validationWarnings ?? []))],
+            })
+          : null;
+
       // Use the average response time from successful checks
       const successfulResults = regionResults.filter(r => r.result.status === "success");
       const avgResponseTime =
@@ -304,7 +432,7 @@ export class MonitorExecutor {
         validationErrors: [],
       };
 
-      await this.updateMonitorStatus(monitor.id, aggregatedResult);
+      await this.updateMonitorStatus(monitor.id, aggregatedResult, inMaintenance, degradedReason);
 
       this.logger.info(
         `✅ Global monitor check completed: ${monitor.id} - ${overallStatus} (${regionResults.length} regions)`
@@ -316,36 +444,24 @@ export class MonitorExecutor {
 
   private async executeAgentCheck(
     monitor: any,
-    region: any
-  ): Promise<{ region: string; result: HttpCheckResult | TcpCheckResult }> {
+    region: typeof agentRegions.$inferSelect
+  ): Promise<{ region: string; result: CheckResult }> {
     const jobId = `${monitor.id}-${Date.now()}-${region.code}`;
 
     const request: AgentExecuteRequest = {
       jobId,
       monitorId: monitor.id,
       monitorType: monitor.monitorType,
-      config: monitor.monitorType === "http" ? monitor.httpConfig : monitor.tcpConfig,
+      config: this.getAgentConfig(monitor),
       validationRules: monitor.validationRules || [],
+      warningRules: monitor.degradedConfig?.warningRules ?? [],
     };
 
     try {
-      const response = await fetch(`${region.endpointUrl}/execute`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(request),
-        signal: AbortSignal.timeout(60000), // 60 second timeout
-      });
-
-      if (!response.ok) {
-        throw new Error(`Agent returned status ${response.status}`);
-      }
-
-      const agentResponse: AgentExecuteResponse = await response.json();
+      const agentResponse = await this.sendToAgent(region, request);
 
       // Convert agent response to our internal format
-      const result: HttpCheckResult | TcpCheckResult =
+      const result: CheckResult =
         monitor.monitorType === "http"
           ? {
               status: agentResponse.status,
@@ -355,13 +471,19 @@ export class MonitorExecutor {
               headers: agentResponse.headers || {},
               bodySizeBytes: agentResponse.bodySizeBytes || 0,
               validationErrors: agentResponse.validationErrors || [],
+              validationWarnings: agentResponse.validationWarnings || [],
               error: agentResponse.error,
             }
           : {
               status: agentResponse.status,
               responseTimeMs: agentResponse.responseTimeMs,
-              validationErrors: [],
+              validationErrors: agentResponse.validationErrors || [],
+              validationWarnings: agentResponse.validationWarnings || [],
               error: agentResponse.error,
+              ...(monitor.monitorType === "multistep" && {
+                statusCode: agentResponse.statusCode,
+                steps: agentResponse.steps || [],
+              }),
             };
 
       return { region: region.code, result };
@@ -371,10 +493,40 @@ export class MonitorExecutor {
     }
   }
 
+  private async sendToAgent(
+    region: typeof agentRegions.$inferSelect,
+    request: AgentExecuteRequest
+  ): Promise<AgentExecuteResponse> {
+    // Pull agents sit behind NAT and fetch their jobs from us
+    if (region.connectionMode === "pull") {
+      return agentJobQueue.dispatch(region.code, request, AGENT_TIMEOUT_MS);
+    }
+
+    if (!region.endpointUrl) {
+      throw new Error(`Region ${region.code} has no endpoint URL`);
+    }
+
+    const response = await fetch(`${region.endpointUrl}/execute`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+      signal: AbortSignal.timeout(AGENT_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Agent returned status ${response.status}`);
+    }
+
+    return response.json();
+  }
+
   private async storeMonitorEvent(
     monitor: any,
-    result: HttpCheckResult | TcpCheckResult,
-    regionCode: string = "local"
+    result: CheckResult,
+    regionCode: string = "local",
+    inMaintenance: boolean = false
   ): Promise<void> {
     // Helper to ensure timing values are non-negative or undefined
     const sanitizeTiming = (value: number | undefined): number | undefined => {
@@ -387,11 +539,11 @@ export class MonitorExecutor {
       organization_id: monitor.organizationId,
       timestamp: DateTime.now().toUTC().toFormat("yyyy-MM-dd HH:mm:ss"),
       monitor_type: monitor.monitorType,
-      monitor_url: monitor.httpConfig?.url || `${monitor.tcpConfig?.host}:${monitor.tcpConfig?.port}`,
+      monitor_url: getMonitorTarget(monitor),
       monitor_name: monitor.name,
       region: regionCode,
       status: result.status,
-      status_code: (result as HttpCheckResult).statusCode,
+      status_code: (result as HttpCheckResult | MultistepCheckResult).statusCode,
       response_time_ms: Math.max(0, Math.round(result.responseTimeMs)),
       dns_time_ms: sanitizeTiming((result as HttpCheckResult).timing?.dnsMs),
       tcp_time_ms: sanitizeTiming((result as HttpCheckResult).timing?.tcpMs),
@@ -399,45 +551,54 @@ export class MonitorExecutor {
       ttfb_ms: sanitizeTiming((result as HttpCheckResult).timing?.ttfbMs),
       transfer_time_ms: sanitizeTiming((result as HttpCheckResult).timing?.transferMs),
       validation_errors: result.validationErrors,
+      validation_warnings: result.validationWarnings ?? [],
       response_headers: (result as HttpCheckResult).headers || {},
       response_size_bytes: (result as HttpCheckResult).bodySizeBytes,
-      port: monitor.tcpConfig?.port,
+      port: (monitor.tcpConfig ?? monitor.smtpConfig ?? monitor.tlsConfig)?.port,
       error_message: result.error?.message,
       error_type: result.error?.type,
+      in_maintenance: inMaintenance ? 1 : 0,
+      steps: "steps" in result ? JSON.stringify(result.steps) : "",
     };
 
     try {
-      await clickhouse.insert({
-        table: "monitor_events",
-        values: [event],
-        format: "JSONEachRow",
-      });
+      await timeClickhouseInsert("monitor_events", () =>
+        clickhouse.insert({
+          table: "monitor_events",
+          values: [event],
+          format: "JSONEachRow",
+        })
+      );
     } catch (error) {
       this.logger.error(error as Error, "Failed to store monitor event in ClickHouse");
     }
   }
 
-  private async updateMonitorStatus(monitorId: number, result: HttpCheckResult | TcpCheckResult): Promise<void> {
+  private async updateMonitorStatus(
+    monitorId: number,
+    result: CheckResult,
+    inMaintenance: boolean = false,
+    degradedReason: string | null = null
+  ): Promise<void> {
     try {
       const now = new Date();
-      const currentStatus = result.status === "success" ? "up" : "down";
+      const currentStatus: MonitorHealth = result.status !== "success" ? "down" : degradedReason ? "degraded" : "up";
 
       // Get current status to update consecutive counts
       const existingStatus = await db.query.uptimeMonitorStatus.findFirst({
         where: eq(uptimeMonitorStatus.monitorId, monitorId),
       });
 
-      let consecutiveFailures = existingStatus?.consecutiveFailures || 0;
-      let consecutiveSuccesses = existingStatus?.consecutiveSuccesses || 0;
       const previousStatus = existingStatus?.currentStatus;
-
-      if (currentStatus === "up") {
-        consecutiveSuccesses++;
-        consecutiveFailures = 0;
-      } else {
-        consecutiveFailures++;
-        consecutiveSuccesses = 0;
-      }
+      const { consecutiveFailures, consecutiveSuccesses, consecutiveDegraded } = getNextStatusCounters(
+        {
+          consecutiveFailures: existingStatus?.consecutiveFailures || 0,
+          consecutiveSuccesses: existingStatus?.consecutiveSuccesses || 0,
+          consecutiveDegraded: existingStatus?.consecutiveDegraded || 0,
+        },
+        currentStatus,
+        inMaintenance
+      );
 
       // Update or insert status
       if (existingStatus) {
@@ -446,8 +607,10 @@ export class MonitorExecutor {
           .set({
             lastCheckedAt: now.toISOString(),
             currentStatus,
+            degradedReason,
             consecutiveFailures,
             consecutiveSuccesses,
+            consecutiveDegraded,
             updatedAt: now.toISOString(),
           })
           .where(eq(uptimeMonitorStatus.monitorId, monitorId));
@@ -456,8 +619,10 @@ export class MonitorExecutor {
           monitorId,
           lastCheckedAt: now.toISOString(),
           currentStatus,
+          degradedReason,
           consecutiveFailures,
           consecutiveSuccesses,
+          consecutiveDegraded,
           updatedAt: now.toISOString(),
         });
       }
@@ -466,10 +631,20 @@ export class MonitorExecutor {
       await this.handleIncidentManagement(
         monitorId,
         previousStatus || undefined,
-        currentStatus,
+        currentStatus === "down" ? "down" : "up",
         result,
         consecutiveFailures,
-        consecutiveSuccesses
+        consecutiveSuccesses,
+        inMaintenance
+      );
+
+      await this.handleDegradedIncident(
+        monitorId,
+        previousStatus || undefined,
+        currentStatus,
+        degradedReason,
+        consecutiveDegraded,
+        inMaintenance
       );
     } catch (error) {
       this.logger.error(error as Error, "Failed to update monitor status");
@@ -480,9 +655,10 @@ export class MonitorExecutor {
     monitorId: number,
     previousStatus: string | undefined,
     currentStatus: string,
-    result: HttpCheckResult | TcpCheckResult,
+    result: CheckResult,
     consecutiveFailures: number,
-    consecutiveSuccesses: number
+    consecutiveSuccesses: number,
+    inMaintenance: boolean
   ): Promise<void> {
     try {
       // Get monitor details for incident creation
@@ -499,13 +675,20 @@ export class MonitorExecutor {
       const activeIncident = await db.query.uptimeIncidents.findFirst({
         where: and(
           eq(uptimeIncidents.monitorId, monitorId),
-          eq(uptimeIncidents.status, "active"),
+          // Acknowledged incidents are still open and resolve like active ones
+          inArray(uptimeIncidents.status, ["active", "acknowledged"]),
+          eq(uptimeIncidents.kind, "down"),
           eq(uptimeIncidents.region, "local")
         ),
       });
 
       // Create incident when failures reach threshold
-      if (currentStatus === "down" && consecutiveFailures === MonitorExecutor.FAILURE_THRESHOLD && !activeIncident) {
+      if (
+        currentStatus === "down" &&
+        consecutiveFailures === MonitorExecutor.FAILURE_THRESHOLD &&
+        !activeIncident &&
+        !inMaintenance
+      ) {
         const [newIncident] = await db
           .insert(uptimeIncidents)
           .values({
@@ -522,7 +705,7 @@ export class MonitorExecutor {
         this.logger.info(`Created new incident for monitor ${monitorId} (${monitor.name})`);
 
         // Send notifications for new incident
-        await this.notificationService.sendIncidentNotifications(monitor, newIncident, "down");
+        await this.escalationService.onIncidentOpened(monitor, newIncident);
       }
       // Resolve incident when successes reach threshold after being down
       else if (currentStatus === "up" && consecutiveSuccesses === MonitorExecutor.SUCCESS_THRESHOLD && activeIncident) {
@@ -537,12 +720,14 @@ export class MonitorExecutor {
           .where(eq(uptimeIncidents.id, activeIncident.id));
         this.logger.info(`Resolved incident ${activeIncident.id} for monitor ${monitorId} (${monitor.name})`);
 
-        // Send recovery notifications
-        await this.notificationService.sendIncidentNotifications(
-          monitor,
-          { ...activeIncident, status: "resolved", endTime: now },
-          "recovery"
-        );
+        // Send recovery notifications; nobody gets paged during planned maintenance
+        if (!inMaintenance) {
+          await this.escalationService.onIncidentResolved(monitor, {
+            ...activeIncident,
+            status: "resolved",
+            endTime: now,
+          });
+        }
       }
       // Status remains DOWN (Update failure count)
       else if (currentStatus === "down" && activeIncident) {
@@ -560,10 +745,93 @@ export class MonitorExecutor {
     }
   }
 
+  // Degraded incidents cover the whole monitor. They resolve once two checks in a row are fully up,
+  // and stay open through an outage since the monitor hasn't recovered from being degraded either
+  private async handleDegradedIncident(
+    monitorId: number,
+    previousStatus: string | undefined,
+    currentStatus: MonitorHealth,
+    degradedReason: string | null,
+    consecutiveDegraded: number,
+    inMaintenance: boolean
+  ): Promise<void> {
+    try {
+      const activeIncident = await db.query.uptimeIncidents.findFirst({
+        where: and(
+          eq(uptimeIncidents.monitorId, monitorId),
+          inArray(uptimeIncidents.status, ["active", "acknowledged"]),
+          eq(uptimeIncidents.kind, "degraded")
+        ),
+      });
+
+      if (currentStatus !== "degraded" && !activeIncident) {
+        return;
+      }
+
+      const monitor = await db.query.uptimeMonitors.findFirst({
+        where: eq(uptimeMonitors.id, monitorId),
+      });
+
+      if (!monitor) {
+        return;
+      }
+
+      if (
+        currentStatus === "degraded" &&
+        consecutiveDegraded === MonitorExecutor.DEGRADED_THRESHOLD &&
+        !activeIncident &&
+        !inMaintenance
+      ) {
+        const [newIncident] = await db
+          .insert(uptimeIncidents)
+          .values({
+            organizationId: monitor.organizationId,
+            monitorId,
+            kind: "degraded",
+            startTime: new Date().toISOString(),
+            status: "active",
+            lastError: degradedReason,
+            failureCount: 1,
+          })
+          .returning();
+        this.logger.info(`Created degraded incident for monitor ${monitorId} (${monitor.name})`);
+
+        await this.escalationService.onIncidentOpened(monitor, newIncident);
+      } else if (currentStatus === "up" && previousStatus === "up" && activeIncident) {
+        const now = new Date().toISOString();
+        await db
+          .update(uptimeIncidents)
+          .set({ status: "resolved", endTime: now, resolvedAt: now, updatedAt: now })
+          .where(eq(uptimeIncidents.id, activeIncident.id));
+        this.logger.info(`Resolved degraded incident ${activeIncident.id} for monitor ${monitorId} (${monitor.name})`);
+
+        if (!inMaintenance) {
+          await this.escalationService.onIncidentResolved(monitor, {
+            ...activeIncident,
+            status: "resolved",
+            endTime: now,
+          });
+        }
+      } else if (currentStatus === "degraded" && activeIncident) {
+        await db
+          .update(uptimeIncidents)
+          .set({
+            failureCount: (activeIncident.failureCount || 0) + 1,
+            lastError: degradedReason,
+            updatedAt: new Date().toISOString(),
+          })
+          .where(eq(uptimeIncidents.id, activeIncident.id));
+      }
+    } catch (error) {
+      this.logger.error(error as Error, "Failed to manage degraded incident");
+    }
+  }
+
   private async handleRegionalIncident(
     monitor: any,
     region: string,
-    result: HttpCheckResult | TcpCheckResult
+    result: CheckResult,
+    inMaintenance: boolean
   ): Promise<void> {
     try {
       const currentStatus = result.status === "success" ? "up" : "down";
@@ -575,6 +843,7 @@ export class MonitorExecutor {
           FROM monitor_events
           WHERE monitor_id = {monitorId:Int32}
             AND region = {region:String}
+            AND in_maintenance = 0
           ORDER BY timestamp DESC
           LIMIT {limit:Int32}
         `,
@@ -613,13 +882,20 @@ export class MonitorExecutor {
       const activeIncident = await db.query.uptimeIncidents.findFirst({
         where: and(
           eq(uptimeIncidents.monitorId, monitor.id),
-          eq(uptimeIncidents.status, "active"),
+          // Acknowledged incidents are still open and resolve like active ones
+          inArray(uptimeIncidents.status, ["active", "acknowledged"]),
+          eq(uptimeIncidents.kind, "down"),
           eq(uptimeIncidents.region, region)
         ),
       });
 
       // Create incident when failures reach threshold
-      if (currentStatus === "down" && consecutiveFailures === MonitorExecutor.FAILURE_THRESHOLD && !activeIncident) {
+      if (
+        currentStatus === "down" &&
+        consecutiveFailures === MonitorExecutor.FAILURE_THRESHOLD &&
+        !activeIncident &&
+        !inMaintenance
+      ) {
         const [newIncident] = await db
           .insert(uptimeIncidents)
           .values({
@@ -636,7 +912,7 @@ export class MonitorExecutor {
         this.logger.info(`Created new incident for monitor ${monitor.id} (${monitor.name}) in region ${region}`);
 
         // Send notifications for new regional incident
-        await this.notificationService.sendIncidentNotifications(monitor, newIncident, "down");
+        await this.escalationService.onIncidentOpened(monitor, newIncident);
       }
       // Resolve incident when successes reach threshold
       else if (currentStatus === "up" && consecutiveSuccesses === MonitorExecutor.SUCCESS_THRESHOLD && activeIncident) {
@@ -654,12 +930,14 @@ export class MonitorExecutor {
           `Resolved incident ${activeIncident.id} for monitor ${monitor.id} (${monitor.name}) in region ${region}`
         );
 
-        // Send recovery notifications for regional incident
-        await this.notificationService.sendIncidentNotifications(
-          monitor,
-          { ...activeIncident, status: "resolved", endTime: now },
-          "recovery"
-        );
+        // Send recovery notifications for regional incident; nobody gets paged during planned maintenance
+        if (!inMaintenance) {
+          await this.escalationService.onIncidentResolved(monitor, {
+            ...activeIncident,
+            status: "resolved",
+            endTime: now,
+          });
+        }
       }
       // If check failed and there's already an active incident, update it
       else if (currentStatus === "down" && activeIncident) {
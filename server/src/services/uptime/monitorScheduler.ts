@@ -3,6 +3,7 @@ import { eq } from "drizzle-orm";
 import { db } from "../../db/postgres/postgres.js";
 import { uptimeMonitors } from "../../db/postgres/schema.js";
 import { createServiceLogger } from "../../lib/logger/logger.js";
+import { trackMonitorQueue } from "../../lib/metrics.js";
 import { MonitorCheckJob } from "./types.js";
 
 export class MonitorScheduler {
@@ -56,6 +57,8 @@ export class MonitorScheduler {
     // Load and schedule all active monitors
     await this.loadAndScheduleMonitors();
 
+    trackMonitorQueue(this.queue);
+
     this.logger.info("BullMQ monitor scheduler initialized");
   }
 
@@ -203,6 +206,7 @@ export class MonitorScheduler {
   async shutdown(): Promise<void> {
     this.logger.info("Shutting down BullMQ monitor scheduler...");
     this.isShuttingDown = true;
+    trackMonitorQueue(null);
 
     try {
       // Close queue events and queue with timeouts
@@ -0,0 +1,34 @@
+interface MonitorTargetConfigs {
+  monitorType: string;
+  httpConfig?: { url: string } | null;
+  tcpConfig?: { host: string; port: number } | null;
+  dnsConfig?: { hostname: string; recordType: string } | null;
+  pingConfig?: { host: string } | null;
+  smtpConfig?: { host: string; port: number } | null;
+  tlsConfig?: { host: string; port: number } | null;
+  multistepConfig?: { steps: Array<{ url: string }> } | null;
+}
+
+/**
+ * Human-readable target of a monitor, e.g. the URL of an HTTP monitor or "example.com:443" for a TLS monitor.
+ */
+export function getMonitorTarget(monitor: MonitorTargetConfigs): string {
+  switch (monitor.monitorType) {
+    case "http":
+      return monitor.httpConfig?.url ?? "";
+    case "dns":
+      return `${monitor.dnsConfig?.hostname} (${monitor.dnsConfig?.recordType})`;
+    case "ping":
+      return monitor.pingConfig?.host ?? "";
+    case "smtp":
+      return `${monitor.smtpConfig?.host}:${monitor.smtpConfig?.port}`;
+    case "tls":
+      return `${monitor.tlsConfig?.host}:${monitor.tlsConfig?.port}`;
+    case "multistep": {
+      const steps = monitor.multistepConfig?.steps ?? [];
+      return steps.length > 1 ? `${steps[0].url} (+${steps.length - 1} steps)` : (steps[0]?.url ?? "");
+    }
+    default:
+      return `${monitor.tcpConfig?.host}:${monitor.tcpConfig?.port}`;
+  }
+}
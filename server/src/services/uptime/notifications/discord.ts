@@ -0,0 +1,49 @@
+import { DateTime } from "luxon";
+import {
+  formatDowntimeDuration,
+  formatIncidentTime,
+  getEventStyle,
+  getIncidentRegion,
+  getMonitorName,
+  getNotificationTitle,
+  isAlertEvent,
+} from "./format.js";
+import { postWithRetry } from "./http.js";
+import { NotificationProvider } from "./types.js";
+
+export const discordProvider: NotificationProvider = {
+  type: "discord",
+
+  validateConfig(config) {
+    return config.webhookUrl ? null : "Webhook URL is required for Discord channel";
+  },
+
+  async send(config, event) {
+    const { monitor, incident, eventType } = event;
+    const style = getEventStyle(eventType);
+
+    const embed = {
+      title: `${style.emoji} ${getNotificationTitle(event)}`,
+      color: parseInt(style.color, 16),
+      fields: [
+        { name: "Monitor", value: getMonitorName(monitor), inline: true },
+        { name: "Type", value: monitor.monitorType.toUpperCase(), inline: true },
+        { name: "Region", value: getIncidentRegion(incident), inline: true },
+        ...(isAlertEvent(eventType)
+          ? [
+              { name: "Time", value: formatIncidentTime(incident), inline: false },
+              ...(incident.lastError
+                ? [{ name: eventType === "down" ? "Error" : "Reason", value: incident.lastError, inline: false }]
+                : []),
+            ]
+          : [
+              { name: "Downtime Duration", value: formatDowntimeDuration(incident), inline: true },
+              { name: "Recovery Time", value: DateTime.now().toLocaleString(DateTime.DATETIME_FULL), inline: true },
+            ]),
+      ],
+      timestamp: new Date().toISOString(),
+    };
+
+    return postWithRetry("Discord webhook", config.webhookUrl!, { body: JSON.stringify({ embeds: [embed] }) });
+  },
+};
@@ -0,0 +1,68 @@
+import { DateTime } from "luxon";
+import { sendEmail } from "../../../lib/email/email.js";
+import {
+  formatDowntimeDuration,
+  formatIncidentTime,
+  getDurationLabel,
+  getEventStyle,
+  getIncidentRegion,
+  getMonitorName,
+  getNotificationTitle,
+  isAlertEvent,
+} from "./format.js";
+import { NotificationEventType, NotificationProvider } from "./types.js";
+
+const ALERT_DESCRIPTIONS: Partial<Record<NotificationEventType, string>> = {
+  down: "Your monitor has stopped responding.",
+  degraded: "Your monitor is responding, but has crossed one of its degraded thresholds.",
+  slo_burn: "Your monitor is using up its SLO error budget faster than it can afford to.",
+};
+
+export const emailProvider: NotificationProvider = {
+  type: "email",
+
+  validateConfig(config) {
+    return config.email ? null : "Email address is required for email channel";
+  },
+
+  async send(config, event) {
+    const { monitor, incident, eventType, acknowledgeUrl } = event;
+    const monitorName = getMonitorName(monitor);
+    const region = getIncidentRegion(incident);
+    const title = getNotificationTitle(event);
+    const subject = `${getEventStyle(eventType).emoji} ${title}`;
+
+    let html: string;
+
+    if (isAlertEvent(eventType)) {
+      html = `
+        <h2>${title}</h2>
+        <p>${ALERT_DESCRIPTIONS[eventType]}</p>
+        <ul>
+          <li><strong>Monitor:</strong> ${monitorName}</li>
+          <li><strong>Type:</strong> ${monitor.monitorType.toUpperCase()}</li>
+          <li><strong>Region:</strong> ${region}</li>
+          <li><strong>Time:</strong> ${formatIncidentTime(incident)}</li>
+          ${incident.lastError ? `<li><strong>${eventType === "down" ? "Error" : "Reason"}:</strong> ${incident.lastError}</li>` : ""}
+        </ul>
+        <p>We'll continue monitoring and notify you when the service recovers.</p>
+        ${acknowledgeUrl ? `<p><a href="${acknowledgeUrl}">Acknowledge this incident</a> to stop further alerts.</p>` : ""}
+      `;
+    } else {
+      html = `
+        <h2>${title}</h2>
+        <p>Your monitor has recovered and is responding normally.</p>
+        <ul>
+          <li><strong>Monitor:</strong> ${monitorName}</li>
+          <li><strong>Type:</strong> ${monitor.monitorType.toUpperCase()}</li>
+          <li><strong>Region:</strong> ${region}</li>
+          <li><strong>${getDurationLabel(incident)}:</strong> ${formatDowntimeDuration(incident)}</li>
+          <li><strong>Recovery Time:</strong> ${DateTime.now().toLocaleString(DateTime.DATETIME_FULL)}</li>
+        </ul>
+      `;
+    }
+
+    await sendEmail(config.email!, subject, html);
+    return { attempts: 1 };
+  },
+};
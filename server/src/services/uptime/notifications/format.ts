@@ -0,0 +1,80 @@
+import { DateTime } from "luxon";
+import { getMonitorTarget } from "../monitorTarget.js";
+import { NotificationEvent, NotificationEventType, NotificationIncident, NotificationMonitor } from "./types.js";
+
+export function getMonitorName(monitor: NotificationMonitor): string {
+  return monitor.name || getMonitorTarget(monitor);
+}
+
+export function getIncidentRegion(incident: NotificationIncident): string {
+  return incident.region || "local";
+}
+
+export function formatIncidentTime(incident: NotificationIncident): string {
+  return DateTime.fromSQL(incident.startTime).toLocaleString(DateTime.DATETIME_FULL);
+}
+
+export function formatDowntimeDuration(
+  incident: NotificationIncident,
+  format: string = "hh 'hours' mm 'minutes'"
+): string {
+  return incident.endTime
+    ? DateTime.fromSQL(incident.endTime).diff(DateTime.fromSQL(incident.startTime)).toFormat(format)
+    : "Unknown";
+}
+
+// Everything except recovery reports a problem
+export const isAlertEvent = (eventType: NotificationEventType) => eventType !== "recovery";
+
+const EVENT_STYLES: Record<NotificationEventType, { emoji: string; shortcode: string; color: string }> = {
+  down: { emoji: "🔴", shortcode: ":red_circle:", color: "FF0000" },
+  degraded: { emoji: "🟡", shortcode: ":large_yellow_circle:", color: "FFC107" },
+  slo_burn: { emoji: "🟠", shortcode: ":large_orange_circle:", color: "FF9800" },
+  recovery: { emoji: "✅", shortcode: ":white_check_mark:", color: "00FF00" },
+};
+
+export const getEventStyle = (eventType: NotificationEventType) => EVENT_STYLES[eventType];
+
+// Degraded and SLO incidents aren't downtime
+export function getDurationLabel(incident: NotificationIncident): string {
+  return !incident.kind || incident.kind === "down" ? "Downtime Duration" : "Duration";
+}
+
+export function getNotificationTitle({ monitor, incident, eventType }: NotificationEvent): string {
+  const monitorName = getMonitorName(monitor);
+  switch (eventType) {
+    case "down":
+      return `Monitor Alert: ${monitorName} is DOWN`;
+    case "degraded":
+      return `Monitor Warning: ${monitorName} is DEGRADED`;
+    case "slo_burn":
+      return `SLO Alert: ${monitorName} is burning its error budget`;
+    case "recovery":
+      return incident.kind === "slo_burn"
+        ? `SLO Recovery: ${monitorName} error budget burn is back to normal`
+        : `Monitor Recovery: ${monitorName} is UP`;
+  }
+}
+
+// Stable across the down and recovery notifications of one incident so receivers can pair them
+export function getIncidentKey({ monitor, incident }: NotificationEvent): string {
+  return `rybbit-monitor-${monitor.id}-incident-${incident.id}`;
+}
+
+// Label/value pairs shown by the chat-style providers
+export function getNotificationFacts({ monitor, incident, eventType }: NotificationEvent) {
+  const facts = [
+    { name: "Monitor", value: getMonitorName(monitor) },
+    { name: "Type", value: monitor.monitorType.toUpperCase() },
+    { name: "Region", value: getIncidentRegion(incident) },
+    isAlertEvent(eventType)
+      ? { name: "Time", value: formatIncidentTime(incident) }
+      : { name: getDurationLabel(incident), value: formatDowntimeDuration(incident) },
+  ];
+
+  if (isAlertEvent(eventType) && incident.lastError) {
+    facts.push({ name: eventType === "down" ? "Error" : "Reason", value: incident.lastError });
+  }
+
+  return facts;
+}
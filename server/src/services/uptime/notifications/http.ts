@@ -0,0 +1,56 @@
+import { NotificationDeliveryError, NotificationDeliveryResult } from "./types.js";
+
+export const DEFAULT_RETRY_DELAYS_MS = [1000, 5000, 15000];
+const REQUEST_TIMEOUT_MS = 10000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rate limits and server errors are worth retrying, other client errors won't fix themselves
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * POSTs to a notification endpoint, retrying network errors, 429s and 5xx responses with the given
+ * backoff delays. Throws a NotificationDeliveryError once the attempts run out.
+ */
+export async function postWithRetry(
+  name: string,
+  url: string,
+  init: { headers?: Record<string, string>; body: string },
+  retryDelaysMs: number[] = DEFAULT_RETRY_DELAYS_MS
+): Promise<NotificationDeliveryResult> {
+  const maxAttempts = retryDelaysMs.length + 1;
+  let lastError = "";
+  let lastStatus: number | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...init.headers },
+        body: init.body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      if (response.ok) {
+        return { attempts: attempt, responseStatus: response.status };
+      }
+
+      lastStatus = response.status;
+      lastError = `${name} failed: ${response.status} ${response.statusText}`;
+
+      if (!isRetryableStatus(response.status)) {
+        throw new NotificationDeliveryError(lastError, attempt, lastStatus);
+      }
+    } catch (error) {
+      if (error instanceof NotificationDeliveryError) throw error;
+      lastStatus = undefined;
+      lastError = `${name} failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    if (attempt < maxAttempts) {
+      await sleep(retryDelaysMs[attempt - 1]);
+    }
+  }
+
+  throw new NotificationDeliveryError(lastError, maxAttempts, lastStatus);
+}
@@ -0,0 +1,47 @@
+import { discordProvider } from "./discord.js";
+import { emailProvider } from "./email.js";
+import { mattermostProvider } from "./mattermost.js";
+import { ntfyProvider } from "./ntfy.js";
+import { opsgenieProvider } from "./opsgenie.js";
+import { pagerDutyProvider } from "./pagerduty.js";
+import { slackProvider } from "./slack.js";
+import { smsProvider } from "./sms.js";
+import { teamsProvider } from "./teams.js";
+import { telegramProvider } from "./telegram.js";
+import { NotificationProvider } from "./types.js";
+import { webhookProvider } from "./webhook.js";
+
+export const NOTIFICATION_CHANNEL_TYPES = [
+  "email",
+  "discord",
+  "slack",
+  "sms",
+  "webhook",
+  "pagerduty",
+  "opsgenie",
+  "teams",
+  "telegram",
+  "mattermost",
+  "ntfy",
+] as const;
+
+export type NotificationChannelType = (typeof NOTIFICATION_CHANNEL_TYPES)[number];
+
+// Adding a channel type means writing a provider and registering it here
+const providers: Record<NotificationChannelType, NotificationProvider> = {
+  email: emailProvider,
+  discord: discordProvider,
+  slack: slackProvider,
+  sms: smsProvider,
+  webhook: webhookProvider,
+  pagerduty: pagerDutyProvider,
+  opsgenie: opsgenieProvider,
+  teams: teamsProvider,
+  telegram: telegramProvider,
+  mattermost: mattermostProvider,
+  ntfy: ntfyProvider,
+};
+
+export function getNotificationProvider(type: string): NotificationProvider | null {
+  return providers[type as NotificationChannelType] ?? null;
+}
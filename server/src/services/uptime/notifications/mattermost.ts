@@ -0,0 +1,26 @@
+import { getEventStyle, getNotificationFacts, getNotificationTitle } from "./format.js";
+import { postWithRetry } from "./http.js";
+import { NotificationProvider } from "./types.js";
+
+export const mattermostProvider: NotificationProvider = {
+  type: "mattermost",
+
+  validateConfig(config) {
+    return config.mattermostWebhookUrl ? null : "Webhook URL is required for Mattermost channel";
+  },
+
+  async send(config, event) {
+    const emoji = getEventStyle(event.eventType).shortcode;
+
+    const text = [
+      `#### ${emoji} ${getNotificationTitle(event)}`,
+      "| | |",
+      "|:--|:--|",
+      ...getNotificationFacts(event).map(fact => `| **${fact.name}** | ${fact.value.replace(/\|/g, "\\|")} |`),
+    ].join("\n");
+
+    return postWithRetry("Mattermost webhook", config.mattermostWebhookUrl!, {
+      body: JSON.stringify({ username: "Rybbit", text }),
+    });
+  },
+};
@@ -0,0 +1,55 @@
+import { getNotificationFacts, getNotificationTitle } from "./format.js";
+import { NotificationEventType } from "./types.js";
+import { postWithRetry } from "./http.js";
+import { NotificationProvider } from "./types.js";
+
+const NTFY_PRIORITIES: Record<NotificationEventType, number> = { down: 5, slo_burn: 4, degraded: 4, recovery: 3 };
+const NTFY_TAGS: Record<NotificationEventType, string> = {
+  down: "rotating_light",
+  slo_burn: "warning",
+  degraded: "warning",
+  recovery: "white_check_mark",
+};
+
+/**
+ * Splits a topic URL like https://ntfy.sh/my-alerts into the server URL and topic name. ntfy's JSON
+ * publishing endpoint lives on the server root, which avoids non-ASCII titles in headers.
+ */
+export function parseNtfyTopicUrl(topicUrl: string): { serverUrl: string; topic: string } | null {
+  try {
+    const url = new URL(topicUrl);
+    const segments = url.pathname.split("/").filter(Boolean);
+    const topic = segments.pop();
+    if (!topic) return null;
+    return { serverUrl: `${url.origin}/${segments.join("/")}`.replace(/\/$/, ""), topic };
+  } catch {
+    return null;
+  }
+}
+
+export const ntfyProvider: NotificationProvider = {
+  type: "ntfy",
+
+  validateConfig(config) {
+    if (!config.ntfyTopicUrl) return "Topic URL is required for ntfy channel";
+    if (!parseNtfyTopicUrl(config.ntfyTopicUrl)) return "Topic URL must include the topic, e.g. https://ntfy.sh/alerts";
+    return null;
+  },
+
+  async send(config, event) {
+    const { serverUrl, topic } = parseNtfyTopicUrl(config.ntfyTopicUrl!)!;
+
+    return postWithRetry("ntfy publish", serverUrl, {
+      headers: config.ntfyToken ? { Authorization: `Bearer ${config.ntfyToken}` } : {},
+      body: JSON.stringify({
+        topic,
+        title: getNotificationTitle(event),
+        message: getNotificationFacts(event)
+          .map(fact => `${fact.name}: ${fact.value}`)
+          .join("\n"),
+        priority: config.ntfyPriority ?? NTFY_PRIORITIES[event.eventType],
+        tags: [NTFY_TAGS[event.eventType]],
+      }),
+    });
+  },
+};
@@ -0,0 +1,56 @@
+import { getIncidentKey, getNotificationFacts, getNotificationTitle } from "./format.js";
+import { postWithRetry } from "./http.js";
+import { NotificationEventType, NotificationProvider } from "./types.js";
+
+const OPSGENIE_ALERTS_URLS = {
+  us: "https://api.opsgenie.com/v2/alerts",
+  eu: "https://api.eu.opsgenie.com/v2/alerts",
+};
+
+const OPSGENIE_PRIORITIES: Partial<Record<NotificationEventType, string>> = {
+  down: "P1",
+  slo_burn: "P2",
+  degraded: "P3",
+};
+
+// Alerts are created with the incident key as alias, so recovery can close them by alias
+export const opsgenieProvider: NotificationProvider = {
+  type: "opsgenie",
+
+  validateConfig(config) {
+    return config.opsgenieApiKey ? null : "API key is required for Opsgenie channel";
+  },
+
+  async send(config, event) {
+    const alertsUrl = OPSGENIE_ALERTS_URLS[config.opsgenieRegion ?? "us"];
+    const alias = getIncidentKey(event);
+    const headers = { Authorization: `GenieKey ${config.opsgenieApiKey}` };
+    const facts = getNotificationFacts(event);
+
+    if (event.eventType === "recovery") {
+      return postWithRetry(
+        "Opsgenie close alert",
+        `${alertsUrl}/${encodeURIComponent(alias)}/close?identifierType=alias`,
+        {
+          headers,
+          body: JSON.stringify({
+            source: "Rybbit",
+            note: facts.map(fact => `${fact.name}: ${fact.value}`).join("\n"),
+          }),
+        }
+      );
+    }
+
+    return postWithRetry("Opsgenie create alert", alertsUrl, {
+      headers,
+      body: JSON.stringify({
+        message: getNotificationTitle(event).slice(0, 130),
+        alias,
+        description: facts.map(fact => `${fact.name}: ${fact.value}`).join("\n"),
+        details: Object.fromEntries(facts.map(fact => [fact.name, fact.value])),
+        priority: OPSGENIE_PRIORITIES[event.eventType],
+        source: "Rybbit",
+      }),
+    });
+  },
+};
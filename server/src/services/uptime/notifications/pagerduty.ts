@@ -0,0 +1,41 @@
+import { DateTime } from "luxon";
+import { getIncidentKey, getMonitorName, getNotificationFacts, getNotificationTitle, isAlertEvent } from "./format.js";
+import { postWithRetry } from "./http.js";
+import { NotificationProvider } from "./types.js";
+
+const PAGERDUTY_EVENTS_URL = "https://events.pagerduty.com/v2/enqueue";
+
+// Events v2: triggers and resolves share a dedup key so recovery closes the PagerDuty incident
+export const pagerDutyProvider: NotificationProvider = {
+  type: "pagerduty",
+
+  validateConfig(config) {
+    return config.pagerDutyRoutingKey ? null : "Routing key is required for PagerDuty channel";
+  },
+
+  async send(config, event) {
+    const { monitor, incident, eventType } = event;
+
+    const body = isAlertEvent(eventType)
+      ? {
+          routing_key: config.pagerDutyRoutingKey,
+          event_action: "trigger",
+          dedup_key: getIncidentKey(event),
+          payload: {
+            summary: getNotificationTitle(event).slice(0, 1024),
+            source: getMonitorName(monitor),
+            severity: eventType === "down" ? "critical" : "warning",
+            timestamp: DateTime.fromSQL(incident.startTime, { zone: "utc" }).toISO(),
+            component: monitor.monitorType,
+            custom_details: Object.fromEntries(getNotificationFacts(event).map(fact => [fact.name, fact.value])),
+          },
+        }
+      : {
+          routing_key: config.pagerDutyRoutingKey,
+          event_action: "resolve",
+          dedup_key: getIncidentKey(event),
+        };
+
+    return postWithRetry("PagerDuty event", PAGERDUTY_EVENTS_URL, { body: JSON.stringify(body) });
+  },
+};
@@ -0,0 +1,72 @@
+import {
+  formatDowntimeDuration,
+  formatIncidentTime,
+  getEventStyle,
+  getIncidentRegion,
+  getMonitorName,
+  getNotificationTitle,
+  isAlertEvent,
+} from "./format.js";
+import { postWithRetry } from "./http.js";
+import { NotificationProvider } from "./types.js";
+
+export const slackProvider: NotificationProvider = {
+  type: "slack",
+
+  validateConfig(config) {
+    return config.slackWebhookUrl ? null : "Webhook URL is required for Slack channel";
+  },
+
+  async send(config, event) {
+    const { monitor, incident, eventType } = event;
+    const title = getNotificationTitle(event);
+    const emoji = getEventStyle(eventType).shortcode;
+
+    const blocks: any[] = [
+      {
+        type: "header",
+        text: { type: "plain_text", text: `${emoji} ${title}`, emoji: true },
+      },
+      {
+        type: "section",
+        fields: [
+          { type: "mrkdwn", text: `*Monitor:*\n${getMonitorName(monitor)}` },
+          { type: "mrkdwn", text: `*Type:*\n${monitor.monitorType.toUpperCase()}` },
+          { type: "mrkdwn", text: `*Region:*\n${getIncidentRegion(incident)}` },
+          isAlertEvent(eventType)
+            ? { type: "mrkdwn", text: `*Time:*\n${formatIncidentTime(incident)}` }
+            : { type: "mrkdwn", text: `*Duration:*\n${formatDowntimeDuration(incident)}` },
+        ],
+      },
+    ];
+
+    if (isAlertEvent(eventType) && incident.lastError) {
+      blocks.push({
+        type: "section",
+        text: { type: "mrkdwn", text: `*${eventType === "down" ? "Error" : "Reason"}:* ${incident.lastError}` },
+      });
+    }
+
+    if (event.acknowledgeUrl) {
+      blocks.push({
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            text: { type: "plain_text", text: "Acknowledge" },
+            url: event.acknowledgeUrl,
+            style: "primary",
+          },
+        ],
+      });
+    }
+
+    const payload: any = { blocks, text: title };
+
+    if (config.slackChannel) {
+      payload.channel = config.slackChannel;
+    }
+
+    return postWithRetry("Slack webhook", config.slackWebhookUrl!, { body: JSON.stringify(payload) });
+  },
+};
@@ -0,0 +1,52 @@
+import { sendSMS } from "../../../lib/twilio.js";
+import { formatDowntimeDuration, getEventStyle, getIncidentRegion, getMonitorName, isAlertEvent } from "./format.js";
+import { NotificationDeliveryError, NotificationEventType, NotificationProvider } from "./types.js";
+
+const ALERT_TEXT: Partial<Record<NotificationEventType, string>> = {
+  down: "ALERT: {name} is DOWN",
+  degraded: "WARNING: {name} is DEGRADED",
+  slo_burn: "SLO ALERT: {name} is burning its error budget",
+};
+
+export const smsProvider: NotificationProvider = {
+  type: "sms",
+
+  validateConfig(config) {
+    return config.phoneNumber ? null : "Phone number is required for SMS channel";
+  },
+
+  async send(config, { monitor, incident, eventType }) {
+    const monitorName = getMonitorName(monitor);
+    const region = getIncidentRegion(incident);
+
+    let message: string;
+    if (isAlertEvent(eventType)) {
+      message = `${getEventStyle(eventType).emoji} ${ALERT_TEXT[eventType]!.replace("{name}", monitorName)} in ${region}`;
+      if (incident.lastError) {
+        // Truncate error to fit SMS limits
+        const truncatedError =
+          incident.lastError.length > 50 ? incident.lastError.substring(0, 47) + "..." : incident.lastError;
+        message += ` - ${truncatedError}`;
+      }
+    } else {
+      const duration = formatDowntimeDuration(incident, "h'h' m'm'");
+      message =
+        incident.kind === "degraded" || incident.kind === "slo_burn"
+          ? `✅ RECOVERY: ${monitorName} is back to normal in ${region} after ${duration}`
+          : `✅ RECOVERY: ${monitorName} is UP in ${region} after ${duration} downtime`;
+    }
+
+    // SMS messages should be concise - limit to 160 chars for single SMS
+    if (message.length > 160) {
+      message = message.substring(0, 157) + "...";
+    }
+
+    const result = await sendSMS(config.phoneNumber!, message);
+
+    if (!result.success) {
+      throw new NotificationDeliveryError(result.error || "Failed to send SMS");
+    }
+
+    return { attempts: 1 };
+  },
+};
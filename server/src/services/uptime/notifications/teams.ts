@@ -0,0 +1,32 @@
+import { getEventStyle, getNotificationFacts, getNotificationTitle } from "./format.js";
+import { postWithRetry } from "./http.js";
+import { NotificationProvider } from "./types.js";
+
+export const teamsProvider: NotificationProvider = {
+  type: "teams",
+
+  validateConfig(config) {
+    return config.teamsWebhookUrl ? null : "Webhook URL is required for Microsoft Teams channel";
+  },
+
+  async send(config, event) {
+    const title = getNotificationTitle(event);
+    const style = getEventStyle(event.eventType);
+
+    const card = {
+      "@type": "MessageCard",
+      "@context": "https://schema.org/extensions",
+      themeColor: style.color,
+      summary: title,
+      sections: [
+        {
+          activityTitle: `${style.emoji} ${title}`,
+          facts: getNotificationFacts(event),
+          markdown: true,
+        },
+      ],
+    };
+
+    return postWithRetry("Microsoft Teams webhook", config.teamsWebhookUrl!, { body: JSON.stringify(card) });
+  },
+};
@@ -0,0 +1,26 @@
+import { getEventStyle, getNotificationFacts, getNotificationTitle } from "./format.js";
+import { postWithRetry } from "./http.js";
+import { NotificationProvider } from "./types.js";
+
+export const telegramProvider: NotificationProvider = {
+  type: "telegram",
+
+  validateConfig(config) {
+    if (!config.telegramBotToken) return "Bot token is required for Telegram channel";
+    if (!config.telegramChatId) return "Chat ID is required for Telegram channel";
+    return null;
+  },
+
+  async send(config, event) {
+    // Plain text so monitor names and errors don't need escaping for Telegram's markup modes
+    const text = [
+      `${getEventStyle(event.eventType).emoji} ${getNotificationTitle(event)}`,
+      "",
+      ...getNotificationFacts(event).map(fact => `${fact.name}: ${fact.value}`),
+    ].join("\n");
+
+    return postWithRetry("Telegram message", `https://api.telegram.org/bot${config.telegramBotToken}/sendMessage`, {
+      body: JSON.stringify({ chat_id: config.telegramChatId, text, disable_web_page_preview: true }),
+    });
+  },
+};
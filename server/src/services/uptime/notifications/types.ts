@@ -0,0 +1,81 @@
+import { InferSelectModel } from "drizzle-orm";
+import { notificationChannels } from "../../../db/postgres/schema.js";
+
+export type NotificationChannel = InferSelectModel<typeof notificationChannels>;
+export type NotificationChannelConfig = NotificationChannel["config"];
+
+// 'degraded' and 'slo_burn' are raised by degraded and SLO incidents, 'recovery' closes any kind
+export type NotificationEventType = "down" | "degraded" | "slo_burn" | "recovery";
+
+export interface NotificationMonitor {
+  id: number;
+  organizationId: string;
+  name?: string | null;
+  monitorType: string;
+  httpConfig?: {
+    url: string;
+  } | null;
+  tcpConfig?: {
+    host: string;
+    port: number;
+  } | null;
+  dnsConfig?: {
+    hostname: string;
+    recordType: string;
+  } | null;
+  pingConfig?: {
+    host: string;
+  } | null;
+  smtpConfig?: {
+    host: string;
+    port: number;
+  } | null;
+  tlsConfig?: {
+    host: string;
+    port: number;
+  } | null;
+  multistepConfig?: {
+    steps: Array<{ url: string }>;
+  } | null;
+}
+
+export interface NotificationIncident {
+  id: number;
+  region?: string | null;
+  kind?: string; // 'down', 'degraded', 'slo_burn'
+  startTime: string;
+  endTime?: string | null;
+  lastError?: string | null;
+  lastErrorType?: string | null;
+  status: string;
+}
+
+export interface NotificationEvent {
+  monitor: NotificationMonitor;
+  incident: NotificationIncident;
+  eventType: NotificationEventType;
+  // Signed link that acknowledges the incident, only set on down events
+  acknowledgeUrl?: string | null;
+}
+
+export interface NotificationDeliveryResult {
+  attempts: number;
+  responseStatus?: number;
+}
+
+export interface NotificationProvider {
+  type: string;
+  // Returns an error message when the channel config is missing something the provider needs
+  validateConfig(config: NotificationChannelConfig): string | null;
+  send(config: NotificationChannelConfig, event: NotificationEvent): Promise<NotificationDeliveryResult>;
+}
+
+export class NotificationDeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: number = 1,
+    public readonly responseStatus?: number
+  ) {
+    super(message);
+  }
+}
@@ -0,0 +1,122 @@
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { NotificationChannelConfig, NotificationDeliveryError, NotificationEvent } from "./types.js";
+import { createWebhookProvider, renderWebhookTemplate } from "./webhook.js";
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const event: NotificationEvent = {
+  monitor: {
+    id: 7,
+    organizationId: "org",
+    name: 'API "prod"',
+    monitorType: "http",
+    httpConfig: { url: "https://x.io" },
+  },
+  incident: { id: 42, region: "us-east", startTime: "2024-03-10 02:00:00", lastError: "Timeout", status: "active" },
+  eventType: "down",
+};
+
+describe("webhook provider", () => {
+  let server: http.Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  // Status codes to answer with, in order; 200 once exhausted
+  let responses: number[];
+
+  beforeEach(async () => {
+    received = [];
+    responses = [];
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("signs the body with the shared secret", async () => {
+    const provider = createWebhookProvider([]);
+    const config: NotificationChannelConfig = {
+      webhookUrl: url,
+      webhookSecret: "s3cret",
+      webhookHeaders: { "X-Env": "ci" },
+    };
+
+    await expect(provider.send(config, event)).resolves.toEqual({ attempts: 1, responseStatus: 200 });
+
+    const [request] = received;
+    const timestamp = request.headers["x-rybbit-timestamp"];
+    const expected = crypto.createHmac("sha256", "s3cret").update(`${timestamp}.${request.body}`).digest("hex");
+    expect(request.headers["x-rybbit-signature"]).toBe(`sha256=${expected}`);
+    expect(request.headers["x-rybbit-event"]).toBe("down");
+    expect(request.headers["x-env"]).toBe("ci");
+    expect(JSON.parse(request.body)).toMatchObject({
+      event: "down",
+      key: "rybbit-monitor-7-incident-42",
+      monitor: { id: 7, name: 'API "prod"' },
+      incident: { id: 42, region: "us-east", error: "Timeout" },
+    });
+  });
+
+  it("renders templates with escaped values", async () => {
+    const provider = createWebhookProvider([]);
+    const webhookTemplate = '{"text": "{{monitor.name}} is {{event}}", "id": {{incident.id}}, "missing": "{{nope}}"}';
+
+    await provider.send({ webhookUrl: url, webhookTemplate }, event);
+
+    expect(JSON.parse(received[0].body)).toEqual({ text: 'API "prod" is down', id: 42, missing: "" });
+    expect(received[0].headers["x-rybbit-signature"]).toBeUndefined();
+  });
+
+  it("retries server errors and succeeds", async () => {
+    responses = [500, 429];
+
+    const result = await createWebhookProvider([1, 1]).send({ webhookUrl: url }, event);
+
+    expect(result).toEqual({ attempts: 3, responseStatus: 200 });
+    expect(received).toHaveLength(3);
+  });
+
+  it("gives up after the last retry and doesn't retry client errors", async () => {
+    responses = [503, 503, 503];
+    const failure = await createWebhookProvider([1, 1])
+      .send({ webhookUrl: url }, event)
+      .catch(error => error);
+
+    expect(failure).toBeInstanceOf(NotificationDeliveryError);
+    expect(failure).toMatchObject({ attempts: 3, responseStatus: 503 });
+
+    received = [];
+    responses = [404];
+    await expect(createWebhookProvider([1, 1]).send({ webhookUrl: url }, event)).rejects.toMatchObject({
+      attempts: 1,
+      responseStatus: 404,
+    });
+    expect(received).toHaveLength(1);
+  });
+
+  it("rejects templates that don't render to JSON", () => {
+    const provider = createWebhookProvider([]);
+
+    expect(provider.validateConfig({ webhookUrl: url, webhookTemplate: '{"text": {{monitor.name}}}' })).toMatch(
+      /valid JSON/
+    );
+    expect(provider.validateConfig({ webhookTemplate: "{}" })).toMatch(/URL is required/);
+    expect(() => renderWebhookTemplate("{{monitor}}", event)).not.toThrow();
+  });
+});
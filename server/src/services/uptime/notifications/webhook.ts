@@ -0,0 +1,122 @@
+import crypto from "crypto";
+import { DateTime } from "luxon";
+import { getMonitorTarget } from "../monitorTarget.js";
+import { getIncidentKey, getMonitorName } from "./format.js";
+import { DEFAULT_RETRY_DELAYS_MS, postWithRetry } from "./http.js";
+import { NotificationDeliveryError, NotificationEvent, NotificationProvider } from "./types.js";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Rybbit-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Rybbit-Timestamp";
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const SAMPLE_EVENT: NotificationEvent = {
+  monitor: { id: 1, organizationId: "org", name: "Sample", monitorType: "http", httpConfig: { url: "https://a.b" } },
+  incident: { id: 1, region: "local", startTime: "2024-01-01 00:00:00", lastError: "Timeout", status: "active" },
+  eventType: "down",
+};
+
+/**
+ * The default webhook body. Templates reference the same fields, e.g. `{{monitor.name}}`.
+ */
+export function buildWebhookPayload(event: NotificationEvent) {
+  const { monitor, incident, eventType } = event;
+  return {
+    event: eventType,
+    key: getIncidentKey(event),
+    monitor: {
+      id: monitor.id,
+      name: getMonitorName(monitor),
+      type: monitor.monitorType,
+      target: getMonitorTarget(monitor),
+    },
+    incident: {
+      id: incident.id,
+      region: incident.region || "local",
+      kind: incident.kind ?? "down",
+      status: incident.status,
+      startTime: DateTime.fromSQL(incident.startTime, { zone: "utc" }).toISO(),
+      endTime: incident.endTime ? DateTime.fromSQL(incident.endTime, { zone: "utc" }).toISO() : null,
+      error: incident.lastError ?? null,
+      errorType: incident.lastErrorType ?? null,
+    },
+    acknowledgeUrl: event.acknowledgeUrl ?? null,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function lookup(source: unknown, path: string): unknown {
+  return path.split(".").reduce<any>((value, key) => (value == null ? undefined : value[key]), source);
+}
+
+/**
+ * Renders a JSON template, replacing `{{path}}` placeholders with JSON-escaped values from the
+ * default payload. Missing values render as an empty string. Throws if the result isn't valid JSON.
+ */
+export function renderWebhookTemplate(template: string, event: NotificationEvent): string {
+  const payload = buildWebhookPayload(event);
+  const rendered = template.replace(PLACEHOLDER_PATTERN, (_, path: string) => {
+    const value = lookup(payload, path);
+    if (value == null) return "";
+    if (typeof value === "object") return JSON.stringify(value);
+    // Escape without the surrounding quotes so placeholders can sit inside template strings
+    return typeof value === "string" ? JSON.stringify(value).slice(1, -1) : String(value);
+  });
+
+  JSON.parse(rendered);
+  return rendered;
+}
+
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function createWebhookProvider(retryDelaysMs: number[] = DEFAULT_RETRY_DELAYS_MS): NotificationProvider {
+  return {
+    type: "webhook",
+
+    validateConfig(config) {
+      if (!config.webhookUrl) {
+        return "Webhook URL is required for webhook channel";
+      }
+      if (config.webhookTemplate) {
+        try {
+          renderWebhookTemplate(config.webhookTemplate, SAMPLE_EVENT);
+        } catch {
+          return "Webhook template must render to valid JSON";
+        }
+      }
+      return null;
+    },
+
+    async send(config, event) {
+      let body: string;
+      try {
+        body = config.webhookTemplate
+          ? renderWebhookTemplate(config.webhookTemplate, event)
+          : JSON.stringify(buildWebhookPayload(event));
+      } catch (error) {
+        throw new NotificationDeliveryError(
+          `Webhook template did not render to valid JSON: ${error instanceof Error ? error.message : error}`
+        );
+      }
+
+      const headers: Record<string, string> = {
+        ...config.webhookHeaders,
+        "User-Agent": "Rybbit-Webhook/1.0",
+        "X-Rybbit-Event": event.eventType,
+      };
+
+      // Receivers verify by recomputing the HMAC over "<timestamp>.<body>" with the shared secret
+      if (config.webhookSecret) {
+        const timestamp = Math.floor(Date.now() / 1000);
+        headers[WEBHOOK_TIMESTAMP_HEADER] = String(timestamp);
+        headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookBody(config.webhookSecret, timestamp, body);
+      }
+
+      return postWithRetry("Webhook", config.webhookUrl!, { headers, body }, retryDelaysMs);
+    },
+  };
+}
+
+export const webhookProvider = createWebhookProvider();
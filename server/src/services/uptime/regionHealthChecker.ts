@@ -2,6 +2,7 @@ import { eq } from "drizzle-orm";
 import { db } from "../../db/postgres/postgres.js";
 import { agentRegions } from "../../db/postgres/schema.js";
 import { createServiceLogger } from "../../lib/logger/logger.js";
+import { getHeartbeatHealth } from "./agentRegistry.js";
 
 export class RegionHealthChecker {
   private intervalMs: number;
@@ -44,12 +45,18 @@ export class RegionHealthChecker {
 
       this.logger.debug(`Checking health of ${remoteRegions.length} remote regions`);
 
-      const healthPromises = remoteRegions.map(region =>
-        this.checkRegionHealth(region).catch(error => {
+      const healthPromises = remoteRegions.map(region => {
+        // Pull agents report in through heartbeats instead
+        const heartbeatHealth = getHeartbeatHealth(region);
+        if (heartbeatHealth !== null) {
+          return Promise.resolve({ region, isHealthy: heartbeatHealth });
+        }
+
+        return this.checkRegionHealth(region).catch(error => {
           this.logger.error(error, `Error checking health of region ${region.code}`);
           return { region, isHealthy: false };
-        })
-      );
+        });
+      });
 
       const results = await Promise.all(healthPromises);
 
@@ -72,6 +79,11 @@ export class RegionHealthChecker {
   }
 
   private async checkRegionHealth(region: any): Promise<{ region: any; isHealthy: boolean }> {
+    if (!region.endpointUrl) {
+      this.logger.warn({ regionCode: region.code }, "Push region has no endpoint URL");
+      return { region, isHealthy: false };
+    }
+
     try {
       const response = await fetch(`${region.endpointUrl}/health`, {
         method: "GET",
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { describeSloBurn, getBurnRate, getSloStatus } from "./slo.js";
+
+const slo = {
+  name: "API availability",
+  targetPercentage: 99.9,
+  windowDays: 30,
+  burnRateThreshold: 14.4,
+  burnRateWindowMinutes: 60,
+};
+
+describe("getBurnRate", () => {
+  it("is the failure rate relative to the error budget", () => {
+    expect(getBurnRate({ total: 1000, failed: 1 }, 99.9)).toBeCloseTo(1);
+    expect(getBurnRate({ total: 60, failed: 6 }, 99)).toBeCloseTo(10);
+    expect(getBurnRate({ total: 0, failed: 0 }, 99.9)).toBeNull();
+  });
+});
+
+describe("getSloStatus", () => {
+  it("alerts once the burn rate reaches the threshold", () => {
+    const status = getSloStatus(slo, { total: 43200, failed: 20 }, { total: 60, failed: 1 });
+    expect(status.attainmentPercentage).toBeCloseTo(99.9537, 3);
+    expect(status.errorBudgetRemaining).toBeCloseTo(0.537, 3);
+    expect(status.burnRate).toBeCloseTo(16.67, 2);
+    expect(status.burning).toBe(true);
+
+    expect(getSloStatus(slo, { total: 43200, failed: 20 }, { total: 60, failed: 0 }).burning).toBe(false);
+  });
+
+  it("goes negative once the budget is spent", () => {
+    expect(getSloStatus(slo, { total: 1000, failed: 2 }, { total: 60, failed: 0 }).errorBudgetRemaining).toBeCloseTo(
+      -1
+    );
+  });
+
+  it("has nothing to report before the first check", () => {
+    expect(getSloStatus(slo, { total: 0, failed: 0 }, { total: 0, failed: 0 })).toEqual({
+      attainmentPercentage: null,
+      errorBudgetRemaining: null,
+      burnRate: null,
+      burning: false,
+    });
+  });
+});
+
+describe("describeSloBurn", () => {
+  it("includes the burn rate and attainment", () => {
+    const status = getSloStatus(slo, { total: 43200, failed: 20 }, { total: 60, failed: 1 });
+    expect(describeSloBurn(slo, status)).toBe(
+      "API availability: error budget burning at 16.7x (alert at 14.4x) over the last 60 minutes; 99.954% over 30 days against a 99.9% target"
+    );
+  });
+});
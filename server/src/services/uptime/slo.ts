@@ -0,0 +1,63 @@
+export interface SloCheckCounts {
+  total: number;
+  failed: number;
+}
+
+export interface SloObjective {
+  targetPercentage: number;
+  windowDays: number;
+  burnRateThreshold: number;
+  burnRateWindowMinutes: number;
+}
+
+export interface SloStatus {
+  // Share of successful checks over the SLO window, null before the first check
+  attainmentPercentage: number | null;
+  // Fraction of the window's error budget left; negative once the SLO is breached
+  errorBudgetRemaining: number | null;
+  // How fast the budget burned over the alert window, 1 being exactly on budget
+  burnRate: number | null;
+  burning: boolean;
+}
+
+/**
+ * Failure rate relative to the error budget. A burn rate of 14.4 uses up a 30 day budget in about two days.
+ */
+export function getBurnRate(counts: SloCheckCounts, targetPercentage: number): number | null {
+  if (counts.total === 0) {
+    return null;
+  }
+  const errorBudget = 1 - targetPercentage / 100;
+  return counts.failed / counts.total / errorBudget;
+}
+
+export function getSloStatus(
+  slo: SloObjective,
+  windowCounts: SloCheckCounts,
+  burnRateCounts: SloCheckCounts
+): SloStatus {
+  const windowBurnRate = getBurnRate(windowCounts, slo.targetPercentage);
+  const burnRate = getBurnRate(burnRateCounts, slo.targetPercentage);
+
+  return {
+    attainmentPercentage:
+      windowCounts.total > 0 ? (100 * (windowCounts.total - windowCounts.failed)) / windowCounts.total : null,
+    errorBudgetRemaining: windowBurnRate === null ? null : 1 - windowBurnRate,
+    burnRate,
+    burning: burnRate !== null && burnRate >= slo.burnRateThreshold,
+  };
+}
+
+/**
+ * Incident text for a burn-rate alert, shown as the incident error and in notifications.
+ */
+export function describeSloBurn(slo: SloObjective & { name: string }, status: SloStatus): string {
+  const attainment =
+    status.attainmentPercentage === null
+      ? ""
+      : `; ${status.attainmentPercentage.toFixed(3)}% over ${slo.windowDays} days against a ${slo.targetPercentage}% target`;
+  return (
+    `${slo.name}: error budget burning at ${(status.burnRate ?? 0).toFixed(1)}x ` +
+    `(alert at ${slo.burnRateThreshold}x) over the last ${slo.burnRateWindowMinutes} minutes${attainment}`
+  );
+}
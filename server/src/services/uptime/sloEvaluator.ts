@@ -0,0 +1,163 @@
+import { and, eq, inArray } from "drizzle-orm";
+import { clickhouse } from "../../db/clickhouse/clickhouse.js";
+import { db } from "../../db/postgres/postgres.js";
+import { uptimeIncidents, uptimeMonitors, uptimeSlos } from "../../db/postgres/schema.js";
+import { createServiceLogger } from "../../lib/logger/logger.js";
+import { EscalationService } from "./escalationService.js";
+import { describeSloBurn, getSloStatus, SloCheckCounts, SloObjective, SloStatus } from "./slo.js";
+
+type Slo = typeof uptimeSlos.$inferSelect;
+
+/**
+ * Check counts over the SLO window and the burn-rate window. Checks during maintenance don't count.
+ */
+export async function getSloCheckCounts(
+  monitorId: number,
+  slo: Pick<SloObjective, "windowDays" | "burnRateWindowMinutes">
+): Promise<{ window: SloCheckCounts; burnRate: SloCheckCounts }> {
+  const result = await clickhouse.query({
+    query: `
+      SELECT
+        count() AS window_total,
+        countIf(status != 'success') AS window_failed,
+        countIf(timestamp >= now() - INTERVAL {burnRateWindowMinutes:UInt32} MINUTE) AS burn_total,
+        countIf(timestamp >= now() - INTERVAL {burnRateWindowMinutes:UInt32} MINUTE AND status != 'success') AS burn_failed
+      FROM monitor_events
+      WHERE monitor_id = {monitorId:UInt32}
+        AND in_maintenance = 0
+        AND timestamp >= now() - INTERVAL {windowDays:UInt32} DAY
+    `,
+    query_params: { monitorId, windowDays: slo.windowDays, burnRateWindowMinutes: slo.burnRateWindowMinutes },
+  });
+
+  const rows = await result.json<{
+    window_total: string;
+    window_failed: string;
+    burn_total: string;
+    burn_failed: string;
+  }>();
+  const row = rows.data[0];
+
+  return {
+    window: { total: Number(row?.window_total ?? 0), failed: Number(row?.window_failed ?? 0) },
+    burnRate: { total: Number(row?.burn_total ?? 0), failed: Number(row?.burn_failed ?? 0) },
+  };
+}
+
+export async function evaluateSlo(slo: Slo): Promise<SloStatus> {
+  const counts = await getSloCheckCounts(slo.monitorId, slo);
+  return getSloStatus(slo, counts.window, counts.burnRate);
+}
+
+/**
+ * Periodically recomputes every enabled SLO from monitor_events. An slo_burn incident opens while the
+ * error budget burns faster than the SLO's threshold and resolves once it slows down again.
+ */
+export class SloEvaluator {
+  private intervalId: NodeJS.Timeout | null = null;
+  private logger = createServiceLogger("slo-evaluator");
+
+  constructor(
+    private escalationService: EscalationService,
+    private intervalMs: number = 5 * 60 * 1000
+  ) {}
+
+  async start(): Promise<void> {
+    this.logger.info(`Starting SLO evaluator with interval: ${this.intervalMs}ms`);
+
+    await this.evaluateAll();
+
+    this.intervalId = setInterval(async () => {
+      await this.evaluateAll();
+    }, this.intervalMs);
+  }
+
+  async stop(): Promise<void> {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.logger.info("SLO evaluator stopped");
+    }
+  }
+
+  private async evaluateAll(): Promise<void> {
+    try {
+      const slos = await db.query.uptimeSlos.findMany({
+        where: eq(uptimeSlos.enabled, true),
+      });
+
+      // One at a time, these are a ClickHouse query each
+      for (const slo of slos) {
+        try {
+          await this.evaluate(slo);
+        } catch (error) {
+          this.logger.error(error, `Failed to evaluate SLO ${slo.id}`);
+        }
+      }
+    } catch (error) {
+      this.logger.error(error, "Failed to load SLOs");
+    }
+  }
+
+  private async evaluate(slo: Slo): Promise<void> {
+    const status = await evaluateSlo(slo);
+
+    const activeIncident = await db.query.uptimeIncidents.findFirst({
+      where: and(
+        eq(uptimeIncidents.sloId, slo.id),
+        eq(uptimeIncidents.kind, "slo_burn"),
+        inArray(uptimeIncidents.status, ["active", "acknowledged"])
+      ),
+    });
+
+    if (!status.burning && !activeIncident) {
+      return;
+    }
+
+    const monitor = await db.query.uptimeMonitors.findFirst({
+      where: eq(uptimeMonitors.id, slo.monitorId),
+    });
+
+    if (!monitor) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+
+    if (status.burning && !activeIncident) {
+      const [incident] = await db
+        .insert(uptimeIncidents)
+        .values({
+          organizationId: slo.organizationId,
+          monitorId: slo.monitorId,
+          kind: "slo_burn",
+          sloId: slo.id,
+          startTime: now,
+          status: "active",
+          lastError: describeSloBurn(slo, status),
+          failureCount: 1,
+        })
+        .returning();
+      this.logger.info({ sloId: slo.id, burnRate: status.burnRate }, "Opened SLO burn incident");
+
+      await this.escalationService.onIncidentOpened(monitor, incident);
+    } else if (status.burning && activeIncident) {
+      await db
+        .update(uptimeIncidents)
+        .set({
+          failureCount: (activeIncident.failureCount || 0) + 1,
+          lastError: describeSloBurn(slo, status),
+          updatedAt: now,
+        })
+        .where(eq(uptimeIncidents.id, activeIncident.id));
+    } else if (activeIncident) {
+      await db
+        .update(uptimeIncidents)
+        .set({ status: "resolved", endTime: now, resolvedAt: now, updatedAt: now })
+        .where(eq(uptimeIncidents.id, activeIncident.id));
+      this.logger.info({ sloId: slo.id, burnRate: status.burnRate }, "Resolved SLO burn incident");
+
+      await this.escalationService.onIncidentResolved(monitor, { ...activeIncident, status: "resolved", endTime: now });
+    }
+  }
+}
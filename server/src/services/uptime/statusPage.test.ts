@@ -0,0 +1,57 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import { buildDailyUptimeBars, getOverallStatus, getUptimePercentage } from "./statusPage.js";
+
+describe("buildDailyUptimeBars", () => {
+  const now = DateTime.fromISO("2024-03-10T15:30:00Z", { zone: "utc" });
+
+  it("returns one bar per day ending today, oldest first", () => {
+    const bars = buildDailyUptimeBars([], 3, now);
+
+    expect(bars.map(bar => bar.date)).toEqual(["2024-03-08", "2024-03-09", "2024-03-10"]);
+    expect(bars.every(bar => bar.totalChecks === 0 && bar.uptimePercentage === null)).toBe(true);
+  });
+
+  it("fills in uptime for days with checks", () => {
+    const bars = buildDailyUptimeBars(
+      [
+        { date: "2024-03-09", total_checks: 3, successful_checks: 2 },
+        { date: "2024-03-10", total_checks: 4, successful_checks: 4 },
+      ],
+      3,
+      now
+    );
+
+    expect(bars).toEqual([
+      { date: "2024-03-08", totalChecks: 0, uptimePercentage: null },
+      { date: "2024-03-09", totalChecks: 3, uptimePercentage: 66.67 },
+      { date: "2024-03-10", totalChecks: 4, uptimePercentage: 100 },
+    ]);
+  });
+});
+
+describe("getUptimePercentage", () => {
+  it("weighs days by their number of checks", () => {
+    expect(
+      getUptimePercentage([
+        { date: "2024-03-09", total_checks: 1, successful_checks: 0 },
+        { date: "2024-03-10", total_checks: 99, successful_checks: 99 },
+      ])
+    ).toBe(99);
+    expect(getUptimePercentage([])).toBeNull();
+  });
+});
+
+describe("getOverallStatus", () => {
+  it("ignores monitors that haven't been checked yet", () => {
+    expect(getOverallStatus(["up", "unknown"])).toBe("operational");
+    expect(getOverallStatus(["up", "down"])).toBe("partial_outage");
+    expect(getOverallStatus(["down", "unknown"])).toBe("major_outage");
+    expect(getOverallStatus(["unknown"])).toBe("unknown");
+  });
+
+  it("reports degraded monitors unless something is down", () => {
+    expect(getOverallStatus(["up", "degraded"])).toBe("degraded_performance");
+    expect(getOverallStatus(["degraded", "down", "up"])).toBe("partial_outage");
+  });
+});
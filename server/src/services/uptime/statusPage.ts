@@ -0,0 +1,72 @@
+import { DateTime } from "luxon";
+
+export const STATUS_PAGE_DAYS = 90;
+
+export type MonitorCurrentStatus = "up" | "degraded" | "down" | "unknown";
+export type StatusPageOverallStatus =
+  | "operational"
+  | "degraded_performance"
+  | "partial_outage"
+  | "major_outage"
+  | "unknown";
+
+export interface DailyCheckCounts {
+  date: string; // YYYY-MM-DD (UTC)
+  total_checks: number;
+  successful_checks: number;
+}
+
+export interface DailyUptimeBar {
+  date: string;
+  totalChecks: number;
+  // null when the monitor wasn't checked that day
+  uptimePercentage: number | null;
+}
+
+/**
+ * Expands per-day check counts into one bar per day for the last `days` days (UTC), oldest first.
+ */
+export function buildDailyUptimeBars(
+  rows: DailyCheckCounts[],
+  days: number = STATUS_PAGE_DAYS,
+  now: DateTime = DateTime.utc()
+): DailyUptimeBar[] {
+  const countsByDate = new Map(rows.map(row => [row.date, row]));
+  const today = now.toUTC().startOf("day");
+
+  return Array.from({ length: days }, (_, index) => {
+    const date = today.minus({ days: days - 1 - index }).toISODate()!;
+    const counts = countsByDate.get(date);
+    const totalChecks = Number(counts?.total_checks ?? 0);
+
+    return {
+      date,
+      totalChecks,
+      uptimePercentage:
+        totalChecks > 0 ? Math.round((10000 * Number(counts!.successful_checks)) / totalChecks) / 100 : null,
+    };
+  });
+}
+
+// Uptime over every check in the window, so days with more checks weigh more
+export function getUptimePercentage(rows: DailyCheckCounts[]): number | null {
+  const total = rows.reduce((sum, row) => sum + Number(row.total_checks), 0);
+  if (total === 0) {
+    return null;
+  }
+  const successful = rows.reduce((sum, row) => sum + Number(row.successful_checks), 0);
+  return Math.round((10000 * successful) / total) / 100;
+}
+
+export function getOverallStatus(statuses: MonitorCurrentStatus[]): StatusPageOverallStatus {
+  const known = statuses.filter(status => status !== "unknown");
+  if (known.length === 0) {
+    return "unknown";
+  }
+
+  const down = known.filter(status => status === "down").length;
+  if (down === 0) {
+    return known.includes("degraded") ? "degraded_performance" : "operational";
+  }
+  return down === known.length ? "major_outage" : "partial_outage";
+}
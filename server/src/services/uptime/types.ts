@@ -16,7 +16,15 @@ export interface HttpCheckResult {
   };
   headers: Record<string, string>;
   bodySizeBytes: number;
+  // Redirects followed before the final response
+  redirectCount?: number;
+  // Only set when the check was asked to look up the certificate
+  tlsDaysUntilExpiry?: number;
   validationErrors: string[];
+  // Failed warning rules, which degrade the monitor rather than fail the check
+  validationWarnings?: string[];
+  // Only set when the check was asked to capture it; never stored
+  responseBody?: string;
   error?: {
     message: string;
     type: string;
@@ -27,29 +35,64 @@ export interface TcpCheckResult {
   status: "success" | "failure" | "timeout";
   responseTimeMs: number;
   validationErrors: string[];
+  validationWarnings?: string[];
   error?: {
     message: string;
     type: string;
   };
 }
 
-export type CheckResult = HttpCheckResult | TcpCheckResult;
+export interface DnsCheckResult extends TcpCheckResult {
+  answers: string[];
+}
+
+export interface PingCheckResult extends TcpCheckResult {
+  packetLossPercent?: number;
+}
+
+export interface SmtpCheckResult extends TcpCheckResult {
+  banner?: string;
+}
+
+export interface TlsCheckResult extends TcpCheckResult {
+  daysUntilExpiry?: number;
+  validTo?: string;
+  issuer?: string;
+}
+
+export interface MultistepStepResult {
+  name: string;
+  status: "success" | "failure" | "timeout";
+  statusCode?: number;
+  responseTimeMs: number;
+  timing: HttpCheckResult["timing"];
+  validationErrors: string[];
+  error?: {
+    message: string;
+    type: string;
+  };
+}
 
-export interface ValidationRule {
-  type:
-    | "status_code"
-    | "response_time"
-    | "response_body_contains"
-    | "response_body_not_contains"
-    | "header_exists"
-    | "header_value"
-    | "response_size";
-  operator?: "equals" | "not_equals" | "in" | "not_in" | "less_than" | "greater_than" | "contains";
-  value?: number | number[] | string;
-  header?: string;
-  caseSensitive?: boolean;
+export interface MultistepCheckResult extends TcpCheckResult {
+  // Status code of the last step that ran
+  statusCode?: number;
+  // Steps that ran, in order; steps after a failing one are skipped
+  steps: MultistepStepResult[];
 }
 
+export type MonitorType = "http" | "tcp" | "dns" | "ping" | "smtp" | "tls" | "multistep";
+
+export type CheckResult =
+  | HttpCheckResult
+  | TcpCheckResult
+  | DnsCheckResult
+  | PingCheckResult
+  | SmtpCheckResult
+  | TlsCheckResult
+  | MultistepCheckResult;
+
+export type { ValidationRule } from "@rybbit/shared";
+
 export interface MonitorEvent {
   monitor_id: number;
   organization_id: string;
@@ -67,9 +110,46 @@ export interface MonitorEvent {
   ttfb_ms?: number;
   transfer_time_ms?: number;
   validation_errors: string[];
+  validation_warnings: string[];
   response_headers: Record<string, string>;
   response_size_bytes?: number;
   port?: number;
   error_message?: string;
   error_type?: string;
+  in_maintenance: 0 | 1;
+  steps: string; // JSON encoded MultistepStepResult[], empty for other monitor types
+}
+
+// Sent to regional agents, pushed to /execute or pulled by the agent
+export interface AgentExecuteRequest {
+  jobId: string;
+  monitorId: number;
+  monitorType: string;
+  config: any;
+  validationRules: any[];
+  warningRules: any[];
+}
+
+export interface AgentExecuteResponse {
+  jobId: string;
+  region: string;
+  status: "success" | "failure" | "timeout";
+  responseTimeMs: number;
+  statusCode?: number;
+  headers?: Record<string, string>;
+  timing?: {
+    dnsMs?: number;
+    tcpMs?: number;
+    tlsMs?: number;
+    ttfbMs?: number;
+    transferMs?: number;
+  };
+  error?: {
+    message: string;
+    type: string;
+  };
+  validationErrors?: string[];
+  validationWarnings?: string[];
+  bodySizeBytes?: number;
+  steps?: MultistepStepResult[];
 }
@@ -1,20 +1,27 @@
 import { MonitorScheduler } from "./monitorScheduler.js";
 import { MonitorExecutor } from "./monitorExecutor.js";
+import { EscalationService } from "./escalationService.js";
+import { NotificationService } from "./notificationService.js";
 import { RegionHealthChecker } from "./regionHealthChecker.js";
+import { SloEvaluator } from "./sloEvaluator.js";
 import { createServiceLogger } from "../../lib/logger/logger.js";
 
 class UptimeService {
   private scheduler: MonitorScheduler;
   private executor: MonitorExecutor;
+  private escalationService: EscalationService;
   private regionHealthChecker: RegionHealthChecker;
+  private sloEvaluator: SloEvaluator;
   private initialized = false;
   private initializationPromise: Promise<void> | null = null;
   private logger = createServiceLogger("uptime");
 
   constructor() {
     this.scheduler = new MonitorScheduler();
-    this.executor = new MonitorExecutor(10); // 10 concurrent workers
+    this.escalationService = new EscalationService(new NotificationService());
+    this.executor = new MonitorExecutor(10, this.escalationService); // 10 concurrent workers
     this.regionHealthChecker = new RegionHealthChecker(60000); // Check every minute
+    this.sloEvaluator = new SloEvaluator(this.escalationService); // Every 5 minutes
   }
 
   async initialize(): Promise<void> {
@@ -40,12 +47,18 @@ class UptimeService {
       // Initialize scheduler (creates queue, loads and schedules all monitors)
       await this.scheduler.initialize();
 
+      // Start escalations before the executor so new incidents can schedule them
+      await this.escalationService.start();
+
       // Start executor (begins processing jobs)
       await this.executor.start();
 
       // Start region health checker
       await this.regionHealthChecker.start();
 
+      // Start SLO burn-rate alerting
+      await this.sloEvaluator.start();
+
       this.initialized = true;
       this.logger.info("BullMQ uptime monitoring service initialized successfully");
     } catch (error) {
@@ -62,12 +75,16 @@ class UptimeService {
       // Stop region health checker
       await this.regionHealthChecker.stop();
 
+      await this.sloEvaluator.stop();
+
       // Shutdown executor first (stops processing new jobs)
       await this.executor.shutdown();
 
       // Then shutdown scheduler (closes queue)
       await this.scheduler.shutdown();
 
+      await this.escalationService.shutdown();
+
       this.initialized = false;
       this.logger.info("BullMQ uptime monitoring service shut down successfully");
     } catch (error) {
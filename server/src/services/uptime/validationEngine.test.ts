@@ -0,0 +1,141 @@
+import { ValidationRule } from "@rybbit/shared";
+import { describe, expect, it } from "vitest";
+import { applyValidationRules, getValidationRequirements } from "./validationEngine.js";
+
+const result = {
+  statusCode: 200,
+  responseTimeMs: 120,
+  headers: { "content-type": "application/json; charset=utf-8", "x-request-id": "req-42" },
+  bodySizeBytes: 64,
+  redirectCount: 2,
+  tlsDaysUntilExpiry: 30,
+};
+
+const body = JSON.stringify({ status: "ok", version: "1.4.2", load: 0.4, items: [{ id: 1 }, { id: 2 }], tags: ["eu"] });
+
+const validate = (rules: ValidationRule[], responseBody: string | undefined = body) =>
+  applyValidationRules(result, rules, responseBody);
+
+describe("applyValidationRules", () => {
+  it("keeps the existing status code and header rules", () => {
+    expect(validate([{ type: "status_code", operator: "in", value: [200, 204] }])).toEqual([]);
+    expect(validate([{ type: "header_value", header: "X-Request-Id", operator: "equals", value: "req-1" }])).toEqual([
+      'Header "X-Request-Id" value "req-42" does not equal "req-1"',
+    ]);
+  });
+
+  it("compares JSONPath values", () => {
+    expect(
+      validate([
+        { type: "json_path", path: "$.status", operator: "equals", value: "ok" },
+        { type: "json_path", path: "$.load", operator: "less_than", value: 0.8 },
+        { type: "json_path", path: "$.items", operator: "length_equals", value: 2 },
+        { type: "json_path", path: "$.tags", operator: "contains", value: "eu" },
+        { type: "json_path", path: "$.error", operator: "not_exists" },
+      ])
+    ).toEqual([]);
+
+    expect(
+      validate([
+        { type: "json_path", path: "$.status", operator: "equals", value: "degraded" },
+        { type: "json_path", path: "$.items", operator: "length_greater_than", value: 5 },
+        { type: "json_path", path: "$.version", operator: "greater_than", value: 1 },
+      ])
+    ).toEqual([
+      '$.status is "ok", expected "degraded"',
+      "Length of $.items 2 is not greater than 5",
+      "$.version is not a number",
+    ]);
+  });
+
+  it("fails JSONPath rules on bodies that aren't JSON", () => {
+    expect(validate([{ type: "json_path", path: "$.status", operator: "exists" }], "<html></html>")).toEqual([
+      "Response body is not valid JSON",
+    ]);
+  });
+
+  it("matches regular expressions against the body and headers", () => {
+    expect(
+      validate([
+        { type: "response_body_matches", pattern: '"version":"1\\.\\d+' },
+        { type: "header_matches", header: "content-type", pattern: "^APPLICATION/JSON", caseSensitive: false },
+      ])
+    ).toEqual([]);
+    expect(validate([{ type: "header_matches", header: "x-request-id", pattern: "^id-" }])).toEqual([
+      'Header "x-request-id" value "req-42" does not match /^id-/',
+    ]);
+  });
+
+  it("checks certificate expiry and redirects", () => {
+    expect(
+      validate([
+        { type: "tls_expiry_days", operator: "greater_than", value: 14 },
+        { type: "redirect_count", operator: "equals", value: 1 },
+      ])
+    ).toEqual(["Redirect count 2 does not equal 1"]);
+    expect(
+      applyValidationRules({ ...result, tlsDaysUntilExpiry: undefined }, [
+        { type: "tls_expiry_days", operator: "greater_than", value: 14 },
+      ])
+    ).toEqual(["TLS certificate expiry is unknown"]);
+  });
+
+  it("requires every rule in an all_of group", () => {
+    expect(
+      validate([
+        {
+          type: "all_of",
+          rules: [
+            { type: "status_code", operator: "equals", value: 200 },
+            { type: "response_time", operator: "less_than", value: 100 },
+          ],
+        },
+      ])
+    ).toEqual(["Response time 120ms is not less than 100ms"]);
+  });
+
+  it("requires one rule in an any_of group", () => {
+    const anyOf = (value: string): ValidationRule => ({
+      type: "any_of",
+      rules: [
+        { type: "json_path", path: "$.status", operator: "equals", value },
+        {
+          type: "all_of",
+          rules: [
+            { type: "status_code", operator: "equals", value: 200 },
+            { type: "response_body_contains", value: "maintenance" },
+          ],
+        },
+      ],
+    });
+
+    expect(validate([anyOf("ok")])).toEqual([]);
+    expect(validate([anyOf("healthy")])).toEqual([
+      'None of the rules passed: $.status is "ok", expected "healthy"; Response body does not contain "maintenance"',
+    ]);
+  });
+
+  it("reports invalid patterns as rule errors", () => {
+    expect(validate([{ type: "response_body_matches", pattern: "(" }])[0]).toMatch(/^Validation rule error:/);
+  });
+});
+
+describe("getValidationRequirements", () => {
+  it("looks inside groups", () => {
+    expect(getValidationRequirements([{ type: "status_code", operator: "equals", value: 200 }])).toEqual({
+      responseBody: false,
+      certificate: false,
+    });
+    expect(
+      getValidationRequirements([
+        {
+          type: "any_of",
+          rules: [
+            { type: "json_path", path: "$.ok", operator: "exists" },
+            { type: "tls_expiry_days", operator: "greater_than", value: 7 },
+          ],
+        },
+      ])
+    ).toEqual({ responseBody: true, certificate: true });
+  });
+});
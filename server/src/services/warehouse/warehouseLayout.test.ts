@@ -0,0 +1,55 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import {
+  getDaysInRange,
+  getDaysToSync,
+  getManifestKey,
+  getPartitionFileKey,
+  MAX_CATCH_UP_DAYS,
+  RESYNC_TRAILING_DAYS,
+} from "./warehouseLayout.js";
+
+const now = DateTime.fromISO("2024-03-10T02:00:00", { zone: "utc" });
+
+describe("partition keys", () => {
+  it("lays out files by site, day and hour", () => {
+    expect(getPartitionFileKey("exports/rybbit/", 7, "2024-03-09", 5)).toBe(
+      "exports/rybbit/site_id=7/date=2024-03-09/hour=05/events.parquet"
+    );
+    expect(getManifestKey("", 7, "2024-03-09")).toBe("site_id=7/date=2024-03-09/manifest.json");
+  });
+});
+
+describe("getDaysInRange", () => {
+  it("includes both ends", () => {
+    expect(getDaysInRange("2024-02-28", "2024-03-01")).toEqual(["2024-02-28", "2024-02-29", "2024-03-01"]);
+  });
+
+  it("is empty for reversed or invalid ranges", () => {
+    expect(getDaysInRange("2024-03-02", "2024-03-01")).toEqual([]);
+    expect(getDaysInRange("not-a-date", "2024-03-01")).toEqual([]);
+  });
+});
+
+describe("getDaysToSync", () => {
+  it("starts with yesterday when there is no cursor", () => {
+    expect(getDaysToSync(null, now)).toEqual(["2024-03-09"]);
+  });
+
+  it("catches up on every day after the cursor", () => {
+    expect(getDaysToSync("2024-03-05", now)).toEqual(["2024-03-06", "2024-03-07", "2024-03-08", "2024-03-09"]);
+  });
+
+  it("delivers the days before yesterday again for late events", () => {
+    expect(RESYNC_TRAILING_DAYS).toBe(1);
+    expect(getDaysToSync("2024-03-08", now)).toEqual(["2024-03-08", "2024-03-09"]);
+    expect(getDaysToSync("2024-03-09", now)).toEqual(["2024-03-08", "2024-03-09"]);
+  });
+
+  it("caps long catch-ups", () => {
+    const days = getDaysToSync("2023-01-01", now);
+
+    expect(days).toHaveLength(MAX_CATCH_UP_DAYS);
+    expect(days[0]).toBe("2023-01-02");
+  });
+});
@@ -0,0 +1,79 @@
+import { DateTime } from "luxon";
+
+// Longest range a single backfill may cover
+export const MAX_BACKFILL_DAYS = 366;
+
+// Days the nightly sync catches up on per run after an outage, so one run can't monopolize the job
+export const MAX_CATCH_UP_DAYS = 31;
+
+// The tracking script's offline queue backdates events by up to a day, so events can still arrive for a day
+// after it was delivered. The nightly sync delivers this many days before yesterday again to pick them up.
+export const RESYNC_TRAILING_DAYS = 1;
+
+export interface WarehouseManifestFile {
+  key: string;
+  hour: number;
+  rowCount: number;
+  bytes: number;
+}
+
+// Written last for each day, so a manifest's presence means the day's files are complete
+export interface WarehouseManifest {
+  siteId: number;
+  date: string;
+  format: "parquet";
+  exportedAt: string;
+  rowCount: number;
+  files: WarehouseManifestFile[];
+}
+
+/**
+ * Hive-style partition path for one site and UTC day, e.g. `rybbit/site_id=1/date=2024-01-31`.
+ */
+export function getPartitionPath(prefix: string, siteId: number, date: string): string {
+  const trimmedPrefix = prefix.replace(/^\/+|\/+$/g, "");
+  const partition = `site_id=${siteId}/date=${date}`;
+  return trimmedPrefix ? `${trimmedPrefix}/${partition}` : partition;
+}
+
+export function getPartitionFileKey(prefix: string, siteId: number, date: string, hour: number): string {
+  return `${getPartitionPath(prefix, siteId, date)}/hour=${String(hour).padStart(2, "0")}/events.parquet`;
+}
+
+export function getManifestKey(prefix: string, siteId: number, date: string): string {
+  return `${getPartitionPath(prefix, siteId, date)}/manifest.json`;
+}
+
+/**
+ * Every UTC day from `startDate` through `endDate`, inclusive, as YYYY-MM-DD.
+ */
+export function getDaysInRange(startDate: string, endDate: string): string[] {
+  const start = DateTime.fromISO(startDate, { zone: "utc" });
+  const end = DateTime.fromISO(endDate, { zone: "utc" });
+  if (!start.isValid || !end.isValid || end < start) {
+    return [];
+  }
+
+  const days: string[] = [];
+  for (let day = start; day <= end; day = day.plus({ days: 1 })) {
+    days.push(day.toISODate()!);
+  }
+  return days;
+}
+
+/**
+ * Days the nightly sync should deliver at `now`: everything after the cursor up to and
+ * including yesterday (UTC), capped at MAX_CATCH_UP_DAYS, plus the RESYNC_TRAILING_DAYS
+ * before yesterday again. A sync without a cursor starts with yesterday; older data is
+ * delivered through a backfill.
+ */
+export function getDaysToSync(cursorDate: string | null, now: DateTime): string[] {
+  const yesterday = now.toUTC().startOf("day").minus({ days: 1 });
+  let start = yesterday;
+  if (cursorDate) {
+    const afterCursor = DateTime.fromISO(cursorDate, { zone: "utc" }).plus({ days: 1 });
+    start = DateTime.min(afterCursor, yesterday.minus({ days: RESYNC_TRAILING_DAYS }));
+  }
+
+  return getDaysInRange(start.toISODate()!, yesterday.toISODate()!).slice(0, MAX_CATCH_UP_DAYS);
+}
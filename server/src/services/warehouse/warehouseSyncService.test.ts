@@ -0,0 +1,72 @@
+import { S3Client } from "@aws-sdk/client-s3";
+import { Readable } from "stream";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { warehouseSyncService } from "./warehouseSyncService.js";
+
+const { clickhouseMock } = vi.hoisted(() => ({
+  clickhouseMock: { query: vi.fn(), exec: vi.fn() },
+}));
+
+vi.mock("../../db/clickhouse/clickhouse.js", () => ({ clickhouse: clickhouseMock }));
+vi.mock("../../db/postgres/postgres.js", () => ({ db: {} }));
+vi.mock("../../db/postgres/schema.js", () => ({ warehouseSyncs: {}, warehouseSyncRuns: {} }));
+vi.mock("../../lib/logger/logger.js", () => ({ createServiceLogger: () => ({ error: vi.fn(), info: vi.fn() }) }));
+vi.mock("../../api/analytics/utils.js", () => ({
+  processResults: async (result: { json: () => Promise<unknown[]> }) => result.json(),
+}));
+
+const config = {
+  id: 1,
+  siteId: 7,
+  bucket: "analytics",
+  prefix: "rybbit",
+} as Parameters<typeof warehouseSyncService.exportDay>[1];
+
+const MB = 1024 * 1024;
+
+describe("warehouseSyncService.exportDay", () => {
+  const client = new S3Client({ region: "us-east-1", credentials: { accessKeyId: "key", secretAccessKey: "secret" } });
+  const send = vi.spyOn(client, "send");
+  const commands = () => send.mock.calls.map(([command]) => command.constructor.name);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    send.mockImplementation(async () => ({ UploadId: "upload", ETag: "etag" }));
+    clickhouseMock.query.mockResolvedValue({ json: async () => [{ hour: 5, rows: 1000 }] });
+  });
+
+  it("streams each hour to S3 in parts instead of buffering it", async () => {
+    // Twelve 1 MB chunks, more than two 5 MB parts
+    const stream = Readable.from(Array.from({ length: 12 }, () => Buffer.alloc(MB)));
+    clickhouseMock.exec.mockResolvedValue({ stream });
+
+    const manifest = await warehouseSyncService.exportDay(client, config, "2024-03-09");
+
+    expect(commands()).toEqual([
+      "CreateMultipartUploadCommand",
+      "UploadPartCommand",
+      "UploadPartCommand",
+      "UploadPartCommand",
+      "CompleteMultipartUploadCommand",
+      "PutObjectCommand",
+    ]);
+    expect(manifest.files).toEqual([
+      {
+        key: "rybbit/site_id=7/date=2024-03-09/hour=05/events.parquet",
+        hour: 5,
+        rowCount: 1000,
+        bytes: 12 * MB,
+      },
+    ]);
+  });
+
+  it("fails the day when the export query breaks off", async () => {
+    const stream = new Readable({ read() {} });
+    clickhouseMock.exec.mockResolvedValue({ stream });
+    stream.push(Buffer.alloc(MB));
+    setTimeout(() => stream.destroy(new Error("Connection reset")), 10);
+
+    await expect(warehouseSyncService.exportDay(client, config, "2024-03-09")).rejects.toThrow("Connection reset");
+    expect(commands()).not.toContain("PutObjectCommand");
+  });
+});
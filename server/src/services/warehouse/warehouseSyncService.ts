@@ -0,0 +1,273 @@
+import { PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import * as cron from "node-cron";
+import { DateTime } from "luxon";
+import { eq } from "drizzle-orm";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { clickhouse } from "../../db/clickhouse/clickhouse.js";
+import { db } from "../../db/postgres/postgres.js";
+import { warehouseSyncRuns, warehouseSyncs } from "../../db/postgres/schema.js";
+import { processResults } from "../../api/analytics/utils.js";
+import { createServiceLogger } from "../../lib/logger/logger.js";
+import {
+  getDaysInRange,
+  getDaysToSync,
+  getManifestKey,
+  getPartitionFileKey,
+  MAX_BACKFILL_DAYS,
+  type WarehouseManifest,
+  type WarehouseManifestFile,
+} from "./warehouseLayout.js";
+
+type WarehouseSync = typeof warehouseSyncs.$inferSelect;
+type WarehouseSyncRun = typeof warehouseSyncRuns.$inferSelect;
+export type WarehouseSyncTrigger = "scheduled" | "backfill";
+
+export class WarehouseSyncError extends Error {}
+
+class WarehouseSyncService {
+  private cronTask: cron.ScheduledTask | null = null;
+  private logger = createServiceLogger("warehouse-sync");
+  // Sites with a run in progress; nightly and backfill runs for the same site never overlap
+  private activeSites = new Set<number>();
+
+  private createClient(config: WarehouseSync): S3Client {
+    return new S3Client({
+      region: config.region,
+      endpoint: config.endpoint || undefined,
+      credentials: {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey,
+      },
+      // Required by R2, MinIO and most other S3-compatible stores
+      forcePathStyle: !!config.endpoint,
+    });
+  }
+
+  /**
+   * Writes one Parquet file per hour with events for `date` (UTC), then the day's manifest.
+   * Days without events still get a manifest so consumers can tell them apart from missing days.
+   */
+  public async exportDay(client: S3Client, config: WarehouseSync, date: string): Promise<WarehouseManifest> {
+    const dayStart = DateTime.fromISO(date, { zone: "utc" });
+    const queryParams = {
+      siteId: config.siteId,
+      start: dayStart.toFormat("yyyy-MM-dd HH:mm:ss"),
+      end: dayStart.plus({ days: 1 }).toFormat("yyyy-MM-dd HH:mm:ss"),
+    };
+    const timeRange = `
+      site_id = {siteId:UInt16}
+      AND timestamp >= toDateTime({start:String}, 'UTC')
+      AND timestamp < toDateTime({end:String}, 'UTC')`;
+
+    const hourCounts = await processResults<{ hour: number; rows: number }>(
+      await clickhouse.query({
+        query: `SELECT toHour(timestamp, 'UTC') AS hour, count() AS rows FROM events WHERE ${timeRange} GROUP BY hour ORDER BY hour`,
+        format: "JSONEachRow",
+        query_params: queryParams,
+      })
+    );
+
+    const files: WarehouseManifestFile[] = [];
+    for (const { hour, rows } of hourCounts) {
+      const hourStart = dayStart.plus({ hours: hour });
+      // props is a native JSON column, which Parquet can't represent, so it's written as a JSON string
+      const result = await clickhouse.exec({
+        query: `
+          SELECT * REPLACE (toString(props) AS props)
+          FROM events
+          WHERE ${timeRange}
+          ORDER BY timestamp
+          FORMAT Parquet`,
+        query_params: {
+          siteId: config.siteId,
+          start: hourStart.toFormat("yyyy-MM-dd HH:mm:ss"),
+          end: hourStart.plus({ hours: 1 }).toFormat("yyyy-MM-dd HH:mm:ss"),
+        },
+      });
+
+      // Streamed with a multipart upload so a busy hour never has to fit in memory
+      let bytes = 0;
+      const body = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          bytes += chunk.length;
+          callback(null, chunk);
+        },
+      });
+      const key = getPartitionFileKey(config.prefix, config.siteId, date, hour);
+      const upload = new Upload({
+        client,
+        params: {
+          Bucket: config.bucket,
+          Key: key,
+          Body: body,
+          ContentType: "application/vnd.apache.parquet",
+        },
+      });
+      // A failed query errors the body and so the upload; a failed upload stops reading the query
+      await Promise.all([pipeline(result.stream, body), upload.done().finally(() => result.stream.destroy())]);
+      files.push({ key, hour, rowCount: Number(rows), bytes });
+    }
+
+    const manifest: WarehouseManifest = {
+      siteId: config.siteId,
+      date,
+      format: "parquet",
+      exportedAt: DateTime.utc().toISO()!,
+      rowCount: files.reduce((sum, file) => sum + file.rowCount, 0),
+      files,
+    };
+
+    await client.send(
+      new PutObjectCommand({
+        Bucket: config.bucket,
+        Key: getManifestKey(config.prefix, config.siteId, date),
+        Body: JSON.stringify(manifest, null, 2),
+        ContentType: "application/json",
+      })
+    );
+
+    return manifest;
+  }
+
+  /**
+   * Delivers `days` in order and records the outcome on `run`. Scheduled runs advance the
+   * site's cursor after each newly delivered day, so a failed run resumes where it stopped.
+   */
+  private async executeRun(run: WarehouseSyncRun, config: WarehouseSync, days: string[]): Promise<void> {
+    const client = this.createClient(config);
+    let rowCount = 0;
+    let fileCount = 0;
+
+    try {
+      for (const date of days) {
+        const manifest = await this.exportDay(client, config, date);
+        rowCount += manifest.rowCount;
+        fileCount += manifest.files.length + 1;
+
+        // Days delivered again for late events are already behind the cursor
+        if (run.trigger === "scheduled" && (!config.cursorDate || date > config.cursorDate)) {
+          await db
+            .update(warehouseSyncs)
+            .set({ cursorDate: date, updatedAt: DateTime.utc().toISO() })
+            .where(eq(warehouseSyncs.id, config.id));
+        }
+      }
+
+      await db
+        .update(warehouseSyncRuns)
+        .set({ status: "succeeded", rowCount, fileCount, finishedAt: DateTime.utc().toISO() })
+        .where(eq(warehouseSyncRuns.id, run.id));
+    } catch (error) {
+      this.logger.error({ error, siteId: config.siteId, runId: run.id }, "Warehouse sync run failed");
+      await db
+        .update(warehouseSyncRuns)
+        .set({
+          status: "failed",
+          rowCount,
+          fileCount,
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: DateTime.utc().toISO(),
+        })
+        .where(eq(warehouseSyncRuns.id, run.id));
+    } finally {
+      client.destroy();
+      this.activeSites.delete(config.siteId);
+    }
+  }
+
+  private async createRun(config: WarehouseSync, trigger: WarehouseSyncTrigger, days: string[]) {
+    if (this.activeSites.has(config.siteId)) {
+      throw new WarehouseSyncError("A warehouse sync is already running for this site");
+    }
+    this.activeSites.add(config.siteId);
+
+    try {
+      const [run] = await db
+        .insert(warehouseSyncRuns)
+        .values({
+          siteId: config.siteId,
+          trigger,
+          startDate: days[0],
+          endDate: days[days.length - 1],
+        })
+        .returning();
+      return run;
+    } catch (error) {
+      this.activeSites.delete(config.siteId);
+      throw error;
+    }
+  }
+
+  /**
+   * Starts delivering `startDate` through `endDate` in the background and returns the run.
+   * Backfills rewrite any files already delivered for those days and leave the cursor alone.
+   */
+  public async startBackfill(siteId: number, startDate: string, endDate: string): Promise<WarehouseSyncRun> {
+    const [config] = await db.select().from(warehouseSyncs).where(eq(warehouseSyncs.siteId, siteId));
+    if (!config) {
+      throw new WarehouseSyncError("Warehouse sync is not configured for this site");
+    }
+
+    const today = DateTime.utc().toISODate()!;
+    const days = getDaysInRange(startDate, endDate).filter(day => day < today);
+    if (days.length === 0) {
+      throw new WarehouseSyncError("Backfill range must include at least one completed day");
+    }
+    if (days.length > MAX_BACKFILL_DAYS) {
+      throw new WarehouseSyncError(`Backfill range cannot be longer than ${MAX_BACKFILL_DAYS} days`);
+    }
+
+    const run = await this.createRun(config, "backfill", days);
+    // executeRun records its own failures, so this only catches failing to record them
+    this.executeRun(run, config, days).catch(error => {
+      this.logger.error({ error, siteId, runId: run.id }, "Error finishing warehouse backfill");
+    });
+    return run;
+  }
+
+  public async processScheduledSyncs(now: DateTime = DateTime.utc()): Promise<void> {
+    const configs = await db.select().from(warehouseSyncs).where(eq(warehouseSyncs.enabled, true));
+
+    for (const config of configs) {
+      const days = getDaysToSync(config.cursorDate, now);
+      if (days.length === 0) {
+        continue;
+      }
+
+      try {
+        const run = await this.createRun(config, "scheduled", days);
+        await this.executeRun(run, config, days);
+      } catch (error) {
+        this.logger.error({ error, siteId: config.siteId }, "Error starting warehouse sync");
+      }
+    }
+  }
+
+  public startWarehouseSyncCron(): void {
+    // Nightly, once the previous UTC day is complete
+    this.cronTask = cron.schedule(
+      "0 2 * * *",
+      async () => {
+        try {
+          await this.processScheduledSyncs();
+        } catch (error) {
+          this.logger.error(error as Error, "Error during scheduled warehouse sync");
+        }
+      },
+      { timezone: "UTC" }
+    );
+
+    this.logger.info("Warehouse sync cron initialized (runs daily at 02:00 UTC)");
+  }
+
+  public stopWarehouseSyncCron(): void {
+    if (this.cronTask) {
+      this.cronTask.stop();
+      this.logger.info("Warehouse sync cron stopped");
+    }
+  }
+}
+
+export const warehouseSyncService = new WarehouseSyncService();
@@ -0,0 +1,57 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import { getReportPeriod, isReportDue } from "./reportSchedule.js";
+
+// Monday 2024-01-01 is also the first day of the month
+const mondayAt = (hour: number, zone = "UTC") => DateTime.fromObject({ year: 2024, month: 1, day: 1, hour }, { zone });
+
+describe("isReportDue", () => {
+  it("is due at the subscriber's local send hour", () => {
+    const schedule = { frequency: "daily" as const, sendHour: 8, timezone: "America/New_York", lastSentAt: null };
+
+    expect(isReportDue(schedule, mondayAt(8, "America/New_York").toUTC())).toBe(true);
+    expect(isReportDue(schedule, mondayAt(8).toUTC())).toBe(false);
+  });
+
+  it("only sends weekly reports on Mondays and monthly reports on the 1st", () => {
+    const tuesday = mondayAt(8).plus({ days: 1 });
+
+    expect(isReportDue({ frequency: "weekly", sendHour: 8, timezone: "UTC", lastSentAt: null }, mondayAt(8))).toBe(
+      true
+    );
+    expect(isReportDue({ frequency: "weekly", sendHour: 8, timezone: "UTC", lastSentAt: null }, tuesday)).toBe(false);
+    expect(isReportDue({ frequency: "monthly", sendHour: 8, timezone: "UTC", lastSentAt: null }, mondayAt(8))).toBe(
+      true
+    );
+    expect(isReportDue({ frequency: "monthly", sendHour: 8, timezone: "UTC", lastSentAt: null }, tuesday)).toBe(false);
+  });
+
+  it("is not due again once sent during the current hour", () => {
+    const now = mondayAt(8).plus({ minutes: 30 });
+    const schedule = { frequency: "daily" as const, sendHour: 8, timezone: "UTC" };
+
+    expect(isReportDue({ ...schedule, lastSentAt: "2024-01-01 08:05:00" }, now)).toBe(false);
+    expect(isReportDue({ ...schedule, lastSentAt: "2023-12-31 08:05:00" }, now)).toBe(true);
+  });
+
+  it("never sends for an invalid timezone", () => {
+    expect(isReportDue({ frequency: "daily", sendHour: 8, timezone: "Not/AZone", lastSentAt: null }, mondayAt(8))).toBe(
+      false
+    );
+  });
+});
+
+describe("getReportPeriod", () => {
+  it("ends at the start of the current local hour", () => {
+    const period = getReportPeriod("weekly", "Europe/Berlin", mondayAt(8).plus({ minutes: 42 }));
+
+    expect(period.end.toISO()).toBe("2024-01-01T09:00:00.000+01:00");
+    expect(period.start.toISO()).toBe("2023-12-25T09:00:00.000+01:00");
+  });
+
+  it("covers a calendar month for monthly reports", () => {
+    const period = getReportPeriod("monthly", "UTC", mondayAt(8));
+
+    expect(period.start.toISODate()).toBe("2023-12-01");
+  });
+});
@@ -0,0 +1,54 @@
+import { DateTime } from "luxon";
+import type { ReportFrequency, ReportPeriod } from "./weeklyReportTypes.js";
+
+export interface ReportSchedule {
+  frequency: ReportFrequency;
+  sendHour: number;
+  timezone: string;
+  lastSentAt: string | null;
+}
+
+/**
+ * Whether a report on `schedule` should go out during the hour containing `now`.
+ * Weekly reports go out on Mondays and monthly reports on the 1st, both in the
+ * subscriber's timezone. A report already sent during this hour is never due again.
+ */
+export function isReportDue(schedule: ReportSchedule, now: DateTime): boolean {
+  const local = now.setZone(schedule.timezone);
+  if (!local.isValid || local.hour !== schedule.sendHour) {
+    return false;
+  }
+
+  if (schedule.frequency === "weekly" && local.weekday !== 1) {
+    return false;
+  }
+  if (schedule.frequency === "monthly" && local.day !== 1) {
+    return false;
+  }
+
+  if (schedule.lastSentAt) {
+    // Postgres returns timestamps without a time zone in SQL format, stored as UTC
+    const lastSent = DateTime.fromSQL(schedule.lastSentAt, { zone: "utc" });
+    if (lastSent.isValid && lastSent >= now.startOf("hour")) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * The period a report sent at `now` covers: the last day, 7 days or calendar-length
+ * month, ending at the start of the current hour in the subscriber's timezone.
+ */
+export function getReportPeriod(frequency: ReportFrequency, timezone: string, now: DateTime): ReportPeriod {
+  const end = now.setZone(timezone).startOf("hour");
+  const start =
+    frequency === "daily"
+      ? end.minus({ days: 1 })
+      : frequency === "weekly"
+        ? end.minus({ days: 7 })
+        : end.minus({ months: 1 });
+
+  return { frequency, start, end };
+}
@@ -0,0 +1,155 @@
+import * as cron from "node-cron";
+import { DateTime } from "luxon";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "../../db/postgres/postgres.js";
+import { member, organization, reportSubscriptions, sites, user } from "../../db/postgres/schema.js";
+import { createServiceLogger } from "../../lib/logger/logger.js";
+import { sendWeeklyReportEmail } from "../../lib/email/email.js";
+import { IS_CLOUD } from "../../lib/const.js";
+import { getReportPeriod, isReportDue } from "./reportSchedule.js";
+import { weeklyReportService } from "./weeklyReportService.js";
+import type { ReportFrequency, ReportSection } from "./weeklyReportTypes.js";
+
+type ReportSubscription = typeof reportSubscriptions.$inferSelect;
+
+export function getUnsubscribeUrl(token: string): string {
+  return `${process.env.BASE_URL}/api/report-subscriptions/unsubscribe/${token}`;
+}
+
+class ReportSubscriptionService {
+  private cronTask: cron.ScheduledTask | null = null;
+  private logger = createServiceLogger("report-subscriptions");
+
+  /**
+   * Renders and emails one report per subscribed site. Sites the user no longer has
+   * access to and sites without any pageviews in the period are skipped.
+   * Returns the number of emails sent.
+   */
+  public async sendSubscription(subscription: ReportSubscription, now: DateTime = DateTime.utc()): Promise<number> {
+    const [recipient] = await db
+      .select({ email: user.email, name: user.name })
+      .from(user)
+      .where(eq(user.id, subscription.userId));
+
+    if (!recipient || subscription.siteIds.length === 0) {
+      return 0;
+    }
+
+    // Only sites in organizations the user is still a member of
+    const subscribedSites = await db
+      .select({
+        siteId: sites.siteId,
+        name: sites.name,
+        domain: sites.domain,
+        organizationId: sites.organizationId,
+        organizationName: organization.name,
+      })
+      .from(sites)
+      .innerJoin(organization, eq(organization.id, sites.organizationId))
+      .innerJoin(member, and(eq(member.organizationId, sites.organizationId), eq(member.userId, subscription.userId)))
+      .where(inArray(sites.siteId, subscription.siteIds));
+
+    const frequency = subscription.frequency as ReportFrequency;
+    const period = getReportPeriod(frequency, subscription.timezone, now);
+    let sent = 0;
+
+    for (const site of subscribedSites) {
+      const report = await weeklyReportService.generateSiteReport(
+        site,
+        period,
+        subscription.sections as ReportSection[]
+      );
+      if (!report) {
+        continue;
+      }
+
+      try {
+        await sendWeeklyReportEmail(
+          recipient.email,
+          recipient.name,
+          {
+            organizationId: site.organizationId ?? "",
+            organizationName: site.organizationName,
+            sites: [report],
+          },
+          { frequency, unsubscribeUrl: getUnsubscribeUrl(subscription.unsubscribeToken) }
+        );
+        sent++;
+      } catch (error) {
+        this.logger.error(
+          { error, subscriptionId: subscription.id, siteId: site.siteId },
+          "Failed to send subscription report"
+        );
+      }
+    }
+
+    return sent;
+  }
+
+  public async processDueSubscriptions(now: DateTime = DateTime.utc()): Promise<void> {
+    const subscriptions = await db.select().from(reportSubscriptions).where(eq(reportSubscriptions.enabled, true));
+    const due = subscriptions.filter(subscription =>
+      isReportDue(
+        {
+          frequency: subscription.frequency as ReportFrequency,
+          sendHour: subscription.sendHour,
+          timezone: subscription.timezone,
+          lastSentAt: subscription.lastSentAt,
+        },
+        now
+      )
+    );
+
+    if (due.length === 0) {
+      return;
+    }
+
+    this.logger.info({ due: due.length }, "Sending scheduled reports");
+
+    let sentCount = 0;
+    for (const subscription of due) {
+      try {
+        sentCount += await this.sendSubscription(subscription, now);
+        await db
+          .update(reportSubscriptions)
+          .set({ lastSentAt: now.toISO() })
+          .where(eq(reportSubscriptions.id, subscription.id));
+      } catch (error) {
+        this.logger.error({ error, subscriptionId: subscription.id }, "Error processing report subscription");
+      }
+    }
+
+    this.logger.info({ subscriptions: due.length, emails: sentCount }, "Completed scheduled reports");
+  }
+
+  public startReportSubscriptionCron(): void {
+    if (!IS_CLOUD) {
+      this.logger.info("Skipping report subscription cron initialization for non-cloud instance");
+      return;
+    }
+
+    // Subscriptions pick their own local send hour, so check every hour
+    this.cronTask = cron.schedule(
+      "0 * * * *",
+      async () => {
+        try {
+          await this.processDueSubscriptions();
+        } catch (error) {
+          this.logger.error(error as Error, "Error during scheduled report processing");
+        }
+      },
+      { timezone: "UTC" }
+    );
+
+    this.logger.info("Report subscription cron initialized (runs hourly)");
+  }
+
+  public stopReportSubscriptionCron(): void {
+    if (this.cronTask) {
+      this.cronTask.stop();
+      this.logger.info("Report subscription cron stopped");
+    }
+  }
+}
+
+export const reportSubscriptionService = new ReportSubscriptionService();
@@ -1,14 +1,52 @@
 import * as cron from "node-cron";
 import { DateTime } from "luxon";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
+import SqlString from "sqlstring";
 import { db } from "../../db/postgres/postgres.js";
-import { organization, member, user, sites } from "../../db/postgres/schema.js";
+import {
+  organization,
+  member,
+  user,
+  sites,
+  goals,
+  reportSubscriptions,
+  uptimeMonitors,
+  uptimeMonitorStatus,
+} from "../../db/postgres/schema.js";
 import { clickhouse } from "../../db/clickhouse/clickhouse.js";
-import { processResults } from "../../api/analytics/utils.js";
+import { getSessionsSubquery, patternToRegex, processResults } from "../../api/analytics/utils.js";
 import { createServiceLogger } from "../../lib/logger/logger.js";
 import { sendWeeklyReportEmail } from "../../lib/email/email.js";
 import { IS_CLOUD } from "../../lib/const.js";
-import type { OverviewData, SingleColData, SiteReport, OrganizationReport } from "./weeklyReportTypes.js";
+import {
+  DEFAULT_REPORT_SECTIONS,
+  type GoalData,
+  type OverviewData,
+  type ReportPeriod,
+  type ReportSection,
+  type SingleColData,
+  type SiteReport,
+  type OrganizationReport,
+  type UptimeData,
+} from "./weeklyReportTypes.js";
+
+type ReportSite = Pick<typeof sites.$inferSelect, "siteId" | "name" | "domain" | "organizationId">;
+
+// Sessions around the report week, bounded by the startDate/endDate query params
+const REPORT_SESSIONS = getSessionsSubquery({
+  start: "toDateTime({startDate:String})",
+  end: "toDateTime({endDate:String})",
+  pastMinutes: false,
+});
+
+const EMPTY_OVERVIEW: OverviewData = {
+  sessions: 0,
+  pageviews: 0,
+  users: 0,
+  pages_per_session: 0,
+  bounce_rate: 0,
+  session_duration: 0,
+};
 
 class WeeklyReportService {
   private cronTask: cron.ScheduledTask | null = null;
@@ -16,7 +54,7 @@ class WeeklyReportService {
 
   constructor() {}
 
-  private async fetchOverviewData(siteId: number, startDate: string, endDate: string): Promise<OverviewData | null> {
+  public async fetchOverviewData(siteId: number, startDate: string, endDate: string): Promise<OverviewData | null> {
     try {
       const query = `SELECT
         session_stats.sessions,
@@ -30,24 +68,13 @@ class WeeklyReportService {
           -- Session-level metrics
           SELECT
               COUNT() AS sessions,
-              AVG(pages_in_session) AS pages_per_session,
-              sumIf(1, pages_in_session = 1) / COUNT() AS bounce_rate,
-              AVG(end_time - start_time) AS session_duration
-          FROM
-              (
-                  -- One row per session
-                  SELECT
-                      session_id,
-                      MIN(timestamp) AS start_time,
-                      MAX(timestamp) AS end_time,
-                      COUNT(CASE WHEN type = 'pageview' THEN 1 END) AS pages_in_session
-                  FROM events
-                  WHERE
-                      site_id = {siteId:Int32}
-                      AND timestamp >= toDateTime({startDate:String})
-                      AND timestamp < toDateTime({endDate:String})
-                  GROUP BY session_id
-              )
+              AVG(pageviews) AS pages_per_session,
+              sumIf(1, pageviews = 1) / COUNT() AS bounce_rate,
+              AVG(session_duration) AS session_duration
+          FROM ${REPORT_SESSIONS}
+          WHERE
+              session_start >= toDateTime({startDate:String})
+              AND session_start < toDateTime({endDate:String})
           ) AS session_stats
           CROSS JOIN
           (
@@ -81,7 +108,7 @@ class WeeklyReportService {
     }
   }
 
-  private async fetchTopN(
+  public async fetchTopN(
     siteId: number,
     parameter: string,
     startDate: string,
@@ -96,15 +123,14 @@ class WeeklyReportService {
           WITH PageStats AS (
             SELECT
               country as value,
-              COUNT(distinct(session_id)) as unique_sessions,
-              COUNT() as pageviews
-            FROM events
+              COUNT() as unique_sessions,
+              SUM(total_events) as pageviews
+            FROM ${REPORT_SESSIONS}
             WHERE
-                site_id = {siteId:Int32}
-                AND country IS NOT NULL
+                country IS NOT NULL
                 AND country <> ''
-                AND timestamp >= toDateTime({startDate:String})
-                AND timestamp < toDateTime({endDate:String})
+                AND session_start >= toDateTime({startDate:String})
+                AND session_start < toDateTime({endDate:String})
             GROUP BY value
           )
           SELECT
@@ -158,15 +184,14 @@ class WeeklyReportService {
           WITH PageStats AS (
             SELECT
               domainWithoutWWW(referrer) as value,
-              COUNT(distinct(session_id)) as unique_sessions,
-              COUNT() as pageviews
-            FROM events
+              COUNT() as unique_sessions,
+              SUM(total_events) as pageviews
+            FROM ${REPORT_SESSIONS}
             WHERE
-                site_id = {siteId:Int32}
-                AND domainWithoutWWW(referrer) IS NOT NULL
+                domainWithoutWWW(referrer) IS NOT NULL
                 AND domainWithoutWWW(referrer) <> ''
-                AND timestamp >= toDateTime({startDate:String})
-                AND timestamp < toDateTime({endDate:String})
+                AND session_start >= toDateTime({startDate:String})
+                AND session_start < toDateTime({endDate:String})
             GROUP BY value
           )
           SELECT
@@ -181,15 +206,14 @@ class WeeklyReportService {
           WITH PageStats AS (
             SELECT
               device_type as value,
-              COUNT(distinct(session_id)) as unique_sessions,
-              COUNT() as pageviews
-            FROM events
+              COUNT() as unique_sessions,
+              SUM(total_events) as pageviews
+            FROM ${REPORT_SESSIONS}
             WHERE
-                site_id = {siteId:Int32}
-                AND device_type IS NOT NULL
+                device_type IS NOT NULL
                 AND device_type <> ''
-                AND timestamp >= toDateTime({startDate:String})
-                AND timestamp < toDateTime({endDate:String})
+                AND session_start >= toDateTime({startDate:String})
+                AND session_start < toDateTime({endDate:String})
             GROUP BY value
           )
           SELECT
@@ -199,6 +223,28 @@ class WeeklyReportService {
           FROM PageStats
           ORDER BY count desc
           LIMIT {limit:Int32}`;
+      } else if (parameter === "error") {
+        query = `
+          WITH ErrorStats AS (
+            SELECT
+              JSONExtractString(toString(props), 'message') as value,
+              count() as occurrences
+            FROM events
+            WHERE
+                site_id = {siteId:Int32}
+                AND type = 'error'
+                AND JSONExtractString(toString(props), 'message') <> ''
+                AND timestamp >= toDateTime({startDate:String})
+                AND timestamp < toDateTime({endDate:String})
+            GROUP BY value
+          )
+          SELECT
+            value,
+            occurrences as count,
+            round((occurrences / sum(occurrences) OVER ()) * 100, 2) as percentage
+          FROM ErrorStats
+          ORDER BY count desc
+          LIMIT {limit:Int32}`;
       }
 
       const result = await clickhouse.query({
@@ -219,60 +265,201 @@ class WeeklyReportService {
     }
   }
 
-  private async generateSiteReport(siteId: number, siteName: string, siteDomain: string): Promise<SiteReport | null> {
+  public async fetchGoals(siteId: number, startDate: string, endDate: string): Promise<GoalData[]> {
     try {
-      // Use UTC timezone for consistency
-      const now = DateTime.utc();
+      const siteGoals = await db.select().from(goals).where(eq(goals.siteId, siteId));
+
+      // Same conversion logic as the goals API: sessions that matched the goal at least once
+      const clauses = siteGoals.flatMap(goal => {
+        if (goal.goalType === "path" && goal.config.pathPattern) {
+          const regex = patternToRegex(goal.config.pathPattern);
+          return [
+            `COUNT(DISTINCT IF(type = 'pageview' AND match(pathname, ${SqlString.escape(regex)}), session_id, NULL)) AS goal_${goal.goalId}`,
+          ];
+        }
+        if (goal.goalType === "event" && goal.config.eventName) {
+          let eventClause = `type = 'custom_event' AND event_name = ${SqlString.escape(goal.config.eventName)}`;
+          if (goal.config.eventPropertyKey && goal.config.eventPropertyValue !== undefined) {
+            eventClause += ` AND toString(props.${SqlString.escapeId(goal.config.eventPropertyKey)}) = ${SqlString.escape(String(goal.config.eventPropertyValue))}`;
+          }
+          return [`COUNT(DISTINCT IF(${eventClause}, session_id, NULL)) AS goal_${goal.goalId}`];
+        }
+        return [];
+      });
+
+      if (clauses.length === 0) {
+        return [];
+      }
+
+      const result = await clickhouse.query({
+        query: `
+          SELECT
+            COUNT(DISTINCT session_id) AS total_sessions,
+            ${clauses.join(",\n")}
+          FROM events
+          WHERE
+            site_id = {siteId:Int32}
+            AND timestamp >= toDateTime({startDate:String})
+            AND timestamp < toDateTime({endDate:String})`,
+        format: "JSONEachRow",
+        query_params: {
+          siteId,
+          startDate,
+          endDate,
+        },
+      });
 
-      // Calculate current week (last 7 days)
-      const currentWeekEnd = now;
-      const currentWeekStart = now.minus({ days: 7 });
+      const [row] = await processResults<Record<string, number>>(result);
+      const totalSessions = row?.total_sessions || 0;
+
+      return siteGoals
+        .filter(goal => row?.[`goal_${goal.goalId}`] !== undefined)
+        .map(goal => {
+          const conversions = row[`goal_${goal.goalId}`] || 0;
+          return {
+            goalId: goal.goalId,
+            name: goal.name || goal.config.pathPattern || goal.config.eventName || `Goal ${goal.goalId}`,
+            conversions,
+            conversionRate: totalSessions > 0 ? (conversions / totalSessions) * 100 : 0,
+          };
+        })
+        .sort((a, b) => b.conversions - a.conversions);
+    } catch (error) {
+      this.logger.error({ error, siteId }, "Error fetching goal conversions");
+      return [];
+    }
+  }
 
-      // Calculate previous week (8-14 days ago)
-      const previousWeekEnd = currentWeekStart;
-      const previousWeekStart = currentWeekStart.minus({ days: 7 });
+  public async fetchUptime(site: ReportSite, period: ReportPeriod): Promise<UptimeData[]> {
+    if (!site.organizationId) {
+      return [];
+    }
+
+    try {
+      const monitors = await db
+        .select({
+          monitorId: uptimeMonitors.id,
+          name: uptimeMonitors.name,
+          httpConfig: uptimeMonitors.httpConfig,
+          tcpConfig: uptimeMonitors.tcpConfig,
+          currentStatus: uptimeMonitorStatus.currentStatus,
+          uptimePercentage24h: uptimeMonitorStatus.uptimePercentage24h,
+          uptimePercentage7d: uptimeMonitorStatus.uptimePercentage7d,
+          uptimePercentage30d: uptimeMonitorStatus.uptimePercentage30d,
+        })
+        .from(uptimeMonitors)
+        .leftJoin(uptimeMonitorStatus, eq(uptimeMonitorStatus.monitorId, uptimeMonitors.id))
+        .where(and(eq(uptimeMonitors.organizationId, site.organizationId), eq(uptimeMonitors.enabled, true)));
+
+      const domain = site.domain.toLowerCase();
+
+      // Monitors belong to the organization, so only keep the ones that check this site's domain
+      return monitors
+        .filter(monitor => {
+          let host = monitor.tcpConfig?.host;
+          if (monitor.httpConfig?.url) {
+            try {
+              host = new URL(monitor.httpConfig.url).hostname;
+            } catch {
+              return false;
+            }
+          }
+          host = host?.toLowerCase();
+          return !!host && (host === domain || host.endsWith(`.${domain}`));
+        })
+        .map(monitor => ({
+          monitorId: monitor.monitorId,
+          name: monitor.name || monitor.httpConfig?.url || monitor.tcpConfig?.host || `Monitor ${monitor.monitorId}`,
+          currentStatus: monitor.currentStatus ?? "unknown",
+          uptimePercentage:
+            period.frequency === "daily"
+              ? monitor.uptimePercentage24h
+              : period.frequency === "weekly"
+                ? monitor.uptimePercentage7d
+                : monitor.uptimePercentage30d,
+        }));
+    } catch (error) {
+      this.logger.error({ error, siteId: site.siteId }, "Error fetching uptime data");
+      return [];
+    }
+  }
+
+  /**
+   * Builds the report for one site over `period`, compared to the period of the same
+   * length immediately before it. Only the queries needed for `sections` are run.
+   */
+  public async generateSiteReport(
+    site: ReportSite,
+    period: ReportPeriod,
+    sections: ReportSection[] = DEFAULT_REPORT_SECTIONS
+  ): Promise<SiteReport | null> {
+    try {
+      const previousEnd = period.start;
+      const previousStart =
+        period.frequency === "daily"
+          ? previousEnd.minus({ days: 1 })
+          : period.frequency === "weekly"
+            ? previousEnd.minus({ days: 7 })
+            : previousEnd.minus({ months: 1 });
 
       // Format dates for ClickHouse (YYYY-MM-DD HH:mm:ss)
-      const formatDate = (date: DateTime) => date.toFormat("yyyy-MM-dd HH:mm:ss");
-
-      const [currentWeek, previousWeek, topCountries, topPages, topReferrers, deviceBreakdown] = await Promise.all([
-        this.fetchOverviewData(siteId, formatDate(currentWeekStart), formatDate(currentWeekEnd)),
-        this.fetchOverviewData(siteId, formatDate(previousWeekStart), formatDate(previousWeekEnd)),
-        this.fetchTopN(siteId, "country", formatDate(currentWeekStart), formatDate(currentWeekEnd), 5),
-        this.fetchTopN(siteId, "pathname", formatDate(currentWeekStart), formatDate(currentWeekEnd), 5),
-        this.fetchTopN(siteId, "referrer", formatDate(currentWeekStart), formatDate(currentWeekEnd), 5),
-        this.fetchTopN(siteId, "device_type", formatDate(currentWeekStart), formatDate(currentWeekEnd), 5),
+      const formatDate = (date: DateTime) => date.toUTC().toFormat("yyyy-MM-dd HH:mm:ss");
+      const start = formatDate(period.start);
+      const end = formatDate(period.end);
+
+      const include = <T>(section: ReportSection, fetch: () => Promise<T[]>) =>
+        sections.includes(section) ? fetch() : Promise.resolve([] as T[]);
+
+      const [
+        currentPeriod,
+        previousPeriod,
+        topCountries,
+        topPages,
+        topReferrers,
+        deviceBreakdown,
+        goalData,
+        topErrors,
+        uptime,
+      ] = await Promise.all([
+        this.fetchOverviewData(site.siteId, start, end),
+        sections.includes("overview")
+          ? this.fetchOverviewData(site.siteId, formatDate(previousStart), formatDate(previousEnd))
+          : Promise.resolve(null),
+        include("countries", () => this.fetchTopN(site.siteId, "country", start, end, 5)),
+        include("top_pages", () => this.fetchTopN(site.siteId, "pathname", start, end, 5)),
+        include("referrers", () => this.fetchTopN(site.siteId, "referrer", start, end, 5)),
+        include("devices", () => this.fetchTopN(site.siteId, "device_type", start, end, 5)),
+        include("goals", () => this.fetchGoals(site.siteId, start, end)),
+        include("errors", () => this.fetchTopN(site.siteId, "error", start, end, 5)),
+        include("uptime", () => this.fetchUptime(site, period)),
       ]);
 
-      if (!currentWeek) {
+      if (!currentPeriod) {
         return null;
       }
 
       // Skip sites with no pageviews
-      if (!currentWeek.pageviews || currentWeek.pageviews === 0) {
+      if (!currentPeriod.pageviews || currentPeriod.pageviews === 0) {
         return null;
       }
 
       return {
-        siteId,
-        siteName,
-        siteDomain,
-        currentWeek,
-        previousWeek: previousWeek || {
-          sessions: 0,
-          pageviews: 0,
-          users: 0,
-          pages_per_session: 0,
-          bounce_rate: 0,
-          session_duration: 0,
-        },
+        siteId: site.siteId,
+        siteName: site.name,
+        siteDomain: site.domain,
+        currentPeriod,
+        previousPeriod: previousPeriod || EMPTY_OVERVIEW,
         topCountries,
         topPages,
         topReferrers,
         deviceBreakdown,
+        goals: goalData,
+        topErrors,
+        uptime,
+        sections,
       };
     } catch (error) {
-      this.logger.error({ error, siteId }, "Error generating site report");
+      this.logger.error({ error, siteId: site.siteId }, "Error generating site report");
       return null;
     }
   }
@@ -295,8 +482,12 @@ class WeeklyReportService {
 
       const siteReports: SiteReport[] = [];
 
+      // Use UTC timezone for consistency
+      const now = DateTime.utc();
+      const period: ReportPeriod = { frequency: "weekly", start: now.minus({ days: 7 }), end: now };
+
       for (const site of orgSites) {
-        const report = await this.generateSiteReport(site.siteId, site.name, site.domain);
+        const report = await this.generateSiteReport(site, period);
         if (report) {
           siteReports.push(report);
         }
@@ -331,10 +522,17 @@ class WeeklyReportService {
         .innerJoin(user, eq(member.userId, user.id))
         .where(eq(member.organizationId, report.organizationId));
 
+      // Users with their own report subscriptions get those instead of the default weekly report
+      const subscribedUserIds = new Set(
+        (await db.selectDistinct({ userId: reportSubscriptions.userId }).from(reportSubscriptions)).map(
+          row => row.userId
+        )
+      );
+
       // Send a separate email for each site to each member
       for (const memberData of members) {
         // Skip users who have disabled email reports
-        if (memberData.sendAutoEmailReports === false) {
+        if (memberData.sendAutoEmailReports === false || subscribedUserIds.has(memberData.userId)) {
           continue;
         }
 
@@ -1,3 +1,5 @@
+import type { DateTime } from "luxon";
+
 export interface OverviewData {
   sessions: number;
   pageviews: number;
@@ -13,16 +15,58 @@ export interface SingleColData {
   percentage: number | null;
 }
 
+export type ReportFrequency = "daily" | "weekly" | "monthly";
+
+export const REPORT_SECTIONS = [
+  "overview",
+  "top_pages",
+  "referrers",
+  "countries",
+  "devices",
+  "goals",
+  "errors",
+  "uptime",
+] as const;
+
+export type ReportSection = (typeof REPORT_SECTIONS)[number];
+
+// Sections of the legacy organization-wide weekly report
+export const DEFAULT_REPORT_SECTIONS: ReportSection[] = ["overview", "countries", "top_pages", "referrers", "devices"];
+
+export interface GoalData {
+  goalId: number;
+  name: string;
+  conversions: number;
+  conversionRate: number;
+}
+
+export interface UptimeData {
+  monitorId: number;
+  name: string;
+  currentStatus: string;
+  uptimePercentage: number | null;
+}
+
+export interface ReportPeriod {
+  frequency: ReportFrequency;
+  start: DateTime;
+  end: DateTime;
+}
+
 export interface SiteReport {
   siteId: number;
   siteName: string;
   siteDomain: string;
-  currentWeek: OverviewData;
-  previousWeek: OverviewData;
+  currentPeriod: OverviewData;
+  previousPeriod: OverviewData;
   topCountries: SingleColData[];
   topPages: SingleColData[];
   topReferrers: SingleColData[];
   deviceBreakdown: SingleColData[];
+  goals: GoalData[];
+  topErrors: SingleColData[];
+  uptime: UptimeData[];
+  sections: ReportSection[];
 }
 
 export interface OrganizationReport {
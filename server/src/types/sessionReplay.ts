@@ -80,4 +80,12 @@ export interface GetSessionReplayEventsResponse {
     data: any;
   }>;
   metadata: SessionReplayMetadata;
+  frustrationSignals: FrustrationSignal[];
+}
+
+export interface FrustrationSignal {
+  timestamp: number;
+  type: "rage_click" | "dead_click" | "error_click";
+  selector: string;
+  pathname: string;
 }
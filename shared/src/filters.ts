@@ -1,4 +1,20 @@
-export type FilterType = "equals" | "not_equals" | "contains" | "not_contains";
+export type FilterType =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "not_contains"
+  | "regex"
+  | "not_regex"
+  | "greater_than"
+  | "less_than"
+  | "between"
+  | "in"
+  | "not_in"
+  | "is_set"
+  | "is_not_set";
+
+// Custom event property, e.g. "prop:plan" filters on events.props.plan
+export type PropFilterParameter = `prop:${string}`;
 
 export type FilterParameter =
   | "browser"
@@ -27,7 +43,10 @@ export type FilterParameter =
   | "operating_system_version"
   | "user_id"
   | "lat"
-  | "lon";
+  | "lon"
+  | "screen_width"
+  | "screen_height"
+  | PropFilterParameter;
 
 export interface Filter {
   parameter: FilterParameter;
@@ -2,3 +2,5 @@ export * from "./filters";
 export * from "./params";
 export * from "./time";
 export * from "./performance";
+export * from "./jsonPath";
+export * from "./uptimeValidation";
@@ -0,0 +1,55 @@
+type PathSegment = string | number;
+
+/**
+ * Parses the JSONPath subset used by monitors: `$.data.items[0].id`, `$['odd key']` and `$.list[-1]`.
+ * Returns null for anything else.
+ */
+export function parseJsonPath(path: string): PathSegment[] | null {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith("$")) {
+    return null;
+  }
+
+  const segments: PathSegment[] = [];
+  const pattern = /\.([A-Za-z_$][\w$-]*)|\[(-?\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\]/y;
+  pattern.lastIndex = 1;
+
+  while (pattern.lastIndex < trimmed.length) {
+    const match = pattern.exec(trimmed);
+    if (!match) {
+      return null;
+    }
+    if (match[1] !== undefined) {
+      segments.push(match[1]);
+    } else if (match[2] !== undefined) {
+      segments.push(parseInt(match[2], 10));
+    } else {
+      segments.push((match[3] ?? match[4]).replace(/\\(.)/g, "$1"));
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Looks up a JSONPath in a parsed JSON value. Returns undefined when the path is invalid or doesn't exist.
+ */
+export function evaluateJsonPath(value: unknown, path: string): unknown {
+  const segments = parseJsonPath(path);
+  if (!segments) {
+    return undefined;
+  }
+
+  let current = value;
+  for (const segment of segments) {
+    if (typeof segment === "number") {
+      if (!Array.isArray(current)) return undefined;
+      current = current[segment < 0 ? current.length + segment : segment];
+    } else {
+      if (current === null || typeof current !== "object" || Array.isArray(current)) return undefined;
+      if (!Object.prototype.hasOwnProperty.call(current, segment)) return undefined;
+      current = (current as Record<string, unknown>)[segment];
+    }
+  }
+  return current;
+}
@@ -8,3 +8,13 @@ export interface BaseParams {
 }
 
 export type FilterParams<T = {}> = BaseParams & T;
+
+// Range to compare the selected one against: the equally long range right before it, the same dates a year
+// earlier, or explicit compareStartDate/compareEndDate
+export type CompareMode = "previous_period" | "previous_year" | "custom";
+
+export interface CompareParams {
+  compare?: CompareMode;
+  compareStartDate?: string;
+  compareEndDate?: string;
+}
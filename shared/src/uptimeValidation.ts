@@ -0,0 +1,405 @@
+import { evaluateJsonPath } from "./jsonPath";
+
+export type JsonPathOperator =
+  | "exists"
+  | "not_exists"
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "less_than"
+  | "greater_than"
+  | "length_equals"
+  | "length_less_than"
+  | "length_greater_than";
+
+export type ValidationRule =
+  | {
+      type: "status_code";
+      operator: "equals" | "not_equals" | "in" | "not_in";
+      value: number | number[];
+    }
+  | {
+      type: "response_time";
+      operator: "less_than" | "greater_than";
+      value: number;
+    }
+  | {
+      type: "response_body_contains" | "response_body_not_contains";
+      value: string;
+      caseSensitive?: boolean;
+    }
+  | {
+      type: "response_body_matches";
+      pattern: string;
+      caseSensitive?: boolean;
+    }
+  | {
+      type: "json_path";
+      path: string;
+      operator: JsonPathOperator;
+      // Unused by exists/not_exists; a number for the comparison and length operators
+      value?: string | number | boolean | null;
+    }
+  | {
+      type: "header_exists";
+      header: string;
+    }
+  | {
+      type: "header_value";
+      header: string;
+      operator: "equals" | "contains";
+      value: string;
+    }
+  | {
+      type: "header_matches";
+      header: string;
+      pattern: string;
+      caseSensitive?: boolean;
+    }
+  | {
+      type: "response_size";
+      operator: "less_than" | "greater_than";
+      value: number;
+    }
+  | {
+      type: "tls_expiry_days";
+      operator: "less_than" | "greater_than";
+      value: number;
+    }
+  | {
+      type: "redirect_count";
+      operator: "equals" | "less_than" | "greater_than";
+      value: number;
+    }
+  | {
+      type: "all_of" | "any_of";
+      rules: ValidationRule[];
+    };
+
+export type ValidationRuleType = ValidationRule["type"];
+
+// The parts of an HTTP check result that rules look at
+export interface ValidationTarget {
+  statusCode?: number;
+  responseTimeMs: number;
+  headers: Record<string, string>;
+  bodySizeBytes: number;
+  redirectCount?: number;
+  tlsDaysUntilExpiry?: number;
+}
+
+const BODY_RULE_TYPES: ValidationRuleType[] = [
+  "response_body_contains",
+  "response_body_not_contains",
+  "response_body_matches",
+  "json_path",
+];
+
+function hasRuleType(rules: ValidationRule[], types: ValidationRuleType[]): boolean {
+  return rules.some(rule =>
+    rule.type === "all_of" || rule.type === "any_of" ? hasRuleType(rule.rules, types) : types.includes(rule.type)
+  );
+}
+
+/**
+ * What a check has to collect beyond the usual result for the rules to be evaluated.
+ */
+export function getValidationRequirements(rules: ValidationRule[]): { responseBody: boolean; certificate: boolean } {
+  return {
+    responseBody: hasRuleType(rules, BODY_RULE_TYPES),
+    certificate: hasRuleType(rules, ["tls_expiry_days"]),
+  };
+}
+
+/**
+ * Runs rules against a check result and returns one error per failing rule. Used by both the server and the
+ * monitor agent so local and global checks agree.
+ */
+export function applyValidationRules(
+  result: ValidationTarget,
+  rules: ValidationRule[],
+  responseBody?: string
+): string[] {
+  const errors: string[] = [];
+
+  for (const rule of rules) {
+    const error = validateRuleSafely(result, rule, responseBody);
+    if (error) {
+      errors.push(error);
+    }
+  }
+
+  return errors;
+}
+
+function validateRuleSafely(result: ValidationTarget, rule: ValidationRule, responseBody?: string): string | null {
+  try {
+    return validateRule(result, rule, responseBody);
+  } catch (e) {
+    return `Validation rule error: ${e instanceof Error ? e.message : "Unknown error"}`;
+  }
+}
+
+function validateRule(result: ValidationTarget, rule: ValidationRule, responseBody?: string): string | null {
+  switch (rule.type) {
+    case "status_code":
+      if (!result.statusCode) return null;
+      return validateStatusCode(result.statusCode, rule);
+
+    case "response_time":
+      return compareNumber("Response time", result.responseTimeMs, rule.operator, rule.value, "ms");
+
+    case "response_body_contains":
+      if (!responseBody) return "Response body is empty";
+      return validateBodyContains(responseBody, rule.value, rule.caseSensitive, true);
+
+    case "response_body_not_contains":
+      if (!responseBody) return null;
+      return validateBodyContains(responseBody, rule.value, rule.caseSensitive, false);
+
+    case "response_body_matches":
+      if (!responseBody) return "Response body is empty";
+      if (!createRegExp(rule.pattern, rule.caseSensitive).test(responseBody)) {
+        return `Response body does not match /${rule.pattern}/`;
+      }
+      return null;
+
+    case "json_path":
+      return validateJsonPath(rule, responseBody);
+
+    case "header_exists":
+      if (findHeader(result.headers, rule.header) === undefined) {
+        return `Header "${rule.header}" does not exist`;
+      }
+      return null;
+
+    case "header_value":
+      return validateHeaderValue(result.headers, rule);
+
+    case "header_matches": {
+      const headerValue = findHeader(result.headers, rule.header);
+      if (headerValue === undefined) return `Header "${rule.header}" does not exist`;
+      if (!createRegExp(rule.pattern, rule.caseSensitive).test(headerValue)) {
+        return `Header "${rule.header}" value "${headerValue}" does not match /${rule.pattern}/`;
+      }
+      return null;
+    }
+
+    case "response_size":
+      return compareNumber("Response size", result.bodySizeBytes, rule.operator, rule.value, " bytes");
+
+    case "tls_expiry_days":
+      if (result.tlsDaysUntilExpiry === undefined) return "TLS certificate expiry is unknown";
+      return compareNumber("Certificate expiry", result.tlsDaysUntilExpiry, rule.operator, rule.value, " days");
+
+    case "redirect_count":
+      return compareNumber("Redirect count", result.redirectCount ?? 0, rule.operator, rule.value, "");
+
+    case "all_of": {
+      const errors = applyValidationRules(result, rule.rules, responseBody);
+      return errors.length > 0 ? errors.join("; ") : null;
+    }
+
+    case "any_of": {
+      const errors: string[] = [];
+      for (const child of rule.rules) {
+        const error = validateRuleSafely(result, child, responseBody);
+        if (!error) return null;
+        errors.push(error);
+      }
+      return errors.length > 0 ? `None of the rules passed: ${errors.join("; ")}` : null;
+    }
+
+    default:
+      return `Unknown validation rule type: ${(rule as { type: string }).type}`;
+  }
+}
+
+function validateStatusCode(statusCode: number, rule: Extract<ValidationRule, { type: "status_code" }>): string | null {
+  const value = rule.value;
+
+  switch (rule.operator) {
+    case "equals":
+      if (statusCode !== value) {
+        return `Status code ${statusCode} does not equal ${value}`;
+      }
+      break;
+
+    case "not_equals":
+      if (statusCode === value) {
+        return `Status code ${statusCode} equals ${value}`;
+      }
+      break;
+
+    case "in":
+      if (Array.isArray(value) && !value.includes(statusCode)) {
+        return `Status code ${statusCode} is not in [${value.join(", ")}]`;
+      }
+      break;
+
+    case "not_in":
+      if (Array.isArray(value) && value.includes(statusCode)) {
+        return `Status code ${statusCode} is in [${value.join(", ")}]`;
+      }
+      break;
+  }
+
+  return null;
+}
+
+function compareNumber(
+  label: string,
+  actual: number,
+  operator: "equals" | "less_than" | "greater_than",
+  expected: number,
+  unit: string
+): string | null {
+  switch (operator) {
+    case "equals":
+      if (actual !== expected) {
+        return `${label} ${actual}${unit} does not equal ${expected}${unit}`;
+      }
+      break;
+
+    case "less_than":
+      if (actual >= expected) {
+        return `${label} ${actual}${unit} is not less than ${expected}${unit}`;
+      }
+      break;
+
+    case "greater_than":
+      if (actual <= expected) {
+        return `${label} ${actual}${unit} is not greater than ${expected}${unit}`;
+      }
+      break;
+  }
+
+  return null;
+}
+
+function validateBodyContains(
+  body: string,
+  searchValue: string,
+  caseSensitive: boolean | undefined,
+  shouldContain: boolean
+): string | null {
+  const ignoreCase = caseSensitive === false;
+  const contains = (ignoreCase ? body.toLowerCase() : body).includes(
+    ignoreCase ? searchValue.toLowerCase() : searchValue
+  );
+
+  if (shouldContain && !contains) {
+    return `Response body does not contain "${searchValue}"`;
+  } else if (!shouldContain && contains) {
+    return `Response body contains "${searchValue}"`;
+  }
+
+  return null;
+}
+
+function findHeader(headers: Record<string, string>, name: string): string | undefined {
+  const headerKey = Object.keys(headers).find(key => key.toLowerCase() === name.toLowerCase());
+  return headerKey === undefined ? undefined : headers[headerKey];
+}
+
+function validateHeaderValue(
+  headers: Record<string, string>,
+  rule: Extract<ValidationRule, { type: "header_value" }>
+): string | null {
+  const headerValue = findHeader(headers, rule.header);
+
+  if (headerValue === undefined) {
+    return `Header "${rule.header}" does not exist`;
+  }
+
+  switch (rule.operator) {
+    case "equals":
+      if (headerValue !== rule.value) {
+        return `Header "${rule.header}" value "${headerValue}" does not equal "${rule.value}"`;
+      }
+      break;
+
+    case "contains":
+      if (!headerValue.includes(rule.value)) {
+        return `Header "${rule.header}" value "${headerValue}" does not contain "${rule.value}"`;
+      }
+      break;
+  }
+
+  return null;
+}
+
+function createRegExp(pattern: string, caseSensitive?: boolean): RegExp {
+  return new RegExp(pattern, caseSensitive === false ? "i" : "");
+}
+
+const formatJsonValue = (value: unknown) => (value === undefined ? "undefined" : JSON.stringify(value));
+
+function validateJsonPath(rule: Extract<ValidationRule, { type: "json_path" }>, responseBody?: string): string | null {
+  if (!responseBody) return "Response body is empty";
+
+  let document: unknown;
+  try {
+    document = JSON.parse(responseBody);
+  } catch {
+    return "Response body is not valid JSON";
+  }
+
+  const actual = evaluateJsonPath(document, rule.path);
+  const expected = rule.value;
+
+  switch (rule.operator) {
+    case "exists":
+      return actual === undefined ? `${rule.path} does not exist` : null;
+
+    case "not_exists":
+      return actual === undefined ? null : `${rule.path} exists`;
+
+    case "equals":
+      return isJsonEqual(actual, expected)
+        ? null
+        : `${rule.path} is ${formatJsonValue(actual)}, expected ${formatJsonValue(expected)}`;
+
+    case "not_equals":
+      return isJsonEqual(actual, expected) ? `${rule.path} equals ${formatJsonValue(expected)}` : null;
+
+    case "contains":
+      if (typeof actual === "string") {
+        return actual.includes(String(expected)) ? null : `${rule.path} does not contain "${expected}"`;
+      }
+      if (Array.isArray(actual)) {
+        return actual.some(item => isJsonEqual(item, expected))
+          ? null
+          : `${rule.path} does not contain ${formatJsonValue(expected)}`;
+      }
+      return `${rule.path} is not a string or array`;
+
+    case "less_than":
+    case "greater_than":
+      if (typeof actual !== "number") return `${rule.path} is not a number`;
+      return compareNumber(rule.path, actual, rule.operator, Number(expected), "");
+
+    case "length_equals":
+    case "length_less_than":
+    case "length_greater_than":
+      if (typeof actual !== "string" && !Array.isArray(actual)) return `${rule.path} is not a string or array`;
+      return compareNumber(
+        `Length of ${rule.path}`,
+        actual.length,
+        rule.operator === "length_equals"
+          ? "equals"
+          : rule.operator === "length_less_than"
+            ? "less_than"
+            : "greater_than",
+        Number(expected),
+        ""
+      );
+  }
+}
+
+// Primitives compare strictly, objects and arrays by their JSON form
+function isJsonEqual(actual: unknown, expected: unknown): boolean {
+  if (actual === expected) return true;
+  if (actual === undefined || typeof actual !== "object" || actual === null) return false;
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}